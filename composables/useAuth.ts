@@ -5,8 +5,8 @@ import { computed } from 'vue';
 export const useAuth = () => {
     const userStore = useUserStore();
 
-    const logout = () => {
-        userStore.clearUser();
+    const logout = async () => {
+        await userStore.logout();
         return navigateTo('/login');
     };
 
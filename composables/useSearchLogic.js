@@ -68,6 +68,127 @@ export const useSearchLogic = () => {
     throw lastError;
   };
 
+  // 本地资源没有结果时，把其他搜索源的夸克链接交给转存队列
+  const enqueueQuarkLinks = (list) => {
+    // 重置队列状态
+    queueState.successCount = 0;
+    queueState.isProcessing = false;
+    queueState.tasks = [];
+    queueState.errorCount = 0;
+
+    // 添加夸克链接到队列
+    list.forEach((result) => {
+      const links = result.links.filter((link) => link.service === "QUARK");
+      links.forEach((link) => {
+        queueState.tasks.push({
+          link: link.link,
+          name: result.name,
+        });
+      });
+    });
+
+    // 处理队列
+    processQueue();
+  };
+
+  // 通过 /api/search/federated 一次请求拿到所有搜索源的结果（NDJSON 流）
+  // 返回 false 表示流没能建立，调用方应退回逐个请求搜索源
+  const handleFederatedSearch = async (
+    keyword,
+    sources,
+    loadingProgress,
+    searchContext
+  ) => {
+    const isCurrentSearch = () =>
+      activeSearchId === searchContext.searchId && !searchContext.signal?.aborted;
+    const token = useCookie("token").value;
+    const headers = {
+      accept: "application/x-ndjson",
+      "content-type": "application/json",
+    };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    let response;
+    try {
+      response = await fetch("/api/search/federated?format=ndjson", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ name: keyword }),
+        signal: searchContext.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        return true;
+      }
+      console.error("聚合搜索连接失败:", error);
+      return false;
+    }
+
+    if (!response.ok || !response.body) {
+      return false;
+    }
+
+    const handleEvent = (event) => {
+      if (event.type === "start") {
+        loadingProgress.value = {
+          total: event.sources.length,
+          completed: 0,
+          isLoading: event.sources.length > 0,
+        };
+      } else if (event.type === "results") {
+        if (event.source === "local") {
+          sources.value.unshift(...event.items);
+        } else {
+          sources.value.push(...event.items);
+          if (window._needProcessQuarkLinks && quarkConfig.value.enabled) {
+            enqueueQuarkLinks(event.items);
+          }
+        }
+      } else if (event.type === "ranked") {
+        // 全部搜索源结束后，用跨源聚类、排序后的完整列表替换逐个追加的结果
+        sources.value = event.items;
+      } else if (event.type === "source_status") {
+        if (event.source === "local" && event.count === 0) {
+          window._needProcessQuarkLinks = true;
+        }
+        loadingProgress.value.completed++;
+      } else if (event.type === "error") {
+        console.error("聚合搜索失败:", event.msg);
+      }
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done || !isCurrentSearch()) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop();
+        lines.filter(Boolean).forEach((line) => handleEvent(JSON.parse(line)));
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("读取聚合搜索结果失败:", error);
+      }
+    } finally {
+      if (isCurrentSearch()) {
+        loadingProgress.value.isLoading = false;
+        delete window._needProcessQuarkLinks;
+      }
+    }
+
+    return true;
+  };
+
   // 处理单个搜索
   const handleSingleSearch = async (
     item,
@@ -137,28 +258,7 @@ export const useSearchLogic = () => {
             quarkConfig.value.enabled
           ) {
             sources.value.push(...res.list);
-
-            // 重置队列状态
-            queueState.successCount = 0;
-            queueState.isProcessing = false;
-            queueState.tasks = [];
-            queueState.errorCount = 0;
-
-            // 添加夸克链接到队列
-            res.list.forEach((result) => {
-              const links = result.links.filter(
-                (link) => link.service === "QUARK"
-              );
-              links.forEach((link) => {
-                queueState.tasks.push({
-                  link: link.link,
-                  name: result.name,
-                });
-              });
-            });
-
-            // 处理队列
-            processQueue();
+            enqueueQuarkLinks(res.list);
           } else {
             sources.value.push(...res.list);
           }
@@ -248,7 +348,13 @@ export const useSearchLogic = () => {
       };
     }
 
-    // 优先处理 1
+    if (
+      await handleFederatedSearch(keyword, sources, loadingProgress, searchContext)
+    ) {
+      return;
+    }
+
+    // 聚合搜索不可用时退回逐个请求，优先处理 1
     const aipanEndpoint = sourcesApiEndpoints.find(
       (item) => item.api === "/api/sources/local"
     );
@@ -0,0 +1,45 @@
+import guestSourceEndpoints from "~/assets/vod/clouddrive.json";
+import loginSourceEndpoints from "~/assets/vod/clouddrive-login.json";
+
+const MANIFEST_CACHE_TTL = 60 * 1000;
+const manifestCache = new Map();
+
+// 搜索源清单由服务端根据熔断状态下发，接口不可用时退回静态配置
+export const useSearchSourceManifest = () => {
+  const getFallbackSources = (loggedIn) =>
+    loggedIn ? loginSourceEndpoints : guestSourceEndpoints;
+
+  const getSearchSources = async (loggedIn) => {
+    const cacheKey = loggedIn ? "login" : "guest";
+    const cached = manifestCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.sources;
+    }
+
+    try {
+      const token = useCookie("token").value;
+      const response = await $fetch("/api/sources/manifest", {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        timeout: 5000,
+      });
+      const sources = response?.data?.sources;
+
+      if (Array.isArray(sources) && sources.length > 0) {
+        manifestCache.set(cacheKey, {
+          sources,
+          expiresAt: Date.now() + MANIFEST_CACHE_TTL,
+        });
+        return sources;
+      }
+    } catch (error) {
+      console.error("获取搜索源清单失败:", error);
+    }
+
+    return getFallbackSources(loggedIn);
+  };
+
+  return {
+    getFallbackSources,
+    getSearchSources,
+  };
+};
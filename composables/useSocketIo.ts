@@ -57,9 +57,8 @@ export const useSocketIo = () => {
     
     try {
       socket = io(wsUrl, {
-        auth: {
-          token
-        },
+        // 每次（重新）连接时读取最新的 access token，刷新后的 token 也能用于重连
+        auth: (cb) => cb({ token: userStore.token }),
         path: '/socket.io',
         transports: ['websocket'],
         reconnectionAttempts: 5,
@@ -76,6 +76,31 @@ export type BlogPost = Prisma.BlogPostModel
  *
  */
 export type UserResource = Prisma.UserResourceModel
+/**
+ * Model ResourceRequest
+ *
+ */
+export type ResourceRequest = Prisma.ResourceRequestModel
+/**
+ * Model ResourceRequestFulfillment
+ *
+ */
+export type ResourceRequestFulfillment = Prisma.ResourceRequestFulfillmentModel
+/**
+ * Model ResourceLinkHealth
+ *
+ */
+export type ResourceLinkHealth = Prisma.ResourceLinkHealthModel
+/**
+ * Model SearchSyncEvent
+ *
+ */
+export type SearchSyncEvent = Prisma.SearchSyncEventModel
+/**
+ * Model ExternalPanSource
+ *
+ */
+export type ExternalPanSource = Prisma.ExternalPanSourceModel
 /**
  * Model SystemSettings
  *
@@ -106,6 +131,21 @@ export type TvboxSource = Prisma.TvboxSourceModel
  *
  */
 export type EmailVerificationToken = Prisma.EmailVerificationTokenModel
+/**
+ * Model PasswordResetToken
+ *
+ */
+export type PasswordResetToken = Prisma.PasswordResetTokenModel
+/**
+ * Model CustomRole
+ *
+ */
+export type CustomRole = Prisma.CustomRoleModel
+/**
+ * Model AdminAuditLog
+ *
+ */
+export type AdminAuditLog = Prisma.AdminAuditLogModel
 /**
  * Model ForumCategory
  *
@@ -121,6 +161,31 @@ export type ForumTopic = Prisma.ForumTopicModel
  *
  */
 export type ForumPost = Prisma.ForumPostModel
+/**
+ * Model ForumPostReaction
+ *
+ */
+export type ForumPostReaction = Prisma.ForumPostReactionModel
+/**
+ * Model ForumReputationEvent
+ *
+ */
+export type ForumReputationEvent = Prisma.ForumReputationEventModel
+/**
+ * Model ForumSubscription
+ *
+ */
+export type ForumSubscription = Prisma.ForumSubscriptionModel
+/**
+ * Model ForumRevision
+ *
+ */
+export type ForumRevision = Prisma.ForumRevisionModel
+/**
+ * Model ForumDigestPreference
+ *
+ */
+export type ForumDigestPreference = Prisma.ForumDigestPreferenceModel
 /**
  * Model ForumTopicReadState
  *
@@ -131,6 +196,26 @@ export type ForumTopicReadState = Prisma.ForumTopicReadStateModel
  *
  */
 export type Notification = Prisma.NotificationModel
+/**
+ * Model Mention
+ *
+ */
+export type Mention = Prisma.MentionModel
+/**
+ * Model MentionMute
+ *
+ */
+export type MentionMute = Prisma.MentionMuteModel
+/**
+ * Model SavedSearch
+ *
+ */
+export type SavedSearch = Prisma.SavedSearchModel
+/**
+ * Model UserSession
+ *
+ */
+export type UserSession = Prisma.UserSessionModel
 /**
  * Model ChatRoom
  *
@@ -40,8 +40,8 @@ export { Prisma }
 
 
 // file annotations for bundling tools to include these files
-path.join(__dirname, "libquery_engine-darwin-arm64.dylib.node")
-path.join(process.cwd(), "generated/prisma/libquery_engine-darwin-arm64.dylib.node")
+path.join(__dirname, "libquery_engine-debian-openssl-3.0.x.so.node")
+path.join(process.cwd(), "generated/prisma/libquery_engine-debian-openssl-3.0.x.so.node")
 
 /**
  * Model User
@@ -103,6 +103,31 @@ export type BlogPost = Prisma.BlogPostModel
  *
  */
 export type UserResource = Prisma.UserResourceModel
+/**
+ * Model ResourceRequest
+ *
+ */
+export type ResourceRequest = Prisma.ResourceRequestModel
+/**
+ * Model ResourceRequestFulfillment
+ *
+ */
+export type ResourceRequestFulfillment = Prisma.ResourceRequestFulfillmentModel
+/**
+ * Model ResourceLinkHealth
+ *
+ */
+export type ResourceLinkHealth = Prisma.ResourceLinkHealthModel
+/**
+ * Model SearchSyncEvent
+ *
+ */
+export type SearchSyncEvent = Prisma.SearchSyncEventModel
+/**
+ * Model ExternalPanSource
+ *
+ */
+export type ExternalPanSource = Prisma.ExternalPanSourceModel
 /**
  * Model SystemSettings
  *
@@ -133,6 +158,21 @@ export type TvboxSource = Prisma.TvboxSourceModel
  *
  */
 export type EmailVerificationToken = Prisma.EmailVerificationTokenModel
+/**
+ * Model PasswordResetToken
+ *
+ */
+export type PasswordResetToken = Prisma.PasswordResetTokenModel
+/**
+ * Model CustomRole
+ *
+ */
+export type CustomRole = Prisma.CustomRoleModel
+/**
+ * Model AdminAuditLog
+ *
+ */
+export type AdminAuditLog = Prisma.AdminAuditLogModel
 /**
  * Model ForumCategory
  *
@@ -148,6 +188,31 @@ export type ForumTopic = Prisma.ForumTopicModel
  *
  */
 export type ForumPost = Prisma.ForumPostModel
+/**
+ * Model ForumPostReaction
+ *
+ */
+export type ForumPostReaction = Prisma.ForumPostReactionModel
+/**
+ * Model ForumReputationEvent
+ *
+ */
+export type ForumReputationEvent = Prisma.ForumReputationEventModel
+/**
+ * Model ForumSubscription
+ *
+ */
+export type ForumSubscription = Prisma.ForumSubscriptionModel
+/**
+ * Model ForumRevision
+ *
+ */
+export type ForumRevision = Prisma.ForumRevisionModel
+/**
+ * Model ForumDigestPreference
+ *
+ */
+export type ForumDigestPreference = Prisma.ForumDigestPreferenceModel
 /**
  * Model ForumTopicReadState
  *
@@ -158,6 +223,26 @@ export type ForumTopicReadState = Prisma.ForumTopicReadStateModel
  *
  */
 export type Notification = Prisma.NotificationModel
+/**
+ * Model Mention
+ *
+ */
+export type Mention = Prisma.MentionModel
+/**
+ * Model MentionMute
+ *
+ */
+export type MentionMute = Prisma.MentionMuteModel
+/**
+ * Model SavedSearch
+ *
+ */
+export type SavedSearch = Prisma.SavedSearchModel
+/**
+ * Model UserSession
+ *
+ */
+export type UserSession = Prisma.UserSessionModel
 /**
  * Model ChatRoom
  *
@@ -401,17 +401,34 @@ export const ModelName = {
   BlogPostToCategory: 'BlogPostToCategory',
   BlogPost: 'BlogPost',
   UserResource: 'UserResource',
+  ResourceRequest: 'ResourceRequest',
+  ResourceRequestFulfillment: 'ResourceRequestFulfillment',
+  ResourceLinkHealth: 'ResourceLinkHealth',
+  SearchSyncEvent: 'SearchSyncEvent',
+  ExternalPanSource: 'ExternalPanSource',
   SystemSettings: 'SystemSettings',
   SearchRecord: 'SearchRecord',
   DailySearchStats: 'DailySearchStats',
   UserVodConfig: 'UserVodConfig',
   TvboxSource: 'TvboxSource',
   EmailVerificationToken: 'EmailVerificationToken',
+  PasswordResetToken: 'PasswordResetToken',
+  CustomRole: 'CustomRole',
+  AdminAuditLog: 'AdminAuditLog',
   ForumCategory: 'ForumCategory',
   ForumTopic: 'ForumTopic',
   ForumPost: 'ForumPost',
+  ForumPostReaction: 'ForumPostReaction',
+  ForumReputationEvent: 'ForumReputationEvent',
+  ForumSubscription: 'ForumSubscription',
+  ForumRevision: 'ForumRevision',
+  ForumDigestPreference: 'ForumDigestPreference',
   ForumTopicReadState: 'ForumTopicReadState',
   Notification: 'Notification',
+  Mention: 'Mention',
+  MentionMute: 'MentionMute',
+  SavedSearch: 'SavedSearch',
+  UserSession: 'UserSession',
   ChatRoom: 'ChatRoom',
   ChatRoomUser: 'ChatRoomUser',
   ChatMessage: 'ChatMessage',
@@ -444,7 +461,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "resourceType" | "resource" | "post" | "postCategory" | "postToCategory" | "alist" | "comment" | "blogCategory" | "blogPostToCategory" | "blogPost" | "userResource" | "systemSettings" | "searchRecord" | "dailySearchStats" | "userVodConfig" | "tvboxSource" | "emailVerificationToken" | "forumCategory" | "forumTopic" | "forumPost" | "forumTopicReadState" | "notification" | "chatRoom" | "chatRoomUser" | "chatMessage" | "checkIn" | "pointsHistory" | "transferPointGrant" | "pointTask" | "pointTaskCompletion" | "registrationGiftGrant" | "redemptionCodeCampaign" | "redemptionCode" | "redemptionCodeRedemption" | "dailyRedemptionDrop" | "dailyRedemptionDropClaim" | "navigationCategory" | "navigationItem" | "report"
+    modelProps: "user" | "resourceType" | "resource" | "post" | "postCategory" | "postToCategory" | "alist" | "comment" | "blogCategory" | "blogPostToCategory" | "blogPost" | "userResource" | "resourceRequest" | "resourceRequestFulfillment" | "resourceLinkHealth" | "searchSyncEvent" | "externalPanSource" | "systemSettings" | "searchRecord" | "dailySearchStats" | "userVodConfig" | "tvboxSource" | "emailVerificationToken" | "passwordResetToken" | "customRole" | "adminAuditLog" | "forumCategory" | "forumTopic" | "forumPost" | "forumPostReaction" | "forumReputationEvent" | "forumSubscription" | "forumRevision" | "forumDigestPreference" | "forumTopicReadState" | "notification" | "mention" | "mentionMute" | "savedSearch" | "userSession" | "chatRoom" | "chatRoomUser" | "chatMessage" | "checkIn" | "pointsHistory" | "transferPointGrant" | "pointTask" | "pointTaskCompletion" | "registrationGiftGrant" | "redemptionCodeCampaign" | "redemptionCode" | "redemptionCodeRedemption" | "dailyRedemptionDrop" | "dailyRedemptionDropClaim" | "navigationCategory" | "navigationItem" | "report"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -1336,6 +1353,376 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ResourceRequest: {
+      payload: Prisma.$ResourceRequestPayload<ExtArgs>
+      fields: Prisma.ResourceRequestFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ResourceRequestFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ResourceRequestFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        findFirst: {
+          args: Prisma.ResourceRequestFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ResourceRequestFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        findMany: {
+          args: Prisma.ResourceRequestFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>[]
+        }
+        create: {
+          args: Prisma.ResourceRequestCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        createMany: {
+          args: Prisma.ResourceRequestCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ResourceRequestCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>[]
+        }
+        delete: {
+          args: Prisma.ResourceRequestDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        update: {
+          args: Prisma.ResourceRequestUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        deleteMany: {
+          args: Prisma.ResourceRequestDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ResourceRequestUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ResourceRequestUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>[]
+        }
+        upsert: {
+          args: Prisma.ResourceRequestUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestPayload>
+        }
+        aggregate: {
+          args: Prisma.ResourceRequestAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourceRequest>
+        }
+        groupBy: {
+          args: Prisma.ResourceRequestGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceRequestGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ResourceRequestCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceRequestCountAggregateOutputType> | number
+        }
+      }
+    }
+    ResourceRequestFulfillment: {
+      payload: Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>
+      fields: Prisma.ResourceRequestFulfillmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ResourceRequestFulfillmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ResourceRequestFulfillmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        findFirst: {
+          args: Prisma.ResourceRequestFulfillmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ResourceRequestFulfillmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        findMany: {
+          args: Prisma.ResourceRequestFulfillmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>[]
+        }
+        create: {
+          args: Prisma.ResourceRequestFulfillmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        createMany: {
+          args: Prisma.ResourceRequestFulfillmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ResourceRequestFulfillmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>[]
+        }
+        delete: {
+          args: Prisma.ResourceRequestFulfillmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        update: {
+          args: Prisma.ResourceRequestFulfillmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.ResourceRequestFulfillmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ResourceRequestFulfillmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ResourceRequestFulfillmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.ResourceRequestFulfillmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceRequestFulfillmentPayload>
+        }
+        aggregate: {
+          args: Prisma.ResourceRequestFulfillmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourceRequestFulfillment>
+        }
+        groupBy: {
+          args: Prisma.ResourceRequestFulfillmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceRequestFulfillmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ResourceRequestFulfillmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceRequestFulfillmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    ResourceLinkHealth: {
+      payload: Prisma.$ResourceLinkHealthPayload<ExtArgs>
+      fields: Prisma.ResourceLinkHealthFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ResourceLinkHealthFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ResourceLinkHealthFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        findFirst: {
+          args: Prisma.ResourceLinkHealthFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ResourceLinkHealthFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        findMany: {
+          args: Prisma.ResourceLinkHealthFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>[]
+        }
+        create: {
+          args: Prisma.ResourceLinkHealthCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        createMany: {
+          args: Prisma.ResourceLinkHealthCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ResourceLinkHealthCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>[]
+        }
+        delete: {
+          args: Prisma.ResourceLinkHealthDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        update: {
+          args: Prisma.ResourceLinkHealthUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        deleteMany: {
+          args: Prisma.ResourceLinkHealthDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ResourceLinkHealthUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ResourceLinkHealthUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>[]
+        }
+        upsert: {
+          args: Prisma.ResourceLinkHealthUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourceLinkHealthPayload>
+        }
+        aggregate: {
+          args: Prisma.ResourceLinkHealthAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourceLinkHealth>
+        }
+        groupBy: {
+          args: Prisma.ResourceLinkHealthGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceLinkHealthGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ResourceLinkHealthCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourceLinkHealthCountAggregateOutputType> | number
+        }
+      }
+    }
+    SearchSyncEvent: {
+      payload: Prisma.$SearchSyncEventPayload<ExtArgs>
+      fields: Prisma.SearchSyncEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SearchSyncEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SearchSyncEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        findFirst: {
+          args: Prisma.SearchSyncEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SearchSyncEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        findMany: {
+          args: Prisma.SearchSyncEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>[]
+        }
+        create: {
+          args: Prisma.SearchSyncEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        createMany: {
+          args: Prisma.SearchSyncEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SearchSyncEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>[]
+        }
+        delete: {
+          args: Prisma.SearchSyncEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        update: {
+          args: Prisma.SearchSyncEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.SearchSyncEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SearchSyncEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SearchSyncEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.SearchSyncEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchSyncEventPayload>
+        }
+        aggregate: {
+          args: Prisma.SearchSyncEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSearchSyncEvent>
+        }
+        groupBy: {
+          args: Prisma.SearchSyncEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SearchSyncEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SearchSyncEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SearchSyncEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    ExternalPanSource: {
+      payload: Prisma.$ExternalPanSourcePayload<ExtArgs>
+      fields: Prisma.ExternalPanSourceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ExternalPanSourceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ExternalPanSourceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        findFirst: {
+          args: Prisma.ExternalPanSourceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ExternalPanSourceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        findMany: {
+          args: Prisma.ExternalPanSourceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>[]
+        }
+        create: {
+          args: Prisma.ExternalPanSourceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        createMany: {
+          args: Prisma.ExternalPanSourceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ExternalPanSourceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>[]
+        }
+        delete: {
+          args: Prisma.ExternalPanSourceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        update: {
+          args: Prisma.ExternalPanSourceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        deleteMany: {
+          args: Prisma.ExternalPanSourceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ExternalPanSourceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ExternalPanSourceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>[]
+        }
+        upsert: {
+          args: Prisma.ExternalPanSourceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalPanSourcePayload>
+        }
+        aggregate: {
+          args: Prisma.ExternalPanSourceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExternalPanSource>
+        }
+        groupBy: {
+          args: Prisma.ExternalPanSourceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExternalPanSourceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ExternalPanSourceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExternalPanSourceCountAggregateOutputType> | number
+        }
+      }
+    }
     SystemSettings: {
       payload: Prisma.$SystemSettingsPayload<ExtArgs>
       fields: Prisma.SystemSettingsFieldRefs
@@ -1780,123 +2167,345 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    ForumCategory: {
-      payload: Prisma.$ForumCategoryPayload<ExtArgs>
-      fields: Prisma.ForumCategoryFieldRefs
+    PasswordResetToken: {
+      payload: Prisma.$PasswordResetTokenPayload<ExtArgs>
+      fields: Prisma.PasswordResetTokenFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ForumCategoryFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload> | null
+          args: Prisma.PasswordResetTokenFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ForumCategoryFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         findFirst: {
-          args: Prisma.ForumCategoryFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload> | null
+          args: Prisma.PasswordResetTokenFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ForumCategoryFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         findMany: {
-          args: Prisma.ForumCategoryFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+          args: Prisma.PasswordResetTokenFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>[]
         }
         create: {
-          args: Prisma.ForumCategoryCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         createMany: {
-          args: Prisma.ForumCategoryCreateManyArgs<ExtArgs>
+          args: Prisma.PasswordResetTokenCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ForumCategoryCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+          args: Prisma.PasswordResetTokenCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>[]
         }
         delete: {
-          args: Prisma.ForumCategoryDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         update: {
-          args: Prisma.ForumCategoryUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         deleteMany: {
-          args: Prisma.ForumCategoryDeleteManyArgs<ExtArgs>
+          args: Prisma.PasswordResetTokenDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ForumCategoryUpdateManyArgs<ExtArgs>
+          args: Prisma.PasswordResetTokenUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ForumCategoryUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+          args: Prisma.PasswordResetTokenUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>[]
         }
         upsert: {
-          args: Prisma.ForumCategoryUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+          args: Prisma.PasswordResetTokenUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PasswordResetTokenPayload>
         }
         aggregate: {
-          args: Prisma.ForumCategoryAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateForumCategory>
+          args: Prisma.PasswordResetTokenAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePasswordResetToken>
         }
         groupBy: {
-          args: Prisma.ForumCategoryGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumCategoryGroupByOutputType>[]
+          args: Prisma.PasswordResetTokenGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PasswordResetTokenGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ForumCategoryCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumCategoryCountAggregateOutputType> | number
+          args: Prisma.PasswordResetTokenCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PasswordResetTokenCountAggregateOutputType> | number
         }
       }
     }
-    ForumTopic: {
-      payload: Prisma.$ForumTopicPayload<ExtArgs>
-      fields: Prisma.ForumTopicFieldRefs
+    CustomRole: {
+      payload: Prisma.$CustomRolePayload<ExtArgs>
+      fields: Prisma.CustomRoleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ForumTopicFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload> | null
+          args: Prisma.CustomRoleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ForumTopicFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+          args: Prisma.CustomRoleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
         }
         findFirst: {
-          args: Prisma.ForumTopicFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload> | null
+          args: Prisma.CustomRoleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ForumTopicFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+          args: Prisma.CustomRoleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
         }
         findMany: {
-          args: Prisma.ForumTopicFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>[]
+          args: Prisma.CustomRoleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>[]
         }
         create: {
-          args: Prisma.ForumTopicCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+          args: Prisma.CustomRoleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
         }
         createMany: {
-          args: Prisma.ForumTopicCreateManyArgs<ExtArgs>
+          args: Prisma.CustomRoleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ForumTopicCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>[]
+          args: Prisma.CustomRoleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>[]
         }
         delete: {
-          args: Prisma.ForumTopicDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+          args: Prisma.CustomRoleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
         }
         update: {
-          args: Prisma.ForumTopicUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+          args: Prisma.CustomRoleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
+        }
+        deleteMany: {
+          args: Prisma.CustomRoleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CustomRoleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CustomRoleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>[]
+        }
+        upsert: {
+          args: Prisma.CustomRoleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomRolePayload>
+        }
+        aggregate: {
+          args: Prisma.CustomRoleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCustomRole>
+        }
+        groupBy: {
+          args: Prisma.CustomRoleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CustomRoleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CustomRoleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CustomRoleCountAggregateOutputType> | number
+        }
+      }
+    }
+    AdminAuditLog: {
+      payload: Prisma.$AdminAuditLogPayload<ExtArgs>
+      fields: Prisma.AdminAuditLogFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AdminAuditLogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AdminAuditLogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        findFirst: {
+          args: Prisma.AdminAuditLogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AdminAuditLogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        findMany: {
+          args: Prisma.AdminAuditLogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>[]
+        }
+        create: {
+          args: Prisma.AdminAuditLogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        createMany: {
+          args: Prisma.AdminAuditLogCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AdminAuditLogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>[]
+        }
+        delete: {
+          args: Prisma.AdminAuditLogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        update: {
+          args: Prisma.AdminAuditLogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        deleteMany: {
+          args: Prisma.AdminAuditLogDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AdminAuditLogUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AdminAuditLogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>[]
+        }
+        upsert: {
+          args: Prisma.AdminAuditLogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AdminAuditLogPayload>
+        }
+        aggregate: {
+          args: Prisma.AdminAuditLogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAdminAuditLog>
+        }
+        groupBy: {
+          args: Prisma.AdminAuditLogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AdminAuditLogGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AdminAuditLogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AdminAuditLogCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumCategory: {
+      payload: Prisma.$ForumCategoryPayload<ExtArgs>
+      fields: Prisma.ForumCategoryFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumCategoryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumCategoryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumCategoryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumCategoryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        findMany: {
+          args: Prisma.ForumCategoryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+        }
+        create: {
+          args: Prisma.ForumCategoryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        createMany: {
+          args: Prisma.ForumCategoryCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumCategoryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumCategoryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        update: {
+          args: Prisma.ForumCategoryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumCategoryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumCategoryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumCategoryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumCategoryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumCategoryPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumCategoryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumCategory>
+        }
+        groupBy: {
+          args: Prisma.ForumCategoryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumCategoryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumCategoryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumCategoryCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumTopic: {
+      payload: Prisma.$ForumTopicPayload<ExtArgs>
+      fields: Prisma.ForumTopicFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumTopicFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumTopicFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumTopicFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumTopicFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+        }
+        findMany: {
+          args: Prisma.ForumTopicFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>[]
+        }
+        create: {
+          args: Prisma.ForumTopicCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+        }
+        createMany: {
+          args: Prisma.ForumTopicCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumTopicCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumTopicDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
+        }
+        update: {
+          args: Prisma.ForumTopicUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicPayload>
         }
         deleteMany: {
           args: Prisma.ForumTopicDeleteManyArgs<ExtArgs>
@@ -1949,204 +2558,870 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
         }
         findMany: {
-          args: Prisma.ForumPostFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+          args: Prisma.ForumPostFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+        }
+        create: {
+          args: Prisma.ForumPostCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+        }
+        createMany: {
+          args: Prisma.ForumPostCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumPostCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumPostDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+        }
+        update: {
+          args: Prisma.ForumPostUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumPostDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumPostUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumPostUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumPostUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumPostAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumPost>
+        }
+        groupBy: {
+          args: Prisma.ForumPostGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumPostGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumPostCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumPostCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumPostReaction: {
+      payload: Prisma.$ForumPostReactionPayload<ExtArgs>
+      fields: Prisma.ForumPostReactionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumPostReactionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumPostReactionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumPostReactionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumPostReactionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        findMany: {
+          args: Prisma.ForumPostReactionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>[]
+        }
+        create: {
+          args: Prisma.ForumPostReactionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        createMany: {
+          args: Prisma.ForumPostReactionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumPostReactionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumPostReactionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        update: {
+          args: Prisma.ForumPostReactionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumPostReactionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumPostReactionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumPostReactionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumPostReactionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostReactionPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumPostReactionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumPostReaction>
+        }
+        groupBy: {
+          args: Prisma.ForumPostReactionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumPostReactionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumPostReactionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumPostReactionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumReputationEvent: {
+      payload: Prisma.$ForumReputationEventPayload<ExtArgs>
+      fields: Prisma.ForumReputationEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumReputationEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumReputationEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumReputationEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumReputationEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        findMany: {
+          args: Prisma.ForumReputationEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>[]
+        }
+        create: {
+          args: Prisma.ForumReputationEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        createMany: {
+          args: Prisma.ForumReputationEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumReputationEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumReputationEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        update: {
+          args: Prisma.ForumReputationEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumReputationEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumReputationEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumReputationEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumReputationEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumReputationEventPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumReputationEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumReputationEvent>
+        }
+        groupBy: {
+          args: Prisma.ForumReputationEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumReputationEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumReputationEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumReputationEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumSubscription: {
+      payload: Prisma.$ForumSubscriptionPayload<ExtArgs>
+      fields: Prisma.ForumSubscriptionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumSubscriptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumSubscriptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumSubscriptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumSubscriptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        findMany: {
+          args: Prisma.ForumSubscriptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>[]
+        }
+        create: {
+          args: Prisma.ForumSubscriptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        createMany: {
+          args: Prisma.ForumSubscriptionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumSubscriptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumSubscriptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        update: {
+          args: Prisma.ForumSubscriptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumSubscriptionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumSubscriptionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumSubscriptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumSubscriptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumSubscriptionPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumSubscriptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumSubscription>
+        }
+        groupBy: {
+          args: Prisma.ForumSubscriptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumSubscriptionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumSubscriptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumSubscriptionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumRevision: {
+      payload: Prisma.$ForumRevisionPayload<ExtArgs>
+      fields: Prisma.ForumRevisionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumRevisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumRevisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        findFirst: {
+          args: Prisma.ForumRevisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumRevisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        findMany: {
+          args: Prisma.ForumRevisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>[]
+        }
+        create: {
+          args: Prisma.ForumRevisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        createMany: {
+          args: Prisma.ForumRevisionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumRevisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>[]
+        }
+        delete: {
+          args: Prisma.ForumRevisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        update: {
+          args: Prisma.ForumRevisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumRevisionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumRevisionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumRevisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumRevisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumRevisionPayload>
+        }
+        aggregate: {
+          args: Prisma.ForumRevisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumRevision>
+        }
+        groupBy: {
+          args: Prisma.ForumRevisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumRevisionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumRevisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumRevisionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumDigestPreference: {
+      payload: Prisma.$ForumDigestPreferencePayload<ExtArgs>
+      fields: Prisma.ForumDigestPreferenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumDigestPreferenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumDigestPreferenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        findFirst: {
+          args: Prisma.ForumDigestPreferenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumDigestPreferenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        findMany: {
+          args: Prisma.ForumDigestPreferenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>[]
+        }
+        create: {
+          args: Prisma.ForumDigestPreferenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        createMany: {
+          args: Prisma.ForumDigestPreferenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumDigestPreferenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>[]
+        }
+        delete: {
+          args: Prisma.ForumDigestPreferenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        update: {
+          args: Prisma.ForumDigestPreferenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumDigestPreferenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumDigestPreferenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumDigestPreferenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumDigestPreferenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumDigestPreferencePayload>
+        }
+        aggregate: {
+          args: Prisma.ForumDigestPreferenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumDigestPreference>
+        }
+        groupBy: {
+          args: Prisma.ForumDigestPreferenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumDigestPreferenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumDigestPreferenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumDigestPreferenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    ForumTopicReadState: {
+      payload: Prisma.$ForumTopicReadStatePayload<ExtArgs>
+      fields: Prisma.ForumTopicReadStateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ForumTopicReadStateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ForumTopicReadStateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        findFirst: {
+          args: Prisma.ForumTopicReadStateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ForumTopicReadStateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        findMany: {
+          args: Prisma.ForumTopicReadStateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+        }
+        create: {
+          args: Prisma.ForumTopicReadStateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        createMany: {
+          args: Prisma.ForumTopicReadStateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ForumTopicReadStateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+        }
+        delete: {
+          args: Prisma.ForumTopicReadStateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        update: {
+          args: Prisma.ForumTopicReadStateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        deleteMany: {
+          args: Prisma.ForumTopicReadStateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ForumTopicReadStateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ForumTopicReadStateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+        }
+        upsert: {
+          args: Prisma.ForumTopicReadStateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+        }
+        aggregate: {
+          args: Prisma.ForumTopicReadStateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateForumTopicReadState>
+        }
+        groupBy: {
+          args: Prisma.ForumTopicReadStateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumTopicReadStateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ForumTopicReadStateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ForumTopicReadStateCountAggregateOutputType> | number
+        }
+      }
+    }
+    Notification: {
+      payload: Prisma.$NotificationPayload<ExtArgs>
+      fields: Prisma.NotificationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.NotificationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.NotificationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        findFirst: {
+          args: Prisma.NotificationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.NotificationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        findMany: {
+          args: Prisma.NotificationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        create: {
+          args: Prisma.NotificationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        createMany: {
+          args: Prisma.NotificationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.NotificationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        delete: {
+          args: Prisma.NotificationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        update: {
+          args: Prisma.NotificationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        deleteMany: {
+          args: Prisma.NotificationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.NotificationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.NotificationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        upsert: {
+          args: Prisma.NotificationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        aggregate: {
+          args: Prisma.NotificationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNotification>
+        }
+        groupBy: {
+          args: Prisma.NotificationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NotificationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.NotificationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NotificationCountAggregateOutputType> | number
+        }
+      }
+    }
+    Mention: {
+      payload: Prisma.$MentionPayload<ExtArgs>
+      fields: Prisma.MentionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.MentionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.MentionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        findFirst: {
+          args: Prisma.MentionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.MentionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        findMany: {
+          args: Prisma.MentionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>[]
+        }
+        create: {
+          args: Prisma.MentionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        createMany: {
+          args: Prisma.MentionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.MentionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>[]
+        }
+        delete: {
+          args: Prisma.MentionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        update: {
+          args: Prisma.MentionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        deleteMany: {
+          args: Prisma.MentionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.MentionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.MentionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>[]
+        }
+        upsert: {
+          args: Prisma.MentionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionPayload>
+        }
+        aggregate: {
+          args: Prisma.MentionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateMention>
+        }
+        groupBy: {
+          args: Prisma.MentionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MentionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.MentionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MentionCountAggregateOutputType> | number
+        }
+      }
+    }
+    MentionMute: {
+      payload: Prisma.$MentionMutePayload<ExtArgs>
+      fields: Prisma.MentionMuteFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.MentionMuteFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.MentionMuteFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
+        }
+        findFirst: {
+          args: Prisma.MentionMuteFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.MentionMuteFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
+        }
+        findMany: {
+          args: Prisma.MentionMuteFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>[]
         }
         create: {
-          args: Prisma.ForumPostCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+          args: Prisma.MentionMuteCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
         }
         createMany: {
-          args: Prisma.ForumPostCreateManyArgs<ExtArgs>
+          args: Prisma.MentionMuteCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ForumPostCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+          args: Prisma.MentionMuteCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>[]
         }
         delete: {
-          args: Prisma.ForumPostDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+          args: Prisma.MentionMuteDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
         }
         update: {
-          args: Prisma.ForumPostUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+          args: Prisma.MentionMuteUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
         }
         deleteMany: {
-          args: Prisma.ForumPostDeleteManyArgs<ExtArgs>
+          args: Prisma.MentionMuteDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ForumPostUpdateManyArgs<ExtArgs>
+          args: Prisma.MentionMuteUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ForumPostUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>[]
+          args: Prisma.MentionMuteUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>[]
         }
         upsert: {
-          args: Prisma.ForumPostUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumPostPayload>
+          args: Prisma.MentionMuteUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MentionMutePayload>
         }
         aggregate: {
-          args: Prisma.ForumPostAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateForumPost>
+          args: Prisma.MentionMuteAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateMentionMute>
         }
         groupBy: {
-          args: Prisma.ForumPostGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumPostGroupByOutputType>[]
+          args: Prisma.MentionMuteGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MentionMuteGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ForumPostCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumPostCountAggregateOutputType> | number
+          args: Prisma.MentionMuteCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MentionMuteCountAggregateOutputType> | number
         }
       }
     }
-    ForumTopicReadState: {
-      payload: Prisma.$ForumTopicReadStatePayload<ExtArgs>
-      fields: Prisma.ForumTopicReadStateFieldRefs
+    SavedSearch: {
+      payload: Prisma.$SavedSearchPayload<ExtArgs>
+      fields: Prisma.SavedSearchFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ForumTopicReadStateFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload> | null
+          args: Prisma.SavedSearchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ForumTopicReadStateFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         findFirst: {
-          args: Prisma.ForumTopicReadStateFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload> | null
+          args: Prisma.SavedSearchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ForumTopicReadStateFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         findMany: {
-          args: Prisma.ForumTopicReadStateFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+          args: Prisma.SavedSearchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
         }
         create: {
-          args: Prisma.ForumTopicReadStateCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         createMany: {
-          args: Prisma.ForumTopicReadStateCreateManyArgs<ExtArgs>
+          args: Prisma.SavedSearchCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ForumTopicReadStateCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+          args: Prisma.SavedSearchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
         }
         delete: {
-          args: Prisma.ForumTopicReadStateDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         update: {
-          args: Prisma.ForumTopicReadStateUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         deleteMany: {
-          args: Prisma.ForumTopicReadStateDeleteManyArgs<ExtArgs>
+          args: Prisma.SavedSearchDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ForumTopicReadStateUpdateManyArgs<ExtArgs>
+          args: Prisma.SavedSearchUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ForumTopicReadStateUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>[]
+          args: Prisma.SavedSearchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
         }
         upsert: {
-          args: Prisma.ForumTopicReadStateUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ForumTopicReadStatePayload>
+          args: Prisma.SavedSearchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
         }
         aggregate: {
-          args: Prisma.ForumTopicReadStateAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateForumTopicReadState>
+          args: Prisma.SavedSearchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSavedSearch>
         }
         groupBy: {
-          args: Prisma.ForumTopicReadStateGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumTopicReadStateGroupByOutputType>[]
+          args: Prisma.SavedSearchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ForumTopicReadStateCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ForumTopicReadStateCountAggregateOutputType> | number
+          args: Prisma.SavedSearchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchCountAggregateOutputType> | number
         }
       }
     }
-    Notification: {
-      payload: Prisma.$NotificationPayload<ExtArgs>
-      fields: Prisma.NotificationFieldRefs
+    UserSession: {
+      payload: Prisma.$UserSessionPayload<ExtArgs>
+      fields: Prisma.UserSessionFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.NotificationFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+          args: Prisma.UserSessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.NotificationFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         findFirst: {
-          args: Prisma.NotificationFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+          args: Prisma.UserSessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.NotificationFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         findMany: {
-          args: Prisma.NotificationFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+          args: Prisma.UserSessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>[]
         }
         create: {
-          args: Prisma.NotificationCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         createMany: {
-          args: Prisma.NotificationCreateManyArgs<ExtArgs>
+          args: Prisma.UserSessionCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.NotificationCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+          args: Prisma.UserSessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>[]
         }
         delete: {
-          args: Prisma.NotificationDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         update: {
-          args: Prisma.NotificationUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         deleteMany: {
-          args: Prisma.NotificationDeleteManyArgs<ExtArgs>
+          args: Prisma.UserSessionDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.NotificationUpdateManyArgs<ExtArgs>
+          args: Prisma.UserSessionUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.NotificationUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+          args: Prisma.UserSessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>[]
         }
         upsert: {
-          args: Prisma.NotificationUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+          args: Prisma.UserSessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserSessionPayload>
         }
         aggregate: {
-          args: Prisma.NotificationAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateNotification>
+          args: Prisma.UserSessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUserSession>
         }
         groupBy: {
-          args: Prisma.NotificationGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.NotificationGroupByOutputType>[]
+          args: Prisma.UserSessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserSessionGroupByOutputType>[]
         }
         count: {
-          args: Prisma.NotificationCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.NotificationCountAggregateOutputType> | number
+          args: Prisma.UserSessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserSessionCountAggregateOutputType> | number
         }
       }
     }
@@ -3457,6 +4732,7 @@ export const UserScalarFieldEnum = {
   avatarStyle: 'avatarStyle',
   salt: 'salt',
   points: 'points',
+  forumReputation: 'forumReputation',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isVerified: 'isVerified',
@@ -3611,6 +4887,94 @@ export const UserResourceScalarFieldEnum = {
 export type UserResourceScalarFieldEnum = (typeof UserResourceScalarFieldEnum)[keyof typeof UserResourceScalarFieldEnum]
 
 
+export const ResourceRequestScalarFieldEnum = {
+  id: 'id',
+  requesterId: 'requesterId',
+  title: 'title',
+  description: 'description',
+  bounty: 'bounty',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourceRequestScalarFieldEnum = (typeof ResourceRequestScalarFieldEnum)[keyof typeof ResourceRequestScalarFieldEnum]
+
+
+export const ResourceRequestFulfillmentScalarFieldEnum = {
+  id: 'id',
+  requestId: 'requestId',
+  userResourceId: 'userResourceId',
+  userId: 'userId',
+  note: 'note',
+  acceptedAt: 'acceptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ResourceRequestFulfillmentScalarFieldEnum = (typeof ResourceRequestFulfillmentScalarFieldEnum)[keyof typeof ResourceRequestFulfillmentScalarFieldEnum]
+
+
+export const ResourceLinkHealthScalarFieldEnum = {
+  id: 'id',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  link: 'link',
+  canonicalLink: 'canonicalLink',
+  service: 'service',
+  status: 'status',
+  consecutiveFailures: 'consecutiveFailures',
+  checkCount: 'checkCount',
+  lastStatusCode: 'lastStatusCode',
+  lastError: 'lastError',
+  lastCheckedAt: 'lastCheckedAt',
+  lastOkAt: 'lastOkAt',
+  unpublishedAt: 'unpublishedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourceLinkHealthScalarFieldEnum = (typeof ResourceLinkHealthScalarFieldEnum)[keyof typeof ResourceLinkHealthScalarFieldEnum]
+
+
+export const SearchSyncEventScalarFieldEnum = {
+  id: 'id',
+  target: 'target',
+  entityId: 'entityId',
+  action: 'action',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  lockedAt: 'lockedAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SearchSyncEventScalarFieldEnum = (typeof SearchSyncEventScalarFieldEnum)[keyof typeof SearchSyncEventScalarFieldEnum]
+
+
+export const ExternalPanSourceScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  label: 'label',
+  parserType: 'parserType',
+  baseUrl: 'baseUrl',
+  searchUrlTemplate: 'searchUrlTemplate',
+  params: 'params',
+  enabled: 'enabled',
+  timeoutMs: 'timeoutMs',
+  detailLimit: 'detailLimit',
+  sortOrder: 'sortOrder',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExternalPanSourceScalarFieldEnum = (typeof ExternalPanSourceScalarFieldEnum)[keyof typeof ExternalPanSourceScalarFieldEnum]
+
+
 export const SystemSettingsScalarFieldEnum = {
   id: 'id',
   key: 'key',
@@ -3691,6 +5055,56 @@ export const EmailVerificationTokenScalarFieldEnum = {
 export type EmailVerificationTokenScalarFieldEnum = (typeof EmailVerificationTokenScalarFieldEnum)[keyof typeof EmailVerificationTokenScalarFieldEnum]
 
 
+export const PasswordResetTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  emailSnapshot: 'emailSnapshot',
+  tokenHash: 'tokenHash',
+  requestedIp: 'requestedIp',
+  expiresAt: 'expiresAt',
+  consumedAt: 'consumedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PasswordResetTokenScalarFieldEnum = (typeof PasswordResetTokenScalarFieldEnum)[keyof typeof PasswordResetTokenScalarFieldEnum]
+
+
+export const CustomRoleScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  name: 'name',
+  description: 'description',
+  permissions: 'permissions',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CustomRoleScalarFieldEnum = (typeof CustomRoleScalarFieldEnum)[keyof typeof CustomRoleScalarFieldEnum]
+
+
+export const AdminAuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorName: 'actorName',
+  action: 'action',
+  method: 'method',
+  path: 'path',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  statusCode: 'statusCode',
+  ip: 'ip',
+  userAgent: 'userAgent',
+  before: 'before',
+  after: 'after',
+  diff: 'diff',
+  prevHash: 'prevHash',
+  hash: 'hash',
+  createdAt: 'createdAt'
+} as const
+
+export type AdminAuditLogScalarFieldEnum = (typeof AdminAuditLogScalarFieldEnum)[keyof typeof AdminAuditLogScalarFieldEnum]
+
+
 export const ForumCategoryScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -3720,6 +5134,9 @@ export const ForumTopicScalarFieldEnum = {
   trashReason: 'trashReason',
   categoryId: 'categoryId',
   authorId: 'authorId',
+  acceptedPostId: 'acceptedPostId',
+  revisionCount: 'revisionCount',
+  editedAt: 'editedAt',
   lastActivityAt: 'lastActivityAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -3736,12 +5153,78 @@ export const ForumPostScalarFieldEnum = {
   updatedAt: 'updatedAt',
   topicId: 'topicId',
   authorId: 'authorId',
-  parentId: 'parentId'
+  parentId: 'parentId',
+  revisionCount: 'revisionCount',
+  editedAt: 'editedAt'
 } as const
 
 export type ForumPostScalarFieldEnum = (typeof ForumPostScalarFieldEnum)[keyof typeof ForumPostScalarFieldEnum]
 
 
+export const ForumPostReactionScalarFieldEnum = {
+  id: 'id',
+  postId: 'postId',
+  userId: 'userId',
+  type: 'type',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ForumPostReactionScalarFieldEnum = (typeof ForumPostReactionScalarFieldEnum)[keyof typeof ForumPostReactionScalarFieldEnum]
+
+
+export const ForumReputationEventScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  postId: 'postId',
+  userId: 'userId',
+  actorId: 'actorId',
+  reputation: 'reputation',
+  points: 'points',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumReputationEventScalarFieldEnum = (typeof ForumReputationEventScalarFieldEnum)[keyof typeof ForumReputationEventScalarFieldEnum]
+
+
+export const ForumSubscriptionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  topicId: 'topicId',
+  categoryId: 'categoryId',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumSubscriptionScalarFieldEnum = (typeof ForumSubscriptionScalarFieldEnum)[keyof typeof ForumSubscriptionScalarFieldEnum]
+
+
+export const ForumRevisionScalarFieldEnum = {
+  id: 'id',
+  topicId: 'topicId',
+  postId: 'postId',
+  editorId: 'editorId',
+  title: 'title',
+  content: 'content',
+  status: 'status',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumRevisionScalarFieldEnum = (typeof ForumRevisionScalarFieldEnum)[keyof typeof ForumRevisionScalarFieldEnum]
+
+
+export const ForumDigestPreferenceScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  frequency: 'frequency',
+  unsubscribeToken: 'unsubscribeToken',
+  lastSentAt: 'lastSentAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ForumDigestPreferenceScalarFieldEnum = (typeof ForumDigestPreferenceScalarFieldEnum)[keyof typeof ForumDigestPreferenceScalarFieldEnum]
+
+
 export const ForumTopicReadStateScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -3765,6 +5248,7 @@ export const NotificationScalarFieldEnum = {
   content: 'content',
   isRead: 'isRead',
   relatedId: 'relatedId',
+  link: 'link',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -3772,6 +5256,65 @@ export const NotificationScalarFieldEnum = {
 export type NotificationScalarFieldEnum = (typeof NotificationScalarFieldEnum)[keyof typeof NotificationScalarFieldEnum]
 
 
+export const MentionScalarFieldEnum = {
+  id: 'id',
+  sourceType: 'sourceType',
+  sourceId: 'sourceId',
+  userId: 'userId',
+  actorId: 'actorId',
+  notified: 'notified',
+  createdAt: 'createdAt'
+} as const
+
+export type MentionScalarFieldEnum = (typeof MentionScalarFieldEnum)[keyof typeof MentionScalarFieldEnum]
+
+
+export const MentionMuteScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  mutedUserId: 'mutedUserId',
+  createdAt: 'createdAt'
+} as const
+
+export type MentionMuteScalarFieldEnum = (typeof MentionMuteScalarFieldEnum)[keyof typeof MentionMuteScalarFieldEnum]
+
+
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  keyword: 'keyword',
+  services: 'services',
+  enabled: 'enabled',
+  emailEnabled: 'emailEnabled',
+  seenKeys: 'seenKeys',
+  lastCheckedAt: 'lastCheckedAt',
+  lastNotifiedAt: 'lastNotifiedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const UserSessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  refreshTokenHash: 'refreshTokenHash',
+  previousRefreshTokenHash: 'previousRefreshTokenHash',
+  rotatedAt: 'rotatedAt',
+  deviceName: 'deviceName',
+  userAgent: 'userAgent',
+  ip: 'ip',
+  lastSeenAt: 'lastSeenAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  createdAt: 'createdAt'
+} as const
+
+export type UserSessionScalarFieldEnum = (typeof UserSessionScalarFieldEnum)[keyof typeof UserSessionScalarFieldEnum]
+
+
 export const ChatRoomScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -4046,6 +5589,14 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
 export const JsonNullValueInput = {
   JsonNull: JsonNull
 } as const
@@ -4259,17 +5810,34 @@ export type GlobalOmitConfig = {
   blogPostToCategory?: Prisma.BlogPostToCategoryOmit
   blogPost?: Prisma.BlogPostOmit
   userResource?: Prisma.UserResourceOmit
+  resourceRequest?: Prisma.ResourceRequestOmit
+  resourceRequestFulfillment?: Prisma.ResourceRequestFulfillmentOmit
+  resourceLinkHealth?: Prisma.ResourceLinkHealthOmit
+  searchSyncEvent?: Prisma.SearchSyncEventOmit
+  externalPanSource?: Prisma.ExternalPanSourceOmit
   systemSettings?: Prisma.SystemSettingsOmit
   searchRecord?: Prisma.SearchRecordOmit
   dailySearchStats?: Prisma.DailySearchStatsOmit
   userVodConfig?: Prisma.UserVodConfigOmit
   tvboxSource?: Prisma.TvboxSourceOmit
   emailVerificationToken?: Prisma.EmailVerificationTokenOmit
+  passwordResetToken?: Prisma.PasswordResetTokenOmit
+  customRole?: Prisma.CustomRoleOmit
+  adminAuditLog?: Prisma.AdminAuditLogOmit
   forumCategory?: Prisma.ForumCategoryOmit
   forumTopic?: Prisma.ForumTopicOmit
   forumPost?: Prisma.ForumPostOmit
+  forumPostReaction?: Prisma.ForumPostReactionOmit
+  forumReputationEvent?: Prisma.ForumReputationEventOmit
+  forumSubscription?: Prisma.ForumSubscriptionOmit
+  forumRevision?: Prisma.ForumRevisionOmit
+  forumDigestPreference?: Prisma.ForumDigestPreferenceOmit
   forumTopicReadState?: Prisma.ForumTopicReadStateOmit
   notification?: Prisma.NotificationOmit
+  mention?: Prisma.MentionOmit
+  mentionMute?: Prisma.MentionMuteOmit
+  savedSearch?: Prisma.SavedSearchOmit
+  userSession?: Prisma.UserSessionOmit
   chatRoom?: Prisma.ChatRoomOmit
   chatRoomUser?: Prisma.ChatRoomUserOmit
   chatMessage?: Prisma.ChatMessageOmit
@@ -60,17 +60,34 @@ export const ModelName = {
   BlogPostToCategory: 'BlogPostToCategory',
   BlogPost: 'BlogPost',
   UserResource: 'UserResource',
+  ResourceRequest: 'ResourceRequest',
+  ResourceRequestFulfillment: 'ResourceRequestFulfillment',
+  ResourceLinkHealth: 'ResourceLinkHealth',
+  SearchSyncEvent: 'SearchSyncEvent',
+  ExternalPanSource: 'ExternalPanSource',
   SystemSettings: 'SystemSettings',
   SearchRecord: 'SearchRecord',
   DailySearchStats: 'DailySearchStats',
   UserVodConfig: 'UserVodConfig',
   TvboxSource: 'TvboxSource',
   EmailVerificationToken: 'EmailVerificationToken',
+  PasswordResetToken: 'PasswordResetToken',
+  CustomRole: 'CustomRole',
+  AdminAuditLog: 'AdminAuditLog',
   ForumCategory: 'ForumCategory',
   ForumTopic: 'ForumTopic',
   ForumPost: 'ForumPost',
+  ForumPostReaction: 'ForumPostReaction',
+  ForumReputationEvent: 'ForumReputationEvent',
+  ForumSubscription: 'ForumSubscription',
+  ForumRevision: 'ForumRevision',
+  ForumDigestPreference: 'ForumDigestPreference',
   ForumTopicReadState: 'ForumTopicReadState',
   Notification: 'Notification',
+  Mention: 'Mention',
+  MentionMute: 'MentionMute',
+  SavedSearch: 'SavedSearch',
+  UserSession: 'UserSession',
   ChatRoom: 'ChatRoom',
   ChatRoomUser: 'ChatRoomUser',
   ChatMessage: 'ChatMessage',
@@ -116,6 +133,7 @@ export const UserScalarFieldEnum = {
   avatarStyle: 'avatarStyle',
   salt: 'salt',
   points: 'points',
+  forumReputation: 'forumReputation',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isVerified: 'isVerified',
@@ -270,6 +288,94 @@ export const UserResourceScalarFieldEnum = {
 export type UserResourceScalarFieldEnum = (typeof UserResourceScalarFieldEnum)[keyof typeof UserResourceScalarFieldEnum]
 
 
+export const ResourceRequestScalarFieldEnum = {
+  id: 'id',
+  requesterId: 'requesterId',
+  title: 'title',
+  description: 'description',
+  bounty: 'bounty',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourceRequestScalarFieldEnum = (typeof ResourceRequestScalarFieldEnum)[keyof typeof ResourceRequestScalarFieldEnum]
+
+
+export const ResourceRequestFulfillmentScalarFieldEnum = {
+  id: 'id',
+  requestId: 'requestId',
+  userResourceId: 'userResourceId',
+  userId: 'userId',
+  note: 'note',
+  acceptedAt: 'acceptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ResourceRequestFulfillmentScalarFieldEnum = (typeof ResourceRequestFulfillmentScalarFieldEnum)[keyof typeof ResourceRequestFulfillmentScalarFieldEnum]
+
+
+export const ResourceLinkHealthScalarFieldEnum = {
+  id: 'id',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  link: 'link',
+  canonicalLink: 'canonicalLink',
+  service: 'service',
+  status: 'status',
+  consecutiveFailures: 'consecutiveFailures',
+  checkCount: 'checkCount',
+  lastStatusCode: 'lastStatusCode',
+  lastError: 'lastError',
+  lastCheckedAt: 'lastCheckedAt',
+  lastOkAt: 'lastOkAt',
+  unpublishedAt: 'unpublishedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourceLinkHealthScalarFieldEnum = (typeof ResourceLinkHealthScalarFieldEnum)[keyof typeof ResourceLinkHealthScalarFieldEnum]
+
+
+export const SearchSyncEventScalarFieldEnum = {
+  id: 'id',
+  target: 'target',
+  entityId: 'entityId',
+  action: 'action',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  lockedAt: 'lockedAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SearchSyncEventScalarFieldEnum = (typeof SearchSyncEventScalarFieldEnum)[keyof typeof SearchSyncEventScalarFieldEnum]
+
+
+export const ExternalPanSourceScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  label: 'label',
+  parserType: 'parserType',
+  baseUrl: 'baseUrl',
+  searchUrlTemplate: 'searchUrlTemplate',
+  params: 'params',
+  enabled: 'enabled',
+  timeoutMs: 'timeoutMs',
+  detailLimit: 'detailLimit',
+  sortOrder: 'sortOrder',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExternalPanSourceScalarFieldEnum = (typeof ExternalPanSourceScalarFieldEnum)[keyof typeof ExternalPanSourceScalarFieldEnum]
+
+
 export const SystemSettingsScalarFieldEnum = {
   id: 'id',
   key: 'key',
@@ -350,6 +456,56 @@ export const EmailVerificationTokenScalarFieldEnum = {
 export type EmailVerificationTokenScalarFieldEnum = (typeof EmailVerificationTokenScalarFieldEnum)[keyof typeof EmailVerificationTokenScalarFieldEnum]
 
 
+export const PasswordResetTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  emailSnapshot: 'emailSnapshot',
+  tokenHash: 'tokenHash',
+  requestedIp: 'requestedIp',
+  expiresAt: 'expiresAt',
+  consumedAt: 'consumedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PasswordResetTokenScalarFieldEnum = (typeof PasswordResetTokenScalarFieldEnum)[keyof typeof PasswordResetTokenScalarFieldEnum]
+
+
+export const CustomRoleScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  name: 'name',
+  description: 'description',
+  permissions: 'permissions',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CustomRoleScalarFieldEnum = (typeof CustomRoleScalarFieldEnum)[keyof typeof CustomRoleScalarFieldEnum]
+
+
+export const AdminAuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorName: 'actorName',
+  action: 'action',
+  method: 'method',
+  path: 'path',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  statusCode: 'statusCode',
+  ip: 'ip',
+  userAgent: 'userAgent',
+  before: 'before',
+  after: 'after',
+  diff: 'diff',
+  prevHash: 'prevHash',
+  hash: 'hash',
+  createdAt: 'createdAt'
+} as const
+
+export type AdminAuditLogScalarFieldEnum = (typeof AdminAuditLogScalarFieldEnum)[keyof typeof AdminAuditLogScalarFieldEnum]
+
+
 export const ForumCategoryScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -379,6 +535,9 @@ export const ForumTopicScalarFieldEnum = {
   trashReason: 'trashReason',
   categoryId: 'categoryId',
   authorId: 'authorId',
+  acceptedPostId: 'acceptedPostId',
+  revisionCount: 'revisionCount',
+  editedAt: 'editedAt',
   lastActivityAt: 'lastActivityAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -395,12 +554,78 @@ export const ForumPostScalarFieldEnum = {
   updatedAt: 'updatedAt',
   topicId: 'topicId',
   authorId: 'authorId',
-  parentId: 'parentId'
+  parentId: 'parentId',
+  revisionCount: 'revisionCount',
+  editedAt: 'editedAt'
 } as const
 
 export type ForumPostScalarFieldEnum = (typeof ForumPostScalarFieldEnum)[keyof typeof ForumPostScalarFieldEnum]
 
 
+export const ForumPostReactionScalarFieldEnum = {
+  id: 'id',
+  postId: 'postId',
+  userId: 'userId',
+  type: 'type',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ForumPostReactionScalarFieldEnum = (typeof ForumPostReactionScalarFieldEnum)[keyof typeof ForumPostReactionScalarFieldEnum]
+
+
+export const ForumReputationEventScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  postId: 'postId',
+  userId: 'userId',
+  actorId: 'actorId',
+  reputation: 'reputation',
+  points: 'points',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumReputationEventScalarFieldEnum = (typeof ForumReputationEventScalarFieldEnum)[keyof typeof ForumReputationEventScalarFieldEnum]
+
+
+export const ForumSubscriptionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  topicId: 'topicId',
+  categoryId: 'categoryId',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumSubscriptionScalarFieldEnum = (typeof ForumSubscriptionScalarFieldEnum)[keyof typeof ForumSubscriptionScalarFieldEnum]
+
+
+export const ForumRevisionScalarFieldEnum = {
+  id: 'id',
+  topicId: 'topicId',
+  postId: 'postId',
+  editorId: 'editorId',
+  title: 'title',
+  content: 'content',
+  status: 'status',
+  createdAt: 'createdAt'
+} as const
+
+export type ForumRevisionScalarFieldEnum = (typeof ForumRevisionScalarFieldEnum)[keyof typeof ForumRevisionScalarFieldEnum]
+
+
+export const ForumDigestPreferenceScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  frequency: 'frequency',
+  unsubscribeToken: 'unsubscribeToken',
+  lastSentAt: 'lastSentAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ForumDigestPreferenceScalarFieldEnum = (typeof ForumDigestPreferenceScalarFieldEnum)[keyof typeof ForumDigestPreferenceScalarFieldEnum]
+
+
 export const ForumTopicReadStateScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -424,6 +649,7 @@ export const NotificationScalarFieldEnum = {
   content: 'content',
   isRead: 'isRead',
   relatedId: 'relatedId',
+  link: 'link',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -431,6 +657,65 @@ export const NotificationScalarFieldEnum = {
 export type NotificationScalarFieldEnum = (typeof NotificationScalarFieldEnum)[keyof typeof NotificationScalarFieldEnum]
 
 
+export const MentionScalarFieldEnum = {
+  id: 'id',
+  sourceType: 'sourceType',
+  sourceId: 'sourceId',
+  userId: 'userId',
+  actorId: 'actorId',
+  notified: 'notified',
+  createdAt: 'createdAt'
+} as const
+
+export type MentionScalarFieldEnum = (typeof MentionScalarFieldEnum)[keyof typeof MentionScalarFieldEnum]
+
+
+export const MentionMuteScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  mutedUserId: 'mutedUserId',
+  createdAt: 'createdAt'
+} as const
+
+export type MentionMuteScalarFieldEnum = (typeof MentionMuteScalarFieldEnum)[keyof typeof MentionMuteScalarFieldEnum]
+
+
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  keyword: 'keyword',
+  services: 'services',
+  enabled: 'enabled',
+  emailEnabled: 'emailEnabled',
+  seenKeys: 'seenKeys',
+  lastCheckedAt: 'lastCheckedAt',
+  lastNotifiedAt: 'lastNotifiedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const UserSessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  refreshTokenHash: 'refreshTokenHash',
+  previousRefreshTokenHash: 'previousRefreshTokenHash',
+  rotatedAt: 'rotatedAt',
+  deviceName: 'deviceName',
+  userAgent: 'userAgent',
+  ip: 'ip',
+  lastSeenAt: 'lastSeenAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason',
+  createdAt: 'createdAt'
+} as const
+
+export type UserSessionScalarFieldEnum = (typeof UserSessionScalarFieldEnum)[keyof typeof UserSessionScalarFieldEnum]
+
+
 export const ChatRoomScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -705,6 +990,14 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
 export const JsonNullValueInput = {
   JsonNull: JsonNull
 } as const
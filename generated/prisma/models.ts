@@ -19,17 +19,34 @@ export type * from './models/BlogCategory'
 export type * from './models/BlogPostToCategory'
 export type * from './models/BlogPost'
 export type * from './models/UserResource'
+export type * from './models/ResourceRequest'
+export type * from './models/ResourceRequestFulfillment'
+export type * from './models/ResourceLinkHealth'
+export type * from './models/SearchSyncEvent'
+export type * from './models/ExternalPanSource'
 export type * from './models/SystemSettings'
 export type * from './models/SearchRecord'
 export type * from './models/DailySearchStats'
 export type * from './models/UserVodConfig'
 export type * from './models/TvboxSource'
 export type * from './models/EmailVerificationToken'
+export type * from './models/PasswordResetToken'
+export type * from './models/CustomRole'
+export type * from './models/AdminAuditLog'
 export type * from './models/ForumCategory'
 export type * from './models/ForumTopic'
 export type * from './models/ForumPost'
+export type * from './models/ForumPostReaction'
+export type * from './models/ForumReputationEvent'
+export type * from './models/ForumSubscription'
+export type * from './models/ForumRevision'
+export type * from './models/ForumDigestPreference'
 export type * from './models/ForumTopicReadState'
 export type * from './models/Notification'
+export type * from './models/Mention'
+export type * from './models/MentionMute'
+export type * from './models/SavedSearch'
+export type * from './models/UserSession'
 export type * from './models/ChatRoom'
 export type * from './models/ChatRoomUser'
 export type * from './models/ChatMessage'
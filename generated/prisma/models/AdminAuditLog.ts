@@ -0,0 +1,1514 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `AdminAuditLog` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AdminAuditLog
+ * 
+ */
+export type AdminAuditLogModel = runtime.Types.Result.DefaultSelection<Prisma.$AdminAuditLogPayload>
+
+export type AggregateAdminAuditLog = {
+  _count: AdminAuditLogCountAggregateOutputType | null
+  _avg: AdminAuditLogAvgAggregateOutputType | null
+  _sum: AdminAuditLogSumAggregateOutputType | null
+  _min: AdminAuditLogMinAggregateOutputType | null
+  _max: AdminAuditLogMaxAggregateOutputType | null
+}
+
+export type AdminAuditLogAvgAggregateOutputType = {
+  id: number | null
+  actorId: number | null
+  statusCode: number | null
+}
+
+export type AdminAuditLogSumAggregateOutputType = {
+  id: number | null
+  actorId: number | null
+  statusCode: number | null
+}
+
+export type AdminAuditLogMinAggregateOutputType = {
+  id: number | null
+  actorId: number | null
+  actorName: string | null
+  action: string | null
+  method: string | null
+  path: string | null
+  targetType: string | null
+  targetId: string | null
+  statusCode: number | null
+  ip: string | null
+  userAgent: string | null
+  prevHash: string | null
+  hash: string | null
+  createdAt: Date | null
+}
+
+export type AdminAuditLogMaxAggregateOutputType = {
+  id: number | null
+  actorId: number | null
+  actorName: string | null
+  action: string | null
+  method: string | null
+  path: string | null
+  targetType: string | null
+  targetId: string | null
+  statusCode: number | null
+  ip: string | null
+  userAgent: string | null
+  prevHash: string | null
+  hash: string | null
+  createdAt: Date | null
+}
+
+export type AdminAuditLogCountAggregateOutputType = {
+  id: number
+  actorId: number
+  actorName: number
+  action: number
+  method: number
+  path: number
+  targetType: number
+  targetId: number
+  statusCode: number
+  ip: number
+  userAgent: number
+  before: number
+  after: number
+  diff: number
+  prevHash: number
+  hash: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AdminAuditLogAvgAggregateInputType = {
+  id?: true
+  actorId?: true
+  statusCode?: true
+}
+
+export type AdminAuditLogSumAggregateInputType = {
+  id?: true
+  actorId?: true
+  statusCode?: true
+}
+
+export type AdminAuditLogMinAggregateInputType = {
+  id?: true
+  actorId?: true
+  actorName?: true
+  action?: true
+  method?: true
+  path?: true
+  targetType?: true
+  targetId?: true
+  statusCode?: true
+  ip?: true
+  userAgent?: true
+  prevHash?: true
+  hash?: true
+  createdAt?: true
+}
+
+export type AdminAuditLogMaxAggregateInputType = {
+  id?: true
+  actorId?: true
+  actorName?: true
+  action?: true
+  method?: true
+  path?: true
+  targetType?: true
+  targetId?: true
+  statusCode?: true
+  ip?: true
+  userAgent?: true
+  prevHash?: true
+  hash?: true
+  createdAt?: true
+}
+
+export type AdminAuditLogCountAggregateInputType = {
+  id?: true
+  actorId?: true
+  actorName?: true
+  action?: true
+  method?: true
+  path?: true
+  targetType?: true
+  targetId?: true
+  statusCode?: true
+  ip?: true
+  userAgent?: true
+  before?: true
+  after?: true
+  diff?: true
+  prevHash?: true
+  hash?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AdminAuditLogAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AdminAuditLog to aggregate.
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AdminAuditLogs to fetch.
+   */
+  orderBy?: Prisma.AdminAuditLogOrderByWithRelationInput | Prisma.AdminAuditLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AdminAuditLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AdminAuditLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AdminAuditLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AdminAuditLogs
+  **/
+  _count?: true | AdminAuditLogCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AdminAuditLogAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AdminAuditLogSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AdminAuditLogMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AdminAuditLogMaxAggregateInputType
+}
+
+export type GetAdminAuditLogAggregateType<T extends AdminAuditLogAggregateArgs> = {
+      [P in keyof T & keyof AggregateAdminAuditLog]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAdminAuditLog[P]>
+    : Prisma.GetScalarType<T[P], AggregateAdminAuditLog[P]>
+}
+
+
+
+
+export type AdminAuditLogGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AdminAuditLogWhereInput
+  orderBy?: Prisma.AdminAuditLogOrderByWithAggregationInput | Prisma.AdminAuditLogOrderByWithAggregationInput[]
+  by: Prisma.AdminAuditLogScalarFieldEnum[] | Prisma.AdminAuditLogScalarFieldEnum
+  having?: Prisma.AdminAuditLogScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AdminAuditLogCountAggregateInputType | true
+  _avg?: AdminAuditLogAvgAggregateInputType
+  _sum?: AdminAuditLogSumAggregateInputType
+  _min?: AdminAuditLogMinAggregateInputType
+  _max?: AdminAuditLogMaxAggregateInputType
+}
+
+export type AdminAuditLogGroupByOutputType = {
+  id: number
+  actorId: number | null
+  actorName: string | null
+  action: string
+  method: string
+  path: string
+  targetType: string | null
+  targetId: string | null
+  statusCode: number | null
+  ip: string | null
+  userAgent: string | null
+  before: runtime.JsonValue | null
+  after: runtime.JsonValue | null
+  diff: runtime.JsonValue | null
+  prevHash: string
+  hash: string
+  createdAt: Date
+  _count: AdminAuditLogCountAggregateOutputType | null
+  _avg: AdminAuditLogAvgAggregateOutputType | null
+  _sum: AdminAuditLogSumAggregateOutputType | null
+  _min: AdminAuditLogMinAggregateOutputType | null
+  _max: AdminAuditLogMaxAggregateOutputType | null
+}
+
+type GetAdminAuditLogGroupByPayload<T extends AdminAuditLogGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AdminAuditLogGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AdminAuditLogGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AdminAuditLogGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AdminAuditLogGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AdminAuditLogWhereInput = {
+  AND?: Prisma.AdminAuditLogWhereInput | Prisma.AdminAuditLogWhereInput[]
+  OR?: Prisma.AdminAuditLogWhereInput[]
+  NOT?: Prisma.AdminAuditLogWhereInput | Prisma.AdminAuditLogWhereInput[]
+  id?: Prisma.IntFilter<"AdminAuditLog"> | number
+  actorId?: Prisma.IntNullableFilter<"AdminAuditLog"> | number | null
+  actorName?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  action?: Prisma.StringFilter<"AdminAuditLog"> | string
+  method?: Prisma.StringFilter<"AdminAuditLog"> | string
+  path?: Prisma.StringFilter<"AdminAuditLog"> | string
+  targetType?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  targetId?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  statusCode?: Prisma.IntNullableFilter<"AdminAuditLog"> | number | null
+  ip?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  before?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  after?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  diff?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  prevHash?: Prisma.StringFilter<"AdminAuditLog"> | string
+  hash?: Prisma.StringFilter<"AdminAuditLog"> | string
+  createdAt?: Prisma.DateTimeFilter<"AdminAuditLog"> | Date | string
+}
+
+export type AdminAuditLogOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorName?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  method?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  targetType?: Prisma.SortOrderInput | Prisma.SortOrder
+  targetId?: Prisma.SortOrderInput | Prisma.SortOrder
+  statusCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  diff?: Prisma.SortOrderInput | Prisma.SortOrder
+  prevHash?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AdminAuditLogWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  hash?: string
+  AND?: Prisma.AdminAuditLogWhereInput | Prisma.AdminAuditLogWhereInput[]
+  OR?: Prisma.AdminAuditLogWhereInput[]
+  NOT?: Prisma.AdminAuditLogWhereInput | Prisma.AdminAuditLogWhereInput[]
+  actorId?: Prisma.IntNullableFilter<"AdminAuditLog"> | number | null
+  actorName?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  action?: Prisma.StringFilter<"AdminAuditLog"> | string
+  method?: Prisma.StringFilter<"AdminAuditLog"> | string
+  path?: Prisma.StringFilter<"AdminAuditLog"> | string
+  targetType?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  targetId?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  statusCode?: Prisma.IntNullableFilter<"AdminAuditLog"> | number | null
+  ip?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"AdminAuditLog"> | string | null
+  before?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  after?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  diff?: Prisma.JsonNullableFilter<"AdminAuditLog">
+  prevHash?: Prisma.StringFilter<"AdminAuditLog"> | string
+  createdAt?: Prisma.DateTimeFilter<"AdminAuditLog"> | Date | string
+}, "id" | "hash">
+
+export type AdminAuditLogOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorName?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  method?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  targetType?: Prisma.SortOrderInput | Prisma.SortOrder
+  targetId?: Prisma.SortOrderInput | Prisma.SortOrder
+  statusCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  diff?: Prisma.SortOrderInput | Prisma.SortOrder
+  prevHash?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AdminAuditLogCountOrderByAggregateInput
+  _avg?: Prisma.AdminAuditLogAvgOrderByAggregateInput
+  _max?: Prisma.AdminAuditLogMaxOrderByAggregateInput
+  _min?: Prisma.AdminAuditLogMinOrderByAggregateInput
+  _sum?: Prisma.AdminAuditLogSumOrderByAggregateInput
+}
+
+export type AdminAuditLogScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AdminAuditLogScalarWhereWithAggregatesInput | Prisma.AdminAuditLogScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AdminAuditLogScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AdminAuditLogScalarWhereWithAggregatesInput | Prisma.AdminAuditLogScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"AdminAuditLog"> | number
+  actorId?: Prisma.IntNullableWithAggregatesFilter<"AdminAuditLog"> | number | null
+  actorName?: Prisma.StringNullableWithAggregatesFilter<"AdminAuditLog"> | string | null
+  action?: Prisma.StringWithAggregatesFilter<"AdminAuditLog"> | string
+  method?: Prisma.StringWithAggregatesFilter<"AdminAuditLog"> | string
+  path?: Prisma.StringWithAggregatesFilter<"AdminAuditLog"> | string
+  targetType?: Prisma.StringNullableWithAggregatesFilter<"AdminAuditLog"> | string | null
+  targetId?: Prisma.StringNullableWithAggregatesFilter<"AdminAuditLog"> | string | null
+  statusCode?: Prisma.IntNullableWithAggregatesFilter<"AdminAuditLog"> | number | null
+  ip?: Prisma.StringNullableWithAggregatesFilter<"AdminAuditLog"> | string | null
+  userAgent?: Prisma.StringNullableWithAggregatesFilter<"AdminAuditLog"> | string | null
+  before?: Prisma.JsonNullableWithAggregatesFilter<"AdminAuditLog">
+  after?: Prisma.JsonNullableWithAggregatesFilter<"AdminAuditLog">
+  diff?: Prisma.JsonNullableWithAggregatesFilter<"AdminAuditLog">
+  prevHash?: Prisma.StringWithAggregatesFilter<"AdminAuditLog"> | string
+  hash?: Prisma.StringWithAggregatesFilter<"AdminAuditLog"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AdminAuditLog"> | Date | string
+}
+
+export type AdminAuditLogCreateInput = {
+  actorId?: number | null
+  actorName?: string | null
+  action: string
+  method: string
+  path: string
+  targetType?: string | null
+  targetId?: string | null
+  statusCode?: number | null
+  ip?: string | null
+  userAgent?: string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash: string
+  hash: string
+  createdAt?: Date | string
+}
+
+export type AdminAuditLogUncheckedCreateInput = {
+  id?: number
+  actorId?: number | null
+  actorName?: string | null
+  action: string
+  method: string
+  path: string
+  targetType?: string | null
+  targetId?: string | null
+  statusCode?: number | null
+  ip?: string | null
+  userAgent?: string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash: string
+  hash: string
+  createdAt?: Date | string
+}
+
+export type AdminAuditLogUpdateInput = {
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  method?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  targetType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  targetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  statusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AdminAuditLogUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  method?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  targetType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  targetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  statusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AdminAuditLogCreateManyInput = {
+  id?: number
+  actorId?: number | null
+  actorName?: string | null
+  action: string
+  method: string
+  path: string
+  targetType?: string | null
+  targetId?: string | null
+  statusCode?: number | null
+  ip?: string | null
+  userAgent?: string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash: string
+  hash: string
+  createdAt?: Date | string
+}
+
+export type AdminAuditLogUpdateManyMutationInput = {
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  method?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  targetType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  targetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  statusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AdminAuditLogUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  method?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  targetType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  targetId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  statusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  diff?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  prevHash?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AdminAuditLogCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  method?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  statusCode?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  after?: Prisma.SortOrder
+  diff?: Prisma.SortOrder
+  prevHash?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AdminAuditLogAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  statusCode?: Prisma.SortOrder
+}
+
+export type AdminAuditLogMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  method?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  statusCode?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  prevHash?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AdminAuditLogMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  method?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  statusCode?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  prevHash?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AdminAuditLogSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  statusCode?: Prisma.SortOrder
+}
+
+
+
+export type AdminAuditLogSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  action?: boolean
+  method?: boolean
+  path?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  statusCode?: boolean
+  ip?: boolean
+  userAgent?: boolean
+  before?: boolean
+  after?: boolean
+  diff?: boolean
+  prevHash?: boolean
+  hash?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["adminAuditLog"]>
+
+export type AdminAuditLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  action?: boolean
+  method?: boolean
+  path?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  statusCode?: boolean
+  ip?: boolean
+  userAgent?: boolean
+  before?: boolean
+  after?: boolean
+  diff?: boolean
+  prevHash?: boolean
+  hash?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["adminAuditLog"]>
+
+export type AdminAuditLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  action?: boolean
+  method?: boolean
+  path?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  statusCode?: boolean
+  ip?: boolean
+  userAgent?: boolean
+  before?: boolean
+  after?: boolean
+  diff?: boolean
+  prevHash?: boolean
+  hash?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["adminAuditLog"]>
+
+export type AdminAuditLogSelectScalar = {
+  id?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  action?: boolean
+  method?: boolean
+  path?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  statusCode?: boolean
+  ip?: boolean
+  userAgent?: boolean
+  before?: boolean
+  after?: boolean
+  diff?: boolean
+  prevHash?: boolean
+  hash?: boolean
+  createdAt?: boolean
+}
+
+export type AdminAuditLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "actorId" | "actorName" | "action" | "method" | "path" | "targetType" | "targetId" | "statusCode" | "ip" | "userAgent" | "before" | "after" | "diff" | "prevHash" | "hash" | "createdAt", ExtArgs["result"]["adminAuditLog"]>
+
+export type $AdminAuditLogPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AdminAuditLog"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    actorId: number | null
+    actorName: string | null
+    action: string
+    method: string
+    path: string
+    targetType: string | null
+    targetId: string | null
+    statusCode: number | null
+    ip: string | null
+    userAgent: string | null
+    before: runtime.JsonValue | null
+    after: runtime.JsonValue | null
+    diff: runtime.JsonValue | null
+    prevHash: string
+    hash: string
+    createdAt: Date
+  }, ExtArgs["result"]["adminAuditLog"]>
+  composites: {}
+}
+
+export type AdminAuditLogGetPayload<S extends boolean | null | undefined | AdminAuditLogDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload, S>
+
+export type AdminAuditLogCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AdminAuditLogFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AdminAuditLogCountAggregateInputType | true
+  }
+
+export interface AdminAuditLogDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AdminAuditLog'], meta: { name: 'AdminAuditLog' } }
+  /**
+   * Find zero or one AdminAuditLog that matches the filter.
+   * @param {AdminAuditLogFindUniqueArgs} args - Arguments to find a AdminAuditLog
+   * @example
+   * // Get one AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AdminAuditLogFindUniqueArgs>(args: Prisma.SelectSubset<T, AdminAuditLogFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AdminAuditLog that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AdminAuditLogFindUniqueOrThrowArgs} args - Arguments to find a AdminAuditLog
+   * @example
+   * // Get one AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AdminAuditLogFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AdminAuditLogFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AdminAuditLog that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogFindFirstArgs} args - Arguments to find a AdminAuditLog
+   * @example
+   * // Get one AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AdminAuditLogFindFirstArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogFindFirstArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AdminAuditLog that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogFindFirstOrThrowArgs} args - Arguments to find a AdminAuditLog
+   * @example
+   * // Get one AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AdminAuditLogFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AdminAuditLogs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AdminAuditLogs
+   * const adminAuditLogs = await prisma.adminAuditLog.findMany()
+   * 
+   * // Get first 10 AdminAuditLogs
+   * const adminAuditLogs = await prisma.adminAuditLog.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const adminAuditLogWithIdOnly = await prisma.adminAuditLog.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AdminAuditLogFindManyArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AdminAuditLog.
+   * @param {AdminAuditLogCreateArgs} args - Arguments to create a AdminAuditLog.
+   * @example
+   * // Create one AdminAuditLog
+   * const AdminAuditLog = await prisma.adminAuditLog.create({
+   *   data: {
+   *     // ... data to create a AdminAuditLog
+   *   }
+   * })
+   * 
+   */
+  create<T extends AdminAuditLogCreateArgs>(args: Prisma.SelectSubset<T, AdminAuditLogCreateArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AdminAuditLogs.
+   * @param {AdminAuditLogCreateManyArgs} args - Arguments to create many AdminAuditLogs.
+   * @example
+   * // Create many AdminAuditLogs
+   * const adminAuditLog = await prisma.adminAuditLog.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AdminAuditLogCreateManyArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AdminAuditLogs and returns the data saved in the database.
+   * @param {AdminAuditLogCreateManyAndReturnArgs} args - Arguments to create many AdminAuditLogs.
+   * @example
+   * // Create many AdminAuditLogs
+   * const adminAuditLog = await prisma.adminAuditLog.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AdminAuditLogs and only return the `id`
+   * const adminAuditLogWithIdOnly = await prisma.adminAuditLog.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AdminAuditLogCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AdminAuditLog.
+   * @param {AdminAuditLogDeleteArgs} args - Arguments to delete one AdminAuditLog.
+   * @example
+   * // Delete one AdminAuditLog
+   * const AdminAuditLog = await prisma.adminAuditLog.delete({
+   *   where: {
+   *     // ... filter to delete one AdminAuditLog
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AdminAuditLogDeleteArgs>(args: Prisma.SelectSubset<T, AdminAuditLogDeleteArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AdminAuditLog.
+   * @param {AdminAuditLogUpdateArgs} args - Arguments to update one AdminAuditLog.
+   * @example
+   * // Update one AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AdminAuditLogUpdateArgs>(args: Prisma.SelectSubset<T, AdminAuditLogUpdateArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AdminAuditLogs.
+   * @param {AdminAuditLogDeleteManyArgs} args - Arguments to filter AdminAuditLogs to delete.
+   * @example
+   * // Delete a few AdminAuditLogs
+   * const { count } = await prisma.adminAuditLog.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AdminAuditLogDeleteManyArgs>(args?: Prisma.SelectSubset<T, AdminAuditLogDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AdminAuditLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AdminAuditLogs
+   * const adminAuditLog = await prisma.adminAuditLog.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AdminAuditLogUpdateManyArgs>(args: Prisma.SelectSubset<T, AdminAuditLogUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AdminAuditLogs and returns the data updated in the database.
+   * @param {AdminAuditLogUpdateManyAndReturnArgs} args - Arguments to update many AdminAuditLogs.
+   * @example
+   * // Update many AdminAuditLogs
+   * const adminAuditLog = await prisma.adminAuditLog.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AdminAuditLogs and only return the `id`
+   * const adminAuditLogWithIdOnly = await prisma.adminAuditLog.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AdminAuditLogUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AdminAuditLogUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AdminAuditLog.
+   * @param {AdminAuditLogUpsertArgs} args - Arguments to update or create a AdminAuditLog.
+   * @example
+   * // Update or create a AdminAuditLog
+   * const adminAuditLog = await prisma.adminAuditLog.upsert({
+   *   create: {
+   *     // ... data to create a AdminAuditLog
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AdminAuditLog we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AdminAuditLogUpsertArgs>(args: Prisma.SelectSubset<T, AdminAuditLogUpsertArgs<ExtArgs>>): Prisma.Prisma__AdminAuditLogClient<runtime.Types.Result.GetResult<Prisma.$AdminAuditLogPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AdminAuditLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogCountArgs} args - Arguments to filter AdminAuditLogs to count.
+   * @example
+   * // Count the number of AdminAuditLogs
+   * const count = await prisma.adminAuditLog.count({
+   *   where: {
+   *     // ... the filter for the AdminAuditLogs we want to count
+   *   }
+   * })
+  **/
+  count<T extends AdminAuditLogCountArgs>(
+    args?: Prisma.Subset<T, AdminAuditLogCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AdminAuditLogCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AdminAuditLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AdminAuditLogAggregateArgs>(args: Prisma.Subset<T, AdminAuditLogAggregateArgs>): Prisma.PrismaPromise<GetAdminAuditLogAggregateType<T>>
+
+  /**
+   * Group by AdminAuditLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdminAuditLogGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AdminAuditLogGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AdminAuditLogGroupByArgs['orderBy'] }
+      : { orderBy?: AdminAuditLogGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AdminAuditLogGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAdminAuditLogGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AdminAuditLog model
+ */
+readonly fields: AdminAuditLogFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AdminAuditLog.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AdminAuditLogClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AdminAuditLog model
+ */
+export interface AdminAuditLogFieldRefs {
+  readonly id: Prisma.FieldRef<"AdminAuditLog", 'Int'>
+  readonly actorId: Prisma.FieldRef<"AdminAuditLog", 'Int'>
+  readonly actorName: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly action: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly method: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly path: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly targetType: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly targetId: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly statusCode: Prisma.FieldRef<"AdminAuditLog", 'Int'>
+  readonly ip: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly userAgent: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly before: Prisma.FieldRef<"AdminAuditLog", 'Json'>
+  readonly after: Prisma.FieldRef<"AdminAuditLog", 'Json'>
+  readonly diff: Prisma.FieldRef<"AdminAuditLog", 'Json'>
+  readonly prevHash: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly hash: Prisma.FieldRef<"AdminAuditLog", 'String'>
+  readonly createdAt: Prisma.FieldRef<"AdminAuditLog", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AdminAuditLog findUnique
+ */
+export type AdminAuditLogFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter, which AdminAuditLog to fetch.
+   */
+  where: Prisma.AdminAuditLogWhereUniqueInput
+}
+
+/**
+ * AdminAuditLog findUniqueOrThrow
+ */
+export type AdminAuditLogFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter, which AdminAuditLog to fetch.
+   */
+  where: Prisma.AdminAuditLogWhereUniqueInput
+}
+
+/**
+ * AdminAuditLog findFirst
+ */
+export type AdminAuditLogFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter, which AdminAuditLog to fetch.
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AdminAuditLogs to fetch.
+   */
+  orderBy?: Prisma.AdminAuditLogOrderByWithRelationInput | Prisma.AdminAuditLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AdminAuditLogs.
+   */
+  cursor?: Prisma.AdminAuditLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AdminAuditLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AdminAuditLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AdminAuditLogs.
+   */
+  distinct?: Prisma.AdminAuditLogScalarFieldEnum | Prisma.AdminAuditLogScalarFieldEnum[]
+}
+
+/**
+ * AdminAuditLog findFirstOrThrow
+ */
+export type AdminAuditLogFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter, which AdminAuditLog to fetch.
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AdminAuditLogs to fetch.
+   */
+  orderBy?: Prisma.AdminAuditLogOrderByWithRelationInput | Prisma.AdminAuditLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AdminAuditLogs.
+   */
+  cursor?: Prisma.AdminAuditLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AdminAuditLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AdminAuditLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AdminAuditLogs.
+   */
+  distinct?: Prisma.AdminAuditLogScalarFieldEnum | Prisma.AdminAuditLogScalarFieldEnum[]
+}
+
+/**
+ * AdminAuditLog findMany
+ */
+export type AdminAuditLogFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter, which AdminAuditLogs to fetch.
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AdminAuditLogs to fetch.
+   */
+  orderBy?: Prisma.AdminAuditLogOrderByWithRelationInput | Prisma.AdminAuditLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AdminAuditLogs.
+   */
+  cursor?: Prisma.AdminAuditLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AdminAuditLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AdminAuditLogs.
+   */
+  skip?: number
+  distinct?: Prisma.AdminAuditLogScalarFieldEnum | Prisma.AdminAuditLogScalarFieldEnum[]
+}
+
+/**
+ * AdminAuditLog create
+ */
+export type AdminAuditLogCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * The data needed to create a AdminAuditLog.
+   */
+  data: Prisma.XOR<Prisma.AdminAuditLogCreateInput, Prisma.AdminAuditLogUncheckedCreateInput>
+}
+
+/**
+ * AdminAuditLog createMany
+ */
+export type AdminAuditLogCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AdminAuditLogs.
+   */
+  data: Prisma.AdminAuditLogCreateManyInput | Prisma.AdminAuditLogCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AdminAuditLog createManyAndReturn
+ */
+export type AdminAuditLogCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * The data used to create many AdminAuditLogs.
+   */
+  data: Prisma.AdminAuditLogCreateManyInput | Prisma.AdminAuditLogCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AdminAuditLog update
+ */
+export type AdminAuditLogUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * The data needed to update a AdminAuditLog.
+   */
+  data: Prisma.XOR<Prisma.AdminAuditLogUpdateInput, Prisma.AdminAuditLogUncheckedUpdateInput>
+  /**
+   * Choose, which AdminAuditLog to update.
+   */
+  where: Prisma.AdminAuditLogWhereUniqueInput
+}
+
+/**
+ * AdminAuditLog updateMany
+ */
+export type AdminAuditLogUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AdminAuditLogs.
+   */
+  data: Prisma.XOR<Prisma.AdminAuditLogUpdateManyMutationInput, Prisma.AdminAuditLogUncheckedUpdateManyInput>
+  /**
+   * Filter which AdminAuditLogs to update
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * Limit how many AdminAuditLogs to update.
+   */
+  limit?: number
+}
+
+/**
+ * AdminAuditLog updateManyAndReturn
+ */
+export type AdminAuditLogUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * The data used to update AdminAuditLogs.
+   */
+  data: Prisma.XOR<Prisma.AdminAuditLogUpdateManyMutationInput, Prisma.AdminAuditLogUncheckedUpdateManyInput>
+  /**
+   * Filter which AdminAuditLogs to update
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * Limit how many AdminAuditLogs to update.
+   */
+  limit?: number
+}
+
+/**
+ * AdminAuditLog upsert
+ */
+export type AdminAuditLogUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * The filter to search for the AdminAuditLog to update in case it exists.
+   */
+  where: Prisma.AdminAuditLogWhereUniqueInput
+  /**
+   * In case the AdminAuditLog found by the `where` argument doesn't exist, create a new AdminAuditLog with this data.
+   */
+  create: Prisma.XOR<Prisma.AdminAuditLogCreateInput, Prisma.AdminAuditLogUncheckedCreateInput>
+  /**
+   * In case the AdminAuditLog was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AdminAuditLogUpdateInput, Prisma.AdminAuditLogUncheckedUpdateInput>
+}
+
+/**
+ * AdminAuditLog delete
+ */
+export type AdminAuditLogDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+  /**
+   * Filter which AdminAuditLog to delete.
+   */
+  where: Prisma.AdminAuditLogWhereUniqueInput
+}
+
+/**
+ * AdminAuditLog deleteMany
+ */
+export type AdminAuditLogDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AdminAuditLogs to delete
+   */
+  where?: Prisma.AdminAuditLogWhereInput
+  /**
+   * Limit how many AdminAuditLogs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AdminAuditLog without action
+ */
+export type AdminAuditLogDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AdminAuditLog
+   */
+  select?: Prisma.AdminAuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AdminAuditLog
+   */
+  omit?: Prisma.AdminAuditLogOmit<ExtArgs> | null
+}
@@ -0,0 +1,1243 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `CustomRole` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CustomRole
+ * 
+ */
+export type CustomRoleModel = runtime.Types.Result.DefaultSelection<Prisma.$CustomRolePayload>
+
+export type AggregateCustomRole = {
+  _count: CustomRoleCountAggregateOutputType | null
+  _avg: CustomRoleAvgAggregateOutputType | null
+  _sum: CustomRoleSumAggregateOutputType | null
+  _min: CustomRoleMinAggregateOutputType | null
+  _max: CustomRoleMaxAggregateOutputType | null
+}
+
+export type CustomRoleAvgAggregateOutputType = {
+  id: number | null
+}
+
+export type CustomRoleSumAggregateOutputType = {
+  id: number | null
+}
+
+export type CustomRoleMinAggregateOutputType = {
+  id: number | null
+  key: string | null
+  name: string | null
+  description: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CustomRoleMaxAggregateOutputType = {
+  id: number | null
+  key: string | null
+  name: string | null
+  description: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CustomRoleCountAggregateOutputType = {
+  id: number
+  key: number
+  name: number
+  description: number
+  permissions: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CustomRoleAvgAggregateInputType = {
+  id?: true
+}
+
+export type CustomRoleSumAggregateInputType = {
+  id?: true
+}
+
+export type CustomRoleMinAggregateInputType = {
+  id?: true
+  key?: true
+  name?: true
+  description?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CustomRoleMaxAggregateInputType = {
+  id?: true
+  key?: true
+  name?: true
+  description?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CustomRoleCountAggregateInputType = {
+  id?: true
+  key?: true
+  name?: true
+  description?: true
+  permissions?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CustomRoleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CustomRole to aggregate.
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CustomRoles to fetch.
+   */
+  orderBy?: Prisma.CustomRoleOrderByWithRelationInput | Prisma.CustomRoleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CustomRoleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CustomRoles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CustomRoles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CustomRoles
+  **/
+  _count?: true | CustomRoleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CustomRoleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CustomRoleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CustomRoleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CustomRoleMaxAggregateInputType
+}
+
+export type GetCustomRoleAggregateType<T extends CustomRoleAggregateArgs> = {
+      [P in keyof T & keyof AggregateCustomRole]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCustomRole[P]>
+    : Prisma.GetScalarType<T[P], AggregateCustomRole[P]>
+}
+
+
+
+
+export type CustomRoleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CustomRoleWhereInput
+  orderBy?: Prisma.CustomRoleOrderByWithAggregationInput | Prisma.CustomRoleOrderByWithAggregationInput[]
+  by: Prisma.CustomRoleScalarFieldEnum[] | Prisma.CustomRoleScalarFieldEnum
+  having?: Prisma.CustomRoleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CustomRoleCountAggregateInputType | true
+  _avg?: CustomRoleAvgAggregateInputType
+  _sum?: CustomRoleSumAggregateInputType
+  _min?: CustomRoleMinAggregateInputType
+  _max?: CustomRoleMaxAggregateInputType
+}
+
+export type CustomRoleGroupByOutputType = {
+  id: number
+  key: string
+  name: string
+  description: string | null
+  permissions: string[]
+  createdAt: Date
+  updatedAt: Date
+  _count: CustomRoleCountAggregateOutputType | null
+  _avg: CustomRoleAvgAggregateOutputType | null
+  _sum: CustomRoleSumAggregateOutputType | null
+  _min: CustomRoleMinAggregateOutputType | null
+  _max: CustomRoleMaxAggregateOutputType | null
+}
+
+type GetCustomRoleGroupByPayload<T extends CustomRoleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CustomRoleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CustomRoleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CustomRoleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CustomRoleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CustomRoleWhereInput = {
+  AND?: Prisma.CustomRoleWhereInput | Prisma.CustomRoleWhereInput[]
+  OR?: Prisma.CustomRoleWhereInput[]
+  NOT?: Prisma.CustomRoleWhereInput | Prisma.CustomRoleWhereInput[]
+  id?: Prisma.IntFilter<"CustomRole"> | number
+  key?: Prisma.StringFilter<"CustomRole"> | string
+  name?: Prisma.StringFilter<"CustomRole"> | string
+  description?: Prisma.StringNullableFilter<"CustomRole"> | string | null
+  permissions?: Prisma.StringNullableListFilter<"CustomRole">
+  createdAt?: Prisma.DateTimeFilter<"CustomRole"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CustomRole"> | Date | string
+}
+
+export type CustomRoleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  permissions?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CustomRoleWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  key?: string
+  AND?: Prisma.CustomRoleWhereInput | Prisma.CustomRoleWhereInput[]
+  OR?: Prisma.CustomRoleWhereInput[]
+  NOT?: Prisma.CustomRoleWhereInput | Prisma.CustomRoleWhereInput[]
+  name?: Prisma.StringFilter<"CustomRole"> | string
+  description?: Prisma.StringNullableFilter<"CustomRole"> | string | null
+  permissions?: Prisma.StringNullableListFilter<"CustomRole">
+  createdAt?: Prisma.DateTimeFilter<"CustomRole"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CustomRole"> | Date | string
+}, "id" | "key">
+
+export type CustomRoleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  permissions?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CustomRoleCountOrderByAggregateInput
+  _avg?: Prisma.CustomRoleAvgOrderByAggregateInput
+  _max?: Prisma.CustomRoleMaxOrderByAggregateInput
+  _min?: Prisma.CustomRoleMinOrderByAggregateInput
+  _sum?: Prisma.CustomRoleSumOrderByAggregateInput
+}
+
+export type CustomRoleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CustomRoleScalarWhereWithAggregatesInput | Prisma.CustomRoleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CustomRoleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CustomRoleScalarWhereWithAggregatesInput | Prisma.CustomRoleScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"CustomRole"> | number
+  key?: Prisma.StringWithAggregatesFilter<"CustomRole"> | string
+  name?: Prisma.StringWithAggregatesFilter<"CustomRole"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"CustomRole"> | string | null
+  permissions?: Prisma.StringNullableListFilter<"CustomRole">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CustomRole"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CustomRole"> | Date | string
+}
+
+export type CustomRoleCreateInput = {
+  key: string
+  name: string
+  description?: string | null
+  permissions?: Prisma.CustomRoleCreatepermissionsInput | string[]
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CustomRoleUncheckedCreateInput = {
+  id?: number
+  key: string
+  name: string
+  description?: string | null
+  permissions?: Prisma.CustomRoleCreatepermissionsInput | string[]
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CustomRoleUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permissions?: Prisma.CustomRoleUpdatepermissionsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CustomRoleUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permissions?: Prisma.CustomRoleUpdatepermissionsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CustomRoleCreateManyInput = {
+  id?: number
+  key: string
+  name: string
+  description?: string | null
+  permissions?: Prisma.CustomRoleCreatepermissionsInput | string[]
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CustomRoleUpdateManyMutationInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permissions?: Prisma.CustomRoleUpdatepermissionsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CustomRoleUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permissions?: Prisma.CustomRoleUpdatepermissionsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CustomRoleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  permissions?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CustomRoleAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type CustomRoleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CustomRoleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CustomRoleSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type CustomRoleCreatepermissionsInput = {
+  set: string[]
+}
+
+export type CustomRoleUpdatepermissionsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+
+
+export type CustomRoleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  name?: boolean
+  description?: boolean
+  permissions?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["customRole"]>
+
+export type CustomRoleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  name?: boolean
+  description?: boolean
+  permissions?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["customRole"]>
+
+export type CustomRoleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  name?: boolean
+  description?: boolean
+  permissions?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["customRole"]>
+
+export type CustomRoleSelectScalar = {
+  id?: boolean
+  key?: boolean
+  name?: boolean
+  description?: boolean
+  permissions?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CustomRoleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "key" | "name" | "description" | "permissions" | "createdAt" | "updatedAt", ExtArgs["result"]["customRole"]>
+
+export type $CustomRolePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CustomRole"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    key: string
+    name: string
+    description: string | null
+    permissions: string[]
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["customRole"]>
+  composites: {}
+}
+
+export type CustomRoleGetPayload<S extends boolean | null | undefined | CustomRoleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CustomRolePayload, S>
+
+export type CustomRoleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CustomRoleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CustomRoleCountAggregateInputType | true
+  }
+
+export interface CustomRoleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CustomRole'], meta: { name: 'CustomRole' } }
+  /**
+   * Find zero or one CustomRole that matches the filter.
+   * @param {CustomRoleFindUniqueArgs} args - Arguments to find a CustomRole
+   * @example
+   * // Get one CustomRole
+   * const customRole = await prisma.customRole.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CustomRoleFindUniqueArgs>(args: Prisma.SelectSubset<T, CustomRoleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CustomRole that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CustomRoleFindUniqueOrThrowArgs} args - Arguments to find a CustomRole
+   * @example
+   * // Get one CustomRole
+   * const customRole = await prisma.customRole.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CustomRoleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CustomRoleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CustomRole that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleFindFirstArgs} args - Arguments to find a CustomRole
+   * @example
+   * // Get one CustomRole
+   * const customRole = await prisma.customRole.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CustomRoleFindFirstArgs>(args?: Prisma.SelectSubset<T, CustomRoleFindFirstArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CustomRole that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleFindFirstOrThrowArgs} args - Arguments to find a CustomRole
+   * @example
+   * // Get one CustomRole
+   * const customRole = await prisma.customRole.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CustomRoleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CustomRoleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CustomRoles that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CustomRoles
+   * const customRoles = await prisma.customRole.findMany()
+   * 
+   * // Get first 10 CustomRoles
+   * const customRoles = await prisma.customRole.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const customRoleWithIdOnly = await prisma.customRole.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CustomRoleFindManyArgs>(args?: Prisma.SelectSubset<T, CustomRoleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CustomRole.
+   * @param {CustomRoleCreateArgs} args - Arguments to create a CustomRole.
+   * @example
+   * // Create one CustomRole
+   * const CustomRole = await prisma.customRole.create({
+   *   data: {
+   *     // ... data to create a CustomRole
+   *   }
+   * })
+   * 
+   */
+  create<T extends CustomRoleCreateArgs>(args: Prisma.SelectSubset<T, CustomRoleCreateArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CustomRoles.
+   * @param {CustomRoleCreateManyArgs} args - Arguments to create many CustomRoles.
+   * @example
+   * // Create many CustomRoles
+   * const customRole = await prisma.customRole.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CustomRoleCreateManyArgs>(args?: Prisma.SelectSubset<T, CustomRoleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CustomRoles and returns the data saved in the database.
+   * @param {CustomRoleCreateManyAndReturnArgs} args - Arguments to create many CustomRoles.
+   * @example
+   * // Create many CustomRoles
+   * const customRole = await prisma.customRole.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CustomRoles and only return the `id`
+   * const customRoleWithIdOnly = await prisma.customRole.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CustomRoleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CustomRoleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CustomRole.
+   * @param {CustomRoleDeleteArgs} args - Arguments to delete one CustomRole.
+   * @example
+   * // Delete one CustomRole
+   * const CustomRole = await prisma.customRole.delete({
+   *   where: {
+   *     // ... filter to delete one CustomRole
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CustomRoleDeleteArgs>(args: Prisma.SelectSubset<T, CustomRoleDeleteArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CustomRole.
+   * @param {CustomRoleUpdateArgs} args - Arguments to update one CustomRole.
+   * @example
+   * // Update one CustomRole
+   * const customRole = await prisma.customRole.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CustomRoleUpdateArgs>(args: Prisma.SelectSubset<T, CustomRoleUpdateArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CustomRoles.
+   * @param {CustomRoleDeleteManyArgs} args - Arguments to filter CustomRoles to delete.
+   * @example
+   * // Delete a few CustomRoles
+   * const { count } = await prisma.customRole.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CustomRoleDeleteManyArgs>(args?: Prisma.SelectSubset<T, CustomRoleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CustomRoles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CustomRoles
+   * const customRole = await prisma.customRole.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CustomRoleUpdateManyArgs>(args: Prisma.SelectSubset<T, CustomRoleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CustomRoles and returns the data updated in the database.
+   * @param {CustomRoleUpdateManyAndReturnArgs} args - Arguments to update many CustomRoles.
+   * @example
+   * // Update many CustomRoles
+   * const customRole = await prisma.customRole.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CustomRoles and only return the `id`
+   * const customRoleWithIdOnly = await prisma.customRole.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CustomRoleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CustomRoleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CustomRole.
+   * @param {CustomRoleUpsertArgs} args - Arguments to update or create a CustomRole.
+   * @example
+   * // Update or create a CustomRole
+   * const customRole = await prisma.customRole.upsert({
+   *   create: {
+   *     // ... data to create a CustomRole
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CustomRole we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CustomRoleUpsertArgs>(args: Prisma.SelectSubset<T, CustomRoleUpsertArgs<ExtArgs>>): Prisma.Prisma__CustomRoleClient<runtime.Types.Result.GetResult<Prisma.$CustomRolePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CustomRoles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleCountArgs} args - Arguments to filter CustomRoles to count.
+   * @example
+   * // Count the number of CustomRoles
+   * const count = await prisma.customRole.count({
+   *   where: {
+   *     // ... the filter for the CustomRoles we want to count
+   *   }
+   * })
+  **/
+  count<T extends CustomRoleCountArgs>(
+    args?: Prisma.Subset<T, CustomRoleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CustomRoleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CustomRole.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CustomRoleAggregateArgs>(args: Prisma.Subset<T, CustomRoleAggregateArgs>): Prisma.PrismaPromise<GetCustomRoleAggregateType<T>>
+
+  /**
+   * Group by CustomRole.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomRoleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CustomRoleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CustomRoleGroupByArgs['orderBy'] }
+      : { orderBy?: CustomRoleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CustomRoleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCustomRoleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CustomRole model
+ */
+readonly fields: CustomRoleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CustomRole.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CustomRoleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CustomRole model
+ */
+export interface CustomRoleFieldRefs {
+  readonly id: Prisma.FieldRef<"CustomRole", 'Int'>
+  readonly key: Prisma.FieldRef<"CustomRole", 'String'>
+  readonly name: Prisma.FieldRef<"CustomRole", 'String'>
+  readonly description: Prisma.FieldRef<"CustomRole", 'String'>
+  readonly permissions: Prisma.FieldRef<"CustomRole", 'String[]'>
+  readonly createdAt: Prisma.FieldRef<"CustomRole", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CustomRole", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CustomRole findUnique
+ */
+export type CustomRoleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter, which CustomRole to fetch.
+   */
+  where: Prisma.CustomRoleWhereUniqueInput
+}
+
+/**
+ * CustomRole findUniqueOrThrow
+ */
+export type CustomRoleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter, which CustomRole to fetch.
+   */
+  where: Prisma.CustomRoleWhereUniqueInput
+}
+
+/**
+ * CustomRole findFirst
+ */
+export type CustomRoleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter, which CustomRole to fetch.
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CustomRoles to fetch.
+   */
+  orderBy?: Prisma.CustomRoleOrderByWithRelationInput | Prisma.CustomRoleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CustomRoles.
+   */
+  cursor?: Prisma.CustomRoleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CustomRoles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CustomRoles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CustomRoles.
+   */
+  distinct?: Prisma.CustomRoleScalarFieldEnum | Prisma.CustomRoleScalarFieldEnum[]
+}
+
+/**
+ * CustomRole findFirstOrThrow
+ */
+export type CustomRoleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter, which CustomRole to fetch.
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CustomRoles to fetch.
+   */
+  orderBy?: Prisma.CustomRoleOrderByWithRelationInput | Prisma.CustomRoleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CustomRoles.
+   */
+  cursor?: Prisma.CustomRoleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CustomRoles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CustomRoles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CustomRoles.
+   */
+  distinct?: Prisma.CustomRoleScalarFieldEnum | Prisma.CustomRoleScalarFieldEnum[]
+}
+
+/**
+ * CustomRole findMany
+ */
+export type CustomRoleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter, which CustomRoles to fetch.
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CustomRoles to fetch.
+   */
+  orderBy?: Prisma.CustomRoleOrderByWithRelationInput | Prisma.CustomRoleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CustomRoles.
+   */
+  cursor?: Prisma.CustomRoleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CustomRoles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CustomRoles.
+   */
+  skip?: number
+  distinct?: Prisma.CustomRoleScalarFieldEnum | Prisma.CustomRoleScalarFieldEnum[]
+}
+
+/**
+ * CustomRole create
+ */
+export type CustomRoleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * The data needed to create a CustomRole.
+   */
+  data: Prisma.XOR<Prisma.CustomRoleCreateInput, Prisma.CustomRoleUncheckedCreateInput>
+}
+
+/**
+ * CustomRole createMany
+ */
+export type CustomRoleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CustomRoles.
+   */
+  data: Prisma.CustomRoleCreateManyInput | Prisma.CustomRoleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CustomRole createManyAndReturn
+ */
+export type CustomRoleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * The data used to create many CustomRoles.
+   */
+  data: Prisma.CustomRoleCreateManyInput | Prisma.CustomRoleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CustomRole update
+ */
+export type CustomRoleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * The data needed to update a CustomRole.
+   */
+  data: Prisma.XOR<Prisma.CustomRoleUpdateInput, Prisma.CustomRoleUncheckedUpdateInput>
+  /**
+   * Choose, which CustomRole to update.
+   */
+  where: Prisma.CustomRoleWhereUniqueInput
+}
+
+/**
+ * CustomRole updateMany
+ */
+export type CustomRoleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CustomRoles.
+   */
+  data: Prisma.XOR<Prisma.CustomRoleUpdateManyMutationInput, Prisma.CustomRoleUncheckedUpdateManyInput>
+  /**
+   * Filter which CustomRoles to update
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * Limit how many CustomRoles to update.
+   */
+  limit?: number
+}
+
+/**
+ * CustomRole updateManyAndReturn
+ */
+export type CustomRoleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * The data used to update CustomRoles.
+   */
+  data: Prisma.XOR<Prisma.CustomRoleUpdateManyMutationInput, Prisma.CustomRoleUncheckedUpdateManyInput>
+  /**
+   * Filter which CustomRoles to update
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * Limit how many CustomRoles to update.
+   */
+  limit?: number
+}
+
+/**
+ * CustomRole upsert
+ */
+export type CustomRoleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * The filter to search for the CustomRole to update in case it exists.
+   */
+  where: Prisma.CustomRoleWhereUniqueInput
+  /**
+   * In case the CustomRole found by the `where` argument doesn't exist, create a new CustomRole with this data.
+   */
+  create: Prisma.XOR<Prisma.CustomRoleCreateInput, Prisma.CustomRoleUncheckedCreateInput>
+  /**
+   * In case the CustomRole was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CustomRoleUpdateInput, Prisma.CustomRoleUncheckedUpdateInput>
+}
+
+/**
+ * CustomRole delete
+ */
+export type CustomRoleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+  /**
+   * Filter which CustomRole to delete.
+   */
+  where: Prisma.CustomRoleWhereUniqueInput
+}
+
+/**
+ * CustomRole deleteMany
+ */
+export type CustomRoleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CustomRoles to delete
+   */
+  where?: Prisma.CustomRoleWhereInput
+  /**
+   * Limit how many CustomRoles to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CustomRole without action
+ */
+export type CustomRoleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CustomRole
+   */
+  select?: Prisma.CustomRoleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CustomRole
+   */
+  omit?: Prisma.CustomRoleOmit<ExtArgs> | null
+}
@@ -0,0 +1,1420 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ExternalPanSource` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ExternalPanSource
+ * 
+ */
+export type ExternalPanSourceModel = runtime.Types.Result.DefaultSelection<Prisma.$ExternalPanSourcePayload>
+
+export type AggregateExternalPanSource = {
+  _count: ExternalPanSourceCountAggregateOutputType | null
+  _avg: ExternalPanSourceAvgAggregateOutputType | null
+  _sum: ExternalPanSourceSumAggregateOutputType | null
+  _min: ExternalPanSourceMinAggregateOutputType | null
+  _max: ExternalPanSourceMaxAggregateOutputType | null
+}
+
+export type ExternalPanSourceAvgAggregateOutputType = {
+  id: number | null
+  timeoutMs: number | null
+  detailLimit: number | null
+  sortOrder: number | null
+}
+
+export type ExternalPanSourceSumAggregateOutputType = {
+  id: number | null
+  timeoutMs: number | null
+  detailLimit: number | null
+  sortOrder: number | null
+}
+
+export type ExternalPanSourceMinAggregateOutputType = {
+  id: number | null
+  key: string | null
+  label: string | null
+  parserType: string | null
+  baseUrl: string | null
+  searchUrlTemplate: string | null
+  enabled: boolean | null
+  timeoutMs: number | null
+  detailLimit: number | null
+  sortOrder: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ExternalPanSourceMaxAggregateOutputType = {
+  id: number | null
+  key: string | null
+  label: string | null
+  parserType: string | null
+  baseUrl: string | null
+  searchUrlTemplate: string | null
+  enabled: boolean | null
+  timeoutMs: number | null
+  detailLimit: number | null
+  sortOrder: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ExternalPanSourceCountAggregateOutputType = {
+  id: number
+  key: number
+  label: number
+  parserType: number
+  baseUrl: number
+  searchUrlTemplate: number
+  params: number
+  enabled: number
+  timeoutMs: number
+  detailLimit: number
+  sortOrder: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ExternalPanSourceAvgAggregateInputType = {
+  id?: true
+  timeoutMs?: true
+  detailLimit?: true
+  sortOrder?: true
+}
+
+export type ExternalPanSourceSumAggregateInputType = {
+  id?: true
+  timeoutMs?: true
+  detailLimit?: true
+  sortOrder?: true
+}
+
+export type ExternalPanSourceMinAggregateInputType = {
+  id?: true
+  key?: true
+  label?: true
+  parserType?: true
+  baseUrl?: true
+  searchUrlTemplate?: true
+  enabled?: true
+  timeoutMs?: true
+  detailLimit?: true
+  sortOrder?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ExternalPanSourceMaxAggregateInputType = {
+  id?: true
+  key?: true
+  label?: true
+  parserType?: true
+  baseUrl?: true
+  searchUrlTemplate?: true
+  enabled?: true
+  timeoutMs?: true
+  detailLimit?: true
+  sortOrder?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ExternalPanSourceCountAggregateInputType = {
+  id?: true
+  key?: true
+  label?: true
+  parserType?: true
+  baseUrl?: true
+  searchUrlTemplate?: true
+  params?: true
+  enabled?: true
+  timeoutMs?: true
+  detailLimit?: true
+  sortOrder?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ExternalPanSourceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExternalPanSource to aggregate.
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalPanSources to fetch.
+   */
+  orderBy?: Prisma.ExternalPanSourceOrderByWithRelationInput | Prisma.ExternalPanSourceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ExternalPanSourceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalPanSources from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalPanSources.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ExternalPanSources
+  **/
+  _count?: true | ExternalPanSourceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ExternalPanSourceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ExternalPanSourceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ExternalPanSourceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ExternalPanSourceMaxAggregateInputType
+}
+
+export type GetExternalPanSourceAggregateType<T extends ExternalPanSourceAggregateArgs> = {
+      [P in keyof T & keyof AggregateExternalPanSource]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExternalPanSource[P]>
+    : Prisma.GetScalarType<T[P], AggregateExternalPanSource[P]>
+}
+
+
+
+
+export type ExternalPanSourceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExternalPanSourceWhereInput
+  orderBy?: Prisma.ExternalPanSourceOrderByWithAggregationInput | Prisma.ExternalPanSourceOrderByWithAggregationInput[]
+  by: Prisma.ExternalPanSourceScalarFieldEnum[] | Prisma.ExternalPanSourceScalarFieldEnum
+  having?: Prisma.ExternalPanSourceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ExternalPanSourceCountAggregateInputType | true
+  _avg?: ExternalPanSourceAvgAggregateInputType
+  _sum?: ExternalPanSourceSumAggregateInputType
+  _min?: ExternalPanSourceMinAggregateInputType
+  _max?: ExternalPanSourceMaxAggregateInputType
+}
+
+export type ExternalPanSourceGroupByOutputType = {
+  id: number
+  key: string
+  label: string
+  parserType: string
+  baseUrl: string | null
+  searchUrlTemplate: string
+  params: runtime.JsonValue | null
+  enabled: boolean
+  timeoutMs: number
+  detailLimit: number
+  sortOrder: number
+  createdAt: Date
+  updatedAt: Date
+  _count: ExternalPanSourceCountAggregateOutputType | null
+  _avg: ExternalPanSourceAvgAggregateOutputType | null
+  _sum: ExternalPanSourceSumAggregateOutputType | null
+  _min: ExternalPanSourceMinAggregateOutputType | null
+  _max: ExternalPanSourceMaxAggregateOutputType | null
+}
+
+type GetExternalPanSourceGroupByPayload<T extends ExternalPanSourceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExternalPanSourceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ExternalPanSourceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ExternalPanSourceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ExternalPanSourceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ExternalPanSourceWhereInput = {
+  AND?: Prisma.ExternalPanSourceWhereInput | Prisma.ExternalPanSourceWhereInput[]
+  OR?: Prisma.ExternalPanSourceWhereInput[]
+  NOT?: Prisma.ExternalPanSourceWhereInput | Prisma.ExternalPanSourceWhereInput[]
+  id?: Prisma.IntFilter<"ExternalPanSource"> | number
+  key?: Prisma.StringFilter<"ExternalPanSource"> | string
+  label?: Prisma.StringFilter<"ExternalPanSource"> | string
+  parserType?: Prisma.StringFilter<"ExternalPanSource"> | string
+  baseUrl?: Prisma.StringNullableFilter<"ExternalPanSource"> | string | null
+  searchUrlTemplate?: Prisma.StringFilter<"ExternalPanSource"> | string
+  params?: Prisma.JsonNullableFilter<"ExternalPanSource">
+  enabled?: Prisma.BoolFilter<"ExternalPanSource"> | boolean
+  timeoutMs?: Prisma.IntFilter<"ExternalPanSource"> | number
+  detailLimit?: Prisma.IntFilter<"ExternalPanSource"> | number
+  sortOrder?: Prisma.IntFilter<"ExternalPanSource"> | number
+  createdAt?: Prisma.DateTimeFilter<"ExternalPanSource"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ExternalPanSource"> | Date | string
+}
+
+export type ExternalPanSourceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  parserType?: Prisma.SortOrder
+  baseUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  searchUrlTemplate?: Prisma.SortOrder
+  params?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalPanSourceWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  key?: string
+  AND?: Prisma.ExternalPanSourceWhereInput | Prisma.ExternalPanSourceWhereInput[]
+  OR?: Prisma.ExternalPanSourceWhereInput[]
+  NOT?: Prisma.ExternalPanSourceWhereInput | Prisma.ExternalPanSourceWhereInput[]
+  label?: Prisma.StringFilter<"ExternalPanSource"> | string
+  parserType?: Prisma.StringFilter<"ExternalPanSource"> | string
+  baseUrl?: Prisma.StringNullableFilter<"ExternalPanSource"> | string | null
+  searchUrlTemplate?: Prisma.StringFilter<"ExternalPanSource"> | string
+  params?: Prisma.JsonNullableFilter<"ExternalPanSource">
+  enabled?: Prisma.BoolFilter<"ExternalPanSource"> | boolean
+  timeoutMs?: Prisma.IntFilter<"ExternalPanSource"> | number
+  detailLimit?: Prisma.IntFilter<"ExternalPanSource"> | number
+  sortOrder?: Prisma.IntFilter<"ExternalPanSource"> | number
+  createdAt?: Prisma.DateTimeFilter<"ExternalPanSource"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ExternalPanSource"> | Date | string
+}, "id" | "key">
+
+export type ExternalPanSourceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  parserType?: Prisma.SortOrder
+  baseUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  searchUrlTemplate?: Prisma.SortOrder
+  params?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ExternalPanSourceCountOrderByAggregateInput
+  _avg?: Prisma.ExternalPanSourceAvgOrderByAggregateInput
+  _max?: Prisma.ExternalPanSourceMaxOrderByAggregateInput
+  _min?: Prisma.ExternalPanSourceMinOrderByAggregateInput
+  _sum?: Prisma.ExternalPanSourceSumOrderByAggregateInput
+}
+
+export type ExternalPanSourceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ExternalPanSourceScalarWhereWithAggregatesInput | Prisma.ExternalPanSourceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ExternalPanSourceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ExternalPanSourceScalarWhereWithAggregatesInput | Prisma.ExternalPanSourceScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ExternalPanSource"> | number
+  key?: Prisma.StringWithAggregatesFilter<"ExternalPanSource"> | string
+  label?: Prisma.StringWithAggregatesFilter<"ExternalPanSource"> | string
+  parserType?: Prisma.StringWithAggregatesFilter<"ExternalPanSource"> | string
+  baseUrl?: Prisma.StringNullableWithAggregatesFilter<"ExternalPanSource"> | string | null
+  searchUrlTemplate?: Prisma.StringWithAggregatesFilter<"ExternalPanSource"> | string
+  params?: Prisma.JsonNullableWithAggregatesFilter<"ExternalPanSource">
+  enabled?: Prisma.BoolWithAggregatesFilter<"ExternalPanSource"> | boolean
+  timeoutMs?: Prisma.IntWithAggregatesFilter<"ExternalPanSource"> | number
+  detailLimit?: Prisma.IntWithAggregatesFilter<"ExternalPanSource"> | number
+  sortOrder?: Prisma.IntWithAggregatesFilter<"ExternalPanSource"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExternalPanSource"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ExternalPanSource"> | Date | string
+}
+
+export type ExternalPanSourceCreateInput = {
+  key: string
+  label: string
+  parserType: string
+  baseUrl?: string | null
+  searchUrlTemplate: string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: boolean
+  timeoutMs?: number
+  detailLimit?: number
+  sortOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalPanSourceUncheckedCreateInput = {
+  id?: number
+  key: string
+  label: string
+  parserType: string
+  baseUrl?: string | null
+  searchUrlTemplate: string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: boolean
+  timeoutMs?: number
+  detailLimit?: number
+  sortOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalPanSourceUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  parserType?: Prisma.StringFieldUpdateOperationsInput | string
+  baseUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  searchUrlTemplate?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  timeoutMs?: Prisma.IntFieldUpdateOperationsInput | number
+  detailLimit?: Prisma.IntFieldUpdateOperationsInput | number
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalPanSourceUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  parserType?: Prisma.StringFieldUpdateOperationsInput | string
+  baseUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  searchUrlTemplate?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  timeoutMs?: Prisma.IntFieldUpdateOperationsInput | number
+  detailLimit?: Prisma.IntFieldUpdateOperationsInput | number
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalPanSourceCreateManyInput = {
+  id?: number
+  key: string
+  label: string
+  parserType: string
+  baseUrl?: string | null
+  searchUrlTemplate: string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: boolean
+  timeoutMs?: number
+  detailLimit?: number
+  sortOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalPanSourceUpdateManyMutationInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  parserType?: Prisma.StringFieldUpdateOperationsInput | string
+  baseUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  searchUrlTemplate?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  timeoutMs?: Prisma.IntFieldUpdateOperationsInput | number
+  detailLimit?: Prisma.IntFieldUpdateOperationsInput | number
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalPanSourceUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  parserType?: Prisma.StringFieldUpdateOperationsInput | string
+  baseUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  searchUrlTemplate?: Prisma.StringFieldUpdateOperationsInput | string
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  timeoutMs?: Prisma.IntFieldUpdateOperationsInput | number
+  detailLimit?: Prisma.IntFieldUpdateOperationsInput | number
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalPanSourceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  parserType?: Prisma.SortOrder
+  baseUrl?: Prisma.SortOrder
+  searchUrlTemplate?: Prisma.SortOrder
+  params?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalPanSourceAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+}
+
+export type ExternalPanSourceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  parserType?: Prisma.SortOrder
+  baseUrl?: Prisma.SortOrder
+  searchUrlTemplate?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalPanSourceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  parserType?: Prisma.SortOrder
+  baseUrl?: Prisma.SortOrder
+  searchUrlTemplate?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalPanSourceSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  timeoutMs?: Prisma.SortOrder
+  detailLimit?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+}
+
+
+
+export type ExternalPanSourceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  label?: boolean
+  parserType?: boolean
+  baseUrl?: boolean
+  searchUrlTemplate?: boolean
+  params?: boolean
+  enabled?: boolean
+  timeoutMs?: boolean
+  detailLimit?: boolean
+  sortOrder?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["externalPanSource"]>
+
+export type ExternalPanSourceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  label?: boolean
+  parserType?: boolean
+  baseUrl?: boolean
+  searchUrlTemplate?: boolean
+  params?: boolean
+  enabled?: boolean
+  timeoutMs?: boolean
+  detailLimit?: boolean
+  sortOrder?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["externalPanSource"]>
+
+export type ExternalPanSourceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  key?: boolean
+  label?: boolean
+  parserType?: boolean
+  baseUrl?: boolean
+  searchUrlTemplate?: boolean
+  params?: boolean
+  enabled?: boolean
+  timeoutMs?: boolean
+  detailLimit?: boolean
+  sortOrder?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["externalPanSource"]>
+
+export type ExternalPanSourceSelectScalar = {
+  id?: boolean
+  key?: boolean
+  label?: boolean
+  parserType?: boolean
+  baseUrl?: boolean
+  searchUrlTemplate?: boolean
+  params?: boolean
+  enabled?: boolean
+  timeoutMs?: boolean
+  detailLimit?: boolean
+  sortOrder?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ExternalPanSourceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "key" | "label" | "parserType" | "baseUrl" | "searchUrlTemplate" | "params" | "enabled" | "timeoutMs" | "detailLimit" | "sortOrder" | "createdAt" | "updatedAt", ExtArgs["result"]["externalPanSource"]>
+
+export type $ExternalPanSourcePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ExternalPanSource"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    key: string
+    label: string
+    parserType: string
+    baseUrl: string | null
+    searchUrlTemplate: string
+    params: runtime.JsonValue | null
+    enabled: boolean
+    timeoutMs: number
+    detailLimit: number
+    sortOrder: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["externalPanSource"]>
+  composites: {}
+}
+
+export type ExternalPanSourceGetPayload<S extends boolean | null | undefined | ExternalPanSourceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload, S>
+
+export type ExternalPanSourceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ExternalPanSourceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ExternalPanSourceCountAggregateInputType | true
+  }
+
+export interface ExternalPanSourceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ExternalPanSource'], meta: { name: 'ExternalPanSource' } }
+  /**
+   * Find zero or one ExternalPanSource that matches the filter.
+   * @param {ExternalPanSourceFindUniqueArgs} args - Arguments to find a ExternalPanSource
+   * @example
+   * // Get one ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExternalPanSourceFindUniqueArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ExternalPanSource that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExternalPanSourceFindUniqueOrThrowArgs} args - Arguments to find a ExternalPanSource
+   * @example
+   * // Get one ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExternalPanSourceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExternalPanSource that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceFindFirstArgs} args - Arguments to find a ExternalPanSource
+   * @example
+   * // Get one ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExternalPanSourceFindFirstArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceFindFirstArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExternalPanSource that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceFindFirstOrThrowArgs} args - Arguments to find a ExternalPanSource
+   * @example
+   * // Get one ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExternalPanSourceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ExternalPanSources that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExternalPanSources
+   * const externalPanSources = await prisma.externalPanSource.findMany()
+   * 
+   * // Get first 10 ExternalPanSources
+   * const externalPanSources = await prisma.externalPanSource.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const externalPanSourceWithIdOnly = await prisma.externalPanSource.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ExternalPanSourceFindManyArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ExternalPanSource.
+   * @param {ExternalPanSourceCreateArgs} args - Arguments to create a ExternalPanSource.
+   * @example
+   * // Create one ExternalPanSource
+   * const ExternalPanSource = await prisma.externalPanSource.create({
+   *   data: {
+   *     // ... data to create a ExternalPanSource
+   *   }
+   * })
+   * 
+   */
+  create<T extends ExternalPanSourceCreateArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceCreateArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ExternalPanSources.
+   * @param {ExternalPanSourceCreateManyArgs} args - Arguments to create many ExternalPanSources.
+   * @example
+   * // Create many ExternalPanSources
+   * const externalPanSource = await prisma.externalPanSource.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ExternalPanSourceCreateManyArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ExternalPanSources and returns the data saved in the database.
+   * @param {ExternalPanSourceCreateManyAndReturnArgs} args - Arguments to create many ExternalPanSources.
+   * @example
+   * // Create many ExternalPanSources
+   * const externalPanSource = await prisma.externalPanSource.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ExternalPanSources and only return the `id`
+   * const externalPanSourceWithIdOnly = await prisma.externalPanSource.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ExternalPanSourceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ExternalPanSource.
+   * @param {ExternalPanSourceDeleteArgs} args - Arguments to delete one ExternalPanSource.
+   * @example
+   * // Delete one ExternalPanSource
+   * const ExternalPanSource = await prisma.externalPanSource.delete({
+   *   where: {
+   *     // ... filter to delete one ExternalPanSource
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ExternalPanSourceDeleteArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceDeleteArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ExternalPanSource.
+   * @param {ExternalPanSourceUpdateArgs} args - Arguments to update one ExternalPanSource.
+   * @example
+   * // Update one ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ExternalPanSourceUpdateArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceUpdateArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ExternalPanSources.
+   * @param {ExternalPanSourceDeleteManyArgs} args - Arguments to filter ExternalPanSources to delete.
+   * @example
+   * // Delete a few ExternalPanSources
+   * const { count } = await prisma.externalPanSource.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ExternalPanSourceDeleteManyArgs>(args?: Prisma.SelectSubset<T, ExternalPanSourceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExternalPanSources.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExternalPanSources
+   * const externalPanSource = await prisma.externalPanSource.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ExternalPanSourceUpdateManyArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExternalPanSources and returns the data updated in the database.
+   * @param {ExternalPanSourceUpdateManyAndReturnArgs} args - Arguments to update many ExternalPanSources.
+   * @example
+   * // Update many ExternalPanSources
+   * const externalPanSource = await prisma.externalPanSource.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ExternalPanSources and only return the `id`
+   * const externalPanSourceWithIdOnly = await prisma.externalPanSource.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ExternalPanSourceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ExternalPanSource.
+   * @param {ExternalPanSourceUpsertArgs} args - Arguments to update or create a ExternalPanSource.
+   * @example
+   * // Update or create a ExternalPanSource
+   * const externalPanSource = await prisma.externalPanSource.upsert({
+   *   create: {
+   *     // ... data to create a ExternalPanSource
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExternalPanSource we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExternalPanSourceUpsertArgs>(args: Prisma.SelectSubset<T, ExternalPanSourceUpsertArgs<ExtArgs>>): Prisma.Prisma__ExternalPanSourceClient<runtime.Types.Result.GetResult<Prisma.$ExternalPanSourcePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ExternalPanSources.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceCountArgs} args - Arguments to filter ExternalPanSources to count.
+   * @example
+   * // Count the number of ExternalPanSources
+   * const count = await prisma.externalPanSource.count({
+   *   where: {
+   *     // ... the filter for the ExternalPanSources we want to count
+   *   }
+   * })
+  **/
+  count<T extends ExternalPanSourceCountArgs>(
+    args?: Prisma.Subset<T, ExternalPanSourceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ExternalPanSourceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ExternalPanSource.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ExternalPanSourceAggregateArgs>(args: Prisma.Subset<T, ExternalPanSourceAggregateArgs>): Prisma.PrismaPromise<GetExternalPanSourceAggregateType<T>>
+
+  /**
+   * Group by ExternalPanSource.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalPanSourceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ExternalPanSourceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExternalPanSourceGroupByArgs['orderBy'] }
+      : { orderBy?: ExternalPanSourceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ExternalPanSourceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetExternalPanSourceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ExternalPanSource model
+ */
+readonly fields: ExternalPanSourceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExternalPanSource.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExternalPanSourceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ExternalPanSource model
+ */
+export interface ExternalPanSourceFieldRefs {
+  readonly id: Prisma.FieldRef<"ExternalPanSource", 'Int'>
+  readonly key: Prisma.FieldRef<"ExternalPanSource", 'String'>
+  readonly label: Prisma.FieldRef<"ExternalPanSource", 'String'>
+  readonly parserType: Prisma.FieldRef<"ExternalPanSource", 'String'>
+  readonly baseUrl: Prisma.FieldRef<"ExternalPanSource", 'String'>
+  readonly searchUrlTemplate: Prisma.FieldRef<"ExternalPanSource", 'String'>
+  readonly params: Prisma.FieldRef<"ExternalPanSource", 'Json'>
+  readonly enabled: Prisma.FieldRef<"ExternalPanSource", 'Boolean'>
+  readonly timeoutMs: Prisma.FieldRef<"ExternalPanSource", 'Int'>
+  readonly detailLimit: Prisma.FieldRef<"ExternalPanSource", 'Int'>
+  readonly sortOrder: Prisma.FieldRef<"ExternalPanSource", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ExternalPanSource", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ExternalPanSource", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ExternalPanSource findUnique
+ */
+export type ExternalPanSourceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter, which ExternalPanSource to fetch.
+   */
+  where: Prisma.ExternalPanSourceWhereUniqueInput
+}
+
+/**
+ * ExternalPanSource findUniqueOrThrow
+ */
+export type ExternalPanSourceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter, which ExternalPanSource to fetch.
+   */
+  where: Prisma.ExternalPanSourceWhereUniqueInput
+}
+
+/**
+ * ExternalPanSource findFirst
+ */
+export type ExternalPanSourceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter, which ExternalPanSource to fetch.
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalPanSources to fetch.
+   */
+  orderBy?: Prisma.ExternalPanSourceOrderByWithRelationInput | Prisma.ExternalPanSourceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExternalPanSources.
+   */
+  cursor?: Prisma.ExternalPanSourceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalPanSources from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalPanSources.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExternalPanSources.
+   */
+  distinct?: Prisma.ExternalPanSourceScalarFieldEnum | Prisma.ExternalPanSourceScalarFieldEnum[]
+}
+
+/**
+ * ExternalPanSource findFirstOrThrow
+ */
+export type ExternalPanSourceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter, which ExternalPanSource to fetch.
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalPanSources to fetch.
+   */
+  orderBy?: Prisma.ExternalPanSourceOrderByWithRelationInput | Prisma.ExternalPanSourceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExternalPanSources.
+   */
+  cursor?: Prisma.ExternalPanSourceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalPanSources from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalPanSources.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExternalPanSources.
+   */
+  distinct?: Prisma.ExternalPanSourceScalarFieldEnum | Prisma.ExternalPanSourceScalarFieldEnum[]
+}
+
+/**
+ * ExternalPanSource findMany
+ */
+export type ExternalPanSourceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter, which ExternalPanSources to fetch.
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalPanSources to fetch.
+   */
+  orderBy?: Prisma.ExternalPanSourceOrderByWithRelationInput | Prisma.ExternalPanSourceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ExternalPanSources.
+   */
+  cursor?: Prisma.ExternalPanSourceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalPanSources from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalPanSources.
+   */
+  skip?: number
+  distinct?: Prisma.ExternalPanSourceScalarFieldEnum | Prisma.ExternalPanSourceScalarFieldEnum[]
+}
+
+/**
+ * ExternalPanSource create
+ */
+export type ExternalPanSourceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * The data needed to create a ExternalPanSource.
+   */
+  data: Prisma.XOR<Prisma.ExternalPanSourceCreateInput, Prisma.ExternalPanSourceUncheckedCreateInput>
+}
+
+/**
+ * ExternalPanSource createMany
+ */
+export type ExternalPanSourceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ExternalPanSources.
+   */
+  data: Prisma.ExternalPanSourceCreateManyInput | Prisma.ExternalPanSourceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ExternalPanSource createManyAndReturn
+ */
+export type ExternalPanSourceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * The data used to create many ExternalPanSources.
+   */
+  data: Prisma.ExternalPanSourceCreateManyInput | Prisma.ExternalPanSourceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ExternalPanSource update
+ */
+export type ExternalPanSourceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * The data needed to update a ExternalPanSource.
+   */
+  data: Prisma.XOR<Prisma.ExternalPanSourceUpdateInput, Prisma.ExternalPanSourceUncheckedUpdateInput>
+  /**
+   * Choose, which ExternalPanSource to update.
+   */
+  where: Prisma.ExternalPanSourceWhereUniqueInput
+}
+
+/**
+ * ExternalPanSource updateMany
+ */
+export type ExternalPanSourceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ExternalPanSources.
+   */
+  data: Prisma.XOR<Prisma.ExternalPanSourceUpdateManyMutationInput, Prisma.ExternalPanSourceUncheckedUpdateManyInput>
+  /**
+   * Filter which ExternalPanSources to update
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * Limit how many ExternalPanSources to update.
+   */
+  limit?: number
+}
+
+/**
+ * ExternalPanSource updateManyAndReturn
+ */
+export type ExternalPanSourceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * The data used to update ExternalPanSources.
+   */
+  data: Prisma.XOR<Prisma.ExternalPanSourceUpdateManyMutationInput, Prisma.ExternalPanSourceUncheckedUpdateManyInput>
+  /**
+   * Filter which ExternalPanSources to update
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * Limit how many ExternalPanSources to update.
+   */
+  limit?: number
+}
+
+/**
+ * ExternalPanSource upsert
+ */
+export type ExternalPanSourceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * The filter to search for the ExternalPanSource to update in case it exists.
+   */
+  where: Prisma.ExternalPanSourceWhereUniqueInput
+  /**
+   * In case the ExternalPanSource found by the `where` argument doesn't exist, create a new ExternalPanSource with this data.
+   */
+  create: Prisma.XOR<Prisma.ExternalPanSourceCreateInput, Prisma.ExternalPanSourceUncheckedCreateInput>
+  /**
+   * In case the ExternalPanSource was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExternalPanSourceUpdateInput, Prisma.ExternalPanSourceUncheckedUpdateInput>
+}
+
+/**
+ * ExternalPanSource delete
+ */
+export type ExternalPanSourceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+  /**
+   * Filter which ExternalPanSource to delete.
+   */
+  where: Prisma.ExternalPanSourceWhereUniqueInput
+}
+
+/**
+ * ExternalPanSource deleteMany
+ */
+export type ExternalPanSourceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExternalPanSources to delete
+   */
+  where?: Prisma.ExternalPanSourceWhereInput
+  /**
+   * Limit how many ExternalPanSources to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ExternalPanSource without action
+ */
+export type ExternalPanSourceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalPanSource
+   */
+  select?: Prisma.ExternalPanSourceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalPanSource
+   */
+  omit?: Prisma.ExternalPanSourceOmit<ExtArgs> | null
+}
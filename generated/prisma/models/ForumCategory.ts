@@ -244,6 +244,7 @@ export type ForumCategoryWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"ForumCategory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ForumCategory"> | Date | string
   topics?: Prisma.ForumTopicListRelationFilter
+  subscriptions?: Prisma.ForumSubscriptionListRelationFilter
 }
 
 export type ForumCategoryOrderByWithRelationInput = {
@@ -256,6 +257,7 @@ export type ForumCategoryOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   topics?: Prisma.ForumTopicOrderByRelationAggregateInput
+  subscriptions?: Prisma.ForumSubscriptionOrderByRelationAggregateInput
 }
 
 export type ForumCategoryWhereUniqueInput = Prisma.AtLeast<{
@@ -271,6 +273,7 @@ export type ForumCategoryWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"ForumCategory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ForumCategory"> | Date | string
   topics?: Prisma.ForumTopicListRelationFilter
+  subscriptions?: Prisma.ForumSubscriptionListRelationFilter
 }, "id" | "name" | "slug">
 
 export type ForumCategoryOrderByWithAggregationInput = {
@@ -312,6 +315,7 @@ export type ForumCategoryCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   topics?: Prisma.ForumTopicCreateNestedManyWithoutCategoryInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutCategoryInput
 }
 
 export type ForumCategoryUncheckedCreateInput = {
@@ -324,6 +328,7 @@ export type ForumCategoryUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   topics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutCategoryInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type ForumCategoryUpdateInput = {
@@ -335,6 +340,7 @@ export type ForumCategoryUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topics?: Prisma.ForumTopicUpdateManyWithoutCategoryNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutCategoryNestedInput
 }
 
 export type ForumCategoryUncheckedUpdateInput = {
@@ -347,6 +353,7 @@ export type ForumCategoryUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topics?: Prisma.ForumTopicUncheckedUpdateManyWithoutCategoryNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type ForumCategoryCreateManyInput = {
@@ -429,6 +436,11 @@ export type ForumCategoryScalarRelationFilter = {
   isNot?: Prisma.ForumCategoryWhereInput
 }
 
+export type ForumCategoryNullableScalarRelationFilter = {
+  is?: Prisma.ForumCategoryWhereInput | null
+  isNot?: Prisma.ForumCategoryWhereInput | null
+}
+
 export type ForumCategoryCreateNestedOneWithoutTopicsInput = {
   create?: Prisma.XOR<Prisma.ForumCategoryCreateWithoutTopicsInput, Prisma.ForumCategoryUncheckedCreateWithoutTopicsInput>
   connectOrCreate?: Prisma.ForumCategoryCreateOrConnectWithoutTopicsInput
@@ -443,6 +455,22 @@ export type ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ForumCategoryUpdateToOneWithWhereWithoutTopicsInput, Prisma.ForumCategoryUpdateWithoutTopicsInput>, Prisma.ForumCategoryUncheckedUpdateWithoutTopicsInput>
 }
 
+export type ForumCategoryCreateNestedOneWithoutSubscriptionsInput = {
+  create?: Prisma.XOR<Prisma.ForumCategoryCreateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedCreateWithoutSubscriptionsInput>
+  connectOrCreate?: Prisma.ForumCategoryCreateOrConnectWithoutSubscriptionsInput
+  connect?: Prisma.ForumCategoryWhereUniqueInput
+}
+
+export type ForumCategoryUpdateOneWithoutSubscriptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumCategoryCreateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedCreateWithoutSubscriptionsInput>
+  connectOrCreate?: Prisma.ForumCategoryCreateOrConnectWithoutSubscriptionsInput
+  upsert?: Prisma.ForumCategoryUpsertWithoutSubscriptionsInput
+  disconnect?: Prisma.ForumCategoryWhereInput | boolean
+  delete?: Prisma.ForumCategoryWhereInput | boolean
+  connect?: Prisma.ForumCategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumCategoryUpdateToOneWithWhereWithoutSubscriptionsInput, Prisma.ForumCategoryUpdateWithoutSubscriptionsInput>, Prisma.ForumCategoryUncheckedUpdateWithoutSubscriptionsInput>
+}
+
 export type ForumCategoryCreateWithoutTopicsInput = {
   name: string
   description: string
@@ -451,6 +479,7 @@ export type ForumCategoryCreateWithoutTopicsInput = {
   icon?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutCategoryInput
 }
 
 export type ForumCategoryUncheckedCreateWithoutTopicsInput = {
@@ -462,6 +491,7 @@ export type ForumCategoryUncheckedCreateWithoutTopicsInput = {
   icon?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type ForumCategoryCreateOrConnectWithoutTopicsInput = {
@@ -488,6 +518,7 @@ export type ForumCategoryUpdateWithoutTopicsInput = {
   icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutCategoryNestedInput
 }
 
 export type ForumCategoryUncheckedUpdateWithoutTopicsInput = {
@@ -499,6 +530,69 @@ export type ForumCategoryUncheckedUpdateWithoutTopicsInput = {
   icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type ForumCategoryCreateWithoutSubscriptionsInput = {
+  name: string
+  description: string
+  slug: string
+  order?: number
+  icon?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  topics?: Prisma.ForumTopicCreateNestedManyWithoutCategoryInput
+}
+
+export type ForumCategoryUncheckedCreateWithoutSubscriptionsInput = {
+  id?: number
+  name: string
+  description: string
+  slug: string
+  order?: number
+  icon?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  topics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type ForumCategoryCreateOrConnectWithoutSubscriptionsInput = {
+  where: Prisma.ForumCategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumCategoryCreateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedCreateWithoutSubscriptionsInput>
+}
+
+export type ForumCategoryUpsertWithoutSubscriptionsInput = {
+  update: Prisma.XOR<Prisma.ForumCategoryUpdateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedUpdateWithoutSubscriptionsInput>
+  create: Prisma.XOR<Prisma.ForumCategoryCreateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedCreateWithoutSubscriptionsInput>
+  where?: Prisma.ForumCategoryWhereInput
+}
+
+export type ForumCategoryUpdateToOneWithWhereWithoutSubscriptionsInput = {
+  where?: Prisma.ForumCategoryWhereInput
+  data: Prisma.XOR<Prisma.ForumCategoryUpdateWithoutSubscriptionsInput, Prisma.ForumCategoryUncheckedUpdateWithoutSubscriptionsInput>
+}
+
+export type ForumCategoryUpdateWithoutSubscriptionsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topics?: Prisma.ForumTopicUpdateManyWithoutCategoryNestedInput
+}
+
+export type ForumCategoryUncheckedUpdateWithoutSubscriptionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topics?: Prisma.ForumTopicUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 
@@ -508,10 +602,12 @@ export type ForumCategoryUncheckedUpdateWithoutTopicsInput = {
 
 export type ForumCategoryCountOutputType = {
   topics: number
+  subscriptions: number
 }
 
 export type ForumCategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   topics?: boolean | ForumCategoryCountOutputTypeCountTopicsArgs
+  subscriptions?: boolean | ForumCategoryCountOutputTypeCountSubscriptionsArgs
 }
 
 /**
@@ -531,6 +627,13 @@ export type ForumCategoryCountOutputTypeCountTopicsArgs<ExtArgs extends runtime.
   where?: Prisma.ForumTopicWhereInput
 }
 
+/**
+ * ForumCategoryCountOutputType without action
+ */
+export type ForumCategoryCountOutputTypeCountSubscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumSubscriptionWhereInput
+}
+
 
 export type ForumCategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -542,6 +645,7 @@ export type ForumCategorySelect<ExtArgs extends runtime.Types.Extensions.Interna
   createdAt?: boolean
   updatedAt?: boolean
   topics?: boolean | Prisma.ForumCategory$topicsArgs<ExtArgs>
+  subscriptions?: boolean | Prisma.ForumCategory$subscriptionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumCategoryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["forumCategory"]>
 
@@ -581,6 +685,7 @@ export type ForumCategorySelectScalar = {
 export type ForumCategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "slug" | "order" | "icon" | "createdAt" | "updatedAt", ExtArgs["result"]["forumCategory"]>
 export type ForumCategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   topics?: boolean | Prisma.ForumCategory$topicsArgs<ExtArgs>
+  subscriptions?: boolean | Prisma.ForumCategory$subscriptionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumCategoryCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ForumCategoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -590,6 +695,7 @@ export type $ForumCategoryPayload<ExtArgs extends runtime.Types.Extensions.Inter
   name: "ForumCategory"
   objects: {
     topics: Prisma.$ForumTopicPayload<ExtArgs>[]
+    subscriptions: Prisma.$ForumSubscriptionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -995,6 +1101,7 @@ readonly fields: ForumCategoryFieldRefs;
 export interface Prisma__ForumCategoryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   topics<T extends Prisma.ForumCategory$topicsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumCategory$topicsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumTopicPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  subscriptions<T extends Prisma.ForumCategory$subscriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumCategory$subscriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1443,6 +1550,30 @@ export type ForumCategory$topicsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.ForumTopicScalarFieldEnum | Prisma.ForumTopicScalarFieldEnum[]
 }
 
+/**
+ * ForumCategory.subscriptions
+ */
+export type ForumCategory$subscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  where?: Prisma.ForumSubscriptionWhereInput
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
 /**
  * ForumCategory without action
  */
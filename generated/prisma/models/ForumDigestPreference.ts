@@ -0,0 +1,1398 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ForumDigestPreference` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ForumDigestPreference
+ * 
+ */
+export type ForumDigestPreferenceModel = runtime.Types.Result.DefaultSelection<Prisma.$ForumDigestPreferencePayload>
+
+export type AggregateForumDigestPreference = {
+  _count: ForumDigestPreferenceCountAggregateOutputType | null
+  _avg: ForumDigestPreferenceAvgAggregateOutputType | null
+  _sum: ForumDigestPreferenceSumAggregateOutputType | null
+  _min: ForumDigestPreferenceMinAggregateOutputType | null
+  _max: ForumDigestPreferenceMaxAggregateOutputType | null
+}
+
+export type ForumDigestPreferenceAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type ForumDigestPreferenceSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type ForumDigestPreferenceMinAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  frequency: string | null
+  unsubscribeToken: string | null
+  lastSentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ForumDigestPreferenceMaxAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  frequency: string | null
+  unsubscribeToken: string | null
+  lastSentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ForumDigestPreferenceCountAggregateOutputType = {
+  id: number
+  userId: number
+  frequency: number
+  unsubscribeToken: number
+  lastSentAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ForumDigestPreferenceAvgAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type ForumDigestPreferenceSumAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type ForumDigestPreferenceMinAggregateInputType = {
+  id?: true
+  userId?: true
+  frequency?: true
+  unsubscribeToken?: true
+  lastSentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ForumDigestPreferenceMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  frequency?: true
+  unsubscribeToken?: true
+  lastSentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ForumDigestPreferenceCountAggregateInputType = {
+  id?: true
+  userId?: true
+  frequency?: true
+  unsubscribeToken?: true
+  lastSentAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ForumDigestPreferenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumDigestPreference to aggregate.
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumDigestPreferences to fetch.
+   */
+  orderBy?: Prisma.ForumDigestPreferenceOrderByWithRelationInput | Prisma.ForumDigestPreferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumDigestPreferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumDigestPreferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ForumDigestPreferences
+  **/
+  _count?: true | ForumDigestPreferenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ForumDigestPreferenceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ForumDigestPreferenceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ForumDigestPreferenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ForumDigestPreferenceMaxAggregateInputType
+}
+
+export type GetForumDigestPreferenceAggregateType<T extends ForumDigestPreferenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateForumDigestPreference]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateForumDigestPreference[P]>
+    : Prisma.GetScalarType<T[P], AggregateForumDigestPreference[P]>
+}
+
+
+
+
+export type ForumDigestPreferenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  orderBy?: Prisma.ForumDigestPreferenceOrderByWithAggregationInput | Prisma.ForumDigestPreferenceOrderByWithAggregationInput[]
+  by: Prisma.ForumDigestPreferenceScalarFieldEnum[] | Prisma.ForumDigestPreferenceScalarFieldEnum
+  having?: Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ForumDigestPreferenceCountAggregateInputType | true
+  _avg?: ForumDigestPreferenceAvgAggregateInputType
+  _sum?: ForumDigestPreferenceSumAggregateInputType
+  _min?: ForumDigestPreferenceMinAggregateInputType
+  _max?: ForumDigestPreferenceMaxAggregateInputType
+}
+
+export type ForumDigestPreferenceGroupByOutputType = {
+  id: number
+  userId: number
+  frequency: string
+  unsubscribeToken: string
+  lastSentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ForumDigestPreferenceCountAggregateOutputType | null
+  _avg: ForumDigestPreferenceAvgAggregateOutputType | null
+  _sum: ForumDigestPreferenceSumAggregateOutputType | null
+  _min: ForumDigestPreferenceMinAggregateOutputType | null
+  _max: ForumDigestPreferenceMaxAggregateOutputType | null
+}
+
+type GetForumDigestPreferenceGroupByPayload<T extends ForumDigestPreferenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ForumDigestPreferenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ForumDigestPreferenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ForumDigestPreferenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ForumDigestPreferenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ForumDigestPreferenceWhereInput = {
+  AND?: Prisma.ForumDigestPreferenceWhereInput | Prisma.ForumDigestPreferenceWhereInput[]
+  OR?: Prisma.ForumDigestPreferenceWhereInput[]
+  NOT?: Prisma.ForumDigestPreferenceWhereInput | Prisma.ForumDigestPreferenceWhereInput[]
+  id?: Prisma.IntFilter<"ForumDigestPreference"> | number
+  userId?: Prisma.IntFilter<"ForumDigestPreference"> | number
+  frequency?: Prisma.StringFilter<"ForumDigestPreference"> | string
+  unsubscribeToken?: Prisma.StringFilter<"ForumDigestPreference"> | string
+  lastSentAt?: Prisma.DateTimeNullableFilter<"ForumDigestPreference"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ForumDigestPreference"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ForumDigestPreference"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ForumDigestPreferenceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  unsubscribeToken?: Prisma.SortOrder
+  lastSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ForumDigestPreferenceWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  userId?: number
+  unsubscribeToken?: string
+  AND?: Prisma.ForumDigestPreferenceWhereInput | Prisma.ForumDigestPreferenceWhereInput[]
+  OR?: Prisma.ForumDigestPreferenceWhereInput[]
+  NOT?: Prisma.ForumDigestPreferenceWhereInput | Prisma.ForumDigestPreferenceWhereInput[]
+  frequency?: Prisma.StringFilter<"ForumDigestPreference"> | string
+  lastSentAt?: Prisma.DateTimeNullableFilter<"ForumDigestPreference"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ForumDigestPreference"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ForumDigestPreference"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId" | "unsubscribeToken">
+
+export type ForumDigestPreferenceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  unsubscribeToken?: Prisma.SortOrder
+  lastSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ForumDigestPreferenceCountOrderByAggregateInput
+  _avg?: Prisma.ForumDigestPreferenceAvgOrderByAggregateInput
+  _max?: Prisma.ForumDigestPreferenceMaxOrderByAggregateInput
+  _min?: Prisma.ForumDigestPreferenceMinOrderByAggregateInput
+  _sum?: Prisma.ForumDigestPreferenceSumOrderByAggregateInput
+}
+
+export type ForumDigestPreferenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput | Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput | Prisma.ForumDigestPreferenceScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ForumDigestPreference"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"ForumDigestPreference"> | number
+  frequency?: Prisma.StringWithAggregatesFilter<"ForumDigestPreference"> | string
+  unsubscribeToken?: Prisma.StringWithAggregatesFilter<"ForumDigestPreference"> | string
+  lastSentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ForumDigestPreference"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumDigestPreference"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ForumDigestPreference"> | Date | string
+}
+
+export type ForumDigestPreferenceCreateInput = {
+  frequency?: string
+  unsubscribeToken: string
+  lastSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumDigestPreferenceInput
+}
+
+export type ForumDigestPreferenceUncheckedCreateInput = {
+  id?: number
+  userId: number
+  frequency?: string
+  unsubscribeToken: string
+  lastSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumDigestPreferenceUpdateInput = {
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumDigestPreferenceNestedInput
+}
+
+export type ForumDigestPreferenceUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumDigestPreferenceCreateManyInput = {
+  id?: number
+  userId: number
+  frequency?: string
+  unsubscribeToken: string
+  lastSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumDigestPreferenceUpdateManyMutationInput = {
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumDigestPreferenceUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumDigestPreferenceNullableScalarRelationFilter = {
+  is?: Prisma.ForumDigestPreferenceWhereInput | null
+  isNot?: Prisma.ForumDigestPreferenceWhereInput | null
+}
+
+export type ForumDigestPreferenceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  unsubscribeToken?: Prisma.SortOrder
+  lastSentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumDigestPreferenceAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ForumDigestPreferenceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  unsubscribeToken?: Prisma.SortOrder
+  lastSentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumDigestPreferenceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  unsubscribeToken?: Prisma.SortOrder
+  lastSentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumDigestPreferenceSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ForumDigestPreferenceCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ForumDigestPreferenceCreateOrConnectWithoutUserInput
+  connect?: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+export type ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ForumDigestPreferenceCreateOrConnectWithoutUserInput
+  connect?: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+export type ForumDigestPreferenceUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ForumDigestPreferenceCreateOrConnectWithoutUserInput
+  upsert?: Prisma.ForumDigestPreferenceUpsertWithoutUserInput
+  disconnect?: Prisma.ForumDigestPreferenceWhereInput | boolean
+  delete?: Prisma.ForumDigestPreferenceWhereInput | boolean
+  connect?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumDigestPreferenceUpdateToOneWithWhereWithoutUserInput, Prisma.ForumDigestPreferenceUpdateWithoutUserInput>, Prisma.ForumDigestPreferenceUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ForumDigestPreferenceCreateOrConnectWithoutUserInput
+  upsert?: Prisma.ForumDigestPreferenceUpsertWithoutUserInput
+  disconnect?: Prisma.ForumDigestPreferenceWhereInput | boolean
+  delete?: Prisma.ForumDigestPreferenceWhereInput | boolean
+  connect?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumDigestPreferenceUpdateToOneWithWhereWithoutUserInput, Prisma.ForumDigestPreferenceUpdateWithoutUserInput>, Prisma.ForumDigestPreferenceUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumDigestPreferenceCreateWithoutUserInput = {
+  frequency?: string
+  unsubscribeToken: string
+  lastSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumDigestPreferenceUncheckedCreateWithoutUserInput = {
+  id?: number
+  frequency?: string
+  unsubscribeToken: string
+  lastSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumDigestPreferenceCreateOrConnectWithoutUserInput = {
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+}
+
+export type ForumDigestPreferenceUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ForumDigestPreferenceCreateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedCreateWithoutUserInput>
+  where?: Prisma.ForumDigestPreferenceWhereInput
+}
+
+export type ForumDigestPreferenceUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  data: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateWithoutUserInput, Prisma.ForumDigestPreferenceUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumDigestPreferenceUpdateWithoutUserInput = {
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumDigestPreferenceUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  unsubscribeToken?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ForumDigestPreferenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  frequency?: boolean
+  unsubscribeToken?: boolean
+  lastSentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumDigestPreference"]>
+
+export type ForumDigestPreferenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  frequency?: boolean
+  unsubscribeToken?: boolean
+  lastSentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumDigestPreference"]>
+
+export type ForumDigestPreferenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  frequency?: boolean
+  unsubscribeToken?: boolean
+  lastSentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumDigestPreference"]>
+
+export type ForumDigestPreferenceSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  frequency?: boolean
+  unsubscribeToken?: boolean
+  lastSentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ForumDigestPreferenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "frequency" | "unsubscribeToken" | "lastSentAt" | "createdAt" | "updatedAt", ExtArgs["result"]["forumDigestPreference"]>
+export type ForumDigestPreferenceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumDigestPreferenceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumDigestPreferenceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ForumDigestPreferencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ForumDigestPreference"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    userId: number
+    frequency: string
+    unsubscribeToken: string
+    lastSentAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["forumDigestPreference"]>
+  composites: {}
+}
+
+export type ForumDigestPreferenceGetPayload<S extends boolean | null | undefined | ForumDigestPreferenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload, S>
+
+export type ForumDigestPreferenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ForumDigestPreferenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ForumDigestPreferenceCountAggregateInputType | true
+  }
+
+export interface ForumDigestPreferenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ForumDigestPreference'], meta: { name: 'ForumDigestPreference' } }
+  /**
+   * Find zero or one ForumDigestPreference that matches the filter.
+   * @param {ForumDigestPreferenceFindUniqueArgs} args - Arguments to find a ForumDigestPreference
+   * @example
+   * // Get one ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ForumDigestPreferenceFindUniqueArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ForumDigestPreference that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ForumDigestPreferenceFindUniqueOrThrowArgs} args - Arguments to find a ForumDigestPreference
+   * @example
+   * // Get one ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ForumDigestPreferenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumDigestPreference that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceFindFirstArgs} args - Arguments to find a ForumDigestPreference
+   * @example
+   * // Get one ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ForumDigestPreferenceFindFirstArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumDigestPreference that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceFindFirstOrThrowArgs} args - Arguments to find a ForumDigestPreference
+   * @example
+   * // Get one ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ForumDigestPreferenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ForumDigestPreferences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ForumDigestPreferences
+   * const forumDigestPreferences = await prisma.forumDigestPreference.findMany()
+   * 
+   * // Get first 10 ForumDigestPreferences
+   * const forumDigestPreferences = await prisma.forumDigestPreference.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const forumDigestPreferenceWithIdOnly = await prisma.forumDigestPreference.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ForumDigestPreferenceFindManyArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ForumDigestPreference.
+   * @param {ForumDigestPreferenceCreateArgs} args - Arguments to create a ForumDigestPreference.
+   * @example
+   * // Create one ForumDigestPreference
+   * const ForumDigestPreference = await prisma.forumDigestPreference.create({
+   *   data: {
+   *     // ... data to create a ForumDigestPreference
+   *   }
+   * })
+   * 
+   */
+  create<T extends ForumDigestPreferenceCreateArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceCreateArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ForumDigestPreferences.
+   * @param {ForumDigestPreferenceCreateManyArgs} args - Arguments to create many ForumDigestPreferences.
+   * @example
+   * // Create many ForumDigestPreferences
+   * const forumDigestPreference = await prisma.forumDigestPreference.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ForumDigestPreferenceCreateManyArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ForumDigestPreferences and returns the data saved in the database.
+   * @param {ForumDigestPreferenceCreateManyAndReturnArgs} args - Arguments to create many ForumDigestPreferences.
+   * @example
+   * // Create many ForumDigestPreferences
+   * const forumDigestPreference = await prisma.forumDigestPreference.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ForumDigestPreferences and only return the `id`
+   * const forumDigestPreferenceWithIdOnly = await prisma.forumDigestPreference.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ForumDigestPreferenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ForumDigestPreference.
+   * @param {ForumDigestPreferenceDeleteArgs} args - Arguments to delete one ForumDigestPreference.
+   * @example
+   * // Delete one ForumDigestPreference
+   * const ForumDigestPreference = await prisma.forumDigestPreference.delete({
+   *   where: {
+   *     // ... filter to delete one ForumDigestPreference
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ForumDigestPreferenceDeleteArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceDeleteArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ForumDigestPreference.
+   * @param {ForumDigestPreferenceUpdateArgs} args - Arguments to update one ForumDigestPreference.
+   * @example
+   * // Update one ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ForumDigestPreferenceUpdateArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceUpdateArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ForumDigestPreferences.
+   * @param {ForumDigestPreferenceDeleteManyArgs} args - Arguments to filter ForumDigestPreferences to delete.
+   * @example
+   * // Delete a few ForumDigestPreferences
+   * const { count } = await prisma.forumDigestPreference.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ForumDigestPreferenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, ForumDigestPreferenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumDigestPreferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ForumDigestPreferences
+   * const forumDigestPreference = await prisma.forumDigestPreference.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ForumDigestPreferenceUpdateManyArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumDigestPreferences and returns the data updated in the database.
+   * @param {ForumDigestPreferenceUpdateManyAndReturnArgs} args - Arguments to update many ForumDigestPreferences.
+   * @example
+   * // Update many ForumDigestPreferences
+   * const forumDigestPreference = await prisma.forumDigestPreference.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ForumDigestPreferences and only return the `id`
+   * const forumDigestPreferenceWithIdOnly = await prisma.forumDigestPreference.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ForumDigestPreferenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ForumDigestPreference.
+   * @param {ForumDigestPreferenceUpsertArgs} args - Arguments to update or create a ForumDigestPreference.
+   * @example
+   * // Update or create a ForumDigestPreference
+   * const forumDigestPreference = await prisma.forumDigestPreference.upsert({
+   *   create: {
+   *     // ... data to create a ForumDigestPreference
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ForumDigestPreference we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ForumDigestPreferenceUpsertArgs>(args: Prisma.SelectSubset<T, ForumDigestPreferenceUpsertArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ForumDigestPreferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceCountArgs} args - Arguments to filter ForumDigestPreferences to count.
+   * @example
+   * // Count the number of ForumDigestPreferences
+   * const count = await prisma.forumDigestPreference.count({
+   *   where: {
+   *     // ... the filter for the ForumDigestPreferences we want to count
+   *   }
+   * })
+  **/
+  count<T extends ForumDigestPreferenceCountArgs>(
+    args?: Prisma.Subset<T, ForumDigestPreferenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ForumDigestPreferenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ForumDigestPreference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ForumDigestPreferenceAggregateArgs>(args: Prisma.Subset<T, ForumDigestPreferenceAggregateArgs>): Prisma.PrismaPromise<GetForumDigestPreferenceAggregateType<T>>
+
+  /**
+   * Group by ForumDigestPreference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumDigestPreferenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ForumDigestPreferenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ForumDigestPreferenceGroupByArgs['orderBy'] }
+      : { orderBy?: ForumDigestPreferenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ForumDigestPreferenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetForumDigestPreferenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ForumDigestPreference model
+ */
+readonly fields: ForumDigestPreferenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ForumDigestPreference.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ForumDigestPreferenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ForumDigestPreference model
+ */
+export interface ForumDigestPreferenceFieldRefs {
+  readonly id: Prisma.FieldRef<"ForumDigestPreference", 'Int'>
+  readonly userId: Prisma.FieldRef<"ForumDigestPreference", 'Int'>
+  readonly frequency: Prisma.FieldRef<"ForumDigestPreference", 'String'>
+  readonly unsubscribeToken: Prisma.FieldRef<"ForumDigestPreference", 'String'>
+  readonly lastSentAt: Prisma.FieldRef<"ForumDigestPreference", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ForumDigestPreference", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ForumDigestPreference", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ForumDigestPreference findUnique
+ */
+export type ForumDigestPreferenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumDigestPreference to fetch.
+   */
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+/**
+ * ForumDigestPreference findUniqueOrThrow
+ */
+export type ForumDigestPreferenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumDigestPreference to fetch.
+   */
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+/**
+ * ForumDigestPreference findFirst
+ */
+export type ForumDigestPreferenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumDigestPreference to fetch.
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumDigestPreferences to fetch.
+   */
+  orderBy?: Prisma.ForumDigestPreferenceOrderByWithRelationInput | Prisma.ForumDigestPreferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumDigestPreferences.
+   */
+  cursor?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumDigestPreferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumDigestPreferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumDigestPreferences.
+   */
+  distinct?: Prisma.ForumDigestPreferenceScalarFieldEnum | Prisma.ForumDigestPreferenceScalarFieldEnum[]
+}
+
+/**
+ * ForumDigestPreference findFirstOrThrow
+ */
+export type ForumDigestPreferenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumDigestPreference to fetch.
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumDigestPreferences to fetch.
+   */
+  orderBy?: Prisma.ForumDigestPreferenceOrderByWithRelationInput | Prisma.ForumDigestPreferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumDigestPreferences.
+   */
+  cursor?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumDigestPreferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumDigestPreferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumDigestPreferences.
+   */
+  distinct?: Prisma.ForumDigestPreferenceScalarFieldEnum | Prisma.ForumDigestPreferenceScalarFieldEnum[]
+}
+
+/**
+ * ForumDigestPreference findMany
+ */
+export type ForumDigestPreferenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumDigestPreferences to fetch.
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumDigestPreferences to fetch.
+   */
+  orderBy?: Prisma.ForumDigestPreferenceOrderByWithRelationInput | Prisma.ForumDigestPreferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ForumDigestPreferences.
+   */
+  cursor?: Prisma.ForumDigestPreferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumDigestPreferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumDigestPreferences.
+   */
+  skip?: number
+  distinct?: Prisma.ForumDigestPreferenceScalarFieldEnum | Prisma.ForumDigestPreferenceScalarFieldEnum[]
+}
+
+/**
+ * ForumDigestPreference create
+ */
+export type ForumDigestPreferenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ForumDigestPreference.
+   */
+  data: Prisma.XOR<Prisma.ForumDigestPreferenceCreateInput, Prisma.ForumDigestPreferenceUncheckedCreateInput>
+}
+
+/**
+ * ForumDigestPreference createMany
+ */
+export type ForumDigestPreferenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ForumDigestPreferences.
+   */
+  data: Prisma.ForumDigestPreferenceCreateManyInput | Prisma.ForumDigestPreferenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ForumDigestPreference createManyAndReturn
+ */
+export type ForumDigestPreferenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many ForumDigestPreferences.
+   */
+  data: Prisma.ForumDigestPreferenceCreateManyInput | Prisma.ForumDigestPreferenceCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumDigestPreference update
+ */
+export type ForumDigestPreferenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ForumDigestPreference.
+   */
+  data: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateInput, Prisma.ForumDigestPreferenceUncheckedUpdateInput>
+  /**
+   * Choose, which ForumDigestPreference to update.
+   */
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+/**
+ * ForumDigestPreference updateMany
+ */
+export type ForumDigestPreferenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ForumDigestPreferences.
+   */
+  data: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateManyMutationInput, Prisma.ForumDigestPreferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumDigestPreferences to update
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * Limit how many ForumDigestPreferences to update.
+   */
+  limit?: number
+}
+
+/**
+ * ForumDigestPreference updateManyAndReturn
+ */
+export type ForumDigestPreferenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * The data used to update ForumDigestPreferences.
+   */
+  data: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateManyMutationInput, Prisma.ForumDigestPreferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumDigestPreferences to update
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * Limit how many ForumDigestPreferences to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumDigestPreference upsert
+ */
+export type ForumDigestPreferenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ForumDigestPreference to update in case it exists.
+   */
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+  /**
+   * In case the ForumDigestPreference found by the `where` argument doesn't exist, create a new ForumDigestPreference with this data.
+   */
+  create: Prisma.XOR<Prisma.ForumDigestPreferenceCreateInput, Prisma.ForumDigestPreferenceUncheckedCreateInput>
+  /**
+   * In case the ForumDigestPreference was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ForumDigestPreferenceUpdateInput, Prisma.ForumDigestPreferenceUncheckedUpdateInput>
+}
+
+/**
+ * ForumDigestPreference delete
+ */
+export type ForumDigestPreferenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  /**
+   * Filter which ForumDigestPreference to delete.
+   */
+  where: Prisma.ForumDigestPreferenceWhereUniqueInput
+}
+
+/**
+ * ForumDigestPreference deleteMany
+ */
+export type ForumDigestPreferenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumDigestPreferences to delete
+   */
+  where?: Prisma.ForumDigestPreferenceWhereInput
+  /**
+   * Limit how many ForumDigestPreferences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ForumDigestPreference without action
+ */
+export type ForumDigestPreferenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+}
@@ -30,6 +30,7 @@ export type ForumPostAvgAggregateOutputType = {
   topicId: number | null
   authorId: number | null
   parentId: number | null
+  revisionCount: number | null
 }
 
 export type ForumPostSumAggregateOutputType = {
@@ -37,6 +38,7 @@ export type ForumPostSumAggregateOutputType = {
   topicId: number | null
   authorId: number | null
   parentId: number | null
+  revisionCount: number | null
 }
 
 export type ForumPostMinAggregateOutputType = {
@@ -48,6 +50,8 @@ export type ForumPostMinAggregateOutputType = {
   topicId: number | null
   authorId: number | null
   parentId: number | null
+  revisionCount: number | null
+  editedAt: Date | null
 }
 
 export type ForumPostMaxAggregateOutputType = {
@@ -59,6 +63,8 @@ export type ForumPostMaxAggregateOutputType = {
   topicId: number | null
   authorId: number | null
   parentId: number | null
+  revisionCount: number | null
+  editedAt: Date | null
 }
 
 export type ForumPostCountAggregateOutputType = {
@@ -70,6 +76,8 @@ export type ForumPostCountAggregateOutputType = {
   topicId: number
   authorId: number
   parentId: number
+  revisionCount: number
+  editedAt: number
   _all: number
 }
 
@@ -79,6 +87,7 @@ export type ForumPostAvgAggregateInputType = {
   topicId?: true
   authorId?: true
   parentId?: true
+  revisionCount?: true
 }
 
 export type ForumPostSumAggregateInputType = {
@@ -86,6 +95,7 @@ export type ForumPostSumAggregateInputType = {
   topicId?: true
   authorId?: true
   parentId?: true
+  revisionCount?: true
 }
 
 export type ForumPostMinAggregateInputType = {
@@ -97,6 +107,8 @@ export type ForumPostMinAggregateInputType = {
   topicId?: true
   authorId?: true
   parentId?: true
+  revisionCount?: true
+  editedAt?: true
 }
 
 export type ForumPostMaxAggregateInputType = {
@@ -108,6 +120,8 @@ export type ForumPostMaxAggregateInputType = {
   topicId?: true
   authorId?: true
   parentId?: true
+  revisionCount?: true
+  editedAt?: true
 }
 
 export type ForumPostCountAggregateInputType = {
@@ -119,6 +133,8 @@ export type ForumPostCountAggregateInputType = {
   topicId?: true
   authorId?: true
   parentId?: true
+  revisionCount?: true
+  editedAt?: true
   _all?: true
 }
 
@@ -217,6 +233,8 @@ export type ForumPostGroupByOutputType = {
   topicId: number
   authorId: number
   parentId: number | null
+  revisionCount: number
+  editedAt: Date | null
   _count: ForumPostCountAggregateOutputType | null
   _avg: ForumPostAvgAggregateOutputType | null
   _sum: ForumPostSumAggregateOutputType | null
@@ -251,11 +269,16 @@ export type ForumPostWhereInput = {
   topicId?: Prisma.IntFilter<"ForumPost"> | number
   authorId?: Prisma.IntFilter<"ForumPost"> | number
   parentId?: Prisma.IntNullableFilter<"ForumPost"> | number | null
+  revisionCount?: Prisma.IntFilter<"ForumPost"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumPost"> | Date | string | null
   author?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   topic?: Prisma.XOR<Prisma.ForumTopicScalarRelationFilter, Prisma.ForumTopicWhereInput>
   parent?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
   replies?: Prisma.ForumPostListRelationFilter
   lastUnreadForStates?: Prisma.ForumTopicReadStateListRelationFilter
+  acceptedForTopic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  reactions?: Prisma.ForumPostReactionListRelationFilter
+  revisions?: Prisma.ForumRevisionListRelationFilter
 }
 
 export type ForumPostOrderByWithRelationInput = {
@@ -267,11 +290,16 @@ export type ForumPostOrderByWithRelationInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   author?: Prisma.UserOrderByWithRelationInput
   topic?: Prisma.ForumTopicOrderByWithRelationInput
   parent?: Prisma.ForumPostOrderByWithRelationInput
   replies?: Prisma.ForumPostOrderByRelationAggregateInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateOrderByRelationAggregateInput
+  acceptedForTopic?: Prisma.ForumTopicOrderByWithRelationInput
+  reactions?: Prisma.ForumPostReactionOrderByRelationAggregateInput
+  revisions?: Prisma.ForumRevisionOrderByRelationAggregateInput
 }
 
 export type ForumPostWhereUniqueInput = Prisma.AtLeast<{
@@ -286,11 +314,16 @@ export type ForumPostWhereUniqueInput = Prisma.AtLeast<{
   topicId?: Prisma.IntFilter<"ForumPost"> | number
   authorId?: Prisma.IntFilter<"ForumPost"> | number
   parentId?: Prisma.IntNullableFilter<"ForumPost"> | number | null
+  revisionCount?: Prisma.IntFilter<"ForumPost"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumPost"> | Date | string | null
   author?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   topic?: Prisma.XOR<Prisma.ForumTopicScalarRelationFilter, Prisma.ForumTopicWhereInput>
   parent?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
   replies?: Prisma.ForumPostListRelationFilter
   lastUnreadForStates?: Prisma.ForumTopicReadStateListRelationFilter
+  acceptedForTopic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  reactions?: Prisma.ForumPostReactionListRelationFilter
+  revisions?: Prisma.ForumRevisionListRelationFilter
 }, "id">
 
 export type ForumPostOrderByWithAggregationInput = {
@@ -302,6 +335,8 @@ export type ForumPostOrderByWithAggregationInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.ForumPostCountOrderByAggregateInput
   _avg?: Prisma.ForumPostAvgOrderByAggregateInput
   _max?: Prisma.ForumPostMaxOrderByAggregateInput
@@ -321,6 +356,8 @@ export type ForumPostScalarWhereWithAggregatesInput = {
   topicId?: Prisma.IntWithAggregatesFilter<"ForumPost"> | number
   authorId?: Prisma.IntWithAggregatesFilter<"ForumPost"> | number
   parentId?: Prisma.IntNullableWithAggregatesFilter<"ForumPost"> | number | null
+  revisionCount?: Prisma.IntWithAggregatesFilter<"ForumPost"> | number
+  editedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ForumPost"> | Date | string | null
 }
 
 export type ForumPostCreateInput = {
@@ -328,11 +365,16 @@ export type ForumPostCreateInput = {
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   author: Prisma.UserCreateNestedOneWithoutForumPostsInput
   topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
   parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
   replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateInput = {
@@ -344,8 +386,13 @@ export type ForumPostUncheckedCreateInput = {
   topicId: number
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUpdateInput = {
@@ -353,11 +400,16 @@ export type ForumPostUpdateInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
   topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
   parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
   replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateInput = {
@@ -369,8 +421,13 @@ export type ForumPostUncheckedUpdateInput = {
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostCreateManyInput = {
@@ -382,6 +439,8 @@ export type ForumPostCreateManyInput = {
   topicId: number
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
 }
 
 export type ForumPostUpdateManyMutationInput = {
@@ -389,6 +448,8 @@ export type ForumPostUpdateManyMutationInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ForumPostUncheckedUpdateManyInput = {
@@ -400,6 +461,8 @@ export type ForumPostUncheckedUpdateManyInput = {
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ForumPostListRelationFilter = {
@@ -426,6 +489,8 @@ export type ForumPostCountOrderByAggregateInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
 }
 
 export type ForumPostAvgOrderByAggregateInput = {
@@ -433,6 +498,7 @@ export type ForumPostAvgOrderByAggregateInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
 }
 
 export type ForumPostMaxOrderByAggregateInput = {
@@ -444,6 +510,8 @@ export type ForumPostMaxOrderByAggregateInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
 }
 
 export type ForumPostMinOrderByAggregateInput = {
@@ -455,6 +523,8 @@ export type ForumPostMinOrderByAggregateInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
 }
 
 export type ForumPostSumOrderByAggregateInput = {
@@ -462,6 +532,12 @@ export type ForumPostSumOrderByAggregateInput = {
   topicId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+}
+
+export type ForumPostScalarRelationFilter = {
+  is?: Prisma.ForumPostWhereInput
+  isNot?: Prisma.ForumPostWhereInput
 }
 
 export type ForumPostCreateNestedManyWithoutAuthorInput = {
@@ -513,6 +589,12 @@ export type ForumPostCreateNestedManyWithoutTopicInput = {
   connect?: Prisma.ForumPostWhereUniqueInput | Prisma.ForumPostWhereUniqueInput[]
 }
 
+export type ForumPostCreateNestedOneWithoutAcceptedForTopicInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedCreateWithoutAcceptedForTopicInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutAcceptedForTopicInput
+  connect?: Prisma.ForumPostWhereUniqueInput
+}
+
 export type ForumPostUncheckedCreateNestedManyWithoutTopicInput = {
   create?: Prisma.XOR<Prisma.ForumPostCreateWithoutTopicInput, Prisma.ForumPostUncheckedCreateWithoutTopicInput> | Prisma.ForumPostCreateWithoutTopicInput[] | Prisma.ForumPostUncheckedCreateWithoutTopicInput[]
   connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutTopicInput | Prisma.ForumPostCreateOrConnectWithoutTopicInput[]
@@ -534,6 +616,16 @@ export type ForumPostUpdateManyWithoutTopicNestedInput = {
   deleteMany?: Prisma.ForumPostScalarWhereInput | Prisma.ForumPostScalarWhereInput[]
 }
 
+export type ForumPostUpdateOneWithoutAcceptedForTopicNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedCreateWithoutAcceptedForTopicInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutAcceptedForTopicInput
+  upsert?: Prisma.ForumPostUpsertWithoutAcceptedForTopicInput
+  disconnect?: Prisma.ForumPostWhereInput | boolean
+  delete?: Prisma.ForumPostWhereInput | boolean
+  connect?: Prisma.ForumPostWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumPostUpdateToOneWithWhereWithoutAcceptedForTopicInput, Prisma.ForumPostUpdateWithoutAcceptedForTopicInput>, Prisma.ForumPostUncheckedUpdateWithoutAcceptedForTopicInput>
+}
+
 export type ForumPostUncheckedUpdateManyWithoutTopicNestedInput = {
   create?: Prisma.XOR<Prisma.ForumPostCreateWithoutTopicInput, Prisma.ForumPostUncheckedCreateWithoutTopicInput> | Prisma.ForumPostCreateWithoutTopicInput[] | Prisma.ForumPostUncheckedCreateWithoutTopicInput[]
   connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutTopicInput | Prisma.ForumPostCreateOrConnectWithoutTopicInput[]
@@ -606,6 +698,36 @@ export type ForumPostUncheckedUpdateManyWithoutParentNestedInput = {
   deleteMany?: Prisma.ForumPostScalarWhereInput | Prisma.ForumPostScalarWhereInput[]
 }
 
+export type ForumPostCreateNestedOneWithoutReactionsInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutReactionsInput, Prisma.ForumPostUncheckedCreateWithoutReactionsInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutReactionsInput
+  connect?: Prisma.ForumPostWhereUniqueInput
+}
+
+export type ForumPostUpdateOneRequiredWithoutReactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutReactionsInput, Prisma.ForumPostUncheckedCreateWithoutReactionsInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutReactionsInput
+  upsert?: Prisma.ForumPostUpsertWithoutReactionsInput
+  connect?: Prisma.ForumPostWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumPostUpdateToOneWithWhereWithoutReactionsInput, Prisma.ForumPostUpdateWithoutReactionsInput>, Prisma.ForumPostUncheckedUpdateWithoutReactionsInput>
+}
+
+export type ForumPostCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutRevisionsInput, Prisma.ForumPostUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.ForumPostWhereUniqueInput
+}
+
+export type ForumPostUpdateOneWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostCreateWithoutRevisionsInput, Prisma.ForumPostUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.ForumPostUpsertWithoutRevisionsInput
+  disconnect?: Prisma.ForumPostWhereInput | boolean
+  delete?: Prisma.ForumPostWhereInput | boolean
+  connect?: Prisma.ForumPostWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumPostUpdateToOneWithWhereWithoutRevisionsInput, Prisma.ForumPostUpdateWithoutRevisionsInput>, Prisma.ForumPostUncheckedUpdateWithoutRevisionsInput>
+}
+
 export type ForumPostCreateNestedOneWithoutLastUnreadForStatesInput = {
   create?: Prisma.XOR<Prisma.ForumPostCreateWithoutLastUnreadForStatesInput, Prisma.ForumPostUncheckedCreateWithoutLastUnreadForStatesInput>
   connectOrCreate?: Prisma.ForumPostCreateOrConnectWithoutLastUnreadForStatesInput
@@ -627,10 +749,15 @@ export type ForumPostCreateWithoutAuthorInput = {
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
   parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
   replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateWithoutAuthorInput = {
@@ -641,8 +768,13 @@ export type ForumPostUncheckedCreateWithoutAuthorInput = {
   updatedAt?: Date | string
   topicId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostCreateOrConnectWithoutAuthorInput = {
@@ -683,6 +815,8 @@ export type ForumPostScalarWhereInput = {
   topicId?: Prisma.IntFilter<"ForumPost"> | number
   authorId?: Prisma.IntFilter<"ForumPost"> | number
   parentId?: Prisma.IntNullableFilter<"ForumPost"> | number | null
+  revisionCount?: Prisma.IntFilter<"ForumPost"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumPost"> | Date | string | null
 }
 
 export type ForumPostCreateWithoutTopicInput = {
@@ -690,10 +824,15 @@ export type ForumPostCreateWithoutTopicInput = {
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   author: Prisma.UserCreateNestedOneWithoutForumPostsInput
   parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
   replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateWithoutTopicInput = {
@@ -704,8 +843,13 @@ export type ForumPostUncheckedCreateWithoutTopicInput = {
   updatedAt?: Date | string
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostCreateOrConnectWithoutTopicInput = {
@@ -718,6 +862,44 @@ export type ForumPostCreateManyTopicInputEnvelope = {
   skipDuplicates?: boolean
 }
 
+export type ForumPostCreateWithoutAcceptedForTopicInput = {
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
+  author: Prisma.UserCreateNestedOneWithoutForumPostsInput
+  topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
+  parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostUncheckedCreateWithoutAcceptedForTopicInput = {
+  id?: number
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  topicId: number
+  authorId: number
+  parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostCreateOrConnectWithoutAcceptedForTopicInput = {
+  where: Prisma.ForumPostWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedCreateWithoutAcceptedForTopicInput>
+}
+
 export type ForumPostUpsertWithWhereUniqueWithoutTopicInput = {
   where: Prisma.ForumPostWhereUniqueInput
   update: Prisma.XOR<Prisma.ForumPostUpdateWithoutTopicInput, Prisma.ForumPostUncheckedUpdateWithoutTopicInput>
@@ -734,15 +916,64 @@ export type ForumPostUpdateManyWithWhereWithoutTopicInput = {
   data: Prisma.XOR<Prisma.ForumPostUpdateManyMutationInput, Prisma.ForumPostUncheckedUpdateManyWithoutTopicInput>
 }
 
+export type ForumPostUpsertWithoutAcceptedForTopicInput = {
+  update: Prisma.XOR<Prisma.ForumPostUpdateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedUpdateWithoutAcceptedForTopicInput>
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedCreateWithoutAcceptedForTopicInput>
+  where?: Prisma.ForumPostWhereInput
+}
+
+export type ForumPostUpdateToOneWithWhereWithoutAcceptedForTopicInput = {
+  where?: Prisma.ForumPostWhereInput
+  data: Prisma.XOR<Prisma.ForumPostUpdateWithoutAcceptedForTopicInput, Prisma.ForumPostUncheckedUpdateWithoutAcceptedForTopicInput>
+}
+
+export type ForumPostUpdateWithoutAcceptedForTopicInput = {
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
+  topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
+  parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
+}
+
+export type ForumPostUncheckedUpdateWithoutAcceptedForTopicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topicId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
+}
+
 export type ForumPostCreateWithoutRepliesInput = {
   content: string
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   author: Prisma.UserCreateNestedOneWithoutForumPostsInput
   topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
   parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateWithoutRepliesInput = {
@@ -754,7 +985,12 @@ export type ForumPostUncheckedCreateWithoutRepliesInput = {
   topicId: number
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostCreateOrConnectWithoutRepliesInput = {
@@ -767,10 +1003,15 @@ export type ForumPostCreateWithoutParentInput = {
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   author: Prisma.UserCreateNestedOneWithoutForumPostsInput
   topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
   replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateWithoutParentInput = {
@@ -781,8 +1022,13 @@ export type ForumPostUncheckedCreateWithoutParentInput = {
   updatedAt?: Date | string
   topicId: number
   authorId: number
+  revisionCount?: number
+  editedAt?: Date | string | null
   replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostCreateOrConnectWithoutParentInput = {
@@ -811,10 +1057,15 @@ export type ForumPostUpdateWithoutRepliesInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
   topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
   parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateWithoutRepliesInput = {
@@ -826,7 +1077,12 @@ export type ForumPostUncheckedUpdateWithoutRepliesInput = {
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUpsertWithWhereUniqueWithoutParentInput = {
@@ -845,15 +1101,184 @@ export type ForumPostUpdateManyWithWhereWithoutParentInput = {
   data: Prisma.XOR<Prisma.ForumPostUpdateManyMutationInput, Prisma.ForumPostUncheckedUpdateManyWithoutParentInput>
 }
 
+export type ForumPostCreateWithoutReactionsInput = {
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
+  author: Prisma.UserCreateNestedOneWithoutForumPostsInput
+  topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
+  parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostUncheckedCreateWithoutReactionsInput = {
+  id?: number
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  topicId: number
+  authorId: number
+  parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostCreateOrConnectWithoutReactionsInput = {
+  where: Prisma.ForumPostWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutReactionsInput, Prisma.ForumPostUncheckedCreateWithoutReactionsInput>
+}
+
+export type ForumPostUpsertWithoutReactionsInput = {
+  update: Prisma.XOR<Prisma.ForumPostUpdateWithoutReactionsInput, Prisma.ForumPostUncheckedUpdateWithoutReactionsInput>
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutReactionsInput, Prisma.ForumPostUncheckedCreateWithoutReactionsInput>
+  where?: Prisma.ForumPostWhereInput
+}
+
+export type ForumPostUpdateToOneWithWhereWithoutReactionsInput = {
+  where?: Prisma.ForumPostWhereInput
+  data: Prisma.XOR<Prisma.ForumPostUpdateWithoutReactionsInput, Prisma.ForumPostUncheckedUpdateWithoutReactionsInput>
+}
+
+export type ForumPostUpdateWithoutReactionsInput = {
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
+  topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
+  parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
+}
+
+export type ForumPostUncheckedUpdateWithoutReactionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topicId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
+}
+
+export type ForumPostCreateWithoutRevisionsInput = {
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
+  author: Prisma.UserCreateNestedOneWithoutForumPostsInput
+  topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
+  parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostUncheckedCreateWithoutRevisionsInput = {
+  id?: number
+  content: string
+  status?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  topicId: number
+  authorId: number
+  parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutLastUnreadPostInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+}
+
+export type ForumPostCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.ForumPostWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutRevisionsInput, Prisma.ForumPostUncheckedCreateWithoutRevisionsInput>
+}
+
+export type ForumPostUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.ForumPostUpdateWithoutRevisionsInput, Prisma.ForumPostUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.ForumPostCreateWithoutRevisionsInput, Prisma.ForumPostUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.ForumPostWhereInput
+}
+
+export type ForumPostUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.ForumPostWhereInput
+  data: Prisma.XOR<Prisma.ForumPostUpdateWithoutRevisionsInput, Prisma.ForumPostUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type ForumPostUpdateWithoutRevisionsInput = {
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
+  topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
+  parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+}
+
+export type ForumPostUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topicId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
+  lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+}
+
 export type ForumPostCreateWithoutLastUnreadForStatesInput = {
   content: string
   status?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  revisionCount?: number
+  editedAt?: Date | string | null
   author: Prisma.UserCreateNestedOneWithoutForumPostsInput
   topic: Prisma.ForumTopicCreateNestedOneWithoutPostsInput
   parent?: Prisma.ForumPostCreateNestedOneWithoutRepliesInput
   replies?: Prisma.ForumPostCreateNestedManyWithoutParentInput
+  acceptedForTopic?: Prisma.ForumTopicCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostUncheckedCreateWithoutLastUnreadForStatesInput = {
@@ -865,7 +1290,12 @@ export type ForumPostUncheckedCreateWithoutLastUnreadForStatesInput = {
   topicId: number
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   replies?: Prisma.ForumPostUncheckedCreateNestedManyWithoutParentInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput
+  reactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutPostInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutPostInput
 }
 
 export type ForumPostCreateOrConnectWithoutLastUnreadForStatesInput = {
@@ -889,10 +1319,15 @@ export type ForumPostUpdateWithoutLastUnreadForStatesInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
   topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
   parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
   replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateWithoutLastUnreadForStatesInput = {
@@ -904,7 +1339,12 @@ export type ForumPostUncheckedUpdateWithoutLastUnreadForStatesInput = {
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostCreateManyAuthorInput = {
@@ -915,6 +1355,8 @@ export type ForumPostCreateManyAuthorInput = {
   updatedAt?: Date | string
   topicId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
 }
 
 export type ForumPostUpdateWithoutAuthorInput = {
@@ -922,10 +1364,15 @@ export type ForumPostUpdateWithoutAuthorInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
   parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
   replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateWithoutAuthorInput = {
@@ -936,8 +1383,13 @@ export type ForumPostUncheckedUpdateWithoutAuthorInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateManyWithoutAuthorInput = {
@@ -948,6 +1400,8 @@ export type ForumPostUncheckedUpdateManyWithoutAuthorInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ForumPostCreateManyTopicInput = {
@@ -958,6 +1412,8 @@ export type ForumPostCreateManyTopicInput = {
   updatedAt?: Date | string
   authorId: number
   parentId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
 }
 
 export type ForumPostUpdateWithoutTopicInput = {
@@ -965,10 +1421,15 @@ export type ForumPostUpdateWithoutTopicInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
   parent?: Prisma.ForumPostUpdateOneWithoutRepliesNestedInput
   replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateWithoutTopicInput = {
@@ -979,8 +1440,13 @@ export type ForumPostUncheckedUpdateWithoutTopicInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateManyWithoutTopicInput = {
@@ -991,6 +1457,8 @@ export type ForumPostUncheckedUpdateManyWithoutTopicInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
   parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type ForumPostCreateManyParentInput = {
@@ -1001,6 +1469,8 @@ export type ForumPostCreateManyParentInput = {
   updatedAt?: Date | string
   topicId: number
   authorId: number
+  revisionCount?: number
+  editedAt?: Date | string | null
 }
 
 export type ForumPostUpdateWithoutParentInput = {
@@ -1008,10 +1478,15 @@ export type ForumPostUpdateWithoutParentInput = {
   status?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   author?: Prisma.UserUpdateOneRequiredWithoutForumPostsNestedInput
   topic?: Prisma.ForumTopicUpdateOneRequiredWithoutPostsNestedInput
   replies?: Prisma.ForumPostUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateWithoutParentInput = {
@@ -1022,8 +1497,13 @@ export type ForumPostUncheckedUpdateWithoutParentInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   replies?: Prisma.ForumPostUncheckedUpdateManyWithoutParentNestedInput
   lastUnreadForStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutLastUnreadPostNestedInput
+  acceptedForTopic?: Prisma.ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput
+  reactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutPostNestedInput
 }
 
 export type ForumPostUncheckedUpdateManyWithoutParentInput = {
@@ -1034,6 +1514,8 @@ export type ForumPostUncheckedUpdateManyWithoutParentInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   topicId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 
@@ -1044,11 +1526,15 @@ export type ForumPostUncheckedUpdateManyWithoutParentInput = {
 export type ForumPostCountOutputType = {
   replies: number
   lastUnreadForStates: number
+  reactions: number
+  revisions: number
 }
 
 export type ForumPostCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   replies?: boolean | ForumPostCountOutputTypeCountRepliesArgs
   lastUnreadForStates?: boolean | ForumPostCountOutputTypeCountLastUnreadForStatesArgs
+  reactions?: boolean | ForumPostCountOutputTypeCountReactionsArgs
+  revisions?: boolean | ForumPostCountOutputTypeCountRevisionsArgs
 }
 
 /**
@@ -1075,6 +1561,20 @@ export type ForumPostCountOutputTypeCountLastUnreadForStatesArgs<ExtArgs extends
   where?: Prisma.ForumTopicReadStateWhereInput
 }
 
+/**
+ * ForumPostCountOutputType without action
+ */
+export type ForumPostCountOutputTypeCountReactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumPostReactionWhereInput
+}
+
+/**
+ * ForumPostCountOutputType without action
+ */
+export type ForumPostCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumRevisionWhereInput
+}
+
 
 export type ForumPostSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1085,11 +1585,16 @@ export type ForumPostSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   topicId?: boolean
   authorId?: boolean
   parentId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   topic?: boolean | Prisma.ForumTopicDefaultArgs<ExtArgs>
   parent?: boolean | Prisma.ForumPost$parentArgs<ExtArgs>
   replies?: boolean | Prisma.ForumPost$repliesArgs<ExtArgs>
   lastUnreadForStates?: boolean | Prisma.ForumPost$lastUnreadForStatesArgs<ExtArgs>
+  acceptedForTopic?: boolean | Prisma.ForumPost$acceptedForTopicArgs<ExtArgs>
+  reactions?: boolean | Prisma.ForumPost$reactionsArgs<ExtArgs>
+  revisions?: boolean | Prisma.ForumPost$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumPostCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["forumPost"]>
 
@@ -1102,6 +1607,8 @@ export type ForumPostSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   topicId?: boolean
   authorId?: boolean
   parentId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   topic?: boolean | Prisma.ForumTopicDefaultArgs<ExtArgs>
   parent?: boolean | Prisma.ForumPost$parentArgs<ExtArgs>
@@ -1116,6 +1623,8 @@ export type ForumPostSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   topicId?: boolean
   authorId?: boolean
   parentId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   topic?: boolean | Prisma.ForumTopicDefaultArgs<ExtArgs>
   parent?: boolean | Prisma.ForumPost$parentArgs<ExtArgs>
@@ -1130,15 +1639,20 @@ export type ForumPostSelectScalar = {
   topicId?: boolean
   authorId?: boolean
   parentId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
 }
 
-export type ForumPostOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "content" | "status" | "createdAt" | "updatedAt" | "topicId" | "authorId" | "parentId", ExtArgs["result"]["forumPost"]>
+export type ForumPostOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "content" | "status" | "createdAt" | "updatedAt" | "topicId" | "authorId" | "parentId" | "revisionCount" | "editedAt", ExtArgs["result"]["forumPost"]>
 export type ForumPostInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   topic?: boolean | Prisma.ForumTopicDefaultArgs<ExtArgs>
   parent?: boolean | Prisma.ForumPost$parentArgs<ExtArgs>
   replies?: boolean | Prisma.ForumPost$repliesArgs<ExtArgs>
   lastUnreadForStates?: boolean | Prisma.ForumPost$lastUnreadForStatesArgs<ExtArgs>
+  acceptedForTopic?: boolean | Prisma.ForumPost$acceptedForTopicArgs<ExtArgs>
+  reactions?: boolean | Prisma.ForumPost$reactionsArgs<ExtArgs>
+  revisions?: boolean | Prisma.ForumPost$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumPostCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ForumPostIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1160,6 +1674,9 @@ export type $ForumPostPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     parent: Prisma.$ForumPostPayload<ExtArgs> | null
     replies: Prisma.$ForumPostPayload<ExtArgs>[]
     lastUnreadForStates: Prisma.$ForumTopicReadStatePayload<ExtArgs>[]
+    acceptedForTopic: Prisma.$ForumTopicPayload<ExtArgs> | null
+    reactions: Prisma.$ForumPostReactionPayload<ExtArgs>[]
+    revisions: Prisma.$ForumRevisionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1170,6 +1687,8 @@ export type $ForumPostPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     topicId: number
     authorId: number
     parentId: number | null
+    revisionCount: number
+    editedAt: Date | null
   }, ExtArgs["result"]["forumPost"]>
   composites: {}
 }
@@ -1569,6 +2088,9 @@ export interface Prisma__ForumPostClient<T, Null = never, ExtArgs extends runtim
   parent<T extends Prisma.ForumPost$parentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$parentArgs<ExtArgs>>): Prisma.Prisma__ForumPostClient<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   replies<T extends Prisma.ForumPost$repliesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$repliesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   lastUnreadForStates<T extends Prisma.ForumPost$lastUnreadForStatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$lastUnreadForStatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumTopicReadStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  acceptedForTopic<T extends Prisma.ForumPost$acceptedForTopicArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$acceptedForTopicArgs<ExtArgs>>): Prisma.Prisma__ForumTopicClient<runtime.Types.Result.GetResult<Prisma.$ForumTopicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  reactions<T extends Prisma.ForumPost$reactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$reactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  revisions<T extends Prisma.ForumPost$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPost$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1606,6 +2128,8 @@ export interface ForumPostFieldRefs {
   readonly topicId: Prisma.FieldRef<"ForumPost", 'Int'>
   readonly authorId: Prisma.FieldRef<"ForumPost", 'Int'>
   readonly parentId: Prisma.FieldRef<"ForumPost", 'Int'>
+  readonly revisionCount: Prisma.FieldRef<"ForumPost", 'Int'>
+  readonly editedAt: Prisma.FieldRef<"ForumPost", 'DateTime'>
 }
     
 
@@ -2068,6 +2592,73 @@ export type ForumPost$lastUnreadForStatesArgs<ExtArgs extends runtime.Types.Exte
   distinct?: Prisma.ForumTopicReadStateScalarFieldEnum | Prisma.ForumTopicReadStateScalarFieldEnum[]
 }
 
+/**
+ * ForumPost.acceptedForTopic
+ */
+export type ForumPost$acceptedForTopicArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumTopic
+   */
+  select?: Prisma.ForumTopicSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumTopic
+   */
+  omit?: Prisma.ForumTopicOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumTopicInclude<ExtArgs> | null
+  where?: Prisma.ForumTopicWhereInput
+}
+
+/**
+ * ForumPost.reactions
+ */
+export type ForumPost$reactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  where?: Prisma.ForumPostReactionWhereInput
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumPostReactionScalarFieldEnum | Prisma.ForumPostReactionScalarFieldEnum[]
+}
+
+/**
+ * ForumPost.revisions
+ */
+export type ForumPost$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  where?: Prisma.ForumRevisionWhereInput
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
 /**
  * ForumPost without action
  */
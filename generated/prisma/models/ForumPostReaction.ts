@@ -0,0 +1,1555 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ForumPostReaction` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ForumPostReaction
+ * 
+ */
+export type ForumPostReactionModel = runtime.Types.Result.DefaultSelection<Prisma.$ForumPostReactionPayload>
+
+export type AggregateForumPostReaction = {
+  _count: ForumPostReactionCountAggregateOutputType | null
+  _avg: ForumPostReactionAvgAggregateOutputType | null
+  _sum: ForumPostReactionSumAggregateOutputType | null
+  _min: ForumPostReactionMinAggregateOutputType | null
+  _max: ForumPostReactionMaxAggregateOutputType | null
+}
+
+export type ForumPostReactionAvgAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+}
+
+export type ForumPostReactionSumAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+}
+
+export type ForumPostReactionMinAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+  type: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ForumPostReactionMaxAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+  type: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ForumPostReactionCountAggregateOutputType = {
+  id: number
+  postId: number
+  userId: number
+  type: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ForumPostReactionAvgAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+}
+
+export type ForumPostReactionSumAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+}
+
+export type ForumPostReactionMinAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+  type?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ForumPostReactionMaxAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+  type?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ForumPostReactionCountAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+  type?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ForumPostReactionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumPostReaction to aggregate.
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumPostReactions to fetch.
+   */
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumPostReactions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumPostReactions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ForumPostReactions
+  **/
+  _count?: true | ForumPostReactionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ForumPostReactionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ForumPostReactionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ForumPostReactionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ForumPostReactionMaxAggregateInputType
+}
+
+export type GetForumPostReactionAggregateType<T extends ForumPostReactionAggregateArgs> = {
+      [P in keyof T & keyof AggregateForumPostReaction]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateForumPostReaction[P]>
+    : Prisma.GetScalarType<T[P], AggregateForumPostReaction[P]>
+}
+
+
+
+
+export type ForumPostReactionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumPostReactionWhereInput
+  orderBy?: Prisma.ForumPostReactionOrderByWithAggregationInput | Prisma.ForumPostReactionOrderByWithAggregationInput[]
+  by: Prisma.ForumPostReactionScalarFieldEnum[] | Prisma.ForumPostReactionScalarFieldEnum
+  having?: Prisma.ForumPostReactionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ForumPostReactionCountAggregateInputType | true
+  _avg?: ForumPostReactionAvgAggregateInputType
+  _sum?: ForumPostReactionSumAggregateInputType
+  _min?: ForumPostReactionMinAggregateInputType
+  _max?: ForumPostReactionMaxAggregateInputType
+}
+
+export type ForumPostReactionGroupByOutputType = {
+  id: number
+  postId: number
+  userId: number
+  type: string
+  createdAt: Date
+  updatedAt: Date
+  _count: ForumPostReactionCountAggregateOutputType | null
+  _avg: ForumPostReactionAvgAggregateOutputType | null
+  _sum: ForumPostReactionSumAggregateOutputType | null
+  _min: ForumPostReactionMinAggregateOutputType | null
+  _max: ForumPostReactionMaxAggregateOutputType | null
+}
+
+type GetForumPostReactionGroupByPayload<T extends ForumPostReactionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ForumPostReactionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ForumPostReactionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ForumPostReactionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ForumPostReactionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ForumPostReactionWhereInput = {
+  AND?: Prisma.ForumPostReactionWhereInput | Prisma.ForumPostReactionWhereInput[]
+  OR?: Prisma.ForumPostReactionWhereInput[]
+  NOT?: Prisma.ForumPostReactionWhereInput | Prisma.ForumPostReactionWhereInput[]
+  id?: Prisma.IntFilter<"ForumPostReaction"> | number
+  postId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  userId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  type?: Prisma.StringFilter<"ForumPostReaction"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+  post?: Prisma.XOR<Prisma.ForumPostScalarRelationFilter, Prisma.ForumPostWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ForumPostReactionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  post?: Prisma.ForumPostOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ForumPostReactionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  postId_userId?: Prisma.ForumPostReactionPostIdUserIdCompoundUniqueInput
+  AND?: Prisma.ForumPostReactionWhereInput | Prisma.ForumPostReactionWhereInput[]
+  OR?: Prisma.ForumPostReactionWhereInput[]
+  NOT?: Prisma.ForumPostReactionWhereInput | Prisma.ForumPostReactionWhereInput[]
+  postId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  userId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  type?: Prisma.StringFilter<"ForumPostReaction"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+  post?: Prisma.XOR<Prisma.ForumPostScalarRelationFilter, Prisma.ForumPostWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "postId_userId">
+
+export type ForumPostReactionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ForumPostReactionCountOrderByAggregateInput
+  _avg?: Prisma.ForumPostReactionAvgOrderByAggregateInput
+  _max?: Prisma.ForumPostReactionMaxOrderByAggregateInput
+  _min?: Prisma.ForumPostReactionMinOrderByAggregateInput
+  _sum?: Prisma.ForumPostReactionSumOrderByAggregateInput
+}
+
+export type ForumPostReactionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ForumPostReactionScalarWhereWithAggregatesInput | Prisma.ForumPostReactionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ForumPostReactionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ForumPostReactionScalarWhereWithAggregatesInput | Prisma.ForumPostReactionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ForumPostReaction"> | number
+  postId?: Prisma.IntWithAggregatesFilter<"ForumPostReaction"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"ForumPostReaction"> | number
+  type?: Prisma.StringWithAggregatesFilter<"ForumPostReaction"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumPostReaction"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ForumPostReaction"> | Date | string
+}
+
+export type ForumPostReactionCreateInput = {
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  post: Prisma.ForumPostCreateNestedOneWithoutReactionsInput
+  user: Prisma.UserCreateNestedOneWithoutForumPostReactionsInput
+}
+
+export type ForumPostReactionUncheckedCreateInput = {
+  id?: number
+  postId: number
+  userId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionUpdateInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  post?: Prisma.ForumPostUpdateOneRequiredWithoutReactionsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutForumPostReactionsNestedInput
+}
+
+export type ForumPostReactionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionCreateManyInput = {
+  id?: number
+  postId: number
+  userId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionUpdateManyMutationInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionListRelationFilter = {
+  every?: Prisma.ForumPostReactionWhereInput
+  some?: Prisma.ForumPostReactionWhereInput
+  none?: Prisma.ForumPostReactionWhereInput
+}
+
+export type ForumPostReactionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ForumPostReactionPostIdUserIdCompoundUniqueInput = {
+  postId: number
+  userId: number
+}
+
+export type ForumPostReactionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumPostReactionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ForumPostReactionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumPostReactionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ForumPostReactionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ForumPostReactionCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput> | Prisma.ForumPostReactionCreateWithoutUserInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutUserInput | Prisma.ForumPostReactionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyUserInputEnvelope
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+}
+
+export type ForumPostReactionUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput> | Prisma.ForumPostReactionCreateWithoutUserInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutUserInput | Prisma.ForumPostReactionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyUserInputEnvelope
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+}
+
+export type ForumPostReactionUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput> | Prisma.ForumPostReactionCreateWithoutUserInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutUserInput | Prisma.ForumPostReactionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyUserInputEnvelope
+  set?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  disconnect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  delete?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  update?: Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumPostReactionUpdateManyWithWhereWithoutUserInput | Prisma.ForumPostReactionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+}
+
+export type ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput> | Prisma.ForumPostReactionCreateWithoutUserInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutUserInput | Prisma.ForumPostReactionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyUserInputEnvelope
+  set?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  disconnect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  delete?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  update?: Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumPostReactionUpdateManyWithWhereWithoutUserInput | Prisma.ForumPostReactionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+}
+
+export type ForumPostReactionCreateNestedManyWithoutPostInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput> | Prisma.ForumPostReactionCreateWithoutPostInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutPostInput | Prisma.ForumPostReactionCreateOrConnectWithoutPostInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyPostInputEnvelope
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+}
+
+export type ForumPostReactionUncheckedCreateNestedManyWithoutPostInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput> | Prisma.ForumPostReactionCreateWithoutPostInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutPostInput | Prisma.ForumPostReactionCreateOrConnectWithoutPostInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyPostInputEnvelope
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+}
+
+export type ForumPostReactionUpdateManyWithoutPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput> | Prisma.ForumPostReactionCreateWithoutPostInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutPostInput | Prisma.ForumPostReactionCreateOrConnectWithoutPostInput[]
+  upsert?: Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutPostInput | Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutPostInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyPostInputEnvelope
+  set?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  disconnect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  delete?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  update?: Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutPostInput | Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutPostInput[]
+  updateMany?: Prisma.ForumPostReactionUpdateManyWithWhereWithoutPostInput | Prisma.ForumPostReactionUpdateManyWithWhereWithoutPostInput[]
+  deleteMany?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+}
+
+export type ForumPostReactionUncheckedUpdateManyWithoutPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput> | Prisma.ForumPostReactionCreateWithoutPostInput[] | Prisma.ForumPostReactionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumPostReactionCreateOrConnectWithoutPostInput | Prisma.ForumPostReactionCreateOrConnectWithoutPostInput[]
+  upsert?: Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutPostInput | Prisma.ForumPostReactionUpsertWithWhereUniqueWithoutPostInput[]
+  createMany?: Prisma.ForumPostReactionCreateManyPostInputEnvelope
+  set?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  disconnect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  delete?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  connect?: Prisma.ForumPostReactionWhereUniqueInput | Prisma.ForumPostReactionWhereUniqueInput[]
+  update?: Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutPostInput | Prisma.ForumPostReactionUpdateWithWhereUniqueWithoutPostInput[]
+  updateMany?: Prisma.ForumPostReactionUpdateManyWithWhereWithoutPostInput | Prisma.ForumPostReactionUpdateManyWithWhereWithoutPostInput[]
+  deleteMany?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+}
+
+export type ForumPostReactionCreateWithoutUserInput = {
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  post: Prisma.ForumPostCreateNestedOneWithoutReactionsInput
+}
+
+export type ForumPostReactionUncheckedCreateWithoutUserInput = {
+  id?: number
+  postId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionCreateOrConnectWithoutUserInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput>
+}
+
+export type ForumPostReactionCreateManyUserInputEnvelope = {
+  data: Prisma.ForumPostReactionCreateManyUserInput | Prisma.ForumPostReactionCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumPostReactionUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumPostReactionUpdateWithoutUserInput, Prisma.ForumPostReactionUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutUserInput, Prisma.ForumPostReactionUncheckedCreateWithoutUserInput>
+}
+
+export type ForumPostReactionUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateWithoutUserInput, Prisma.ForumPostReactionUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumPostReactionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ForumPostReactionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateManyMutationInput, Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ForumPostReactionScalarWhereInput = {
+  AND?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+  OR?: Prisma.ForumPostReactionScalarWhereInput[]
+  NOT?: Prisma.ForumPostReactionScalarWhereInput | Prisma.ForumPostReactionScalarWhereInput[]
+  id?: Prisma.IntFilter<"ForumPostReaction"> | number
+  postId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  userId?: Prisma.IntFilter<"ForumPostReaction"> | number
+  type?: Prisma.StringFilter<"ForumPostReaction"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ForumPostReaction"> | Date | string
+}
+
+export type ForumPostReactionCreateWithoutPostInput = {
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumPostReactionsInput
+}
+
+export type ForumPostReactionUncheckedCreateWithoutPostInput = {
+  id?: number
+  userId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionCreateOrConnectWithoutPostInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput>
+}
+
+export type ForumPostReactionCreateManyPostInputEnvelope = {
+  data: Prisma.ForumPostReactionCreateManyPostInput | Prisma.ForumPostReactionCreateManyPostInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumPostReactionUpsertWithWhereUniqueWithoutPostInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumPostReactionUpdateWithoutPostInput, Prisma.ForumPostReactionUncheckedUpdateWithoutPostInput>
+  create: Prisma.XOR<Prisma.ForumPostReactionCreateWithoutPostInput, Prisma.ForumPostReactionUncheckedCreateWithoutPostInput>
+}
+
+export type ForumPostReactionUpdateWithWhereUniqueWithoutPostInput = {
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateWithoutPostInput, Prisma.ForumPostReactionUncheckedUpdateWithoutPostInput>
+}
+
+export type ForumPostReactionUpdateManyWithWhereWithoutPostInput = {
+  where: Prisma.ForumPostReactionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateManyMutationInput, Prisma.ForumPostReactionUncheckedUpdateManyWithoutPostInput>
+}
+
+export type ForumPostReactionCreateManyUserInput = {
+  id?: number
+  postId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionUpdateWithoutUserInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  post?: Prisma.ForumPostUpdateOneRequiredWithoutReactionsNestedInput
+}
+
+export type ForumPostReactionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionCreateManyPostInput = {
+  id?: number
+  userId: number
+  type: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ForumPostReactionUpdateWithoutPostInput = {
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumPostReactionsNestedInput
+}
+
+export type ForumPostReactionUncheckedUpdateWithoutPostInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumPostReactionUncheckedUpdateManyWithoutPostInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ForumPostReactionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  postId?: boolean
+  userId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumPostReaction"]>
+
+export type ForumPostReactionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  postId?: boolean
+  userId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumPostReaction"]>
+
+export type ForumPostReactionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  postId?: boolean
+  userId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumPostReaction"]>
+
+export type ForumPostReactionSelectScalar = {
+  id?: boolean
+  postId?: boolean
+  userId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ForumPostReactionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "postId" | "userId" | "type" | "createdAt" | "updatedAt", ExtArgs["result"]["forumPostReaction"]>
+export type ForumPostReactionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumPostReactionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumPostReactionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  post?: boolean | Prisma.ForumPostDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ForumPostReactionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ForumPostReaction"
+  objects: {
+    post: Prisma.$ForumPostPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    postId: number
+    userId: number
+    type: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["forumPostReaction"]>
+  composites: {}
+}
+
+export type ForumPostReactionGetPayload<S extends boolean | null | undefined | ForumPostReactionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload, S>
+
+export type ForumPostReactionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ForumPostReactionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ForumPostReactionCountAggregateInputType | true
+  }
+
+export interface ForumPostReactionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ForumPostReaction'], meta: { name: 'ForumPostReaction' } }
+  /**
+   * Find zero or one ForumPostReaction that matches the filter.
+   * @param {ForumPostReactionFindUniqueArgs} args - Arguments to find a ForumPostReaction
+   * @example
+   * // Get one ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ForumPostReactionFindUniqueArgs>(args: Prisma.SelectSubset<T, ForumPostReactionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ForumPostReaction that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ForumPostReactionFindUniqueOrThrowArgs} args - Arguments to find a ForumPostReaction
+   * @example
+   * // Get one ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ForumPostReactionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ForumPostReactionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumPostReaction that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionFindFirstArgs} args - Arguments to find a ForumPostReaction
+   * @example
+   * // Get one ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ForumPostReactionFindFirstArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumPostReaction that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionFindFirstOrThrowArgs} args - Arguments to find a ForumPostReaction
+   * @example
+   * // Get one ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ForumPostReactionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ForumPostReactions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ForumPostReactions
+   * const forumPostReactions = await prisma.forumPostReaction.findMany()
+   * 
+   * // Get first 10 ForumPostReactions
+   * const forumPostReactions = await prisma.forumPostReaction.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const forumPostReactionWithIdOnly = await prisma.forumPostReaction.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ForumPostReactionFindManyArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ForumPostReaction.
+   * @param {ForumPostReactionCreateArgs} args - Arguments to create a ForumPostReaction.
+   * @example
+   * // Create one ForumPostReaction
+   * const ForumPostReaction = await prisma.forumPostReaction.create({
+   *   data: {
+   *     // ... data to create a ForumPostReaction
+   *   }
+   * })
+   * 
+   */
+  create<T extends ForumPostReactionCreateArgs>(args: Prisma.SelectSubset<T, ForumPostReactionCreateArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ForumPostReactions.
+   * @param {ForumPostReactionCreateManyArgs} args - Arguments to create many ForumPostReactions.
+   * @example
+   * // Create many ForumPostReactions
+   * const forumPostReaction = await prisma.forumPostReaction.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ForumPostReactionCreateManyArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ForumPostReactions and returns the data saved in the database.
+   * @param {ForumPostReactionCreateManyAndReturnArgs} args - Arguments to create many ForumPostReactions.
+   * @example
+   * // Create many ForumPostReactions
+   * const forumPostReaction = await prisma.forumPostReaction.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ForumPostReactions and only return the `id`
+   * const forumPostReactionWithIdOnly = await prisma.forumPostReaction.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ForumPostReactionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ForumPostReaction.
+   * @param {ForumPostReactionDeleteArgs} args - Arguments to delete one ForumPostReaction.
+   * @example
+   * // Delete one ForumPostReaction
+   * const ForumPostReaction = await prisma.forumPostReaction.delete({
+   *   where: {
+   *     // ... filter to delete one ForumPostReaction
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ForumPostReactionDeleteArgs>(args: Prisma.SelectSubset<T, ForumPostReactionDeleteArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ForumPostReaction.
+   * @param {ForumPostReactionUpdateArgs} args - Arguments to update one ForumPostReaction.
+   * @example
+   * // Update one ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ForumPostReactionUpdateArgs>(args: Prisma.SelectSubset<T, ForumPostReactionUpdateArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ForumPostReactions.
+   * @param {ForumPostReactionDeleteManyArgs} args - Arguments to filter ForumPostReactions to delete.
+   * @example
+   * // Delete a few ForumPostReactions
+   * const { count } = await prisma.forumPostReaction.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ForumPostReactionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ForumPostReactionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumPostReactions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ForumPostReactions
+   * const forumPostReaction = await prisma.forumPostReaction.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ForumPostReactionUpdateManyArgs>(args: Prisma.SelectSubset<T, ForumPostReactionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumPostReactions and returns the data updated in the database.
+   * @param {ForumPostReactionUpdateManyAndReturnArgs} args - Arguments to update many ForumPostReactions.
+   * @example
+   * // Update many ForumPostReactions
+   * const forumPostReaction = await prisma.forumPostReaction.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ForumPostReactions and only return the `id`
+   * const forumPostReactionWithIdOnly = await prisma.forumPostReaction.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ForumPostReactionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ForumPostReactionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ForumPostReaction.
+   * @param {ForumPostReactionUpsertArgs} args - Arguments to update or create a ForumPostReaction.
+   * @example
+   * // Update or create a ForumPostReaction
+   * const forumPostReaction = await prisma.forumPostReaction.upsert({
+   *   create: {
+   *     // ... data to create a ForumPostReaction
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ForumPostReaction we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ForumPostReactionUpsertArgs>(args: Prisma.SelectSubset<T, ForumPostReactionUpsertArgs<ExtArgs>>): Prisma.Prisma__ForumPostReactionClient<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ForumPostReactions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionCountArgs} args - Arguments to filter ForumPostReactions to count.
+   * @example
+   * // Count the number of ForumPostReactions
+   * const count = await prisma.forumPostReaction.count({
+   *   where: {
+   *     // ... the filter for the ForumPostReactions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ForumPostReactionCountArgs>(
+    args?: Prisma.Subset<T, ForumPostReactionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ForumPostReactionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ForumPostReaction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ForumPostReactionAggregateArgs>(args: Prisma.Subset<T, ForumPostReactionAggregateArgs>): Prisma.PrismaPromise<GetForumPostReactionAggregateType<T>>
+
+  /**
+   * Group by ForumPostReaction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumPostReactionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ForumPostReactionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ForumPostReactionGroupByArgs['orderBy'] }
+      : { orderBy?: ForumPostReactionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ForumPostReactionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetForumPostReactionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ForumPostReaction model
+ */
+readonly fields: ForumPostReactionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ForumPostReaction.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ForumPostReactionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  post<T extends Prisma.ForumPostDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumPostDefaultArgs<ExtArgs>>): Prisma.Prisma__ForumPostClient<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ForumPostReaction model
+ */
+export interface ForumPostReactionFieldRefs {
+  readonly id: Prisma.FieldRef<"ForumPostReaction", 'Int'>
+  readonly postId: Prisma.FieldRef<"ForumPostReaction", 'Int'>
+  readonly userId: Prisma.FieldRef<"ForumPostReaction", 'Int'>
+  readonly type: Prisma.FieldRef<"ForumPostReaction", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ForumPostReaction", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ForumPostReaction", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ForumPostReaction findUnique
+ */
+export type ForumPostReactionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumPostReaction to fetch.
+   */
+  where: Prisma.ForumPostReactionWhereUniqueInput
+}
+
+/**
+ * ForumPostReaction findUniqueOrThrow
+ */
+export type ForumPostReactionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumPostReaction to fetch.
+   */
+  where: Prisma.ForumPostReactionWhereUniqueInput
+}
+
+/**
+ * ForumPostReaction findFirst
+ */
+export type ForumPostReactionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumPostReaction to fetch.
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumPostReactions to fetch.
+   */
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumPostReactions.
+   */
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumPostReactions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumPostReactions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumPostReactions.
+   */
+  distinct?: Prisma.ForumPostReactionScalarFieldEnum | Prisma.ForumPostReactionScalarFieldEnum[]
+}
+
+/**
+ * ForumPostReaction findFirstOrThrow
+ */
+export type ForumPostReactionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumPostReaction to fetch.
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumPostReactions to fetch.
+   */
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumPostReactions.
+   */
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumPostReactions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumPostReactions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumPostReactions.
+   */
+  distinct?: Prisma.ForumPostReactionScalarFieldEnum | Prisma.ForumPostReactionScalarFieldEnum[]
+}
+
+/**
+ * ForumPostReaction findMany
+ */
+export type ForumPostReactionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumPostReactions to fetch.
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumPostReactions to fetch.
+   */
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ForumPostReactions.
+   */
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumPostReactions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumPostReactions.
+   */
+  skip?: number
+  distinct?: Prisma.ForumPostReactionScalarFieldEnum | Prisma.ForumPostReactionScalarFieldEnum[]
+}
+
+/**
+ * ForumPostReaction create
+ */
+export type ForumPostReactionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ForumPostReaction.
+   */
+  data: Prisma.XOR<Prisma.ForumPostReactionCreateInput, Prisma.ForumPostReactionUncheckedCreateInput>
+}
+
+/**
+ * ForumPostReaction createMany
+ */
+export type ForumPostReactionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ForumPostReactions.
+   */
+  data: Prisma.ForumPostReactionCreateManyInput | Prisma.ForumPostReactionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ForumPostReaction createManyAndReturn
+ */
+export type ForumPostReactionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ForumPostReactions.
+   */
+  data: Prisma.ForumPostReactionCreateManyInput | Prisma.ForumPostReactionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumPostReaction update
+ */
+export type ForumPostReactionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ForumPostReaction.
+   */
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateInput, Prisma.ForumPostReactionUncheckedUpdateInput>
+  /**
+   * Choose, which ForumPostReaction to update.
+   */
+  where: Prisma.ForumPostReactionWhereUniqueInput
+}
+
+/**
+ * ForumPostReaction updateMany
+ */
+export type ForumPostReactionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ForumPostReactions.
+   */
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateManyMutationInput, Prisma.ForumPostReactionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumPostReactions to update
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * Limit how many ForumPostReactions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ForumPostReaction updateManyAndReturn
+ */
+export type ForumPostReactionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * The data used to update ForumPostReactions.
+   */
+  data: Prisma.XOR<Prisma.ForumPostReactionUpdateManyMutationInput, Prisma.ForumPostReactionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumPostReactions to update
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * Limit how many ForumPostReactions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumPostReaction upsert
+ */
+export type ForumPostReactionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ForumPostReaction to update in case it exists.
+   */
+  where: Prisma.ForumPostReactionWhereUniqueInput
+  /**
+   * In case the ForumPostReaction found by the `where` argument doesn't exist, create a new ForumPostReaction with this data.
+   */
+  create: Prisma.XOR<Prisma.ForumPostReactionCreateInput, Prisma.ForumPostReactionUncheckedCreateInput>
+  /**
+   * In case the ForumPostReaction was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ForumPostReactionUpdateInput, Prisma.ForumPostReactionUncheckedUpdateInput>
+}
+
+/**
+ * ForumPostReaction delete
+ */
+export type ForumPostReactionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  /**
+   * Filter which ForumPostReaction to delete.
+   */
+  where: Prisma.ForumPostReactionWhereUniqueInput
+}
+
+/**
+ * ForumPostReaction deleteMany
+ */
+export type ForumPostReactionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumPostReactions to delete
+   */
+  where?: Prisma.ForumPostReactionWhereInput
+  /**
+   * Limit how many ForumPostReactions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ForumPostReaction without action
+ */
+export type ForumPostReactionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+}
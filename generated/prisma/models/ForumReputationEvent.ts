@@ -0,0 +1,1656 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ForumReputationEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ForumReputationEvent
+ * 
+ */
+export type ForumReputationEventModel = runtime.Types.Result.DefaultSelection<Prisma.$ForumReputationEventPayload>
+
+export type AggregateForumReputationEvent = {
+  _count: ForumReputationEventCountAggregateOutputType | null
+  _avg: ForumReputationEventAvgAggregateOutputType | null
+  _sum: ForumReputationEventSumAggregateOutputType | null
+  _min: ForumReputationEventMinAggregateOutputType | null
+  _max: ForumReputationEventMaxAggregateOutputType | null
+}
+
+export type ForumReputationEventAvgAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+  actorId: number | null
+  reputation: number | null
+  points: number | null
+}
+
+export type ForumReputationEventSumAggregateOutputType = {
+  id: number | null
+  postId: number | null
+  userId: number | null
+  actorId: number | null
+  reputation: number | null
+  points: number | null
+}
+
+export type ForumReputationEventMinAggregateOutputType = {
+  id: number | null
+  kind: string | null
+  postId: number | null
+  userId: number | null
+  actorId: number | null
+  reputation: number | null
+  points: number | null
+  createdAt: Date | null
+}
+
+export type ForumReputationEventMaxAggregateOutputType = {
+  id: number | null
+  kind: string | null
+  postId: number | null
+  userId: number | null
+  actorId: number | null
+  reputation: number | null
+  points: number | null
+  createdAt: Date | null
+}
+
+export type ForumReputationEventCountAggregateOutputType = {
+  id: number
+  kind: number
+  postId: number
+  userId: number
+  actorId: number
+  reputation: number
+  points: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ForumReputationEventAvgAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+  actorId?: true
+  reputation?: true
+  points?: true
+}
+
+export type ForumReputationEventSumAggregateInputType = {
+  id?: true
+  postId?: true
+  userId?: true
+  actorId?: true
+  reputation?: true
+  points?: true
+}
+
+export type ForumReputationEventMinAggregateInputType = {
+  id?: true
+  kind?: true
+  postId?: true
+  userId?: true
+  actorId?: true
+  reputation?: true
+  points?: true
+  createdAt?: true
+}
+
+export type ForumReputationEventMaxAggregateInputType = {
+  id?: true
+  kind?: true
+  postId?: true
+  userId?: true
+  actorId?: true
+  reputation?: true
+  points?: true
+  createdAt?: true
+}
+
+export type ForumReputationEventCountAggregateInputType = {
+  id?: true
+  kind?: true
+  postId?: true
+  userId?: true
+  actorId?: true
+  reputation?: true
+  points?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ForumReputationEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumReputationEvent to aggregate.
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumReputationEvents to fetch.
+   */
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumReputationEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumReputationEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ForumReputationEvents
+  **/
+  _count?: true | ForumReputationEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ForumReputationEventAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ForumReputationEventSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ForumReputationEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ForumReputationEventMaxAggregateInputType
+}
+
+export type GetForumReputationEventAggregateType<T extends ForumReputationEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateForumReputationEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateForumReputationEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateForumReputationEvent[P]>
+}
+
+
+
+
+export type ForumReputationEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumReputationEventWhereInput
+  orderBy?: Prisma.ForumReputationEventOrderByWithAggregationInput | Prisma.ForumReputationEventOrderByWithAggregationInput[]
+  by: Prisma.ForumReputationEventScalarFieldEnum[] | Prisma.ForumReputationEventScalarFieldEnum
+  having?: Prisma.ForumReputationEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ForumReputationEventCountAggregateInputType | true
+  _avg?: ForumReputationEventAvgAggregateInputType
+  _sum?: ForumReputationEventSumAggregateInputType
+  _min?: ForumReputationEventMinAggregateInputType
+  _max?: ForumReputationEventMaxAggregateInputType
+}
+
+export type ForumReputationEventGroupByOutputType = {
+  id: number
+  kind: string
+  postId: number
+  userId: number
+  actorId: number
+  reputation: number
+  points: number
+  createdAt: Date
+  _count: ForumReputationEventCountAggregateOutputType | null
+  _avg: ForumReputationEventAvgAggregateOutputType | null
+  _sum: ForumReputationEventSumAggregateOutputType | null
+  _min: ForumReputationEventMinAggregateOutputType | null
+  _max: ForumReputationEventMaxAggregateOutputType | null
+}
+
+type GetForumReputationEventGroupByPayload<T extends ForumReputationEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ForumReputationEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ForumReputationEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ForumReputationEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ForumReputationEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ForumReputationEventWhereInput = {
+  AND?: Prisma.ForumReputationEventWhereInput | Prisma.ForumReputationEventWhereInput[]
+  OR?: Prisma.ForumReputationEventWhereInput[]
+  NOT?: Prisma.ForumReputationEventWhereInput | Prisma.ForumReputationEventWhereInput[]
+  id?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  kind?: Prisma.StringFilter<"ForumReputationEvent"> | string
+  postId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  userId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  actorId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  reputation?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  points?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  createdAt?: Prisma.DateTimeFilter<"ForumReputationEvent"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ForumReputationEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ForumReputationEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  kind_postId_actorId?: Prisma.ForumReputationEventKindPostIdActorIdCompoundUniqueInput
+  AND?: Prisma.ForumReputationEventWhereInput | Prisma.ForumReputationEventWhereInput[]
+  OR?: Prisma.ForumReputationEventWhereInput[]
+  NOT?: Prisma.ForumReputationEventWhereInput | Prisma.ForumReputationEventWhereInput[]
+  kind?: Prisma.StringFilter<"ForumReputationEvent"> | string
+  postId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  userId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  actorId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  reputation?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  points?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  createdAt?: Prisma.DateTimeFilter<"ForumReputationEvent"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "kind_postId_actorId">
+
+export type ForumReputationEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ForumReputationEventCountOrderByAggregateInput
+  _avg?: Prisma.ForumReputationEventAvgOrderByAggregateInput
+  _max?: Prisma.ForumReputationEventMaxOrderByAggregateInput
+  _min?: Prisma.ForumReputationEventMinOrderByAggregateInput
+  _sum?: Prisma.ForumReputationEventSumOrderByAggregateInput
+}
+
+export type ForumReputationEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ForumReputationEventScalarWhereWithAggregatesInput | Prisma.ForumReputationEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ForumReputationEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ForumReputationEventScalarWhereWithAggregatesInput | Prisma.ForumReputationEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  kind?: Prisma.StringWithAggregatesFilter<"ForumReputationEvent"> | string
+  postId?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  actorId?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  reputation?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  points?: Prisma.IntWithAggregatesFilter<"ForumReputationEvent"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumReputationEvent"> | Date | string
+}
+
+export type ForumReputationEventCreateInput = {
+  kind: string
+  postId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumReputationReceivedInput
+  actor: Prisma.UserCreateNestedOneWithoutForumReputationGivenInput
+}
+
+export type ForumReputationEventUncheckedCreateInput = {
+  id?: number
+  kind: string
+  postId: number
+  userId: number
+  actorId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventUpdateInput = {
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumReputationReceivedNestedInput
+  actor?: Prisma.UserUpdateOneRequiredWithoutForumReputationGivenNestedInput
+}
+
+export type ForumReputationEventUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventCreateManyInput = {
+  id?: number
+  kind: string
+  postId: number
+  userId: number
+  actorId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventUpdateManyMutationInput = {
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventListRelationFilter = {
+  every?: Prisma.ForumReputationEventWhereInput
+  some?: Prisma.ForumReputationEventWhereInput
+  none?: Prisma.ForumReputationEventWhereInput
+}
+
+export type ForumReputationEventOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ForumReputationEventKindPostIdActorIdCompoundUniqueInput = {
+  kind: string
+  postId: number
+  actorId: number
+}
+
+export type ForumReputationEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumReputationEventAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+}
+
+export type ForumReputationEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumReputationEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumReputationEventSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reputation?: Prisma.SortOrder
+  points?: Prisma.SortOrder
+}
+
+export type ForumReputationEventCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput> | Prisma.ForumReputationEventCreateWithoutUserInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutUserInput | Prisma.ForumReputationEventCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyUserInputEnvelope
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+}
+
+export type ForumReputationEventCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput> | Prisma.ForumReputationEventCreateWithoutActorInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutActorInput | Prisma.ForumReputationEventCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyActorInputEnvelope
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+}
+
+export type ForumReputationEventUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput> | Prisma.ForumReputationEventCreateWithoutUserInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutUserInput | Prisma.ForumReputationEventCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyUserInputEnvelope
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+}
+
+export type ForumReputationEventUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput> | Prisma.ForumReputationEventCreateWithoutActorInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutActorInput | Prisma.ForumReputationEventCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyActorInputEnvelope
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+}
+
+export type ForumReputationEventUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput> | Prisma.ForumReputationEventCreateWithoutUserInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutUserInput | Prisma.ForumReputationEventCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyUserInputEnvelope
+  set?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  disconnect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  delete?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  update?: Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumReputationEventUpdateManyWithWhereWithoutUserInput | Prisma.ForumReputationEventUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+}
+
+export type ForumReputationEventUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput> | Prisma.ForumReputationEventCreateWithoutActorInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutActorInput | Prisma.ForumReputationEventCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutActorInput | Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyActorInputEnvelope
+  set?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  disconnect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  delete?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  update?: Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutActorInput | Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.ForumReputationEventUpdateManyWithWhereWithoutActorInput | Prisma.ForumReputationEventUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+}
+
+export type ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput> | Prisma.ForumReputationEventCreateWithoutUserInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutUserInput | Prisma.ForumReputationEventCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyUserInputEnvelope
+  set?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  disconnect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  delete?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  update?: Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumReputationEventUpdateManyWithWhereWithoutUserInput | Prisma.ForumReputationEventUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+}
+
+export type ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput> | Prisma.ForumReputationEventCreateWithoutActorInput[] | Prisma.ForumReputationEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.ForumReputationEventCreateOrConnectWithoutActorInput | Prisma.ForumReputationEventCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutActorInput | Prisma.ForumReputationEventUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.ForumReputationEventCreateManyActorInputEnvelope
+  set?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  disconnect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  delete?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  connect?: Prisma.ForumReputationEventWhereUniqueInput | Prisma.ForumReputationEventWhereUniqueInput[]
+  update?: Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutActorInput | Prisma.ForumReputationEventUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.ForumReputationEventUpdateManyWithWhereWithoutActorInput | Prisma.ForumReputationEventUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+}
+
+export type ForumReputationEventCreateWithoutUserInput = {
+  kind: string
+  postId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+  actor: Prisma.UserCreateNestedOneWithoutForumReputationGivenInput
+}
+
+export type ForumReputationEventUncheckedCreateWithoutUserInput = {
+  id?: number
+  kind: string
+  postId: number
+  actorId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventCreateOrConnectWithoutUserInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput>
+}
+
+export type ForumReputationEventCreateManyUserInputEnvelope = {
+  data: Prisma.ForumReputationEventCreateManyUserInput | Prisma.ForumReputationEventCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumReputationEventCreateWithoutActorInput = {
+  kind: string
+  postId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumReputationReceivedInput
+}
+
+export type ForumReputationEventUncheckedCreateWithoutActorInput = {
+  id?: number
+  kind: string
+  postId: number
+  userId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventCreateOrConnectWithoutActorInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput>
+}
+
+export type ForumReputationEventCreateManyActorInputEnvelope = {
+  data: Prisma.ForumReputationEventCreateManyActorInput | Prisma.ForumReputationEventCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumReputationEventUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumReputationEventUpdateWithoutUserInput, Prisma.ForumReputationEventUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutUserInput, Prisma.ForumReputationEventUncheckedCreateWithoutUserInput>
+}
+
+export type ForumReputationEventUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateWithoutUserInput, Prisma.ForumReputationEventUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumReputationEventUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ForumReputationEventScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateManyMutationInput, Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ForumReputationEventScalarWhereInput = {
+  AND?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+  OR?: Prisma.ForumReputationEventScalarWhereInput[]
+  NOT?: Prisma.ForumReputationEventScalarWhereInput | Prisma.ForumReputationEventScalarWhereInput[]
+  id?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  kind?: Prisma.StringFilter<"ForumReputationEvent"> | string
+  postId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  userId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  actorId?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  reputation?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  points?: Prisma.IntFilter<"ForumReputationEvent"> | number
+  createdAt?: Prisma.DateTimeFilter<"ForumReputationEvent"> | Date | string
+}
+
+export type ForumReputationEventUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumReputationEventUpdateWithoutActorInput, Prisma.ForumReputationEventUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.ForumReputationEventCreateWithoutActorInput, Prisma.ForumReputationEventUncheckedCreateWithoutActorInput>
+}
+
+export type ForumReputationEventUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateWithoutActorInput, Prisma.ForumReputationEventUncheckedUpdateWithoutActorInput>
+}
+
+export type ForumReputationEventUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.ForumReputationEventScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateManyMutationInput, Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorInput>
+}
+
+export type ForumReputationEventCreateManyUserInput = {
+  id?: number
+  kind: string
+  postId: number
+  actorId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventCreateManyActorInput = {
+  id?: number
+  kind: string
+  postId: number
+  userId: number
+  reputation?: number
+  points?: number
+  createdAt?: Date | string
+}
+
+export type ForumReputationEventUpdateWithoutUserInput = {
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneRequiredWithoutForumReputationGivenNestedInput
+}
+
+export type ForumReputationEventUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventUpdateWithoutActorInput = {
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumReputationReceivedNestedInput
+}
+
+export type ForumReputationEventUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumReputationEventUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  postId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  reputation?: Prisma.IntFieldUpdateOperationsInput | number
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ForumReputationEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  postId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  reputation?: boolean
+  points?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumReputationEvent"]>
+
+export type ForumReputationEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  postId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  reputation?: boolean
+  points?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumReputationEvent"]>
+
+export type ForumReputationEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  postId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  reputation?: boolean
+  points?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["forumReputationEvent"]>
+
+export type ForumReputationEventSelectScalar = {
+  id?: boolean
+  kind?: boolean
+  postId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  reputation?: boolean
+  points?: boolean
+  createdAt?: boolean
+}
+
+export type ForumReputationEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "kind" | "postId" | "userId" | "actorId" | "reputation" | "points" | "createdAt", ExtArgs["result"]["forumReputationEvent"]>
+export type ForumReputationEventInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumReputationEventIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ForumReputationEventIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ForumReputationEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ForumReputationEvent"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    actor: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    kind: string
+    postId: number
+    userId: number
+    actorId: number
+    reputation: number
+    points: number
+    createdAt: Date
+  }, ExtArgs["result"]["forumReputationEvent"]>
+  composites: {}
+}
+
+export type ForumReputationEventGetPayload<S extends boolean | null | undefined | ForumReputationEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload, S>
+
+export type ForumReputationEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ForumReputationEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ForumReputationEventCountAggregateInputType | true
+  }
+
+export interface ForumReputationEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ForumReputationEvent'], meta: { name: 'ForumReputationEvent' } }
+  /**
+   * Find zero or one ForumReputationEvent that matches the filter.
+   * @param {ForumReputationEventFindUniqueArgs} args - Arguments to find a ForumReputationEvent
+   * @example
+   * // Get one ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ForumReputationEventFindUniqueArgs>(args: Prisma.SelectSubset<T, ForumReputationEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ForumReputationEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ForumReputationEventFindUniqueOrThrowArgs} args - Arguments to find a ForumReputationEvent
+   * @example
+   * // Get one ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ForumReputationEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ForumReputationEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumReputationEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventFindFirstArgs} args - Arguments to find a ForumReputationEvent
+   * @example
+   * // Get one ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ForumReputationEventFindFirstArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumReputationEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventFindFirstOrThrowArgs} args - Arguments to find a ForumReputationEvent
+   * @example
+   * // Get one ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ForumReputationEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ForumReputationEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ForumReputationEvents
+   * const forumReputationEvents = await prisma.forumReputationEvent.findMany()
+   * 
+   * // Get first 10 ForumReputationEvents
+   * const forumReputationEvents = await prisma.forumReputationEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const forumReputationEventWithIdOnly = await prisma.forumReputationEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ForumReputationEventFindManyArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ForumReputationEvent.
+   * @param {ForumReputationEventCreateArgs} args - Arguments to create a ForumReputationEvent.
+   * @example
+   * // Create one ForumReputationEvent
+   * const ForumReputationEvent = await prisma.forumReputationEvent.create({
+   *   data: {
+   *     // ... data to create a ForumReputationEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends ForumReputationEventCreateArgs>(args: Prisma.SelectSubset<T, ForumReputationEventCreateArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ForumReputationEvents.
+   * @param {ForumReputationEventCreateManyArgs} args - Arguments to create many ForumReputationEvents.
+   * @example
+   * // Create many ForumReputationEvents
+   * const forumReputationEvent = await prisma.forumReputationEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ForumReputationEventCreateManyArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ForumReputationEvents and returns the data saved in the database.
+   * @param {ForumReputationEventCreateManyAndReturnArgs} args - Arguments to create many ForumReputationEvents.
+   * @example
+   * // Create many ForumReputationEvents
+   * const forumReputationEvent = await prisma.forumReputationEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ForumReputationEvents and only return the `id`
+   * const forumReputationEventWithIdOnly = await prisma.forumReputationEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ForumReputationEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ForumReputationEvent.
+   * @param {ForumReputationEventDeleteArgs} args - Arguments to delete one ForumReputationEvent.
+   * @example
+   * // Delete one ForumReputationEvent
+   * const ForumReputationEvent = await prisma.forumReputationEvent.delete({
+   *   where: {
+   *     // ... filter to delete one ForumReputationEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ForumReputationEventDeleteArgs>(args: Prisma.SelectSubset<T, ForumReputationEventDeleteArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ForumReputationEvent.
+   * @param {ForumReputationEventUpdateArgs} args - Arguments to update one ForumReputationEvent.
+   * @example
+   * // Update one ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ForumReputationEventUpdateArgs>(args: Prisma.SelectSubset<T, ForumReputationEventUpdateArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ForumReputationEvents.
+   * @param {ForumReputationEventDeleteManyArgs} args - Arguments to filter ForumReputationEvents to delete.
+   * @example
+   * // Delete a few ForumReputationEvents
+   * const { count } = await prisma.forumReputationEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ForumReputationEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, ForumReputationEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumReputationEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ForumReputationEvents
+   * const forumReputationEvent = await prisma.forumReputationEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ForumReputationEventUpdateManyArgs>(args: Prisma.SelectSubset<T, ForumReputationEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumReputationEvents and returns the data updated in the database.
+   * @param {ForumReputationEventUpdateManyAndReturnArgs} args - Arguments to update many ForumReputationEvents.
+   * @example
+   * // Update many ForumReputationEvents
+   * const forumReputationEvent = await prisma.forumReputationEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ForumReputationEvents and only return the `id`
+   * const forumReputationEventWithIdOnly = await prisma.forumReputationEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ForumReputationEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ForumReputationEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ForumReputationEvent.
+   * @param {ForumReputationEventUpsertArgs} args - Arguments to update or create a ForumReputationEvent.
+   * @example
+   * // Update or create a ForumReputationEvent
+   * const forumReputationEvent = await prisma.forumReputationEvent.upsert({
+   *   create: {
+   *     // ... data to create a ForumReputationEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ForumReputationEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ForumReputationEventUpsertArgs>(args: Prisma.SelectSubset<T, ForumReputationEventUpsertArgs<ExtArgs>>): Prisma.Prisma__ForumReputationEventClient<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ForumReputationEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventCountArgs} args - Arguments to filter ForumReputationEvents to count.
+   * @example
+   * // Count the number of ForumReputationEvents
+   * const count = await prisma.forumReputationEvent.count({
+   *   where: {
+   *     // ... the filter for the ForumReputationEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends ForumReputationEventCountArgs>(
+    args?: Prisma.Subset<T, ForumReputationEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ForumReputationEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ForumReputationEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ForumReputationEventAggregateArgs>(args: Prisma.Subset<T, ForumReputationEventAggregateArgs>): Prisma.PrismaPromise<GetForumReputationEventAggregateType<T>>
+
+  /**
+   * Group by ForumReputationEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumReputationEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ForumReputationEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ForumReputationEventGroupByArgs['orderBy'] }
+      : { orderBy?: ForumReputationEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ForumReputationEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetForumReputationEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ForumReputationEvent model
+ */
+readonly fields: ForumReputationEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ForumReputationEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ForumReputationEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ForumReputationEvent model
+ */
+export interface ForumReputationEventFieldRefs {
+  readonly id: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly kind: Prisma.FieldRef<"ForumReputationEvent", 'String'>
+  readonly postId: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly userId: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly actorId: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly reputation: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly points: Prisma.FieldRef<"ForumReputationEvent", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ForumReputationEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ForumReputationEvent findUnique
+ */
+export type ForumReputationEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumReputationEvent to fetch.
+   */
+  where: Prisma.ForumReputationEventWhereUniqueInput
+}
+
+/**
+ * ForumReputationEvent findUniqueOrThrow
+ */
+export type ForumReputationEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumReputationEvent to fetch.
+   */
+  where: Prisma.ForumReputationEventWhereUniqueInput
+}
+
+/**
+ * ForumReputationEvent findFirst
+ */
+export type ForumReputationEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumReputationEvent to fetch.
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumReputationEvents to fetch.
+   */
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumReputationEvents.
+   */
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumReputationEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumReputationEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumReputationEvents.
+   */
+  distinct?: Prisma.ForumReputationEventScalarFieldEnum | Prisma.ForumReputationEventScalarFieldEnum[]
+}
+
+/**
+ * ForumReputationEvent findFirstOrThrow
+ */
+export type ForumReputationEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumReputationEvent to fetch.
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumReputationEvents to fetch.
+   */
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumReputationEvents.
+   */
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumReputationEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumReputationEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumReputationEvents.
+   */
+  distinct?: Prisma.ForumReputationEventScalarFieldEnum | Prisma.ForumReputationEventScalarFieldEnum[]
+}
+
+/**
+ * ForumReputationEvent findMany
+ */
+export type ForumReputationEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumReputationEvents to fetch.
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumReputationEvents to fetch.
+   */
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ForumReputationEvents.
+   */
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumReputationEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumReputationEvents.
+   */
+  skip?: number
+  distinct?: Prisma.ForumReputationEventScalarFieldEnum | Prisma.ForumReputationEventScalarFieldEnum[]
+}
+
+/**
+ * ForumReputationEvent create
+ */
+export type ForumReputationEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ForumReputationEvent.
+   */
+  data: Prisma.XOR<Prisma.ForumReputationEventCreateInput, Prisma.ForumReputationEventUncheckedCreateInput>
+}
+
+/**
+ * ForumReputationEvent createMany
+ */
+export type ForumReputationEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ForumReputationEvents.
+   */
+  data: Prisma.ForumReputationEventCreateManyInput | Prisma.ForumReputationEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ForumReputationEvent createManyAndReturn
+ */
+export type ForumReputationEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many ForumReputationEvents.
+   */
+  data: Prisma.ForumReputationEventCreateManyInput | Prisma.ForumReputationEventCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumReputationEvent update
+ */
+export type ForumReputationEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ForumReputationEvent.
+   */
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateInput, Prisma.ForumReputationEventUncheckedUpdateInput>
+  /**
+   * Choose, which ForumReputationEvent to update.
+   */
+  where: Prisma.ForumReputationEventWhereUniqueInput
+}
+
+/**
+ * ForumReputationEvent updateMany
+ */
+export type ForumReputationEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ForumReputationEvents.
+   */
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateManyMutationInput, Prisma.ForumReputationEventUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumReputationEvents to update
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * Limit how many ForumReputationEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * ForumReputationEvent updateManyAndReturn
+ */
+export type ForumReputationEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * The data used to update ForumReputationEvents.
+   */
+  data: Prisma.XOR<Prisma.ForumReputationEventUpdateManyMutationInput, Prisma.ForumReputationEventUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumReputationEvents to update
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * Limit how many ForumReputationEvents to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumReputationEvent upsert
+ */
+export type ForumReputationEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ForumReputationEvent to update in case it exists.
+   */
+  where: Prisma.ForumReputationEventWhereUniqueInput
+  /**
+   * In case the ForumReputationEvent found by the `where` argument doesn't exist, create a new ForumReputationEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.ForumReputationEventCreateInput, Prisma.ForumReputationEventUncheckedCreateInput>
+  /**
+   * In case the ForumReputationEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ForumReputationEventUpdateInput, Prisma.ForumReputationEventUncheckedUpdateInput>
+}
+
+/**
+ * ForumReputationEvent delete
+ */
+export type ForumReputationEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  /**
+   * Filter which ForumReputationEvent to delete.
+   */
+  where: Prisma.ForumReputationEventWhereUniqueInput
+}
+
+/**
+ * ForumReputationEvent deleteMany
+ */
+export type ForumReputationEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumReputationEvents to delete
+   */
+  where?: Prisma.ForumReputationEventWhereInput
+  /**
+   * Limit how many ForumReputationEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ForumReputationEvent without action
+ */
+export type ForumReputationEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+}
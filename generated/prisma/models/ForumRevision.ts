@@ -0,0 +1,1830 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ForumRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ForumRevision
+ * 
+ */
+export type ForumRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$ForumRevisionPayload>
+
+export type AggregateForumRevision = {
+  _count: ForumRevisionCountAggregateOutputType | null
+  _avg: ForumRevisionAvgAggregateOutputType | null
+  _sum: ForumRevisionSumAggregateOutputType | null
+  _min: ForumRevisionMinAggregateOutputType | null
+  _max: ForumRevisionMaxAggregateOutputType | null
+}
+
+export type ForumRevisionAvgAggregateOutputType = {
+  id: number | null
+  topicId: number | null
+  postId: number | null
+  editorId: number | null
+}
+
+export type ForumRevisionSumAggregateOutputType = {
+  id: number | null
+  topicId: number | null
+  postId: number | null
+  editorId: number | null
+}
+
+export type ForumRevisionMinAggregateOutputType = {
+  id: number | null
+  topicId: number | null
+  postId: number | null
+  editorId: number | null
+  title: string | null
+  content: string | null
+  status: string | null
+  createdAt: Date | null
+}
+
+export type ForumRevisionMaxAggregateOutputType = {
+  id: number | null
+  topicId: number | null
+  postId: number | null
+  editorId: number | null
+  title: string | null
+  content: string | null
+  status: string | null
+  createdAt: Date | null
+}
+
+export type ForumRevisionCountAggregateOutputType = {
+  id: number
+  topicId: number
+  postId: number
+  editorId: number
+  title: number
+  content: number
+  status: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ForumRevisionAvgAggregateInputType = {
+  id?: true
+  topicId?: true
+  postId?: true
+  editorId?: true
+}
+
+export type ForumRevisionSumAggregateInputType = {
+  id?: true
+  topicId?: true
+  postId?: true
+  editorId?: true
+}
+
+export type ForumRevisionMinAggregateInputType = {
+  id?: true
+  topicId?: true
+  postId?: true
+  editorId?: true
+  title?: true
+  content?: true
+  status?: true
+  createdAt?: true
+}
+
+export type ForumRevisionMaxAggregateInputType = {
+  id?: true
+  topicId?: true
+  postId?: true
+  editorId?: true
+  title?: true
+  content?: true
+  status?: true
+  createdAt?: true
+}
+
+export type ForumRevisionCountAggregateInputType = {
+  id?: true
+  topicId?: true
+  postId?: true
+  editorId?: true
+  title?: true
+  content?: true
+  status?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ForumRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumRevision to aggregate.
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumRevisions to fetch.
+   */
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ForumRevisions
+  **/
+  _count?: true | ForumRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ForumRevisionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ForumRevisionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ForumRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ForumRevisionMaxAggregateInputType
+}
+
+export type GetForumRevisionAggregateType<T extends ForumRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateForumRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateForumRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateForumRevision[P]>
+}
+
+
+
+
+export type ForumRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumRevisionWhereInput
+  orderBy?: Prisma.ForumRevisionOrderByWithAggregationInput | Prisma.ForumRevisionOrderByWithAggregationInput[]
+  by: Prisma.ForumRevisionScalarFieldEnum[] | Prisma.ForumRevisionScalarFieldEnum
+  having?: Prisma.ForumRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ForumRevisionCountAggregateInputType | true
+  _avg?: ForumRevisionAvgAggregateInputType
+  _sum?: ForumRevisionSumAggregateInputType
+  _min?: ForumRevisionMinAggregateInputType
+  _max?: ForumRevisionMaxAggregateInputType
+}
+
+export type ForumRevisionGroupByOutputType = {
+  id: number
+  topicId: number | null
+  postId: number | null
+  editorId: number | null
+  title: string | null
+  content: string
+  status: string
+  createdAt: Date
+  _count: ForumRevisionCountAggregateOutputType | null
+  _avg: ForumRevisionAvgAggregateOutputType | null
+  _sum: ForumRevisionSumAggregateOutputType | null
+  _min: ForumRevisionMinAggregateOutputType | null
+  _max: ForumRevisionMaxAggregateOutputType | null
+}
+
+type GetForumRevisionGroupByPayload<T extends ForumRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ForumRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ForumRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ForumRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ForumRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ForumRevisionWhereInput = {
+  AND?: Prisma.ForumRevisionWhereInput | Prisma.ForumRevisionWhereInput[]
+  OR?: Prisma.ForumRevisionWhereInput[]
+  NOT?: Prisma.ForumRevisionWhereInput | Prisma.ForumRevisionWhereInput[]
+  id?: Prisma.IntFilter<"ForumRevision"> | number
+  topicId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  postId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  editorId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  title?: Prisma.StringNullableFilter<"ForumRevision"> | string | null
+  content?: Prisma.StringFilter<"ForumRevision"> | string
+  status?: Prisma.StringFilter<"ForumRevision"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumRevision"> | Date | string
+  topic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  post?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
+  editor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type ForumRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrderInput | Prisma.SortOrder
+  postId?: Prisma.SortOrderInput | Prisma.SortOrder
+  editorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  topic?: Prisma.ForumTopicOrderByWithRelationInput
+  post?: Prisma.ForumPostOrderByWithRelationInput
+  editor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ForumRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.ForumRevisionWhereInput | Prisma.ForumRevisionWhereInput[]
+  OR?: Prisma.ForumRevisionWhereInput[]
+  NOT?: Prisma.ForumRevisionWhereInput | Prisma.ForumRevisionWhereInput[]
+  topicId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  postId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  editorId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  title?: Prisma.StringNullableFilter<"ForumRevision"> | string | null
+  content?: Prisma.StringFilter<"ForumRevision"> | string
+  status?: Prisma.StringFilter<"ForumRevision"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumRevision"> | Date | string
+  topic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  post?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
+  editor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type ForumRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrderInput | Prisma.SortOrder
+  postId?: Prisma.SortOrderInput | Prisma.SortOrder
+  editorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ForumRevisionCountOrderByAggregateInput
+  _avg?: Prisma.ForumRevisionAvgOrderByAggregateInput
+  _max?: Prisma.ForumRevisionMaxOrderByAggregateInput
+  _min?: Prisma.ForumRevisionMinOrderByAggregateInput
+  _sum?: Prisma.ForumRevisionSumOrderByAggregateInput
+}
+
+export type ForumRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ForumRevisionScalarWhereWithAggregatesInput | Prisma.ForumRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ForumRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ForumRevisionScalarWhereWithAggregatesInput | Prisma.ForumRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ForumRevision"> | number
+  topicId?: Prisma.IntNullableWithAggregatesFilter<"ForumRevision"> | number | null
+  postId?: Prisma.IntNullableWithAggregatesFilter<"ForumRevision"> | number | null
+  editorId?: Prisma.IntNullableWithAggregatesFilter<"ForumRevision"> | number | null
+  title?: Prisma.StringNullableWithAggregatesFilter<"ForumRevision"> | string | null
+  content?: Prisma.StringWithAggregatesFilter<"ForumRevision"> | string
+  status?: Prisma.StringWithAggregatesFilter<"ForumRevision"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumRevision"> | Date | string
+}
+
+export type ForumRevisionCreateInput = {
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutRevisionsInput
+  post?: Prisma.ForumPostCreateNestedOneWithoutRevisionsInput
+  editor?: Prisma.UserCreateNestedOneWithoutForumRevisionsInput
+}
+
+export type ForumRevisionUncheckedCreateInput = {
+  id?: number
+  topicId?: number | null
+  postId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionUpdateInput = {
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topic?: Prisma.ForumTopicUpdateOneWithoutRevisionsNestedInput
+  post?: Prisma.ForumPostUpdateOneWithoutRevisionsNestedInput
+  editor?: Prisma.UserUpdateOneWithoutForumRevisionsNestedInput
+}
+
+export type ForumRevisionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionCreateManyInput = {
+  id?: number
+  topicId?: number | null
+  postId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionUpdateManyMutationInput = {
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionListRelationFilter = {
+  every?: Prisma.ForumRevisionWhereInput
+  some?: Prisma.ForumRevisionWhereInput
+  none?: Prisma.ForumRevisionWhereInput
+}
+
+export type ForumRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ForumRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  editorId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumRevisionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  editorId?: Prisma.SortOrder
+}
+
+export type ForumRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  editorId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  editorId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumRevisionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  postId?: Prisma.SortOrder
+  editorId?: Prisma.SortOrder
+}
+
+export type ForumRevisionCreateNestedManyWithoutEditorInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput> | Prisma.ForumRevisionCreateWithoutEditorInput[] | Prisma.ForumRevisionUncheckedCreateWithoutEditorInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutEditorInput | Prisma.ForumRevisionCreateOrConnectWithoutEditorInput[]
+  createMany?: Prisma.ForumRevisionCreateManyEditorInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUncheckedCreateNestedManyWithoutEditorInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput> | Prisma.ForumRevisionCreateWithoutEditorInput[] | Prisma.ForumRevisionUncheckedCreateWithoutEditorInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutEditorInput | Prisma.ForumRevisionCreateOrConnectWithoutEditorInput[]
+  createMany?: Prisma.ForumRevisionCreateManyEditorInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUpdateManyWithoutEditorNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput> | Prisma.ForumRevisionCreateWithoutEditorInput[] | Prisma.ForumRevisionUncheckedCreateWithoutEditorInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutEditorInput | Prisma.ForumRevisionCreateOrConnectWithoutEditorInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutEditorInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutEditorInput[]
+  createMany?: Prisma.ForumRevisionCreateManyEditorInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutEditorInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutEditorInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutEditorInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutEditorInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput> | Prisma.ForumRevisionCreateWithoutEditorInput[] | Prisma.ForumRevisionUncheckedCreateWithoutEditorInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutEditorInput | Prisma.ForumRevisionCreateOrConnectWithoutEditorInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutEditorInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutEditorInput[]
+  createMany?: Prisma.ForumRevisionCreateManyEditorInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutEditorInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutEditorInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutEditorInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutEditorInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionCreateNestedManyWithoutTopicInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput> | Prisma.ForumRevisionCreateWithoutTopicInput[] | Prisma.ForumRevisionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutTopicInput | Prisma.ForumRevisionCreateOrConnectWithoutTopicInput[]
+  createMany?: Prisma.ForumRevisionCreateManyTopicInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUncheckedCreateNestedManyWithoutTopicInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput> | Prisma.ForumRevisionCreateWithoutTopicInput[] | Prisma.ForumRevisionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutTopicInput | Prisma.ForumRevisionCreateOrConnectWithoutTopicInput[]
+  createMany?: Prisma.ForumRevisionCreateManyTopicInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUpdateManyWithoutTopicNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput> | Prisma.ForumRevisionCreateWithoutTopicInput[] | Prisma.ForumRevisionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutTopicInput | Prisma.ForumRevisionCreateOrConnectWithoutTopicInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutTopicInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutTopicInput[]
+  createMany?: Prisma.ForumRevisionCreateManyTopicInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutTopicInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutTopicInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutTopicInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutTopicInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput> | Prisma.ForumRevisionCreateWithoutTopicInput[] | Prisma.ForumRevisionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutTopicInput | Prisma.ForumRevisionCreateOrConnectWithoutTopicInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutTopicInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutTopicInput[]
+  createMany?: Prisma.ForumRevisionCreateManyTopicInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutTopicInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutTopicInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutTopicInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutTopicInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionCreateNestedManyWithoutPostInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput> | Prisma.ForumRevisionCreateWithoutPostInput[] | Prisma.ForumRevisionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutPostInput | Prisma.ForumRevisionCreateOrConnectWithoutPostInput[]
+  createMany?: Prisma.ForumRevisionCreateManyPostInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUncheckedCreateNestedManyWithoutPostInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput> | Prisma.ForumRevisionCreateWithoutPostInput[] | Prisma.ForumRevisionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutPostInput | Prisma.ForumRevisionCreateOrConnectWithoutPostInput[]
+  createMany?: Prisma.ForumRevisionCreateManyPostInputEnvelope
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+}
+
+export type ForumRevisionUpdateManyWithoutPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput> | Prisma.ForumRevisionCreateWithoutPostInput[] | Prisma.ForumRevisionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutPostInput | Prisma.ForumRevisionCreateOrConnectWithoutPostInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutPostInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutPostInput[]
+  createMany?: Prisma.ForumRevisionCreateManyPostInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutPostInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutPostInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutPostInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutPostInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput> | Prisma.ForumRevisionCreateWithoutPostInput[] | Prisma.ForumRevisionUncheckedCreateWithoutPostInput[]
+  connectOrCreate?: Prisma.ForumRevisionCreateOrConnectWithoutPostInput | Prisma.ForumRevisionCreateOrConnectWithoutPostInput[]
+  upsert?: Prisma.ForumRevisionUpsertWithWhereUniqueWithoutPostInput | Prisma.ForumRevisionUpsertWithWhereUniqueWithoutPostInput[]
+  createMany?: Prisma.ForumRevisionCreateManyPostInputEnvelope
+  set?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  disconnect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  delete?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  connect?: Prisma.ForumRevisionWhereUniqueInput | Prisma.ForumRevisionWhereUniqueInput[]
+  update?: Prisma.ForumRevisionUpdateWithWhereUniqueWithoutPostInput | Prisma.ForumRevisionUpdateWithWhereUniqueWithoutPostInput[]
+  updateMany?: Prisma.ForumRevisionUpdateManyWithWhereWithoutPostInput | Prisma.ForumRevisionUpdateManyWithWhereWithoutPostInput[]
+  deleteMany?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+}
+
+export type ForumRevisionCreateWithoutEditorInput = {
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutRevisionsInput
+  post?: Prisma.ForumPostCreateNestedOneWithoutRevisionsInput
+}
+
+export type ForumRevisionUncheckedCreateWithoutEditorInput = {
+  id?: number
+  topicId?: number | null
+  postId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionCreateOrConnectWithoutEditorInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput>
+}
+
+export type ForumRevisionCreateManyEditorInputEnvelope = {
+  data: Prisma.ForumRevisionCreateManyEditorInput | Prisma.ForumRevisionCreateManyEditorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumRevisionUpsertWithWhereUniqueWithoutEditorInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutEditorInput, Prisma.ForumRevisionUncheckedUpdateWithoutEditorInput>
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutEditorInput, Prisma.ForumRevisionUncheckedCreateWithoutEditorInput>
+}
+
+export type ForumRevisionUpdateWithWhereUniqueWithoutEditorInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutEditorInput, Prisma.ForumRevisionUncheckedUpdateWithoutEditorInput>
+}
+
+export type ForumRevisionUpdateManyWithWhereWithoutEditorInput = {
+  where: Prisma.ForumRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateManyMutationInput, Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorInput>
+}
+
+export type ForumRevisionScalarWhereInput = {
+  AND?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+  OR?: Prisma.ForumRevisionScalarWhereInput[]
+  NOT?: Prisma.ForumRevisionScalarWhereInput | Prisma.ForumRevisionScalarWhereInput[]
+  id?: Prisma.IntFilter<"ForumRevision"> | number
+  topicId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  postId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  editorId?: Prisma.IntNullableFilter<"ForumRevision"> | number | null
+  title?: Prisma.StringNullableFilter<"ForumRevision"> | string | null
+  content?: Prisma.StringFilter<"ForumRevision"> | string
+  status?: Prisma.StringFilter<"ForumRevision"> | string
+  createdAt?: Prisma.DateTimeFilter<"ForumRevision"> | Date | string
+}
+
+export type ForumRevisionCreateWithoutTopicInput = {
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+  post?: Prisma.ForumPostCreateNestedOneWithoutRevisionsInput
+  editor?: Prisma.UserCreateNestedOneWithoutForumRevisionsInput
+}
+
+export type ForumRevisionUncheckedCreateWithoutTopicInput = {
+  id?: number
+  postId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionCreateOrConnectWithoutTopicInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput>
+}
+
+export type ForumRevisionCreateManyTopicInputEnvelope = {
+  data: Prisma.ForumRevisionCreateManyTopicInput | Prisma.ForumRevisionCreateManyTopicInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumRevisionUpsertWithWhereUniqueWithoutTopicInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutTopicInput, Prisma.ForumRevisionUncheckedUpdateWithoutTopicInput>
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutTopicInput, Prisma.ForumRevisionUncheckedCreateWithoutTopicInput>
+}
+
+export type ForumRevisionUpdateWithWhereUniqueWithoutTopicInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutTopicInput, Prisma.ForumRevisionUncheckedUpdateWithoutTopicInput>
+}
+
+export type ForumRevisionUpdateManyWithWhereWithoutTopicInput = {
+  where: Prisma.ForumRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateManyMutationInput, Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicInput>
+}
+
+export type ForumRevisionCreateWithoutPostInput = {
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutRevisionsInput
+  editor?: Prisma.UserCreateNestedOneWithoutForumRevisionsInput
+}
+
+export type ForumRevisionUncheckedCreateWithoutPostInput = {
+  id?: number
+  topicId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionCreateOrConnectWithoutPostInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput>
+}
+
+export type ForumRevisionCreateManyPostInputEnvelope = {
+  data: Prisma.ForumRevisionCreateManyPostInput | Prisma.ForumRevisionCreateManyPostInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumRevisionUpsertWithWhereUniqueWithoutPostInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutPostInput, Prisma.ForumRevisionUncheckedUpdateWithoutPostInput>
+  create: Prisma.XOR<Prisma.ForumRevisionCreateWithoutPostInput, Prisma.ForumRevisionUncheckedCreateWithoutPostInput>
+}
+
+export type ForumRevisionUpdateWithWhereUniqueWithoutPostInput = {
+  where: Prisma.ForumRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateWithoutPostInput, Prisma.ForumRevisionUncheckedUpdateWithoutPostInput>
+}
+
+export type ForumRevisionUpdateManyWithWhereWithoutPostInput = {
+  where: Prisma.ForumRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateManyMutationInput, Prisma.ForumRevisionUncheckedUpdateManyWithoutPostInput>
+}
+
+export type ForumRevisionCreateManyEditorInput = {
+  id?: number
+  topicId?: number | null
+  postId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionUpdateWithoutEditorInput = {
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topic?: Prisma.ForumTopicUpdateOneWithoutRevisionsNestedInput
+  post?: Prisma.ForumPostUpdateOneWithoutRevisionsNestedInput
+}
+
+export type ForumRevisionUncheckedUpdateWithoutEditorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutEditorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionCreateManyTopicInput = {
+  id?: number
+  postId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionUpdateWithoutTopicInput = {
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  post?: Prisma.ForumPostUpdateOneWithoutRevisionsNestedInput
+  editor?: Prisma.UserUpdateOneWithoutForumRevisionsNestedInput
+}
+
+export type ForumRevisionUncheckedUpdateWithoutTopicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutTopicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  postId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionCreateManyPostInput = {
+  id?: number
+  topicId?: number | null
+  editorId?: number | null
+  title?: string | null
+  content: string
+  status: string
+  createdAt?: Date | string
+}
+
+export type ForumRevisionUpdateWithoutPostInput = {
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topic?: Prisma.ForumTopicUpdateOneWithoutRevisionsNestedInput
+  editor?: Prisma.UserUpdateOneWithoutForumRevisionsNestedInput
+}
+
+export type ForumRevisionUncheckedUpdateWithoutPostInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumRevisionUncheckedUpdateManyWithoutPostInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  editorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ForumRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  topicId?: boolean
+  postId?: boolean
+  editorId?: boolean
+  title?: boolean
+  content?: boolean
+  status?: boolean
+  createdAt?: boolean
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}, ExtArgs["result"]["forumRevision"]>
+
+export type ForumRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  topicId?: boolean
+  postId?: boolean
+  editorId?: boolean
+  title?: boolean
+  content?: boolean
+  status?: boolean
+  createdAt?: boolean
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}, ExtArgs["result"]["forumRevision"]>
+
+export type ForumRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  topicId?: boolean
+  postId?: boolean
+  editorId?: boolean
+  title?: boolean
+  content?: boolean
+  status?: boolean
+  createdAt?: boolean
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}, ExtArgs["result"]["forumRevision"]>
+
+export type ForumRevisionSelectScalar = {
+  id?: boolean
+  topicId?: boolean
+  postId?: boolean
+  editorId?: boolean
+  title?: boolean
+  content?: boolean
+  status?: boolean
+  createdAt?: boolean
+}
+
+export type ForumRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "topicId" | "postId" | "editorId" | "title" | "content" | "status" | "createdAt", ExtArgs["result"]["forumRevision"]>
+export type ForumRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}
+export type ForumRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}
+export type ForumRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  topic?: boolean | Prisma.ForumRevision$topicArgs<ExtArgs>
+  post?: boolean | Prisma.ForumRevision$postArgs<ExtArgs>
+  editor?: boolean | Prisma.ForumRevision$editorArgs<ExtArgs>
+}
+
+export type $ForumRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ForumRevision"
+  objects: {
+    topic: Prisma.$ForumTopicPayload<ExtArgs> | null
+    post: Prisma.$ForumPostPayload<ExtArgs> | null
+    editor: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    topicId: number | null
+    postId: number | null
+    editorId: number | null
+    title: string | null
+    content: string
+    status: string
+    createdAt: Date
+  }, ExtArgs["result"]["forumRevision"]>
+  composites: {}
+}
+
+export type ForumRevisionGetPayload<S extends boolean | null | undefined | ForumRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload, S>
+
+export type ForumRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ForumRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ForumRevisionCountAggregateInputType | true
+  }
+
+export interface ForumRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ForumRevision'], meta: { name: 'ForumRevision' } }
+  /**
+   * Find zero or one ForumRevision that matches the filter.
+   * @param {ForumRevisionFindUniqueArgs} args - Arguments to find a ForumRevision
+   * @example
+   * // Get one ForumRevision
+   * const forumRevision = await prisma.forumRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ForumRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, ForumRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ForumRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ForumRevisionFindUniqueOrThrowArgs} args - Arguments to find a ForumRevision
+   * @example
+   * // Get one ForumRevision
+   * const forumRevision = await prisma.forumRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ForumRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ForumRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionFindFirstArgs} args - Arguments to find a ForumRevision
+   * @example
+   * // Get one ForumRevision
+   * const forumRevision = await prisma.forumRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ForumRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, ForumRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionFindFirstOrThrowArgs} args - Arguments to find a ForumRevision
+   * @example
+   * // Get one ForumRevision
+   * const forumRevision = await prisma.forumRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ForumRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ForumRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ForumRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ForumRevisions
+   * const forumRevisions = await prisma.forumRevision.findMany()
+   * 
+   * // Get first 10 ForumRevisions
+   * const forumRevisions = await prisma.forumRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const forumRevisionWithIdOnly = await prisma.forumRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ForumRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, ForumRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ForumRevision.
+   * @param {ForumRevisionCreateArgs} args - Arguments to create a ForumRevision.
+   * @example
+   * // Create one ForumRevision
+   * const ForumRevision = await prisma.forumRevision.create({
+   *   data: {
+   *     // ... data to create a ForumRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends ForumRevisionCreateArgs>(args: Prisma.SelectSubset<T, ForumRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ForumRevisions.
+   * @param {ForumRevisionCreateManyArgs} args - Arguments to create many ForumRevisions.
+   * @example
+   * // Create many ForumRevisions
+   * const forumRevision = await prisma.forumRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ForumRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, ForumRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ForumRevisions and returns the data saved in the database.
+   * @param {ForumRevisionCreateManyAndReturnArgs} args - Arguments to create many ForumRevisions.
+   * @example
+   * // Create many ForumRevisions
+   * const forumRevision = await prisma.forumRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ForumRevisions and only return the `id`
+   * const forumRevisionWithIdOnly = await prisma.forumRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ForumRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ForumRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ForumRevision.
+   * @param {ForumRevisionDeleteArgs} args - Arguments to delete one ForumRevision.
+   * @example
+   * // Delete one ForumRevision
+   * const ForumRevision = await prisma.forumRevision.delete({
+   *   where: {
+   *     // ... filter to delete one ForumRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ForumRevisionDeleteArgs>(args: Prisma.SelectSubset<T, ForumRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ForumRevision.
+   * @param {ForumRevisionUpdateArgs} args - Arguments to update one ForumRevision.
+   * @example
+   * // Update one ForumRevision
+   * const forumRevision = await prisma.forumRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ForumRevisionUpdateArgs>(args: Prisma.SelectSubset<T, ForumRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ForumRevisions.
+   * @param {ForumRevisionDeleteManyArgs} args - Arguments to filter ForumRevisions to delete.
+   * @example
+   * // Delete a few ForumRevisions
+   * const { count } = await prisma.forumRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ForumRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ForumRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ForumRevisions
+   * const forumRevision = await prisma.forumRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ForumRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, ForumRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumRevisions and returns the data updated in the database.
+   * @param {ForumRevisionUpdateManyAndReturnArgs} args - Arguments to update many ForumRevisions.
+   * @example
+   * // Update many ForumRevisions
+   * const forumRevision = await prisma.forumRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ForumRevisions and only return the `id`
+   * const forumRevisionWithIdOnly = await prisma.forumRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ForumRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ForumRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ForumRevision.
+   * @param {ForumRevisionUpsertArgs} args - Arguments to update or create a ForumRevision.
+   * @example
+   * // Update or create a ForumRevision
+   * const forumRevision = await prisma.forumRevision.upsert({
+   *   create: {
+   *     // ... data to create a ForumRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ForumRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ForumRevisionUpsertArgs>(args: Prisma.SelectSubset<T, ForumRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__ForumRevisionClient<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ForumRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionCountArgs} args - Arguments to filter ForumRevisions to count.
+   * @example
+   * // Count the number of ForumRevisions
+   * const count = await prisma.forumRevision.count({
+   *   where: {
+   *     // ... the filter for the ForumRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ForumRevisionCountArgs>(
+    args?: Prisma.Subset<T, ForumRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ForumRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ForumRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ForumRevisionAggregateArgs>(args: Prisma.Subset<T, ForumRevisionAggregateArgs>): Prisma.PrismaPromise<GetForumRevisionAggregateType<T>>
+
+  /**
+   * Group by ForumRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ForumRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ForumRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: ForumRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ForumRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetForumRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ForumRevision model
+ */
+readonly fields: ForumRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ForumRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ForumRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  topic<T extends Prisma.ForumRevision$topicArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumRevision$topicArgs<ExtArgs>>): Prisma.Prisma__ForumTopicClient<runtime.Types.Result.GetResult<Prisma.$ForumTopicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  post<T extends Prisma.ForumRevision$postArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumRevision$postArgs<ExtArgs>>): Prisma.Prisma__ForumPostClient<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  editor<T extends Prisma.ForumRevision$editorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumRevision$editorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ForumRevision model
+ */
+export interface ForumRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"ForumRevision", 'Int'>
+  readonly topicId: Prisma.FieldRef<"ForumRevision", 'Int'>
+  readonly postId: Prisma.FieldRef<"ForumRevision", 'Int'>
+  readonly editorId: Prisma.FieldRef<"ForumRevision", 'Int'>
+  readonly title: Prisma.FieldRef<"ForumRevision", 'String'>
+  readonly content: Prisma.FieldRef<"ForumRevision", 'String'>
+  readonly status: Prisma.FieldRef<"ForumRevision", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ForumRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ForumRevision findUnique
+ */
+export type ForumRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumRevision to fetch.
+   */
+  where: Prisma.ForumRevisionWhereUniqueInput
+}
+
+/**
+ * ForumRevision findUniqueOrThrow
+ */
+export type ForumRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumRevision to fetch.
+   */
+  where: Prisma.ForumRevisionWhereUniqueInput
+}
+
+/**
+ * ForumRevision findFirst
+ */
+export type ForumRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumRevision to fetch.
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumRevisions to fetch.
+   */
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumRevisions.
+   */
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumRevisions.
+   */
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
+/**
+ * ForumRevision findFirstOrThrow
+ */
+export type ForumRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumRevision to fetch.
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumRevisions to fetch.
+   */
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumRevisions.
+   */
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumRevisions.
+   */
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
+/**
+ * ForumRevision findMany
+ */
+export type ForumRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumRevisions to fetch.
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumRevisions to fetch.
+   */
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ForumRevisions.
+   */
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
+/**
+ * ForumRevision create
+ */
+export type ForumRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ForumRevision.
+   */
+  data: Prisma.XOR<Prisma.ForumRevisionCreateInput, Prisma.ForumRevisionUncheckedCreateInput>
+}
+
+/**
+ * ForumRevision createMany
+ */
+export type ForumRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ForumRevisions.
+   */
+  data: Prisma.ForumRevisionCreateManyInput | Prisma.ForumRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ForumRevision createManyAndReturn
+ */
+export type ForumRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ForumRevisions.
+   */
+  data: Prisma.ForumRevisionCreateManyInput | Prisma.ForumRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumRevision update
+ */
+export type ForumRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ForumRevision.
+   */
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateInput, Prisma.ForumRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which ForumRevision to update.
+   */
+  where: Prisma.ForumRevisionWhereUniqueInput
+}
+
+/**
+ * ForumRevision updateMany
+ */
+export type ForumRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ForumRevisions.
+   */
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateManyMutationInput, Prisma.ForumRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumRevisions to update
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * Limit how many ForumRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ForumRevision updateManyAndReturn
+ */
+export type ForumRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update ForumRevisions.
+   */
+  data: Prisma.XOR<Prisma.ForumRevisionUpdateManyMutationInput, Prisma.ForumRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumRevisions to update
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * Limit how many ForumRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumRevision upsert
+ */
+export type ForumRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ForumRevision to update in case it exists.
+   */
+  where: Prisma.ForumRevisionWhereUniqueInput
+  /**
+   * In case the ForumRevision found by the `where` argument doesn't exist, create a new ForumRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.ForumRevisionCreateInput, Prisma.ForumRevisionUncheckedCreateInput>
+  /**
+   * In case the ForumRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ForumRevisionUpdateInput, Prisma.ForumRevisionUncheckedUpdateInput>
+}
+
+/**
+ * ForumRevision delete
+ */
+export type ForumRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which ForumRevision to delete.
+   */
+  where: Prisma.ForumRevisionWhereUniqueInput
+}
+
+/**
+ * ForumRevision deleteMany
+ */
+export type ForumRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumRevisions to delete
+   */
+  where?: Prisma.ForumRevisionWhereInput
+  /**
+   * Limit how many ForumRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ForumRevision.topic
+ */
+export type ForumRevision$topicArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumTopic
+   */
+  select?: Prisma.ForumTopicSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumTopic
+   */
+  omit?: Prisma.ForumTopicOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumTopicInclude<ExtArgs> | null
+  where?: Prisma.ForumTopicWhereInput
+}
+
+/**
+ * ForumRevision.post
+ */
+export type ForumRevision$postArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPost
+   */
+  select?: Prisma.ForumPostSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPost
+   */
+  omit?: Prisma.ForumPostOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostInclude<ExtArgs> | null
+  where?: Prisma.ForumPostWhereInput
+}
+
+/**
+ * ForumRevision.editor
+ */
+export type ForumRevision$editorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * ForumRevision without action
+ */
+export type ForumRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+}
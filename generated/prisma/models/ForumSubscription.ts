@@ -0,0 +1,1682 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ForumSubscription` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ForumSubscription
+ * 
+ */
+export type ForumSubscriptionModel = runtime.Types.Result.DefaultSelection<Prisma.$ForumSubscriptionPayload>
+
+export type AggregateForumSubscription = {
+  _count: ForumSubscriptionCountAggregateOutputType | null
+  _avg: ForumSubscriptionAvgAggregateOutputType | null
+  _sum: ForumSubscriptionSumAggregateOutputType | null
+  _min: ForumSubscriptionMinAggregateOutputType | null
+  _max: ForumSubscriptionMaxAggregateOutputType | null
+}
+
+export type ForumSubscriptionAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  topicId: number | null
+  categoryId: number | null
+}
+
+export type ForumSubscriptionSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  topicId: number | null
+  categoryId: number | null
+}
+
+export type ForumSubscriptionMinAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  topicId: number | null
+  categoryId: number | null
+  createdAt: Date | null
+}
+
+export type ForumSubscriptionMaxAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  topicId: number | null
+  categoryId: number | null
+  createdAt: Date | null
+}
+
+export type ForumSubscriptionCountAggregateOutputType = {
+  id: number
+  userId: number
+  topicId: number
+  categoryId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ForumSubscriptionAvgAggregateInputType = {
+  id?: true
+  userId?: true
+  topicId?: true
+  categoryId?: true
+}
+
+export type ForumSubscriptionSumAggregateInputType = {
+  id?: true
+  userId?: true
+  topicId?: true
+  categoryId?: true
+}
+
+export type ForumSubscriptionMinAggregateInputType = {
+  id?: true
+  userId?: true
+  topicId?: true
+  categoryId?: true
+  createdAt?: true
+}
+
+export type ForumSubscriptionMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  topicId?: true
+  categoryId?: true
+  createdAt?: true
+}
+
+export type ForumSubscriptionCountAggregateInputType = {
+  id?: true
+  userId?: true
+  topicId?: true
+  categoryId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ForumSubscriptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumSubscription to aggregate.
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumSubscriptions to fetch.
+   */
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumSubscriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumSubscriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ForumSubscriptions
+  **/
+  _count?: true | ForumSubscriptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ForumSubscriptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ForumSubscriptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ForumSubscriptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ForumSubscriptionMaxAggregateInputType
+}
+
+export type GetForumSubscriptionAggregateType<T extends ForumSubscriptionAggregateArgs> = {
+      [P in keyof T & keyof AggregateForumSubscription]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateForumSubscription[P]>
+    : Prisma.GetScalarType<T[P], AggregateForumSubscription[P]>
+}
+
+
+
+
+export type ForumSubscriptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumSubscriptionWhereInput
+  orderBy?: Prisma.ForumSubscriptionOrderByWithAggregationInput | Prisma.ForumSubscriptionOrderByWithAggregationInput[]
+  by: Prisma.ForumSubscriptionScalarFieldEnum[] | Prisma.ForumSubscriptionScalarFieldEnum
+  having?: Prisma.ForumSubscriptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ForumSubscriptionCountAggregateInputType | true
+  _avg?: ForumSubscriptionAvgAggregateInputType
+  _sum?: ForumSubscriptionSumAggregateInputType
+  _min?: ForumSubscriptionMinAggregateInputType
+  _max?: ForumSubscriptionMaxAggregateInputType
+}
+
+export type ForumSubscriptionGroupByOutputType = {
+  id: number
+  userId: number
+  topicId: number | null
+  categoryId: number | null
+  createdAt: Date
+  _count: ForumSubscriptionCountAggregateOutputType | null
+  _avg: ForumSubscriptionAvgAggregateOutputType | null
+  _sum: ForumSubscriptionSumAggregateOutputType | null
+  _min: ForumSubscriptionMinAggregateOutputType | null
+  _max: ForumSubscriptionMaxAggregateOutputType | null
+}
+
+type GetForumSubscriptionGroupByPayload<T extends ForumSubscriptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ForumSubscriptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ForumSubscriptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ForumSubscriptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ForumSubscriptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ForumSubscriptionWhereInput = {
+  AND?: Prisma.ForumSubscriptionWhereInput | Prisma.ForumSubscriptionWhereInput[]
+  OR?: Prisma.ForumSubscriptionWhereInput[]
+  NOT?: Prisma.ForumSubscriptionWhereInput | Prisma.ForumSubscriptionWhereInput[]
+  id?: Prisma.IntFilter<"ForumSubscription"> | number
+  userId?: Prisma.IntFilter<"ForumSubscription"> | number
+  topicId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  categoryId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"ForumSubscription"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  topic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  category?: Prisma.XOR<Prisma.ForumCategoryNullableScalarRelationFilter, Prisma.ForumCategoryWhereInput> | null
+}
+
+export type ForumSubscriptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  topic?: Prisma.ForumTopicOrderByWithRelationInput
+  category?: Prisma.ForumCategoryOrderByWithRelationInput
+}
+
+export type ForumSubscriptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  userId_topicId?: Prisma.ForumSubscriptionUserIdTopicIdCompoundUniqueInput
+  userId_categoryId?: Prisma.ForumSubscriptionUserIdCategoryIdCompoundUniqueInput
+  AND?: Prisma.ForumSubscriptionWhereInput | Prisma.ForumSubscriptionWhereInput[]
+  OR?: Prisma.ForumSubscriptionWhereInput[]
+  NOT?: Prisma.ForumSubscriptionWhereInput | Prisma.ForumSubscriptionWhereInput[]
+  userId?: Prisma.IntFilter<"ForumSubscription"> | number
+  topicId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  categoryId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"ForumSubscription"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  topic?: Prisma.XOR<Prisma.ForumTopicNullableScalarRelationFilter, Prisma.ForumTopicWhereInput> | null
+  category?: Prisma.XOR<Prisma.ForumCategoryNullableScalarRelationFilter, Prisma.ForumCategoryWhereInput> | null
+}, "id" | "userId_topicId" | "userId_categoryId">
+
+export type ForumSubscriptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ForumSubscriptionCountOrderByAggregateInput
+  _avg?: Prisma.ForumSubscriptionAvgOrderByAggregateInput
+  _max?: Prisma.ForumSubscriptionMaxOrderByAggregateInput
+  _min?: Prisma.ForumSubscriptionMinOrderByAggregateInput
+  _sum?: Prisma.ForumSubscriptionSumOrderByAggregateInput
+}
+
+export type ForumSubscriptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ForumSubscriptionScalarWhereWithAggregatesInput | Prisma.ForumSubscriptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ForumSubscriptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ForumSubscriptionScalarWhereWithAggregatesInput | Prisma.ForumSubscriptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ForumSubscription"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"ForumSubscription"> | number
+  topicId?: Prisma.IntNullableWithAggregatesFilter<"ForumSubscription"> | number | null
+  categoryId?: Prisma.IntNullableWithAggregatesFilter<"ForumSubscription"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumSubscription"> | Date | string
+}
+
+export type ForumSubscriptionCreateInput = {
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumSubscriptionsInput
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutSubscriptionsInput
+  category?: Prisma.ForumCategoryCreateNestedOneWithoutSubscriptionsInput
+}
+
+export type ForumSubscriptionUncheckedCreateInput = {
+  id?: number
+  userId: number
+  topicId?: number | null
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumSubscriptionsNestedInput
+  topic?: Prisma.ForumTopicUpdateOneWithoutSubscriptionsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneWithoutSubscriptionsNestedInput
+}
+
+export type ForumSubscriptionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionCreateManyInput = {
+  id?: number
+  userId: number
+  topicId?: number | null
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionListRelationFilter = {
+  every?: Prisma.ForumSubscriptionWhereInput
+  some?: Prisma.ForumSubscriptionWhereInput
+  none?: Prisma.ForumSubscriptionWhereInput
+}
+
+export type ForumSubscriptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionUserIdTopicIdCompoundUniqueInput = {
+  userId: number
+  topicId: number
+}
+
+export type ForumSubscriptionUserIdCategoryIdCompoundUniqueInput = {
+  userId: number
+  categoryId: number
+}
+
+export type ForumSubscriptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  topicId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+}
+
+export type ForumSubscriptionCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput> | Prisma.ForumSubscriptionCreateWithoutUserInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput | Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyUserInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput> | Prisma.ForumSubscriptionCreateWithoutUserInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput | Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyUserInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput> | Prisma.ForumSubscriptionCreateWithoutUserInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput | Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyUserInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutUserInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput> | Prisma.ForumSubscriptionCreateWithoutUserInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput | Prisma.ForumSubscriptionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutUserInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyUserInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutUserInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutUserInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput> | Prisma.ForumSubscriptionCreateWithoutCategoryInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput | Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyCategoryInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUncheckedCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput> | Prisma.ForumSubscriptionCreateWithoutCategoryInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput | Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyCategoryInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput> | Prisma.ForumSubscriptionCreateWithoutCategoryInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput | Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutCategoryInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyCategoryInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutCategoryInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutCategoryInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput> | Prisma.ForumSubscriptionCreateWithoutCategoryInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput | Prisma.ForumSubscriptionCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutCategoryInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyCategoryInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutCategoryInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutCategoryInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionCreateNestedManyWithoutTopicInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput> | Prisma.ForumSubscriptionCreateWithoutTopicInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput | Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyTopicInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput> | Prisma.ForumSubscriptionCreateWithoutTopicInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput | Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyTopicInputEnvelope
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+}
+
+export type ForumSubscriptionUpdateManyWithoutTopicNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput> | Prisma.ForumSubscriptionCreateWithoutTopicInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput | Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutTopicInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutTopicInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyTopicInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutTopicInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutTopicInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutTopicInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutTopicInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput> | Prisma.ForumSubscriptionCreateWithoutTopicInput[] | Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput[]
+  connectOrCreate?: Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput | Prisma.ForumSubscriptionCreateOrConnectWithoutTopicInput[]
+  upsert?: Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutTopicInput | Prisma.ForumSubscriptionUpsertWithWhereUniqueWithoutTopicInput[]
+  createMany?: Prisma.ForumSubscriptionCreateManyTopicInputEnvelope
+  set?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  disconnect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  delete?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  connect?: Prisma.ForumSubscriptionWhereUniqueInput | Prisma.ForumSubscriptionWhereUniqueInput[]
+  update?: Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutTopicInput | Prisma.ForumSubscriptionUpdateWithWhereUniqueWithoutTopicInput[]
+  updateMany?: Prisma.ForumSubscriptionUpdateManyWithWhereWithoutTopicInput | Prisma.ForumSubscriptionUpdateManyWithWhereWithoutTopicInput[]
+  deleteMany?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+}
+
+export type ForumSubscriptionCreateWithoutUserInput = {
+  createdAt?: Date | string
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutSubscriptionsInput
+  category?: Prisma.ForumCategoryCreateNestedOneWithoutSubscriptionsInput
+}
+
+export type ForumSubscriptionUncheckedCreateWithoutUserInput = {
+  id?: number
+  topicId?: number | null
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionCreateOrConnectWithoutUserInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput>
+}
+
+export type ForumSubscriptionCreateManyUserInputEnvelope = {
+  data: Prisma.ForumSubscriptionCreateManyUserInput | Prisma.ForumSubscriptionCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumSubscriptionUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutUserInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutUserInput, Prisma.ForumSubscriptionUncheckedCreateWithoutUserInput>
+}
+
+export type ForumSubscriptionUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutUserInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutUserInput>
+}
+
+export type ForumSubscriptionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ForumSubscriptionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateManyMutationInput, Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ForumSubscriptionScalarWhereInput = {
+  AND?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+  OR?: Prisma.ForumSubscriptionScalarWhereInput[]
+  NOT?: Prisma.ForumSubscriptionScalarWhereInput | Prisma.ForumSubscriptionScalarWhereInput[]
+  id?: Prisma.IntFilter<"ForumSubscription"> | number
+  userId?: Prisma.IntFilter<"ForumSubscription"> | number
+  topicId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  categoryId?: Prisma.IntNullableFilter<"ForumSubscription"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"ForumSubscription"> | Date | string
+}
+
+export type ForumSubscriptionCreateWithoutCategoryInput = {
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumSubscriptionsInput
+  topic?: Prisma.ForumTopicCreateNestedOneWithoutSubscriptionsInput
+}
+
+export type ForumSubscriptionUncheckedCreateWithoutCategoryInput = {
+  id?: number
+  userId: number
+  topicId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput>
+}
+
+export type ForumSubscriptionCreateManyCategoryInputEnvelope = {
+  data: Prisma.ForumSubscriptionCreateManyCategoryInput | Prisma.ForumSubscriptionCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumSubscriptionUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedCreateWithoutCategoryInput>
+}
+
+export type ForumSubscriptionUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutCategoryInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutCategoryInput>
+}
+
+export type ForumSubscriptionUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.ForumSubscriptionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateManyMutationInput, Prisma.ForumSubscriptionUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type ForumSubscriptionCreateWithoutTopicInput = {
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutForumSubscriptionsInput
+  category?: Prisma.ForumCategoryCreateNestedOneWithoutSubscriptionsInput
+}
+
+export type ForumSubscriptionUncheckedCreateWithoutTopicInput = {
+  id?: number
+  userId: number
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionCreateOrConnectWithoutTopicInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput>
+}
+
+export type ForumSubscriptionCreateManyTopicInputEnvelope = {
+  data: Prisma.ForumSubscriptionCreateManyTopicInput | Prisma.ForumSubscriptionCreateManyTopicInput[]
+  skipDuplicates?: boolean
+}
+
+export type ForumSubscriptionUpsertWithWhereUniqueWithoutTopicInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutTopicInput>
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedCreateWithoutTopicInput>
+}
+
+export type ForumSubscriptionUpdateWithWhereUniqueWithoutTopicInput = {
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateWithoutTopicInput, Prisma.ForumSubscriptionUncheckedUpdateWithoutTopicInput>
+}
+
+export type ForumSubscriptionUpdateManyWithWhereWithoutTopicInput = {
+  where: Prisma.ForumSubscriptionScalarWhereInput
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateManyMutationInput, Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicInput>
+}
+
+export type ForumSubscriptionCreateManyUserInput = {
+  id?: number
+  topicId?: number | null
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionUpdateWithoutUserInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  topic?: Prisma.ForumTopicUpdateOneWithoutSubscriptionsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneWithoutSubscriptionsNestedInput
+}
+
+export type ForumSubscriptionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionCreateManyCategoryInput = {
+  id?: number
+  userId: number
+  topicId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionUpdateWithoutCategoryInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumSubscriptionsNestedInput
+  topic?: Prisma.ForumTopicUpdateOneWithoutSubscriptionsNestedInput
+}
+
+export type ForumSubscriptionUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutCategoryInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  topicId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionCreateManyTopicInput = {
+  id?: number
+  userId: number
+  categoryId?: number | null
+  createdAt?: Date | string
+}
+
+export type ForumSubscriptionUpdateWithoutTopicInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutForumSubscriptionsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneWithoutSubscriptionsNestedInput
+}
+
+export type ForumSubscriptionUncheckedUpdateWithoutTopicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ForumSubscriptionUncheckedUpdateManyWithoutTopicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ForumSubscriptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  topicId?: boolean
+  categoryId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["forumSubscription"]>
+
+export type ForumSubscriptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  topicId?: boolean
+  categoryId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["forumSubscription"]>
+
+export type ForumSubscriptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  topicId?: boolean
+  categoryId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["forumSubscription"]>
+
+export type ForumSubscriptionSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  topicId?: boolean
+  categoryId?: boolean
+  createdAt?: boolean
+}
+
+export type ForumSubscriptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "topicId" | "categoryId" | "createdAt", ExtArgs["result"]["forumSubscription"]>
+export type ForumSubscriptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}
+export type ForumSubscriptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}
+export type ForumSubscriptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  topic?: boolean | Prisma.ForumSubscription$topicArgs<ExtArgs>
+  category?: boolean | Prisma.ForumSubscription$categoryArgs<ExtArgs>
+}
+
+export type $ForumSubscriptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ForumSubscription"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    topic: Prisma.$ForumTopicPayload<ExtArgs> | null
+    category: Prisma.$ForumCategoryPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    userId: number
+    topicId: number | null
+    categoryId: number | null
+    createdAt: Date
+  }, ExtArgs["result"]["forumSubscription"]>
+  composites: {}
+}
+
+export type ForumSubscriptionGetPayload<S extends boolean | null | undefined | ForumSubscriptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload, S>
+
+export type ForumSubscriptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ForumSubscriptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ForumSubscriptionCountAggregateInputType | true
+  }
+
+export interface ForumSubscriptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ForumSubscription'], meta: { name: 'ForumSubscription' } }
+  /**
+   * Find zero or one ForumSubscription that matches the filter.
+   * @param {ForumSubscriptionFindUniqueArgs} args - Arguments to find a ForumSubscription
+   * @example
+   * // Get one ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ForumSubscriptionFindUniqueArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ForumSubscription that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ForumSubscriptionFindUniqueOrThrowArgs} args - Arguments to find a ForumSubscription
+   * @example
+   * // Get one ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ForumSubscriptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumSubscription that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionFindFirstArgs} args - Arguments to find a ForumSubscription
+   * @example
+   * // Get one ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ForumSubscriptionFindFirstArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ForumSubscription that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionFindFirstOrThrowArgs} args - Arguments to find a ForumSubscription
+   * @example
+   * // Get one ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ForumSubscriptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ForumSubscriptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ForumSubscriptions
+   * const forumSubscriptions = await prisma.forumSubscription.findMany()
+   * 
+   * // Get first 10 ForumSubscriptions
+   * const forumSubscriptions = await prisma.forumSubscription.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const forumSubscriptionWithIdOnly = await prisma.forumSubscription.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ForumSubscriptionFindManyArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ForumSubscription.
+   * @param {ForumSubscriptionCreateArgs} args - Arguments to create a ForumSubscription.
+   * @example
+   * // Create one ForumSubscription
+   * const ForumSubscription = await prisma.forumSubscription.create({
+   *   data: {
+   *     // ... data to create a ForumSubscription
+   *   }
+   * })
+   * 
+   */
+  create<T extends ForumSubscriptionCreateArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionCreateArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ForumSubscriptions.
+   * @param {ForumSubscriptionCreateManyArgs} args - Arguments to create many ForumSubscriptions.
+   * @example
+   * // Create many ForumSubscriptions
+   * const forumSubscription = await prisma.forumSubscription.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ForumSubscriptionCreateManyArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ForumSubscriptions and returns the data saved in the database.
+   * @param {ForumSubscriptionCreateManyAndReturnArgs} args - Arguments to create many ForumSubscriptions.
+   * @example
+   * // Create many ForumSubscriptions
+   * const forumSubscription = await prisma.forumSubscription.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ForumSubscriptions and only return the `id`
+   * const forumSubscriptionWithIdOnly = await prisma.forumSubscription.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ForumSubscriptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ForumSubscription.
+   * @param {ForumSubscriptionDeleteArgs} args - Arguments to delete one ForumSubscription.
+   * @example
+   * // Delete one ForumSubscription
+   * const ForumSubscription = await prisma.forumSubscription.delete({
+   *   where: {
+   *     // ... filter to delete one ForumSubscription
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ForumSubscriptionDeleteArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionDeleteArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ForumSubscription.
+   * @param {ForumSubscriptionUpdateArgs} args - Arguments to update one ForumSubscription.
+   * @example
+   * // Update one ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ForumSubscriptionUpdateArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionUpdateArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ForumSubscriptions.
+   * @param {ForumSubscriptionDeleteManyArgs} args - Arguments to filter ForumSubscriptions to delete.
+   * @example
+   * // Delete a few ForumSubscriptions
+   * const { count } = await prisma.forumSubscription.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ForumSubscriptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ForumSubscriptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumSubscriptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ForumSubscriptions
+   * const forumSubscription = await prisma.forumSubscription.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ForumSubscriptionUpdateManyArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ForumSubscriptions and returns the data updated in the database.
+   * @param {ForumSubscriptionUpdateManyAndReturnArgs} args - Arguments to update many ForumSubscriptions.
+   * @example
+   * // Update many ForumSubscriptions
+   * const forumSubscription = await prisma.forumSubscription.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ForumSubscriptions and only return the `id`
+   * const forumSubscriptionWithIdOnly = await prisma.forumSubscription.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ForumSubscriptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ForumSubscription.
+   * @param {ForumSubscriptionUpsertArgs} args - Arguments to update or create a ForumSubscription.
+   * @example
+   * // Update or create a ForumSubscription
+   * const forumSubscription = await prisma.forumSubscription.upsert({
+   *   create: {
+   *     // ... data to create a ForumSubscription
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ForumSubscription we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ForumSubscriptionUpsertArgs>(args: Prisma.SelectSubset<T, ForumSubscriptionUpsertArgs<ExtArgs>>): Prisma.Prisma__ForumSubscriptionClient<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ForumSubscriptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionCountArgs} args - Arguments to filter ForumSubscriptions to count.
+   * @example
+   * // Count the number of ForumSubscriptions
+   * const count = await prisma.forumSubscription.count({
+   *   where: {
+   *     // ... the filter for the ForumSubscriptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ForumSubscriptionCountArgs>(
+    args?: Prisma.Subset<T, ForumSubscriptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ForumSubscriptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ForumSubscription.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ForumSubscriptionAggregateArgs>(args: Prisma.Subset<T, ForumSubscriptionAggregateArgs>): Prisma.PrismaPromise<GetForumSubscriptionAggregateType<T>>
+
+  /**
+   * Group by ForumSubscription.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ForumSubscriptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ForumSubscriptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ForumSubscriptionGroupByArgs['orderBy'] }
+      : { orderBy?: ForumSubscriptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ForumSubscriptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetForumSubscriptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ForumSubscription model
+ */
+readonly fields: ForumSubscriptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ForumSubscription.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ForumSubscriptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  topic<T extends Prisma.ForumSubscription$topicArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumSubscription$topicArgs<ExtArgs>>): Prisma.Prisma__ForumTopicClient<runtime.Types.Result.GetResult<Prisma.$ForumTopicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  category<T extends Prisma.ForumSubscription$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumSubscription$categoryArgs<ExtArgs>>): Prisma.Prisma__ForumCategoryClient<runtime.Types.Result.GetResult<Prisma.$ForumCategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ForumSubscription model
+ */
+export interface ForumSubscriptionFieldRefs {
+  readonly id: Prisma.FieldRef<"ForumSubscription", 'Int'>
+  readonly userId: Prisma.FieldRef<"ForumSubscription", 'Int'>
+  readonly topicId: Prisma.FieldRef<"ForumSubscription", 'Int'>
+  readonly categoryId: Prisma.FieldRef<"ForumSubscription", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ForumSubscription", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ForumSubscription findUnique
+ */
+export type ForumSubscriptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumSubscription to fetch.
+   */
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+}
+
+/**
+ * ForumSubscription findUniqueOrThrow
+ */
+export type ForumSubscriptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumSubscription to fetch.
+   */
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+}
+
+/**
+ * ForumSubscription findFirst
+ */
+export type ForumSubscriptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumSubscription to fetch.
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumSubscriptions to fetch.
+   */
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumSubscriptions.
+   */
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumSubscriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumSubscriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumSubscriptions.
+   */
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
+/**
+ * ForumSubscription findFirstOrThrow
+ */
+export type ForumSubscriptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumSubscription to fetch.
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumSubscriptions to fetch.
+   */
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ForumSubscriptions.
+   */
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumSubscriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumSubscriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ForumSubscriptions.
+   */
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
+/**
+ * ForumSubscription findMany
+ */
+export type ForumSubscriptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ForumSubscriptions to fetch.
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ForumSubscriptions to fetch.
+   */
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ForumSubscriptions.
+   */
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ForumSubscriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ForumSubscriptions.
+   */
+  skip?: number
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
+/**
+ * ForumSubscription create
+ */
+export type ForumSubscriptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ForumSubscription.
+   */
+  data: Prisma.XOR<Prisma.ForumSubscriptionCreateInput, Prisma.ForumSubscriptionUncheckedCreateInput>
+}
+
+/**
+ * ForumSubscription createMany
+ */
+export type ForumSubscriptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ForumSubscriptions.
+   */
+  data: Prisma.ForumSubscriptionCreateManyInput | Prisma.ForumSubscriptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ForumSubscription createManyAndReturn
+ */
+export type ForumSubscriptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ForumSubscriptions.
+   */
+  data: Prisma.ForumSubscriptionCreateManyInput | Prisma.ForumSubscriptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumSubscription update
+ */
+export type ForumSubscriptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ForumSubscription.
+   */
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateInput, Prisma.ForumSubscriptionUncheckedUpdateInput>
+  /**
+   * Choose, which ForumSubscription to update.
+   */
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+}
+
+/**
+ * ForumSubscription updateMany
+ */
+export type ForumSubscriptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ForumSubscriptions.
+   */
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateManyMutationInput, Prisma.ForumSubscriptionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumSubscriptions to update
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * Limit how many ForumSubscriptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ForumSubscription updateManyAndReturn
+ */
+export type ForumSubscriptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * The data used to update ForumSubscriptions.
+   */
+  data: Prisma.XOR<Prisma.ForumSubscriptionUpdateManyMutationInput, Prisma.ForumSubscriptionUncheckedUpdateManyInput>
+  /**
+   * Filter which ForumSubscriptions to update
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * Limit how many ForumSubscriptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ForumSubscription upsert
+ */
+export type ForumSubscriptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ForumSubscription to update in case it exists.
+   */
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+  /**
+   * In case the ForumSubscription found by the `where` argument doesn't exist, create a new ForumSubscription with this data.
+   */
+  create: Prisma.XOR<Prisma.ForumSubscriptionCreateInput, Prisma.ForumSubscriptionUncheckedCreateInput>
+  /**
+   * In case the ForumSubscription was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ForumSubscriptionUpdateInput, Prisma.ForumSubscriptionUncheckedUpdateInput>
+}
+
+/**
+ * ForumSubscription delete
+ */
+export type ForumSubscriptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  /**
+   * Filter which ForumSubscription to delete.
+   */
+  where: Prisma.ForumSubscriptionWhereUniqueInput
+}
+
+/**
+ * ForumSubscription deleteMany
+ */
+export type ForumSubscriptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ForumSubscriptions to delete
+   */
+  where?: Prisma.ForumSubscriptionWhereInput
+  /**
+   * Limit how many ForumSubscriptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ForumSubscription.topic
+ */
+export type ForumSubscription$topicArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumTopic
+   */
+  select?: Prisma.ForumTopicSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumTopic
+   */
+  omit?: Prisma.ForumTopicOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumTopicInclude<ExtArgs> | null
+  where?: Prisma.ForumTopicWhereInput
+}
+
+/**
+ * ForumSubscription.category
+ */
+export type ForumSubscription$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumCategory
+   */
+  select?: Prisma.ForumCategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumCategory
+   */
+  omit?: Prisma.ForumCategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumCategoryInclude<ExtArgs> | null
+  where?: Prisma.ForumCategoryWhereInput
+}
+
+/**
+ * ForumSubscription without action
+ */
+export type ForumSubscriptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+}
@@ -31,6 +31,8 @@ export type ForumTopicAvgAggregateOutputType = {
   trashedById: number | null
   categoryId: number | null
   authorId: number | null
+  acceptedPostId: number | null
+  revisionCount: number | null
 }
 
 export type ForumTopicSumAggregateOutputType = {
@@ -39,6 +41,8 @@ export type ForumTopicSumAggregateOutputType = {
   trashedById: number | null
   categoryId: number | null
   authorId: number | null
+  acceptedPostId: number | null
+  revisionCount: number | null
 }
 
 export type ForumTopicMinAggregateOutputType = {
@@ -56,6 +60,9 @@ export type ForumTopicMinAggregateOutputType = {
   trashReason: string | null
   categoryId: number | null
   authorId: number | null
+  acceptedPostId: number | null
+  revisionCount: number | null
+  editedAt: Date | null
   lastActivityAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -76,6 +83,9 @@ export type ForumTopicMaxAggregateOutputType = {
   trashReason: string | null
   categoryId: number | null
   authorId: number | null
+  acceptedPostId: number | null
+  revisionCount: number | null
+  editedAt: Date | null
   lastActivityAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -96,6 +106,9 @@ export type ForumTopicCountAggregateOutputType = {
   trashReason: number
   categoryId: number
   authorId: number
+  acceptedPostId: number
+  revisionCount: number
+  editedAt: number
   lastActivityAt: number
   createdAt: number
   updatedAt: number
@@ -109,6 +122,8 @@ export type ForumTopicAvgAggregateInputType = {
   trashedById?: true
   categoryId?: true
   authorId?: true
+  acceptedPostId?: true
+  revisionCount?: true
 }
 
 export type ForumTopicSumAggregateInputType = {
@@ -117,6 +132,8 @@ export type ForumTopicSumAggregateInputType = {
   trashedById?: true
   categoryId?: true
   authorId?: true
+  acceptedPostId?: true
+  revisionCount?: true
 }
 
 export type ForumTopicMinAggregateInputType = {
@@ -134,6 +151,9 @@ export type ForumTopicMinAggregateInputType = {
   trashReason?: true
   categoryId?: true
   authorId?: true
+  acceptedPostId?: true
+  revisionCount?: true
+  editedAt?: true
   lastActivityAt?: true
   createdAt?: true
   updatedAt?: true
@@ -154,6 +174,9 @@ export type ForumTopicMaxAggregateInputType = {
   trashReason?: true
   categoryId?: true
   authorId?: true
+  acceptedPostId?: true
+  revisionCount?: true
+  editedAt?: true
   lastActivityAt?: true
   createdAt?: true
   updatedAt?: true
@@ -174,6 +197,9 @@ export type ForumTopicCountAggregateInputType = {
   trashReason?: true
   categoryId?: true
   authorId?: true
+  acceptedPostId?: true
+  revisionCount?: true
+  editedAt?: true
   lastActivityAt?: true
   createdAt?: true
   updatedAt?: true
@@ -281,6 +307,9 @@ export type ForumTopicGroupByOutputType = {
   trashReason: string | null
   categoryId: number
   authorId: number
+  acceptedPostId: number | null
+  revisionCount: number
+  editedAt: Date | null
   lastActivityAt: Date
   createdAt: Date
   updatedAt: Date
@@ -324,13 +353,19 @@ export type ForumTopicWhereInput = {
   trashReason?: Prisma.StringNullableFilter<"ForumTopic"> | string | null
   categoryId?: Prisma.IntFilter<"ForumTopic"> | number
   authorId?: Prisma.IntFilter<"ForumTopic"> | number
+  acceptedPostId?: Prisma.IntNullableFilter<"ForumTopic"> | number | null
+  revisionCount?: Prisma.IntFilter<"ForumTopic"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumTopic"> | Date | string | null
   lastActivityAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   createdAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   author?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   category?: Prisma.XOR<Prisma.ForumCategoryScalarRelationFilter, Prisma.ForumCategoryWhereInput>
   posts?: Prisma.ForumPostListRelationFilter
+  acceptedPost?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
   readStates?: Prisma.ForumTopicReadStateListRelationFilter
+  subscriptions?: Prisma.ForumSubscriptionListRelationFilter
+  revisions?: Prisma.ForumRevisionListRelationFilter
 }
 
 export type ForumTopicOrderByWithRelationInput = {
@@ -348,18 +383,25 @@ export type ForumTopicOrderByWithRelationInput = {
   trashReason?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrderInput | Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   lastActivityAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   author?: Prisma.UserOrderByWithRelationInput
   category?: Prisma.ForumCategoryOrderByWithRelationInput
   posts?: Prisma.ForumPostOrderByRelationAggregateInput
+  acceptedPost?: Prisma.ForumPostOrderByWithRelationInput
   readStates?: Prisma.ForumTopicReadStateOrderByRelationAggregateInput
+  subscriptions?: Prisma.ForumSubscriptionOrderByRelationAggregateInput
+  revisions?: Prisma.ForumRevisionOrderByRelationAggregateInput
 }
 
 export type ForumTopicWhereUniqueInput = Prisma.AtLeast<{
   id?: number
   slug?: string
+  acceptedPostId?: number
   AND?: Prisma.ForumTopicWhereInput | Prisma.ForumTopicWhereInput[]
   OR?: Prisma.ForumTopicWhereInput[]
   NOT?: Prisma.ForumTopicWhereInput | Prisma.ForumTopicWhereInput[]
@@ -375,14 +417,19 @@ export type ForumTopicWhereUniqueInput = Prisma.AtLeast<{
   trashReason?: Prisma.StringNullableFilter<"ForumTopic"> | string | null
   categoryId?: Prisma.IntFilter<"ForumTopic"> | number
   authorId?: Prisma.IntFilter<"ForumTopic"> | number
+  revisionCount?: Prisma.IntFilter<"ForumTopic"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumTopic"> | Date | string | null
   lastActivityAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   createdAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   author?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   category?: Prisma.XOR<Prisma.ForumCategoryScalarRelationFilter, Prisma.ForumCategoryWhereInput>
   posts?: Prisma.ForumPostListRelationFilter
+  acceptedPost?: Prisma.XOR<Prisma.ForumPostNullableScalarRelationFilter, Prisma.ForumPostWhereInput> | null
   readStates?: Prisma.ForumTopicReadStateListRelationFilter
-}, "id" | "slug">
+  subscriptions?: Prisma.ForumSubscriptionListRelationFilter
+  revisions?: Prisma.ForumRevisionListRelationFilter
+}, "id" | "slug" | "acceptedPostId">
 
 export type ForumTopicOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -399,6 +446,9 @@ export type ForumTopicOrderByWithAggregationInput = {
   trashReason?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrderInput | Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   lastActivityAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -427,6 +477,9 @@ export type ForumTopicScalarWhereWithAggregatesInput = {
   trashReason?: Prisma.StringNullableWithAggregatesFilter<"ForumTopic"> | string | null
   categoryId?: Prisma.IntWithAggregatesFilter<"ForumTopic"> | number
   authorId?: Prisma.IntWithAggregatesFilter<"ForumTopic"> | number
+  acceptedPostId?: Prisma.IntNullableWithAggregatesFilter<"ForumTopic"> | number | null
+  revisionCount?: Prisma.IntWithAggregatesFilter<"ForumTopic"> | number
+  editedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ForumTopic"> | Date | string | null
   lastActivityAt?: Prisma.DateTimeWithAggregatesFilter<"ForumTopic"> | Date | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ForumTopic"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ForumTopic"> | Date | string
@@ -444,13 +497,18 @@ export type ForumTopicCreateInput = {
   trashedAt?: Date | string | null
   trashedById?: number | null
   trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
   category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
   posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
   readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUncheckedCreateInput = {
@@ -468,11 +526,16 @@ export type ForumTopicUncheckedCreateInput = {
   trashReason?: string | null
   categoryId: number
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
   readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUpdateInput = {
@@ -487,13 +550,18 @@ export type ForumTopicUpdateInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
   category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
   posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateInput = {
@@ -511,11 +579,16 @@ export type ForumTopicUncheckedUpdateInput = {
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicCreateManyInput = {
@@ -533,6 +606,9 @@ export type ForumTopicCreateManyInput = {
   trashReason?: string | null
   categoryId: number
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -550,6 +626,8 @@ export type ForumTopicUpdateManyMutationInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -570,6 +648,9 @@ export type ForumTopicUncheckedUpdateManyInput = {
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -600,6 +681,9 @@ export type ForumTopicCountOrderByAggregateInput = {
   trashReason?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
   lastActivityAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -611,6 +695,8 @@ export type ForumTopicAvgOrderByAggregateInput = {
   trashedById?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
 }
 
 export type ForumTopicMaxOrderByAggregateInput = {
@@ -628,6 +714,9 @@ export type ForumTopicMaxOrderByAggregateInput = {
   trashReason?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
   lastActivityAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -648,6 +737,9 @@ export type ForumTopicMinOrderByAggregateInput = {
   trashReason?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
   lastActivityAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -659,6 +751,8 @@ export type ForumTopicSumOrderByAggregateInput = {
   trashedById?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   authorId?: Prisma.SortOrder
+  acceptedPostId?: Prisma.SortOrder
+  revisionCount?: Prisma.SortOrder
 }
 
 export type ForumTopicScalarRelationFilter = {
@@ -666,6 +760,11 @@ export type ForumTopicScalarRelationFilter = {
   isNot?: Prisma.ForumTopicWhereInput
 }
 
+export type ForumTopicNullableScalarRelationFilter = {
+  is?: Prisma.ForumTopicWhereInput | null
+  isNot?: Prisma.ForumTopicWhereInput | null
+}
+
 export type ForumTopicCreateNestedManyWithoutAuthorInput = {
   create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutAuthorInput, Prisma.ForumTopicUncheckedCreateWithoutAuthorInput> | Prisma.ForumTopicCreateWithoutAuthorInput[] | Prisma.ForumTopicUncheckedCreateWithoutAuthorInput[]
   connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutAuthorInput | Prisma.ForumTopicCreateOrConnectWithoutAuthorInput[]
@@ -756,6 +855,18 @@ export type ForumTopicCreateNestedOneWithoutPostsInput = {
   connect?: Prisma.ForumTopicWhereUniqueInput
 }
 
+export type ForumTopicCreateNestedOneWithoutAcceptedPostInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutAcceptedPostInput
+  connect?: Prisma.ForumTopicWhereUniqueInput
+}
+
+export type ForumTopicUncheckedCreateNestedOneWithoutAcceptedPostInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutAcceptedPostInput
+  connect?: Prisma.ForumTopicWhereUniqueInput
+}
+
 export type ForumTopicUpdateOneRequiredWithoutPostsNestedInput = {
   create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutPostsInput, Prisma.ForumTopicUncheckedCreateWithoutPostsInput>
   connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutPostsInput
@@ -764,6 +875,58 @@ export type ForumTopicUpdateOneRequiredWithoutPostsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ForumTopicUpdateToOneWithWhereWithoutPostsInput, Prisma.ForumTopicUpdateWithoutPostsInput>, Prisma.ForumTopicUncheckedUpdateWithoutPostsInput>
 }
 
+export type ForumTopicUpdateOneWithoutAcceptedPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutAcceptedPostInput
+  upsert?: Prisma.ForumTopicUpsertWithoutAcceptedPostInput
+  disconnect?: Prisma.ForumTopicWhereInput | boolean
+  delete?: Prisma.ForumTopicWhereInput | boolean
+  connect?: Prisma.ForumTopicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumTopicUpdateToOneWithWhereWithoutAcceptedPostInput, Prisma.ForumTopicUpdateWithoutAcceptedPostInput>, Prisma.ForumTopicUncheckedUpdateWithoutAcceptedPostInput>
+}
+
+export type ForumTopicUncheckedUpdateOneWithoutAcceptedPostNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutAcceptedPostInput
+  upsert?: Prisma.ForumTopicUpsertWithoutAcceptedPostInput
+  disconnect?: Prisma.ForumTopicWhereInput | boolean
+  delete?: Prisma.ForumTopicWhereInput | boolean
+  connect?: Prisma.ForumTopicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumTopicUpdateToOneWithWhereWithoutAcceptedPostInput, Prisma.ForumTopicUpdateWithoutAcceptedPostInput>, Prisma.ForumTopicUncheckedUpdateWithoutAcceptedPostInput>
+}
+
+export type ForumTopicCreateNestedOneWithoutSubscriptionsInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedCreateWithoutSubscriptionsInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutSubscriptionsInput
+  connect?: Prisma.ForumTopicWhereUniqueInput
+}
+
+export type ForumTopicUpdateOneWithoutSubscriptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedCreateWithoutSubscriptionsInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutSubscriptionsInput
+  upsert?: Prisma.ForumTopicUpsertWithoutSubscriptionsInput
+  disconnect?: Prisma.ForumTopicWhereInput | boolean
+  delete?: Prisma.ForumTopicWhereInput | boolean
+  connect?: Prisma.ForumTopicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumTopicUpdateToOneWithWhereWithoutSubscriptionsInput, Prisma.ForumTopicUpdateWithoutSubscriptionsInput>, Prisma.ForumTopicUncheckedUpdateWithoutSubscriptionsInput>
+}
+
+export type ForumTopicCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutRevisionsInput, Prisma.ForumTopicUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.ForumTopicWhereUniqueInput
+}
+
+export type ForumTopicUpdateOneWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutRevisionsInput, Prisma.ForumTopicUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.ForumTopicUpsertWithoutRevisionsInput
+  disconnect?: Prisma.ForumTopicWhereInput | boolean
+  delete?: Prisma.ForumTopicWhereInput | boolean
+  connect?: Prisma.ForumTopicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ForumTopicUpdateToOneWithWhereWithoutRevisionsInput, Prisma.ForumTopicUpdateWithoutRevisionsInput>, Prisma.ForumTopicUncheckedUpdateWithoutRevisionsInput>
+}
+
 export type ForumTopicCreateNestedOneWithoutReadStatesInput = {
   create?: Prisma.XOR<Prisma.ForumTopicCreateWithoutReadStatesInput, Prisma.ForumTopicUncheckedCreateWithoutReadStatesInput>
   connectOrCreate?: Prisma.ForumTopicCreateOrConnectWithoutReadStatesInput
@@ -790,12 +953,17 @@ export type ForumTopicCreateWithoutAuthorInput = {
   trashedAt?: Date | string | null
   trashedById?: number | null
   trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
   posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
   readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUncheckedCreateWithoutAuthorInput = {
@@ -812,11 +980,16 @@ export type ForumTopicUncheckedCreateWithoutAuthorInput = {
   trashedById?: number | null
   trashReason?: string | null
   categoryId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
   readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicCreateOrConnectWithoutAuthorInput = {
@@ -863,6 +1036,9 @@ export type ForumTopicScalarWhereInput = {
   trashReason?: Prisma.StringNullableFilter<"ForumTopic"> | string | null
   categoryId?: Prisma.IntFilter<"ForumTopic"> | number
   authorId?: Prisma.IntFilter<"ForumTopic"> | number
+  acceptedPostId?: Prisma.IntNullableFilter<"ForumTopic"> | number | null
+  revisionCount?: Prisma.IntFilter<"ForumTopic"> | number
+  editedAt?: Prisma.DateTimeNullableFilter<"ForumTopic"> | Date | string | null
   lastActivityAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   createdAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ForumTopic"> | Date | string
@@ -880,12 +1056,17 @@ export type ForumTopicCreateWithoutCategoryInput = {
   trashedAt?: Date | string | null
   trashedById?: number | null
   trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
   posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
   readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUncheckedCreateWithoutCategoryInput = {
@@ -902,11 +1083,16 @@ export type ForumTopicUncheckedCreateWithoutCategoryInput = {
   trashedById?: number | null
   trashReason?: string | null
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
   readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicCreateOrConnectWithoutCategoryInput = {
@@ -947,12 +1133,17 @@ export type ForumTopicCreateWithoutPostsInput = {
   trashedAt?: Date | string | null
   trashedById?: number | null
   trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
   category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
   readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUncheckedCreateWithoutPostsInput = {
@@ -970,10 +1161,15 @@ export type ForumTopicUncheckedCreateWithoutPostsInput = {
   trashReason?: string | null
   categoryId: number
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicCreateOrConnectWithoutPostsInput = {
@@ -981,6 +1177,62 @@ export type ForumTopicCreateOrConnectWithoutPostsInput = {
   create: Prisma.XOR<Prisma.ForumTopicCreateWithoutPostsInput, Prisma.ForumTopicUncheckedCreateWithoutPostsInput>
 }
 
+export type ForumTopicCreateWithoutAcceptedPostInput = {
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
+  category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
+  posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicUncheckedCreateWithoutAcceptedPostInput = {
+  id?: number
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  categoryId: number
+  authorId: number
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
+  readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicCreateOrConnectWithoutAcceptedPostInput = {
+  where: Prisma.ForumTopicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+}
+
 export type ForumTopicUpsertWithoutPostsInput = {
   update: Prisma.XOR<Prisma.ForumTopicUpdateWithoutPostsInput, Prisma.ForumTopicUncheckedUpdateWithoutPostsInput>
   create: Prisma.XOR<Prisma.ForumTopicCreateWithoutPostsInput, Prisma.ForumTopicUncheckedCreateWithoutPostsInput>
@@ -1004,12 +1256,17 @@ export type ForumTopicUpdateWithoutPostsInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
   category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateWithoutPostsInput = {
@@ -1027,10 +1284,313 @@ export type ForumTopicUncheckedUpdateWithoutPostsInput = {
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicUpsertWithoutAcceptedPostInput = {
+  update: Prisma.XOR<Prisma.ForumTopicUpdateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedUpdateWithoutAcceptedPostInput>
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedCreateWithoutAcceptedPostInput>
+  where?: Prisma.ForumTopicWhereInput
+}
+
+export type ForumTopicUpdateToOneWithWhereWithoutAcceptedPostInput = {
+  where?: Prisma.ForumTopicWhereInput
+  data: Prisma.XOR<Prisma.ForumTopicUpdateWithoutAcceptedPostInput, Prisma.ForumTopicUncheckedUpdateWithoutAcceptedPostInput>
+}
+
+export type ForumTopicUpdateWithoutAcceptedPostInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
+  posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicUncheckedUpdateWithoutAcceptedPostInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
+  readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicCreateWithoutSubscriptionsInput = {
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
+  category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
+  posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
+  readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicUncheckedCreateWithoutSubscriptionsInput = {
+  id?: number
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  categoryId: number
+  authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
+  readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicCreateOrConnectWithoutSubscriptionsInput = {
+  where: Prisma.ForumTopicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedCreateWithoutSubscriptionsInput>
+}
+
+export type ForumTopicUpsertWithoutSubscriptionsInput = {
+  update: Prisma.XOR<Prisma.ForumTopicUpdateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedUpdateWithoutSubscriptionsInput>
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedCreateWithoutSubscriptionsInput>
+  where?: Prisma.ForumTopicWhereInput
+}
+
+export type ForumTopicUpdateToOneWithWhereWithoutSubscriptionsInput = {
+  where?: Prisma.ForumTopicWhereInput
+  data: Prisma.XOR<Prisma.ForumTopicUpdateWithoutSubscriptionsInput, Prisma.ForumTopicUncheckedUpdateWithoutSubscriptionsInput>
+}
+
+export type ForumTopicUpdateWithoutSubscriptionsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
+  posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
+  readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicUncheckedUpdateWithoutSubscriptionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
+  readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicCreateWithoutRevisionsInput = {
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
+  category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
+  posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
+  readStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicUncheckedCreateWithoutRevisionsInput = {
+  id?: number
+  title: string
+  content: string
+  slug: string
+  isSticky?: boolean
+  isLocked?: boolean
+  viewCount?: number
+  status?: string
+  statusBeforeTrash?: string | null
+  trashedAt?: Date | string | null
+  trashedById?: number | null
+  trashReason?: string | null
+  categoryId: number
+  authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
+  lastActivityAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
+  readStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+}
+
+export type ForumTopicCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.ForumTopicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutRevisionsInput, Prisma.ForumTopicUncheckedCreateWithoutRevisionsInput>
+}
+
+export type ForumTopicUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.ForumTopicUpdateWithoutRevisionsInput, Prisma.ForumTopicUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.ForumTopicCreateWithoutRevisionsInput, Prisma.ForumTopicUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.ForumTopicWhereInput
+}
+
+export type ForumTopicUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.ForumTopicWhereInput
+  data: Prisma.XOR<Prisma.ForumTopicUpdateWithoutRevisionsInput, Prisma.ForumTopicUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type ForumTopicUpdateWithoutRevisionsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
+  category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
+  posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
+  readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+}
+
+export type ForumTopicUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  isSticky?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isLocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  statusBeforeTrash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.IntFieldUpdateOperationsInput | number
+  authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicCreateWithoutReadStatesInput = {
@@ -1045,12 +1605,17 @@ export type ForumTopicCreateWithoutReadStatesInput = {
   trashedAt?: Date | string | null
   trashedById?: number | null
   trashReason?: string | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   author: Prisma.UserCreateNestedOneWithoutForumTopicsInput
   category: Prisma.ForumCategoryCreateNestedOneWithoutTopicsInput
   posts?: Prisma.ForumPostCreateNestedManyWithoutTopicInput
+  acceptedPost?: Prisma.ForumPostCreateNestedOneWithoutAcceptedForTopicInput
+  subscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicUncheckedCreateWithoutReadStatesInput = {
@@ -1068,10 +1633,15 @@ export type ForumTopicUncheckedCreateWithoutReadStatesInput = {
   trashReason?: string | null
   categoryId: number
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
   posts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutTopicInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutTopicInput
+  revisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutTopicInput
 }
 
 export type ForumTopicCreateOrConnectWithoutReadStatesInput = {
@@ -1102,12 +1672,17 @@ export type ForumTopicUpdateWithoutReadStatesInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
   category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
   posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateWithoutReadStatesInput = {
@@ -1125,10 +1700,15 @@ export type ForumTopicUncheckedUpdateWithoutReadStatesInput = {
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicCreateManyAuthorInput = {
@@ -1145,6 +1725,9 @@ export type ForumTopicCreateManyAuthorInput = {
   trashedById?: number | null
   trashReason?: string | null
   categoryId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1162,12 +1745,17 @@ export type ForumTopicUpdateWithoutAuthorInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   category?: Prisma.ForumCategoryUpdateOneRequiredWithoutTopicsNestedInput
   posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateWithoutAuthorInput = {
@@ -1184,11 +1772,16 @@ export type ForumTopicUncheckedUpdateWithoutAuthorInput = {
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateManyWithoutAuthorInput = {
@@ -1205,6 +1798,9 @@ export type ForumTopicUncheckedUpdateManyWithoutAuthorInput = {
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1224,6 +1820,9 @@ export type ForumTopicCreateManyCategoryInput = {
   trashedById?: number | null
   trashReason?: string | null
   authorId: number
+  acceptedPostId?: number | null
+  revisionCount?: number
+  editedAt?: Date | string | null
   lastActivityAt?: Date | string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1241,12 +1840,17 @@ export type ForumTopicUpdateWithoutCategoryInput = {
   trashedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   author?: Prisma.UserUpdateOneRequiredWithoutForumTopicsNestedInput
   posts?: Prisma.ForumPostUpdateManyWithoutTopicNestedInput
+  acceptedPost?: Prisma.ForumPostUpdateOneWithoutAcceptedForTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateWithoutCategoryInput = {
@@ -1263,11 +1867,16 @@ export type ForumTopicUncheckedUpdateWithoutCategoryInput = {
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   posts?: Prisma.ForumPostUncheckedUpdateManyWithoutTopicNestedInput
   readStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutTopicNestedInput
+  subscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutTopicNestedInput
+  revisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutTopicNestedInput
 }
 
 export type ForumTopicUncheckedUpdateManyWithoutCategoryInput = {
@@ -1284,6 +1893,9 @@ export type ForumTopicUncheckedUpdateManyWithoutCategoryInput = {
   trashedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   trashReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   authorId?: Prisma.IntFieldUpdateOperationsInput | number
+  acceptedPostId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revisionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastActivityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1297,11 +1909,15 @@ export type ForumTopicUncheckedUpdateManyWithoutCategoryInput = {
 export type ForumTopicCountOutputType = {
   posts: number
   readStates: number
+  subscriptions: number
+  revisions: number
 }
 
 export type ForumTopicCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   posts?: boolean | ForumTopicCountOutputTypeCountPostsArgs
   readStates?: boolean | ForumTopicCountOutputTypeCountReadStatesArgs
+  subscriptions?: boolean | ForumTopicCountOutputTypeCountSubscriptionsArgs
+  revisions?: boolean | ForumTopicCountOutputTypeCountRevisionsArgs
 }
 
 /**
@@ -1328,6 +1944,20 @@ export type ForumTopicCountOutputTypeCountReadStatesArgs<ExtArgs extends runtime
   where?: Prisma.ForumTopicReadStateWhereInput
 }
 
+/**
+ * ForumTopicCountOutputType without action
+ */
+export type ForumTopicCountOutputTypeCountSubscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumSubscriptionWhereInput
+}
+
+/**
+ * ForumTopicCountOutputType without action
+ */
+export type ForumTopicCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumRevisionWhereInput
+}
+
 
 export type ForumTopicSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1344,13 +1974,19 @@ export type ForumTopicSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   trashReason?: boolean
   categoryId?: boolean
   authorId?: boolean
+  acceptedPostId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   lastActivityAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
   posts?: boolean | Prisma.ForumTopic$postsArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
   readStates?: boolean | Prisma.ForumTopic$readStatesArgs<ExtArgs>
+  subscriptions?: boolean | Prisma.ForumTopic$subscriptionsArgs<ExtArgs>
+  revisions?: boolean | Prisma.ForumTopic$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumTopicCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["forumTopic"]>
 
@@ -1369,11 +2005,15 @@ export type ForumTopicSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ex
   trashReason?: boolean
   categoryId?: boolean
   authorId?: boolean
+  acceptedPostId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   lastActivityAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
 }, ExtArgs["result"]["forumTopic"]>
 
 export type ForumTopicSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1391,11 +2031,15 @@ export type ForumTopicSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ex
   trashReason?: boolean
   categoryId?: boolean
   authorId?: boolean
+  acceptedPostId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   lastActivityAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
 }, ExtArgs["result"]["forumTopic"]>
 
 export type ForumTopicSelectScalar = {
@@ -1413,26 +2057,34 @@ export type ForumTopicSelectScalar = {
   trashReason?: boolean
   categoryId?: boolean
   authorId?: boolean
+  acceptedPostId?: boolean
+  revisionCount?: boolean
+  editedAt?: boolean
   lastActivityAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ForumTopicOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "title" | "content" | "slug" | "isSticky" | "isLocked" | "viewCount" | "status" | "statusBeforeTrash" | "trashedAt" | "trashedById" | "trashReason" | "categoryId" | "authorId" | "lastActivityAt" | "createdAt" | "updatedAt", ExtArgs["result"]["forumTopic"]>
+export type ForumTopicOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "title" | "content" | "slug" | "isSticky" | "isLocked" | "viewCount" | "status" | "statusBeforeTrash" | "trashedAt" | "trashedById" | "trashReason" | "categoryId" | "authorId" | "acceptedPostId" | "revisionCount" | "editedAt" | "lastActivityAt" | "createdAt" | "updatedAt", ExtArgs["result"]["forumTopic"]>
 export type ForumTopicInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
   posts?: boolean | Prisma.ForumTopic$postsArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
   readStates?: boolean | Prisma.ForumTopic$readStatesArgs<ExtArgs>
+  subscriptions?: boolean | Prisma.ForumTopic$subscriptionsArgs<ExtArgs>
+  revisions?: boolean | Prisma.ForumTopic$revisionsArgs<ExtArgs>
   _count?: boolean | Prisma.ForumTopicCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ForumTopicIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
 }
 export type ForumTopicIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   author?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   category?: boolean | Prisma.ForumCategoryDefaultArgs<ExtArgs>
+  acceptedPost?: boolean | Prisma.ForumTopic$acceptedPostArgs<ExtArgs>
 }
 
 export type $ForumTopicPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1441,7 +2093,10 @@ export type $ForumTopicPayload<ExtArgs extends runtime.Types.Extensions.Internal
     author: Prisma.$UserPayload<ExtArgs>
     category: Prisma.$ForumCategoryPayload<ExtArgs>
     posts: Prisma.$ForumPostPayload<ExtArgs>[]
+    acceptedPost: Prisma.$ForumPostPayload<ExtArgs> | null
     readStates: Prisma.$ForumTopicReadStatePayload<ExtArgs>[]
+    subscriptions: Prisma.$ForumSubscriptionPayload<ExtArgs>[]
+    revisions: Prisma.$ForumRevisionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1458,6 +2113,9 @@ export type $ForumTopicPayload<ExtArgs extends runtime.Types.Extensions.Internal
     trashReason: string | null
     categoryId: number
     authorId: number
+    acceptedPostId: number | null
+    revisionCount: number
+    editedAt: Date | null
     lastActivityAt: Date
     createdAt: Date
     updatedAt: Date
@@ -1858,7 +2516,10 @@ export interface Prisma__ForumTopicClient<T, Null = never, ExtArgs extends runti
   author<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   category<T extends Prisma.ForumCategoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumCategoryDefaultArgs<ExtArgs>>): Prisma.Prisma__ForumCategoryClient<runtime.Types.Result.GetResult<Prisma.$ForumCategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   posts<T extends Prisma.ForumTopic$postsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumTopic$postsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  acceptedPost<T extends Prisma.ForumTopic$acceptedPostArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumTopic$acceptedPostArgs<ExtArgs>>): Prisma.Prisma__ForumPostClient<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   readStates<T extends Prisma.ForumTopic$readStatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumTopic$readStatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumTopicReadStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  subscriptions<T extends Prisma.ForumTopic$subscriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumTopic$subscriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  revisions<T extends Prisma.ForumTopic$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ForumTopic$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1902,6 +2563,9 @@ export interface ForumTopicFieldRefs {
   readonly trashReason: Prisma.FieldRef<"ForumTopic", 'String'>
   readonly categoryId: Prisma.FieldRef<"ForumTopic", 'Int'>
   readonly authorId: Prisma.FieldRef<"ForumTopic", 'Int'>
+  readonly acceptedPostId: Prisma.FieldRef<"ForumTopic", 'Int'>
+  readonly revisionCount: Prisma.FieldRef<"ForumTopic", 'Int'>
+  readonly editedAt: Prisma.FieldRef<"ForumTopic", 'DateTime'>
   readonly lastActivityAt: Prisma.FieldRef<"ForumTopic", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"ForumTopic", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"ForumTopic", 'DateTime'>
@@ -2324,6 +2988,25 @@ export type ForumTopic$postsArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.ForumPostScalarFieldEnum | Prisma.ForumPostScalarFieldEnum[]
 }
 
+/**
+ * ForumTopic.acceptedPost
+ */
+export type ForumTopic$acceptedPostArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPost
+   */
+  select?: Prisma.ForumPostSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPost
+   */
+  omit?: Prisma.ForumPostOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostInclude<ExtArgs> | null
+  where?: Prisma.ForumPostWhereInput
+}
+
 /**
  * ForumTopic.readStates
  */
@@ -2348,6 +3031,54 @@ export type ForumTopic$readStatesArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.ForumTopicReadStateScalarFieldEnum | Prisma.ForumTopicReadStateScalarFieldEnum[]
 }
 
+/**
+ * ForumTopic.subscriptions
+ */
+export type ForumTopic$subscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  where?: Prisma.ForumSubscriptionWhereInput
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
+/**
+ * ForumTopic.revisions
+ */
+export type ForumTopic$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  where?: Prisma.ForumRevisionWhereInput
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
 /**
  * ForumTopic without action
  */
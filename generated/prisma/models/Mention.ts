@@ -0,0 +1,1603 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `Mention` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Mention
+ * 
+ */
+export type MentionModel = runtime.Types.Result.DefaultSelection<Prisma.$MentionPayload>
+
+export type AggregateMention = {
+  _count: MentionCountAggregateOutputType | null
+  _avg: MentionAvgAggregateOutputType | null
+  _sum: MentionSumAggregateOutputType | null
+  _min: MentionMinAggregateOutputType | null
+  _max: MentionMaxAggregateOutputType | null
+}
+
+export type MentionAvgAggregateOutputType = {
+  id: number | null
+  sourceId: number | null
+  userId: number | null
+  actorId: number | null
+}
+
+export type MentionSumAggregateOutputType = {
+  id: number | null
+  sourceId: number | null
+  userId: number | null
+  actorId: number | null
+}
+
+export type MentionMinAggregateOutputType = {
+  id: number | null
+  sourceType: string | null
+  sourceId: number | null
+  userId: number | null
+  actorId: number | null
+  notified: boolean | null
+  createdAt: Date | null
+}
+
+export type MentionMaxAggregateOutputType = {
+  id: number | null
+  sourceType: string | null
+  sourceId: number | null
+  userId: number | null
+  actorId: number | null
+  notified: boolean | null
+  createdAt: Date | null
+}
+
+export type MentionCountAggregateOutputType = {
+  id: number
+  sourceType: number
+  sourceId: number
+  userId: number
+  actorId: number
+  notified: number
+  createdAt: number
+  _all: number
+}
+
+
+export type MentionAvgAggregateInputType = {
+  id?: true
+  sourceId?: true
+  userId?: true
+  actorId?: true
+}
+
+export type MentionSumAggregateInputType = {
+  id?: true
+  sourceId?: true
+  userId?: true
+  actorId?: true
+}
+
+export type MentionMinAggregateInputType = {
+  id?: true
+  sourceType?: true
+  sourceId?: true
+  userId?: true
+  actorId?: true
+  notified?: true
+  createdAt?: true
+}
+
+export type MentionMaxAggregateInputType = {
+  id?: true
+  sourceType?: true
+  sourceId?: true
+  userId?: true
+  actorId?: true
+  notified?: true
+  createdAt?: true
+}
+
+export type MentionCountAggregateInputType = {
+  id?: true
+  sourceType?: true
+  sourceId?: true
+  userId?: true
+  actorId?: true
+  notified?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type MentionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Mention to aggregate.
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Mentions to fetch.
+   */
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Mentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Mentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Mentions
+  **/
+  _count?: true | MentionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MentionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MentionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MentionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MentionMaxAggregateInputType
+}
+
+export type GetMentionAggregateType<T extends MentionAggregateArgs> = {
+      [P in keyof T & keyof AggregateMention]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMention[P]>
+    : Prisma.GetScalarType<T[P], AggregateMention[P]>
+}
+
+
+
+
+export type MentionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionWhereInput
+  orderBy?: Prisma.MentionOrderByWithAggregationInput | Prisma.MentionOrderByWithAggregationInput[]
+  by: Prisma.MentionScalarFieldEnum[] | Prisma.MentionScalarFieldEnum
+  having?: Prisma.MentionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MentionCountAggregateInputType | true
+  _avg?: MentionAvgAggregateInputType
+  _sum?: MentionSumAggregateInputType
+  _min?: MentionMinAggregateInputType
+  _max?: MentionMaxAggregateInputType
+}
+
+export type MentionGroupByOutputType = {
+  id: number
+  sourceType: string
+  sourceId: number
+  userId: number
+  actorId: number
+  notified: boolean
+  createdAt: Date
+  _count: MentionCountAggregateOutputType | null
+  _avg: MentionAvgAggregateOutputType | null
+  _sum: MentionSumAggregateOutputType | null
+  _min: MentionMinAggregateOutputType | null
+  _max: MentionMaxAggregateOutputType | null
+}
+
+type GetMentionGroupByPayload<T extends MentionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MentionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MentionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MentionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MentionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MentionWhereInput = {
+  AND?: Prisma.MentionWhereInput | Prisma.MentionWhereInput[]
+  OR?: Prisma.MentionWhereInput[]
+  NOT?: Prisma.MentionWhereInput | Prisma.MentionWhereInput[]
+  id?: Prisma.IntFilter<"Mention"> | number
+  sourceType?: Prisma.StringFilter<"Mention"> | string
+  sourceId?: Prisma.IntFilter<"Mention"> | number
+  userId?: Prisma.IntFilter<"Mention"> | number
+  actorId?: Prisma.IntFilter<"Mention"> | number
+  notified?: Prisma.BoolFilter<"Mention"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Mention"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type MentionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  sourceType?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  notified?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type MentionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  sourceType_sourceId_userId?: Prisma.MentionSourceTypeSourceIdUserIdCompoundUniqueInput
+  AND?: Prisma.MentionWhereInput | Prisma.MentionWhereInput[]
+  OR?: Prisma.MentionWhereInput[]
+  NOT?: Prisma.MentionWhereInput | Prisma.MentionWhereInput[]
+  sourceType?: Prisma.StringFilter<"Mention"> | string
+  sourceId?: Prisma.IntFilter<"Mention"> | number
+  userId?: Prisma.IntFilter<"Mention"> | number
+  actorId?: Prisma.IntFilter<"Mention"> | number
+  notified?: Prisma.BoolFilter<"Mention"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Mention"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "sourceType_sourceId_userId">
+
+export type MentionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  sourceType?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  notified?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.MentionCountOrderByAggregateInput
+  _avg?: Prisma.MentionAvgOrderByAggregateInput
+  _max?: Prisma.MentionMaxOrderByAggregateInput
+  _min?: Prisma.MentionMinOrderByAggregateInput
+  _sum?: Prisma.MentionSumOrderByAggregateInput
+}
+
+export type MentionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MentionScalarWhereWithAggregatesInput | Prisma.MentionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MentionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MentionScalarWhereWithAggregatesInput | Prisma.MentionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"Mention"> | number
+  sourceType?: Prisma.StringWithAggregatesFilter<"Mention"> | string
+  sourceId?: Prisma.IntWithAggregatesFilter<"Mention"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"Mention"> | number
+  actorId?: Prisma.IntWithAggregatesFilter<"Mention"> | number
+  notified?: Prisma.BoolWithAggregatesFilter<"Mention"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Mention"> | Date | string
+}
+
+export type MentionCreateInput = {
+  sourceType: string
+  sourceId: number
+  notified?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutMentionsReceivedInput
+  actor: Prisma.UserCreateNestedOneWithoutMentionsSentInput
+}
+
+export type MentionUncheckedCreateInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  userId: number
+  actorId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionUpdateInput = {
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutMentionsReceivedNestedInput
+  actor?: Prisma.UserUpdateOneRequiredWithoutMentionsSentNestedInput
+}
+
+export type MentionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionCreateManyInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  userId: number
+  actorId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionUpdateManyMutationInput = {
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionListRelationFilter = {
+  every?: Prisma.MentionWhereInput
+  some?: Prisma.MentionWhereInput
+  none?: Prisma.MentionWhereInput
+}
+
+export type MentionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type MentionSourceTypeSourceIdUserIdCompoundUniqueInput = {
+  sourceType: string
+  sourceId: number
+  userId: number
+}
+
+export type MentionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sourceType?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  notified?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+}
+
+export type MentionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sourceType?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  notified?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sourceType?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  notified?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+}
+
+export type MentionCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput> | Prisma.MentionCreateWithoutUserInput[] | Prisma.MentionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutUserInput | Prisma.MentionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.MentionCreateManyUserInputEnvelope
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+}
+
+export type MentionCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput> | Prisma.MentionCreateWithoutActorInput[] | Prisma.MentionUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutActorInput | Prisma.MentionCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.MentionCreateManyActorInputEnvelope
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+}
+
+export type MentionUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput> | Prisma.MentionCreateWithoutUserInput[] | Prisma.MentionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutUserInput | Prisma.MentionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.MentionCreateManyUserInputEnvelope
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+}
+
+export type MentionUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput> | Prisma.MentionCreateWithoutActorInput[] | Prisma.MentionUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutActorInput | Prisma.MentionCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.MentionCreateManyActorInputEnvelope
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+}
+
+export type MentionUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput> | Prisma.MentionCreateWithoutUserInput[] | Prisma.MentionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutUserInput | Prisma.MentionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.MentionUpsertWithWhereUniqueWithoutUserInput | Prisma.MentionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.MentionCreateManyUserInputEnvelope
+  set?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  disconnect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  delete?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  update?: Prisma.MentionUpdateWithWhereUniqueWithoutUserInput | Prisma.MentionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.MentionUpdateManyWithWhereWithoutUserInput | Prisma.MentionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+}
+
+export type MentionUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput> | Prisma.MentionCreateWithoutActorInput[] | Prisma.MentionUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutActorInput | Prisma.MentionCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.MentionUpsertWithWhereUniqueWithoutActorInput | Prisma.MentionUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.MentionCreateManyActorInputEnvelope
+  set?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  disconnect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  delete?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  update?: Prisma.MentionUpdateWithWhereUniqueWithoutActorInput | Prisma.MentionUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.MentionUpdateManyWithWhereWithoutActorInput | Prisma.MentionUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+}
+
+export type MentionUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput> | Prisma.MentionCreateWithoutUserInput[] | Prisma.MentionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutUserInput | Prisma.MentionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.MentionUpsertWithWhereUniqueWithoutUserInput | Prisma.MentionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.MentionCreateManyUserInputEnvelope
+  set?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  disconnect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  delete?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  update?: Prisma.MentionUpdateWithWhereUniqueWithoutUserInput | Prisma.MentionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.MentionUpdateManyWithWhereWithoutUserInput | Prisma.MentionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+}
+
+export type MentionUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput> | Prisma.MentionCreateWithoutActorInput[] | Prisma.MentionUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.MentionCreateOrConnectWithoutActorInput | Prisma.MentionCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.MentionUpsertWithWhereUniqueWithoutActorInput | Prisma.MentionUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.MentionCreateManyActorInputEnvelope
+  set?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  disconnect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  delete?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  connect?: Prisma.MentionWhereUniqueInput | Prisma.MentionWhereUniqueInput[]
+  update?: Prisma.MentionUpdateWithWhereUniqueWithoutActorInput | Prisma.MentionUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.MentionUpdateManyWithWhereWithoutActorInput | Prisma.MentionUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+}
+
+export type MentionCreateWithoutUserInput = {
+  sourceType: string
+  sourceId: number
+  notified?: boolean
+  createdAt?: Date | string
+  actor: Prisma.UserCreateNestedOneWithoutMentionsSentInput
+}
+
+export type MentionUncheckedCreateWithoutUserInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  actorId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionCreateOrConnectWithoutUserInput = {
+  where: Prisma.MentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput>
+}
+
+export type MentionCreateManyUserInputEnvelope = {
+  data: Prisma.MentionCreateManyUserInput | Prisma.MentionCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type MentionCreateWithoutActorInput = {
+  sourceType: string
+  sourceId: number
+  notified?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutMentionsReceivedInput
+}
+
+export type MentionUncheckedCreateWithoutActorInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  userId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionCreateOrConnectWithoutActorInput = {
+  where: Prisma.MentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput>
+}
+
+export type MentionCreateManyActorInputEnvelope = {
+  data: Prisma.MentionCreateManyActorInput | Prisma.MentionCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type MentionUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.MentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.MentionUpdateWithoutUserInput, Prisma.MentionUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.MentionCreateWithoutUserInput, Prisma.MentionUncheckedCreateWithoutUserInput>
+}
+
+export type MentionUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.MentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.MentionUpdateWithoutUserInput, Prisma.MentionUncheckedUpdateWithoutUserInput>
+}
+
+export type MentionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.MentionScalarWhereInput
+  data: Prisma.XOR<Prisma.MentionUpdateManyMutationInput, Prisma.MentionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type MentionScalarWhereInput = {
+  AND?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+  OR?: Prisma.MentionScalarWhereInput[]
+  NOT?: Prisma.MentionScalarWhereInput | Prisma.MentionScalarWhereInput[]
+  id?: Prisma.IntFilter<"Mention"> | number
+  sourceType?: Prisma.StringFilter<"Mention"> | string
+  sourceId?: Prisma.IntFilter<"Mention"> | number
+  userId?: Prisma.IntFilter<"Mention"> | number
+  actorId?: Prisma.IntFilter<"Mention"> | number
+  notified?: Prisma.BoolFilter<"Mention"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Mention"> | Date | string
+}
+
+export type MentionUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.MentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.MentionUpdateWithoutActorInput, Prisma.MentionUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.MentionCreateWithoutActorInput, Prisma.MentionUncheckedCreateWithoutActorInput>
+}
+
+export type MentionUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.MentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.MentionUpdateWithoutActorInput, Prisma.MentionUncheckedUpdateWithoutActorInput>
+}
+
+export type MentionUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.MentionScalarWhereInput
+  data: Prisma.XOR<Prisma.MentionUpdateManyMutationInput, Prisma.MentionUncheckedUpdateManyWithoutActorInput>
+}
+
+export type MentionCreateManyUserInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  actorId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionCreateManyActorInput = {
+  id?: number
+  sourceType: string
+  sourceId: number
+  userId: number
+  notified?: boolean
+  createdAt?: Date | string
+}
+
+export type MentionUpdateWithoutUserInput = {
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneRequiredWithoutMentionsSentNestedInput
+}
+
+export type MentionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionUpdateWithoutActorInput = {
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutMentionsReceivedNestedInput
+}
+
+export type MentionUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  sourceType?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  notified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type MentionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sourceType?: boolean
+  sourceId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  notified?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mention"]>
+
+export type MentionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sourceType?: boolean
+  sourceId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  notified?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mention"]>
+
+export type MentionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sourceType?: boolean
+  sourceId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  notified?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mention"]>
+
+export type MentionSelectScalar = {
+  id?: boolean
+  sourceType?: boolean
+  sourceId?: boolean
+  userId?: boolean
+  actorId?: boolean
+  notified?: boolean
+  createdAt?: boolean
+}
+
+export type MentionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "sourceType" | "sourceId" | "userId" | "actorId" | "notified" | "createdAt", ExtArgs["result"]["mention"]>
+export type MentionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type MentionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type MentionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $MentionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Mention"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    actor: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    sourceType: string
+    sourceId: number
+    userId: number
+    actorId: number
+    notified: boolean
+    createdAt: Date
+  }, ExtArgs["result"]["mention"]>
+  composites: {}
+}
+
+export type MentionGetPayload<S extends boolean | null | undefined | MentionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MentionPayload, S>
+
+export type MentionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MentionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MentionCountAggregateInputType | true
+  }
+
+export interface MentionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Mention'], meta: { name: 'Mention' } }
+  /**
+   * Find zero or one Mention that matches the filter.
+   * @param {MentionFindUniqueArgs} args - Arguments to find a Mention
+   * @example
+   * // Get one Mention
+   * const mention = await prisma.mention.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MentionFindUniqueArgs>(args: Prisma.SelectSubset<T, MentionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Mention that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MentionFindUniqueOrThrowArgs} args - Arguments to find a Mention
+   * @example
+   * // Get one Mention
+   * const mention = await prisma.mention.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MentionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MentionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Mention that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionFindFirstArgs} args - Arguments to find a Mention
+   * @example
+   * // Get one Mention
+   * const mention = await prisma.mention.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MentionFindFirstArgs>(args?: Prisma.SelectSubset<T, MentionFindFirstArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Mention that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionFindFirstOrThrowArgs} args - Arguments to find a Mention
+   * @example
+   * // Get one Mention
+   * const mention = await prisma.mention.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MentionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MentionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Mentions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Mentions
+   * const mentions = await prisma.mention.findMany()
+   * 
+   * // Get first 10 Mentions
+   * const mentions = await prisma.mention.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const mentionWithIdOnly = await prisma.mention.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MentionFindManyArgs>(args?: Prisma.SelectSubset<T, MentionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Mention.
+   * @param {MentionCreateArgs} args - Arguments to create a Mention.
+   * @example
+   * // Create one Mention
+   * const Mention = await prisma.mention.create({
+   *   data: {
+   *     // ... data to create a Mention
+   *   }
+   * })
+   * 
+   */
+  create<T extends MentionCreateArgs>(args: Prisma.SelectSubset<T, MentionCreateArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Mentions.
+   * @param {MentionCreateManyArgs} args - Arguments to create many Mentions.
+   * @example
+   * // Create many Mentions
+   * const mention = await prisma.mention.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MentionCreateManyArgs>(args?: Prisma.SelectSubset<T, MentionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Mentions and returns the data saved in the database.
+   * @param {MentionCreateManyAndReturnArgs} args - Arguments to create many Mentions.
+   * @example
+   * // Create many Mentions
+   * const mention = await prisma.mention.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Mentions and only return the `id`
+   * const mentionWithIdOnly = await prisma.mention.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MentionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MentionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Mention.
+   * @param {MentionDeleteArgs} args - Arguments to delete one Mention.
+   * @example
+   * // Delete one Mention
+   * const Mention = await prisma.mention.delete({
+   *   where: {
+   *     // ... filter to delete one Mention
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MentionDeleteArgs>(args: Prisma.SelectSubset<T, MentionDeleteArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Mention.
+   * @param {MentionUpdateArgs} args - Arguments to update one Mention.
+   * @example
+   * // Update one Mention
+   * const mention = await prisma.mention.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MentionUpdateArgs>(args: Prisma.SelectSubset<T, MentionUpdateArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Mentions.
+   * @param {MentionDeleteManyArgs} args - Arguments to filter Mentions to delete.
+   * @example
+   * // Delete a few Mentions
+   * const { count } = await prisma.mention.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MentionDeleteManyArgs>(args?: Prisma.SelectSubset<T, MentionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Mentions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Mentions
+   * const mention = await prisma.mention.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MentionUpdateManyArgs>(args: Prisma.SelectSubset<T, MentionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Mentions and returns the data updated in the database.
+   * @param {MentionUpdateManyAndReturnArgs} args - Arguments to update many Mentions.
+   * @example
+   * // Update many Mentions
+   * const mention = await prisma.mention.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Mentions and only return the `id`
+   * const mentionWithIdOnly = await prisma.mention.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MentionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MentionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Mention.
+   * @param {MentionUpsertArgs} args - Arguments to update or create a Mention.
+   * @example
+   * // Update or create a Mention
+   * const mention = await prisma.mention.upsert({
+   *   create: {
+   *     // ... data to create a Mention
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Mention we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MentionUpsertArgs>(args: Prisma.SelectSubset<T, MentionUpsertArgs<ExtArgs>>): Prisma.Prisma__MentionClient<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Mentions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionCountArgs} args - Arguments to filter Mentions to count.
+   * @example
+   * // Count the number of Mentions
+   * const count = await prisma.mention.count({
+   *   where: {
+   *     // ... the filter for the Mentions we want to count
+   *   }
+   * })
+  **/
+  count<T extends MentionCountArgs>(
+    args?: Prisma.Subset<T, MentionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MentionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Mention.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MentionAggregateArgs>(args: Prisma.Subset<T, MentionAggregateArgs>): Prisma.PrismaPromise<GetMentionAggregateType<T>>
+
+  /**
+   * Group by Mention.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MentionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MentionGroupByArgs['orderBy'] }
+      : { orderBy?: MentionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MentionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMentionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Mention model
+ */
+readonly fields: MentionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Mention.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MentionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Mention model
+ */
+export interface MentionFieldRefs {
+  readonly id: Prisma.FieldRef<"Mention", 'Int'>
+  readonly sourceType: Prisma.FieldRef<"Mention", 'String'>
+  readonly sourceId: Prisma.FieldRef<"Mention", 'Int'>
+  readonly userId: Prisma.FieldRef<"Mention", 'Int'>
+  readonly actorId: Prisma.FieldRef<"Mention", 'Int'>
+  readonly notified: Prisma.FieldRef<"Mention", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"Mention", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Mention findUnique
+ */
+export type MentionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter, which Mention to fetch.
+   */
+  where: Prisma.MentionWhereUniqueInput
+}
+
+/**
+ * Mention findUniqueOrThrow
+ */
+export type MentionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter, which Mention to fetch.
+   */
+  where: Prisma.MentionWhereUniqueInput
+}
+
+/**
+ * Mention findFirst
+ */
+export type MentionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter, which Mention to fetch.
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Mentions to fetch.
+   */
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Mentions.
+   */
+  cursor?: Prisma.MentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Mentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Mentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Mentions.
+   */
+  distinct?: Prisma.MentionScalarFieldEnum | Prisma.MentionScalarFieldEnum[]
+}
+
+/**
+ * Mention findFirstOrThrow
+ */
+export type MentionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter, which Mention to fetch.
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Mentions to fetch.
+   */
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Mentions.
+   */
+  cursor?: Prisma.MentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Mentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Mentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Mentions.
+   */
+  distinct?: Prisma.MentionScalarFieldEnum | Prisma.MentionScalarFieldEnum[]
+}
+
+/**
+ * Mention findMany
+ */
+export type MentionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter, which Mentions to fetch.
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Mentions to fetch.
+   */
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Mentions.
+   */
+  cursor?: Prisma.MentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Mentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Mentions.
+   */
+  skip?: number
+  distinct?: Prisma.MentionScalarFieldEnum | Prisma.MentionScalarFieldEnum[]
+}
+
+/**
+ * Mention create
+ */
+export type MentionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Mention.
+   */
+  data: Prisma.XOR<Prisma.MentionCreateInput, Prisma.MentionUncheckedCreateInput>
+}
+
+/**
+ * Mention createMany
+ */
+export type MentionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Mentions.
+   */
+  data: Prisma.MentionCreateManyInput | Prisma.MentionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Mention createManyAndReturn
+ */
+export type MentionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * The data used to create many Mentions.
+   */
+  data: Prisma.MentionCreateManyInput | Prisma.MentionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Mention update
+ */
+export type MentionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Mention.
+   */
+  data: Prisma.XOR<Prisma.MentionUpdateInput, Prisma.MentionUncheckedUpdateInput>
+  /**
+   * Choose, which Mention to update.
+   */
+  where: Prisma.MentionWhereUniqueInput
+}
+
+/**
+ * Mention updateMany
+ */
+export type MentionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Mentions.
+   */
+  data: Prisma.XOR<Prisma.MentionUpdateManyMutationInput, Prisma.MentionUncheckedUpdateManyInput>
+  /**
+   * Filter which Mentions to update
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * Limit how many Mentions to update.
+   */
+  limit?: number
+}
+
+/**
+ * Mention updateManyAndReturn
+ */
+export type MentionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * The data used to update Mentions.
+   */
+  data: Prisma.XOR<Prisma.MentionUpdateManyMutationInput, Prisma.MentionUncheckedUpdateManyInput>
+  /**
+   * Filter which Mentions to update
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * Limit how many Mentions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Mention upsert
+ */
+export type MentionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Mention to update in case it exists.
+   */
+  where: Prisma.MentionWhereUniqueInput
+  /**
+   * In case the Mention found by the `where` argument doesn't exist, create a new Mention with this data.
+   */
+  create: Prisma.XOR<Prisma.MentionCreateInput, Prisma.MentionUncheckedCreateInput>
+  /**
+   * In case the Mention was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MentionUpdateInput, Prisma.MentionUncheckedUpdateInput>
+}
+
+/**
+ * Mention delete
+ */
+export type MentionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  /**
+   * Filter which Mention to delete.
+   */
+  where: Prisma.MentionWhereUniqueInput
+}
+
+/**
+ * Mention deleteMany
+ */
+export type MentionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Mentions to delete
+   */
+  where?: Prisma.MentionWhereInput
+  /**
+   * Limit how many Mentions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Mention without action
+ */
+export type MentionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1473 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `MentionMute` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model MentionMute
+ * 
+ */
+export type MentionMuteModel = runtime.Types.Result.DefaultSelection<Prisma.$MentionMutePayload>
+
+export type AggregateMentionMute = {
+  _count: MentionMuteCountAggregateOutputType | null
+  _avg: MentionMuteAvgAggregateOutputType | null
+  _sum: MentionMuteSumAggregateOutputType | null
+  _min: MentionMuteMinAggregateOutputType | null
+  _max: MentionMuteMaxAggregateOutputType | null
+}
+
+export type MentionMuteAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  mutedUserId: number | null
+}
+
+export type MentionMuteSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  mutedUserId: number | null
+}
+
+export type MentionMuteMinAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  mutedUserId: number | null
+  createdAt: Date | null
+}
+
+export type MentionMuteMaxAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  mutedUserId: number | null
+  createdAt: Date | null
+}
+
+export type MentionMuteCountAggregateOutputType = {
+  id: number
+  userId: number
+  mutedUserId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type MentionMuteAvgAggregateInputType = {
+  id?: true
+  userId?: true
+  mutedUserId?: true
+}
+
+export type MentionMuteSumAggregateInputType = {
+  id?: true
+  userId?: true
+  mutedUserId?: true
+}
+
+export type MentionMuteMinAggregateInputType = {
+  id?: true
+  userId?: true
+  mutedUserId?: true
+  createdAt?: true
+}
+
+export type MentionMuteMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  mutedUserId?: true
+  createdAt?: true
+}
+
+export type MentionMuteCountAggregateInputType = {
+  id?: true
+  userId?: true
+  mutedUserId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type MentionMuteAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MentionMute to aggregate.
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MentionMutes to fetch.
+   */
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MentionMutes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MentionMutes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned MentionMutes
+  **/
+  _count?: true | MentionMuteCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MentionMuteAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MentionMuteSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MentionMuteMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MentionMuteMaxAggregateInputType
+}
+
+export type GetMentionMuteAggregateType<T extends MentionMuteAggregateArgs> = {
+      [P in keyof T & keyof AggregateMentionMute]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMentionMute[P]>
+    : Prisma.GetScalarType<T[P], AggregateMentionMute[P]>
+}
+
+
+
+
+export type MentionMuteGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionMuteWhereInput
+  orderBy?: Prisma.MentionMuteOrderByWithAggregationInput | Prisma.MentionMuteOrderByWithAggregationInput[]
+  by: Prisma.MentionMuteScalarFieldEnum[] | Prisma.MentionMuteScalarFieldEnum
+  having?: Prisma.MentionMuteScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MentionMuteCountAggregateInputType | true
+  _avg?: MentionMuteAvgAggregateInputType
+  _sum?: MentionMuteSumAggregateInputType
+  _min?: MentionMuteMinAggregateInputType
+  _max?: MentionMuteMaxAggregateInputType
+}
+
+export type MentionMuteGroupByOutputType = {
+  id: number
+  userId: number
+  mutedUserId: number
+  createdAt: Date
+  _count: MentionMuteCountAggregateOutputType | null
+  _avg: MentionMuteAvgAggregateOutputType | null
+  _sum: MentionMuteSumAggregateOutputType | null
+  _min: MentionMuteMinAggregateOutputType | null
+  _max: MentionMuteMaxAggregateOutputType | null
+}
+
+type GetMentionMuteGroupByPayload<T extends MentionMuteGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MentionMuteGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MentionMuteGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MentionMuteGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MentionMuteGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MentionMuteWhereInput = {
+  AND?: Prisma.MentionMuteWhereInput | Prisma.MentionMuteWhereInput[]
+  OR?: Prisma.MentionMuteWhereInput[]
+  NOT?: Prisma.MentionMuteWhereInput | Prisma.MentionMuteWhereInput[]
+  id?: Prisma.IntFilter<"MentionMute"> | number
+  userId?: Prisma.IntFilter<"MentionMute"> | number
+  mutedUserId?: Prisma.IntFilter<"MentionMute"> | number
+  createdAt?: Prisma.DateTimeFilter<"MentionMute"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  mutedUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type MentionMuteOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  mutedUser?: Prisma.UserOrderByWithRelationInput
+}
+
+export type MentionMuteWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  userId_mutedUserId?: Prisma.MentionMuteUserIdMutedUserIdCompoundUniqueInput
+  AND?: Prisma.MentionMuteWhereInput | Prisma.MentionMuteWhereInput[]
+  OR?: Prisma.MentionMuteWhereInput[]
+  NOT?: Prisma.MentionMuteWhereInput | Prisma.MentionMuteWhereInput[]
+  userId?: Prisma.IntFilter<"MentionMute"> | number
+  mutedUserId?: Prisma.IntFilter<"MentionMute"> | number
+  createdAt?: Prisma.DateTimeFilter<"MentionMute"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  mutedUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId_mutedUserId">
+
+export type MentionMuteOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.MentionMuteCountOrderByAggregateInput
+  _avg?: Prisma.MentionMuteAvgOrderByAggregateInput
+  _max?: Prisma.MentionMuteMaxOrderByAggregateInput
+  _min?: Prisma.MentionMuteMinOrderByAggregateInput
+  _sum?: Prisma.MentionMuteSumOrderByAggregateInput
+}
+
+export type MentionMuteScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MentionMuteScalarWhereWithAggregatesInput | Prisma.MentionMuteScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MentionMuteScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MentionMuteScalarWhereWithAggregatesInput | Prisma.MentionMuteScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"MentionMute"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"MentionMute"> | number
+  mutedUserId?: Prisma.IntWithAggregatesFilter<"MentionMute"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"MentionMute"> | Date | string
+}
+
+export type MentionMuteCreateInput = {
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutMentionMutesInput
+  mutedUser: Prisma.UserCreateNestedOneWithoutMentionMutedByInput
+}
+
+export type MentionMuteUncheckedCreateInput = {
+  id?: number
+  userId: number
+  mutedUserId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutMentionMutesNestedInput
+  mutedUser?: Prisma.UserUpdateOneRequiredWithoutMentionMutedByNestedInput
+}
+
+export type MentionMuteUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  mutedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteCreateManyInput = {
+  id?: number
+  userId: number
+  mutedUserId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  mutedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteListRelationFilter = {
+  every?: Prisma.MentionMuteWhereInput
+  some?: Prisma.MentionMuteWhereInput
+  none?: Prisma.MentionMuteWhereInput
+}
+
+export type MentionMuteOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type MentionMuteUserIdMutedUserIdCompoundUniqueInput = {
+  userId: number
+  mutedUserId: number
+}
+
+export type MentionMuteCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionMuteAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+}
+
+export type MentionMuteMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionMuteMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type MentionMuteSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  mutedUserId?: Prisma.SortOrder
+}
+
+export type MentionMuteCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput> | Prisma.MentionMuteCreateWithoutUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutUserInput | Prisma.MentionMuteCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyUserInputEnvelope
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+}
+
+export type MentionMuteCreateNestedManyWithoutMutedUserInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput> | Prisma.MentionMuteCreateWithoutMutedUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput | Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyMutedUserInputEnvelope
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+}
+
+export type MentionMuteUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput> | Prisma.MentionMuteCreateWithoutUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutUserInput | Prisma.MentionMuteCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyUserInputEnvelope
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+}
+
+export type MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput> | Prisma.MentionMuteCreateWithoutMutedUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput | Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyMutedUserInputEnvelope
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+}
+
+export type MentionMuteUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput> | Prisma.MentionMuteCreateWithoutUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutUserInput | Prisma.MentionMuteCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.MentionMuteUpsertWithWhereUniqueWithoutUserInput | Prisma.MentionMuteUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyUserInputEnvelope
+  set?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  disconnect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  delete?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  update?: Prisma.MentionMuteUpdateWithWhereUniqueWithoutUserInput | Prisma.MentionMuteUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.MentionMuteUpdateManyWithWhereWithoutUserInput | Prisma.MentionMuteUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+}
+
+export type MentionMuteUpdateManyWithoutMutedUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput> | Prisma.MentionMuteCreateWithoutMutedUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput | Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput[]
+  upsert?: Prisma.MentionMuteUpsertWithWhereUniqueWithoutMutedUserInput | Prisma.MentionMuteUpsertWithWhereUniqueWithoutMutedUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyMutedUserInputEnvelope
+  set?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  disconnect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  delete?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  update?: Prisma.MentionMuteUpdateWithWhereUniqueWithoutMutedUserInput | Prisma.MentionMuteUpdateWithWhereUniqueWithoutMutedUserInput[]
+  updateMany?: Prisma.MentionMuteUpdateManyWithWhereWithoutMutedUserInput | Prisma.MentionMuteUpdateManyWithWhereWithoutMutedUserInput[]
+  deleteMany?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+}
+
+export type MentionMuteUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput> | Prisma.MentionMuteCreateWithoutUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutUserInput | Prisma.MentionMuteCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.MentionMuteUpsertWithWhereUniqueWithoutUserInput | Prisma.MentionMuteUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyUserInputEnvelope
+  set?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  disconnect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  delete?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  update?: Prisma.MentionMuteUpdateWithWhereUniqueWithoutUserInput | Prisma.MentionMuteUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.MentionMuteUpdateManyWithWhereWithoutUserInput | Prisma.MentionMuteUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+}
+
+export type MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput = {
+  create?: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput> | Prisma.MentionMuteCreateWithoutMutedUserInput[] | Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput[]
+  connectOrCreate?: Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput | Prisma.MentionMuteCreateOrConnectWithoutMutedUserInput[]
+  upsert?: Prisma.MentionMuteUpsertWithWhereUniqueWithoutMutedUserInput | Prisma.MentionMuteUpsertWithWhereUniqueWithoutMutedUserInput[]
+  createMany?: Prisma.MentionMuteCreateManyMutedUserInputEnvelope
+  set?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  disconnect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  delete?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  connect?: Prisma.MentionMuteWhereUniqueInput | Prisma.MentionMuteWhereUniqueInput[]
+  update?: Prisma.MentionMuteUpdateWithWhereUniqueWithoutMutedUserInput | Prisma.MentionMuteUpdateWithWhereUniqueWithoutMutedUserInput[]
+  updateMany?: Prisma.MentionMuteUpdateManyWithWhereWithoutMutedUserInput | Prisma.MentionMuteUpdateManyWithWhereWithoutMutedUserInput[]
+  deleteMany?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+}
+
+export type MentionMuteCreateWithoutUserInput = {
+  createdAt?: Date | string
+  mutedUser: Prisma.UserCreateNestedOneWithoutMentionMutedByInput
+}
+
+export type MentionMuteUncheckedCreateWithoutUserInput = {
+  id?: number
+  mutedUserId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteCreateOrConnectWithoutUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  create: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput>
+}
+
+export type MentionMuteCreateManyUserInputEnvelope = {
+  data: Prisma.MentionMuteCreateManyUserInput | Prisma.MentionMuteCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type MentionMuteCreateWithoutMutedUserInput = {
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutMentionMutesInput
+}
+
+export type MentionMuteUncheckedCreateWithoutMutedUserInput = {
+  id?: number
+  userId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteCreateOrConnectWithoutMutedUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  create: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput>
+}
+
+export type MentionMuteCreateManyMutedUserInputEnvelope = {
+  data: Prisma.MentionMuteCreateManyMutedUserInput | Prisma.MentionMuteCreateManyMutedUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type MentionMuteUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  update: Prisma.XOR<Prisma.MentionMuteUpdateWithoutUserInput, Prisma.MentionMuteUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.MentionMuteCreateWithoutUserInput, Prisma.MentionMuteUncheckedCreateWithoutUserInput>
+}
+
+export type MentionMuteUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  data: Prisma.XOR<Prisma.MentionMuteUpdateWithoutUserInput, Prisma.MentionMuteUncheckedUpdateWithoutUserInput>
+}
+
+export type MentionMuteUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.MentionMuteScalarWhereInput
+  data: Prisma.XOR<Prisma.MentionMuteUpdateManyMutationInput, Prisma.MentionMuteUncheckedUpdateManyWithoutUserInput>
+}
+
+export type MentionMuteScalarWhereInput = {
+  AND?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+  OR?: Prisma.MentionMuteScalarWhereInput[]
+  NOT?: Prisma.MentionMuteScalarWhereInput | Prisma.MentionMuteScalarWhereInput[]
+  id?: Prisma.IntFilter<"MentionMute"> | number
+  userId?: Prisma.IntFilter<"MentionMute"> | number
+  mutedUserId?: Prisma.IntFilter<"MentionMute"> | number
+  createdAt?: Prisma.DateTimeFilter<"MentionMute"> | Date | string
+}
+
+export type MentionMuteUpsertWithWhereUniqueWithoutMutedUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  update: Prisma.XOR<Prisma.MentionMuteUpdateWithoutMutedUserInput, Prisma.MentionMuteUncheckedUpdateWithoutMutedUserInput>
+  create: Prisma.XOR<Prisma.MentionMuteCreateWithoutMutedUserInput, Prisma.MentionMuteUncheckedCreateWithoutMutedUserInput>
+}
+
+export type MentionMuteUpdateWithWhereUniqueWithoutMutedUserInput = {
+  where: Prisma.MentionMuteWhereUniqueInput
+  data: Prisma.XOR<Prisma.MentionMuteUpdateWithoutMutedUserInput, Prisma.MentionMuteUncheckedUpdateWithoutMutedUserInput>
+}
+
+export type MentionMuteUpdateManyWithWhereWithoutMutedUserInput = {
+  where: Prisma.MentionMuteScalarWhereInput
+  data: Prisma.XOR<Prisma.MentionMuteUpdateManyMutationInput, Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserInput>
+}
+
+export type MentionMuteCreateManyUserInput = {
+  id?: number
+  mutedUserId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteCreateManyMutedUserInput = {
+  id?: number
+  userId: number
+  createdAt?: Date | string
+}
+
+export type MentionMuteUpdateWithoutUserInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  mutedUser?: Prisma.UserUpdateOneRequiredWithoutMentionMutedByNestedInput
+}
+
+export type MentionMuteUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mutedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  mutedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteUpdateWithoutMutedUserInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutMentionMutesNestedInput
+}
+
+export type MentionMuteUncheckedUpdateWithoutMutedUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MentionMuteUncheckedUpdateManyWithoutMutedUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type MentionMuteSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  mutedUserId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mentionMute"]>
+
+export type MentionMuteSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  mutedUserId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mentionMute"]>
+
+export type MentionMuteSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  mutedUserId?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["mentionMute"]>
+
+export type MentionMuteSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  mutedUserId?: boolean
+  createdAt?: boolean
+}
+
+export type MentionMuteOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "mutedUserId" | "createdAt", ExtArgs["result"]["mentionMute"]>
+export type MentionMuteInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type MentionMuteIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type MentionMuteIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mutedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $MentionMutePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "MentionMute"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    mutedUser: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    userId: number
+    mutedUserId: number
+    createdAt: Date
+  }, ExtArgs["result"]["mentionMute"]>
+  composites: {}
+}
+
+export type MentionMuteGetPayload<S extends boolean | null | undefined | MentionMuteDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MentionMutePayload, S>
+
+export type MentionMuteCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MentionMuteFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MentionMuteCountAggregateInputType | true
+  }
+
+export interface MentionMuteDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MentionMute'], meta: { name: 'MentionMute' } }
+  /**
+   * Find zero or one MentionMute that matches the filter.
+   * @param {MentionMuteFindUniqueArgs} args - Arguments to find a MentionMute
+   * @example
+   * // Get one MentionMute
+   * const mentionMute = await prisma.mentionMute.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MentionMuteFindUniqueArgs>(args: Prisma.SelectSubset<T, MentionMuteFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one MentionMute that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MentionMuteFindUniqueOrThrowArgs} args - Arguments to find a MentionMute
+   * @example
+   * // Get one MentionMute
+   * const mentionMute = await prisma.mentionMute.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MentionMuteFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MentionMuteFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MentionMute that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteFindFirstArgs} args - Arguments to find a MentionMute
+   * @example
+   * // Get one MentionMute
+   * const mentionMute = await prisma.mentionMute.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MentionMuteFindFirstArgs>(args?: Prisma.SelectSubset<T, MentionMuteFindFirstArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MentionMute that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteFindFirstOrThrowArgs} args - Arguments to find a MentionMute
+   * @example
+   * // Get one MentionMute
+   * const mentionMute = await prisma.mentionMute.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MentionMuteFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MentionMuteFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more MentionMutes that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all MentionMutes
+   * const mentionMutes = await prisma.mentionMute.findMany()
+   * 
+   * // Get first 10 MentionMutes
+   * const mentionMutes = await prisma.mentionMute.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const mentionMuteWithIdOnly = await prisma.mentionMute.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MentionMuteFindManyArgs>(args?: Prisma.SelectSubset<T, MentionMuteFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a MentionMute.
+   * @param {MentionMuteCreateArgs} args - Arguments to create a MentionMute.
+   * @example
+   * // Create one MentionMute
+   * const MentionMute = await prisma.mentionMute.create({
+   *   data: {
+   *     // ... data to create a MentionMute
+   *   }
+   * })
+   * 
+   */
+  create<T extends MentionMuteCreateArgs>(args: Prisma.SelectSubset<T, MentionMuteCreateArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many MentionMutes.
+   * @param {MentionMuteCreateManyArgs} args - Arguments to create many MentionMutes.
+   * @example
+   * // Create many MentionMutes
+   * const mentionMute = await prisma.mentionMute.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MentionMuteCreateManyArgs>(args?: Prisma.SelectSubset<T, MentionMuteCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many MentionMutes and returns the data saved in the database.
+   * @param {MentionMuteCreateManyAndReturnArgs} args - Arguments to create many MentionMutes.
+   * @example
+   * // Create many MentionMutes
+   * const mentionMute = await prisma.mentionMute.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many MentionMutes and only return the `id`
+   * const mentionMuteWithIdOnly = await prisma.mentionMute.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MentionMuteCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MentionMuteCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a MentionMute.
+   * @param {MentionMuteDeleteArgs} args - Arguments to delete one MentionMute.
+   * @example
+   * // Delete one MentionMute
+   * const MentionMute = await prisma.mentionMute.delete({
+   *   where: {
+   *     // ... filter to delete one MentionMute
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MentionMuteDeleteArgs>(args: Prisma.SelectSubset<T, MentionMuteDeleteArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one MentionMute.
+   * @param {MentionMuteUpdateArgs} args - Arguments to update one MentionMute.
+   * @example
+   * // Update one MentionMute
+   * const mentionMute = await prisma.mentionMute.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MentionMuteUpdateArgs>(args: Prisma.SelectSubset<T, MentionMuteUpdateArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more MentionMutes.
+   * @param {MentionMuteDeleteManyArgs} args - Arguments to filter MentionMutes to delete.
+   * @example
+   * // Delete a few MentionMutes
+   * const { count } = await prisma.mentionMute.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MentionMuteDeleteManyArgs>(args?: Prisma.SelectSubset<T, MentionMuteDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MentionMutes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many MentionMutes
+   * const mentionMute = await prisma.mentionMute.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MentionMuteUpdateManyArgs>(args: Prisma.SelectSubset<T, MentionMuteUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MentionMutes and returns the data updated in the database.
+   * @param {MentionMuteUpdateManyAndReturnArgs} args - Arguments to update many MentionMutes.
+   * @example
+   * // Update many MentionMutes
+   * const mentionMute = await prisma.mentionMute.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more MentionMutes and only return the `id`
+   * const mentionMuteWithIdOnly = await prisma.mentionMute.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MentionMuteUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MentionMuteUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one MentionMute.
+   * @param {MentionMuteUpsertArgs} args - Arguments to update or create a MentionMute.
+   * @example
+   * // Update or create a MentionMute
+   * const mentionMute = await prisma.mentionMute.upsert({
+   *   create: {
+   *     // ... data to create a MentionMute
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the MentionMute we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MentionMuteUpsertArgs>(args: Prisma.SelectSubset<T, MentionMuteUpsertArgs<ExtArgs>>): Prisma.Prisma__MentionMuteClient<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of MentionMutes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteCountArgs} args - Arguments to filter MentionMutes to count.
+   * @example
+   * // Count the number of MentionMutes
+   * const count = await prisma.mentionMute.count({
+   *   where: {
+   *     // ... the filter for the MentionMutes we want to count
+   *   }
+   * })
+  **/
+  count<T extends MentionMuteCountArgs>(
+    args?: Prisma.Subset<T, MentionMuteCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MentionMuteCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a MentionMute.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MentionMuteAggregateArgs>(args: Prisma.Subset<T, MentionMuteAggregateArgs>): Prisma.PrismaPromise<GetMentionMuteAggregateType<T>>
+
+  /**
+   * Group by MentionMute.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MentionMuteGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MentionMuteGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MentionMuteGroupByArgs['orderBy'] }
+      : { orderBy?: MentionMuteGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MentionMuteGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMentionMuteGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the MentionMute model
+ */
+readonly fields: MentionMuteFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for MentionMute.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MentionMuteClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  mutedUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the MentionMute model
+ */
+export interface MentionMuteFieldRefs {
+  readonly id: Prisma.FieldRef<"MentionMute", 'Int'>
+  readonly userId: Prisma.FieldRef<"MentionMute", 'Int'>
+  readonly mutedUserId: Prisma.FieldRef<"MentionMute", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"MentionMute", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * MentionMute findUnique
+ */
+export type MentionMuteFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter, which MentionMute to fetch.
+   */
+  where: Prisma.MentionMuteWhereUniqueInput
+}
+
+/**
+ * MentionMute findUniqueOrThrow
+ */
+export type MentionMuteFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter, which MentionMute to fetch.
+   */
+  where: Prisma.MentionMuteWhereUniqueInput
+}
+
+/**
+ * MentionMute findFirst
+ */
+export type MentionMuteFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter, which MentionMute to fetch.
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MentionMutes to fetch.
+   */
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MentionMutes.
+   */
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MentionMutes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MentionMutes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MentionMutes.
+   */
+  distinct?: Prisma.MentionMuteScalarFieldEnum | Prisma.MentionMuteScalarFieldEnum[]
+}
+
+/**
+ * MentionMute findFirstOrThrow
+ */
+export type MentionMuteFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter, which MentionMute to fetch.
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MentionMutes to fetch.
+   */
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MentionMutes.
+   */
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MentionMutes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MentionMutes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MentionMutes.
+   */
+  distinct?: Prisma.MentionMuteScalarFieldEnum | Prisma.MentionMuteScalarFieldEnum[]
+}
+
+/**
+ * MentionMute findMany
+ */
+export type MentionMuteFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter, which MentionMutes to fetch.
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MentionMutes to fetch.
+   */
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing MentionMutes.
+   */
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MentionMutes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MentionMutes.
+   */
+  skip?: number
+  distinct?: Prisma.MentionMuteScalarFieldEnum | Prisma.MentionMuteScalarFieldEnum[]
+}
+
+/**
+ * MentionMute create
+ */
+export type MentionMuteCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * The data needed to create a MentionMute.
+   */
+  data: Prisma.XOR<Prisma.MentionMuteCreateInput, Prisma.MentionMuteUncheckedCreateInput>
+}
+
+/**
+ * MentionMute createMany
+ */
+export type MentionMuteCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many MentionMutes.
+   */
+  data: Prisma.MentionMuteCreateManyInput | Prisma.MentionMuteCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MentionMute createManyAndReturn
+ */
+export type MentionMuteCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * The data used to create many MentionMutes.
+   */
+  data: Prisma.MentionMuteCreateManyInput | Prisma.MentionMuteCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MentionMute update
+ */
+export type MentionMuteUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * The data needed to update a MentionMute.
+   */
+  data: Prisma.XOR<Prisma.MentionMuteUpdateInput, Prisma.MentionMuteUncheckedUpdateInput>
+  /**
+   * Choose, which MentionMute to update.
+   */
+  where: Prisma.MentionMuteWhereUniqueInput
+}
+
+/**
+ * MentionMute updateMany
+ */
+export type MentionMuteUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update MentionMutes.
+   */
+  data: Prisma.XOR<Prisma.MentionMuteUpdateManyMutationInput, Prisma.MentionMuteUncheckedUpdateManyInput>
+  /**
+   * Filter which MentionMutes to update
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * Limit how many MentionMutes to update.
+   */
+  limit?: number
+}
+
+/**
+ * MentionMute updateManyAndReturn
+ */
+export type MentionMuteUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * The data used to update MentionMutes.
+   */
+  data: Prisma.XOR<Prisma.MentionMuteUpdateManyMutationInput, Prisma.MentionMuteUncheckedUpdateManyInput>
+  /**
+   * Filter which MentionMutes to update
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * Limit how many MentionMutes to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MentionMute upsert
+ */
+export type MentionMuteUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * The filter to search for the MentionMute to update in case it exists.
+   */
+  where: Prisma.MentionMuteWhereUniqueInput
+  /**
+   * In case the MentionMute found by the `where` argument doesn't exist, create a new MentionMute with this data.
+   */
+  create: Prisma.XOR<Prisma.MentionMuteCreateInput, Prisma.MentionMuteUncheckedCreateInput>
+  /**
+   * In case the MentionMute was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MentionMuteUpdateInput, Prisma.MentionMuteUncheckedUpdateInput>
+}
+
+/**
+ * MentionMute delete
+ */
+export type MentionMuteDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  /**
+   * Filter which MentionMute to delete.
+   */
+  where: Prisma.MentionMuteWhereUniqueInput
+}
+
+/**
+ * MentionMute deleteMany
+ */
+export type MentionMuteDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MentionMutes to delete
+   */
+  where?: Prisma.MentionMuteWhereInput
+  /**
+   * Limit how many MentionMutes to delete.
+   */
+  limit?: number
+}
+
+/**
+ * MentionMute without action
+ */
+export type MentionMuteDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+}
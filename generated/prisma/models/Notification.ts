@@ -45,6 +45,7 @@ export type NotificationMinAggregateOutputType = {
   content: string | null
   isRead: boolean | null
   relatedId: number | null
+  link: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -57,6 +58,7 @@ export type NotificationMaxAggregateOutputType = {
   content: string | null
   isRead: boolean | null
   relatedId: number | null
+  link: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -69,6 +71,7 @@ export type NotificationCountAggregateOutputType = {
   content: number
   isRead: number
   relatedId: number
+  link: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -95,6 +98,7 @@ export type NotificationMinAggregateInputType = {
   content?: true
   isRead?: true
   relatedId?: true
+  link?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -107,6 +111,7 @@ export type NotificationMaxAggregateInputType = {
   content?: true
   isRead?: true
   relatedId?: true
+  link?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -119,6 +124,7 @@ export type NotificationCountAggregateInputType = {
   content?: true
   isRead?: true
   relatedId?: true
+  link?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -218,6 +224,7 @@ export type NotificationGroupByOutputType = {
   content: string
   isRead: boolean
   relatedId: number | null
+  link: string | null
   createdAt: Date
   updatedAt: Date
   _count: NotificationCountAggregateOutputType | null
@@ -253,6 +260,7 @@ export type NotificationWhereInput = {
   content?: Prisma.StringFilter<"Notification"> | string
   isRead?: Prisma.BoolFilter<"Notification"> | boolean
   relatedId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  link?: Prisma.StringNullableFilter<"Notification"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -266,6 +274,7 @@ export type NotificationOrderByWithRelationInput = {
   content?: Prisma.SortOrder
   isRead?: Prisma.SortOrder
   relatedId?: Prisma.SortOrderInput | Prisma.SortOrder
+  link?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
@@ -282,6 +291,7 @@ export type NotificationWhereUniqueInput = Prisma.AtLeast<{
   content?: Prisma.StringFilter<"Notification"> | string
   isRead?: Prisma.BoolFilter<"Notification"> | boolean
   relatedId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  link?: Prisma.StringNullableFilter<"Notification"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -295,6 +305,7 @@ export type NotificationOrderByWithAggregationInput = {
   content?: Prisma.SortOrder
   isRead?: Prisma.SortOrder
   relatedId?: Prisma.SortOrderInput | Prisma.SortOrder
+  link?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.NotificationCountOrderByAggregateInput
@@ -315,6 +326,7 @@ export type NotificationScalarWhereWithAggregatesInput = {
   content?: Prisma.StringWithAggregatesFilter<"Notification"> | string
   isRead?: Prisma.BoolWithAggregatesFilter<"Notification"> | boolean
   relatedId?: Prisma.IntNullableWithAggregatesFilter<"Notification"> | number | null
+  link?: Prisma.StringNullableWithAggregatesFilter<"Notification"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Notification"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Notification"> | Date | string
 }
@@ -325,6 +337,7 @@ export type NotificationCreateInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutNotificationsInput
@@ -338,6 +351,7 @@ export type NotificationUncheckedCreateInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -348,6 +362,7 @@ export type NotificationUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
@@ -361,6 +376,7 @@ export type NotificationUncheckedUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -373,6 +389,7 @@ export type NotificationCreateManyInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -383,6 +400,7 @@ export type NotificationUpdateManyMutationInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -395,6 +413,7 @@ export type NotificationUncheckedUpdateManyInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -417,6 +436,7 @@ export type NotificationCountOrderByAggregateInput = {
   content?: Prisma.SortOrder
   isRead?: Prisma.SortOrder
   relatedId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -435,6 +455,7 @@ export type NotificationMaxOrderByAggregateInput = {
   content?: Prisma.SortOrder
   isRead?: Prisma.SortOrder
   relatedId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -447,6 +468,7 @@ export type NotificationMinOrderByAggregateInput = {
   content?: Prisma.SortOrder
   isRead?: Prisma.SortOrder
   relatedId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -505,6 +527,7 @@ export type NotificationCreateWithoutUserInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -516,6 +539,7 @@ export type NotificationUncheckedCreateWithoutUserInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -557,6 +581,7 @@ export type NotificationScalarWhereInput = {
   content?: Prisma.StringFilter<"Notification"> | string
   isRead?: Prisma.BoolFilter<"Notification"> | boolean
   relatedId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  link?: Prisma.StringNullableFilter<"Notification"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
 }
@@ -568,6 +593,7 @@ export type NotificationCreateManyUserInput = {
   content: string
   isRead?: boolean
   relatedId?: number | null
+  link?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -578,6 +604,7 @@ export type NotificationUpdateWithoutUserInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -589,6 +616,7 @@ export type NotificationUncheckedUpdateWithoutUserInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -600,6 +628,7 @@ export type NotificationUncheckedUpdateManyWithoutUserInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   isRead?: Prisma.BoolFieldUpdateOperationsInput | boolean
   relatedId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  link?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -614,6 +643,7 @@ export type NotificationSelect<ExtArgs extends runtime.Types.Extensions.Internal
   content?: boolean
   isRead?: boolean
   relatedId?: boolean
+  link?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -627,6 +657,7 @@ export type NotificationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
   content?: boolean
   isRead?: boolean
   relatedId?: boolean
+  link?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -640,6 +671,7 @@ export type NotificationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
   content?: boolean
   isRead?: boolean
   relatedId?: boolean
+  link?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -653,11 +685,12 @@ export type NotificationSelectScalar = {
   content?: boolean
   isRead?: boolean
   relatedId?: boolean
+  link?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type NotificationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "type" | "title" | "content" | "isRead" | "relatedId" | "createdAt" | "updatedAt", ExtArgs["result"]["notification"]>
+export type NotificationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "type" | "title" | "content" | "isRead" | "relatedId" | "link" | "createdAt" | "updatedAt", ExtArgs["result"]["notification"]>
 export type NotificationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
@@ -681,6 +714,7 @@ export type $NotificationPayload<ExtArgs extends runtime.Types.Extensions.Intern
     content: string
     isRead: boolean
     relatedId: number | null
+    link: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["notification"]>
@@ -1114,6 +1148,7 @@ export interface NotificationFieldRefs {
   readonly content: Prisma.FieldRef<"Notification", 'String'>
   readonly isRead: Prisma.FieldRef<"Notification", 'Boolean'>
   readonly relatedId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly link: Prisma.FieldRef<"Notification", 'String'>
   readonly createdAt: Prisma.FieldRef<"Notification", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Notification", 'DateTime'>
 }
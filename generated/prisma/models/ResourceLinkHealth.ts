@@ -0,0 +1,1523 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourceLinkHealth` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ResourceLinkHealth
+ * 
+ */
+export type ResourceLinkHealthModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourceLinkHealthPayload>
+
+export type AggregateResourceLinkHealth = {
+  _count: ResourceLinkHealthCountAggregateOutputType | null
+  _avg: ResourceLinkHealthAvgAggregateOutputType | null
+  _sum: ResourceLinkHealthSumAggregateOutputType | null
+  _min: ResourceLinkHealthMinAggregateOutputType | null
+  _max: ResourceLinkHealthMaxAggregateOutputType | null
+}
+
+export type ResourceLinkHealthAvgAggregateOutputType = {
+  id: number | null
+  targetId: number | null
+  consecutiveFailures: number | null
+  checkCount: number | null
+  lastStatusCode: number | null
+}
+
+export type ResourceLinkHealthSumAggregateOutputType = {
+  id: number | null
+  targetId: number | null
+  consecutiveFailures: number | null
+  checkCount: number | null
+  lastStatusCode: number | null
+}
+
+export type ResourceLinkHealthMinAggregateOutputType = {
+  id: number | null
+  targetType: string | null
+  targetId: number | null
+  link: string | null
+  canonicalLink: string | null
+  service: string | null
+  status: string | null
+  consecutiveFailures: number | null
+  checkCount: number | null
+  lastStatusCode: number | null
+  lastError: string | null
+  lastCheckedAt: Date | null
+  lastOkAt: Date | null
+  unpublishedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourceLinkHealthMaxAggregateOutputType = {
+  id: number | null
+  targetType: string | null
+  targetId: number | null
+  link: string | null
+  canonicalLink: string | null
+  service: string | null
+  status: string | null
+  consecutiveFailures: number | null
+  checkCount: number | null
+  lastStatusCode: number | null
+  lastError: string | null
+  lastCheckedAt: Date | null
+  lastOkAt: Date | null
+  unpublishedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourceLinkHealthCountAggregateOutputType = {
+  id: number
+  targetType: number
+  targetId: number
+  link: number
+  canonicalLink: number
+  service: number
+  status: number
+  consecutiveFailures: number
+  checkCount: number
+  lastStatusCode: number
+  lastError: number
+  lastCheckedAt: number
+  lastOkAt: number
+  unpublishedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ResourceLinkHealthAvgAggregateInputType = {
+  id?: true
+  targetId?: true
+  consecutiveFailures?: true
+  checkCount?: true
+  lastStatusCode?: true
+}
+
+export type ResourceLinkHealthSumAggregateInputType = {
+  id?: true
+  targetId?: true
+  consecutiveFailures?: true
+  checkCount?: true
+  lastStatusCode?: true
+}
+
+export type ResourceLinkHealthMinAggregateInputType = {
+  id?: true
+  targetType?: true
+  targetId?: true
+  link?: true
+  canonicalLink?: true
+  service?: true
+  status?: true
+  consecutiveFailures?: true
+  checkCount?: true
+  lastStatusCode?: true
+  lastError?: true
+  lastCheckedAt?: true
+  lastOkAt?: true
+  unpublishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourceLinkHealthMaxAggregateInputType = {
+  id?: true
+  targetType?: true
+  targetId?: true
+  link?: true
+  canonicalLink?: true
+  service?: true
+  status?: true
+  consecutiveFailures?: true
+  checkCount?: true
+  lastStatusCode?: true
+  lastError?: true
+  lastCheckedAt?: true
+  lastOkAt?: true
+  unpublishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourceLinkHealthCountAggregateInputType = {
+  id?: true
+  targetType?: true
+  targetId?: true
+  link?: true
+  canonicalLink?: true
+  service?: true
+  status?: true
+  consecutiveFailures?: true
+  checkCount?: true
+  lastStatusCode?: true
+  lastError?: true
+  lastCheckedAt?: true
+  lastOkAt?: true
+  unpublishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ResourceLinkHealthAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceLinkHealth to aggregate.
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceLinkHealths to fetch.
+   */
+  orderBy?: Prisma.ResourceLinkHealthOrderByWithRelationInput | Prisma.ResourceLinkHealthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourceLinkHealthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceLinkHealths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceLinkHealths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourceLinkHealths
+  **/
+  _count?: true | ResourceLinkHealthCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourceLinkHealthAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourceLinkHealthSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourceLinkHealthMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourceLinkHealthMaxAggregateInputType
+}
+
+export type GetResourceLinkHealthAggregateType<T extends ResourceLinkHealthAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourceLinkHealth]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourceLinkHealth[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourceLinkHealth[P]>
+}
+
+
+
+
+export type ResourceLinkHealthGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceLinkHealthWhereInput
+  orderBy?: Prisma.ResourceLinkHealthOrderByWithAggregationInput | Prisma.ResourceLinkHealthOrderByWithAggregationInput[]
+  by: Prisma.ResourceLinkHealthScalarFieldEnum[] | Prisma.ResourceLinkHealthScalarFieldEnum
+  having?: Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourceLinkHealthCountAggregateInputType | true
+  _avg?: ResourceLinkHealthAvgAggregateInputType
+  _sum?: ResourceLinkHealthSumAggregateInputType
+  _min?: ResourceLinkHealthMinAggregateInputType
+  _max?: ResourceLinkHealthMaxAggregateInputType
+}
+
+export type ResourceLinkHealthGroupByOutputType = {
+  id: number
+  targetType: string
+  targetId: number
+  link: string
+  canonicalLink: string
+  service: string
+  status: string
+  consecutiveFailures: number
+  checkCount: number
+  lastStatusCode: number | null
+  lastError: string | null
+  lastCheckedAt: Date | null
+  lastOkAt: Date | null
+  unpublishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ResourceLinkHealthCountAggregateOutputType | null
+  _avg: ResourceLinkHealthAvgAggregateOutputType | null
+  _sum: ResourceLinkHealthSumAggregateOutputType | null
+  _min: ResourceLinkHealthMinAggregateOutputType | null
+  _max: ResourceLinkHealthMaxAggregateOutputType | null
+}
+
+type GetResourceLinkHealthGroupByPayload<T extends ResourceLinkHealthGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourceLinkHealthGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourceLinkHealthGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourceLinkHealthGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourceLinkHealthGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourceLinkHealthWhereInput = {
+  AND?: Prisma.ResourceLinkHealthWhereInput | Prisma.ResourceLinkHealthWhereInput[]
+  OR?: Prisma.ResourceLinkHealthWhereInput[]
+  NOT?: Prisma.ResourceLinkHealthWhereInput | Prisma.ResourceLinkHealthWhereInput[]
+  id?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  targetType?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  targetId?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  link?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  canonicalLink?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  service?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  status?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  consecutiveFailures?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  checkCount?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  lastStatusCode?: Prisma.IntNullableFilter<"ResourceLinkHealth"> | number | null
+  lastError?: Prisma.StringNullableFilter<"ResourceLinkHealth"> | string | null
+  lastCheckedAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  lastOkAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  unpublishedAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceLinkHealth"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourceLinkHealth"> | Date | string
+}
+
+export type ResourceLinkHealthOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
+  canonicalLink?: Prisma.SortOrder
+  service?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastOkAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unpublishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceLinkHealthWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  targetType_targetId_canonicalLink?: Prisma.ResourceLinkHealthTargetTypeTargetIdCanonicalLinkCompoundUniqueInput
+  AND?: Prisma.ResourceLinkHealthWhereInput | Prisma.ResourceLinkHealthWhereInput[]
+  OR?: Prisma.ResourceLinkHealthWhereInput[]
+  NOT?: Prisma.ResourceLinkHealthWhereInput | Prisma.ResourceLinkHealthWhereInput[]
+  targetType?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  targetId?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  link?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  canonicalLink?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  service?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  status?: Prisma.StringFilter<"ResourceLinkHealth"> | string
+  consecutiveFailures?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  checkCount?: Prisma.IntFilter<"ResourceLinkHealth"> | number
+  lastStatusCode?: Prisma.IntNullableFilter<"ResourceLinkHealth"> | number | null
+  lastError?: Prisma.StringNullableFilter<"ResourceLinkHealth"> | string | null
+  lastCheckedAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  lastOkAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  unpublishedAt?: Prisma.DateTimeNullableFilter<"ResourceLinkHealth"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceLinkHealth"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourceLinkHealth"> | Date | string
+}, "id" | "targetType_targetId_canonicalLink">
+
+export type ResourceLinkHealthOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
+  canonicalLink?: Prisma.SortOrder
+  service?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastOkAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unpublishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ResourceLinkHealthCountOrderByAggregateInput
+  _avg?: Prisma.ResourceLinkHealthAvgOrderByAggregateInput
+  _max?: Prisma.ResourceLinkHealthMaxOrderByAggregateInput
+  _min?: Prisma.ResourceLinkHealthMinOrderByAggregateInput
+  _sum?: Prisma.ResourceLinkHealthSumOrderByAggregateInput
+}
+
+export type ResourceLinkHealthScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput | Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput | Prisma.ResourceLinkHealthScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ResourceLinkHealth"> | number
+  targetType?: Prisma.StringWithAggregatesFilter<"ResourceLinkHealth"> | string
+  targetId?: Prisma.IntWithAggregatesFilter<"ResourceLinkHealth"> | number
+  link?: Prisma.StringWithAggregatesFilter<"ResourceLinkHealth"> | string
+  canonicalLink?: Prisma.StringWithAggregatesFilter<"ResourceLinkHealth"> | string
+  service?: Prisma.StringWithAggregatesFilter<"ResourceLinkHealth"> | string
+  status?: Prisma.StringWithAggregatesFilter<"ResourceLinkHealth"> | string
+  consecutiveFailures?: Prisma.IntWithAggregatesFilter<"ResourceLinkHealth"> | number
+  checkCount?: Prisma.IntWithAggregatesFilter<"ResourceLinkHealth"> | number
+  lastStatusCode?: Prisma.IntNullableWithAggregatesFilter<"ResourceLinkHealth"> | number | null
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"ResourceLinkHealth"> | string | null
+  lastCheckedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ResourceLinkHealth"> | Date | string | null
+  lastOkAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ResourceLinkHealth"> | Date | string | null
+  unpublishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ResourceLinkHealth"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceLinkHealth"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceLinkHealth"> | Date | string
+}
+
+export type ResourceLinkHealthCreateInput = {
+  targetType: string
+  targetId: number
+  link: string
+  canonicalLink: string
+  service: string
+  status?: string
+  consecutiveFailures?: number
+  checkCount?: number
+  lastStatusCode?: number | null
+  lastError?: string | null
+  lastCheckedAt?: Date | string | null
+  lastOkAt?: Date | string | null
+  unpublishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceLinkHealthUncheckedCreateInput = {
+  id?: number
+  targetType: string
+  targetId: number
+  link: string
+  canonicalLink: string
+  service: string
+  status?: string
+  consecutiveFailures?: number
+  checkCount?: number
+  lastStatusCode?: number | null
+  lastError?: string | null
+  lastCheckedAt?: Date | string | null
+  lastOkAt?: Date | string | null
+  unpublishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceLinkHealthUpdateInput = {
+  targetType?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.IntFieldUpdateOperationsInput | number
+  link?: Prisma.StringFieldUpdateOperationsInput | string
+  canonicalLink?: Prisma.StringFieldUpdateOperationsInput | string
+  service?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  consecutiveFailures?: Prisma.IntFieldUpdateOperationsInput | number
+  checkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastStatusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastCheckedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastOkAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceLinkHealthUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  targetType?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.IntFieldUpdateOperationsInput | number
+  link?: Prisma.StringFieldUpdateOperationsInput | string
+  canonicalLink?: Prisma.StringFieldUpdateOperationsInput | string
+  service?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  consecutiveFailures?: Prisma.IntFieldUpdateOperationsInput | number
+  checkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastStatusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastCheckedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastOkAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceLinkHealthCreateManyInput = {
+  id?: number
+  targetType: string
+  targetId: number
+  link: string
+  canonicalLink: string
+  service: string
+  status?: string
+  consecutiveFailures?: number
+  checkCount?: number
+  lastStatusCode?: number | null
+  lastError?: string | null
+  lastCheckedAt?: Date | string | null
+  lastOkAt?: Date | string | null
+  unpublishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceLinkHealthUpdateManyMutationInput = {
+  targetType?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.IntFieldUpdateOperationsInput | number
+  link?: Prisma.StringFieldUpdateOperationsInput | string
+  canonicalLink?: Prisma.StringFieldUpdateOperationsInput | string
+  service?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  consecutiveFailures?: Prisma.IntFieldUpdateOperationsInput | number
+  checkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastStatusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastCheckedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastOkAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceLinkHealthUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  targetType?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.IntFieldUpdateOperationsInput | number
+  link?: Prisma.StringFieldUpdateOperationsInput | string
+  canonicalLink?: Prisma.StringFieldUpdateOperationsInput | string
+  service?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  consecutiveFailures?: Prisma.IntFieldUpdateOperationsInput | number
+  checkCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastStatusCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastCheckedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastOkAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceLinkHealthTargetTypeTargetIdCanonicalLinkCompoundUniqueInput = {
+  targetType: string
+  targetId: number
+  canonicalLink: string
+}
+
+export type ResourceLinkHealthCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
+  canonicalLink?: Prisma.SortOrder
+  service?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastOkAt?: Prisma.SortOrder
+  unpublishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceLinkHealthAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrder
+}
+
+export type ResourceLinkHealthMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
+  canonicalLink?: Prisma.SortOrder
+  service?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastOkAt?: Prisma.SortOrder
+  unpublishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceLinkHealthMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  targetType?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  link?: Prisma.SortOrder
+  canonicalLink?: Prisma.SortOrder
+  service?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastOkAt?: Prisma.SortOrder
+  unpublishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceLinkHealthSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  consecutiveFailures?: Prisma.SortOrder
+  checkCount?: Prisma.SortOrder
+  lastStatusCode?: Prisma.SortOrder
+}
+
+
+
+export type ResourceLinkHealthSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  link?: boolean
+  canonicalLink?: boolean
+  service?: boolean
+  status?: boolean
+  consecutiveFailures?: boolean
+  checkCount?: boolean
+  lastStatusCode?: boolean
+  lastError?: boolean
+  lastCheckedAt?: boolean
+  lastOkAt?: boolean
+  unpublishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["resourceLinkHealth"]>
+
+export type ResourceLinkHealthSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  link?: boolean
+  canonicalLink?: boolean
+  service?: boolean
+  status?: boolean
+  consecutiveFailures?: boolean
+  checkCount?: boolean
+  lastStatusCode?: boolean
+  lastError?: boolean
+  lastCheckedAt?: boolean
+  lastOkAt?: boolean
+  unpublishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["resourceLinkHealth"]>
+
+export type ResourceLinkHealthSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  link?: boolean
+  canonicalLink?: boolean
+  service?: boolean
+  status?: boolean
+  consecutiveFailures?: boolean
+  checkCount?: boolean
+  lastStatusCode?: boolean
+  lastError?: boolean
+  lastCheckedAt?: boolean
+  lastOkAt?: boolean
+  unpublishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["resourceLinkHealth"]>
+
+export type ResourceLinkHealthSelectScalar = {
+  id?: boolean
+  targetType?: boolean
+  targetId?: boolean
+  link?: boolean
+  canonicalLink?: boolean
+  service?: boolean
+  status?: boolean
+  consecutiveFailures?: boolean
+  checkCount?: boolean
+  lastStatusCode?: boolean
+  lastError?: boolean
+  lastCheckedAt?: boolean
+  lastOkAt?: boolean
+  unpublishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ResourceLinkHealthOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "targetType" | "targetId" | "link" | "canonicalLink" | "service" | "status" | "consecutiveFailures" | "checkCount" | "lastStatusCode" | "lastError" | "lastCheckedAt" | "lastOkAt" | "unpublishedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["resourceLinkHealth"]>
+
+export type $ResourceLinkHealthPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourceLinkHealth"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    targetType: string
+    targetId: number
+    link: string
+    canonicalLink: string
+    service: string
+    status: string
+    consecutiveFailures: number
+    checkCount: number
+    lastStatusCode: number | null
+    lastError: string | null
+    lastCheckedAt: Date | null
+    lastOkAt: Date | null
+    unpublishedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["resourceLinkHealth"]>
+  composites: {}
+}
+
+export type ResourceLinkHealthGetPayload<S extends boolean | null | undefined | ResourceLinkHealthDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload, S>
+
+export type ResourceLinkHealthCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourceLinkHealthFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourceLinkHealthCountAggregateInputType | true
+  }
+
+export interface ResourceLinkHealthDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourceLinkHealth'], meta: { name: 'ResourceLinkHealth' } }
+  /**
+   * Find zero or one ResourceLinkHealth that matches the filter.
+   * @param {ResourceLinkHealthFindUniqueArgs} args - Arguments to find a ResourceLinkHealth
+   * @example
+   * // Get one ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourceLinkHealthFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourceLinkHealth that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourceLinkHealthFindUniqueOrThrowArgs} args - Arguments to find a ResourceLinkHealth
+   * @example
+   * // Get one ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourceLinkHealthFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceLinkHealth that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthFindFirstArgs} args - Arguments to find a ResourceLinkHealth
+   * @example
+   * // Get one ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourceLinkHealthFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceLinkHealth that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthFindFirstOrThrowArgs} args - Arguments to find a ResourceLinkHealth
+   * @example
+   * // Get one ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourceLinkHealthFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourceLinkHealths that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourceLinkHealths
+   * const resourceLinkHealths = await prisma.resourceLinkHealth.findMany()
+   * 
+   * // Get first 10 ResourceLinkHealths
+   * const resourceLinkHealths = await prisma.resourceLinkHealth.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourceLinkHealthWithIdOnly = await prisma.resourceLinkHealth.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourceLinkHealthFindManyArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourceLinkHealth.
+   * @param {ResourceLinkHealthCreateArgs} args - Arguments to create a ResourceLinkHealth.
+   * @example
+   * // Create one ResourceLinkHealth
+   * const ResourceLinkHealth = await prisma.resourceLinkHealth.create({
+   *   data: {
+   *     // ... data to create a ResourceLinkHealth
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourceLinkHealthCreateArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthCreateArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourceLinkHealths.
+   * @param {ResourceLinkHealthCreateManyArgs} args - Arguments to create many ResourceLinkHealths.
+   * @example
+   * // Create many ResourceLinkHealths
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourceLinkHealthCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourceLinkHealths and returns the data saved in the database.
+   * @param {ResourceLinkHealthCreateManyAndReturnArgs} args - Arguments to create many ResourceLinkHealths.
+   * @example
+   * // Create many ResourceLinkHealths
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourceLinkHealths and only return the `id`
+   * const resourceLinkHealthWithIdOnly = await prisma.resourceLinkHealth.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourceLinkHealthCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourceLinkHealth.
+   * @param {ResourceLinkHealthDeleteArgs} args - Arguments to delete one ResourceLinkHealth.
+   * @example
+   * // Delete one ResourceLinkHealth
+   * const ResourceLinkHealth = await prisma.resourceLinkHealth.delete({
+   *   where: {
+   *     // ... filter to delete one ResourceLinkHealth
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourceLinkHealthDeleteArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourceLinkHealth.
+   * @param {ResourceLinkHealthUpdateArgs} args - Arguments to update one ResourceLinkHealth.
+   * @example
+   * // Update one ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourceLinkHealthUpdateArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourceLinkHealths.
+   * @param {ResourceLinkHealthDeleteManyArgs} args - Arguments to filter ResourceLinkHealths to delete.
+   * @example
+   * // Delete a few ResourceLinkHealths
+   * const { count } = await prisma.resourceLinkHealth.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourceLinkHealthDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourceLinkHealthDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceLinkHealths.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourceLinkHealths
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourceLinkHealthUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceLinkHealths and returns the data updated in the database.
+   * @param {ResourceLinkHealthUpdateManyAndReturnArgs} args - Arguments to update many ResourceLinkHealths.
+   * @example
+   * // Update many ResourceLinkHealths
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourceLinkHealths and only return the `id`
+   * const resourceLinkHealthWithIdOnly = await prisma.resourceLinkHealth.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourceLinkHealthUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourceLinkHealth.
+   * @param {ResourceLinkHealthUpsertArgs} args - Arguments to update or create a ResourceLinkHealth.
+   * @example
+   * // Update or create a ResourceLinkHealth
+   * const resourceLinkHealth = await prisma.resourceLinkHealth.upsert({
+   *   create: {
+   *     // ... data to create a ResourceLinkHealth
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourceLinkHealth we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourceLinkHealthUpsertArgs>(args: Prisma.SelectSubset<T, ResourceLinkHealthUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourceLinkHealthClient<runtime.Types.Result.GetResult<Prisma.$ResourceLinkHealthPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourceLinkHealths.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthCountArgs} args - Arguments to filter ResourceLinkHealths to count.
+   * @example
+   * // Count the number of ResourceLinkHealths
+   * const count = await prisma.resourceLinkHealth.count({
+   *   where: {
+   *     // ... the filter for the ResourceLinkHealths we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourceLinkHealthCountArgs>(
+    args?: Prisma.Subset<T, ResourceLinkHealthCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourceLinkHealthCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourceLinkHealth.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourceLinkHealthAggregateArgs>(args: Prisma.Subset<T, ResourceLinkHealthAggregateArgs>): Prisma.PrismaPromise<GetResourceLinkHealthAggregateType<T>>
+
+  /**
+   * Group by ResourceLinkHealth.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceLinkHealthGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourceLinkHealthGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourceLinkHealthGroupByArgs['orderBy'] }
+      : { orderBy?: ResourceLinkHealthGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourceLinkHealthGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourceLinkHealthGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourceLinkHealth model
+ */
+readonly fields: ResourceLinkHealthFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourceLinkHealth.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourceLinkHealthClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourceLinkHealth model
+ */
+export interface ResourceLinkHealthFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourceLinkHealth", 'Int'>
+  readonly targetType: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly targetId: Prisma.FieldRef<"ResourceLinkHealth", 'Int'>
+  readonly link: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly canonicalLink: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly service: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly status: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly consecutiveFailures: Prisma.FieldRef<"ResourceLinkHealth", 'Int'>
+  readonly checkCount: Prisma.FieldRef<"ResourceLinkHealth", 'Int'>
+  readonly lastStatusCode: Prisma.FieldRef<"ResourceLinkHealth", 'Int'>
+  readonly lastError: Prisma.FieldRef<"ResourceLinkHealth", 'String'>
+  readonly lastCheckedAt: Prisma.FieldRef<"ResourceLinkHealth", 'DateTime'>
+  readonly lastOkAt: Prisma.FieldRef<"ResourceLinkHealth", 'DateTime'>
+  readonly unpublishedAt: Prisma.FieldRef<"ResourceLinkHealth", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ResourceLinkHealth", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ResourceLinkHealth", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourceLinkHealth findUnique
+ */
+export type ResourceLinkHealthFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter, which ResourceLinkHealth to fetch.
+   */
+  where: Prisma.ResourceLinkHealthWhereUniqueInput
+}
+
+/**
+ * ResourceLinkHealth findUniqueOrThrow
+ */
+export type ResourceLinkHealthFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter, which ResourceLinkHealth to fetch.
+   */
+  where: Prisma.ResourceLinkHealthWhereUniqueInput
+}
+
+/**
+ * ResourceLinkHealth findFirst
+ */
+export type ResourceLinkHealthFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter, which ResourceLinkHealth to fetch.
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceLinkHealths to fetch.
+   */
+  orderBy?: Prisma.ResourceLinkHealthOrderByWithRelationInput | Prisma.ResourceLinkHealthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceLinkHealths.
+   */
+  cursor?: Prisma.ResourceLinkHealthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceLinkHealths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceLinkHealths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceLinkHealths.
+   */
+  distinct?: Prisma.ResourceLinkHealthScalarFieldEnum | Prisma.ResourceLinkHealthScalarFieldEnum[]
+}
+
+/**
+ * ResourceLinkHealth findFirstOrThrow
+ */
+export type ResourceLinkHealthFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter, which ResourceLinkHealth to fetch.
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceLinkHealths to fetch.
+   */
+  orderBy?: Prisma.ResourceLinkHealthOrderByWithRelationInput | Prisma.ResourceLinkHealthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceLinkHealths.
+   */
+  cursor?: Prisma.ResourceLinkHealthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceLinkHealths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceLinkHealths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceLinkHealths.
+   */
+  distinct?: Prisma.ResourceLinkHealthScalarFieldEnum | Prisma.ResourceLinkHealthScalarFieldEnum[]
+}
+
+/**
+ * ResourceLinkHealth findMany
+ */
+export type ResourceLinkHealthFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter, which ResourceLinkHealths to fetch.
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceLinkHealths to fetch.
+   */
+  orderBy?: Prisma.ResourceLinkHealthOrderByWithRelationInput | Prisma.ResourceLinkHealthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourceLinkHealths.
+   */
+  cursor?: Prisma.ResourceLinkHealthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceLinkHealths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceLinkHealths.
+   */
+  skip?: number
+  distinct?: Prisma.ResourceLinkHealthScalarFieldEnum | Prisma.ResourceLinkHealthScalarFieldEnum[]
+}
+
+/**
+ * ResourceLinkHealth create
+ */
+export type ResourceLinkHealthCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * The data needed to create a ResourceLinkHealth.
+   */
+  data: Prisma.XOR<Prisma.ResourceLinkHealthCreateInput, Prisma.ResourceLinkHealthUncheckedCreateInput>
+}
+
+/**
+ * ResourceLinkHealth createMany
+ */
+export type ResourceLinkHealthCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourceLinkHealths.
+   */
+  data: Prisma.ResourceLinkHealthCreateManyInput | Prisma.ResourceLinkHealthCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourceLinkHealth createManyAndReturn
+ */
+export type ResourceLinkHealthCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourceLinkHealths.
+   */
+  data: Prisma.ResourceLinkHealthCreateManyInput | Prisma.ResourceLinkHealthCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourceLinkHealth update
+ */
+export type ResourceLinkHealthUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * The data needed to update a ResourceLinkHealth.
+   */
+  data: Prisma.XOR<Prisma.ResourceLinkHealthUpdateInput, Prisma.ResourceLinkHealthUncheckedUpdateInput>
+  /**
+   * Choose, which ResourceLinkHealth to update.
+   */
+  where: Prisma.ResourceLinkHealthWhereUniqueInput
+}
+
+/**
+ * ResourceLinkHealth updateMany
+ */
+export type ResourceLinkHealthUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourceLinkHealths.
+   */
+  data: Prisma.XOR<Prisma.ResourceLinkHealthUpdateManyMutationInput, Prisma.ResourceLinkHealthUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceLinkHealths to update
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * Limit how many ResourceLinkHealths to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceLinkHealth updateManyAndReturn
+ */
+export type ResourceLinkHealthUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourceLinkHealths.
+   */
+  data: Prisma.XOR<Prisma.ResourceLinkHealthUpdateManyMutationInput, Prisma.ResourceLinkHealthUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceLinkHealths to update
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * Limit how many ResourceLinkHealths to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceLinkHealth upsert
+ */
+export type ResourceLinkHealthUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * The filter to search for the ResourceLinkHealth to update in case it exists.
+   */
+  where: Prisma.ResourceLinkHealthWhereUniqueInput
+  /**
+   * In case the ResourceLinkHealth found by the `where` argument doesn't exist, create a new ResourceLinkHealth with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourceLinkHealthCreateInput, Prisma.ResourceLinkHealthUncheckedCreateInput>
+  /**
+   * In case the ResourceLinkHealth was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourceLinkHealthUpdateInput, Prisma.ResourceLinkHealthUncheckedUpdateInput>
+}
+
+/**
+ * ResourceLinkHealth delete
+ */
+export type ResourceLinkHealthDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+  /**
+   * Filter which ResourceLinkHealth to delete.
+   */
+  where: Prisma.ResourceLinkHealthWhereUniqueInput
+}
+
+/**
+ * ResourceLinkHealth deleteMany
+ */
+export type ResourceLinkHealthDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceLinkHealths to delete
+   */
+  where?: Prisma.ResourceLinkHealthWhereInput
+  /**
+   * Limit how many ResourceLinkHealths to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceLinkHealth without action
+ */
+export type ResourceLinkHealthDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceLinkHealth
+   */
+  select?: Prisma.ResourceLinkHealthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceLinkHealth
+   */
+  omit?: Prisma.ResourceLinkHealthOmit<ExtArgs> | null
+}
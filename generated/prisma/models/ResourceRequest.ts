@@ -0,0 +1,1720 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourceRequest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ResourceRequest
+ * 
+ */
+export type ResourceRequestModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourceRequestPayload>
+
+export type AggregateResourceRequest = {
+  _count: ResourceRequestCountAggregateOutputType | null
+  _avg: ResourceRequestAvgAggregateOutputType | null
+  _sum: ResourceRequestSumAggregateOutputType | null
+  _min: ResourceRequestMinAggregateOutputType | null
+  _max: ResourceRequestMaxAggregateOutputType | null
+}
+
+export type ResourceRequestAvgAggregateOutputType = {
+  id: number | null
+  requesterId: number | null
+  bounty: number | null
+}
+
+export type ResourceRequestSumAggregateOutputType = {
+  id: number | null
+  requesterId: number | null
+  bounty: number | null
+}
+
+export type ResourceRequestMinAggregateOutputType = {
+  id: number | null
+  requesterId: number | null
+  title: string | null
+  description: string | null
+  bounty: number | null
+  status: string | null
+  expiresAt: Date | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourceRequestMaxAggregateOutputType = {
+  id: number | null
+  requesterId: number | null
+  title: string | null
+  description: string | null
+  bounty: number | null
+  status: string | null
+  expiresAt: Date | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourceRequestCountAggregateOutputType = {
+  id: number
+  requesterId: number
+  title: number
+  description: number
+  bounty: number
+  status: number
+  expiresAt: number
+  closedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ResourceRequestAvgAggregateInputType = {
+  id?: true
+  requesterId?: true
+  bounty?: true
+}
+
+export type ResourceRequestSumAggregateInputType = {
+  id?: true
+  requesterId?: true
+  bounty?: true
+}
+
+export type ResourceRequestMinAggregateInputType = {
+  id?: true
+  requesterId?: true
+  title?: true
+  description?: true
+  bounty?: true
+  status?: true
+  expiresAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourceRequestMaxAggregateInputType = {
+  id?: true
+  requesterId?: true
+  title?: true
+  description?: true
+  bounty?: true
+  status?: true
+  expiresAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourceRequestCountAggregateInputType = {
+  id?: true
+  requesterId?: true
+  title?: true
+  description?: true
+  bounty?: true
+  status?: true
+  expiresAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ResourceRequestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceRequest to aggregate.
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequests to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestOrderByWithRelationInput | Prisma.ResourceRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourceRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourceRequests
+  **/
+  _count?: true | ResourceRequestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourceRequestAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourceRequestSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourceRequestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourceRequestMaxAggregateInputType
+}
+
+export type GetResourceRequestAggregateType<T extends ResourceRequestAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourceRequest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourceRequest[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourceRequest[P]>
+}
+
+
+
+
+export type ResourceRequestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestWhereInput
+  orderBy?: Prisma.ResourceRequestOrderByWithAggregationInput | Prisma.ResourceRequestOrderByWithAggregationInput[]
+  by: Prisma.ResourceRequestScalarFieldEnum[] | Prisma.ResourceRequestScalarFieldEnum
+  having?: Prisma.ResourceRequestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourceRequestCountAggregateInputType | true
+  _avg?: ResourceRequestAvgAggregateInputType
+  _sum?: ResourceRequestSumAggregateInputType
+  _min?: ResourceRequestMinAggregateInputType
+  _max?: ResourceRequestMaxAggregateInputType
+}
+
+export type ResourceRequestGroupByOutputType = {
+  id: number
+  requesterId: number
+  title: string
+  description: string | null
+  bounty: number
+  status: string
+  expiresAt: Date
+  closedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ResourceRequestCountAggregateOutputType | null
+  _avg: ResourceRequestAvgAggregateOutputType | null
+  _sum: ResourceRequestSumAggregateOutputType | null
+  _min: ResourceRequestMinAggregateOutputType | null
+  _max: ResourceRequestMaxAggregateOutputType | null
+}
+
+type GetResourceRequestGroupByPayload<T extends ResourceRequestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourceRequestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourceRequestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourceRequestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourceRequestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourceRequestWhereInput = {
+  AND?: Prisma.ResourceRequestWhereInput | Prisma.ResourceRequestWhereInput[]
+  OR?: Prisma.ResourceRequestWhereInput[]
+  NOT?: Prisma.ResourceRequestWhereInput | Prisma.ResourceRequestWhereInput[]
+  id?: Prisma.IntFilter<"ResourceRequest"> | number
+  requesterId?: Prisma.IntFilter<"ResourceRequest"> | number
+  title?: Prisma.StringFilter<"ResourceRequest"> | string
+  description?: Prisma.StringNullableFilter<"ResourceRequest"> | string | null
+  bounty?: Prisma.IntFilter<"ResourceRequest"> | number
+  status?: Prisma.StringFilter<"ResourceRequest"> | string
+  expiresAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  closedAt?: Prisma.DateTimeNullableFilter<"ResourceRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  requester?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  fulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
+}
+
+export type ResourceRequestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  requester?: Prisma.UserOrderByWithRelationInput
+  fulfillments?: Prisma.ResourceRequestFulfillmentOrderByRelationAggregateInput
+}
+
+export type ResourceRequestWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.ResourceRequestWhereInput | Prisma.ResourceRequestWhereInput[]
+  OR?: Prisma.ResourceRequestWhereInput[]
+  NOT?: Prisma.ResourceRequestWhereInput | Prisma.ResourceRequestWhereInput[]
+  requesterId?: Prisma.IntFilter<"ResourceRequest"> | number
+  title?: Prisma.StringFilter<"ResourceRequest"> | string
+  description?: Prisma.StringNullableFilter<"ResourceRequest"> | string | null
+  bounty?: Prisma.IntFilter<"ResourceRequest"> | number
+  status?: Prisma.StringFilter<"ResourceRequest"> | string
+  expiresAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  closedAt?: Prisma.DateTimeNullableFilter<"ResourceRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  requester?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  fulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
+}, "id">
+
+export type ResourceRequestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ResourceRequestCountOrderByAggregateInput
+  _avg?: Prisma.ResourceRequestAvgOrderByAggregateInput
+  _max?: Prisma.ResourceRequestMaxOrderByAggregateInput
+  _min?: Prisma.ResourceRequestMinOrderByAggregateInput
+  _sum?: Prisma.ResourceRequestSumOrderByAggregateInput
+}
+
+export type ResourceRequestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourceRequestScalarWhereWithAggregatesInput | Prisma.ResourceRequestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourceRequestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourceRequestScalarWhereWithAggregatesInput | Prisma.ResourceRequestScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ResourceRequest"> | number
+  requesterId?: Prisma.IntWithAggregatesFilter<"ResourceRequest"> | number
+  title?: Prisma.StringWithAggregatesFilter<"ResourceRequest"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"ResourceRequest"> | string | null
+  bounty?: Prisma.IntWithAggregatesFilter<"ResourceRequest"> | number
+  status?: Prisma.StringWithAggregatesFilter<"ResourceRequest"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceRequest"> | Date | string
+  closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ResourceRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceRequest"> | Date | string
+}
+
+export type ResourceRequestCreateInput = {
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  requester: Prisma.UserCreateNestedOneWithoutResourceRequestsInput
+  fulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutRequestInput
+}
+
+export type ResourceRequestUncheckedCreateInput = {
+  id?: number
+  requesterId: number
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutRequestInput
+}
+
+export type ResourceRequestUpdateInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  requester?: Prisma.UserUpdateOneRequiredWithoutResourceRequestsNestedInput
+  fulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutRequestNestedInput
+}
+
+export type ResourceRequestUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requesterId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutRequestNestedInput
+}
+
+export type ResourceRequestCreateManyInput = {
+  id?: number
+  requesterId: number
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceRequestUpdateManyMutationInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requesterId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestListRelationFilter = {
+  every?: Prisma.ResourceRequestWhereInput
+  some?: Prisma.ResourceRequestWhereInput
+  none?: Prisma.ResourceRequestWhereInput
+}
+
+export type ResourceRequestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ResourceRequestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+}
+
+export type ResourceRequestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requesterId?: Prisma.SortOrder
+  bounty?: Prisma.SortOrder
+}
+
+export type ResourceRequestScalarRelationFilter = {
+  is?: Prisma.ResourceRequestWhereInput
+  isNot?: Prisma.ResourceRequestWhereInput
+}
+
+export type ResourceRequestCreateNestedManyWithoutRequesterInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput> | Prisma.ResourceRequestCreateWithoutRequesterInput[] | Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput[]
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput | Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput[]
+  createMany?: Prisma.ResourceRequestCreateManyRequesterInputEnvelope
+  connect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+}
+
+export type ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput> | Prisma.ResourceRequestCreateWithoutRequesterInput[] | Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput[]
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput | Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput[]
+  createMany?: Prisma.ResourceRequestCreateManyRequesterInputEnvelope
+  connect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+}
+
+export type ResourceRequestUpdateManyWithoutRequesterNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput> | Prisma.ResourceRequestCreateWithoutRequesterInput[] | Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput[]
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput | Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput[]
+  upsert?: Prisma.ResourceRequestUpsertWithWhereUniqueWithoutRequesterInput | Prisma.ResourceRequestUpsertWithWhereUniqueWithoutRequesterInput[]
+  createMany?: Prisma.ResourceRequestCreateManyRequesterInputEnvelope
+  set?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  update?: Prisma.ResourceRequestUpdateWithWhereUniqueWithoutRequesterInput | Prisma.ResourceRequestUpdateWithWhereUniqueWithoutRequesterInput[]
+  updateMany?: Prisma.ResourceRequestUpdateManyWithWhereWithoutRequesterInput | Prisma.ResourceRequestUpdateManyWithWhereWithoutRequesterInput[]
+  deleteMany?: Prisma.ResourceRequestScalarWhereInput | Prisma.ResourceRequestScalarWhereInput[]
+}
+
+export type ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput> | Prisma.ResourceRequestCreateWithoutRequesterInput[] | Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput[]
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput | Prisma.ResourceRequestCreateOrConnectWithoutRequesterInput[]
+  upsert?: Prisma.ResourceRequestUpsertWithWhereUniqueWithoutRequesterInput | Prisma.ResourceRequestUpsertWithWhereUniqueWithoutRequesterInput[]
+  createMany?: Prisma.ResourceRequestCreateManyRequesterInputEnvelope
+  set?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestWhereUniqueInput | Prisma.ResourceRequestWhereUniqueInput[]
+  update?: Prisma.ResourceRequestUpdateWithWhereUniqueWithoutRequesterInput | Prisma.ResourceRequestUpdateWithWhereUniqueWithoutRequesterInput[]
+  updateMany?: Prisma.ResourceRequestUpdateManyWithWhereWithoutRequesterInput | Prisma.ResourceRequestUpdateManyWithWhereWithoutRequesterInput[]
+  deleteMany?: Prisma.ResourceRequestScalarWhereInput | Prisma.ResourceRequestScalarWhereInput[]
+}
+
+export type ResourceRequestCreateNestedOneWithoutFulfillmentsInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedCreateWithoutFulfillmentsInput>
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutFulfillmentsInput
+  connect?: Prisma.ResourceRequestWhereUniqueInput
+}
+
+export type ResourceRequestUpdateOneRequiredWithoutFulfillmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestCreateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedCreateWithoutFulfillmentsInput>
+  connectOrCreate?: Prisma.ResourceRequestCreateOrConnectWithoutFulfillmentsInput
+  upsert?: Prisma.ResourceRequestUpsertWithoutFulfillmentsInput
+  connect?: Prisma.ResourceRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ResourceRequestUpdateToOneWithWhereWithoutFulfillmentsInput, Prisma.ResourceRequestUpdateWithoutFulfillmentsInput>, Prisma.ResourceRequestUncheckedUpdateWithoutFulfillmentsInput>
+}
+
+export type ResourceRequestCreateWithoutRequesterInput = {
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutRequestInput
+}
+
+export type ResourceRequestUncheckedCreateWithoutRequesterInput = {
+  id?: number
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutRequestInput
+}
+
+export type ResourceRequestCreateOrConnectWithoutRequesterInput = {
+  where: Prisma.ResourceRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput>
+}
+
+export type ResourceRequestCreateManyRequesterInputEnvelope = {
+  data: Prisma.ResourceRequestCreateManyRequesterInput | Prisma.ResourceRequestCreateManyRequesterInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourceRequestUpsertWithWhereUniqueWithoutRequesterInput = {
+  where: Prisma.ResourceRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourceRequestUpdateWithoutRequesterInput, Prisma.ResourceRequestUncheckedUpdateWithoutRequesterInput>
+  create: Prisma.XOR<Prisma.ResourceRequestCreateWithoutRequesterInput, Prisma.ResourceRequestUncheckedCreateWithoutRequesterInput>
+}
+
+export type ResourceRequestUpdateWithWhereUniqueWithoutRequesterInput = {
+  where: Prisma.ResourceRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateWithoutRequesterInput, Prisma.ResourceRequestUncheckedUpdateWithoutRequesterInput>
+}
+
+export type ResourceRequestUpdateManyWithWhereWithoutRequesterInput = {
+  where: Prisma.ResourceRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateManyMutationInput, Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterInput>
+}
+
+export type ResourceRequestScalarWhereInput = {
+  AND?: Prisma.ResourceRequestScalarWhereInput | Prisma.ResourceRequestScalarWhereInput[]
+  OR?: Prisma.ResourceRequestScalarWhereInput[]
+  NOT?: Prisma.ResourceRequestScalarWhereInput | Prisma.ResourceRequestScalarWhereInput[]
+  id?: Prisma.IntFilter<"ResourceRequest"> | number
+  requesterId?: Prisma.IntFilter<"ResourceRequest"> | number
+  title?: Prisma.StringFilter<"ResourceRequest"> | string
+  description?: Prisma.StringNullableFilter<"ResourceRequest"> | string | null
+  bounty?: Prisma.IntFilter<"ResourceRequest"> | number
+  status?: Prisma.StringFilter<"ResourceRequest"> | string
+  expiresAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  closedAt?: Prisma.DateTimeNullableFilter<"ResourceRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourceRequest"> | Date | string
+}
+
+export type ResourceRequestCreateWithoutFulfillmentsInput = {
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  requester: Prisma.UserCreateNestedOneWithoutResourceRequestsInput
+}
+
+export type ResourceRequestUncheckedCreateWithoutFulfillmentsInput = {
+  id?: number
+  requesterId: number
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceRequestCreateOrConnectWithoutFulfillmentsInput = {
+  where: Prisma.ResourceRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourceRequestCreateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedCreateWithoutFulfillmentsInput>
+}
+
+export type ResourceRequestUpsertWithoutFulfillmentsInput = {
+  update: Prisma.XOR<Prisma.ResourceRequestUpdateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedUpdateWithoutFulfillmentsInput>
+  create: Prisma.XOR<Prisma.ResourceRequestCreateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedCreateWithoutFulfillmentsInput>
+  where?: Prisma.ResourceRequestWhereInput
+}
+
+export type ResourceRequestUpdateToOneWithWhereWithoutFulfillmentsInput = {
+  where?: Prisma.ResourceRequestWhereInput
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateWithoutFulfillmentsInput, Prisma.ResourceRequestUncheckedUpdateWithoutFulfillmentsInput>
+}
+
+export type ResourceRequestUpdateWithoutFulfillmentsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  requester?: Prisma.UserUpdateOneRequiredWithoutResourceRequestsNestedInput
+}
+
+export type ResourceRequestUncheckedUpdateWithoutFulfillmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requesterId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestCreateManyRequesterInput = {
+  id?: number
+  title: string
+  description?: string | null
+  bounty?: number
+  status?: string
+  expiresAt: Date | string
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourceRequestUpdateWithoutRequesterInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutRequestNestedInput
+}
+
+export type ResourceRequestUncheckedUpdateWithoutRequesterInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutRequestNestedInput
+}
+
+export type ResourceRequestUncheckedUpdateManyWithoutRequesterInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bounty?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ResourceRequestCountOutputType
+ */
+
+export type ResourceRequestCountOutputType = {
+  fulfillments: number
+}
+
+export type ResourceRequestCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  fulfillments?: boolean | ResourceRequestCountOutputTypeCountFulfillmentsArgs
+}
+
+/**
+ * ResourceRequestCountOutputType without action
+ */
+export type ResourceRequestCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestCountOutputType
+   */
+  select?: Prisma.ResourceRequestCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ResourceRequestCountOutputType without action
+ */
+export type ResourceRequestCountOutputTypeCountFulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+}
+
+
+export type ResourceRequestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requesterId?: boolean
+  title?: boolean
+  description?: boolean
+  bounty?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  fulfillments?: boolean | Prisma.ResourceRequest$fulfillmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ResourceRequestCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequest"]>
+
+export type ResourceRequestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requesterId?: boolean
+  title?: boolean
+  description?: boolean
+  bounty?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequest"]>
+
+export type ResourceRequestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requesterId?: boolean
+  title?: boolean
+  description?: boolean
+  bounty?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequest"]>
+
+export type ResourceRequestSelectScalar = {
+  id?: boolean
+  requesterId?: boolean
+  title?: boolean
+  description?: boolean
+  bounty?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ResourceRequestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "requesterId" | "title" | "description" | "bounty" | "status" | "expiresAt" | "closedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["resourceRequest"]>
+export type ResourceRequestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  fulfillments?: boolean | Prisma.ResourceRequest$fulfillmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ResourceRequestCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ResourceRequestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ResourceRequestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requester?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ResourceRequestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourceRequest"
+  objects: {
+    requester: Prisma.$UserPayload<ExtArgs>
+    fulfillments: Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    requesterId: number
+    title: string
+    description: string | null
+    bounty: number
+    status: string
+    expiresAt: Date
+    closedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["resourceRequest"]>
+  composites: {}
+}
+
+export type ResourceRequestGetPayload<S extends boolean | null | undefined | ResourceRequestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload, S>
+
+export type ResourceRequestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourceRequestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourceRequestCountAggregateInputType | true
+  }
+
+export interface ResourceRequestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourceRequest'], meta: { name: 'ResourceRequest' } }
+  /**
+   * Find zero or one ResourceRequest that matches the filter.
+   * @param {ResourceRequestFindUniqueArgs} args - Arguments to find a ResourceRequest
+   * @example
+   * // Get one ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourceRequestFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourceRequestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourceRequest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourceRequestFindUniqueOrThrowArgs} args - Arguments to find a ResourceRequest
+   * @example
+   * // Get one ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourceRequestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourceRequestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceRequest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFindFirstArgs} args - Arguments to find a ResourceRequest
+   * @example
+   * // Get one ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourceRequestFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceRequest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFindFirstOrThrowArgs} args - Arguments to find a ResourceRequest
+   * @example
+   * // Get one ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourceRequestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourceRequests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourceRequests
+   * const resourceRequests = await prisma.resourceRequest.findMany()
+   * 
+   * // Get first 10 ResourceRequests
+   * const resourceRequests = await prisma.resourceRequest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourceRequestWithIdOnly = await prisma.resourceRequest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourceRequestFindManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourceRequest.
+   * @param {ResourceRequestCreateArgs} args - Arguments to create a ResourceRequest.
+   * @example
+   * // Create one ResourceRequest
+   * const ResourceRequest = await prisma.resourceRequest.create({
+   *   data: {
+   *     // ... data to create a ResourceRequest
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourceRequestCreateArgs>(args: Prisma.SelectSubset<T, ResourceRequestCreateArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourceRequests.
+   * @param {ResourceRequestCreateManyArgs} args - Arguments to create many ResourceRequests.
+   * @example
+   * // Create many ResourceRequests
+   * const resourceRequest = await prisma.resourceRequest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourceRequestCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourceRequests and returns the data saved in the database.
+   * @param {ResourceRequestCreateManyAndReturnArgs} args - Arguments to create many ResourceRequests.
+   * @example
+   * // Create many ResourceRequests
+   * const resourceRequest = await prisma.resourceRequest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourceRequests and only return the `id`
+   * const resourceRequestWithIdOnly = await prisma.resourceRequest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourceRequestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourceRequestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourceRequest.
+   * @param {ResourceRequestDeleteArgs} args - Arguments to delete one ResourceRequest.
+   * @example
+   * // Delete one ResourceRequest
+   * const ResourceRequest = await prisma.resourceRequest.delete({
+   *   where: {
+   *     // ... filter to delete one ResourceRequest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourceRequestDeleteArgs>(args: Prisma.SelectSubset<T, ResourceRequestDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourceRequest.
+   * @param {ResourceRequestUpdateArgs} args - Arguments to update one ResourceRequest.
+   * @example
+   * // Update one ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourceRequestUpdateArgs>(args: Prisma.SelectSubset<T, ResourceRequestUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourceRequests.
+   * @param {ResourceRequestDeleteManyArgs} args - Arguments to filter ResourceRequests to delete.
+   * @example
+   * // Delete a few ResourceRequests
+   * const { count } = await prisma.resourceRequest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourceRequestDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourceRequests
+   * const resourceRequest = await prisma.resourceRequest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourceRequestUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourceRequestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceRequests and returns the data updated in the database.
+   * @param {ResourceRequestUpdateManyAndReturnArgs} args - Arguments to update many ResourceRequests.
+   * @example
+   * // Update many ResourceRequests
+   * const resourceRequest = await prisma.resourceRequest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourceRequests and only return the `id`
+   * const resourceRequestWithIdOnly = await prisma.resourceRequest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourceRequestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourceRequestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourceRequest.
+   * @param {ResourceRequestUpsertArgs} args - Arguments to update or create a ResourceRequest.
+   * @example
+   * // Update or create a ResourceRequest
+   * const resourceRequest = await prisma.resourceRequest.upsert({
+   *   create: {
+   *     // ... data to create a ResourceRequest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourceRequest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourceRequestUpsertArgs>(args: Prisma.SelectSubset<T, ResourceRequestUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourceRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestCountArgs} args - Arguments to filter ResourceRequests to count.
+   * @example
+   * // Count the number of ResourceRequests
+   * const count = await prisma.resourceRequest.count({
+   *   where: {
+   *     // ... the filter for the ResourceRequests we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourceRequestCountArgs>(
+    args?: Prisma.Subset<T, ResourceRequestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourceRequestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourceRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourceRequestAggregateArgs>(args: Prisma.Subset<T, ResourceRequestAggregateArgs>): Prisma.PrismaPromise<GetResourceRequestAggregateType<T>>
+
+  /**
+   * Group by ResourceRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourceRequestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourceRequestGroupByArgs['orderBy'] }
+      : { orderBy?: ResourceRequestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourceRequestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourceRequestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourceRequest model
+ */
+readonly fields: ResourceRequestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourceRequest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourceRequestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  requester<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  fulfillments<T extends Prisma.ResourceRequest$fulfillmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourceRequest$fulfillmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourceRequest model
+ */
+export interface ResourceRequestFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourceRequest", 'Int'>
+  readonly requesterId: Prisma.FieldRef<"ResourceRequest", 'Int'>
+  readonly title: Prisma.FieldRef<"ResourceRequest", 'String'>
+  readonly description: Prisma.FieldRef<"ResourceRequest", 'String'>
+  readonly bounty: Prisma.FieldRef<"ResourceRequest", 'Int'>
+  readonly status: Prisma.FieldRef<"ResourceRequest", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"ResourceRequest", 'DateTime'>
+  readonly closedAt: Prisma.FieldRef<"ResourceRequest", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ResourceRequest", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ResourceRequest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourceRequest findUnique
+ */
+export type ResourceRequestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequest to fetch.
+   */
+  where: Prisma.ResourceRequestWhereUniqueInput
+}
+
+/**
+ * ResourceRequest findUniqueOrThrow
+ */
+export type ResourceRequestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequest to fetch.
+   */
+  where: Prisma.ResourceRequestWhereUniqueInput
+}
+
+/**
+ * ResourceRequest findFirst
+ */
+export type ResourceRequestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequest to fetch.
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequests to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestOrderByWithRelationInput | Prisma.ResourceRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceRequests.
+   */
+  cursor?: Prisma.ResourceRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceRequests.
+   */
+  distinct?: Prisma.ResourceRequestScalarFieldEnum | Prisma.ResourceRequestScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequest findFirstOrThrow
+ */
+export type ResourceRequestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequest to fetch.
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequests to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestOrderByWithRelationInput | Prisma.ResourceRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceRequests.
+   */
+  cursor?: Prisma.ResourceRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceRequests.
+   */
+  distinct?: Prisma.ResourceRequestScalarFieldEnum | Prisma.ResourceRequestScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequest findMany
+ */
+export type ResourceRequestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequests to fetch.
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequests to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestOrderByWithRelationInput | Prisma.ResourceRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourceRequests.
+   */
+  cursor?: Prisma.ResourceRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequests.
+   */
+  skip?: number
+  distinct?: Prisma.ResourceRequestScalarFieldEnum | Prisma.ResourceRequestScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequest create
+ */
+export type ResourceRequestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ResourceRequest.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestCreateInput, Prisma.ResourceRequestUncheckedCreateInput>
+}
+
+/**
+ * ResourceRequest createMany
+ */
+export type ResourceRequestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourceRequests.
+   */
+  data: Prisma.ResourceRequestCreateManyInput | Prisma.ResourceRequestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourceRequest createManyAndReturn
+ */
+export type ResourceRequestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourceRequests.
+   */
+  data: Prisma.ResourceRequestCreateManyInput | Prisma.ResourceRequestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourceRequest update
+ */
+export type ResourceRequestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ResourceRequest.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateInput, Prisma.ResourceRequestUncheckedUpdateInput>
+  /**
+   * Choose, which ResourceRequest to update.
+   */
+  where: Prisma.ResourceRequestWhereUniqueInput
+}
+
+/**
+ * ResourceRequest updateMany
+ */
+export type ResourceRequestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourceRequests.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateManyMutationInput, Prisma.ResourceRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceRequests to update
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * Limit how many ResourceRequests to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceRequest updateManyAndReturn
+ */
+export type ResourceRequestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourceRequests.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestUpdateManyMutationInput, Prisma.ResourceRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceRequests to update
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * Limit how many ResourceRequests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourceRequest upsert
+ */
+export type ResourceRequestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ResourceRequest to update in case it exists.
+   */
+  where: Prisma.ResourceRequestWhereUniqueInput
+  /**
+   * In case the ResourceRequest found by the `where` argument doesn't exist, create a new ResourceRequest with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourceRequestCreateInput, Prisma.ResourceRequestUncheckedCreateInput>
+  /**
+   * In case the ResourceRequest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourceRequestUpdateInput, Prisma.ResourceRequestUncheckedUpdateInput>
+}
+
+/**
+ * ResourceRequest delete
+ */
+export type ResourceRequestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  /**
+   * Filter which ResourceRequest to delete.
+   */
+  where: Prisma.ResourceRequestWhereUniqueInput
+}
+
+/**
+ * ResourceRequest deleteMany
+ */
+export type ResourceRequestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceRequests to delete
+   */
+  where?: Prisma.ResourceRequestWhereInput
+  /**
+   * Limit how many ResourceRequests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceRequest.fulfillments
+ */
+export type ResourceRequest$fulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequest without action
+ */
+export type ResourceRequestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+}
@@ -0,0 +1,1732 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourceRequestFulfillment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ResourceRequestFulfillment
+ * 
+ */
+export type ResourceRequestFulfillmentModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourceRequestFulfillmentPayload>
+
+export type AggregateResourceRequestFulfillment = {
+  _count: ResourceRequestFulfillmentCountAggregateOutputType | null
+  _avg: ResourceRequestFulfillmentAvgAggregateOutputType | null
+  _sum: ResourceRequestFulfillmentSumAggregateOutputType | null
+  _min: ResourceRequestFulfillmentMinAggregateOutputType | null
+  _max: ResourceRequestFulfillmentMaxAggregateOutputType | null
+}
+
+export type ResourceRequestFulfillmentAvgAggregateOutputType = {
+  id: number | null
+  requestId: number | null
+  userResourceId: number | null
+  userId: number | null
+}
+
+export type ResourceRequestFulfillmentSumAggregateOutputType = {
+  id: number | null
+  requestId: number | null
+  userResourceId: number | null
+  userId: number | null
+}
+
+export type ResourceRequestFulfillmentMinAggregateOutputType = {
+  id: number | null
+  requestId: number | null
+  userResourceId: number | null
+  userId: number | null
+  note: string | null
+  acceptedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ResourceRequestFulfillmentMaxAggregateOutputType = {
+  id: number | null
+  requestId: number | null
+  userResourceId: number | null
+  userId: number | null
+  note: string | null
+  acceptedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ResourceRequestFulfillmentCountAggregateOutputType = {
+  id: number
+  requestId: number
+  userResourceId: number
+  userId: number
+  note: number
+  acceptedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ResourceRequestFulfillmentAvgAggregateInputType = {
+  id?: true
+  requestId?: true
+  userResourceId?: true
+  userId?: true
+}
+
+export type ResourceRequestFulfillmentSumAggregateInputType = {
+  id?: true
+  requestId?: true
+  userResourceId?: true
+  userId?: true
+}
+
+export type ResourceRequestFulfillmentMinAggregateInputType = {
+  id?: true
+  requestId?: true
+  userResourceId?: true
+  userId?: true
+  note?: true
+  acceptedAt?: true
+  createdAt?: true
+}
+
+export type ResourceRequestFulfillmentMaxAggregateInputType = {
+  id?: true
+  requestId?: true
+  userResourceId?: true
+  userId?: true
+  note?: true
+  acceptedAt?: true
+  createdAt?: true
+}
+
+export type ResourceRequestFulfillmentCountAggregateInputType = {
+  id?: true
+  requestId?: true
+  userResourceId?: true
+  userId?: true
+  note?: true
+  acceptedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ResourceRequestFulfillmentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceRequestFulfillment to aggregate.
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequestFulfillments to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequestFulfillments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequestFulfillments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourceRequestFulfillments
+  **/
+  _count?: true | ResourceRequestFulfillmentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourceRequestFulfillmentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourceRequestFulfillmentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourceRequestFulfillmentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourceRequestFulfillmentMaxAggregateInputType
+}
+
+export type GetResourceRequestFulfillmentAggregateType<T extends ResourceRequestFulfillmentAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourceRequestFulfillment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourceRequestFulfillment[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourceRequestFulfillment[P]>
+}
+
+
+
+
+export type ResourceRequestFulfillmentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithAggregationInput | Prisma.ResourceRequestFulfillmentOrderByWithAggregationInput[]
+  by: Prisma.ResourceRequestFulfillmentScalarFieldEnum[] | Prisma.ResourceRequestFulfillmentScalarFieldEnum
+  having?: Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourceRequestFulfillmentCountAggregateInputType | true
+  _avg?: ResourceRequestFulfillmentAvgAggregateInputType
+  _sum?: ResourceRequestFulfillmentSumAggregateInputType
+  _min?: ResourceRequestFulfillmentMinAggregateInputType
+  _max?: ResourceRequestFulfillmentMaxAggregateInputType
+}
+
+export type ResourceRequestFulfillmentGroupByOutputType = {
+  id: number
+  requestId: number
+  userResourceId: number
+  userId: number
+  note: string | null
+  acceptedAt: Date | null
+  createdAt: Date
+  _count: ResourceRequestFulfillmentCountAggregateOutputType | null
+  _avg: ResourceRequestFulfillmentAvgAggregateOutputType | null
+  _sum: ResourceRequestFulfillmentSumAggregateOutputType | null
+  _min: ResourceRequestFulfillmentMinAggregateOutputType | null
+  _max: ResourceRequestFulfillmentMaxAggregateOutputType | null
+}
+
+type GetResourceRequestFulfillmentGroupByPayload<T extends ResourceRequestFulfillmentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourceRequestFulfillmentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourceRequestFulfillmentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourceRequestFulfillmentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourceRequestFulfillmentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourceRequestFulfillmentWhereInput = {
+  AND?: Prisma.ResourceRequestFulfillmentWhereInput | Prisma.ResourceRequestFulfillmentWhereInput[]
+  OR?: Prisma.ResourceRequestFulfillmentWhereInput[]
+  NOT?: Prisma.ResourceRequestFulfillmentWhereInput | Prisma.ResourceRequestFulfillmentWhereInput[]
+  id?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  requestId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userResourceId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  note?: Prisma.StringNullableFilter<"ResourceRequestFulfillment"> | string | null
+  acceptedAt?: Prisma.DateTimeNullableFilter<"ResourceRequestFulfillment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequestFulfillment"> | Date | string
+  request?: Prisma.XOR<Prisma.ResourceRequestScalarRelationFilter, Prisma.ResourceRequestWhereInput>
+  userResource?: Prisma.XOR<Prisma.UserResourceScalarRelationFilter, Prisma.UserResourceWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ResourceRequestFulfillmentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  request?: Prisma.ResourceRequestOrderByWithRelationInput
+  userResource?: Prisma.UserResourceOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ResourceRequestFulfillmentWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  requestId_userResourceId?: Prisma.ResourceRequestFulfillmentRequestIdUserResourceIdCompoundUniqueInput
+  AND?: Prisma.ResourceRequestFulfillmentWhereInput | Prisma.ResourceRequestFulfillmentWhereInput[]
+  OR?: Prisma.ResourceRequestFulfillmentWhereInput[]
+  NOT?: Prisma.ResourceRequestFulfillmentWhereInput | Prisma.ResourceRequestFulfillmentWhereInput[]
+  requestId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userResourceId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  note?: Prisma.StringNullableFilter<"ResourceRequestFulfillment"> | string | null
+  acceptedAt?: Prisma.DateTimeNullableFilter<"ResourceRequestFulfillment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequestFulfillment"> | Date | string
+  request?: Prisma.XOR<Prisma.ResourceRequestScalarRelationFilter, Prisma.ResourceRequestWhereInput>
+  userResource?: Prisma.XOR<Prisma.UserResourceScalarRelationFilter, Prisma.UserResourceWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "requestId_userResourceId">
+
+export type ResourceRequestFulfillmentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ResourceRequestFulfillmentCountOrderByAggregateInput
+  _avg?: Prisma.ResourceRequestFulfillmentAvgOrderByAggregateInput
+  _max?: Prisma.ResourceRequestFulfillmentMaxOrderByAggregateInput
+  _min?: Prisma.ResourceRequestFulfillmentMinOrderByAggregateInput
+  _sum?: Prisma.ResourceRequestFulfillmentSumOrderByAggregateInput
+}
+
+export type ResourceRequestFulfillmentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput | Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput | Prisma.ResourceRequestFulfillmentScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"ResourceRequestFulfillment"> | number
+  requestId?: Prisma.IntWithAggregatesFilter<"ResourceRequestFulfillment"> | number
+  userResourceId?: Prisma.IntWithAggregatesFilter<"ResourceRequestFulfillment"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"ResourceRequestFulfillment"> | number
+  note?: Prisma.StringNullableWithAggregatesFilter<"ResourceRequestFulfillment"> | string | null
+  acceptedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ResourceRequestFulfillment"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ResourceRequestFulfillment"> | Date | string
+}
+
+export type ResourceRequestFulfillmentCreateInput = {
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  request: Prisma.ResourceRequestCreateNestedOneWithoutFulfillmentsInput
+  userResource: Prisma.UserResourceCreateNestedOneWithoutRequestFulfillmentsInput
+  user: Prisma.UserCreateNestedOneWithoutResourceRequestFulfillmentsInput
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateInput = {
+  id?: number
+  requestId: number
+  userResourceId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentUpdateInput = {
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  request?: Prisma.ResourceRequestUpdateOneRequiredWithoutFulfillmentsNestedInput
+  userResource?: Prisma.UserResourceUpdateOneRequiredWithoutRequestFulfillmentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutResourceRequestFulfillmentsNestedInput
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentCreateManyInput = {
+  id?: number
+  requestId: number
+  userResourceId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentUpdateManyMutationInput = {
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentListRelationFilter = {
+  every?: Prisma.ResourceRequestFulfillmentWhereInput
+  some?: Prisma.ResourceRequestFulfillmentWhereInput
+  none?: Prisma.ResourceRequestFulfillmentWhereInput
+}
+
+export type ResourceRequestFulfillmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentRequestIdUserResourceIdCompoundUniqueInput = {
+  requestId: number
+  userResourceId: number
+}
+
+export type ResourceRequestFulfillmentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestId?: Prisma.SortOrder
+  userResourceId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type ResourceRequestFulfillmentCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentCreateNestedManyWithoutUserResourceInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserResourceInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserResourceInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserResourceInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithoutUserResourceNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserResourceInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserResourceInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserResourceInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserResourceInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput> | Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserResourceInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyUserResourceInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserResourceInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserResourceInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserResourceInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentCreateNestedManyWithoutRequestInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput> | Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyRequestInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutRequestInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput> | Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyRequestInputEnvelope
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithoutRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput> | Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutRequestInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyRequestInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutRequestInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutRequestInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput> | Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput[] | Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput[]
+  connectOrCreate?: Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput | Prisma.ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput[]
+  upsert?: Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutRequestInput[]
+  createMany?: Prisma.ResourceRequestFulfillmentCreateManyRequestInputEnvelope
+  set?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  disconnect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  delete?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  connect?: Prisma.ResourceRequestFulfillmentWhereUniqueInput | Prisma.ResourceRequestFulfillmentWhereUniqueInput[]
+  update?: Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutRequestInput[]
+  updateMany?: Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutRequestInput | Prisma.ResourceRequestFulfillmentUpdateManyWithWhereWithoutRequestInput[]
+  deleteMany?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+}
+
+export type ResourceRequestFulfillmentCreateWithoutUserInput = {
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  request: Prisma.ResourceRequestCreateNestedOneWithoutFulfillmentsInput
+  userResource: Prisma.UserResourceCreateNestedOneWithoutRequestFulfillmentsInput
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateWithoutUserInput = {
+  id?: number
+  requestId: number
+  userResourceId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentCreateOrConnectWithoutUserInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput>
+}
+
+export type ResourceRequestFulfillmentCreateManyUserInputEnvelope = {
+  data: Prisma.ResourceRequestFulfillmentCreateManyUserInput | Prisma.ResourceRequestFulfillmentCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserInput>
+}
+
+export type ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutUserInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutUserInput>
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ResourceRequestFulfillmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateManyMutationInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ResourceRequestFulfillmentScalarWhereInput = {
+  AND?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+  OR?: Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+  NOT?: Prisma.ResourceRequestFulfillmentScalarWhereInput | Prisma.ResourceRequestFulfillmentScalarWhereInput[]
+  id?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  requestId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userResourceId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  userId?: Prisma.IntFilter<"ResourceRequestFulfillment"> | number
+  note?: Prisma.StringNullableFilter<"ResourceRequestFulfillment"> | string | null
+  acceptedAt?: Prisma.DateTimeNullableFilter<"ResourceRequestFulfillment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ResourceRequestFulfillment"> | Date | string
+}
+
+export type ResourceRequestFulfillmentCreateWithoutUserResourceInput = {
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  request: Prisma.ResourceRequestCreateNestedOneWithoutFulfillmentsInput
+  user: Prisma.UserCreateNestedOneWithoutResourceRequestFulfillmentsInput
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput = {
+  id?: number
+  requestId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentCreateOrConnectWithoutUserResourceInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput>
+}
+
+export type ResourceRequestFulfillmentCreateManyUserResourceInputEnvelope = {
+  data: Prisma.ResourceRequestFulfillmentCreateManyUserResourceInput | Prisma.ResourceRequestFulfillmentCreateManyUserResourceInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutUserResourceInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutUserResourceInput>
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutUserResourceInput>
+}
+
+export type ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutUserResourceInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutUserResourceInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutUserResourceInput>
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithWhereWithoutUserResourceInput = {
+  where: Prisma.ResourceRequestFulfillmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateManyMutationInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceInput>
+}
+
+export type ResourceRequestFulfillmentCreateWithoutRequestInput = {
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  userResource: Prisma.UserResourceCreateNestedOneWithoutRequestFulfillmentsInput
+  user: Prisma.UserCreateNestedOneWithoutResourceRequestFulfillmentsInput
+}
+
+export type ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput = {
+  id?: number
+  userResourceId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentCreateOrConnectWithoutRequestInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput>
+}
+
+export type ResourceRequestFulfillmentCreateManyRequestInputEnvelope = {
+  data: Prisma.ResourceRequestFulfillmentCreateManyRequestInput | Prisma.ResourceRequestFulfillmentCreateManyRequestInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourceRequestFulfillmentUpsertWithWhereUniqueWithoutRequestInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutRequestInput>
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedCreateWithoutRequestInput>
+}
+
+export type ResourceRequestFulfillmentUpdateWithWhereUniqueWithoutRequestInput = {
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateWithoutRequestInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateWithoutRequestInput>
+}
+
+export type ResourceRequestFulfillmentUpdateManyWithWhereWithoutRequestInput = {
+  where: Prisma.ResourceRequestFulfillmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateManyMutationInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutRequestInput>
+}
+
+export type ResourceRequestFulfillmentCreateManyUserInput = {
+  id?: number
+  requestId: number
+  userResourceId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentUpdateWithoutUserInput = {
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  request?: Prisma.ResourceRequestUpdateOneRequiredWithoutFulfillmentsNestedInput
+  userResource?: Prisma.UserResourceUpdateOneRequiredWithoutRequestFulfillmentsNestedInput
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentCreateManyUserResourceInput = {
+  id?: number
+  requestId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentUpdateWithoutUserResourceInput = {
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  request?: Prisma.ResourceRequestUpdateOneRequiredWithoutFulfillmentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutResourceRequestFulfillmentsNestedInput
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateWithoutUserResourceInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  requestId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentCreateManyRequestInput = {
+  id?: number
+  userResourceId: number
+  userId: number
+  note?: string | null
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ResourceRequestFulfillmentUpdateWithoutRequestInput = {
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  userResource?: Prisma.UserResourceUpdateOneRequiredWithoutRequestFulfillmentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutResourceRequestFulfillmentsNestedInput
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateWithoutRequestInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourceRequestFulfillmentUncheckedUpdateManyWithoutRequestInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userResourceId?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ResourceRequestFulfillmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requestId?: boolean
+  userResourceId?: boolean
+  userId?: boolean
+  note?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequestFulfillment"]>
+
+export type ResourceRequestFulfillmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requestId?: boolean
+  userResourceId?: boolean
+  userId?: boolean
+  note?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequestFulfillment"]>
+
+export type ResourceRequestFulfillmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  requestId?: boolean
+  userResourceId?: boolean
+  userId?: boolean
+  note?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourceRequestFulfillment"]>
+
+export type ResourceRequestFulfillmentSelectScalar = {
+  id?: boolean
+  requestId?: boolean
+  userResourceId?: boolean
+  userId?: boolean
+  note?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+}
+
+export type ResourceRequestFulfillmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "requestId" | "userResourceId" | "userId" | "note" | "acceptedAt" | "createdAt", ExtArgs["result"]["resourceRequestFulfillment"]>
+export type ResourceRequestFulfillmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ResourceRequestFulfillmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ResourceRequestFulfillmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  request?: boolean | Prisma.ResourceRequestDefaultArgs<ExtArgs>
+  userResource?: boolean | Prisma.UserResourceDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ResourceRequestFulfillmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourceRequestFulfillment"
+  objects: {
+    request: Prisma.$ResourceRequestPayload<ExtArgs>
+    userResource: Prisma.$UserResourcePayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    requestId: number
+    userResourceId: number
+    userId: number
+    note: string | null
+    acceptedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["resourceRequestFulfillment"]>
+  composites: {}
+}
+
+export type ResourceRequestFulfillmentGetPayload<S extends boolean | null | undefined | ResourceRequestFulfillmentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload, S>
+
+export type ResourceRequestFulfillmentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourceRequestFulfillmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourceRequestFulfillmentCountAggregateInputType | true
+  }
+
+export interface ResourceRequestFulfillmentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourceRequestFulfillment'], meta: { name: 'ResourceRequestFulfillment' } }
+  /**
+   * Find zero or one ResourceRequestFulfillment that matches the filter.
+   * @param {ResourceRequestFulfillmentFindUniqueArgs} args - Arguments to find a ResourceRequestFulfillment
+   * @example
+   * // Get one ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourceRequestFulfillmentFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourceRequestFulfillment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourceRequestFulfillmentFindUniqueOrThrowArgs} args - Arguments to find a ResourceRequestFulfillment
+   * @example
+   * // Get one ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourceRequestFulfillmentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceRequestFulfillment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentFindFirstArgs} args - Arguments to find a ResourceRequestFulfillment
+   * @example
+   * // Get one ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourceRequestFulfillmentFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourceRequestFulfillment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentFindFirstOrThrowArgs} args - Arguments to find a ResourceRequestFulfillment
+   * @example
+   * // Get one ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourceRequestFulfillmentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourceRequestFulfillments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourceRequestFulfillments
+   * const resourceRequestFulfillments = await prisma.resourceRequestFulfillment.findMany()
+   * 
+   * // Get first 10 ResourceRequestFulfillments
+   * const resourceRequestFulfillments = await prisma.resourceRequestFulfillment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourceRequestFulfillmentWithIdOnly = await prisma.resourceRequestFulfillment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourceRequestFulfillmentFindManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourceRequestFulfillment.
+   * @param {ResourceRequestFulfillmentCreateArgs} args - Arguments to create a ResourceRequestFulfillment.
+   * @example
+   * // Create one ResourceRequestFulfillment
+   * const ResourceRequestFulfillment = await prisma.resourceRequestFulfillment.create({
+   *   data: {
+   *     // ... data to create a ResourceRequestFulfillment
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourceRequestFulfillmentCreateArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentCreateArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourceRequestFulfillments.
+   * @param {ResourceRequestFulfillmentCreateManyArgs} args - Arguments to create many ResourceRequestFulfillments.
+   * @example
+   * // Create many ResourceRequestFulfillments
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourceRequestFulfillmentCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourceRequestFulfillments and returns the data saved in the database.
+   * @param {ResourceRequestFulfillmentCreateManyAndReturnArgs} args - Arguments to create many ResourceRequestFulfillments.
+   * @example
+   * // Create many ResourceRequestFulfillments
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourceRequestFulfillments and only return the `id`
+   * const resourceRequestFulfillmentWithIdOnly = await prisma.resourceRequestFulfillment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourceRequestFulfillmentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourceRequestFulfillment.
+   * @param {ResourceRequestFulfillmentDeleteArgs} args - Arguments to delete one ResourceRequestFulfillment.
+   * @example
+   * // Delete one ResourceRequestFulfillment
+   * const ResourceRequestFulfillment = await prisma.resourceRequestFulfillment.delete({
+   *   where: {
+   *     // ... filter to delete one ResourceRequestFulfillment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourceRequestFulfillmentDeleteArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourceRequestFulfillment.
+   * @param {ResourceRequestFulfillmentUpdateArgs} args - Arguments to update one ResourceRequestFulfillment.
+   * @example
+   * // Update one ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourceRequestFulfillmentUpdateArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourceRequestFulfillments.
+   * @param {ResourceRequestFulfillmentDeleteManyArgs} args - Arguments to filter ResourceRequestFulfillments to delete.
+   * @example
+   * // Delete a few ResourceRequestFulfillments
+   * const { count } = await prisma.resourceRequestFulfillment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourceRequestFulfillmentDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourceRequestFulfillmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceRequestFulfillments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourceRequestFulfillments
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourceRequestFulfillmentUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourceRequestFulfillments and returns the data updated in the database.
+   * @param {ResourceRequestFulfillmentUpdateManyAndReturnArgs} args - Arguments to update many ResourceRequestFulfillments.
+   * @example
+   * // Update many ResourceRequestFulfillments
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourceRequestFulfillments and only return the `id`
+   * const resourceRequestFulfillmentWithIdOnly = await prisma.resourceRequestFulfillment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourceRequestFulfillmentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourceRequestFulfillment.
+   * @param {ResourceRequestFulfillmentUpsertArgs} args - Arguments to update or create a ResourceRequestFulfillment.
+   * @example
+   * // Update or create a ResourceRequestFulfillment
+   * const resourceRequestFulfillment = await prisma.resourceRequestFulfillment.upsert({
+   *   create: {
+   *     // ... data to create a ResourceRequestFulfillment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourceRequestFulfillment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourceRequestFulfillmentUpsertArgs>(args: Prisma.SelectSubset<T, ResourceRequestFulfillmentUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestFulfillmentClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourceRequestFulfillments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentCountArgs} args - Arguments to filter ResourceRequestFulfillments to count.
+   * @example
+   * // Count the number of ResourceRequestFulfillments
+   * const count = await prisma.resourceRequestFulfillment.count({
+   *   where: {
+   *     // ... the filter for the ResourceRequestFulfillments we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourceRequestFulfillmentCountArgs>(
+    args?: Prisma.Subset<T, ResourceRequestFulfillmentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourceRequestFulfillmentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourceRequestFulfillment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourceRequestFulfillmentAggregateArgs>(args: Prisma.Subset<T, ResourceRequestFulfillmentAggregateArgs>): Prisma.PrismaPromise<GetResourceRequestFulfillmentAggregateType<T>>
+
+  /**
+   * Group by ResourceRequestFulfillment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourceRequestFulfillmentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourceRequestFulfillmentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourceRequestFulfillmentGroupByArgs['orderBy'] }
+      : { orderBy?: ResourceRequestFulfillmentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourceRequestFulfillmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourceRequestFulfillmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourceRequestFulfillment model
+ */
+readonly fields: ResourceRequestFulfillmentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourceRequestFulfillment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourceRequestFulfillmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  request<T extends Prisma.ResourceRequestDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourceRequestDefaultArgs<ExtArgs>>): Prisma.Prisma__ResourceRequestClient<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  userResource<T extends Prisma.UserResourceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserResourceDefaultArgs<ExtArgs>>): Prisma.Prisma__UserResourceClient<runtime.Types.Result.GetResult<Prisma.$UserResourcePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourceRequestFulfillment model
+ */
+export interface ResourceRequestFulfillmentFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourceRequestFulfillment", 'Int'>
+  readonly requestId: Prisma.FieldRef<"ResourceRequestFulfillment", 'Int'>
+  readonly userResourceId: Prisma.FieldRef<"ResourceRequestFulfillment", 'Int'>
+  readonly userId: Prisma.FieldRef<"ResourceRequestFulfillment", 'Int'>
+  readonly note: Prisma.FieldRef<"ResourceRequestFulfillment", 'String'>
+  readonly acceptedAt: Prisma.FieldRef<"ResourceRequestFulfillment", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ResourceRequestFulfillment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourceRequestFulfillment findUnique
+ */
+export type ResourceRequestFulfillmentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequestFulfillment to fetch.
+   */
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+}
+
+/**
+ * ResourceRequestFulfillment findUniqueOrThrow
+ */
+export type ResourceRequestFulfillmentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequestFulfillment to fetch.
+   */
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+}
+
+/**
+ * ResourceRequestFulfillment findFirst
+ */
+export type ResourceRequestFulfillmentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequestFulfillment to fetch.
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequestFulfillments to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceRequestFulfillments.
+   */
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequestFulfillments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequestFulfillments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceRequestFulfillments.
+   */
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequestFulfillment findFirstOrThrow
+ */
+export type ResourceRequestFulfillmentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequestFulfillment to fetch.
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequestFulfillments to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourceRequestFulfillments.
+   */
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequestFulfillments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequestFulfillments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourceRequestFulfillments.
+   */
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequestFulfillment findMany
+ */
+export type ResourceRequestFulfillmentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourceRequestFulfillments to fetch.
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourceRequestFulfillments to fetch.
+   */
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourceRequestFulfillments.
+   */
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourceRequestFulfillments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourceRequestFulfillments.
+   */
+  skip?: number
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
+/**
+ * ResourceRequestFulfillment create
+ */
+export type ResourceRequestFulfillmentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ResourceRequestFulfillment.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateInput, Prisma.ResourceRequestFulfillmentUncheckedCreateInput>
+}
+
+/**
+ * ResourceRequestFulfillment createMany
+ */
+export type ResourceRequestFulfillmentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourceRequestFulfillments.
+   */
+  data: Prisma.ResourceRequestFulfillmentCreateManyInput | Prisma.ResourceRequestFulfillmentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourceRequestFulfillment createManyAndReturn
+ */
+export type ResourceRequestFulfillmentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourceRequestFulfillments.
+   */
+  data: Prisma.ResourceRequestFulfillmentCreateManyInput | Prisma.ResourceRequestFulfillmentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourceRequestFulfillment update
+ */
+export type ResourceRequestFulfillmentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ResourceRequestFulfillment.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateInput>
+  /**
+   * Choose, which ResourceRequestFulfillment to update.
+   */
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+}
+
+/**
+ * ResourceRequestFulfillment updateMany
+ */
+export type ResourceRequestFulfillmentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourceRequestFulfillments.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateManyMutationInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceRequestFulfillments to update
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * Limit how many ResourceRequestFulfillments to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceRequestFulfillment updateManyAndReturn
+ */
+export type ResourceRequestFulfillmentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourceRequestFulfillments.
+   */
+  data: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateManyMutationInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourceRequestFulfillments to update
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * Limit how many ResourceRequestFulfillments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourceRequestFulfillment upsert
+ */
+export type ResourceRequestFulfillmentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ResourceRequestFulfillment to update in case it exists.
+   */
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  /**
+   * In case the ResourceRequestFulfillment found by the `where` argument doesn't exist, create a new ResourceRequestFulfillment with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourceRequestFulfillmentCreateInput, Prisma.ResourceRequestFulfillmentUncheckedCreateInput>
+  /**
+   * In case the ResourceRequestFulfillment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourceRequestFulfillmentUpdateInput, Prisma.ResourceRequestFulfillmentUncheckedUpdateInput>
+}
+
+/**
+ * ResourceRequestFulfillment delete
+ */
+export type ResourceRequestFulfillmentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  /**
+   * Filter which ResourceRequestFulfillment to delete.
+   */
+  where: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+}
+
+/**
+ * ResourceRequestFulfillment deleteMany
+ */
+export type ResourceRequestFulfillmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourceRequestFulfillments to delete
+   */
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  /**
+   * Limit how many ResourceRequestFulfillments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourceRequestFulfillment without action
+ */
+export type ResourceRequestFulfillmentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+}
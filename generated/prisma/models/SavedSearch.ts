@@ -0,0 +1,1606 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `SavedSearch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SavedSearch
+ * 
+ */
+export type SavedSearchModel = runtime.Types.Result.DefaultSelection<Prisma.$SavedSearchPayload>
+
+export type AggregateSavedSearch = {
+  _count: SavedSearchCountAggregateOutputType | null
+  _avg: SavedSearchAvgAggregateOutputType | null
+  _sum: SavedSearchSumAggregateOutputType | null
+  _min: SavedSearchMinAggregateOutputType | null
+  _max: SavedSearchMaxAggregateOutputType | null
+}
+
+export type SavedSearchAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type SavedSearchSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type SavedSearchMinAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  keyword: string | null
+  enabled: boolean | null
+  emailEnabled: boolean | null
+  lastCheckedAt: Date | null
+  lastNotifiedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SavedSearchMaxAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  keyword: string | null
+  enabled: boolean | null
+  emailEnabled: boolean | null
+  lastCheckedAt: Date | null
+  lastNotifiedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SavedSearchCountAggregateOutputType = {
+  id: number
+  userId: number
+  keyword: number
+  services: number
+  enabled: number
+  emailEnabled: number
+  seenKeys: number
+  lastCheckedAt: number
+  lastNotifiedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type SavedSearchAvgAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type SavedSearchSumAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type SavedSearchMinAggregateInputType = {
+  id?: true
+  userId?: true
+  keyword?: true
+  enabled?: true
+  emailEnabled?: true
+  lastCheckedAt?: true
+  lastNotifiedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SavedSearchMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  keyword?: true
+  enabled?: true
+  emailEnabled?: true
+  lastCheckedAt?: true
+  lastNotifiedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SavedSearchCountAggregateInputType = {
+  id?: true
+  userId?: true
+  keyword?: true
+  services?: true
+  enabled?: true
+  emailEnabled?: true
+  seenKeys?: true
+  lastCheckedAt?: true
+  lastNotifiedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type SavedSearchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearch to aggregate.
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SavedSearches
+  **/
+  _count?: true | SavedSearchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SavedSearchAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SavedSearchSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SavedSearchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SavedSearchMaxAggregateInputType
+}
+
+export type GetSavedSearchAggregateType<T extends SavedSearchAggregateArgs> = {
+      [P in keyof T & keyof AggregateSavedSearch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSavedSearch[P]>
+    : Prisma.GetScalarType<T[P], AggregateSavedSearch[P]>
+}
+
+
+
+
+export type SavedSearchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchWhereInput
+  orderBy?: Prisma.SavedSearchOrderByWithAggregationInput | Prisma.SavedSearchOrderByWithAggregationInput[]
+  by: Prisma.SavedSearchScalarFieldEnum[] | Prisma.SavedSearchScalarFieldEnum
+  having?: Prisma.SavedSearchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SavedSearchCountAggregateInputType | true
+  _avg?: SavedSearchAvgAggregateInputType
+  _sum?: SavedSearchSumAggregateInputType
+  _min?: SavedSearchMinAggregateInputType
+  _max?: SavedSearchMaxAggregateInputType
+}
+
+export type SavedSearchGroupByOutputType = {
+  id: number
+  userId: number
+  keyword: string
+  services: string[]
+  enabled: boolean
+  emailEnabled: boolean
+  seenKeys: string[]
+  lastCheckedAt: Date
+  lastNotifiedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: SavedSearchCountAggregateOutputType | null
+  _avg: SavedSearchAvgAggregateOutputType | null
+  _sum: SavedSearchSumAggregateOutputType | null
+  _min: SavedSearchMinAggregateOutputType | null
+  _max: SavedSearchMaxAggregateOutputType | null
+}
+
+type GetSavedSearchGroupByPayload<T extends SavedSearchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SavedSearchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SavedSearchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SavedSearchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SavedSearchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SavedSearchWhereInput = {
+  AND?: Prisma.SavedSearchWhereInput | Prisma.SavedSearchWhereInput[]
+  OR?: Prisma.SavedSearchWhereInput[]
+  NOT?: Prisma.SavedSearchWhereInput | Prisma.SavedSearchWhereInput[]
+  id?: Prisma.IntFilter<"SavedSearch"> | number
+  userId?: Prisma.IntFilter<"SavedSearch"> | number
+  keyword?: Prisma.StringFilter<"SavedSearch"> | string
+  services?: Prisma.StringNullableListFilter<"SavedSearch">
+  enabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  emailEnabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  seenKeys?: Prisma.StringNullableListFilter<"SavedSearch">
+  lastCheckedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  lastNotifiedAt?: Prisma.DateTimeNullableFilter<"SavedSearch"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type SavedSearchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  keyword?: Prisma.SortOrder
+  services?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  emailEnabled?: Prisma.SortOrder
+  seenKeys?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastNotifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type SavedSearchWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  userId_keyword?: Prisma.SavedSearchUserIdKeywordCompoundUniqueInput
+  AND?: Prisma.SavedSearchWhereInput | Prisma.SavedSearchWhereInput[]
+  OR?: Prisma.SavedSearchWhereInput[]
+  NOT?: Prisma.SavedSearchWhereInput | Prisma.SavedSearchWhereInput[]
+  userId?: Prisma.IntFilter<"SavedSearch"> | number
+  keyword?: Prisma.StringFilter<"SavedSearch"> | string
+  services?: Prisma.StringNullableListFilter<"SavedSearch">
+  enabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  emailEnabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  seenKeys?: Prisma.StringNullableListFilter<"SavedSearch">
+  lastCheckedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  lastNotifiedAt?: Prisma.DateTimeNullableFilter<"SavedSearch"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId_keyword">
+
+export type SavedSearchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  keyword?: Prisma.SortOrder
+  services?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  emailEnabled?: Prisma.SortOrder
+  seenKeys?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastNotifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.SavedSearchCountOrderByAggregateInput
+  _avg?: Prisma.SavedSearchAvgOrderByAggregateInput
+  _max?: Prisma.SavedSearchMaxOrderByAggregateInput
+  _min?: Prisma.SavedSearchMinOrderByAggregateInput
+  _sum?: Prisma.SavedSearchSumOrderByAggregateInput
+}
+
+export type SavedSearchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SavedSearchScalarWhereWithAggregatesInput | Prisma.SavedSearchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SavedSearchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SavedSearchScalarWhereWithAggregatesInput | Prisma.SavedSearchScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"SavedSearch"> | number
+  userId?: Prisma.IntWithAggregatesFilter<"SavedSearch"> | number
+  keyword?: Prisma.StringWithAggregatesFilter<"SavedSearch"> | string
+  services?: Prisma.StringNullableListFilter<"SavedSearch">
+  enabled?: Prisma.BoolWithAggregatesFilter<"SavedSearch"> | boolean
+  emailEnabled?: Prisma.BoolWithAggregatesFilter<"SavedSearch"> | boolean
+  seenKeys?: Prisma.StringNullableListFilter<"SavedSearch">
+  lastCheckedAt?: Prisma.DateTimeWithAggregatesFilter<"SavedSearch"> | Date | string
+  lastNotifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SavedSearch"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SavedSearch"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SavedSearch"> | Date | string
+}
+
+export type SavedSearchCreateInput = {
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutSavedSearchesInput
+}
+
+export type SavedSearchUncheckedCreateInput = {
+  id?: number
+  userId: number
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SavedSearchUpdateInput = {
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutSavedSearchesNestedInput
+}
+
+export type SavedSearchUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchCreateManyInput = {
+  id?: number
+  userId: number
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SavedSearchUpdateManyMutationInput = {
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchListRelationFilter = {
+  every?: Prisma.SavedSearchWhereInput
+  some?: Prisma.SavedSearchWhereInput
+  none?: Prisma.SavedSearchWhereInput
+}
+
+export type SavedSearchOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SavedSearchUserIdKeywordCompoundUniqueInput = {
+  userId: number
+  keyword: string
+}
+
+export type SavedSearchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  keyword?: Prisma.SortOrder
+  services?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  emailEnabled?: Prisma.SortOrder
+  seenKeys?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastNotifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SavedSearchAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type SavedSearchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  keyword?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  emailEnabled?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastNotifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SavedSearchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  keyword?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  emailEnabled?: Prisma.SortOrder
+  lastCheckedAt?: Prisma.SortOrder
+  lastNotifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SavedSearchSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type SavedSearchCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput> | Prisma.SavedSearchCreateWithoutUserInput[] | Prisma.SavedSearchUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SavedSearchCreateOrConnectWithoutUserInput | Prisma.SavedSearchCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.SavedSearchCreateManyUserInputEnvelope
+  connect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+}
+
+export type SavedSearchUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput> | Prisma.SavedSearchCreateWithoutUserInput[] | Prisma.SavedSearchUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SavedSearchCreateOrConnectWithoutUserInput | Prisma.SavedSearchCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.SavedSearchCreateManyUserInputEnvelope
+  connect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+}
+
+export type SavedSearchUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput> | Prisma.SavedSearchCreateWithoutUserInput[] | Prisma.SavedSearchUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SavedSearchCreateOrConnectWithoutUserInput | Prisma.SavedSearchCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.SavedSearchUpsertWithWhereUniqueWithoutUserInput | Prisma.SavedSearchUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.SavedSearchCreateManyUserInputEnvelope
+  set?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  update?: Prisma.SavedSearchUpdateWithWhereUniqueWithoutUserInput | Prisma.SavedSearchUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.SavedSearchUpdateManyWithWhereWithoutUserInput | Prisma.SavedSearchUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.SavedSearchScalarWhereInput | Prisma.SavedSearchScalarWhereInput[]
+}
+
+export type SavedSearchUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput> | Prisma.SavedSearchCreateWithoutUserInput[] | Prisma.SavedSearchUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SavedSearchCreateOrConnectWithoutUserInput | Prisma.SavedSearchCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.SavedSearchUpsertWithWhereUniqueWithoutUserInput | Prisma.SavedSearchUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.SavedSearchCreateManyUserInputEnvelope
+  set?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchWhereUniqueInput | Prisma.SavedSearchWhereUniqueInput[]
+  update?: Prisma.SavedSearchUpdateWithWhereUniqueWithoutUserInput | Prisma.SavedSearchUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.SavedSearchUpdateManyWithWhereWithoutUserInput | Prisma.SavedSearchUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.SavedSearchScalarWhereInput | Prisma.SavedSearchScalarWhereInput[]
+}
+
+export type SavedSearchCreateservicesInput = {
+  set: string[]
+}
+
+export type SavedSearchCreateseenKeysInput = {
+  set: string[]
+}
+
+export type SavedSearchUpdateservicesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type SavedSearchUpdateseenKeysInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type SavedSearchCreateWithoutUserInput = {
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SavedSearchUncheckedCreateWithoutUserInput = {
+  id?: number
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SavedSearchCreateOrConnectWithoutUserInput = {
+  where: Prisma.SavedSearchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput>
+}
+
+export type SavedSearchCreateManyUserInputEnvelope = {
+  data: Prisma.SavedSearchCreateManyUserInput | Prisma.SavedSearchCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type SavedSearchUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.SavedSearchWhereUniqueInput
+  update: Prisma.XOR<Prisma.SavedSearchUpdateWithoutUserInput, Prisma.SavedSearchUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.SavedSearchCreateWithoutUserInput, Prisma.SavedSearchUncheckedCreateWithoutUserInput>
+}
+
+export type SavedSearchUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.SavedSearchWhereUniqueInput
+  data: Prisma.XOR<Prisma.SavedSearchUpdateWithoutUserInput, Prisma.SavedSearchUncheckedUpdateWithoutUserInput>
+}
+
+export type SavedSearchUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.SavedSearchScalarWhereInput
+  data: Prisma.XOR<Prisma.SavedSearchUpdateManyMutationInput, Prisma.SavedSearchUncheckedUpdateManyWithoutUserInput>
+}
+
+export type SavedSearchScalarWhereInput = {
+  AND?: Prisma.SavedSearchScalarWhereInput | Prisma.SavedSearchScalarWhereInput[]
+  OR?: Prisma.SavedSearchScalarWhereInput[]
+  NOT?: Prisma.SavedSearchScalarWhereInput | Prisma.SavedSearchScalarWhereInput[]
+  id?: Prisma.IntFilter<"SavedSearch"> | number
+  userId?: Prisma.IntFilter<"SavedSearch"> | number
+  keyword?: Prisma.StringFilter<"SavedSearch"> | string
+  services?: Prisma.StringNullableListFilter<"SavedSearch">
+  enabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  emailEnabled?: Prisma.BoolFilter<"SavedSearch"> | boolean
+  seenKeys?: Prisma.StringNullableListFilter<"SavedSearch">
+  lastCheckedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  lastNotifiedAt?: Prisma.DateTimeNullableFilter<"SavedSearch"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SavedSearch"> | Date | string
+}
+
+export type SavedSearchCreateManyUserInput = {
+  id?: number
+  keyword: string
+  services?: Prisma.SavedSearchCreateservicesInput | string[]
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: Prisma.SavedSearchCreateseenKeysInput | string[]
+  lastCheckedAt?: Date | string
+  lastNotifiedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SavedSearchUpdateWithoutUserInput = {
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SavedSearchUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  keyword?: Prisma.StringFieldUpdateOperationsInput | string
+  services?: Prisma.SavedSearchUpdateservicesInput | string[]
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seenKeys?: Prisma.SavedSearchUpdateseenKeysInput | string[]
+  lastCheckedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastNotifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SavedSearchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  keyword?: boolean
+  services?: boolean
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: boolean
+  lastCheckedAt?: boolean
+  lastNotifiedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearch"]>
+
+export type SavedSearchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  keyword?: boolean
+  services?: boolean
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: boolean
+  lastCheckedAt?: boolean
+  lastNotifiedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearch"]>
+
+export type SavedSearchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  keyword?: boolean
+  services?: boolean
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: boolean
+  lastCheckedAt?: boolean
+  lastNotifiedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearch"]>
+
+export type SavedSearchSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  keyword?: boolean
+  services?: boolean
+  enabled?: boolean
+  emailEnabled?: boolean
+  seenKeys?: boolean
+  lastCheckedAt?: boolean
+  lastNotifiedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type SavedSearchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "keyword" | "services" | "enabled" | "emailEnabled" | "seenKeys" | "lastCheckedAt" | "lastNotifiedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["savedSearch"]>
+export type SavedSearchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SavedSearchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SavedSearchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SavedSearchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SavedSearch"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    userId: number
+    keyword: string
+    services: string[]
+    enabled: boolean
+    emailEnabled: boolean
+    seenKeys: string[]
+    lastCheckedAt: Date
+    lastNotifiedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["savedSearch"]>
+  composites: {}
+}
+
+export type SavedSearchGetPayload<S extends boolean | null | undefined | SavedSearchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload, S>
+
+export type SavedSearchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SavedSearchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SavedSearchCountAggregateInputType | true
+  }
+
+export interface SavedSearchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SavedSearch'], meta: { name: 'SavedSearch' } }
+  /**
+   * Find zero or one SavedSearch that matches the filter.
+   * @param {SavedSearchFindUniqueArgs} args - Arguments to find a SavedSearch
+   * @example
+   * // Get one SavedSearch
+   * const savedSearch = await prisma.savedSearch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SavedSearchFindUniqueArgs>(args: Prisma.SelectSubset<T, SavedSearchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SavedSearch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SavedSearchFindUniqueOrThrowArgs} args - Arguments to find a SavedSearch
+   * @example
+   * // Get one SavedSearch
+   * const savedSearch = await prisma.savedSearch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SavedSearchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SavedSearchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchFindFirstArgs} args - Arguments to find a SavedSearch
+   * @example
+   * // Get one SavedSearch
+   * const savedSearch = await prisma.savedSearch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SavedSearchFindFirstArgs>(args?: Prisma.SelectSubset<T, SavedSearchFindFirstArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchFindFirstOrThrowArgs} args - Arguments to find a SavedSearch
+   * @example
+   * // Get one SavedSearch
+   * const savedSearch = await prisma.savedSearch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SavedSearchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SavedSearchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SavedSearches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SavedSearches
+   * const savedSearches = await prisma.savedSearch.findMany()
+   * 
+   * // Get first 10 SavedSearches
+   * const savedSearches = await prisma.savedSearch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const savedSearchWithIdOnly = await prisma.savedSearch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SavedSearchFindManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SavedSearch.
+   * @param {SavedSearchCreateArgs} args - Arguments to create a SavedSearch.
+   * @example
+   * // Create one SavedSearch
+   * const SavedSearch = await prisma.savedSearch.create({
+   *   data: {
+   *     // ... data to create a SavedSearch
+   *   }
+   * })
+   * 
+   */
+  create<T extends SavedSearchCreateArgs>(args: Prisma.SelectSubset<T, SavedSearchCreateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SavedSearches.
+   * @param {SavedSearchCreateManyArgs} args - Arguments to create many SavedSearches.
+   * @example
+   * // Create many SavedSearches
+   * const savedSearch = await prisma.savedSearch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SavedSearchCreateManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SavedSearches and returns the data saved in the database.
+   * @param {SavedSearchCreateManyAndReturnArgs} args - Arguments to create many SavedSearches.
+   * @example
+   * // Create many SavedSearches
+   * const savedSearch = await prisma.savedSearch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SavedSearches and only return the `id`
+   * const savedSearchWithIdOnly = await prisma.savedSearch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SavedSearchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SavedSearchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SavedSearch.
+   * @param {SavedSearchDeleteArgs} args - Arguments to delete one SavedSearch.
+   * @example
+   * // Delete one SavedSearch
+   * const SavedSearch = await prisma.savedSearch.delete({
+   *   where: {
+   *     // ... filter to delete one SavedSearch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SavedSearchDeleteArgs>(args: Prisma.SelectSubset<T, SavedSearchDeleteArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SavedSearch.
+   * @param {SavedSearchUpdateArgs} args - Arguments to update one SavedSearch.
+   * @example
+   * // Update one SavedSearch
+   * const savedSearch = await prisma.savedSearch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SavedSearchUpdateArgs>(args: Prisma.SelectSubset<T, SavedSearchUpdateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SavedSearches.
+   * @param {SavedSearchDeleteManyArgs} args - Arguments to filter SavedSearches to delete.
+   * @example
+   * // Delete a few SavedSearches
+   * const { count } = await prisma.savedSearch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SavedSearchDeleteManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SavedSearches
+   * const savedSearch = await prisma.savedSearch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SavedSearchUpdateManyArgs>(args: Prisma.SelectSubset<T, SavedSearchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearches and returns the data updated in the database.
+   * @param {SavedSearchUpdateManyAndReturnArgs} args - Arguments to update many SavedSearches.
+   * @example
+   * // Update many SavedSearches
+   * const savedSearch = await prisma.savedSearch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SavedSearches and only return the `id`
+   * const savedSearchWithIdOnly = await prisma.savedSearch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SavedSearchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SavedSearchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SavedSearch.
+   * @param {SavedSearchUpsertArgs} args - Arguments to update or create a SavedSearch.
+   * @example
+   * // Update or create a SavedSearch
+   * const savedSearch = await prisma.savedSearch.upsert({
+   *   create: {
+   *     // ... data to create a SavedSearch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SavedSearch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SavedSearchUpsertArgs>(args: Prisma.SelectSubset<T, SavedSearchUpsertArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SavedSearches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchCountArgs} args - Arguments to filter SavedSearches to count.
+   * @example
+   * // Count the number of SavedSearches
+   * const count = await prisma.savedSearch.count({
+   *   where: {
+   *     // ... the filter for the SavedSearches we want to count
+   *   }
+   * })
+  **/
+  count<T extends SavedSearchCountArgs>(
+    args?: Prisma.Subset<T, SavedSearchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SavedSearchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SavedSearch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SavedSearchAggregateArgs>(args: Prisma.Subset<T, SavedSearchAggregateArgs>): Prisma.PrismaPromise<GetSavedSearchAggregateType<T>>
+
+  /**
+   * Group by SavedSearch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SavedSearchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SavedSearchGroupByArgs['orderBy'] }
+      : { orderBy?: SavedSearchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SavedSearchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSavedSearchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SavedSearch model
+ */
+readonly fields: SavedSearchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SavedSearch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SavedSearchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SavedSearch model
+ */
+export interface SavedSearchFieldRefs {
+  readonly id: Prisma.FieldRef<"SavedSearch", 'Int'>
+  readonly userId: Prisma.FieldRef<"SavedSearch", 'Int'>
+  readonly keyword: Prisma.FieldRef<"SavedSearch", 'String'>
+  readonly services: Prisma.FieldRef<"SavedSearch", 'String[]'>
+  readonly enabled: Prisma.FieldRef<"SavedSearch", 'Boolean'>
+  readonly emailEnabled: Prisma.FieldRef<"SavedSearch", 'Boolean'>
+  readonly seenKeys: Prisma.FieldRef<"SavedSearch", 'String[]'>
+  readonly lastCheckedAt: Prisma.FieldRef<"SavedSearch", 'DateTime'>
+  readonly lastNotifiedAt: Prisma.FieldRef<"SavedSearch", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"SavedSearch", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"SavedSearch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SavedSearch findUnique
+ */
+export type SavedSearchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearch to fetch.
+   */
+  where: Prisma.SavedSearchWhereUniqueInput
+}
+
+/**
+ * SavedSearch findUniqueOrThrow
+ */
+export type SavedSearchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearch to fetch.
+   */
+  where: Prisma.SavedSearchWhereUniqueInput
+}
+
+/**
+ * SavedSearch findFirst
+ */
+export type SavedSearchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearch to fetch.
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearches.
+   */
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearches.
+   */
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearch findFirstOrThrow
+ */
+export type SavedSearchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearch to fetch.
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearches.
+   */
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearches.
+   */
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearch findMany
+ */
+export type SavedSearchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearches to fetch.
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SavedSearches.
+   */
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearches.
+   */
+  skip?: number
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearch create
+ */
+export type SavedSearchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SavedSearch.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchCreateInput, Prisma.SavedSearchUncheckedCreateInput>
+}
+
+/**
+ * SavedSearch createMany
+ */
+export type SavedSearchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SavedSearches.
+   */
+  data: Prisma.SavedSearchCreateManyInput | Prisma.SavedSearchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SavedSearch createManyAndReturn
+ */
+export type SavedSearchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * The data used to create many SavedSearches.
+   */
+  data: Prisma.SavedSearchCreateManyInput | Prisma.SavedSearchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearch update
+ */
+export type SavedSearchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SavedSearch.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchUpdateInput, Prisma.SavedSearchUncheckedUpdateInput>
+  /**
+   * Choose, which SavedSearch to update.
+   */
+  where: Prisma.SavedSearchWhereUniqueInput
+}
+
+/**
+ * SavedSearch updateMany
+ */
+export type SavedSearchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SavedSearches.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchUpdateManyMutationInput, Prisma.SavedSearchUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearches to update
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * Limit how many SavedSearches to update.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearch updateManyAndReturn
+ */
+export type SavedSearchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * The data used to update SavedSearches.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchUpdateManyMutationInput, Prisma.SavedSearchUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearches to update
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * Limit how many SavedSearches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearch upsert
+ */
+export type SavedSearchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SavedSearch to update in case it exists.
+   */
+  where: Prisma.SavedSearchWhereUniqueInput
+  /**
+   * In case the SavedSearch found by the `where` argument doesn't exist, create a new SavedSearch with this data.
+   */
+  create: Prisma.XOR<Prisma.SavedSearchCreateInput, Prisma.SavedSearchUncheckedCreateInput>
+  /**
+   * In case the SavedSearch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SavedSearchUpdateInput, Prisma.SavedSearchUncheckedUpdateInput>
+}
+
+/**
+ * SavedSearch delete
+ */
+export type SavedSearchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  /**
+   * Filter which SavedSearch to delete.
+   */
+  where: Prisma.SavedSearchWhereUniqueInput
+}
+
+/**
+ * SavedSearch deleteMany
+ */
+export type SavedSearchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearches to delete
+   */
+  where?: Prisma.SavedSearchWhereInput
+  /**
+   * Limit how many SavedSearches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearch without action
+ */
+export type SavedSearchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+}
@@ -0,0 +1,1392 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `SearchSyncEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SearchSyncEvent
+ * 
+ */
+export type SearchSyncEventModel = runtime.Types.Result.DefaultSelection<Prisma.$SearchSyncEventPayload>
+
+export type AggregateSearchSyncEvent = {
+  _count: SearchSyncEventCountAggregateOutputType | null
+  _avg: SearchSyncEventAvgAggregateOutputType | null
+  _sum: SearchSyncEventSumAggregateOutputType | null
+  _min: SearchSyncEventMinAggregateOutputType | null
+  _max: SearchSyncEventMaxAggregateOutputType | null
+}
+
+export type SearchSyncEventAvgAggregateOutputType = {
+  id: number | null
+  entityId: number | null
+  attempts: number | null
+}
+
+export type SearchSyncEventSumAggregateOutputType = {
+  id: number | null
+  entityId: number | null
+  attempts: number | null
+}
+
+export type SearchSyncEventMinAggregateOutputType = {
+  id: number | null
+  target: string | null
+  entityId: number | null
+  action: string | null
+  status: string | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  lockedAt: Date | null
+  processedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SearchSyncEventMaxAggregateOutputType = {
+  id: number | null
+  target: string | null
+  entityId: number | null
+  action: string | null
+  status: string | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  lockedAt: Date | null
+  processedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SearchSyncEventCountAggregateOutputType = {
+  id: number
+  target: number
+  entityId: number
+  action: number
+  status: number
+  attempts: number
+  lastError: number
+  nextAttemptAt: number
+  lockedAt: number
+  processedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type SearchSyncEventAvgAggregateInputType = {
+  id?: true
+  entityId?: true
+  attempts?: true
+}
+
+export type SearchSyncEventSumAggregateInputType = {
+  id?: true
+  entityId?: true
+  attempts?: true
+}
+
+export type SearchSyncEventMinAggregateInputType = {
+  id?: true
+  target?: true
+  entityId?: true
+  action?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  lockedAt?: true
+  processedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SearchSyncEventMaxAggregateInputType = {
+  id?: true
+  target?: true
+  entityId?: true
+  action?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  lockedAt?: true
+  processedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SearchSyncEventCountAggregateInputType = {
+  id?: true
+  target?: true
+  entityId?: true
+  action?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  lockedAt?: true
+  processedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type SearchSyncEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SearchSyncEvent to aggregate.
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SearchSyncEvents to fetch.
+   */
+  orderBy?: Prisma.SearchSyncEventOrderByWithRelationInput | Prisma.SearchSyncEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SearchSyncEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SearchSyncEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SearchSyncEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SearchSyncEvents
+  **/
+  _count?: true | SearchSyncEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SearchSyncEventAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SearchSyncEventSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SearchSyncEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SearchSyncEventMaxAggregateInputType
+}
+
+export type GetSearchSyncEventAggregateType<T extends SearchSyncEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateSearchSyncEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSearchSyncEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateSearchSyncEvent[P]>
+}
+
+
+
+
+export type SearchSyncEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SearchSyncEventWhereInput
+  orderBy?: Prisma.SearchSyncEventOrderByWithAggregationInput | Prisma.SearchSyncEventOrderByWithAggregationInput[]
+  by: Prisma.SearchSyncEventScalarFieldEnum[] | Prisma.SearchSyncEventScalarFieldEnum
+  having?: Prisma.SearchSyncEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SearchSyncEventCountAggregateInputType | true
+  _avg?: SearchSyncEventAvgAggregateInputType
+  _sum?: SearchSyncEventSumAggregateInputType
+  _min?: SearchSyncEventMinAggregateInputType
+  _max?: SearchSyncEventMaxAggregateInputType
+}
+
+export type SearchSyncEventGroupByOutputType = {
+  id: number
+  target: string
+  entityId: number
+  action: string
+  status: string
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: Date
+  lockedAt: Date | null
+  processedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: SearchSyncEventCountAggregateOutputType | null
+  _avg: SearchSyncEventAvgAggregateOutputType | null
+  _sum: SearchSyncEventSumAggregateOutputType | null
+  _min: SearchSyncEventMinAggregateOutputType | null
+  _max: SearchSyncEventMaxAggregateOutputType | null
+}
+
+type GetSearchSyncEventGroupByPayload<T extends SearchSyncEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SearchSyncEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SearchSyncEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SearchSyncEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SearchSyncEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SearchSyncEventWhereInput = {
+  AND?: Prisma.SearchSyncEventWhereInput | Prisma.SearchSyncEventWhereInput[]
+  OR?: Prisma.SearchSyncEventWhereInput[]
+  NOT?: Prisma.SearchSyncEventWhereInput | Prisma.SearchSyncEventWhereInput[]
+  id?: Prisma.IntFilter<"SearchSyncEvent"> | number
+  target?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  entityId?: Prisma.IntFilter<"SearchSyncEvent"> | number
+  action?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  status?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  attempts?: Prisma.IntFilter<"SearchSyncEvent"> | number
+  lastError?: Prisma.StringNullableFilter<"SearchSyncEvent"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+  lockedAt?: Prisma.DateTimeNullableFilter<"SearchSyncEvent"> | Date | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"SearchSyncEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+}
+
+export type SearchSyncEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  target?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  lockedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SearchSyncEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.SearchSyncEventWhereInput | Prisma.SearchSyncEventWhereInput[]
+  OR?: Prisma.SearchSyncEventWhereInput[]
+  NOT?: Prisma.SearchSyncEventWhereInput | Prisma.SearchSyncEventWhereInput[]
+  target?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  entityId?: Prisma.IntFilter<"SearchSyncEvent"> | number
+  action?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  status?: Prisma.StringFilter<"SearchSyncEvent"> | string
+  attempts?: Prisma.IntFilter<"SearchSyncEvent"> | number
+  lastError?: Prisma.StringNullableFilter<"SearchSyncEvent"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+  lockedAt?: Prisma.DateTimeNullableFilter<"SearchSyncEvent"> | Date | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"SearchSyncEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SearchSyncEvent"> | Date | string
+}, "id">
+
+export type SearchSyncEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  target?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  lockedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.SearchSyncEventCountOrderByAggregateInput
+  _avg?: Prisma.SearchSyncEventAvgOrderByAggregateInput
+  _max?: Prisma.SearchSyncEventMaxOrderByAggregateInput
+  _min?: Prisma.SearchSyncEventMinOrderByAggregateInput
+  _sum?: Prisma.SearchSyncEventSumOrderByAggregateInput
+}
+
+export type SearchSyncEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SearchSyncEventScalarWhereWithAggregatesInput | Prisma.SearchSyncEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SearchSyncEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SearchSyncEventScalarWhereWithAggregatesInput | Prisma.SearchSyncEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"SearchSyncEvent"> | number
+  target?: Prisma.StringWithAggregatesFilter<"SearchSyncEvent"> | string
+  entityId?: Prisma.IntWithAggregatesFilter<"SearchSyncEvent"> | number
+  action?: Prisma.StringWithAggregatesFilter<"SearchSyncEvent"> | string
+  status?: Prisma.StringWithAggregatesFilter<"SearchSyncEvent"> | string
+  attempts?: Prisma.IntWithAggregatesFilter<"SearchSyncEvent"> | number
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"SearchSyncEvent"> | string | null
+  nextAttemptAt?: Prisma.DateTimeWithAggregatesFilter<"SearchSyncEvent"> | Date | string
+  lockedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SearchSyncEvent"> | Date | string | null
+  processedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SearchSyncEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SearchSyncEvent"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SearchSyncEvent"> | Date | string
+}
+
+export type SearchSyncEventCreateInput = {
+  target: string
+  entityId: number
+  action: string
+  status?: string
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  lockedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SearchSyncEventUncheckedCreateInput = {
+  id?: number
+  target: string
+  entityId: number
+  action: string
+  status?: string
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  lockedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SearchSyncEventUpdateInput = {
+  target?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.IntFieldUpdateOperationsInput | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lockedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SearchSyncEventUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  target?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.IntFieldUpdateOperationsInput | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lockedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SearchSyncEventCreateManyInput = {
+  id?: number
+  target: string
+  entityId: number
+  action: string
+  status?: string
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  lockedAt?: Date | string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SearchSyncEventUpdateManyMutationInput = {
+  target?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.IntFieldUpdateOperationsInput | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lockedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SearchSyncEventUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  target?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.IntFieldUpdateOperationsInput | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lockedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SearchSyncEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  target?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  lockedAt?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SearchSyncEventAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+}
+
+export type SearchSyncEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  target?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  lockedAt?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SearchSyncEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  target?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  lockedAt?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SearchSyncEventSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+}
+
+
+
+export type SearchSyncEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  target?: boolean
+  entityId?: boolean
+  action?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  lockedAt?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["searchSyncEvent"]>
+
+export type SearchSyncEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  target?: boolean
+  entityId?: boolean
+  action?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  lockedAt?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["searchSyncEvent"]>
+
+export type SearchSyncEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  target?: boolean
+  entityId?: boolean
+  action?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  lockedAt?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["searchSyncEvent"]>
+
+export type SearchSyncEventSelectScalar = {
+  id?: boolean
+  target?: boolean
+  entityId?: boolean
+  action?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  lockedAt?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type SearchSyncEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "target" | "entityId" | "action" | "status" | "attempts" | "lastError" | "nextAttemptAt" | "lockedAt" | "processedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["searchSyncEvent"]>
+
+export type $SearchSyncEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SearchSyncEvent"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    target: string
+    entityId: number
+    action: string
+    status: string
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: Date
+    lockedAt: Date | null
+    processedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["searchSyncEvent"]>
+  composites: {}
+}
+
+export type SearchSyncEventGetPayload<S extends boolean | null | undefined | SearchSyncEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload, S>
+
+export type SearchSyncEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SearchSyncEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SearchSyncEventCountAggregateInputType | true
+  }
+
+export interface SearchSyncEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SearchSyncEvent'], meta: { name: 'SearchSyncEvent' } }
+  /**
+   * Find zero or one SearchSyncEvent that matches the filter.
+   * @param {SearchSyncEventFindUniqueArgs} args - Arguments to find a SearchSyncEvent
+   * @example
+   * // Get one SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SearchSyncEventFindUniqueArgs>(args: Prisma.SelectSubset<T, SearchSyncEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SearchSyncEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SearchSyncEventFindUniqueOrThrowArgs} args - Arguments to find a SearchSyncEvent
+   * @example
+   * // Get one SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SearchSyncEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SearchSyncEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SearchSyncEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventFindFirstArgs} args - Arguments to find a SearchSyncEvent
+   * @example
+   * // Get one SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SearchSyncEventFindFirstArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SearchSyncEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventFindFirstOrThrowArgs} args - Arguments to find a SearchSyncEvent
+   * @example
+   * // Get one SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SearchSyncEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SearchSyncEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SearchSyncEvents
+   * const searchSyncEvents = await prisma.searchSyncEvent.findMany()
+   * 
+   * // Get first 10 SearchSyncEvents
+   * const searchSyncEvents = await prisma.searchSyncEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const searchSyncEventWithIdOnly = await prisma.searchSyncEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SearchSyncEventFindManyArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SearchSyncEvent.
+   * @param {SearchSyncEventCreateArgs} args - Arguments to create a SearchSyncEvent.
+   * @example
+   * // Create one SearchSyncEvent
+   * const SearchSyncEvent = await prisma.searchSyncEvent.create({
+   *   data: {
+   *     // ... data to create a SearchSyncEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends SearchSyncEventCreateArgs>(args: Prisma.SelectSubset<T, SearchSyncEventCreateArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SearchSyncEvents.
+   * @param {SearchSyncEventCreateManyArgs} args - Arguments to create many SearchSyncEvents.
+   * @example
+   * // Create many SearchSyncEvents
+   * const searchSyncEvent = await prisma.searchSyncEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SearchSyncEventCreateManyArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SearchSyncEvents and returns the data saved in the database.
+   * @param {SearchSyncEventCreateManyAndReturnArgs} args - Arguments to create many SearchSyncEvents.
+   * @example
+   * // Create many SearchSyncEvents
+   * const searchSyncEvent = await prisma.searchSyncEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SearchSyncEvents and only return the `id`
+   * const searchSyncEventWithIdOnly = await prisma.searchSyncEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SearchSyncEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SearchSyncEvent.
+   * @param {SearchSyncEventDeleteArgs} args - Arguments to delete one SearchSyncEvent.
+   * @example
+   * // Delete one SearchSyncEvent
+   * const SearchSyncEvent = await prisma.searchSyncEvent.delete({
+   *   where: {
+   *     // ... filter to delete one SearchSyncEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SearchSyncEventDeleteArgs>(args: Prisma.SelectSubset<T, SearchSyncEventDeleteArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SearchSyncEvent.
+   * @param {SearchSyncEventUpdateArgs} args - Arguments to update one SearchSyncEvent.
+   * @example
+   * // Update one SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SearchSyncEventUpdateArgs>(args: Prisma.SelectSubset<T, SearchSyncEventUpdateArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SearchSyncEvents.
+   * @param {SearchSyncEventDeleteManyArgs} args - Arguments to filter SearchSyncEvents to delete.
+   * @example
+   * // Delete a few SearchSyncEvents
+   * const { count } = await prisma.searchSyncEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SearchSyncEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, SearchSyncEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SearchSyncEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SearchSyncEvents
+   * const searchSyncEvent = await prisma.searchSyncEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SearchSyncEventUpdateManyArgs>(args: Prisma.SelectSubset<T, SearchSyncEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SearchSyncEvents and returns the data updated in the database.
+   * @param {SearchSyncEventUpdateManyAndReturnArgs} args - Arguments to update many SearchSyncEvents.
+   * @example
+   * // Update many SearchSyncEvents
+   * const searchSyncEvent = await prisma.searchSyncEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SearchSyncEvents and only return the `id`
+   * const searchSyncEventWithIdOnly = await prisma.searchSyncEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SearchSyncEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SearchSyncEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SearchSyncEvent.
+   * @param {SearchSyncEventUpsertArgs} args - Arguments to update or create a SearchSyncEvent.
+   * @example
+   * // Update or create a SearchSyncEvent
+   * const searchSyncEvent = await prisma.searchSyncEvent.upsert({
+   *   create: {
+   *     // ... data to create a SearchSyncEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SearchSyncEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SearchSyncEventUpsertArgs>(args: Prisma.SelectSubset<T, SearchSyncEventUpsertArgs<ExtArgs>>): Prisma.Prisma__SearchSyncEventClient<runtime.Types.Result.GetResult<Prisma.$SearchSyncEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SearchSyncEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventCountArgs} args - Arguments to filter SearchSyncEvents to count.
+   * @example
+   * // Count the number of SearchSyncEvents
+   * const count = await prisma.searchSyncEvent.count({
+   *   where: {
+   *     // ... the filter for the SearchSyncEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends SearchSyncEventCountArgs>(
+    args?: Prisma.Subset<T, SearchSyncEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SearchSyncEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SearchSyncEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SearchSyncEventAggregateArgs>(args: Prisma.Subset<T, SearchSyncEventAggregateArgs>): Prisma.PrismaPromise<GetSearchSyncEventAggregateType<T>>
+
+  /**
+   * Group by SearchSyncEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SearchSyncEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SearchSyncEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SearchSyncEventGroupByArgs['orderBy'] }
+      : { orderBy?: SearchSyncEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SearchSyncEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSearchSyncEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SearchSyncEvent model
+ */
+readonly fields: SearchSyncEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SearchSyncEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SearchSyncEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SearchSyncEvent model
+ */
+export interface SearchSyncEventFieldRefs {
+  readonly id: Prisma.FieldRef<"SearchSyncEvent", 'Int'>
+  readonly target: Prisma.FieldRef<"SearchSyncEvent", 'String'>
+  readonly entityId: Prisma.FieldRef<"SearchSyncEvent", 'Int'>
+  readonly action: Prisma.FieldRef<"SearchSyncEvent", 'String'>
+  readonly status: Prisma.FieldRef<"SearchSyncEvent", 'String'>
+  readonly attempts: Prisma.FieldRef<"SearchSyncEvent", 'Int'>
+  readonly lastError: Prisma.FieldRef<"SearchSyncEvent", 'String'>
+  readonly nextAttemptAt: Prisma.FieldRef<"SearchSyncEvent", 'DateTime'>
+  readonly lockedAt: Prisma.FieldRef<"SearchSyncEvent", 'DateTime'>
+  readonly processedAt: Prisma.FieldRef<"SearchSyncEvent", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"SearchSyncEvent", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"SearchSyncEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SearchSyncEvent findUnique
+ */
+export type SearchSyncEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter, which SearchSyncEvent to fetch.
+   */
+  where: Prisma.SearchSyncEventWhereUniqueInput
+}
+
+/**
+ * SearchSyncEvent findUniqueOrThrow
+ */
+export type SearchSyncEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter, which SearchSyncEvent to fetch.
+   */
+  where: Prisma.SearchSyncEventWhereUniqueInput
+}
+
+/**
+ * SearchSyncEvent findFirst
+ */
+export type SearchSyncEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter, which SearchSyncEvent to fetch.
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SearchSyncEvents to fetch.
+   */
+  orderBy?: Prisma.SearchSyncEventOrderByWithRelationInput | Prisma.SearchSyncEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SearchSyncEvents.
+   */
+  cursor?: Prisma.SearchSyncEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SearchSyncEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SearchSyncEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SearchSyncEvents.
+   */
+  distinct?: Prisma.SearchSyncEventScalarFieldEnum | Prisma.SearchSyncEventScalarFieldEnum[]
+}
+
+/**
+ * SearchSyncEvent findFirstOrThrow
+ */
+export type SearchSyncEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter, which SearchSyncEvent to fetch.
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SearchSyncEvents to fetch.
+   */
+  orderBy?: Prisma.SearchSyncEventOrderByWithRelationInput | Prisma.SearchSyncEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SearchSyncEvents.
+   */
+  cursor?: Prisma.SearchSyncEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SearchSyncEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SearchSyncEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SearchSyncEvents.
+   */
+  distinct?: Prisma.SearchSyncEventScalarFieldEnum | Prisma.SearchSyncEventScalarFieldEnum[]
+}
+
+/**
+ * SearchSyncEvent findMany
+ */
+export type SearchSyncEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter, which SearchSyncEvents to fetch.
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SearchSyncEvents to fetch.
+   */
+  orderBy?: Prisma.SearchSyncEventOrderByWithRelationInput | Prisma.SearchSyncEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SearchSyncEvents.
+   */
+  cursor?: Prisma.SearchSyncEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SearchSyncEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SearchSyncEvents.
+   */
+  skip?: number
+  distinct?: Prisma.SearchSyncEventScalarFieldEnum | Prisma.SearchSyncEventScalarFieldEnum[]
+}
+
+/**
+ * SearchSyncEvent create
+ */
+export type SearchSyncEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a SearchSyncEvent.
+   */
+  data: Prisma.XOR<Prisma.SearchSyncEventCreateInput, Prisma.SearchSyncEventUncheckedCreateInput>
+}
+
+/**
+ * SearchSyncEvent createMany
+ */
+export type SearchSyncEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SearchSyncEvents.
+   */
+  data: Prisma.SearchSyncEventCreateManyInput | Prisma.SearchSyncEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SearchSyncEvent createManyAndReturn
+ */
+export type SearchSyncEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many SearchSyncEvents.
+   */
+  data: Prisma.SearchSyncEventCreateManyInput | Prisma.SearchSyncEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SearchSyncEvent update
+ */
+export type SearchSyncEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a SearchSyncEvent.
+   */
+  data: Prisma.XOR<Prisma.SearchSyncEventUpdateInput, Prisma.SearchSyncEventUncheckedUpdateInput>
+  /**
+   * Choose, which SearchSyncEvent to update.
+   */
+  where: Prisma.SearchSyncEventWhereUniqueInput
+}
+
+/**
+ * SearchSyncEvent updateMany
+ */
+export type SearchSyncEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SearchSyncEvents.
+   */
+  data: Prisma.XOR<Prisma.SearchSyncEventUpdateManyMutationInput, Prisma.SearchSyncEventUncheckedUpdateManyInput>
+  /**
+   * Filter which SearchSyncEvents to update
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * Limit how many SearchSyncEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * SearchSyncEvent updateManyAndReturn
+ */
+export type SearchSyncEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * The data used to update SearchSyncEvents.
+   */
+  data: Prisma.XOR<Prisma.SearchSyncEventUpdateManyMutationInput, Prisma.SearchSyncEventUncheckedUpdateManyInput>
+  /**
+   * Filter which SearchSyncEvents to update
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * Limit how many SearchSyncEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * SearchSyncEvent upsert
+ */
+export type SearchSyncEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the SearchSyncEvent to update in case it exists.
+   */
+  where: Prisma.SearchSyncEventWhereUniqueInput
+  /**
+   * In case the SearchSyncEvent found by the `where` argument doesn't exist, create a new SearchSyncEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.SearchSyncEventCreateInput, Prisma.SearchSyncEventUncheckedCreateInput>
+  /**
+   * In case the SearchSyncEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SearchSyncEventUpdateInput, Prisma.SearchSyncEventUncheckedUpdateInput>
+}
+
+/**
+ * SearchSyncEvent delete
+ */
+export type SearchSyncEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+  /**
+   * Filter which SearchSyncEvent to delete.
+   */
+  where: Prisma.SearchSyncEventWhereUniqueInput
+}
+
+/**
+ * SearchSyncEvent deleteMany
+ */
+export type SearchSyncEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SearchSyncEvents to delete
+   */
+  where?: Prisma.SearchSyncEventWhereInput
+  /**
+   * Limit how many SearchSyncEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SearchSyncEvent without action
+ */
+export type SearchSyncEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SearchSyncEvent
+   */
+  select?: Prisma.SearchSyncEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SearchSyncEvent
+   */
+  omit?: Prisma.SearchSyncEventOmit<ExtArgs> | null
+}
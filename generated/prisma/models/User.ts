@@ -28,11 +28,13 @@ export type AggregateUser = {
 export type UserAvgAggregateOutputType = {
   id: number | null
   points: number | null
+  forumReputation: number | null
 }
 
 export type UserSumAggregateOutputType = {
   id: number | null
   points: number | null
+  forumReputation: number | null
 }
 
 export type UserMinAggregateOutputType = {
@@ -45,6 +47,7 @@ export type UserMinAggregateOutputType = {
   avatarStyle: string | null
   salt: string | null
   points: number | null
+  forumReputation: number | null
   createdAt: Date | null
   updatedAt: Date | null
   isVerified: boolean | null
@@ -62,6 +65,7 @@ export type UserMaxAggregateOutputType = {
   avatarStyle: string | null
   salt: string | null
   points: number | null
+  forumReputation: number | null
   createdAt: Date | null
   updatedAt: Date | null
   isVerified: boolean | null
@@ -79,6 +83,7 @@ export type UserCountAggregateOutputType = {
   avatarStyle: number
   salt: number
   points: number
+  forumReputation: number
   createdAt: number
   updatedAt: number
   isVerified: number
@@ -91,11 +96,13 @@ export type UserCountAggregateOutputType = {
 export type UserAvgAggregateInputType = {
   id?: true
   points?: true
+  forumReputation?: true
 }
 
 export type UserSumAggregateInputType = {
   id?: true
   points?: true
+  forumReputation?: true
 }
 
 export type UserMinAggregateInputType = {
@@ -108,6 +115,7 @@ export type UserMinAggregateInputType = {
   avatarStyle?: true
   salt?: true
   points?: true
+  forumReputation?: true
   createdAt?: true
   updatedAt?: true
   isVerified?: true
@@ -125,6 +133,7 @@ export type UserMaxAggregateInputType = {
   avatarStyle?: true
   salt?: true
   points?: true
+  forumReputation?: true
   createdAt?: true
   updatedAt?: true
   isVerified?: true
@@ -142,6 +151,7 @@ export type UserCountAggregateInputType = {
   avatarStyle?: true
   salt?: true
   points?: true
+  forumReputation?: true
   createdAt?: true
   updatedAt?: true
   isVerified?: true
@@ -246,6 +256,7 @@ export type UserGroupByOutputType = {
   avatarStyle: string
   salt: string | null
   points: number
+  forumReputation: number
   createdAt: Date
   updatedAt: Date
   isVerified: boolean
@@ -286,6 +297,7 @@ export type UserWhereInput = {
   avatarStyle?: Prisma.StringFilter<"User"> | string
   salt?: Prisma.StringNullableFilter<"User"> | string | null
   points?: Prisma.IntFilter<"User"> | number
+  forumReputation?: Prisma.IntFilter<"User"> | number
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   isVerified?: Prisma.BoolFilter<"User"> | boolean
@@ -302,6 +314,10 @@ export type UserWhereInput = {
   forumPosts?: Prisma.ForumPostListRelationFilter
   forumTopicReadStates?: Prisma.ForumTopicReadStateListRelationFilter
   notifications?: Prisma.NotificationListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  resourceRequests?: Prisma.ResourceRequestListRelationFilter
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
+  sessions?: Prisma.UserSessionListRelationFilter
   messages?: Prisma.ChatMessageListRelationFilter
   chatRooms?: Prisma.ChatRoomUserListRelationFilter
   createdRooms?: Prisma.ChatRoomListRelationFilter
@@ -311,9 +327,20 @@ export type UserWhereInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionListRelationFilter
   registrationGiftGrant?: Prisma.XOR<Prisma.RegistrationGiftGrantNullableScalarRelationFilter, Prisma.RegistrationGiftGrantWhereInput> | null
   emailVerificationTokens?: Prisma.EmailVerificationTokenListRelationFilter
+  passwordResetTokens?: Prisma.PasswordResetTokenListRelationFilter
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignListRelationFilter
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionListRelationFilter
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimListRelationFilter
+  mentionsReceived?: Prisma.MentionListRelationFilter
+  mentionsSent?: Prisma.MentionListRelationFilter
+  mentionMutes?: Prisma.MentionMuteListRelationFilter
+  mentionMutedBy?: Prisma.MentionMuteListRelationFilter
+  forumPostReactions?: Prisma.ForumPostReactionListRelationFilter
+  forumReputationReceived?: Prisma.ForumReputationEventListRelationFilter
+  forumReputationGiven?: Prisma.ForumReputationEventListRelationFilter
+  forumSubscriptions?: Prisma.ForumSubscriptionListRelationFilter
+  forumDigestPreference?: Prisma.XOR<Prisma.ForumDigestPreferenceNullableScalarRelationFilter, Prisma.ForumDigestPreferenceWhereInput> | null
+  forumRevisions?: Prisma.ForumRevisionListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -326,6 +353,7 @@ export type UserOrderByWithRelationInput = {
   avatarStyle?: Prisma.SortOrder
   salt?: Prisma.SortOrderInput | Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isVerified?: Prisma.SortOrder
@@ -342,6 +370,10 @@ export type UserOrderByWithRelationInput = {
   forumPosts?: Prisma.ForumPostOrderByRelationAggregateInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateOrderByRelationAggregateInput
   notifications?: Prisma.NotificationOrderByRelationAggregateInput
+  savedSearches?: Prisma.SavedSearchOrderByRelationAggregateInput
+  resourceRequests?: Prisma.ResourceRequestOrderByRelationAggregateInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentOrderByRelationAggregateInput
+  sessions?: Prisma.UserSessionOrderByRelationAggregateInput
   messages?: Prisma.ChatMessageOrderByRelationAggregateInput
   chatRooms?: Prisma.ChatRoomUserOrderByRelationAggregateInput
   createdRooms?: Prisma.ChatRoomOrderByRelationAggregateInput
@@ -351,9 +383,20 @@ export type UserOrderByWithRelationInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionOrderByRelationAggregateInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantOrderByWithRelationInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenOrderByRelationAggregateInput
+  passwordResetTokens?: Prisma.PasswordResetTokenOrderByRelationAggregateInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignOrderByRelationAggregateInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionOrderByRelationAggregateInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimOrderByRelationAggregateInput
+  mentionsReceived?: Prisma.MentionOrderByRelationAggregateInput
+  mentionsSent?: Prisma.MentionOrderByRelationAggregateInput
+  mentionMutes?: Prisma.MentionMuteOrderByRelationAggregateInput
+  mentionMutedBy?: Prisma.MentionMuteOrderByRelationAggregateInput
+  forumPostReactions?: Prisma.ForumPostReactionOrderByRelationAggregateInput
+  forumReputationReceived?: Prisma.ForumReputationEventOrderByRelationAggregateInput
+  forumReputationGiven?: Prisma.ForumReputationEventOrderByRelationAggregateInput
+  forumSubscriptions?: Prisma.ForumSubscriptionOrderByRelationAggregateInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceOrderByWithRelationInput
+  forumRevisions?: Prisma.ForumRevisionOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -369,6 +412,7 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   avatarStyle?: Prisma.StringFilter<"User"> | string
   salt?: Prisma.StringNullableFilter<"User"> | string | null
   points?: Prisma.IntFilter<"User"> | number
+  forumReputation?: Prisma.IntFilter<"User"> | number
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   isVerified?: Prisma.BoolFilter<"User"> | boolean
@@ -385,6 +429,10 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   forumPosts?: Prisma.ForumPostListRelationFilter
   forumTopicReadStates?: Prisma.ForumTopicReadStateListRelationFilter
   notifications?: Prisma.NotificationListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  resourceRequests?: Prisma.ResourceRequestListRelationFilter
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
+  sessions?: Prisma.UserSessionListRelationFilter
   messages?: Prisma.ChatMessageListRelationFilter
   chatRooms?: Prisma.ChatRoomUserListRelationFilter
   createdRooms?: Prisma.ChatRoomListRelationFilter
@@ -394,9 +442,20 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   pointTaskCompletions?: Prisma.PointTaskCompletionListRelationFilter
   registrationGiftGrant?: Prisma.XOR<Prisma.RegistrationGiftGrantNullableScalarRelationFilter, Prisma.RegistrationGiftGrantWhereInput> | null
   emailVerificationTokens?: Prisma.EmailVerificationTokenListRelationFilter
+  passwordResetTokens?: Prisma.PasswordResetTokenListRelationFilter
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignListRelationFilter
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionListRelationFilter
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimListRelationFilter
+  mentionsReceived?: Prisma.MentionListRelationFilter
+  mentionsSent?: Prisma.MentionListRelationFilter
+  mentionMutes?: Prisma.MentionMuteListRelationFilter
+  mentionMutedBy?: Prisma.MentionMuteListRelationFilter
+  forumPostReactions?: Prisma.ForumPostReactionListRelationFilter
+  forumReputationReceived?: Prisma.ForumReputationEventListRelationFilter
+  forumReputationGiven?: Prisma.ForumReputationEventListRelationFilter
+  forumSubscriptions?: Prisma.ForumSubscriptionListRelationFilter
+  forumDigestPreference?: Prisma.XOR<Prisma.ForumDigestPreferenceNullableScalarRelationFilter, Prisma.ForumDigestPreferenceWhereInput> | null
+  forumRevisions?: Prisma.ForumRevisionListRelationFilter
 }, "id" | "username" | "email">
 
 export type UserOrderByWithAggregationInput = {
@@ -409,6 +468,7 @@ export type UserOrderByWithAggregationInput = {
   avatarStyle?: Prisma.SortOrder
   salt?: Prisma.SortOrderInput | Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isVerified?: Prisma.SortOrder
@@ -434,6 +494,7 @@ export type UserScalarWhereWithAggregatesInput = {
   avatarStyle?: Prisma.StringWithAggregatesFilter<"User"> | string
   salt?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   points?: Prisma.IntWithAggregatesFilter<"User"> | number
+  forumReputation?: Prisma.IntWithAggregatesFilter<"User"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   isVerified?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
@@ -450,6 +511,7 @@ export type UserCreateInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -466,6 +528,10 @@ export type UserCreateInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -475,9 +541,20 @@ export type UserCreateInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -490,6 +567,7 @@ export type UserUncheckedCreateInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -506,6 +584,10 @@ export type UserUncheckedCreateInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -515,9 +597,20 @@ export type UserUncheckedCreateInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserUpdateInput = {
@@ -529,6 +622,7 @@ export type UserUpdateInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -545,6 +639,10 @@ export type UserUpdateInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -554,9 +652,20 @@ export type UserUpdateInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -569,6 +678,7 @@ export type UserUncheckedUpdateInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -585,6 +695,10 @@ export type UserUncheckedUpdateInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -594,9 +708,20 @@ export type UserUncheckedUpdateInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -609,6 +734,7 @@ export type UserCreateManyInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -625,6 +751,7 @@ export type UserUpdateManyMutationInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -642,6 +769,7 @@ export type UserUncheckedUpdateManyInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -659,6 +787,7 @@ export type UserCountOrderByAggregateInput = {
   avatarStyle?: Prisma.SortOrder
   salt?: Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isVerified?: Prisma.SortOrder
@@ -669,6 +798,7 @@ export type UserCountOrderByAggregateInput = {
 export type UserAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
 }
 
 export type UserMaxOrderByAggregateInput = {
@@ -681,6 +811,7 @@ export type UserMaxOrderByAggregateInput = {
   avatarStyle?: Prisma.SortOrder
   salt?: Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isVerified?: Prisma.SortOrder
@@ -698,6 +829,7 @@ export type UserMinOrderByAggregateInput = {
   avatarStyle?: Prisma.SortOrder
   salt?: Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isVerified?: Prisma.SortOrder
@@ -708,6 +840,7 @@ export type UserMinOrderByAggregateInput = {
 export type UserSumOrderByAggregateInput = {
   id?: Prisma.SortOrder
   points?: Prisma.SortOrder
+  forumReputation?: Prisma.SortOrder
 }
 
 export type UserScalarRelationFilter = {
@@ -832,6 +965,34 @@ export type UserUpdateOneRequiredWithoutUserResourcesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutUserResourcesInput, Prisma.UserUpdateWithoutUserResourcesInput>, Prisma.UserUncheckedUpdateWithoutUserResourcesInput>
 }
 
+export type UserCreateNestedOneWithoutResourceRequestsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestsInput, Prisma.UserUncheckedCreateWithoutResourceRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourceRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutResourceRequestsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestsInput, Prisma.UserUncheckedCreateWithoutResourceRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourceRequestsInput
+  upsert?: Prisma.UserUpsertWithoutResourceRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutResourceRequestsInput, Prisma.UserUpdateWithoutResourceRequestsInput>, Prisma.UserUncheckedUpdateWithoutResourceRequestsInput>
+}
+
+export type UserCreateNestedOneWithoutResourceRequestFulfillmentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedCreateWithoutResourceRequestFulfillmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourceRequestFulfillmentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutResourceRequestFulfillmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedCreateWithoutResourceRequestFulfillmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourceRequestFulfillmentsInput
+  upsert?: Prisma.UserUpsertWithoutResourceRequestFulfillmentsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutResourceRequestFulfillmentsInput, Prisma.UserUpdateWithoutResourceRequestFulfillmentsInput>, Prisma.UserUncheckedUpdateWithoutResourceRequestFulfillmentsInput>
+}
+
 export type UserCreateNestedOneWithoutVodConfigsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutVodConfigsInput, Prisma.UserUncheckedCreateWithoutVodConfigsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutVodConfigsInput
@@ -860,6 +1021,20 @@ export type UserUpdateOneRequiredWithoutEmailVerificationTokensNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutEmailVerificationTokensInput, Prisma.UserUpdateWithoutEmailVerificationTokensInput>, Prisma.UserUncheckedUpdateWithoutEmailVerificationTokensInput>
 }
 
+export type UserCreateNestedOneWithoutPasswordResetTokensInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPasswordResetTokensInput, Prisma.UserUncheckedCreateWithoutPasswordResetTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPasswordResetTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutPasswordResetTokensNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPasswordResetTokensInput, Prisma.UserUncheckedCreateWithoutPasswordResetTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPasswordResetTokensInput
+  upsert?: Prisma.UserUpsertWithoutPasswordResetTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPasswordResetTokensInput, Prisma.UserUpdateWithoutPasswordResetTokensInput>, Prisma.UserUncheckedUpdateWithoutPasswordResetTokensInput>
+}
+
 export type UserCreateNestedOneWithoutForumTopicsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutForumTopicsInput, Prisma.UserUncheckedCreateWithoutForumTopicsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumTopicsInput
@@ -888,6 +1063,92 @@ export type UserUpdateOneRequiredWithoutForumPostsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumPostsInput, Prisma.UserUpdateWithoutForumPostsInput>, Prisma.UserUncheckedUpdateWithoutForumPostsInput>
 }
 
+export type UserCreateNestedOneWithoutForumPostReactionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumPostReactionsInput, Prisma.UserUncheckedCreateWithoutForumPostReactionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumPostReactionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutForumPostReactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumPostReactionsInput, Prisma.UserUncheckedCreateWithoutForumPostReactionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumPostReactionsInput
+  upsert?: Prisma.UserUpsertWithoutForumPostReactionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumPostReactionsInput, Prisma.UserUpdateWithoutForumPostReactionsInput>, Prisma.UserUncheckedUpdateWithoutForumPostReactionsInput>
+}
+
+export type UserCreateNestedOneWithoutForumReputationReceivedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumReputationReceivedInput, Prisma.UserUncheckedCreateWithoutForumReputationReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumReputationReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutForumReputationGivenInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumReputationGivenInput, Prisma.UserUncheckedCreateWithoutForumReputationGivenInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumReputationGivenInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutForumReputationReceivedNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumReputationReceivedInput, Prisma.UserUncheckedCreateWithoutForumReputationReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumReputationReceivedInput
+  upsert?: Prisma.UserUpsertWithoutForumReputationReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumReputationReceivedInput, Prisma.UserUpdateWithoutForumReputationReceivedInput>, Prisma.UserUncheckedUpdateWithoutForumReputationReceivedInput>
+}
+
+export type UserUpdateOneRequiredWithoutForumReputationGivenNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumReputationGivenInput, Prisma.UserUncheckedCreateWithoutForumReputationGivenInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumReputationGivenInput
+  upsert?: Prisma.UserUpsertWithoutForumReputationGivenInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumReputationGivenInput, Prisma.UserUpdateWithoutForumReputationGivenInput>, Prisma.UserUncheckedUpdateWithoutForumReputationGivenInput>
+}
+
+export type UserCreateNestedOneWithoutForumSubscriptionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumSubscriptionsInput, Prisma.UserUncheckedCreateWithoutForumSubscriptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumSubscriptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutForumSubscriptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumSubscriptionsInput, Prisma.UserUncheckedCreateWithoutForumSubscriptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumSubscriptionsInput
+  upsert?: Prisma.UserUpsertWithoutForumSubscriptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumSubscriptionsInput, Prisma.UserUpdateWithoutForumSubscriptionsInput>, Prisma.UserUncheckedUpdateWithoutForumSubscriptionsInput>
+}
+
+export type UserCreateNestedOneWithoutForumRevisionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumRevisionsInput, Prisma.UserUncheckedCreateWithoutForumRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumRevisionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutForumRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumRevisionsInput, Prisma.UserUncheckedCreateWithoutForumRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumRevisionsInput
+  upsert?: Prisma.UserUpsertWithoutForumRevisionsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumRevisionsInput, Prisma.UserUpdateWithoutForumRevisionsInput>, Prisma.UserUncheckedUpdateWithoutForumRevisionsInput>
+}
+
+export type UserCreateNestedOneWithoutForumDigestPreferenceInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedCreateWithoutForumDigestPreferenceInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumDigestPreferenceInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutForumDigestPreferenceNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedCreateWithoutForumDigestPreferenceInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumDigestPreferenceInput
+  upsert?: Prisma.UserUpsertWithoutForumDigestPreferenceInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutForumDigestPreferenceInput, Prisma.UserUpdateWithoutForumDigestPreferenceInput>, Prisma.UserUncheckedUpdateWithoutForumDigestPreferenceInput>
+}
+
 export type UserCreateNestedOneWithoutForumTopicReadStatesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedCreateWithoutForumTopicReadStatesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutForumTopicReadStatesInput
@@ -916,6 +1177,90 @@ export type UserUpdateOneRequiredWithoutNotificationsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutNotificationsInput, Prisma.UserUpdateWithoutNotificationsInput>, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
 }
 
+export type UserCreateNestedOneWithoutMentionsReceivedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionsReceivedInput, Prisma.UserUncheckedCreateWithoutMentionsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionsReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutMentionsSentInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionsSentInput, Prisma.UserUncheckedCreateWithoutMentionsSentInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionsSentInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutMentionsReceivedNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionsReceivedInput, Prisma.UserUncheckedCreateWithoutMentionsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionsReceivedInput
+  upsert?: Prisma.UserUpsertWithoutMentionsReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutMentionsReceivedInput, Prisma.UserUpdateWithoutMentionsReceivedInput>, Prisma.UserUncheckedUpdateWithoutMentionsReceivedInput>
+}
+
+export type UserUpdateOneRequiredWithoutMentionsSentNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionsSentInput, Prisma.UserUncheckedCreateWithoutMentionsSentInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionsSentInput
+  upsert?: Prisma.UserUpsertWithoutMentionsSentInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutMentionsSentInput, Prisma.UserUpdateWithoutMentionsSentInput>, Prisma.UserUncheckedUpdateWithoutMentionsSentInput>
+}
+
+export type UserCreateNestedOneWithoutMentionMutesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionMutesInput, Prisma.UserUncheckedCreateWithoutMentionMutesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionMutesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutMentionMutedByInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionMutedByInput, Prisma.UserUncheckedCreateWithoutMentionMutedByInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionMutedByInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutMentionMutesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionMutesInput, Prisma.UserUncheckedCreateWithoutMentionMutesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionMutesInput
+  upsert?: Prisma.UserUpsertWithoutMentionMutesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutMentionMutesInput, Prisma.UserUpdateWithoutMentionMutesInput>, Prisma.UserUncheckedUpdateWithoutMentionMutesInput>
+}
+
+export type UserUpdateOneRequiredWithoutMentionMutedByNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMentionMutedByInput, Prisma.UserUncheckedCreateWithoutMentionMutedByInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMentionMutedByInput
+  upsert?: Prisma.UserUpsertWithoutMentionMutedByInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutMentionMutedByInput, Prisma.UserUpdateWithoutMentionMutedByInput>, Prisma.UserUncheckedUpdateWithoutMentionMutedByInput>
+}
+
+export type UserCreateNestedOneWithoutSavedSearchesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSavedSearchesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  upsert?: Prisma.UserUpsertWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSavedSearchesInput, Prisma.UserUpdateWithoutSavedSearchesInput>, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type UserCreateNestedOneWithoutSessionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSessionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  upsert?: Prisma.UserUpsertWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSessionsInput, Prisma.UserUpdateWithoutSessionsInput>, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+}
+
 export type UserCreateNestedOneWithoutCreatedRoomsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCreatedRoomsInput, Prisma.UserUncheckedCreateWithoutCreatedRoomsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreatedRoomsInput
@@ -1081,6 +1426,7 @@ export type UserCreateWithoutResourceTypesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1096,6 +1442,10 @@ export type UserCreateWithoutResourceTypesInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1105,9 +1455,20 @@ export type UserCreateWithoutResourceTypesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutResourceTypesInput = {
@@ -1120,6 +1481,7 @@ export type UserUncheckedCreateWithoutResourceTypesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1135,6 +1497,10 @@ export type UserUncheckedCreateWithoutResourceTypesInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1144,9 +1510,20 @@ export type UserUncheckedCreateWithoutResourceTypesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutResourceTypesInput = {
@@ -1174,6 +1551,7 @@ export type UserUpdateWithoutResourceTypesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1189,6 +1567,10 @@ export type UserUpdateWithoutResourceTypesInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -1198,9 +1580,20 @@ export type UserUpdateWithoutResourceTypesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutResourceTypesInput = {
@@ -1213,6 +1606,7 @@ export type UserUncheckedUpdateWithoutResourceTypesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1228,6 +1622,10 @@ export type UserUncheckedUpdateWithoutResourceTypesInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -1237,9 +1635,20 @@ export type UserUncheckedUpdateWithoutResourceTypesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutResourcesInput = {
@@ -1251,6 +1660,7 @@ export type UserCreateWithoutResourcesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1266,6 +1676,10 @@ export type UserCreateWithoutResourcesInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1275,9 +1689,20 @@ export type UserCreateWithoutResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutResourcesInput = {
@@ -1290,6 +1715,7 @@ export type UserUncheckedCreateWithoutResourcesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1305,6 +1731,10 @@ export type UserUncheckedCreateWithoutResourcesInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1314,9 +1744,20 @@ export type UserUncheckedCreateWithoutResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutResourcesInput = {
@@ -1344,6 +1785,7 @@ export type UserUpdateWithoutResourcesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1359,6 +1801,10 @@ export type UserUpdateWithoutResourcesInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -1368,9 +1814,20 @@ export type UserUpdateWithoutResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutResourcesInput = {
@@ -1383,6 +1840,7 @@ export type UserUncheckedUpdateWithoutResourcesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1398,6 +1856,10 @@ export type UserUncheckedUpdateWithoutResourcesInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -1407,9 +1869,20 @@ export type UserUncheckedUpdateWithoutResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutPostsInput = {
@@ -1421,6 +1894,7 @@ export type UserCreateWithoutPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1436,6 +1910,10 @@ export type UserCreateWithoutPostsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1445,9 +1923,20 @@ export type UserCreateWithoutPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutPostsInput = {
@@ -1460,6 +1949,7 @@ export type UserUncheckedCreateWithoutPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1475,6 +1965,10 @@ export type UserUncheckedCreateWithoutPostsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1484,9 +1978,20 @@ export type UserUncheckedCreateWithoutPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutPostsInput = {
@@ -1514,6 +2019,7 @@ export type UserUpdateWithoutPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1529,6 +2035,10 @@ export type UserUpdateWithoutPostsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -1538,9 +2048,20 @@ export type UserUpdateWithoutPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutPostsInput = {
@@ -1553,6 +2074,7 @@ export type UserUncheckedUpdateWithoutPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1568,6 +2090,10 @@ export type UserUncheckedUpdateWithoutPostsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -1577,9 +2103,20 @@ export type UserUncheckedUpdateWithoutPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutAlistInput = {
@@ -1591,6 +2128,7 @@ export type UserCreateWithoutAlistInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1606,6 +2144,10 @@ export type UserCreateWithoutAlistInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1615,9 +2157,20 @@ export type UserCreateWithoutAlistInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutAlistInput = {
@@ -1630,6 +2183,7 @@ export type UserUncheckedCreateWithoutAlistInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1645,6 +2199,10 @@ export type UserUncheckedCreateWithoutAlistInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1654,9 +2212,20 @@ export type UserUncheckedCreateWithoutAlistInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutAlistInput = {
@@ -1684,6 +2253,7 @@ export type UserUpdateWithoutAlistInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1699,6 +2269,10 @@ export type UserUpdateWithoutAlistInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -1708,9 +2282,20 @@ export type UserUpdateWithoutAlistInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAlistInput = {
@@ -1723,6 +2308,7 @@ export type UserUncheckedUpdateWithoutAlistInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1738,6 +2324,10 @@ export type UserUncheckedUpdateWithoutAlistInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -1747,9 +2337,20 @@ export type UserUncheckedUpdateWithoutAlistInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutBlogPostsInput = {
@@ -1761,6 +2362,7 @@ export type UserCreateWithoutBlogPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1776,6 +2378,10 @@ export type UserCreateWithoutBlogPostsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1785,9 +2391,20 @@ export type UserCreateWithoutBlogPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutBlogPostsInput = {
@@ -1800,6 +2417,7 @@ export type UserUncheckedCreateWithoutBlogPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1815,6 +2433,10 @@ export type UserUncheckedCreateWithoutBlogPostsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1824,9 +2446,20 @@ export type UserUncheckedCreateWithoutBlogPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutBlogPostsInput = {
@@ -1854,6 +2487,7 @@ export type UserUpdateWithoutBlogPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1869,6 +2503,10 @@ export type UserUpdateWithoutBlogPostsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -1878,9 +2516,20 @@ export type UserUpdateWithoutBlogPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutBlogPostsInput = {
@@ -1893,6 +2542,7 @@ export type UserUncheckedUpdateWithoutBlogPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -1908,6 +2558,10 @@ export type UserUncheckedUpdateWithoutBlogPostsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -1917,9 +2571,20 @@ export type UserUncheckedUpdateWithoutBlogPostsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutUserResourcesInput = {
@@ -1931,6 +2596,7 @@ export type UserCreateWithoutUserResourcesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1946,6 +2612,10 @@ export type UserCreateWithoutUserResourcesInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -1955,9 +2625,20 @@ export type UserCreateWithoutUserResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutUserResourcesInput = {
@@ -1970,6 +2651,7 @@ export type UserUncheckedCreateWithoutUserResourcesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -1985,6 +2667,10 @@ export type UserUncheckedCreateWithoutUserResourcesInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -1994,9 +2680,20 @@ export type UserUncheckedCreateWithoutUserResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutUserResourcesInput = {
@@ -2024,6 +2721,7 @@ export type UserUpdateWithoutUserResourcesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2039,6 +2737,10 @@ export type UserUpdateWithoutUserResourcesInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2048,9 +2750,20 @@ export type UserUpdateWithoutUserResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutUserResourcesInput = {
@@ -2063,6 +2776,7 @@ export type UserUncheckedUpdateWithoutUserResourcesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2078,6 +2792,10 @@ export type UserUncheckedUpdateWithoutUserResourcesInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2087,12 +2805,23 @@ export type UserUncheckedUpdateWithoutUserResourcesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
-}
-
-export type UserCreateWithoutVodConfigsInput = {
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutResourceRequestsInput = {
   username: string
   email: string
   password: string
@@ -2101,6 +2830,7 @@ export type UserCreateWithoutVodConfigsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2112,10 +2842,14 @@ export type UserCreateWithoutVodConfigsInput = {
   alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
   blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2125,12 +2859,23 @@ export type UserCreateWithoutVodConfigsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
-}
-
-export type UserUncheckedCreateWithoutVodConfigsInput = {
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutResourceRequestsInput = {
   id?: number
   username: string
   email: string
@@ -2140,6 +2885,7 @@ export type UserUncheckedCreateWithoutVodConfigsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2151,10 +2897,14 @@ export type UserUncheckedCreateWithoutVodConfigsInput = {
   alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
   blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -2164,28 +2914,39 @@ export type UserUncheckedCreateWithoutVodConfigsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
-}
-
-export type UserCreateOrConnectWithoutVodConfigsInput = {
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutResourceRequestsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutVodConfigsInput, Prisma.UserUncheckedCreateWithoutVodConfigsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestsInput, Prisma.UserUncheckedCreateWithoutResourceRequestsInput>
 }
 
-export type UserUpsertWithoutVodConfigsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutVodConfigsInput, Prisma.UserUncheckedUpdateWithoutVodConfigsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutVodConfigsInput, Prisma.UserUncheckedCreateWithoutVodConfigsInput>
+export type UserUpsertWithoutResourceRequestsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutResourceRequestsInput, Prisma.UserUncheckedUpdateWithoutResourceRequestsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestsInput, Prisma.UserUncheckedCreateWithoutResourceRequestsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutVodConfigsInput = {
+export type UserUpdateToOneWithWhereWithoutResourceRequestsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutVodConfigsInput, Prisma.UserUncheckedUpdateWithoutVodConfigsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutResourceRequestsInput, Prisma.UserUncheckedUpdateWithoutResourceRequestsInput>
 }
 
-export type UserUpdateWithoutVodConfigsInput = {
+export type UserUpdateWithoutResourceRequestsInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2194,6 +2955,7 @@ export type UserUpdateWithoutVodConfigsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2205,10 +2967,14 @@ export type UserUpdateWithoutVodConfigsInput = {
   alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
   blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2218,12 +2984,23 @@ export type UserUpdateWithoutVodConfigsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
-}
-
-export type UserUncheckedUpdateWithoutVodConfigsInput = {
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutResourceRequestsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2233,6 +3010,7 @@ export type UserUncheckedUpdateWithoutVodConfigsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2244,10 +3022,14 @@ export type UserUncheckedUpdateWithoutVodConfigsInput = {
   alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
   blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2257,12 +3039,23 @@ export type UserUncheckedUpdateWithoutVodConfigsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
-}
-
-export type UserCreateWithoutEmailVerificationTokensInput = {
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutResourceRequestFulfillmentsInput = {
   username: string
   email: string
   password: string
@@ -2271,6 +3064,7 @@ export type UserCreateWithoutEmailVerificationTokensInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2287,6 +3081,9 @@ export type UserCreateWithoutEmailVerificationTokensInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2295,12 +3092,24 @@ export type UserCreateWithoutEmailVerificationTokensInput = {
   transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
-}
-
-export type UserUncheckedCreateWithoutEmailVerificationTokensInput = {
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutResourceRequestFulfillmentsInput = {
   id?: number
   username: string
   email: string
@@ -2310,6 +3119,7 @@ export type UserUncheckedCreateWithoutEmailVerificationTokensInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2326,6 +3136,9 @@ export type UserUncheckedCreateWithoutEmailVerificationTokensInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -2334,28 +3147,40 @@ export type UserUncheckedCreateWithoutEmailVerificationTokensInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
-}
-
-export type UserCreateOrConnectWithoutEmailVerificationTokensInput = {
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutResourceRequestFulfillmentsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedCreateWithoutEmailVerificationTokensInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedCreateWithoutResourceRequestFulfillmentsInput>
 }
 
-export type UserUpsertWithoutEmailVerificationTokensInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedUpdateWithoutEmailVerificationTokensInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedCreateWithoutEmailVerificationTokensInput>
+export type UserUpsertWithoutResourceRequestFulfillmentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedUpdateWithoutResourceRequestFulfillmentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedCreateWithoutResourceRequestFulfillmentsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutEmailVerificationTokensInput = {
+export type UserUpdateToOneWithWhereWithoutResourceRequestFulfillmentsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedUpdateWithoutEmailVerificationTokensInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutResourceRequestFulfillmentsInput, Prisma.UserUncheckedUpdateWithoutResourceRequestFulfillmentsInput>
 }
 
-export type UserUpdateWithoutEmailVerificationTokensInput = {
+export type UserUpdateWithoutResourceRequestFulfillmentsInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2364,6 +3189,7 @@ export type UserUpdateWithoutEmailVerificationTokensInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2380,6 +3206,9 @@ export type UserUpdateWithoutEmailVerificationTokensInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2388,12 +3217,24 @@ export type UserUpdateWithoutEmailVerificationTokensInput = {
   transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
-}
-
-export type UserUncheckedUpdateWithoutEmailVerificationTokensInput = {
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutResourceRequestFulfillmentsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2403,6 +3244,7 @@ export type UserUncheckedUpdateWithoutEmailVerificationTokensInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2419,6 +3261,9 @@ export type UserUncheckedUpdateWithoutEmailVerificationTokensInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2427,12 +3272,24 @@ export type UserUncheckedUpdateWithoutEmailVerificationTokensInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
-export type UserCreateWithoutForumTopicsInput = {
+export type UserCreateWithoutVodConfigsInput = {
   username: string
   email: string
   password: string
@@ -2441,6 +3298,7 @@ export type UserCreateWithoutForumTopicsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2452,10 +3310,14 @@ export type UserCreateWithoutForumTopicsInput = {
   alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
   blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
-  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2465,12 +3327,23 @@ export type UserCreateWithoutForumTopicsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
-export type UserUncheckedCreateWithoutForumTopicsInput = {
+export type UserUncheckedCreateWithoutVodConfigsInput = {
   id?: number
   username: string
   email: string
@@ -2480,6 +3353,7 @@ export type UserUncheckedCreateWithoutForumTopicsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2491,10 +3365,14 @@ export type UserUncheckedCreateWithoutForumTopicsInput = {
   alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
   blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
-  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -2504,28 +3382,39 @@ export type UserUncheckedCreateWithoutForumTopicsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
-export type UserCreateOrConnectWithoutForumTopicsInput = {
+export type UserCreateOrConnectWithoutVodConfigsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicsInput, Prisma.UserUncheckedCreateWithoutForumTopicsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutVodConfigsInput, Prisma.UserUncheckedCreateWithoutVodConfigsInput>
 }
 
-export type UserUpsertWithoutForumTopicsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicsInput, Prisma.UserUncheckedUpdateWithoutForumTopicsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicsInput, Prisma.UserUncheckedCreateWithoutForumTopicsInput>
+export type UserUpsertWithoutVodConfigsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutVodConfigsInput, Prisma.UserUncheckedUpdateWithoutVodConfigsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutVodConfigsInput, Prisma.UserUncheckedCreateWithoutVodConfigsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutForumTopicsInput = {
+export type UserUpdateToOneWithWhereWithoutVodConfigsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicsInput, Prisma.UserUncheckedUpdateWithoutForumTopicsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutVodConfigsInput, Prisma.UserUncheckedUpdateWithoutVodConfigsInput>
 }
 
-export type UserUpdateWithoutForumTopicsInput = {
+export type UserUpdateWithoutVodConfigsInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2534,6 +3423,7 @@ export type UserUpdateWithoutForumTopicsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2545,10 +3435,14 @@ export type UserUpdateWithoutForumTopicsInput = {
   alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
   blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
-  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2558,12 +3452,23 @@ export type UserUpdateWithoutForumTopicsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutForumTopicsInput = {
+export type UserUncheckedUpdateWithoutVodConfigsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2573,6 +3478,7 @@ export type UserUncheckedUpdateWithoutForumTopicsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2584,10 +3490,14 @@ export type UserUncheckedUpdateWithoutForumTopicsInput = {
   alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
   blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
-  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2597,12 +3507,23 @@ export type UserUncheckedUpdateWithoutForumTopicsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
-export type UserCreateWithoutForumPostsInput = {
+export type UserCreateWithoutEmailVerificationTokensInput = {
   username: string
   email: string
   password: string
@@ -2611,6 +3532,7 @@ export type UserCreateWithoutForumPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2624,8 +3546,13 @@ export type UserCreateWithoutForumPostsInput = {
   userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
   vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2634,13 +3561,23 @@ export type UserCreateWithoutForumPostsInput = {
   transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
-  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
-export type UserUncheckedCreateWithoutForumPostsInput = {
+export type UserUncheckedCreateWithoutEmailVerificationTokensInput = {
   id?: number
   username: string
   email: string
@@ -2650,6 +3587,7 @@ export type UserUncheckedCreateWithoutForumPostsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2663,8 +3601,13 @@ export type UserUncheckedCreateWithoutForumPostsInput = {
   userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
   vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -2673,29 +3616,39 @@ export type UserUncheckedCreateWithoutForumPostsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
-  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
-export type UserCreateOrConnectWithoutForumPostsInput = {
+export type UserCreateOrConnectWithoutEmailVerificationTokensInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostsInput, Prisma.UserUncheckedCreateWithoutForumPostsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedCreateWithoutEmailVerificationTokensInput>
 }
 
-export type UserUpsertWithoutForumPostsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutForumPostsInput, Prisma.UserUncheckedUpdateWithoutForumPostsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostsInput, Prisma.UserUncheckedCreateWithoutForumPostsInput>
+export type UserUpsertWithoutEmailVerificationTokensInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedUpdateWithoutEmailVerificationTokensInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedCreateWithoutEmailVerificationTokensInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutForumPostsInput = {
+export type UserUpdateToOneWithWhereWithoutEmailVerificationTokensInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutForumPostsInput, Prisma.UserUncheckedUpdateWithoutForumPostsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutEmailVerificationTokensInput, Prisma.UserUncheckedUpdateWithoutEmailVerificationTokensInput>
 }
 
-export type UserUpdateWithoutForumPostsInput = {
+export type UserUpdateWithoutEmailVerificationTokensInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2704,6 +3657,7 @@ export type UserUpdateWithoutForumPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2717,8 +3671,13 @@ export type UserUpdateWithoutForumPostsInput = {
   userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
   vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2727,13 +3686,23 @@ export type UserUpdateWithoutForumPostsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
-  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutForumPostsInput = {
+export type UserUncheckedUpdateWithoutEmailVerificationTokensInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2743,6 +3712,7 @@ export type UserUncheckedUpdateWithoutForumPostsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2756,8 +3726,13 @@ export type UserUncheckedUpdateWithoutForumPostsInput = {
   userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
   vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2766,13 +3741,23 @@ export type UserUncheckedUpdateWithoutForumPostsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
-  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
-}
-
-export type UserCreateWithoutForumTopicReadStatesInput = {
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutPasswordResetTokensInput = {
   username: string
   email: string
   password: string
@@ -2781,6 +3766,7 @@ export type UserCreateWithoutForumTopicReadStatesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2795,7 +3781,12 @@ export type UserCreateWithoutForumTopicReadStatesInput = {
   vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2808,9 +3799,19 @@ export type UserCreateWithoutForumTopicReadStatesInput = {
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
-}
-
-export type UserUncheckedCreateWithoutForumTopicReadStatesInput = {
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutPasswordResetTokensInput = {
   id?: number
   username: string
   email: string
@@ -2820,6 +3821,7 @@ export type UserUncheckedCreateWithoutForumTopicReadStatesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2834,7 +3836,12 @@ export type UserUncheckedCreateWithoutForumTopicReadStatesInput = {
   vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -2847,25 +3854,35 @@ export type UserUncheckedCreateWithoutForumTopicReadStatesInput = {
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
-}
-
-export type UserCreateOrConnectWithoutForumTopicReadStatesInput = {
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutPasswordResetTokensInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedCreateWithoutForumTopicReadStatesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPasswordResetTokensInput, Prisma.UserUncheckedCreateWithoutPasswordResetTokensInput>
 }
 
-export type UserUpsertWithoutForumTopicReadStatesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedUpdateWithoutForumTopicReadStatesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedCreateWithoutForumTopicReadStatesInput>
+export type UserUpsertWithoutPasswordResetTokensInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPasswordResetTokensInput, Prisma.UserUncheckedUpdateWithoutPasswordResetTokensInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPasswordResetTokensInput, Prisma.UserUncheckedCreateWithoutPasswordResetTokensInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutForumTopicReadStatesInput = {
+export type UserUpdateToOneWithWhereWithoutPasswordResetTokensInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedUpdateWithoutForumTopicReadStatesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPasswordResetTokensInput, Prisma.UserUncheckedUpdateWithoutPasswordResetTokensInput>
 }
 
-export type UserUpdateWithoutForumTopicReadStatesInput = {
+export type UserUpdateWithoutPasswordResetTokensInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2874,6 +3891,7 @@ export type UserUpdateWithoutForumTopicReadStatesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2888,7 +3906,12 @@ export type UserUpdateWithoutForumTopicReadStatesInput = {
   vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -2901,9 +3924,19 @@ export type UserUpdateWithoutForumTopicReadStatesInput = {
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
-}
-
-export type UserUncheckedUpdateWithoutForumTopicReadStatesInput = {
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPasswordResetTokensInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2913,6 +3946,7 @@ export type UserUncheckedUpdateWithoutForumTopicReadStatesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -2927,7 +3961,12 @@ export type UserUncheckedUpdateWithoutForumTopicReadStatesInput = {
   vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
   forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -2940,9 +3979,19 @@ export type UserUncheckedUpdateWithoutForumTopicReadStatesInput = {
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
-export type UserCreateWithoutNotificationsInput = {
+export type UserCreateWithoutForumTopicsInput = {
   username: string
   email: string
   password: string
@@ -2951,6 +4000,7 @@ export type UserCreateWithoutNotificationsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -2963,9 +4013,13 @@ export type UserCreateWithoutNotificationsInput = {
   blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
   vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
-  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -2975,12 +4029,23 @@ export type UserCreateWithoutNotificationsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
-export type UserUncheckedCreateWithoutNotificationsInput = {
+export type UserUncheckedCreateWithoutForumTopicsInput = {
   id?: number
   username: string
   email: string
@@ -2990,6 +4055,7 @@ export type UserUncheckedCreateWithoutNotificationsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3002,9 +4068,13 @@ export type UserUncheckedCreateWithoutNotificationsInput = {
   blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
   userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
   vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
-  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -3014,28 +4084,39 @@ export type UserUncheckedCreateWithoutNotificationsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
-export type UserCreateOrConnectWithoutNotificationsInput = {
+export type UserCreateOrConnectWithoutForumTopicsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicsInput, Prisma.UserUncheckedCreateWithoutForumTopicsInput>
 }
 
-export type UserUpsertWithoutNotificationsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+export type UserUpsertWithoutForumTopicsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicsInput, Prisma.UserUncheckedUpdateWithoutForumTopicsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicsInput, Prisma.UserUncheckedCreateWithoutForumTopicsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutNotificationsInput = {
+export type UserUpdateToOneWithWhereWithoutForumTopicsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicsInput, Prisma.UserUncheckedUpdateWithoutForumTopicsInput>
 }
 
-export type UserUpdateWithoutNotificationsInput = {
+export type UserUpdateWithoutForumTopicsInput = {
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3044,6 +4125,7 @@ export type UserUpdateWithoutNotificationsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3056,9 +4138,13 @@ export type UserUpdateWithoutNotificationsInput = {
   blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
   vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
-  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -3068,12 +4154,23 @@ export type UserUpdateWithoutNotificationsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutNotificationsInput = {
+export type UserUncheckedUpdateWithoutForumTopicsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   username?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3083,6 +4180,7 @@ export type UserUncheckedUpdateWithoutNotificationsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3095,9 +4193,13 @@ export type UserUncheckedUpdateWithoutNotificationsInput = {
   blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
   userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
   vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
-  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -3107,12 +4209,23 @@ export type UserUncheckedUpdateWithoutNotificationsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
-export type UserCreateWithoutCreatedRoomsInput = {
+export type UserCreateWithoutForumPostsInput = {
   username: string
   email: string
   password: string
@@ -3121,6 +4234,7 @@ export type UserCreateWithoutCreatedRoomsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3134,23 +4248,3548 @@ export type UserCreateWithoutCreatedRoomsInput = {
   userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
   vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
   forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
-  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
   checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
   pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
   transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
-export type UserUncheckedCreateWithoutCreatedRoomsInput = {
+export type UserUncheckedCreateWithoutForumPostsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumPostsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostsInput, Prisma.UserUncheckedCreateWithoutForumPostsInput>
+}
+
+export type UserUpsertWithoutForumPostsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumPostsInput, Prisma.UserUncheckedUpdateWithoutForumPostsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostsInput, Prisma.UserUncheckedCreateWithoutForumPostsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumPostsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumPostsInput, Prisma.UserUncheckedUpdateWithoutForumPostsInput>
+}
+
+export type UserUpdateWithoutForumPostsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumPostsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutForumPostReactionsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumPostReactionsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumPostReactionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostReactionsInput, Prisma.UserUncheckedCreateWithoutForumPostReactionsInput>
+}
+
+export type UserUpsertWithoutForumPostReactionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumPostReactionsInput, Prisma.UserUncheckedUpdateWithoutForumPostReactionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumPostReactionsInput, Prisma.UserUncheckedCreateWithoutForumPostReactionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumPostReactionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumPostReactionsInput, Prisma.UserUncheckedUpdateWithoutForumPostReactionsInput>
+}
+
+export type UserUpdateWithoutForumPostReactionsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumPostReactionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutForumReputationReceivedInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumReputationReceivedInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumReputationReceivedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumReputationReceivedInput, Prisma.UserUncheckedCreateWithoutForumReputationReceivedInput>
+}
+
+export type UserCreateWithoutForumReputationGivenInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumReputationGivenInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumReputationGivenInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumReputationGivenInput, Prisma.UserUncheckedCreateWithoutForumReputationGivenInput>
+}
+
+export type UserUpsertWithoutForumReputationReceivedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumReputationReceivedInput, Prisma.UserUncheckedUpdateWithoutForumReputationReceivedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumReputationReceivedInput, Prisma.UserUncheckedCreateWithoutForumReputationReceivedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumReputationReceivedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumReputationReceivedInput, Prisma.UserUncheckedUpdateWithoutForumReputationReceivedInput>
+}
+
+export type UserUpdateWithoutForumReputationReceivedInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumReputationReceivedInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUpsertWithoutForumReputationGivenInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumReputationGivenInput, Prisma.UserUncheckedUpdateWithoutForumReputationGivenInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumReputationGivenInput, Prisma.UserUncheckedCreateWithoutForumReputationGivenInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumReputationGivenInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumReputationGivenInput, Prisma.UserUncheckedUpdateWithoutForumReputationGivenInput>
+}
+
+export type UserUpdateWithoutForumReputationGivenInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumReputationGivenInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutForumSubscriptionsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumSubscriptionsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumSubscriptionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumSubscriptionsInput, Prisma.UserUncheckedCreateWithoutForumSubscriptionsInput>
+}
+
+export type UserUpsertWithoutForumSubscriptionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumSubscriptionsInput, Prisma.UserUncheckedUpdateWithoutForumSubscriptionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumSubscriptionsInput, Prisma.UserUncheckedCreateWithoutForumSubscriptionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumSubscriptionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumSubscriptionsInput, Prisma.UserUncheckedUpdateWithoutForumSubscriptionsInput>
+}
+
+export type UserUpdateWithoutForumSubscriptionsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumSubscriptionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutForumRevisionsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutForumRevisionsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutForumRevisionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumRevisionsInput, Prisma.UserUncheckedCreateWithoutForumRevisionsInput>
+}
+
+export type UserUpsertWithoutForumRevisionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumRevisionsInput, Prisma.UserUncheckedUpdateWithoutForumRevisionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumRevisionsInput, Prisma.UserUncheckedCreateWithoutForumRevisionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumRevisionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumRevisionsInput, Prisma.UserUncheckedUpdateWithoutForumRevisionsInput>
+}
+
+export type UserUpdateWithoutForumRevisionsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumRevisionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+}
+
+export type UserCreateWithoutForumDigestPreferenceInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumDigestPreferenceInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumDigestPreferenceInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedCreateWithoutForumDigestPreferenceInput>
+}
+
+export type UserUpsertWithoutForumDigestPreferenceInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedUpdateWithoutForumDigestPreferenceInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedCreateWithoutForumDigestPreferenceInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumDigestPreferenceInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumDigestPreferenceInput, Prisma.UserUncheckedUpdateWithoutForumDigestPreferenceInput>
+}
+
+export type UserUpdateWithoutForumDigestPreferenceInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumDigestPreferenceInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutForumTopicReadStatesInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutForumTopicReadStatesInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutForumTopicReadStatesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedCreateWithoutForumTopicReadStatesInput>
+}
+
+export type UserUpsertWithoutForumTopicReadStatesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedUpdateWithoutForumTopicReadStatesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedCreateWithoutForumTopicReadStatesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutForumTopicReadStatesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutForumTopicReadStatesInput, Prisma.UserUncheckedUpdateWithoutForumTopicReadStatesInput>
+}
+
+export type UserUpdateWithoutForumTopicReadStatesInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutForumTopicReadStatesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutNotificationsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutNotificationsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+}
+
+export type UserUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type UserUpdateWithoutNotificationsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutMentionsReceivedInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutMentionsReceivedInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutMentionsReceivedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionsReceivedInput, Prisma.UserUncheckedCreateWithoutMentionsReceivedInput>
+}
+
+export type UserCreateWithoutMentionsSentInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutMentionsSentInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutMentionsSentInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionsSentInput, Prisma.UserUncheckedCreateWithoutMentionsSentInput>
+}
+
+export type UserUpsertWithoutMentionsReceivedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutMentionsReceivedInput, Prisma.UserUncheckedUpdateWithoutMentionsReceivedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionsReceivedInput, Prisma.UserUncheckedCreateWithoutMentionsReceivedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutMentionsReceivedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutMentionsReceivedInput, Prisma.UserUncheckedUpdateWithoutMentionsReceivedInput>
+}
+
+export type UserUpdateWithoutMentionsReceivedInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutMentionsReceivedInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUpsertWithoutMentionsSentInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutMentionsSentInput, Prisma.UserUncheckedUpdateWithoutMentionsSentInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionsSentInput, Prisma.UserUncheckedCreateWithoutMentionsSentInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutMentionsSentInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutMentionsSentInput, Prisma.UserUncheckedUpdateWithoutMentionsSentInput>
+}
+
+export type UserUpdateWithoutMentionsSentInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutMentionsSentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutMentionMutesInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutMentionMutesInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutMentionMutesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionMutesInput, Prisma.UserUncheckedCreateWithoutMentionMutesInput>
+}
+
+export type UserCreateWithoutMentionMutedByInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutMentionMutedByInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutMentionMutedByInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionMutedByInput, Prisma.UserUncheckedCreateWithoutMentionMutedByInput>
+}
+
+export type UserUpsertWithoutMentionMutesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutMentionMutesInput, Prisma.UserUncheckedUpdateWithoutMentionMutesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionMutesInput, Prisma.UserUncheckedCreateWithoutMentionMutesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutMentionMutesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutMentionMutesInput, Prisma.UserUncheckedUpdateWithoutMentionMutesInput>
+}
+
+export type UserUpdateWithoutMentionMutesInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutMentionMutesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUpsertWithoutMentionMutedByInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutMentionMutedByInput, Prisma.UserUncheckedUpdateWithoutMentionMutedByInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutMentionMutedByInput, Prisma.UserUncheckedCreateWithoutMentionMutedByInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutMentionMutedByInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutMentionMutedByInput, Prisma.UserUncheckedUpdateWithoutMentionMutedByInput>
+}
+
+export type UserUpdateWithoutMentionMutedByInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutMentionMutedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutSavedSearchesInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutSavedSearchesInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutSavedSearchesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+}
+
+export type UserUpsertWithoutSavedSearchesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSavedSearchesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type UserUpdateWithoutSavedSearchesInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutSessionsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutSessionsInput = {
+  id?: number
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceUncheckedCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostUncheckedCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistUncheckedCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostUncheckedCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceUncheckedCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicUncheckedCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
+  createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
+  checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
+}
+
+export type UserCreateOrConnectWithoutSessionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+}
+
+export type UserUpsertWithoutSessionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSessionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+}
+
+export type UserUpdateWithoutSessionsInput = {
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSessionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  username?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
+  salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerificationRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  resources?: Prisma.ResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  resourceTypes?: Prisma.ResourceTypeUncheckedUpdateManyWithoutCreatorNestedInput
+  posts?: Prisma.PostUncheckedUpdateManyWithoutCreatorNestedInput
+  alist?: Prisma.AlistUncheckedUpdateManyWithoutCreatorNestedInput
+  blogPosts?: Prisma.BlogPostUncheckedUpdateManyWithoutAuthorNestedInput
+  userResources?: Prisma.UserResourceUncheckedUpdateManyWithoutCreatorNestedInput
+  vodConfigs?: Prisma.UserVodConfigUncheckedUpdateManyWithoutUserNestedInput
+  forumTopics?: Prisma.ForumTopicUncheckedUpdateManyWithoutAuthorNestedInput
+  forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
+  chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
+  createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
+  checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
+  pointsHistory?: Prisma.PointsHistoryUncheckedUpdateManyWithoutUserNestedInput
+  transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
+}
+
+export type UserCreateWithoutCreatedRoomsInput = {
+  username: string
+  email: string
+  password: string
+  role?: string
+  status?: string
+  avatarStyle?: string
+  salt?: string | null
+  points?: number
+  forumReputation?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isVerified?: boolean
+  emailVerifiedAt?: Date | string | null
+  emailVerificationRequired?: boolean
+  resources?: Prisma.ResourceCreateNestedManyWithoutCreatorInput
+  resourceTypes?: Prisma.ResourceTypeCreateNestedManyWithoutCreatorInput
+  posts?: Prisma.PostCreateNestedManyWithoutCreatorInput
+  alist?: Prisma.AlistCreateNestedManyWithoutCreatorInput
+  blogPosts?: Prisma.BlogPostCreateNestedManyWithoutAuthorInput
+  userResources?: Prisma.UserResourceCreateNestedManyWithoutCreatorInput
+  vodConfigs?: Prisma.UserVodConfigCreateNestedManyWithoutUserInput
+  forumTopics?: Prisma.ForumTopicCreateNestedManyWithoutAuthorInput
+  forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
+  forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
+  messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
+  chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
+  checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
+  pointsHistory?: Prisma.PointsHistoryCreateNestedManyWithoutUserInput
+  transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
+  pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
+  registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
+  emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
+  redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
+  redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
+}
+
+export type UserUncheckedCreateWithoutCreatedRoomsInput = {
   id?: number
   username: string
   email: string
@@ -3160,6 +7799,7 @@ export type UserUncheckedCreateWithoutCreatedRoomsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3176,6 +7816,10 @@ export type UserUncheckedCreateWithoutCreatedRoomsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
@@ -3184,9 +7828,20 @@ export type UserUncheckedCreateWithoutCreatedRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutCreatedRoomsInput = {
@@ -3214,6 +7869,7 @@ export type UserUpdateWithoutCreatedRoomsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3230,6 +7886,10 @@ export type UserUpdateWithoutCreatedRoomsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
@@ -3238,9 +7898,20 @@ export type UserUpdateWithoutCreatedRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCreatedRoomsInput = {
@@ -3253,6 +7924,7 @@ export type UserUncheckedUpdateWithoutCreatedRoomsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3269,6 +7941,10 @@ export type UserUncheckedUpdateWithoutCreatedRoomsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
@@ -3277,9 +7953,20 @@ export type UserUncheckedUpdateWithoutCreatedRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutChatRoomsInput = {
@@ -3291,6 +7978,7 @@ export type UserCreateWithoutChatRoomsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3307,6 +7995,10 @@ export type UserCreateWithoutChatRoomsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
   checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
@@ -3315,9 +8007,20 @@ export type UserCreateWithoutChatRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutChatRoomsInput = {
@@ -3330,6 +8033,7 @@ export type UserUncheckedCreateWithoutChatRoomsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3346,6 +8050,10 @@ export type UserUncheckedCreateWithoutChatRoomsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
   checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
@@ -3354,9 +8062,20 @@ export type UserUncheckedCreateWithoutChatRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutChatRoomsInput = {
@@ -3384,6 +8103,7 @@ export type UserUpdateWithoutChatRoomsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3400,6 +8120,10 @@ export type UserUpdateWithoutChatRoomsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
   checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
@@ -3408,9 +8132,20 @@ export type UserUpdateWithoutChatRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutChatRoomsInput = {
@@ -3423,6 +8158,7 @@ export type UserUncheckedUpdateWithoutChatRoomsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3439,6 +8175,10 @@ export type UserUncheckedUpdateWithoutChatRoomsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
   checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
@@ -3447,9 +8187,20 @@ export type UserUncheckedUpdateWithoutChatRoomsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutMessagesInput = {
@@ -3461,6 +8212,7 @@ export type UserCreateWithoutMessagesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3477,6 +8229,10 @@ export type UserCreateWithoutMessagesInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
   checkIns?: Prisma.CheckInCreateNestedManyWithoutUserInput
@@ -3485,9 +8241,20 @@ export type UserCreateWithoutMessagesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutMessagesInput = {
@@ -3500,6 +8267,7 @@ export type UserUncheckedCreateWithoutMessagesInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3516,6 +8284,10 @@ export type UserUncheckedCreateWithoutMessagesInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
   checkIns?: Prisma.CheckInUncheckedCreateNestedManyWithoutUserInput
@@ -3524,9 +8296,20 @@ export type UserUncheckedCreateWithoutMessagesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutMessagesInput = {
@@ -3554,6 +8337,7 @@ export type UserUpdateWithoutMessagesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3570,6 +8354,10 @@ export type UserUpdateWithoutMessagesInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
   checkIns?: Prisma.CheckInUpdateManyWithoutUserNestedInput
@@ -3578,9 +8366,20 @@ export type UserUpdateWithoutMessagesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutMessagesInput = {
@@ -3593,6 +8392,7 @@ export type UserUncheckedUpdateWithoutMessagesInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3609,6 +8409,10 @@ export type UserUncheckedUpdateWithoutMessagesInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
   checkIns?: Prisma.CheckInUncheckedUpdateManyWithoutUserNestedInput
@@ -3617,9 +8421,20 @@ export type UserUncheckedUpdateWithoutMessagesInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutCheckInsInput = {
@@ -3631,6 +8446,7 @@ export type UserCreateWithoutCheckInsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3647,6 +8463,10 @@ export type UserCreateWithoutCheckInsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -3655,9 +8475,20 @@ export type UserCreateWithoutCheckInsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutCheckInsInput = {
@@ -3670,6 +8501,7 @@ export type UserUncheckedCreateWithoutCheckInsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3686,6 +8518,10 @@ export type UserUncheckedCreateWithoutCheckInsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -3694,9 +8530,20 @@ export type UserUncheckedCreateWithoutCheckInsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutCheckInsInput = {
@@ -3724,6 +8571,7 @@ export type UserUpdateWithoutCheckInsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3740,6 +8588,10 @@ export type UserUpdateWithoutCheckInsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -3748,9 +8600,20 @@ export type UserUpdateWithoutCheckInsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCheckInsInput = {
@@ -3763,6 +8626,7 @@ export type UserUncheckedUpdateWithoutCheckInsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3779,6 +8643,10 @@ export type UserUncheckedUpdateWithoutCheckInsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -3787,9 +8655,20 @@ export type UserUncheckedUpdateWithoutCheckInsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutPointsHistoryInput = {
@@ -3801,6 +8680,7 @@ export type UserCreateWithoutPointsHistoryInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3817,6 +8697,10 @@ export type UserCreateWithoutPointsHistoryInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -3825,9 +8709,20 @@ export type UserCreateWithoutPointsHistoryInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutPointsHistoryInput = {
@@ -3840,6 +8735,7 @@ export type UserUncheckedCreateWithoutPointsHistoryInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3856,6 +8752,10 @@ export type UserUncheckedCreateWithoutPointsHistoryInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -3864,9 +8764,20 @@ export type UserUncheckedCreateWithoutPointsHistoryInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutPointsHistoryInput = {
@@ -3894,6 +8805,7 @@ export type UserUpdateWithoutPointsHistoryInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3910,6 +8822,10 @@ export type UserUpdateWithoutPointsHistoryInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -3918,9 +8834,20 @@ export type UserUpdateWithoutPointsHistoryInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutPointsHistoryInput = {
@@ -3933,6 +8860,7 @@ export type UserUncheckedUpdateWithoutPointsHistoryInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -3949,6 +8877,10 @@ export type UserUncheckedUpdateWithoutPointsHistoryInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -3957,9 +8889,20 @@ export type UserUncheckedUpdateWithoutPointsHistoryInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutTransferPointGrantsInput = {
@@ -3971,6 +8914,7 @@ export type UserCreateWithoutTransferPointGrantsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -3987,6 +8931,10 @@ export type UserCreateWithoutTransferPointGrantsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -3995,9 +8943,20 @@ export type UserCreateWithoutTransferPointGrantsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutTransferPointGrantsInput = {
@@ -4010,6 +8969,7 @@ export type UserUncheckedCreateWithoutTransferPointGrantsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4026,6 +8986,10 @@ export type UserUncheckedCreateWithoutTransferPointGrantsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4034,9 +8998,20 @@ export type UserUncheckedCreateWithoutTransferPointGrantsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutTransferPointGrantsInput = {
@@ -4064,6 +9039,7 @@ export type UserUpdateWithoutTransferPointGrantsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4080,6 +9056,10 @@ export type UserUpdateWithoutTransferPointGrantsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4088,9 +9068,20 @@ export type UserUpdateWithoutTransferPointGrantsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutTransferPointGrantsInput = {
@@ -4103,6 +9094,7 @@ export type UserUncheckedUpdateWithoutTransferPointGrantsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4119,6 +9111,10 @@ export type UserUncheckedUpdateWithoutTransferPointGrantsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4127,9 +9123,20 @@ export type UserUncheckedUpdateWithoutTransferPointGrantsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutPointTaskCompletionsInput = {
@@ -4141,6 +9148,7 @@ export type UserCreateWithoutPointTaskCompletionsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4157,6 +9165,10 @@ export type UserCreateWithoutPointTaskCompletionsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -4165,9 +9177,20 @@ export type UserCreateWithoutPointTaskCompletionsInput = {
   transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutPointTaskCompletionsInput = {
@@ -4180,6 +9203,7 @@ export type UserUncheckedCreateWithoutPointTaskCompletionsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4196,6 +9220,10 @@ export type UserUncheckedCreateWithoutPointTaskCompletionsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4204,9 +9232,20 @@ export type UserUncheckedCreateWithoutPointTaskCompletionsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutPointTaskCompletionsInput = {
@@ -4234,6 +9273,7 @@ export type UserUpdateWithoutPointTaskCompletionsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4250,6 +9290,10 @@ export type UserUpdateWithoutPointTaskCompletionsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4258,9 +9302,20 @@ export type UserUpdateWithoutPointTaskCompletionsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutPointTaskCompletionsInput = {
@@ -4273,6 +9328,7 @@ export type UserUncheckedUpdateWithoutPointTaskCompletionsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4289,6 +9345,10 @@ export type UserUncheckedUpdateWithoutPointTaskCompletionsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4297,9 +9357,20 @@ export type UserUncheckedUpdateWithoutPointTaskCompletionsInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutRegistrationGiftGrantInput = {
@@ -4311,6 +9382,7 @@ export type UserCreateWithoutRegistrationGiftGrantInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4327,6 +9399,10 @@ export type UserCreateWithoutRegistrationGiftGrantInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -4335,9 +9411,20 @@ export type UserCreateWithoutRegistrationGiftGrantInput = {
   transferPointGrants?: Prisma.TransferPointGrantCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutRegistrationGiftGrantInput = {
@@ -4350,6 +9437,7 @@ export type UserUncheckedCreateWithoutRegistrationGiftGrantInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4366,6 +9454,10 @@ export type UserUncheckedCreateWithoutRegistrationGiftGrantInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4374,9 +9466,20 @@ export type UserUncheckedCreateWithoutRegistrationGiftGrantInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedCreateNestedManyWithoutUserInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutRegistrationGiftGrantInput = {
@@ -4404,6 +9507,7 @@ export type UserUpdateWithoutRegistrationGiftGrantInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4420,6 +9524,10 @@ export type UserUpdateWithoutRegistrationGiftGrantInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4428,9 +9536,20 @@ export type UserUpdateWithoutRegistrationGiftGrantInput = {
   transferPointGrants?: Prisma.TransferPointGrantUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutRegistrationGiftGrantInput = {
@@ -4443,6 +9562,7 @@ export type UserUncheckedUpdateWithoutRegistrationGiftGrantInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4459,6 +9579,10 @@ export type UserUncheckedUpdateWithoutRegistrationGiftGrantInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4467,9 +9591,20 @@ export type UserUncheckedUpdateWithoutRegistrationGiftGrantInput = {
   transferPointGrants?: Prisma.TransferPointGrantUncheckedUpdateManyWithoutUserNestedInput
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutRedemptionCodeCampaignsInput = {
@@ -4481,6 +9616,7 @@ export type UserCreateWithoutRedemptionCodeCampaignsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4497,6 +9633,10 @@ export type UserCreateWithoutRedemptionCodeCampaignsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -4506,8 +9646,19 @@ export type UserCreateWithoutRedemptionCodeCampaignsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutRedemptionCodeCampaignsInput = {
@@ -4520,6 +9671,7 @@ export type UserUncheckedCreateWithoutRedemptionCodeCampaignsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4536,6 +9688,10 @@ export type UserUncheckedCreateWithoutRedemptionCodeCampaignsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4545,8 +9701,19 @@ export type UserUncheckedCreateWithoutRedemptionCodeCampaignsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutRedemptionCodeCampaignsInput = {
@@ -4574,6 +9741,7 @@ export type UserUpdateWithoutRedemptionCodeCampaignsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4590,6 +9758,10 @@ export type UserUpdateWithoutRedemptionCodeCampaignsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4599,8 +9771,19 @@ export type UserUpdateWithoutRedemptionCodeCampaignsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutRedemptionCodeCampaignsInput = {
@@ -4613,6 +9796,7 @@ export type UserUncheckedUpdateWithoutRedemptionCodeCampaignsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4629,6 +9813,10 @@ export type UserUncheckedUpdateWithoutRedemptionCodeCampaignsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4638,8 +9826,19 @@ export type UserUncheckedUpdateWithoutRedemptionCodeCampaignsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutRedemptionCodeRedemptionsInput = {
@@ -4651,6 +9850,7 @@ export type UserCreateWithoutRedemptionCodeRedemptionsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4667,6 +9867,10 @@ export type UserCreateWithoutRedemptionCodeRedemptionsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -4676,8 +9880,19 @@ export type UserCreateWithoutRedemptionCodeRedemptionsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutRedemptionCodeRedemptionsInput = {
@@ -4690,6 +9905,7 @@ export type UserUncheckedCreateWithoutRedemptionCodeRedemptionsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4706,6 +9922,10 @@ export type UserUncheckedCreateWithoutRedemptionCodeRedemptionsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4715,8 +9935,19 @@ export type UserUncheckedCreateWithoutRedemptionCodeRedemptionsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutRedemptionCodeRedemptionsInput = {
@@ -4744,6 +9975,7 @@ export type UserUpdateWithoutRedemptionCodeRedemptionsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4760,6 +9992,10 @@ export type UserUpdateWithoutRedemptionCodeRedemptionsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4769,8 +10005,19 @@ export type UserUpdateWithoutRedemptionCodeRedemptionsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutRedemptionCodeRedemptionsInput = {
@@ -4783,6 +10030,7 @@ export type UserUncheckedUpdateWithoutRedemptionCodeRedemptionsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4799,6 +10047,10 @@ export type UserUncheckedUpdateWithoutRedemptionCodeRedemptionsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4808,8 +10060,19 @@ export type UserUncheckedUpdateWithoutRedemptionCodeRedemptionsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   dailyRedemptionDropClaims?: Prisma.DailyRedemptionDropClaimUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 export type UserCreateWithoutDailyRedemptionDropClaimsInput = {
@@ -4821,6 +10084,7 @@ export type UserCreateWithoutDailyRedemptionDropClaimsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4837,6 +10101,10 @@ export type UserCreateWithoutDailyRedemptionDropClaimsInput = {
   forumPosts?: Prisma.ForumPostCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomCreateNestedManyWithoutCreatorInput
@@ -4846,8 +10114,19 @@ export type UserCreateWithoutDailyRedemptionDropClaimsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionCreateNestedManyWithoutEditorInput
 }
 
 export type UserUncheckedCreateWithoutDailyRedemptionDropClaimsInput = {
@@ -4860,6 +10139,7 @@ export type UserUncheckedCreateWithoutDailyRedemptionDropClaimsInput = {
   avatarStyle?: string
   salt?: string | null
   points?: number
+  forumReputation?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isVerified?: boolean
@@ -4876,6 +10156,10 @@ export type UserUncheckedCreateWithoutDailyRedemptionDropClaimsInput = {
   forumPosts?: Prisma.ForumPostUncheckedCreateNestedManyWithoutAuthorInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedCreateNestedManyWithoutUserInput
   notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedCreateNestedManyWithoutRequesterInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.UserSessionUncheckedCreateNestedManyWithoutUserInput
   messages?: Prisma.ChatMessageUncheckedCreateNestedManyWithoutUserInput
   chatRooms?: Prisma.ChatRoomUserUncheckedCreateNestedManyWithoutUserInput
   createdRooms?: Prisma.ChatRoomUncheckedCreateNestedManyWithoutCreatorInput
@@ -4885,8 +10169,19 @@ export type UserUncheckedCreateWithoutDailyRedemptionDropClaimsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedCreateNestedManyWithoutUserInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedCreateNestedOneWithoutUserInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedCreateNestedManyWithoutUserInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedCreateNestedManyWithoutUserInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedCreateNestedManyWithoutCreatedByInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedCreateNestedManyWithoutUserInput
+  mentionsReceived?: Prisma.MentionUncheckedCreateNestedManyWithoutUserInput
+  mentionsSent?: Prisma.MentionUncheckedCreateNestedManyWithoutActorInput
+  mentionMutes?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutUserInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedCreateNestedManyWithoutMutedUserInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedCreateNestedManyWithoutUserInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutUserInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedCreateNestedManyWithoutActorInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedCreateNestedManyWithoutUserInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedCreateNestedOneWithoutUserInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedCreateNestedManyWithoutEditorInput
 }
 
 export type UserCreateOrConnectWithoutDailyRedemptionDropClaimsInput = {
@@ -4914,6 +10209,7 @@ export type UserUpdateWithoutDailyRedemptionDropClaimsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4930,6 +10226,10 @@ export type UserUpdateWithoutDailyRedemptionDropClaimsInput = {
   forumPosts?: Prisma.ForumPostUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUpdateManyWithoutCreatorNestedInput
@@ -4939,8 +10239,19 @@ export type UserUpdateWithoutDailyRedemptionDropClaimsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUpdateManyWithoutEditorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutDailyRedemptionDropClaimsInput = {
@@ -4953,6 +10264,7 @@ export type UserUncheckedUpdateWithoutDailyRedemptionDropClaimsInput = {
   avatarStyle?: Prisma.StringFieldUpdateOperationsInput | string
   salt?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   points?: Prisma.IntFieldUpdateOperationsInput | number
+  forumReputation?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -4969,6 +10281,10 @@ export type UserUncheckedUpdateWithoutDailyRedemptionDropClaimsInput = {
   forumPosts?: Prisma.ForumPostUncheckedUpdateManyWithoutAuthorNestedInput
   forumTopicReadStates?: Prisma.ForumTopicReadStateUncheckedUpdateManyWithoutUserNestedInput
   notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  resourceRequests?: Prisma.ResourceRequestUncheckedUpdateManyWithoutRequesterNestedInput
+  resourceRequestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.UserSessionUncheckedUpdateManyWithoutUserNestedInput
   messages?: Prisma.ChatMessageUncheckedUpdateManyWithoutUserNestedInput
   chatRooms?: Prisma.ChatRoomUserUncheckedUpdateManyWithoutUserNestedInput
   createdRooms?: Prisma.ChatRoomUncheckedUpdateManyWithoutCreatorNestedInput
@@ -4978,8 +10294,19 @@ export type UserUncheckedUpdateWithoutDailyRedemptionDropClaimsInput = {
   pointTaskCompletions?: Prisma.PointTaskCompletionUncheckedUpdateManyWithoutUserNestedInput
   registrationGiftGrant?: Prisma.RegistrationGiftGrantUncheckedUpdateOneWithoutUserNestedInput
   emailVerificationTokens?: Prisma.EmailVerificationTokenUncheckedUpdateManyWithoutUserNestedInput
+  passwordResetTokens?: Prisma.PasswordResetTokenUncheckedUpdateManyWithoutUserNestedInput
   redemptionCodeCampaigns?: Prisma.RedemptionCodeCampaignUncheckedUpdateManyWithoutCreatedByNestedInput
   redemptionCodeRedemptions?: Prisma.RedemptionCodeRedemptionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsReceived?: Prisma.MentionUncheckedUpdateManyWithoutUserNestedInput
+  mentionsSent?: Prisma.MentionUncheckedUpdateManyWithoutActorNestedInput
+  mentionMutes?: Prisma.MentionMuteUncheckedUpdateManyWithoutUserNestedInput
+  mentionMutedBy?: Prisma.MentionMuteUncheckedUpdateManyWithoutMutedUserNestedInput
+  forumPostReactions?: Prisma.ForumPostReactionUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationReceived?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutUserNestedInput
+  forumReputationGiven?: Prisma.ForumReputationEventUncheckedUpdateManyWithoutActorNestedInput
+  forumSubscriptions?: Prisma.ForumSubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  forumDigestPreference?: Prisma.ForumDigestPreferenceUncheckedUpdateOneWithoutUserNestedInput
+  forumRevisions?: Prisma.ForumRevisionUncheckedUpdateManyWithoutEditorNestedInput
 }
 
 
@@ -4999,6 +10326,10 @@ export type UserCountOutputType = {
   forumPosts: number
   forumTopicReadStates: number
   notifications: number
+  savedSearches: number
+  resourceRequests: number
+  resourceRequestFulfillments: number
+  sessions: number
   messages: number
   chatRooms: number
   createdRooms: number
@@ -5007,9 +10338,19 @@ export type UserCountOutputType = {
   transferPointGrants: number
   pointTaskCompletions: number
   emailVerificationTokens: number
+  passwordResetTokens: number
   redemptionCodeCampaigns: number
   redemptionCodeRedemptions: number
   dailyRedemptionDropClaims: number
+  mentionsReceived: number
+  mentionsSent: number
+  mentionMutes: number
+  mentionMutedBy: number
+  forumPostReactions: number
+  forumReputationReceived: number
+  forumReputationGiven: number
+  forumSubscriptions: number
+  forumRevisions: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -5024,6 +10365,10 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   forumPosts?: boolean | UserCountOutputTypeCountForumPostsArgs
   forumTopicReadStates?: boolean | UserCountOutputTypeCountForumTopicReadStatesArgs
   notifications?: boolean | UserCountOutputTypeCountNotificationsArgs
+  savedSearches?: boolean | UserCountOutputTypeCountSavedSearchesArgs
+  resourceRequests?: boolean | UserCountOutputTypeCountResourceRequestsArgs
+  resourceRequestFulfillments?: boolean | UserCountOutputTypeCountResourceRequestFulfillmentsArgs
+  sessions?: boolean | UserCountOutputTypeCountSessionsArgs
   messages?: boolean | UserCountOutputTypeCountMessagesArgs
   chatRooms?: boolean | UserCountOutputTypeCountChatRoomsArgs
   createdRooms?: boolean | UserCountOutputTypeCountCreatedRoomsArgs
@@ -5032,9 +10377,19 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   transferPointGrants?: boolean | UserCountOutputTypeCountTransferPointGrantsArgs
   pointTaskCompletions?: boolean | UserCountOutputTypeCountPointTaskCompletionsArgs
   emailVerificationTokens?: boolean | UserCountOutputTypeCountEmailVerificationTokensArgs
+  passwordResetTokens?: boolean | UserCountOutputTypeCountPasswordResetTokensArgs
   redemptionCodeCampaigns?: boolean | UserCountOutputTypeCountRedemptionCodeCampaignsArgs
   redemptionCodeRedemptions?: boolean | UserCountOutputTypeCountRedemptionCodeRedemptionsArgs
   dailyRedemptionDropClaims?: boolean | UserCountOutputTypeCountDailyRedemptionDropClaimsArgs
+  mentionsReceived?: boolean | UserCountOutputTypeCountMentionsReceivedArgs
+  mentionsSent?: boolean | UserCountOutputTypeCountMentionsSentArgs
+  mentionMutes?: boolean | UserCountOutputTypeCountMentionMutesArgs
+  mentionMutedBy?: boolean | UserCountOutputTypeCountMentionMutedByArgs
+  forumPostReactions?: boolean | UserCountOutputTypeCountForumPostReactionsArgs
+  forumReputationReceived?: boolean | UserCountOutputTypeCountForumReputationReceivedArgs
+  forumReputationGiven?: boolean | UserCountOutputTypeCountForumReputationGivenArgs
+  forumSubscriptions?: boolean | UserCountOutputTypeCountForumSubscriptionsArgs
+  forumRevisions?: boolean | UserCountOutputTypeCountForumRevisionsArgs
 }
 
 /**
@@ -5092,36 +10447,64 @@ export type UserCountOutputTypeCountUserResourcesArgs<ExtArgs extends runtime.Ty
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountVodConfigsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.UserVodConfigWhereInput
+export type UserCountOutputTypeCountVodConfigsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserVodConfigWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumTopicsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumTopicWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumPostsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumPostWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumTopicReadStatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumTopicReadStateWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountForumTopicsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.ForumTopicWhereInput
+export type UserCountOutputTypeCountSavedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountForumPostsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.ForumPostWhereInput
+export type UserCountOutputTypeCountResourceRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountForumTopicReadStatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.ForumTopicReadStateWhereInput
+export type UserCountOutputTypeCountResourceRequestFulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.NotificationWhereInput
+export type UserCountOutputTypeCountSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserSessionWhereInput
 }
 
 /**
@@ -5180,6 +10563,13 @@ export type UserCountOutputTypeCountEmailVerificationTokensArgs<ExtArgs extends
   where?: Prisma.EmailVerificationTokenWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountPasswordResetTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PasswordResetTokenWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -5201,6 +10591,69 @@ export type UserCountOutputTypeCountDailyRedemptionDropClaimsArgs<ExtArgs extend
   where?: Prisma.DailyRedemptionDropClaimWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountMentionsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountMentionsSentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountMentionMutesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionMuteWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountMentionMutedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MentionMuteWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumPostReactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumPostReactionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumReputationReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumReputationEventWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumReputationGivenArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumReputationEventWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumSubscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumSubscriptionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountForumRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ForumRevisionWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -5212,6 +10665,7 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   avatarStyle?: boolean
   salt?: boolean
   points?: boolean
+  forumReputation?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isVerified?: boolean
@@ -5228,6 +10682,10 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   forumPosts?: boolean | Prisma.User$forumPostsArgs<ExtArgs>
   forumTopicReadStates?: boolean | Prisma.User$forumTopicReadStatesArgs<ExtArgs>
   notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
+  resourceRequests?: boolean | Prisma.User$resourceRequestsArgs<ExtArgs>
+  resourceRequestFulfillments?: boolean | Prisma.User$resourceRequestFulfillmentsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
   messages?: boolean | Prisma.User$messagesArgs<ExtArgs>
   chatRooms?: boolean | Prisma.User$chatRoomsArgs<ExtArgs>
   createdRooms?: boolean | Prisma.User$createdRoomsArgs<ExtArgs>
@@ -5237,9 +10695,20 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   pointTaskCompletions?: boolean | Prisma.User$pointTaskCompletionsArgs<ExtArgs>
   registrationGiftGrant?: boolean | Prisma.User$registrationGiftGrantArgs<ExtArgs>
   emailVerificationTokens?: boolean | Prisma.User$emailVerificationTokensArgs<ExtArgs>
+  passwordResetTokens?: boolean | Prisma.User$passwordResetTokensArgs<ExtArgs>
   redemptionCodeCampaigns?: boolean | Prisma.User$redemptionCodeCampaignsArgs<ExtArgs>
   redemptionCodeRedemptions?: boolean | Prisma.User$redemptionCodeRedemptionsArgs<ExtArgs>
   dailyRedemptionDropClaims?: boolean | Prisma.User$dailyRedemptionDropClaimsArgs<ExtArgs>
+  mentionsReceived?: boolean | Prisma.User$mentionsReceivedArgs<ExtArgs>
+  mentionsSent?: boolean | Prisma.User$mentionsSentArgs<ExtArgs>
+  mentionMutes?: boolean | Prisma.User$mentionMutesArgs<ExtArgs>
+  mentionMutedBy?: boolean | Prisma.User$mentionMutedByArgs<ExtArgs>
+  forumPostReactions?: boolean | Prisma.User$forumPostReactionsArgs<ExtArgs>
+  forumReputationReceived?: boolean | Prisma.User$forumReputationReceivedArgs<ExtArgs>
+  forumReputationGiven?: boolean | Prisma.User$forumReputationGivenArgs<ExtArgs>
+  forumSubscriptions?: boolean | Prisma.User$forumSubscriptionsArgs<ExtArgs>
+  forumDigestPreference?: boolean | Prisma.User$forumDigestPreferenceArgs<ExtArgs>
+  forumRevisions?: boolean | Prisma.User$forumRevisionsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -5253,6 +10722,7 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   avatarStyle?: boolean
   salt?: boolean
   points?: boolean
+  forumReputation?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isVerified?: boolean
@@ -5270,6 +10740,7 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   avatarStyle?: boolean
   salt?: boolean
   points?: boolean
+  forumReputation?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isVerified?: boolean
@@ -5287,6 +10758,7 @@ export type UserSelectScalar = {
   avatarStyle?: boolean
   salt?: boolean
   points?: boolean
+  forumReputation?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isVerified?: boolean
@@ -5294,7 +10766,7 @@ export type UserSelectScalar = {
   emailVerificationRequired?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "username" | "email" | "password" | "role" | "status" | "avatarStyle" | "salt" | "points" | "createdAt" | "updatedAt" | "isVerified" | "emailVerifiedAt" | "emailVerificationRequired", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "username" | "email" | "password" | "role" | "status" | "avatarStyle" | "salt" | "points" | "forumReputation" | "createdAt" | "updatedAt" | "isVerified" | "emailVerifiedAt" | "emailVerificationRequired", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   resources?: boolean | Prisma.User$resourcesArgs<ExtArgs>
   resourceTypes?: boolean | Prisma.User$resourceTypesArgs<ExtArgs>
@@ -5307,6 +10779,10 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   forumPosts?: boolean | Prisma.User$forumPostsArgs<ExtArgs>
   forumTopicReadStates?: boolean | Prisma.User$forumTopicReadStatesArgs<ExtArgs>
   notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
+  resourceRequests?: boolean | Prisma.User$resourceRequestsArgs<ExtArgs>
+  resourceRequestFulfillments?: boolean | Prisma.User$resourceRequestFulfillmentsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
   messages?: boolean | Prisma.User$messagesArgs<ExtArgs>
   chatRooms?: boolean | Prisma.User$chatRoomsArgs<ExtArgs>
   createdRooms?: boolean | Prisma.User$createdRoomsArgs<ExtArgs>
@@ -5316,9 +10792,20 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   pointTaskCompletions?: boolean | Prisma.User$pointTaskCompletionsArgs<ExtArgs>
   registrationGiftGrant?: boolean | Prisma.User$registrationGiftGrantArgs<ExtArgs>
   emailVerificationTokens?: boolean | Prisma.User$emailVerificationTokensArgs<ExtArgs>
+  passwordResetTokens?: boolean | Prisma.User$passwordResetTokensArgs<ExtArgs>
   redemptionCodeCampaigns?: boolean | Prisma.User$redemptionCodeCampaignsArgs<ExtArgs>
   redemptionCodeRedemptions?: boolean | Prisma.User$redemptionCodeRedemptionsArgs<ExtArgs>
   dailyRedemptionDropClaims?: boolean | Prisma.User$dailyRedemptionDropClaimsArgs<ExtArgs>
+  mentionsReceived?: boolean | Prisma.User$mentionsReceivedArgs<ExtArgs>
+  mentionsSent?: boolean | Prisma.User$mentionsSentArgs<ExtArgs>
+  mentionMutes?: boolean | Prisma.User$mentionMutesArgs<ExtArgs>
+  mentionMutedBy?: boolean | Prisma.User$mentionMutedByArgs<ExtArgs>
+  forumPostReactions?: boolean | Prisma.User$forumPostReactionsArgs<ExtArgs>
+  forumReputationReceived?: boolean | Prisma.User$forumReputationReceivedArgs<ExtArgs>
+  forumReputationGiven?: boolean | Prisma.User$forumReputationGivenArgs<ExtArgs>
+  forumSubscriptions?: boolean | Prisma.User$forumSubscriptionsArgs<ExtArgs>
+  forumDigestPreference?: boolean | Prisma.User$forumDigestPreferenceArgs<ExtArgs>
+  forumRevisions?: boolean | Prisma.User$forumRevisionsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -5338,6 +10825,10 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     forumPosts: Prisma.$ForumPostPayload<ExtArgs>[]
     forumTopicReadStates: Prisma.$ForumTopicReadStatePayload<ExtArgs>[]
     notifications: Prisma.$NotificationPayload<ExtArgs>[]
+    savedSearches: Prisma.$SavedSearchPayload<ExtArgs>[]
+    resourceRequests: Prisma.$ResourceRequestPayload<ExtArgs>[]
+    resourceRequestFulfillments: Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>[]
+    sessions: Prisma.$UserSessionPayload<ExtArgs>[]
     messages: Prisma.$ChatMessagePayload<ExtArgs>[]
     chatRooms: Prisma.$ChatRoomUserPayload<ExtArgs>[]
     createdRooms: Prisma.$ChatRoomPayload<ExtArgs>[]
@@ -5347,9 +10838,20 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     pointTaskCompletions: Prisma.$PointTaskCompletionPayload<ExtArgs>[]
     registrationGiftGrant: Prisma.$RegistrationGiftGrantPayload<ExtArgs> | null
     emailVerificationTokens: Prisma.$EmailVerificationTokenPayload<ExtArgs>[]
+    passwordResetTokens: Prisma.$PasswordResetTokenPayload<ExtArgs>[]
     redemptionCodeCampaigns: Prisma.$RedemptionCodeCampaignPayload<ExtArgs>[]
     redemptionCodeRedemptions: Prisma.$RedemptionCodeRedemptionPayload<ExtArgs>[]
     dailyRedemptionDropClaims: Prisma.$DailyRedemptionDropClaimPayload<ExtArgs>[]
+    mentionsReceived: Prisma.$MentionPayload<ExtArgs>[]
+    mentionsSent: Prisma.$MentionPayload<ExtArgs>[]
+    mentionMutes: Prisma.$MentionMutePayload<ExtArgs>[]
+    mentionMutedBy: Prisma.$MentionMutePayload<ExtArgs>[]
+    forumPostReactions: Prisma.$ForumPostReactionPayload<ExtArgs>[]
+    forumReputationReceived: Prisma.$ForumReputationEventPayload<ExtArgs>[]
+    forumReputationGiven: Prisma.$ForumReputationEventPayload<ExtArgs>[]
+    forumSubscriptions: Prisma.$ForumSubscriptionPayload<ExtArgs>[]
+    forumDigestPreference: Prisma.$ForumDigestPreferencePayload<ExtArgs> | null
+    forumRevisions: Prisma.$ForumRevisionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -5361,6 +10863,7 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     avatarStyle: string
     salt: string | null
     points: number
+    forumReputation: number
     createdAt: Date
     updatedAt: Date
     isVerified: boolean
@@ -5771,6 +11274,10 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   forumPosts<T extends Prisma.User$forumPostsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumPostsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   forumTopicReadStates<T extends Prisma.User$forumTopicReadStatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumTopicReadStatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumTopicReadStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   notifications<T extends Prisma.User$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  savedSearches<T extends Prisma.User$savedSearchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$savedSearchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resourceRequests<T extends Prisma.User$resourceRequestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$resourceRequestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resourceRequestFulfillments<T extends Prisma.User$resourceRequestFulfillmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$resourceRequestFulfillmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   messages<T extends Prisma.User$messagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$messagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ChatMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   chatRooms<T extends Prisma.User$chatRoomsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$chatRoomsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ChatRoomUserPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   createdRooms<T extends Prisma.User$createdRoomsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$createdRoomsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ChatRoomPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -5780,9 +11287,20 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   pointTaskCompletions<T extends Prisma.User$pointTaskCompletionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$pointTaskCompletionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PointTaskCompletionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   registrationGiftGrant<T extends Prisma.User$registrationGiftGrantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$registrationGiftGrantArgs<ExtArgs>>): Prisma.Prisma__RegistrationGiftGrantClient<runtime.Types.Result.GetResult<Prisma.$RegistrationGiftGrantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   emailVerificationTokens<T extends Prisma.User$emailVerificationTokensArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$emailVerificationTokensArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmailVerificationTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  passwordResetTokens<T extends Prisma.User$passwordResetTokensArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$passwordResetTokensArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PasswordResetTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   redemptionCodeCampaigns<T extends Prisma.User$redemptionCodeCampaignsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$redemptionCodeCampaignsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RedemptionCodeCampaignPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   redemptionCodeRedemptions<T extends Prisma.User$redemptionCodeRedemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$redemptionCodeRedemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RedemptionCodeRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   dailyRedemptionDropClaims<T extends Prisma.User$dailyRedemptionDropClaimsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$dailyRedemptionDropClaimsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DailyRedemptionDropClaimPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentionsReceived<T extends Prisma.User$mentionsReceivedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$mentionsReceivedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentionsSent<T extends Prisma.User$mentionsSentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$mentionsSentArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentionMutes<T extends Prisma.User$mentionMutesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$mentionMutesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentionMutedBy<T extends Prisma.User$mentionMutedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$mentionMutedByArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MentionMutePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  forumPostReactions<T extends Prisma.User$forumPostReactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumPostReactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumPostReactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  forumReputationReceived<T extends Prisma.User$forumReputationReceivedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumReputationReceivedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  forumReputationGiven<T extends Prisma.User$forumReputationGivenArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumReputationGivenArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumReputationEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  forumSubscriptions<T extends Prisma.User$forumSubscriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumSubscriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumSubscriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  forumDigestPreference<T extends Prisma.User$forumDigestPreferenceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumDigestPreferenceArgs<ExtArgs>>): Prisma.Prisma__ForumDigestPreferenceClient<runtime.Types.Result.GetResult<Prisma.$ForumDigestPreferencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  forumRevisions<T extends Prisma.User$forumRevisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$forumRevisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ForumRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -5821,6 +11339,7 @@ export interface UserFieldRefs {
   readonly avatarStyle: Prisma.FieldRef<"User", 'String'>
   readonly salt: Prisma.FieldRef<"User", 'String'>
   readonly points: Prisma.FieldRef<"User", 'Int'>
+  readonly forumReputation: Prisma.FieldRef<"User", 'Int'>
   readonly createdAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly isVerified: Prisma.FieldRef<"User", 'Boolean'>
@@ -6477,6 +11996,102 @@ export type User$notificationsArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
 }
 
+/**
+ * User.savedSearches
+ */
+export type User$savedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  where?: Prisma.SavedSearchWhereInput
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * User.resourceRequests
+ */
+export type User$resourceRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequest
+   */
+  select?: Prisma.ResourceRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequest
+   */
+  omit?: Prisma.ResourceRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestInclude<ExtArgs> | null
+  where?: Prisma.ResourceRequestWhereInput
+  orderBy?: Prisma.ResourceRequestOrderByWithRelationInput | Prisma.ResourceRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ResourceRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourceRequestScalarFieldEnum | Prisma.ResourceRequestScalarFieldEnum[]
+}
+
+/**
+ * User.resourceRequestFulfillments
+ */
+export type User$resourceRequestFulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
+/**
+ * User.sessions
+ */
+export type User$sessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserSession
+   */
+  select?: Prisma.UserSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserSession
+   */
+  omit?: Prisma.UserSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserSessionInclude<ExtArgs> | null
+  where?: Prisma.UserSessionWhereInput
+  orderBy?: Prisma.UserSessionOrderByWithRelationInput | Prisma.UserSessionOrderByWithRelationInput[]
+  cursor?: Prisma.UserSessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UserSessionScalarFieldEnum | Prisma.UserSessionScalarFieldEnum[]
+}
+
 /**
  * User.messages
  */
@@ -6688,6 +12303,30 @@ export type User$emailVerificationTokensArgs<ExtArgs extends runtime.Types.Exten
   distinct?: Prisma.EmailVerificationTokenScalarFieldEnum | Prisma.EmailVerificationTokenScalarFieldEnum[]
 }
 
+/**
+ * User.passwordResetTokens
+ */
+export type User$passwordResetTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PasswordResetToken
+   */
+  select?: Prisma.PasswordResetTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PasswordResetToken
+   */
+  omit?: Prisma.PasswordResetTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PasswordResetTokenInclude<ExtArgs> | null
+  where?: Prisma.PasswordResetTokenWhereInput
+  orderBy?: Prisma.PasswordResetTokenOrderByWithRelationInput | Prisma.PasswordResetTokenOrderByWithRelationInput[]
+  cursor?: Prisma.PasswordResetTokenWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PasswordResetTokenScalarFieldEnum | Prisma.PasswordResetTokenScalarFieldEnum[]
+}
+
 /**
  * User.redemptionCodeCampaigns
  */
@@ -6760,6 +12399,241 @@ export type User$dailyRedemptionDropClaimsArgs<ExtArgs extends runtime.Types.Ext
   distinct?: Prisma.DailyRedemptionDropClaimScalarFieldEnum | Prisma.DailyRedemptionDropClaimScalarFieldEnum[]
 }
 
+/**
+ * User.mentionsReceived
+ */
+export type User$mentionsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  where?: Prisma.MentionWhereInput
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  cursor?: Prisma.MentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MentionScalarFieldEnum | Prisma.MentionScalarFieldEnum[]
+}
+
+/**
+ * User.mentionsSent
+ */
+export type User$mentionsSentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Mention
+   */
+  select?: Prisma.MentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Mention
+   */
+  omit?: Prisma.MentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionInclude<ExtArgs> | null
+  where?: Prisma.MentionWhereInput
+  orderBy?: Prisma.MentionOrderByWithRelationInput | Prisma.MentionOrderByWithRelationInput[]
+  cursor?: Prisma.MentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MentionScalarFieldEnum | Prisma.MentionScalarFieldEnum[]
+}
+
+/**
+ * User.mentionMutes
+ */
+export type User$mentionMutesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  where?: Prisma.MentionMuteWhereInput
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MentionMuteScalarFieldEnum | Prisma.MentionMuteScalarFieldEnum[]
+}
+
+/**
+ * User.mentionMutedBy
+ */
+export type User$mentionMutedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MentionMute
+   */
+  select?: Prisma.MentionMuteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MentionMute
+   */
+  omit?: Prisma.MentionMuteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MentionMuteInclude<ExtArgs> | null
+  where?: Prisma.MentionMuteWhereInput
+  orderBy?: Prisma.MentionMuteOrderByWithRelationInput | Prisma.MentionMuteOrderByWithRelationInput[]
+  cursor?: Prisma.MentionMuteWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MentionMuteScalarFieldEnum | Prisma.MentionMuteScalarFieldEnum[]
+}
+
+/**
+ * User.forumPostReactions
+ */
+export type User$forumPostReactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumPostReaction
+   */
+  select?: Prisma.ForumPostReactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumPostReaction
+   */
+  omit?: Prisma.ForumPostReactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumPostReactionInclude<ExtArgs> | null
+  where?: Prisma.ForumPostReactionWhereInput
+  orderBy?: Prisma.ForumPostReactionOrderByWithRelationInput | Prisma.ForumPostReactionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumPostReactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumPostReactionScalarFieldEnum | Prisma.ForumPostReactionScalarFieldEnum[]
+}
+
+/**
+ * User.forumReputationReceived
+ */
+export type User$forumReputationReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  where?: Prisma.ForumReputationEventWhereInput
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumReputationEventScalarFieldEnum | Prisma.ForumReputationEventScalarFieldEnum[]
+}
+
+/**
+ * User.forumReputationGiven
+ */
+export type User$forumReputationGivenArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumReputationEvent
+   */
+  select?: Prisma.ForumReputationEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumReputationEvent
+   */
+  omit?: Prisma.ForumReputationEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumReputationEventInclude<ExtArgs> | null
+  where?: Prisma.ForumReputationEventWhereInput
+  orderBy?: Prisma.ForumReputationEventOrderByWithRelationInput | Prisma.ForumReputationEventOrderByWithRelationInput[]
+  cursor?: Prisma.ForumReputationEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumReputationEventScalarFieldEnum | Prisma.ForumReputationEventScalarFieldEnum[]
+}
+
+/**
+ * User.forumSubscriptions
+ */
+export type User$forumSubscriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumSubscription
+   */
+  select?: Prisma.ForumSubscriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumSubscription
+   */
+  omit?: Prisma.ForumSubscriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumSubscriptionInclude<ExtArgs> | null
+  where?: Prisma.ForumSubscriptionWhereInput
+  orderBy?: Prisma.ForumSubscriptionOrderByWithRelationInput | Prisma.ForumSubscriptionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumSubscriptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumSubscriptionScalarFieldEnum | Prisma.ForumSubscriptionScalarFieldEnum[]
+}
+
+/**
+ * User.forumDigestPreference
+ */
+export type User$forumDigestPreferenceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumDigestPreference
+   */
+  select?: Prisma.ForumDigestPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumDigestPreference
+   */
+  omit?: Prisma.ForumDigestPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumDigestPreferenceInclude<ExtArgs> | null
+  where?: Prisma.ForumDigestPreferenceWhereInput
+}
+
+/**
+ * User.forumRevisions
+ */
+export type User$forumRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ForumRevision
+   */
+  select?: Prisma.ForumRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ForumRevision
+   */
+  omit?: Prisma.ForumRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ForumRevisionInclude<ExtArgs> | null
+  where?: Prisma.ForumRevisionWhereInput
+  orderBy?: Prisma.ForumRevisionOrderByWithRelationInput | Prisma.ForumRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.ForumRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ForumRevisionScalarFieldEnum | Prisma.ForumRevisionScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
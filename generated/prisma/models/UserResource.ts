@@ -277,6 +277,7 @@ export type UserResourceWhereInput = {
   creatorId?: Prisma.IntFilter<"UserResource"> | number
   creator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   type?: Prisma.XOR<Prisma.ResourceTypeScalarRelationFilter, Prisma.ResourceTypeWhereInput>
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
 }
 
 export type UserResourceOrderByWithRelationInput = {
@@ -293,6 +294,7 @@ export type UserResourceOrderByWithRelationInput = {
   creatorId?: Prisma.SortOrder
   creator?: Prisma.UserOrderByWithRelationInput
   type?: Prisma.ResourceTypeOrderByWithRelationInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentOrderByRelationAggregateInput
 }
 
 export type UserResourceWhereUniqueInput = Prisma.AtLeast<{
@@ -312,6 +314,7 @@ export type UserResourceWhereUniqueInput = Prisma.AtLeast<{
   creatorId?: Prisma.IntFilter<"UserResource"> | number
   creator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   type?: Prisma.XOR<Prisma.ResourceTypeScalarRelationFilter, Prisma.ResourceTypeWhereInput>
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentListRelationFilter
 }, "id">
 
 export type UserResourceOrderByWithAggregationInput = {
@@ -361,6 +364,7 @@ export type UserResourceCreateInput = {
   updatedAt?: Date | string
   creator: Prisma.UserCreateNestedOneWithoutUserResourcesInput
   type: Prisma.ResourceTypeCreateNestedOneWithoutUserResourcesInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceUncheckedCreateInput = {
@@ -375,6 +379,7 @@ export type UserResourceUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   creatorId: number
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceUpdateInput = {
@@ -388,6 +393,7 @@ export type UserResourceUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creator?: Prisma.UserUpdateOneRequiredWithoutUserResourcesNestedInput
   type?: Prisma.ResourceTypeUpdateOneRequiredWithoutUserResourcesNestedInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceUncheckedUpdateInput = {
@@ -402,6 +408,7 @@ export type UserResourceUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creatorId?: Prisma.IntFieldUpdateOperationsInput | number
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceCreateManyInput = {
@@ -509,6 +516,11 @@ export type UserResourceSumOrderByAggregateInput = {
   creatorId?: Prisma.SortOrder
 }
 
+export type UserResourceScalarRelationFilter = {
+  is?: Prisma.UserResourceWhereInput
+  isNot?: Prisma.UserResourceWhereInput
+}
+
 export type UserResourceCreateNestedManyWithoutCreatorInput = {
   create?: Prisma.XOR<Prisma.UserResourceCreateWithoutCreatorInput, Prisma.UserResourceUncheckedCreateWithoutCreatorInput> | Prisma.UserResourceCreateWithoutCreatorInput[] | Prisma.UserResourceUncheckedCreateWithoutCreatorInput[]
   connectOrCreate?: Prisma.UserResourceCreateOrConnectWithoutCreatorInput | Prisma.UserResourceCreateOrConnectWithoutCreatorInput[]
@@ -593,6 +605,20 @@ export type UserResourceUncheckedUpdateManyWithoutTypeNestedInput = {
   deleteMany?: Prisma.UserResourceScalarWhereInput | Prisma.UserResourceScalarWhereInput[]
 }
 
+export type UserResourceCreateNestedOneWithoutRequestFulfillmentsInput = {
+  create?: Prisma.XOR<Prisma.UserResourceCreateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedCreateWithoutRequestFulfillmentsInput>
+  connectOrCreate?: Prisma.UserResourceCreateOrConnectWithoutRequestFulfillmentsInput
+  connect?: Prisma.UserResourceWhereUniqueInput
+}
+
+export type UserResourceUpdateOneRequiredWithoutRequestFulfillmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserResourceCreateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedCreateWithoutRequestFulfillmentsInput>
+  connectOrCreate?: Prisma.UserResourceCreateOrConnectWithoutRequestFulfillmentsInput
+  upsert?: Prisma.UserResourceUpsertWithoutRequestFulfillmentsInput
+  connect?: Prisma.UserResourceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserResourceUpdateToOneWithWhereWithoutRequestFulfillmentsInput, Prisma.UserResourceUpdateWithoutRequestFulfillmentsInput>, Prisma.UserResourceUncheckedUpdateWithoutRequestFulfillmentsInput>
+}
+
 export type UserResourceCreateWithoutCreatorInput = {
   name: string
   links: string
@@ -603,6 +629,7 @@ export type UserResourceCreateWithoutCreatorInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   type: Prisma.ResourceTypeCreateNestedOneWithoutUserResourcesInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceUncheckedCreateWithoutCreatorInput = {
@@ -616,6 +643,7 @@ export type UserResourceUncheckedCreateWithoutCreatorInput = {
   format?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceCreateOrConnectWithoutCreatorInput = {
@@ -671,6 +699,7 @@ export type UserResourceCreateWithoutTypeInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   creator: Prisma.UserCreateNestedOneWithoutUserResourcesInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceUncheckedCreateWithoutTypeInput = {
@@ -684,6 +713,7 @@ export type UserResourceUncheckedCreateWithoutTypeInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   creatorId: number
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedCreateNestedManyWithoutUserResourceInput
 }
 
 export type UserResourceCreateOrConnectWithoutTypeInput = {
@@ -712,6 +742,76 @@ export type UserResourceUpdateManyWithWhereWithoutTypeInput = {
   data: Prisma.XOR<Prisma.UserResourceUpdateManyMutationInput, Prisma.UserResourceUncheckedUpdateManyWithoutTypeInput>
 }
 
+export type UserResourceCreateWithoutRequestFulfillmentsInput = {
+  name: string
+  links: string
+  description: string
+  status?: string
+  size?: number | null
+  format?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  creator: Prisma.UserCreateNestedOneWithoutUserResourcesInput
+  type: Prisma.ResourceTypeCreateNestedOneWithoutUserResourcesInput
+}
+
+export type UserResourceUncheckedCreateWithoutRequestFulfillmentsInput = {
+  id?: number
+  name: string
+  links: string
+  typeId: number
+  description: string
+  status?: string
+  size?: number | null
+  format?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  creatorId: number
+}
+
+export type UserResourceCreateOrConnectWithoutRequestFulfillmentsInput = {
+  where: Prisma.UserResourceWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserResourceCreateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedCreateWithoutRequestFulfillmentsInput>
+}
+
+export type UserResourceUpsertWithoutRequestFulfillmentsInput = {
+  update: Prisma.XOR<Prisma.UserResourceUpdateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedUpdateWithoutRequestFulfillmentsInput>
+  create: Prisma.XOR<Prisma.UserResourceCreateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedCreateWithoutRequestFulfillmentsInput>
+  where?: Prisma.UserResourceWhereInput
+}
+
+export type UserResourceUpdateToOneWithWhereWithoutRequestFulfillmentsInput = {
+  where?: Prisma.UserResourceWhereInput
+  data: Prisma.XOR<Prisma.UserResourceUpdateWithoutRequestFulfillmentsInput, Prisma.UserResourceUncheckedUpdateWithoutRequestFulfillmentsInput>
+}
+
+export type UserResourceUpdateWithoutRequestFulfillmentsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  links?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  format?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creator?: Prisma.UserUpdateOneRequiredWithoutUserResourcesNestedInput
+  type?: Prisma.ResourceTypeUpdateOneRequiredWithoutUserResourcesNestedInput
+}
+
+export type UserResourceUncheckedUpdateWithoutRequestFulfillmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  links?: Prisma.StringFieldUpdateOperationsInput | string
+  typeId?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  format?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creatorId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
 export type UserResourceCreateManyCreatorInput = {
   id?: number
   name: string
@@ -735,6 +835,7 @@ export type UserResourceUpdateWithoutCreatorInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   type?: Prisma.ResourceTypeUpdateOneRequiredWithoutUserResourcesNestedInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceUncheckedUpdateWithoutCreatorInput = {
@@ -748,6 +849,7 @@ export type UserResourceUncheckedUpdateWithoutCreatorInput = {
   format?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceUncheckedUpdateManyWithoutCreatorInput = {
@@ -786,6 +888,7 @@ export type UserResourceUpdateWithoutTypeInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creator?: Prisma.UserUpdateOneRequiredWithoutUserResourcesNestedInput
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceUncheckedUpdateWithoutTypeInput = {
@@ -799,6 +902,7 @@ export type UserResourceUncheckedUpdateWithoutTypeInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creatorId?: Prisma.IntFieldUpdateOperationsInput | number
+  requestFulfillments?: Prisma.ResourceRequestFulfillmentUncheckedUpdateManyWithoutUserResourceNestedInput
 }
 
 export type UserResourceUncheckedUpdateManyWithoutTypeInput = {
@@ -815,6 +919,35 @@ export type UserResourceUncheckedUpdateManyWithoutTypeInput = {
 }
 
 
+/**
+ * Count Type UserResourceCountOutputType
+ */
+
+export type UserResourceCountOutputType = {
+  requestFulfillments: number
+}
+
+export type UserResourceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requestFulfillments?: boolean | UserResourceCountOutputTypeCountRequestFulfillmentsArgs
+}
+
+/**
+ * UserResourceCountOutputType without action
+ */
+export type UserResourceCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserResourceCountOutputType
+   */
+  select?: Prisma.UserResourceCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * UserResourceCountOutputType without action
+ */
+export type UserResourceCountOutputTypeCountRequestFulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+}
+
 
 export type UserResourceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -830,6 +963,8 @@ export type UserResourceSelect<ExtArgs extends runtime.Types.Extensions.Internal
   creatorId?: boolean
   creator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   type?: boolean | Prisma.ResourceTypeDefaultArgs<ExtArgs>
+  requestFulfillments?: boolean | Prisma.UserResource$requestFulfillmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.UserResourceCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["userResource"]>
 
 export type UserResourceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -882,6 +1017,8 @@ export type UserResourceOmit<ExtArgs extends runtime.Types.Extensions.InternalAr
 export type UserResourceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   creator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   type?: boolean | Prisma.ResourceTypeDefaultArgs<ExtArgs>
+  requestFulfillments?: boolean | Prisma.UserResource$requestFulfillmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.UserResourceCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserResourceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   creator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -897,6 +1034,7 @@ export type $UserResourcePayload<ExtArgs extends runtime.Types.Extensions.Intern
   objects: {
     creator: Prisma.$UserPayload<ExtArgs>
     type: Prisma.$ResourceTypePayload<ExtArgs>
+    requestFulfillments: Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1306,6 +1444,7 @@ export interface Prisma__UserResourceClient<T, Null = never, ExtArgs extends run
   readonly [Symbol.toStringTag]: "PrismaPromise"
   creator<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   type<T extends Prisma.ResourceTypeDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourceTypeDefaultArgs<ExtArgs>>): Prisma.Prisma__ResourceTypeClient<runtime.Types.Result.GetResult<Prisma.$ResourceTypePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  requestFulfillments<T extends Prisma.UserResource$requestFulfillmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserResource$requestFulfillmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourceRequestFulfillmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1741,6 +1880,30 @@ export type UserResourceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.
   limit?: number
 }
 
+/**
+ * UserResource.requestFulfillments
+ */
+export type UserResource$requestFulfillmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourceRequestFulfillment
+   */
+  select?: Prisma.ResourceRequestFulfillmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourceRequestFulfillment
+   */
+  omit?: Prisma.ResourceRequestFulfillmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourceRequestFulfillmentInclude<ExtArgs> | null
+  where?: Prisma.ResourceRequestFulfillmentWhereInput
+  orderBy?: Prisma.ResourceRequestFulfillmentOrderByWithRelationInput | Prisma.ResourceRequestFulfillmentOrderByWithRelationInput[]
+  cursor?: Prisma.ResourceRequestFulfillmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourceRequestFulfillmentScalarFieldEnum | Prisma.ResourceRequestFulfillmentScalarFieldEnum[]
+}
+
 /**
  * UserResource without action
  */
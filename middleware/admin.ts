@@ -1,4 +1,6 @@
 import type { ApiResponse, UserInfo } from "~/types/api";
+import { canAccessAdmin, canAccessAdminPage, getDefaultAdminPage } from "~/utils/adminPermissions.js";
+import { useUserStore } from "~/stores/user";
 
 export default defineNuxtRouteMiddleware(async (to) => {
     // 确保在客户端执行
@@ -14,7 +16,7 @@ export default defineNuxtRouteMiddleware(async (to) => {
     }
 
     try {
-        // 通过API验证token和用户角色
+        // 通过API验证token并获取当前角色的后台权限
         const response = await $fetch<ApiResponse<UserInfo>>('/api/user/info', {
             headers: {
                 'Authorization': `Bearer ${token.value}`
@@ -26,12 +28,25 @@ export default defineNuxtRouteMiddleware(async (to) => {
             return navigateTo("/login");
         }
 
-        if (!response.data || response.data.role !== 'admin') {
+        const permissions = response.data?.permissions || [];
+        if (!response.data || !canAccessAdmin(permissions)) {
             console.warn('Access denied: Admin privileges required');
             return navigateTo("/user/dashboard");
         }
+
+        // 同步最新权限，后台侧边栏据此过滤菜单
+        const userStore = useUserStore();
+        if (userStore.user) {
+            userStore.user.permissions = permissions;
+            userStore.user.role = response.data.role;
+        }
+
+        if (!canAccessAdminPage(permissions, to.path)) {
+            console.warn('Access denied: missing permission for', to.path);
+            return navigateTo(getDefaultAdminPage(permissions) || "/user/dashboard");
+        }
     } catch (error: any) {
         console.error('Admin middleware error:', error?.message || error);
         return navigateTo("/login");
     }
-});
\ No newline at end of file
+});
@@ -0,0 +1,96 @@
+import { useUserStore } from "~/stores/user";
+
+// access token 过期前提前刷新，避免请求撞上过期
+const REFRESH_AHEAD_MS = 60 * 1000;
+const AUTH_ENDPOINT_PREFIX = "/api/user/auth/";
+
+const getTokenExpiry = (token: string) => {
+  try {
+    const payload = (token.split(".")[1] || "").replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload));
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export default defineNuxtPlugin(() => {
+  const userStore = useUserStore();
+  const baseFetch = globalThis.$fetch;
+  let pendingRefresh: Promise<string | null> | null = null;
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // 并发的刷新请求共用一次，refresh token 每次刷新都会轮换
+  const refreshAccessToken = () => {
+    if (!pendingRefresh) {
+      pendingRefresh = baseFetch<{ code: number; data?: { token?: string } }>("/api/user/auth/refresh", {
+        method: "POST",
+      })
+        .then((res) => {
+          const token = res?.data?.token || null;
+          if (token) {
+            userStore.setToken(token);
+          }
+          return token;
+        })
+        .catch((error) => {
+          // 会话已失效（退出、改密码、被禁用），清除本地登录状态
+          if (error?.status === 401) {
+            userStore.clearUser();
+          }
+          return null;
+        })
+        .finally(() => {
+          pendingRefresh = null;
+        });
+    }
+
+    return pendingRefresh;
+  };
+
+  const scheduleRefresh = (token: string | null) => {
+    clearTimeout(refreshTimer);
+    const expiry = token ? getTokenExpiry(token) : null;
+    if (!expiry) return;
+
+    refreshTimer = setTimeout(refreshAccessToken, Math.max(0, expiry - Date.now() - REFRESH_AHEAD_MS));
+  };
+
+  // 带 token 的请求返回 401 时，刷新 access token 后用新 token 重试一次
+  const fetchWithRefresh = async (request: any, options: any = {}) => {
+    try {
+      return await baseFetch(request, options);
+    } catch (error: any) {
+      const url = typeof request === "string" ? request : request?.url || "";
+      const headers = new Headers(options.headers);
+      if (
+        error?.status !== 401 ||
+        !headers.has("authorization") ||
+        url.startsWith(AUTH_ENDPOINT_PREFIX) ||
+        !userStore.token
+      ) {
+        throw error;
+      }
+
+      const token = await refreshAccessToken();
+      if (!token) {
+        throw error;
+      }
+
+      headers.set("authorization", `Bearer ${token}`);
+      return baseFetch(request, { ...options, headers });
+    }
+  };
+
+  // 保留 $fetch.raw、$fetch.create 等属性
+  globalThis.$fetch = Object.assign(fetchWithRefresh, baseFetch) as typeof baseFetch;
+
+  watch(() => userStore.token, scheduleRefresh, { immediate: true });
+
+  // 后台标签页的计时器会被浏览器节流，切回前台时按实际过期时间重新计算
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      scheduleRefresh(userStore.token);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ResourceLinkHealth" (
+    "id" SERIAL NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "link" TEXT NOT NULL,
+    "canonicalLink" TEXT NOT NULL,
+    "service" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'unknown',
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "checkCount" INTEGER NOT NULL DEFAULT 0,
+    "lastStatusCode" INTEGER,
+    "lastError" TEXT,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastOkAt" TIMESTAMP(3),
+    "unpublishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ResourceLinkHealth_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ResourceLinkHealth_targetType_targetId_idx" ON "ResourceLinkHealth"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "ResourceLinkHealth_service_status_idx" ON "ResourceLinkHealth"("service", "status");
+
+-- CreateIndex
+CREATE INDEX "ResourceLinkHealth_status_idx" ON "ResourceLinkHealth"("status");
+
+-- CreateIndex
+CREATE INDEX "ResourceLinkHealth_lastCheckedAt_idx" ON "ResourceLinkHealth"("lastCheckedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceLinkHealth_targetType_targetId_canonicalLink_key" ON "ResourceLinkHealth"("targetType", "targetId", "canonicalLink");
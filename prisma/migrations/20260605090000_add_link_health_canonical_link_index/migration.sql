@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ResourceLinkHealth_canonicalLink_idx" ON "ResourceLinkHealth"("canonicalLink");
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "ExternalPanSource" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "parserType" TEXT NOT NULL,
+    "baseUrl" TEXT,
+    "searchUrlTemplate" TEXT NOT NULL,
+    "params" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "timeoutMs" INTEGER NOT NULL DEFAULT 9000,
+    "detailLimit" INTEGER NOT NULL DEFAULT 6,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExternalPanSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExternalPanSource_key_key" ON "ExternalPanSource"("key");
+
+-- CreateIndex
+CREATE INDEX "ExternalPanSource_enabled_idx" ON "ExternalPanSource"("enabled");
+
+-- CreateIndex
+CREATE INDEX "ExternalPanSource_sortOrder_idx" ON "ExternalPanSource"("sortOrder");
+
+-- Seed the built-in sources that were previously hardcoded in externalPanSources.mjs
+INSERT INTO "ExternalPanSource" ("key", "label", "parserType", "baseUrl", "searchUrlTemplate", "sortOrder", "updatedAt")
+VALUES
+    ('panclub-quark', 'PanClub 夸克', 'panClubDetail', 'https://pan.club', 'https://pan.club/s/0/0/1/{keyword}/', 10, CURRENT_TIMESTAMP),
+    ('panclub-baidu', 'PanClub 百度', 'panClubDetail', 'https://pan.club', 'https://pan.club/baidu/s/0/0/1/{keyword}/', 20, CURRENT_TIMESTAMP),
+    ('panclub-alipan', 'PanClub 阿里', 'panClubDetail', 'https://pan.club', 'https://pan.club/alipan/s/0/0/1/{keyword}/', 30, CURRENT_TIMESTAMP),
+    ('pikasoo', '皮卡搜索', 'directAnchors', NULL, 'https://www.pikasoo.top/search/?q={keyword}&pan=all', 40, CURRENT_TIMESTAMP),
+    ('dapanso', '大盘搜', 'sequentialTitleLinks', NULL, 'https://dapanso.com/search?keyword={keyword}', 50, CURRENT_TIMESTAMP),
+    ('duanjuso', '短剧搜', 'remanApi', 'https://www.duanjuso.cc', 'https://www.duanjuso.cc/v1/search/disk', 60, CURRENT_TIMESTAMP),
+    ('zlxapp', '知了搜', 'qingfeiApi', 'https://www.zlxapp.top', 'https://www.zlxapp.top/api/search', 70, CURRENT_TIMESTAMP),
+    ('haitunsou', '海豚搜索', 'embeddedQingfei', 'https://www.haitunsou.com', 'https://www.haitunsou.com/s/{keyword}', 80, CURRENT_TIMESTAMP),
+    ('wpzy-vip', 'AQ网盘搜索', 'flarumApi', 'https://wpzy.vip', 'https://wpzy.vip/api/discussions?page%5Blimit%5D=8&include=firstPost,mostRelevantPost&filter%5Bq%5D={keyword}', 90, CURRENT_TIMESTAMP),
+    ('wpzy-cc', 'AQ网盘论坛', 'flarumApi', 'https://wpzy.cc', 'https://wpzy.cc/api/discussions?page%5Blimit%5D=8&include=firstPost,mostRelevantPost&filter%5Bq%5D={keyword}', 100, CURRENT_TIMESTAMP),
+    ('wpzy-me', 'AQ影视资源', 'flarumApi', 'https://wpzy.me', 'https://wpzy.me/api/discussions?page%5Blimit%5D=8&include=firstPost,mostRelevantPost&filter%5Bq%5D={keyword}', 110, CURRENT_TIMESTAMP),
+    ('sosoyunpan', 'SOSO云盘', 'sosoApi', 'https://www.sosoyunpan.com', 'https://www.sosoyunpan.com/list', 120, CURRENT_TIMESTAMP),
+    ('soxunleipan', '搜迅雷盘', 'soxunleiApi', 'https://www.soxunleipan.com', 'https://www.soxunleipan.com/search/list', 130, CURRENT_TIMESTAMP);
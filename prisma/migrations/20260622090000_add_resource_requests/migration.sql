@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "ResourceRequest" (
+    "id" SERIAL NOT NULL,
+    "requesterId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "bounty" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ResourceRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ResourceRequestFulfillment" (
+    "id" SERIAL NOT NULL,
+    "requestId" INTEGER NOT NULL,
+    "userResourceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "note" TEXT,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ResourceRequestFulfillment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ResourceRequest_requesterId_idx" ON "ResourceRequest"("requesterId");
+
+-- CreateIndex
+CREATE INDEX "ResourceRequest_status_expiresAt_idx" ON "ResourceRequest"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ResourceRequest_title_idx" ON "ResourceRequest"("title");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceRequestFulfillment_requestId_userResourceId_key" ON "ResourceRequestFulfillment"("requestId", "userResourceId");
+
+-- CreateIndex
+CREATE INDEX "ResourceRequestFulfillment_userId_idx" ON "ResourceRequestFulfillment"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ResourceRequest" ADD CONSTRAINT "ResourceRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceRequestFulfillment" ADD CONSTRAINT "ResourceRequestFulfillment_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "ResourceRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceRequestFulfillment" ADD CONSTRAINT "ResourceRequestFulfillment_userResourceId_fkey" FOREIGN KEY ("userResourceId") REFERENCES "UserResource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceRequestFulfillment" ADD CONSTRAINT "ResourceRequestFulfillment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SearchSyncEvent" (
+    "id" SERIAL NOT NULL,
+    "target" TEXT NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchSyncEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchSyncEvent_status_nextAttemptAt_idx" ON "SearchSyncEvent"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "SearchSyncEvent_target_entityId_idx" ON "SearchSyncEvent"("target", "entityId");
@@ -0,0 +1,10 @@
+-- PostgreSQL 搜索后端依赖 pg_trgm 提供 similarity() 与 ILIKE 的 GIN 索引
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Resource_name_trgm_idx 已由 20260428000000_add_trgm_index_resource_name 创建
+
+-- CreateIndex
+CREATE INDEX "UserResource_name_trgm_idx" ON "UserResource" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "UserResource_description_trgm_idx" ON "UserResource" USING GIN ("description" gin_trgm_ops);
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "AdminAuditLog" (
+    "id" SERIAL NOT NULL,
+    "actorId" INTEGER,
+    "actorName" TEXT,
+    "action" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "statusCode" INTEGER,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "diff" JSONB,
+    "prevHash" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminAuditLog_hash_key" ON "AdminAuditLog"("hash");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_createdAt_idx" ON "AdminAuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_actorId_createdAt_idx" ON "AdminAuditLog"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_targetType_targetId_idx" ON "AdminAuditLog"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_action_idx" ON "AdminAuditLog"("action");
+
+-- 审计日志只允许追加
+CREATE OR REPLACE FUNCTION "admin_audit_log_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AdminAuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AdminAuditLog_append_only"
+    BEFORE UPDATE OR DELETE ON "AdminAuditLog"
+    FOR EACH ROW EXECUTE FUNCTION "admin_audit_log_append_only"();
+
+CREATE TRIGGER "AdminAuditLog_no_truncate"
+    BEFORE TRUNCATE ON "AdminAuditLog"
+    FOR EACH STATEMENT EXECUTE FUNCTION "admin_audit_log_append_only"();
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "link" TEXT;
+
+-- CreateTable
+CREATE TABLE "Mention" (
+    "id" SERIAL NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "actorId" INTEGER NOT NULL,
+    "notified" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Mention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MentionMute" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "mutedUserId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MentionMute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Mention_sourceType_sourceId_userId_key" ON "Mention"("sourceType", "sourceId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Mention_userId_createdAt_idx" ON "Mention"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MentionMute_userId_mutedUserId_key" ON "MentionMute"("userId", "mutedUserId");
+
+-- CreateIndex
+CREATE INDEX "MentionMute_mutedUserId_idx" ON "MentionMute"("mutedUserId");
+
+-- AddForeignKey
+ALTER TABLE "Mention" ADD CONSTRAINT "Mention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Mention" ADD CONSTRAINT "Mention_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MentionMute" ADD CONSTRAINT "MentionMute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MentionMute" ADD CONSTRAINT "MentionMute_mutedUserId_fkey" FOREIGN KEY ("mutedUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- 论坛搜索依赖 pg_trgm 提供 similarity() 与 ILIKE 的 GIN 索引
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "ForumTopic_title_trgm_idx" ON "ForumTopic" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ForumTopic_content_trgm_idx" ON "ForumTopic" USING GIN ("content" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ForumPost_content_trgm_idx" ON "ForumPost" USING GIN ("content" gin_trgm_ops);
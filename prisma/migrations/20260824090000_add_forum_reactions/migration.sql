@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "forumReputation" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ForumTopic" ADD COLUMN "acceptedPostId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ForumPostReaction" (
+    "id" SERIAL NOT NULL,
+    "postId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ForumPostReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ForumReputationEvent" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "postId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "actorId" INTEGER NOT NULL,
+    "reputation" INTEGER NOT NULL DEFAULT 0,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumReputationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumTopic_acceptedPostId_key" ON "ForumTopic"("acceptedPostId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumPostReaction_postId_userId_key" ON "ForumPostReaction"("postId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ForumPostReaction_postId_type_idx" ON "ForumPostReaction"("postId", "type");
+
+-- CreateIndex
+CREATE INDEX "ForumPostReaction_userId_idx" ON "ForumPostReaction"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumReputationEvent_kind_postId_actorId_key" ON "ForumReputationEvent"("kind", "postId", "actorId");
+
+-- CreateIndex
+CREATE INDEX "ForumReputationEvent_userId_createdAt_idx" ON "ForumReputationEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ForumReputationEvent_actorId_idx" ON "ForumReputationEvent"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "ForumTopic" ADD CONSTRAINT "ForumTopic_acceptedPostId_fkey" FOREIGN KEY ("acceptedPostId") REFERENCES "ForumPost"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumPostReaction" ADD CONSTRAINT "ForumPostReaction_postId_fkey" FOREIGN KEY ("postId") REFERENCES "ForumPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumPostReaction" ADD CONSTRAINT "ForumPostReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumReputationEvent" ADD CONSTRAINT "ForumReputationEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumReputationEvent" ADD CONSTRAINT "ForumReputationEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "ForumSubscription" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "topicId" INTEGER,
+    "categoryId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ForumDigestPreference" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "frequency" TEXT NOT NULL DEFAULT 'weekly',
+    "unsubscribeToken" TEXT NOT NULL,
+    "lastSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ForumDigestPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumSubscription_userId_topicId_key" ON "ForumSubscription"("userId", "topicId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumSubscription_userId_categoryId_key" ON "ForumSubscription"("userId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "ForumSubscription_topicId_idx" ON "ForumSubscription"("topicId");
+
+-- CreateIndex
+CREATE INDEX "ForumSubscription_categoryId_idx" ON "ForumSubscription"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumDigestPreference_userId_key" ON "ForumDigestPreference"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForumDigestPreference_unsubscribeToken_key" ON "ForumDigestPreference"("unsubscribeToken");
+
+-- CreateIndex
+CREATE INDEX "ForumDigestPreference_frequency_lastSentAt_idx" ON "ForumDigestPreference"("frequency", "lastSentAt");
+
+-- AddForeignKey
+ALTER TABLE "ForumSubscription" ADD CONSTRAINT "ForumSubscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumSubscription" ADD CONSTRAINT "ForumSubscription_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "ForumTopic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumSubscription" ADD CONSTRAINT "ForumSubscription_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ForumCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumDigestPreference" ADD CONSTRAINT "ForumDigestPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "ForumTopic" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ForumPost" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ForumRevision" (
+    "id" SERIAL NOT NULL,
+    "topicId" INTEGER,
+    "postId" INTEGER,
+    "editorId" INTEGER,
+    "title" TEXT,
+    "content" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForumRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ForumRevision_topicId_createdAt_idx" ON "ForumRevision"("topicId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ForumRevision_postId_createdAt_idx" ON "ForumRevision"("postId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ForumRevision_editorId_idx" ON "ForumRevision"("editorId");
+
+-- AddForeignKey
+ALTER TABLE "ForumRevision" ADD CONSTRAINT "ForumRevision_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "ForumTopic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumRevision" ADD CONSTRAINT "ForumRevision_postId_fkey" FOREIGN KEY ("postId") REFERENCES "ForumPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForumRevision" ADD CONSTRAINT "ForumRevision_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import {
+  SOURCE_FIXTURE_RUNNERS,
+  recordSourceFixture,
+  replaySourceFixture,
+} from "../server/services/search/sourceFixtures.mjs";
+
+const FIXTURE_DIR = fileURLToPath(new URL("../tests/search/fixtures/sources/", import.meta.url));
+const DEFAULT_KEYWORD = "三体";
+
+const USAGE = `用法:
+  node scripts/search-source-fixtures.mjs record <source|all> [keyword]  访问上游录制响应，并生成解析快照
+  node scripts/search-source-fixtures.mjs update [source|all]            用夹具里的响应重新生成快照（有意修改解析逻辑后使用）
+  node scripts/search-source-fixtures.mjs check [source|all]             离线回放，与快照比较
+
+可用搜索源: ${Object.keys(SOURCE_FIXTURE_RUNNERS).join(", ")}`;
+
+const getFixturePath = (sourceId) => path.join(FIXTURE_DIR, `${sourceId}.json`);
+
+const readFixture = async (sourceId) => {
+  try {
+    return JSON.parse(await readFile(getFixturePath(sourceId), "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const writeFixture = (fixture) =>
+  writeFile(getFixturePath(fixture.source), `${JSON.stringify(fixture, null, 2)}\n`);
+
+const resolveSources = async (target, { existingOnly }) => {
+  if (target && target !== "all") {
+    if (!SOURCE_FIXTURE_RUNNERS[target]) {
+      throw new Error(`未知的搜索源: ${target}`);
+    }
+    return [target];
+  }
+
+  if (!existingOnly) {
+    return Object.keys(SOURCE_FIXTURE_RUNNERS);
+  }
+
+  const files = await readdir(FIXTURE_DIR).catch(() => []);
+  return files.filter((file) => file.endsWith(".json")).map((file) => path.basename(file, ".json"));
+};
+
+const record = async (sourceId, keywordArg) => {
+  const existing = await readFixture(sourceId);
+  const keyword = keywordArg || existing?.keyword || DEFAULT_KEYWORD;
+  const fixture = await recordSourceFixture(sourceId, keyword);
+  await writeFixture(fixture);
+  console.log(
+    `${sourceId}: 录制 ${fixture.exchanges.length} 个请求，解析出 ${fixture.expected.list?.length || 0} 条结果 (code ${fixture.expected.code})`,
+  );
+};
+
+const update = async (sourceId) => {
+  const fixture = await readFixture(sourceId);
+  if (!fixture) {
+    throw new Error(`${sourceId}: 还没有夹具`);
+  }
+
+  fixture.expected = await replaySourceFixture(fixture);
+  await writeFixture(fixture);
+  console.log(`${sourceId}: 快照已更新，${fixture.expected.list?.length || 0} 条结果`);
+};
+
+const check = async (sourceId) => {
+  const fixture = await readFixture(sourceId);
+  if (!fixture) {
+    throw new Error(`${sourceId}: 还没有夹具`);
+  }
+
+  assert.deepEqual(await replaySourceFixture(fixture), fixture.expected, `${sourceId} 的解析结果与快照不一致`);
+  console.log(
+    fixture.origin === "recorded"
+      ? `${sourceId}: ok（录制于 ${fixture.recordedAt}）`
+      : `${sourceId}: ok（手写夹具，建议用 record 重新录制）`,
+  );
+};
+
+const COMMANDS = { record, update, check };
+
+async function main() {
+  const [command, target, keyword] = process.argv.slice(2);
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  const sources = await resolveSources(target, { existingOnly: command !== "record" });
+  let failed = 0;
+
+  // 逐个执行，单个搜索源失败不影响其余的
+  for (const sourceId of sources) {
+    try {
+      await handler(sourceId, keyword);
+    } catch (error) {
+      failed += 1;
+      console.error(error.message);
+    }
+  }
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,25 @@
+import { exportAdminAuditLogsCsv } from "~/server/services/audit/adminAuditLog.js";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  await requirePermission(event, "audit.view");
+
+  const query = getQuery(event);
+  // 导出本身也留痕
+  setAdminAudit(event, {
+    action: "audit.export",
+    targetType: "audit-logs",
+    after: query,
+  });
+
+  const csv = await exportAdminAuditLogsCsv(query);
+  const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  setResponseHeaders(event, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  });
+
+  return csv;
+});
@@ -0,0 +1,21 @@
+import { listAdminAuditLogs } from "~/server/services/audit/adminAuditLog.js";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  await requirePermission(event, "audit.view");
+
+  try {
+    const data = await listAdminAuditLogs(getQuery(event));
+
+    return {
+      code: 200,
+      data,
+    };
+  } catch (error) {
+    console.error("获取审计日志失败:", error);
+    return {
+      code: 500,
+      msg: "获取审计日志失败",
+    };
+  }
+});
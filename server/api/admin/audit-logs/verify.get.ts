@@ -0,0 +1,22 @@
+import { verifyAdminAuditChain } from "~/server/services/audit/adminAuditLog.js";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  await requirePermission(event, "audit.view");
+
+  try {
+    const result = await verifyAdminAuditChain();
+
+    return {
+      code: 200,
+      msg: result.valid ? "哈希链完整" : `第 ${result.brokenId} 条记录校验失败：${result.reason}`,
+      data: result,
+    };
+  } catch (error) {
+    console.error("校验审计日志失败:", error);
+    return {
+      code: 500,
+      msg: "校验审计日志失败",
+    };
+  }
+});
@@ -1,4 +1,5 @@
 import { verifyToken } from '~/server/model/user'
+import { hasPermission } from '~/utils/adminPermissions.js'
 import prisma from "~/lib/prisma";
 
 export default defineEventHandler(async (event) => {
@@ -6,7 +7,7 @@ export default defineEventHandler(async (event) => {
   const { token } = parseCookies(event)
   const decoded = token ? verifyToken(token) : null
   
-  if (!decoded || !decoded.userId || decoded.role !== 'admin') {
+  if (!decoded || !decoded.userId || !hasPermission(event.context.user?.permissions, 'chat.manage')) {
     throw createError({
       statusCode: 401,
       message: '未授权的访问'
@@ -1,11 +1,17 @@
-import { requireAdmin } from "~/server/utils/auth";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { requirePermission } from "~/server/utils/auth";
 import { createDatabaseBackupDownloadUrl } from "~/server/services/databaseBackups/r2CliBackups.mjs";
 
 export default defineEventHandler(async (event) => {
-  await requireAdmin(event);
+  await requirePermission(event, "backups.download");
 
   try {
     const body = await readBody(event);
+    setAdminAudit(event, {
+      action: "backups.download",
+      targetType: "database-backups",
+      targetId: body?.key,
+    });
     const download = await createDatabaseBackupDownloadUrl(body?.key);
 
     return {
@@ -1,11 +1,11 @@
-import { requireAdmin } from "~/server/utils/auth";
+import { requirePermission } from "~/server/utils/auth";
 import {
   getDatabaseBackupAdminConfig,
   listDatabaseBackups,
 } from "~/server/services/databaseBackups/r2CliBackups.mjs";
 
 export default defineEventHandler(async (event) => {
-  await requireAdmin(event);
+  await requirePermission(event, "backups.download");
 
   try {
     const [backups, config] = await Promise.all([
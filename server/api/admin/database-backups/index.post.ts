@@ -1,8 +1,8 @@
-import { requireAdmin } from "~/server/utils/auth";
+import { requirePermission } from "~/server/utils/auth";
 import { createManualDatabaseBackup } from "~/server/services/databaseBackups/r2CliBackups.mjs";
 
 export default defineEventHandler(async (event) => {
-  await requireAdmin(event);
+  await requirePermission(event, "backups.download");
 
   try {
     const backup = await createManualDatabaseBackup();
@@ -1,10 +1,12 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs"
 
 export default defineEventHandler(async (event) => {
     try {
         // 权限验证
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -36,15 +38,30 @@ export default defineEventHandler(async (event) => {
         // 更新帖子状态为已批准
         const updatedPost = await prisma.forumPost.update({
             where: { id },
-            data: { status: 'approved' }
+            data: { status: 'approved' },
+            include: {
+                author: { select: { id: true, username: true } }
+            }
         })
 
         // 更新主题的最近活动时间
-        await prisma.forumTopic.update({
+        const topic = await prisma.forumTopic.update({
             where: { id: post.topicId },
             data: { updatedAt: new Date() }
         })
 
+        // 提及通知以回复作者的名义发出
+        await recordMentions({
+            content: updatedPost.content,
+            sourceType: MENTION_SOURCE_TYPES.forumPost,
+            sourceId: updatedPost.id,
+            actor: updatedPost.author,
+            contextLabel: `主题 "${topic.title}" 的回复`,
+            link: `/forum/topic/${topic.slug}`,
+            io: event.context.io,
+            prismaClient: prisma,
+        })
+
         return {
             success: true,
             message: '回复已批准',
@@ -1,10 +1,11 @@
 import prisma from '~/lib/prisma'
+import { hasPermission } from '~/utils/adminPermissions.js'
  
 export default defineEventHandler(async (event) => {
     try {
         // 权限验证
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
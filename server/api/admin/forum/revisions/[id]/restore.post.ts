@@ -0,0 +1,44 @@
+import prisma from "~/lib/prisma";
+import { restoreForumRevision } from "~/server/services/forum/revisions.mjs";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const user = event.context.user
+    if (!user || !hasPermission(user.permissions, "forum.moderate")) {
+        throw createError({
+            statusCode: 403,
+            statusMessage: "Forbidden",
+            message: "需要管理员权限"
+        })
+    }
+
+    try {
+        const result = await restoreForumRevision({
+            revisionId: event.context.params?.id,
+            editorId: user.userId,
+            prismaClient: prisma,
+        })
+
+        setAdminAudit(event, {
+            action: `forum.${result.type}.revision.restore`,
+            targetType: result.type === "topic" ? "forum/topics" : "forum/posts",
+            targetId: result.target.id,
+            after: { revisionId: result.revision.id },
+        })
+
+        return {
+            success: true,
+            message: "已回滚到所选版本",
+            data: result.target,
+        }
+    } catch (error: any) {
+        if (!error.statusCode) {
+            console.error("回滚论坛编辑历史失败:", error)
+        }
+        return {
+            success: false,
+            message: error.statusCode ? error.statusMessage : "回滚失败"
+        }
+    }
+})
@@ -1,10 +1,13 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs"
+import { updateForumReadStatesForNewTopic } from "~/server/services/forum/readStates.mjs"
 
 export default defineEventHandler(async (event) => {
     try {
         // 权限验证
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -36,8 +39,24 @@ export default defineEventHandler(async (event) => {
         // 更新主题状态为已批准
         const updatedTopic = await prisma.forumTopic.update({
             where: { id },
-            data: { status: 'approved' }
+            data: { status: 'approved' },
+            include: {
+                author: { select: { id: true, username: true } }
+            }
+        })
+
+        // 提及通知以主题作者的名义发出
+        await recordMentions({
+            content: updatedTopic.content,
+            sourceType: MENTION_SOURCE_TYPES.forumTopic,
+            sourceId: updatedTopic.id,
+            actor: updatedTopic.author,
+            contextLabel: `主题 "${updatedTopic.title}"`,
+            link: `/forum/topic/${updatedTopic.slug}`,
+            io: event.context.io,
+            prismaClient: prisma,
         })
+        await updateForumReadStatesForNewTopic({ topic: updatedTopic, prismaClient: prisma })
 
         return {
             success: true,
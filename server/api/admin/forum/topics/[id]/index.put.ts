@@ -1,10 +1,12 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
+import { saveForumTopicEdit } from "~/server/services/forum/revisions.mjs"
 
 export default defineEventHandler(async (event) => {
     try {
         // 权限验证
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -45,9 +47,10 @@ export default defineEventHandler(async (event) => {
             }
         }
 
-        // 更新主题
-        const updatedTopic = await prisma.forumTopic.update({
-            where: { id },
+        // 更新主题，管理员的修改同样保存到编辑历史
+        const updatedTopic = await saveForumTopicEdit({
+            topic,
+            editorId: user.userId,
             data: {
                 title,
                 content,
@@ -56,7 +59,8 @@ export default defineEventHandler(async (event) => {
                 isSticky: isSticky !== undefined ? isSticky : topic.isSticky,
                 isLocked: isLocked !== undefined ? isLocked : topic.isLocked,
                 updatedAt: new Date()
-            }
+            },
+            prismaClient: prisma,
         })
 
         return {
@@ -1,10 +1,12 @@
 import prisma from "~/lib/prisma";
 import { restoreForumTopicFromTrash } from "~/server/services/forum/topicTrash.mjs";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     try {
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -13,11 +15,22 @@ export default defineEventHandler(async (event) => {
         }
 
         const id = parseInt(event.context.params?.id || "")
+        const previous = id > 0
+            ? await prisma.forumTopic.findUnique({ where: { id }, select: { status: true } })
+            : null
         const topic = await restoreForumTopicFromTrash({
             topicId: id,
             prismaClient: prisma,
         })
 
+        setAdminAudit(event, {
+            action: "forum.topic.restore",
+            targetType: "forum/topics",
+            targetId: id,
+            before: { status: previous?.status },
+            after: { status: topic.status },
+        })
+
         return {
             success: true,
             message: "主题已恢复",
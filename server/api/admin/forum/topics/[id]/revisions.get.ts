@@ -0,0 +1,33 @@
+import prisma from "~/lib/prisma";
+import { FORUM_REVISION_TYPES, listForumRevisions } from "~/server/services/forum/revisions.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const user = event.context.user
+    if (!user || !hasPermission(user.permissions, "forum.moderate")) {
+        throw createError({
+            statusCode: 403,
+            statusMessage: "Forbidden",
+            message: "需要管理员权限"
+        })
+    }
+
+    try {
+        return {
+            success: true,
+            data: await listForumRevisions({
+                type: FORUM_REVISION_TYPES.topic,
+                targetId: event.context.params?.id,
+                prismaClient: prisma,
+            }),
+        }
+    } catch (error: any) {
+        if (!error.statusCode) {
+            console.error("获取主题编辑历史失败:", error)
+        }
+        return {
+            success: false,
+            message: error.statusCode ? error.statusMessage : "获取编辑历史失败"
+        }
+    }
+})
@@ -1,10 +1,12 @@
 import prisma from "~/lib/prisma";
 import { moveForumTopicToTrash } from "~/server/services/forum/topicTrash.mjs";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     try {
         const user = event.context.user
-        if (!user || user.role !== "admin") {
+        if (!user || !hasPermission(user.permissions, "forum.moderate")) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -13,6 +15,9 @@ export default defineEventHandler(async (event) => {
         }
 
         const id = parseInt(event.context.params?.id || "")
+        const previous = id > 0
+            ? await prisma.forumTopic.findUnique({ where: { id }, select: { status: true } })
+            : null
         const body = await readBody(event).catch(() => ({}))
         const topic = await moveForumTopicToTrash({
             topicId: id,
@@ -21,6 +26,14 @@ export default defineEventHandler(async (event) => {
             prismaClient: prisma,
         })
 
+        setAdminAudit(event, {
+            action: "forum.topic.trash",
+            targetType: "forum/topics",
+            targetId: id,
+            before: { status: previous?.status },
+            after: { status: topic.status, trashReason: topic.trashReason },
+        })
+
         return {
             success: true,
             message: "主题已移入回收站",
@@ -0,0 +1,37 @@
+import { verifyToken } from '~/server/model/user'
+import { runLinkHealthCheck } from "~/server/services/userResources/linkHealthRunner.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+const clampInt = (value: unknown, fallback: number, min: number, max: number) => {
+    const parsed = Number.parseInt(String(value || ''), 10)
+    if (!Number.isFinite(parsed)) {
+        return fallback
+    }
+
+    return Math.min(Math.max(parsed, min), max)
+}
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'resources.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const body = await readBody(event)
+
+    const data = await runLinkHealthCheck({
+        batchSize: clampInt(body?.batchSize, 20, 1, 100),
+        autoUnpublish: body?.autoUnpublish !== false
+    })
+
+    return {
+        code: 200,
+        msg: '链接健康检查完成',
+        data
+    }
+})
@@ -0,0 +1,40 @@
+import { verifyToken } from '~/server/model/user'
+import { LINK_HEALTH_TARGET_TYPES } from "~/server/services/userResources/linkHealth.js";
+import { getLinkHealthSummary } from "~/server/services/userResources/linkHealthRunner.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'resources.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const query = getQuery(event)
+    const targetType = LINK_HEALTH_TARGET_TYPES.includes(String(query.targetType))
+        ? String(query.targetType)
+        : undefined
+
+    try {
+        const data = await getLinkHealthSummary({
+            targetType,
+            recentLimit: query.recentLimit
+        })
+
+        return {
+            code: 200,
+            msg: '获取成功',
+            data
+        }
+    } catch (error) {
+        console.error('获取资源链接健康统计失败:', error)
+        throw createError({
+            statusCode: 500,
+            message: '获取资源链接健康统计失败'
+        })
+    }
+})
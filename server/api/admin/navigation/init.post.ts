@@ -1,12 +1,13 @@
 import prisma from "~/lib/prisma";
 import { readFileSync } from 'fs'
 import { join } from 'path'
+import { hasPermission } from '~/utils/adminPermissions.js'
 
 export default defineEventHandler(async (event) => {
   try {
     // 权限验证由中间件处理
     const user = event.context.user
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(user.permissions, 'content.manage')) {
       throw createError({
         statusCode: 403,
         statusMessage: '无权限访问'
@@ -2,10 +2,11 @@ import {
   getStoredPrivateMessageConfig,
   saveStoredPrivateMessageConfig,
 } from "~/server/services/points/privateMessageEligibility.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "points.grant")) {
     throw createError({
       statusCode: 403,
       statusMessage: "无权限访问",
@@ -6,10 +6,11 @@ import {
   getStoredQuarkConfig,
   saveQuarkConfig,
 } from "~/server/services/quark/quarkSettingsStore";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "points.grant")) {
     throw createError({
       statusCode: 403,
       statusMessage: "无权限访问",
@@ -4,10 +4,11 @@ import {
   saveReleaseNotesToSettings,
   upsertReleaseNote,
 } from "~/server/services/releases/releaseNotes.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "content.manage")) {
     throw createError({
       statusCode: 403,
       statusMessage: "无权限访问",
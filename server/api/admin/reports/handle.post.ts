@@ -1,10 +1,12 @@
 import prisma from '~/lib/prisma';
-import { requireAdmin } from '../../../utils/auth';
+import { requirePermission } from '../../../utils/auth';
+import { enqueueSearchSync } from '~/server/services/search/searchSyncOutbox.js';
+import { setAdminAudit } from '~/server/utils/adminAudit';
 
 export default defineEventHandler(async (event) => {
   try {
     // 验证管理员权限
-    const admin = await requireAdmin(event);
+    const admin = await requirePermission(event, 'forum.moderate');
 
     const body = await readBody(event);
     const { reportId, action, adminNote } = body;
@@ -55,6 +57,14 @@ export default defineEventHandler(async (event) => {
       }
     });
 
+    setAdminAudit(event, {
+      action: `reports.${action}`,
+      targetType: 'reports',
+      targetId: reportId,
+      before: { status: report.status, adminNote: report.adminNote },
+      after: { status: updatedReport.status, adminNote: updatedReport.adminNote }
+    });
+
     // TODO: 如果是解决举报，可能需要对被举报的内容进行处理
     // 例如：删除内容、禁用用户等
     if (action === 'resolve') {
@@ -123,10 +133,13 @@ async function handleReportedContent(report: any) {
           break;
 
         case 'resource':
-          // 删除用户资源
-          await prisma.userResource.update({
-            where: { id: parseInt(contentId) },
-            data: { status: 'rejected' }
+          // 删除用户资源，已发布的同时移出搜索索引
+          await prisma.$transaction(async (tx: any) => {
+            await tx.userResource.update({
+              where: { id: parseInt(contentId) },
+              data: { status: 'rejected' }
+            });
+            await enqueueSearchSync(tx, { target: 'user-resources', entityId: parseInt(contentId) });
           }).catch(() => {});
           break;
       }
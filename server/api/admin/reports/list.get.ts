@@ -1,10 +1,10 @@
 import prisma from '~/lib/prisma';
-import { requireAdmin } from '../../../utils/auth';
+import { requirePermission } from '../../../utils/auth';
 
 export default defineEventHandler(async (event) => {
   try {
     // 验证管理员权限
-    const admin = await requireAdmin(event);
+    const admin = await requirePermission(event, 'forum.moderate');
 
     const query = getQuery(event);
     const page = parseInt(query.page as string) || 1;
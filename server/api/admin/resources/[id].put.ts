@@ -1,5 +1,5 @@
 import prisma from "~/lib/prisma";
-import { syncResource } from "~/server/services/search/elasticsearchClient.js";
+import { enqueueSearchSync } from "~/server/services/search/searchSyncOutbox.js";
 
 export default defineEventHandler(async (event) => {
     const { id } = getRouterParams(event);
@@ -17,25 +17,23 @@ export default defineEventHandler(async (event) => {
         throw createError({ statusCode: 403, statusMessage: 'Forbidden' }); // 仅允许资源的创建者更新资源
     }
 
-    const updatedResource = await prisma.resource.update({
-        where: { id: Number(id) },
-        data: {
-            name,
-            links,
-            typeId,
-        },
-        include: {
-            creator: { select: { username: true } },
-            type: { select: { name: true } },
-        }
+    const updatedResource = await prisma.$transaction(async (tx: any) => {
+        const updated = await tx.resource.update({
+            where: { id: Number(id) },
+            data: {
+                name,
+                links,
+                typeId,
+            },
+            include: {
+                creator: { select: { username: true } },
+                type: { select: { name: true } },
+            }
+        });
+        await enqueueSearchSync(tx, { target: "resources", entityId: updated.id });
+        return updated;
     });
 
-    try {
-        await syncResource(updatedResource);
-    } catch (esError) {
-        console.error("同步资源到 ES 失败:", esError);
-    }
-
     return {
         code: 200,
         msg: 'success',
@@ -1,5 +1,5 @@
 import prisma from "~/lib/prisma";
-import { removeResource } from "~/server/services/search/elasticsearchClient.js";
+import { enqueueSearchSync } from "~/server/services/search/searchSyncOutbox.js";
 
 export default defineEventHandler(async (event) => {
     const body = await readBody(event); // 读取请求体
@@ -13,24 +13,21 @@ export default defineEventHandler(async (event) => {
     try {
         const numericIds = ids.map(id => Number(id));
 
-        // 使用 Prisma 的 deleteMany 方法删除多个资源
-        await prisma.resource.deleteMany({
-            where: {
-                id: {
-                    in: numericIds,
+        // 使用 Prisma 的 deleteMany 方法删除多个资源，同一事务内登记 ES 删除事件
+        await prisma.$transaction(async (tx: any) => {
+            await tx.resource.deleteMany({
+                where: {
+                    id: {
+                        in: numericIds,
+                    },
                 },
-            },
+            });
+            await enqueueSearchSync(
+                tx,
+                numericIds.map((entityId) => ({ target: "resources", entityId, action: "delete" }))
+            );
         });
 
-        // 逐条从 ES 删除，失败不阻断
-        for (const resourceId of numericIds) {
-            try {
-                await removeResource(resourceId);
-            } catch (esError) {
-                console.error(`从 ES 删除资源 ${resourceId} 失败:`, esError);
-            }
-        }
-
         return {
             code: 200,
             msg: 'Resources deleted successfully',
@@ -1,5 +1,5 @@
 import prisma from "~/lib/prisma";
-import { syncResource } from "~/server/services/search/elasticsearchClient.js";
+import { enqueueSearchSync } from "~/server/services/search/searchSyncOutbox.js";
  
 export default defineEventHandler(async (event) => {
     const { name, links, typeId } = await readBody(event)
@@ -14,25 +14,23 @@ export default defineEventHandler(async (event) => {
     const userId = event.context.user.userId;
     
     try {
-        const resource = await prisma.resource.create({
-            data: {
-                name,
-                links,
-                typeId: parseInt(typeId),
-                creatorId: userId
-            },
-            include: {
-                creator: { select: { username: true } },
-                type: { select: { name: true } },
-            }
+        const resource = await prisma.$transaction(async (tx: any) => {
+            const created = await tx.resource.create({
+                data: {
+                    name,
+                    links,
+                    typeId: parseInt(typeId),
+                    creatorId: userId
+                },
+                include: {
+                    creator: { select: { username: true } },
+                    type: { select: { name: true } },
+                }
+            })
+            await enqueueSearchSync(tx, { target: "resources", entityId: created.id });
+            return created
         })
 
-        try {
-            await syncResource(resource);
-        } catch (esError) {
-            console.error("同步资源到 ES 失败:", esError);
-        }
-
         return {
             code: 200,
             msg: 'success',
@@ -1,49 +1,32 @@
 import { verifyToken } from '~/server/model/user'
-import prisma from "~/lib/prisma";
-import { reindexResources } from "~/server/services/search/elasticsearchClient.js";
+import { startSearchReindex } from "~/server/services/search/searchReindexJobs.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     const token = getHeader(event, 'authorization')?.split(' ')[1]
     const user = token ? verifyToken(token) : null
 
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
         throw createError({
             statusCode: 403,
             message: '无权限访问'
         })
     }
 
-    const body = await readBody(event)
-    const reset = Boolean(body?.reset)
-
     try {
-        const resources = await prisma.resource.findMany({
-            include: {
-                creator: {
-                    select: {
-                        id: true,
-                        username: true,
-                    }
-                },
-                type: true
-            },
-            orderBy: {
-                id: 'asc'
-            }
-        })
-
-        const result = await reindexResources(resources, { reset })
+        // 重建写入新版本索引后再切换别名，进度在 /admin/search-index 查看
+        const job = await startSearchReindex('resources')
 
         return {
             code: 200,
-            msg: '重建完成',
-            data: result
+            msg: '已开始重建',
+            data: job
         }
-    } catch (error) {
+    } catch (error: any) {
         console.error('重建资源搜索索引失败:', error)
         throw createError({
-            statusCode: 500,
-            message: '重建资源搜索索引失败'
+            statusCode: error.statusCode || 500,
+            message: error.statusCode ? error.message : '重建资源搜索索引失败'
         })
     }
 })
@@ -0,0 +1,24 @@
+import { deleteCustomRole } from "~/server/services/auth/permissions.js";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  const user = await requirePermission(event, "roles.manage");
+  const key = getRouterParam(event, "key") || "";
+
+  try {
+    await deleteCustomRole(key, { actorPermissions: user.permissions });
+
+    return {
+      code: 200,
+      msg: "角色已删除",
+    };
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("删除角色失败:", error);
+    }
+    return {
+      code: error.statusCode || 500,
+      msg: error.statusMessage || "删除角色失败",
+    };
+  }
+});
@@ -0,0 +1,26 @@
+import { updateCustomRole } from "~/server/services/auth/permissions.js";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  const user = await requirePermission(event, "roles.manage");
+  const key = getRouterParam(event, "key") || "";
+
+  try {
+    const body = await readBody(event);
+    const role = await updateCustomRole(key, body || {}, { actorPermissions: user.permissions });
+
+    return {
+      code: 200,
+      msg: "角色已保存，权限变更会在 30 秒内生效",
+      data: role,
+    };
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("更新角色失败:", error);
+    }
+    return {
+      code: error.statusCode || 500,
+      msg: error.statusMessage || "更新角色失败",
+    };
+  }
+});
@@ -0,0 +1,25 @@
+import { listRoles } from "~/server/services/auth/permissions.js";
+import { requirePermission } from "~/server/utils/auth";
+import { ADMIN_PERMISSIONS } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  await requirePermission(event, ["roles.manage", "users.manage"]);
+
+  try {
+    const roles = await listRoles();
+
+    return {
+      code: 200,
+      data: {
+        roles,
+        permissions: ADMIN_PERMISSIONS,
+      },
+    };
+  } catch (error) {
+    console.error("获取角色列表失败:", error);
+    return {
+      code: 500,
+      msg: "获取角色列表失败",
+    };
+  }
+});
@@ -0,0 +1,25 @@
+import { createCustomRole } from "~/server/services/auth/permissions.js";
+import { requirePermission } from "~/server/utils/auth";
+
+export default defineEventHandler(async (event) => {
+  const user = await requirePermission(event, "roles.manage");
+
+  try {
+    const body = await readBody(event);
+    const role = await createCustomRole(body || {}, { actorPermissions: user.permissions });
+
+    return {
+      code: 200,
+      msg: "角色创建成功",
+      data: role,
+    };
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("创建角色失败:", error);
+    }
+    return {
+      code: error.statusCode || 500,
+      msg: error.statusMessage || "创建角色失败",
+    };
+  }
+});
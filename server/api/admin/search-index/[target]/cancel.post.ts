@@ -0,0 +1,30 @@
+import { verifyToken } from '~/server/model/user'
+import { cancelSearchReindex } from "~/server/services/search/searchReindexJobs.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    try {
+        const job = cancelSearchReindex(getRouterParam(event, 'target') || '')
+
+        return {
+            code: 200,
+            msg: '正在取消',
+            data: job
+        }
+    } catch (error: any) {
+        throw createError({
+            statusCode: error.statusCode || 500,
+            message: error.message || '取消重建失败'
+        })
+    }
+})
@@ -0,0 +1,31 @@
+import { verifyToken } from '~/server/model/user'
+import { startSearchReindex } from "~/server/services/search/searchReindexJobs.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    try {
+        const job = await startSearchReindex(getRouterParam(event, 'target') || '')
+
+        return {
+            code: 200,
+            msg: '已开始重建',
+            data: job
+        }
+    } catch (error: any) {
+        console.error('启动搜索索引重建失败:', error)
+        throw createError({
+            statusCode: error.statusCode || 500,
+            message: error.message || '启动搜索索引重建失败'
+        })
+    }
+})
@@ -0,0 +1,36 @@
+import { verifyToken } from '~/server/model/user'
+import { rollbackSearchIndex } from "~/server/services/search/searchReindexJobs.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const body = await readBody(event)
+
+    try {
+        const result = await rollbackSearchIndex(
+            getRouterParam(event, 'target') || '',
+            String(body?.index || '')
+        )
+
+        return {
+            code: 200,
+            msg: '已切换索引版本',
+            data: result
+        }
+    } catch (error: any) {
+        console.error('回滚搜索索引失败:', error)
+        throw createError({
+            statusCode: error.statusCode || 500,
+            message: error.message || '回滚搜索索引失败'
+        })
+    }
+})
@@ -0,0 +1,38 @@
+import { verifyToken } from '~/server/model/user'
+import {
+    SEARCH_REINDEX_TARGETS,
+    getSearchIndexStatus,
+} from "~/server/services/search/searchReindexJobs.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const data = await Promise.all(
+        Object.keys(SEARCH_REINDEX_TARGETS).map(async (target) => {
+            try {
+                return await getSearchIndexStatus(target)
+            } catch (error: any) {
+                // 某个索引未配置或 ES 不可用时，其余索引照常展示
+                return {
+                    target,
+                    label: SEARCH_REINDEX_TARGETS[target as keyof typeof SEARCH_REINDEX_TARGETS].label,
+                    error: error?.message || '获取索引状态失败'
+                }
+            }
+        })
+    )
+
+    return {
+        code: 200,
+        data
+    }
+})
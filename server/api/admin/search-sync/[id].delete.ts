@@ -0,0 +1,30 @@
+import { verifyToken } from '~/server/model/user'
+import { discardSearchSyncEvent } from "~/server/services/search/searchSyncOutbox.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    try {
+        await discardSearchSyncEvent(getRouterParam(event, 'id'))
+
+        return {
+            code: 200,
+            msg: '已丢弃同步事件',
+            data: null
+        }
+    } catch (error: any) {
+        throw createError({
+            statusCode: error.statusCode || 500,
+            message: error.message || '丢弃同步事件失败'
+        })
+    }
+})
@@ -0,0 +1,36 @@
+import { verifyToken } from '~/server/model/user'
+import {
+    getSearchSyncOverview,
+    listSearchSyncEvents,
+} from "~/server/services/search/searchSyncOutbox.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const query = getQuery(event)
+    const [overview, events] = await Promise.all([
+        getSearchSyncOverview(),
+        listSearchSyncEvents({
+            status: String(query.status || ''),
+            page: Number(query.page) || 1,
+            pageSize: Number(query.pageSize) || 20
+        })
+    ])
+
+    return {
+        code: 200,
+        data: {
+            ...overview,
+            events
+        }
+    }
+})
@@ -0,0 +1,33 @@
+import { verifyToken } from '~/server/model/user'
+import { reconcileSearchIndex } from "~/server/services/search/searchSyncOutbox.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const body = await readBody(event)
+
+    try {
+        const result = await reconcileSearchIndex(String(body?.target || ''))
+
+        return {
+            code: 200,
+            msg: '对账完成，差异已加入同步队列',
+            data: result
+        }
+    } catch (error: any) {
+        console.error('ES 索引对账失败:', error)
+        throw createError({
+            statusCode: error.statusCode || 500,
+            message: error.message || 'ES 索引对账失败'
+        })
+    }
+})
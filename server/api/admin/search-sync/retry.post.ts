@@ -0,0 +1,26 @@
+import { verifyToken } from '~/server/model/user'
+import { retrySearchSyncEvents } from "~/server/services/search/searchSyncOutbox.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const token = getHeader(event, 'authorization')?.split(' ')[1]
+    const user = token ? verifyToken(token) : null
+
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            message: '无权限访问'
+        })
+    }
+
+    const body = await readBody(event)
+    // 不传 ids 时重试全部失败事件
+    const ids = Array.isArray(body?.ids) ? body.ids : undefined
+    const count = await retrySearchSyncEvents({ ids })
+
+    return {
+        code: 200,
+        msg: `已重新排队 ${count} 条同步事件`,
+        data: { count }
+    }
+})
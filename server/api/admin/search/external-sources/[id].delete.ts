@@ -0,0 +1,41 @@
+import prisma from "~/lib/prisma";
+import { clearExternalPanSourceCache } from "~/server/services/search/externalPanSourceRecords.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "无权限访问",
+    });
+  }
+
+  const id = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(id)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "搜索源 ID 不正确",
+    });
+  }
+
+  const existing = await prisma.externalPanSource.findUnique({
+    where: { id },
+  });
+  if (!existing) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: "外部搜索源不存在",
+    });
+  }
+
+  await prisma.externalPanSource.delete({
+    where: { id },
+  });
+  clearExternalPanSourceCache();
+
+  return {
+    code: 200,
+    msg: "外部搜索源已删除",
+  };
+});
@@ -0,0 +1,63 @@
+import prisma from "~/lib/prisma";
+import {
+  clearExternalPanSourceCache,
+  normalizeExternalPanSourceInput,
+} from "~/server/services/search/externalPanSourceRecords.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "无权限访问",
+    });
+  }
+
+  const id = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(id)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "搜索源 ID 不正确",
+    });
+  }
+
+  const existing = await prisma.externalPanSource.findUnique({
+    where: { id },
+  });
+  if (!existing) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: "外部搜索源不存在",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const data = normalizeExternalPanSourceInput(body, existing);
+
+    const source = await prisma.externalPanSource.update({
+      where: { id },
+      data,
+    });
+    clearExternalPanSourceCache();
+
+    return {
+      code: 200,
+      msg: "外部搜索源已更新",
+      data: source,
+    };
+  } catch (error: any) {
+    if (error.code === "P2002") {
+      throw createError({
+        statusCode: 409,
+        statusMessage: "搜索源标识已存在",
+      });
+    }
+
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "更新外部搜索源失败",
+    });
+  }
+});
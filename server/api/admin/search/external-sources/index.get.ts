@@ -0,0 +1,40 @@
+import {
+  DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS,
+  EXTERNAL_PAN_PARSER_TYPES,
+  EXTERNAL_PAN_SOURCE_DEFAULTS,
+} from "~/server/services/search/externalPanSources.mjs";
+import { listExternalPanSources } from "~/server/services/search/externalPanSourceRecords.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "无权限访问",
+    });
+  }
+
+  try {
+    const sources = await listExternalPanSources();
+
+    return {
+      code: 200,
+      msg: "获取成功",
+      data: {
+        sources,
+        // 表为空时前台仍在使用内置搜索源，页面上提示管理员
+        usingBuiltInDefaults: sources.length === 0,
+        builtInCount: DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS.length,
+        parserTypes: EXTERNAL_PAN_PARSER_TYPES,
+        defaults: EXTERNAL_PAN_SOURCE_DEFAULTS,
+      },
+    };
+  } catch (error) {
+    console.error("获取外部搜索源失败:", error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: "获取外部搜索源失败",
+    });
+  }
+});
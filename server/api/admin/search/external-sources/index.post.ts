@@ -0,0 +1,44 @@
+import prisma from "~/lib/prisma";
+import {
+  clearExternalPanSourceCache,
+  normalizeExternalPanSourceInput,
+} from "~/server/services/search/externalPanSourceRecords.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "无权限访问",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const data = normalizeExternalPanSourceInput(body);
+
+    const source = await prisma.externalPanSource.create({
+      data,
+    });
+    clearExternalPanSourceCache();
+
+    return {
+      code: 200,
+      msg: "外部搜索源已创建",
+      data: source,
+    };
+  } catch (error: any) {
+    if (error.code === "P2002") {
+      throw createError({
+        statusCode: 409,
+        statusMessage: "搜索源标识已存在",
+      });
+    }
+
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "创建外部搜索源失败",
+    });
+  }
+});
@@ -0,0 +1,67 @@
+import prisma from "~/lib/prisma";
+import {
+  runExternalPanSourceTest,
+  toExternalPanSourceConfig,
+} from "~/server/services/search/externalPanSources.mjs";
+import { normalizeExternalPanSourceInput } from "~/server/services/search/externalPanSourceRecords.mjs";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+const MAX_SAMPLE_LENGTH = 2 * 1024 * 1024;
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "无权限访问",
+    });
+  }
+
+  const body = await readBody(event);
+  const keyword = String(body?.keyword || "").trim();
+  const sampleText = typeof body?.sample === "string" ? body.sample : "";
+  if (!keyword) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "请输入测试关键词",
+    });
+  }
+
+  if (sampleText.length > MAX_SAMPLE_LENGTH) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "样本内容不能超过 2MB",
+    });
+  }
+
+  const id = Number(body?.id);
+  const existing =
+    Number.isFinite(id) && id > 0
+      ? await prisma.externalPanSource.findUnique({ where: { id } })
+      : null;
+
+  let definition;
+  try {
+    // 编辑中的表单也可以直接测试，不必先保存
+    definition = normalizeExternalPanSourceInput(body?.source || {}, existing);
+  } catch (error: any) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error.message || "搜索源配置不正确",
+    });
+  }
+
+  const result = await runExternalPanSourceTest(toExternalPanSourceConfig(definition), keyword, {
+    sampleText,
+  });
+
+  return {
+    code: result.ok ? 200 : 502,
+    msg: result.ok ? `解析到 ${result.items.length} 条结果` : result.error,
+    data: {
+      ...result,
+      searchUrl: toExternalPanSourceConfig(definition).searchUrl(keyword),
+      mode: sampleText ? "sample" : "live",
+    },
+  };
+});
@@ -0,0 +1,29 @@
+import { getSearchSourceHealthReport } from "~/server/services/search/sourceHealth.mjs";
+import { getAllSearchSourceIds } from "~/server/utils/searchSources";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const user = event.context.user;
+    if (!user || !hasPermission(user.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            statusMessage: '无权限访问'
+        });
+    }
+
+    try {
+        const data = await getSearchSourceHealthReport(getAllSearchSourceIds());
+
+        return {
+            code: 200,
+            msg: '获取成功',
+            data
+        };
+    } catch (error) {
+        console.error('获取搜索源健康状态失败:', error);
+        throw createError({
+            statusCode: 500,
+            statusMessage: '获取搜索源健康状态失败'
+        });
+    }
+});
@@ -0,0 +1,31 @@
+import { resetSearchSourceHealth } from "~/server/services/search/sourceHealth.mjs";
+import { getAllSearchSourceIds } from "~/server/utils/searchSources";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+    const user = event.context.user;
+    if (!user || !hasPermission(user.permissions, 'search.manage')) {
+        throw createError({
+            statusCode: 403,
+            statusMessage: '无权限访问'
+        });
+    }
+
+    const body = await readBody(event);
+    const sourceId = String(body?.source || '');
+
+    if (!getAllSearchSourceIds().includes(sourceId)) {
+        throw createError({
+            statusCode: 400,
+            statusMessage: '搜索源不存在'
+        });
+    }
+
+    await resetSearchSourceHealth(sourceId);
+
+    return {
+        code: 200,
+        msg: '已重置搜索源熔断状态',
+        data: { source: sourceId }
+    };
+});
@@ -2,11 +2,13 @@ import {
   getFeatureAccessConfig,
   saveFeatureAccessConfig,
 } from "~/server/utils/featureAccess";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
 
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -33,7 +35,15 @@ export default defineEventHandler(async (event) => {
   if (event.method === "POST") {
     try {
       const body = await readBody(event);
+      const previous = await getFeatureAccessConfig();
       const config = await saveFeatureAccessConfig(body);
+      setAdminAudit(event, {
+        action: "settings.update",
+        targetType: "settings",
+        targetId: "access-control",
+        before: previous,
+        after: config,
+      });
 
       return {
         code: 200,
@@ -2,11 +2,13 @@ import {
   getEmailServiceConfigForAdmin,
   saveEmailServiceConfig,
 } from "~/server/services/email/resend";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
 
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -35,8 +37,16 @@ export default defineEventHandler(async (event) => {
   if (event.method === "POST") {
     try {
       const body = await readBody(event);
+      const previous = await getEmailServiceConfigForAdmin();
 
       await saveEmailServiceConfig(body);
+      setAdminAudit(event, {
+        action: "settings.update",
+        targetType: "settings",
+        targetId: "email",
+        before: previous,
+        after: await getEmailServiceConfigForAdmin(),
+      });
 
       return {
         code: 200,
@@ -1,4 +1,5 @@
 import { sendEmailMessage } from "~/server/services/email/resend";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const isValidEmail = (value?: string) => {
   if (!value) {
@@ -11,7 +12,7 @@ const isValidEmail = (value?: string) => {
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
 
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -1,4 +1,6 @@
 import prisma from '~/lib/prisma'
+import { setAdminAudit } from '~/server/utils/adminAudit'
+import { hasPermission } from '~/utils/adminPermissions.js'
 
 const DEFAULT_CONFIG = {
     enabled: true,
@@ -12,7 +14,7 @@ const DEFAULT_CONFIG = {
 export default defineEventHandler(async (event) => {
     // 验证管理员权限
     const user = event.context.user;
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(user.permissions, 'settings.write')) {
         return {
             code: 403,
             msg: '无权限访问'
@@ -88,6 +90,18 @@ export default defineEventHandler(async (event) => {
                 qrCodeUrl: body.qrCodeUrl?.trim() || ''
             };
 
+            const previous = await prisma.systemSettings.findUnique({
+                where: {
+                    key: 'group_qr_config'
+                }
+            });
+            let previousConfig: unknown = previous?.value ?? null;
+            try {
+                previousConfig = previous ? { ...DEFAULT_CONFIG, ...JSON.parse(previous.value) } : null;
+            } catch {
+                // 旧值损坏时按原文记录
+            }
+
             await prisma.systemSettings.upsert({
                 where: {
                     key: 'group_qr_config'
@@ -105,6 +119,14 @@ export default defineEventHandler(async (event) => {
                 }
             });
 
+            setAdminAudit(event, {
+                action: 'settings.update',
+                targetType: 'settings',
+                targetId: 'group-qr',
+                before: previousConfig,
+                after: normalizedConfig
+            });
+
             return {
                 code: 200,
                 msg: '配置保存成功'
@@ -3,6 +3,8 @@ import {
   getModerationConfig,
   saveModerationConfig,
 } from "~/server/utils/moderation";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const buildModerationResponse = (config: Awaited<ReturnType<typeof getModerationConfig>>) => ({
   ...config,
@@ -12,7 +14,7 @@ const buildModerationResponse = (config: Awaited<ReturnType<typeof getModeration
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
 
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -39,7 +41,15 @@ export default defineEventHandler(async (event) => {
   if (event.method === "POST") {
     try {
       const body = await readBody(event);
+      const previous = await getModerationConfig();
       const config = await saveModerationConfig(body);
+      setAdminAudit(event, {
+        action: "settings.update",
+        targetType: "settings",
+        targetId: "moderation",
+        before: previous,
+        after: config,
+      });
 
       return {
         code: 200,
@@ -3,13 +3,14 @@ import {
   MODERATION_CONTEXTS,
   summarizeModerationDecision,
 } from "~/server/utils/moderation";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const ADMIN_CONTEXTS = new Set(Object.values(MODERATION_CONTEXTS));
 
 export default defineEventHandler(async (event) => {
   const user = event.context.user;
 
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -1,9 +1,11 @@
 import prisma from '~/lib/prisma'
+import { setAdminAudit } from '~/server/utils/adminAudit'
+import { hasPermission } from '~/utils/adminPermissions.js'
 
 export default defineEventHandler(async (event) => {
     // 验证管理员权限
     const user = event.context.user;
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(user.permissions, 'settings.write')) {
         return {
             code: 403,
             msg: '无权限访问'
@@ -47,6 +49,12 @@ export default defineEventHandler(async (event) => {
                 };
             }
 
+            const previous = await prisma.systemSettings.findUnique({
+                where: {
+                    key: 'music_password'
+                }
+            });
+
             await prisma.systemSettings.upsert({
                 where: {
                     key: 'music_password'
@@ -66,6 +74,14 @@ export default defineEventHandler(async (event) => {
                 }
             });
 
+            setAdminAudit(event, {
+                action: 'settings.update',
+                targetType: 'settings',
+                targetId: 'music',
+                before: previous ? { password: previous.value, enabled: previous.isEnabled } : null,
+                after: { password, enabled: enabled ?? true }
+            });
+
             return {
                 code: 200,
                 msg: '配置保存成功'
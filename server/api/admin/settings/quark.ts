@@ -3,11 +3,13 @@ import {
   getStoredQuarkConfig,
   saveQuarkConfig,
 } from "~/server/services/quark/quarkSettingsStore";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   // 验证管理员权限
   const user = event.context.user;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "settings.write")) {
     return {
       code: 403,
       msg: "无权限访问",
@@ -36,6 +38,13 @@ export default defineEventHandler(async (event) => {
       const normalizedConfig = mergeQuarkConfigUpdate(storedConfig, body);
 
       await saveQuarkConfig(normalizedConfig);
+      setAdminAudit(event, {
+        action: "settings.update",
+        targetType: "settings",
+        targetId: "quark",
+        before: storedConfig,
+        after: normalizedConfig,
+      });
 
       return {
         code: 200,
@@ -0,0 +1,66 @@
+import {
+  getSearchSynonymRules,
+  saveSearchSynonymRules,
+} from "~/server/services/search/searchSynonyms.js";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+
+  if (!user || !hasPermission(user.permissions, "search.manage")) {
+    return {
+      code: 403,
+      msg: "无权限访问",
+    };
+  }
+
+  if (event.method === "GET") {
+    try {
+      const rules = await getSearchSynonymRules();
+
+      return {
+        code: 200,
+        data: { rules },
+      };
+    } catch (error) {
+      console.error("获取同义词词典失败:", error);
+      return {
+        code: 500,
+        msg: "获取同义词词典失败",
+      };
+    }
+  }
+
+  if (event.method === "POST") {
+    try {
+      const body = await readBody(event);
+      const previous = await getSearchSynonymRules();
+      const { rules, synced } = await saveSearchSynonymRules(body?.rules);
+      setAdminAudit(event, {
+        action: "settings.update",
+        targetType: "settings",
+        targetId: "search-synonyms",
+        before: { rules: previous },
+        after: { rules },
+      });
+
+      return {
+        code: 200,
+        msg: synced ? "同义词词典保存成功" : "同义词词典已保存，但同步到 ES 失败，请稍后重试",
+        data: { rules, synced },
+      };
+    } catch (error) {
+      console.error("保存同义词词典失败:", error);
+      return {
+        code: 500,
+        msg: "保存同义词词典失败",
+      };
+    }
+  }
+
+  return {
+    code: 405,
+    msg: "方法不允许",
+  };
+});
@@ -2,11 +2,19 @@
 import prisma from "~/lib/prisma";
 import { sendVerificationEmail } from "~/server/services/email/emailVerification";
 import { getEmailServiceConfig } from "~/server/services/email/resend";
+import {
+  assertCanAssignRole,
+  assertCanManageUser,
+} from "~/server/services/auth/permissions.js";
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   // 检查认证和权限
   const { user } = event.context;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "users.manage")) {
     throw createError({
       statusCode: 403,
       message: "没有权限访问此资源",
@@ -105,6 +113,7 @@ export default defineEventHandler(async (event) => {
           username: true,
           email: true,
           role: true,
+          status: true,
           isVerified: true,
           emailVerificationRequired: true,
         },
@@ -118,6 +127,15 @@ export default defineEventHandler(async (event) => {
       }
 
       const normalizedRole = role || currentUser.role;
+      await assertCanManageUser({
+        actorPermissions: user.permissions,
+        targetRole: currentUser.role,
+      });
+      await assertCanAssignRole({
+        actorPermissions: user.permissions,
+        fromRole: currentUser.role,
+        toRole: normalizedRole,
+      });
       const emailChanged = currentUser.email !== email;
       const emailConfig = await getEmailServiceConfig();
       const shouldRequireReverification =
@@ -144,10 +162,36 @@ export default defineEventHandler(async (event) => {
           id: true,
           username: true,
           email: true,
+          role: true,
+          status: true,
           isVerified: true,
         },
       });
 
+      setAdminAudit(event, {
+        action: "users.update",
+        before: {
+          username: currentUser.username,
+          email: currentUser.email,
+          role: currentUser.role,
+          status: currentUser.status,
+        },
+        after: {
+          username: result.username,
+          email: result.email,
+          role: result.role,
+          status: result.status,
+        },
+      });
+
+      // 禁用账号时立即吊销该用户的所有登录会话
+      if (status === "disabled") {
+        await revokeSessionsAndDisconnect({
+          userId: parseInt(id),
+          reason: USER_SESSION_REVOKE_REASONS.userDisabled,
+        });
+      }
+
       let message = "用户信息更新成功";
 
       if (shouldRequireReverification) {
@@ -193,6 +237,26 @@ export default defineEventHandler(async (event) => {
         });
       }
 
+      const targetUser = await prisma.user.findUnique({
+        where: { id: parseInt(id) },
+        select: { role: true },
+      });
+      if (!targetUser) {
+        throw createError({
+          statusCode: 404,
+          message: "用户不存在",
+        });
+      }
+      await assertCanManageUser({
+        actorPermissions: user.permissions,
+        targetRole: targetUser.role,
+      });
+
+      await revokeSessionsAndDisconnect({
+        userId: parseInt(id),
+        reason: USER_SESSION_REVOKE_REASONS.userDeleted,
+      });
+
       const result = await prisma.user.delete({
         where: { id: parseInt(id) },
       });
@@ -3,6 +3,7 @@ import {
   decoratePointsHistory,
   getUserPointsBreakdown,
 } from "~/server/services/points/userPoints";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const POINT_TYPE_NAMES: Record<string, string> = {
   checkin: "每日签到",
@@ -15,11 +16,15 @@ const POINT_TYPE_NAMES: Record<string, string> = {
   registration_gift: "注册礼包",
   redemption: "兑换码奖励",
   daily_redemption_drop: "每日福利",
+  resource_request_bounty: "求资源悬赏",
+  resource_request_reward: "求资源赏金",
+  resource_request_refund: "悬赏退还",
+  forum_reputation: "论坛声望",
 };
 
 export default defineEventHandler(async (event) => {
   const { user } = event.context;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "users.manage")) {
     throw createError({
       statusCode: 403,
       message: "没有权限访问此资源",
@@ -1,10 +1,14 @@
 // 处理用户状态切换
 import prisma from "~/lib/prisma";
+import { assertCanManageUser } from "~/server/services/auth/permissions.js";
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   // 检查认证和权限
   const { user } = event.context;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "users.manage")) {
     throw createError({
       statusCode: 403,
       message: "没有权限访问此资源",
@@ -49,6 +53,21 @@ export default defineEventHandler(async (event) => {
       });
     }
 
+    const targetUser = await prisma.user.findUnique({
+      where: { id: parseInt(id) },
+      select: { role: true },
+    });
+    if (!targetUser) {
+      throw createError({
+        statusCode: 404,
+        message: "用户不存在",
+      });
+    }
+    await assertCanManageUser({
+      actorPermissions: user.permissions,
+      targetRole: targetUser.role,
+    });
+
     // 更新状态
     await prisma.user.update({
       where: { id: parseInt(id) },
@@ -58,6 +77,14 @@ export default defineEventHandler(async (event) => {
       },
     });
 
+    // 禁用后立即吊销所有登录会话，已连接的 socket 一并断开
+    if (status === "disabled") {
+      await revokeSessionsAndDisconnect({
+        userId: parseInt(id),
+        reason: USER_SESSION_REVOKE_REASONS.userDisabled,
+      });
+    }
+
     return {
       code: 200,
       message: `用户状态已更新为${status === "active" ? "活跃" : "禁用"}`,
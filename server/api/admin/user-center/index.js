@@ -3,12 +3,14 @@ import prisma from "~/lib/prisma";
 import { sendVerificationEmail } from "~/server/services/email/emailVerification";
 import { getEmailServiceConfig } from "~/server/services/email/resend";
 import { getUserPointsBreakdown } from "~/server/services/points/userPoints";
+import { assertCanAssignRole } from "~/server/services/auth/permissions.js";
 import { hashPassword } from "~/server/utils/password";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   // 检查认证和权限
   const { user } = event.context;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "users.manage")) {
     throw createError({
       statusCode: 403,
       message: "没有权限访问此资源",
@@ -120,6 +122,13 @@ export default defineEventHandler(async (event) => {
         });
       }
 
+      // 创建非普通用户等同于分配角色
+      await assertCanAssignRole({
+        actorPermissions: user.permissions,
+        fromRole: "user",
+        toRole: role || "user",
+      });
+
       // 检查用户名或邮箱是否已存在
       const existingUser = await prisma.user.findFirst({
         where: {
@@ -1,10 +1,11 @@
 // 获取用户统计信息
 import prisma from "~/lib/prisma";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
   // 检查认证和权限
   const { user } = event.context;
-  if (!user || user.role !== "admin") {
+  if (!user || !hasPermission(user.permissions, "dashboard.view")) {
     throw createError({
       statusCode: 403,
       message: "没有权限访问此资源",
@@ -1,12 +1,13 @@
 import { verifyToken } from '~/server/model/user'
 import prisma from "~/lib/prisma";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     // 验证管理员权限
     const token = getHeader(event, 'authorization')?.split(' ')[1]
     const user = token ? verifyToken(token) : null
     
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(event.context.user?.permissions, 'content.review')) {
         throw createError({
             statusCode: 403,
             message: '无权限访问'
@@ -1,16 +1,15 @@
 import { verifyToken } from '~/server/model/user'
 import prisma from "~/lib/prisma";
-import {
-    removePublishedUserResource,
-    syncPublishedUserResource,
-} from "~/server/services/search/elasticsearchClient.js";
+import { enqueueSearchSync } from "~/server/services/search/searchSyncOutbox.js";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     // 验证管理员权限
     const token = getHeader(event, 'authorization')?.split(' ')[1]
     const user = token ? verifyToken(token) : null
     
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(event.context.user?.permissions, 'resources.review')) {
         throw createError({
             statusCode: 403,
             message: '无权限访问'
@@ -55,51 +54,39 @@ export default defineEventHandler(async (event) => {
 
     const previousStatus = existingResource.status
 
-    const resource = await prisma.userResource.update({
-        where: { id },
-        data: { status },
-        include: {
-            creator: {
-                select: {
-                    id: true,
-                    username: true,
-                    email: true
-                }
-            },
-            type: true
-        }
-    })
-
-    const shouldIndex = status === 'published'
-    const shouldDelete = previousStatus === 'published' && status !== 'published'
+    // 只有进出已发布状态才影响搜索索引，同步事件与状态变更同一事务提交
+    const affectsIndex = previousStatus === 'published' || status === 'published'
 
-    if (!shouldIndex && !shouldDelete) {
-        return resource
-    }
+    const resource = await prisma.$transaction(async (tx: any) => {
+        const updated = await tx.userResource.update({
+            where: { id },
+            data: { status },
+            include: {
+                creator: {
+                    select: {
+                        id: true,
+                        username: true,
+                        email: true
+                    }
+                },
+                type: true
+            }
+        })
 
-    try {
-        if (shouldIndex) {
-            await syncPublishedUserResource(resource)
-        } else {
-            await removePublishedUserResource(resource.id)
+        if (affectsIndex) {
+            await enqueueSearchSync(tx, { target: 'user-resources', entityId: id })
         }
-    } catch (error) {
-        console.error('同步资源搜索索引失败:', error)
 
-        try {
-            await prisma.userResource.update({
-                where: { id },
-                data: { status: previousStatus }
-            })
-        } catch (rollbackError) {
-            console.error('回滚资源状态失败:', rollbackError)
-        }
+        return updated
+    })
 
-        throw createError({
-            statusCode: 500,
-            message: '资源状态更新失败，搜索索引同步未完成'
-        })
-    }
+    setAdminAudit(event, {
+        action: 'user-resources.status',
+        targetType: 'user-resources',
+        targetId: id,
+        before: { status: previousStatus },
+        after: { status }
+    })
 
     return resource
 })
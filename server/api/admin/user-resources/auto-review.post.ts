@@ -1,5 +1,6 @@
 import { verifyToken } from '~/server/model/user'
 import { autoReviewPendingUserResources } from "~/server/services/userResources/autoReviewRunner.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const clampInt = (value: unknown, fallback: number, min: number, max: number) => {
     const parsed = Number.parseInt(String(value || ''), 10)
@@ -14,7 +15,7 @@ export default defineEventHandler(async (event) => {
     const token = getHeader(event, 'authorization')?.split(' ')[1]
     const user = token ? verifyToken(token) : null
 
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(event.context.user?.permissions, 'resources.review')) {
         throw createError({
             statusCode: 403,
             message: '无权限访问'
@@ -3,6 +3,7 @@ import {
     getUserResourceSearchIndexName,
     listIndexedUserResources,
 } from "~/server/services/search/elasticsearchClient.js";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 const toPositiveInt = (value: unknown, fallback: number) => {
     const parsed = Number.parseInt(String(value || ''), 10)
@@ -13,7 +14,7 @@ export default defineEventHandler(async (event) => {
     const token = getHeader(event, 'authorization')?.split(' ')[1]
     const user = token ? verifyToken(token) : null
 
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(event.context.user?.permissions, 'search.manage')) {
         throw createError({
             statusCode: 403,
             message: '无权限访问'
@@ -1,9 +1,10 @@
 import prisma from "~/lib/prisma";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     // 验证管理员权限
     const user = event.context.user;
-    if (!user || user.role !== 'admin') {
+    if (!user || !hasPermission(user.permissions, 'users.manage')) {
         return {
             code: 403,
             msg: '无权限访问'
@@ -1,4 +1,4 @@
-import { verifyToken } from '~/server/model/user'
+import { authenticateToken } from '~/server/model/user'
 import prisma from "~/lib/prisma";
 
 export default defineEventHandler(async (event) => {
@@ -14,7 +14,7 @@ export default defineEventHandler(async (event) => {
 
         // 检查是否是管理员
         const token = getHeader(event, 'authorization')?.split(' ')[1]
-        const user = token ? verifyToken(token) : null
+        const user = token ? await authenticateToken(token) : null
         const isAdmin = user?.userId != null // 如果能解析出 userId，说明是管理员
 
         // 获取请求体中的删除token
@@ -1,4 +1,5 @@
 import prisma from '~/lib/prisma'
+import { MENTION_SOURCE_TYPES, recordMentions } from '~/server/services/forum/mentions.mjs'
 
 // 发送一条聊天消息
 export default defineEventHandler(async (event) => {
@@ -157,6 +158,23 @@ export default defineEventHandler(async (event) => {
       })
       createdNotifications.push(notification)
     }
+
+    // 非公开聊天室只通知成员；私信对象已经收到私信通知，不再重复提醒
+    if ((type || 'text') === 'text') {
+      await recordMentions({
+        content: messageContent,
+        markdown: false,
+        sourceType: MENTION_SOURCE_TYPES.chatMessage,
+        sourceId: message.id,
+        actor: { id: user.userId, username: message.user?.username },
+        contextLabel: `聊天室 "${room.name}"`,
+        link: `/chat?roomId=${roomId}`,
+        allowedUserIds: room.isPublic ? undefined : room.users.map((member: any) => member.userId),
+        excludeUserIds: privateRecipients.map((member: any) => member.userId),
+        io: event.context.io,
+        prismaClient: prisma,
+      })
+    }
     
     // 通过 WebSocket 通知聊天室其他成员
     if (event.context.io) {
@@ -1,11 +1,11 @@
-import { verifyToken } from '~/server/model/user'
+import { authenticateToken } from '~/server/model/user'
 import prisma from "~/lib/prisma";
 
 export default defineEventHandler(async (event) => {
   try {
     // 验证用户是否已登录
     const { token } = parseCookies(event)
-    const decoded = token ? verifyToken(token) : null
+    const decoded = token ? await authenticateToken(token) : null
     if (!decoded || !decoded.userId) {
       throw createError({
         statusCode: 401,
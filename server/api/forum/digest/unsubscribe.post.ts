@@ -0,0 +1,24 @@
+import prisma from "~/lib/prisma";
+import { unsubscribeForumDigest } from "~/server/services/forum/subscriptions.mjs";
+
+// 邮件退订链接不要求登录，凭 token 操作
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+
+  try {
+    await unsubscribeForumDigest({ token: body?.token, prismaClient: prisma });
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("退订论坛摘要邮件失败:", error);
+    }
+    return {
+      success: false,
+      message: error.statusCode ? error.statusMessage : "退订失败，请稍后重试",
+    };
+  }
+
+  return {
+    success: true,
+    message: "已退订论坛摘要邮件，关注的内容仍会在站内提醒",
+  };
+});
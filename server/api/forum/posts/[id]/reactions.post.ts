@@ -0,0 +1,32 @@
+import prisma from "~/lib/prisma";
+import { toggleForumPostReaction } from "~/server/services/forum/reactions.mjs";
+import { requireForumUser } from "~/server/utils/forumAuth";
+
+export default defineEventHandler(async (event) => {
+  const user = await requireForumUser(event);
+  const { id } = getRouterParams(event);
+  const body = await readBody(event);
+
+  try {
+    const result = await toggleForumPostReaction({
+      postId: id,
+      userId: user.userId,
+      type: body?.type,
+      prismaClient: prisma,
+    });
+
+    return {
+      success: true,
+      message: result.reaction ? "已表态" : "已取消表态",
+      data: result,
+    };
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("论坛回复表态失败:", error);
+    }
+    throw createError({
+      statusCode: error.statusCode || 500,
+      statusMessage: error.statusCode ? error.statusMessage : "表态失败",
+    });
+  }
+});
@@ -0,0 +1,17 @@
+import { searchForum } from "~/server/services/forum/forumSearch.mjs";
+
+// 论坛全文搜索：q 为关键词，可按 categoryId、author（用户名）、from/to（日期）和 type（all/topics/posts）筛选
+export default defineEventHandler(async (event) => {
+    try {
+        return {
+            success: true,
+            data: await searchForum(getQuery(event))
+        }
+    } catch (error) {
+        console.error('论坛搜索失败:', error)
+        return {
+            success: false,
+            message: '论坛搜索失败'
+        }
+    }
+})
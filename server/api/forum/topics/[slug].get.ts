@@ -1,5 +1,8 @@
 import prisma from "~/lib/prisma"
 import { FORUM_TOPIC_PUBLIC_STATUS } from "~/server/services/forum/topicTrash.mjs";
+import { loadForumPostReactions } from "~/server/services/forum/reactions.mjs";
+import { getForumFollowState } from "~/server/services/forum/subscriptions.mjs";
+import { getOptionalForumUser } from "~/server/utils/forumAuth";
 
 // 定义回复类型接口
 interface PostWithChildren extends Omit<any, 'children'> {
@@ -32,6 +35,7 @@ export default defineEventHandler(async (event) => {
                         id: true,
                         username: true,
                         avatarStyle: true,
+                        forumReputation: true,
                         createdAt: true,
                     }
                 },
@@ -71,6 +75,7 @@ export default defineEventHandler(async (event) => {
                         id: true,
                         username: true,
                         avatarStyle: true,
+                        forumReputation: true,
                         createdAt: true,
                     }
                 }
@@ -79,6 +84,48 @@ export default defineEventHandler(async (event) => {
             take: pageSize,
         })
 
+        // 被采纳的最佳答案单独返回，置顶显示在主题下方
+        const acceptedPost = topic.acceptedPostId
+            ? await prisma.forumPost.findFirst({
+                where: {
+                    id: topic.acceptedPostId,
+                    status: 'approved'
+                },
+                include: {
+                    author: {
+                        select: {
+                            id: true,
+                            username: true,
+                            avatarStyle: true,
+                            forumReputation: true,
+                            createdAt: true,
+                        }
+                    }
+                }
+            })
+            : null
+
+        // 附加表态数和当前用户的表态
+        const viewer = await getOptionalForumUser(event)
+        const reactions = await loadForumPostReactions({
+            postIds: [...posts.map((post: any) => post.id), acceptedPost?.id],
+            viewerId: viewer?.userId,
+            prismaClient: prisma,
+        })
+        const withReactions = (post: any) => {
+            const summary = reactions.get(post.id)
+            post.reactions = summary?.counts
+            post.viewerReaction = summary?.viewerReaction || null
+            return post
+        }
+        posts.forEach(withReactions)
+        const followState = await getForumFollowState({
+            userId: viewer?.userId,
+            topicId: topic.id,
+            categoryId: null,
+            prismaClient: prisma,
+        })
+
         // 构建回复树结构
         const rootPosts: PostWithChildren[] = []
         const replyMap = new Map<string, PostWithChildren>()
@@ -112,6 +159,8 @@ export default defineEventHandler(async (event) => {
             success: true,
             data: {
                 topic,
+                acceptedPost: acceptedPost ? withReactions(acceptedPost) : null,
+                following: followState.topic,
                 posts: rootPosts,
                 pagination: {
                     total,
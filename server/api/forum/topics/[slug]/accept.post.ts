@@ -0,0 +1,32 @@
+import prisma from "~/lib/prisma";
+import { setForumAcceptedAnswer } from "~/server/services/forum/reactions.mjs";
+import { requireForumUser } from "~/server/utils/forumAuth";
+
+export default defineEventHandler(async (event) => {
+  const user = await requireForumUser(event);
+  const { slug } = getRouterParams(event);
+  const body = await readBody(event);
+
+  try {
+    const result = await setForumAcceptedAnswer({
+      slug: slug ? decodeURI(slug) : "",
+      postId: body?.postId ?? null,
+      userId: user.userId,
+      prismaClient: prisma,
+    });
+
+    return {
+      success: true,
+      message: result.acceptedPostId ? "已采纳为最佳答案" : "已取消采纳",
+      data: result,
+    };
+  } catch (error: any) {
+    if (!error.statusCode) {
+      console.error("采纳最佳答案失败:", error);
+    }
+    throw createError({
+      statusCode: error.statusCode || 500,
+      statusMessage: error.statusCode ? error.statusMessage : "操作失败",
+    });
+  }
+});
@@ -1,4 +1,5 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 
 export default defineEventHandler(async (event) => {
     try {
@@ -13,7 +14,7 @@ export default defineEventHandler(async (event) => {
         }
 
         // 检查是否有管理员或版主权限
-        if (user.role !== 'ADMIN' && user.role !== 'MODERATOR') {
+        if (!hasPermission(user.permissions, 'forum.moderate')) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
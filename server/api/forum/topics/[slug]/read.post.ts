@@ -5,7 +5,7 @@ import { FORUM_TOPIC_PUBLIC_STATUS } from "~/server/services/forum/topicTrash.mj
 
 export default defineEventHandler(async (event) => {
   try {
-    const user = requireForumUser(event);
+    const user = await requireForumUser(event);
     const { slug } = getRouterParams(event);
 
     if (!slug) {
@@ -1,4 +1,5 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 import {
     evaluateModerationWithConfig,
     MODERATION_CONTEXTS,
@@ -6,6 +7,7 @@ import {
 } from "~/server/utils/moderation";
 import { updateForumReadStatesForApprovedReply } from "~/server/services/forum/readStates.mjs";
 import { FORUM_TOPIC_PUBLIC_STATUS } from "~/server/services/forum/topicTrash.mjs";
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs";
 
 export default defineEventHandler(async (event) => {
     try {
@@ -74,7 +76,7 @@ export default defineEventHandler(async (event) => {
             }
         }
 
-        const status = user.role === 'admin' || !moderation.needsReview
+        const status = hasPermission(user.permissions, 'forum.moderate') || !moderation.needsReview
             ? 'approved'
             : 'pending';
 
@@ -174,6 +176,20 @@ export default defineEventHandler(async (event) => {
         });
 
         const io = event.context.io;
+
+        // 已经收到回复通知的用户只记录提及，不再重复通知
+        await recordMentions({
+            content,
+            sourceType: MENTION_SOURCE_TYPES.forumPost,
+            sourceId: post.id,
+            actor: { id: user.userId, username: userData?.username },
+            contextLabel: `主题 "${topic.title}" 的回复`,
+            link: `/forum/topic/${topic.slug}`,
+            excludeUserIds: [...notifyUserIds],
+            io,
+            prismaClient: prisma,
+        });
+
         if (io) {
             for (const target of unreadTargets) {
                 io.to(`user:${target.userId}`).emit("forum:new_reply", target.payload);
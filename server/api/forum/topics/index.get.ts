@@ -51,7 +51,7 @@ export default defineEventHandler(async (event) => {
             skip: (page - 1) * pageSize,
             take: pageSize,
         })
-        const viewer = getOptionalForumUser(event)
+        const viewer = await getOptionalForumUser(event)
         // 登录用户会在每个主题上附加 viewerState，游客保持公共返回结构。
         const topics = await attachViewerStatesToTopics(rawTopics, viewer?.userId, prisma)
 
@@ -1,10 +1,13 @@
 import GithubSlugger from 'github-slugger'
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 import {
     evaluateModerationWithConfig,
     MODERATION_CONTEXTS,
     summarizeModerationDecision,
 } from "~/server/utils/moderation";
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs";
+import { updateForumReadStatesForNewTopic } from "~/server/services/forum/readStates.mjs";
 
 export default defineEventHandler(async (event) => {
     try {
@@ -61,7 +64,7 @@ export default defineEventHandler(async (event) => {
             slug = `${slug}-${Date.now().toString().slice(-6)}`
         }
 
-        const status = user.role === 'admin' || !moderation.needsReview
+        const status = hasPermission(user.permissions, 'forum.moderate') || !moderation.needsReview
             ? 'approved'
             : 'pending';
 
@@ -74,9 +77,27 @@ export default defineEventHandler(async (event) => {
                 authorId: user.userId,
                 categoryId: Number(categoryId),
                 status: status // 添加状态字段，非管理员创建的主题默认为待审核状态
+            },
+            include: {
+                author: { select: { id: true, username: true } }
             }
         })
 
+        // 待审核的主题在审核通过时再通知被提及的用户
+        if (status === 'approved') {
+            await recordMentions({
+                content: moderatedContent,
+                sourceType: MENTION_SOURCE_TYPES.forumTopic,
+                sourceId: topic.id,
+                actor: topic.author,
+                contextLabel: `主题 "${topic.title}"`,
+                link: `/forum/topic/${topic.slug}`,
+                io: event.context.io,
+                prismaClient: prisma,
+            })
+            await updateForumReadStatesForNewTopic({ topic, prismaClient: prisma })
+        }
+
         return {
             success: true,
             message: status === 'approved' ? '主题发布成功' : '主题已提交，等待审核',
@@ -1,11 +1,12 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 import GithubSlugger from 'github-slugger'
 
 export default defineEventHandler(async (event) => {
     try {
         // 检查管理员权限
         const user = event.context.user
-        if (!user || user.role !== 'admin') {
+        if (!user || !hasPermission(user.permissions, 'forum.moderate')) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -4,7 +4,7 @@ import { requireForumUser } from "~/server/utils/forumAuth";
 
 export default defineEventHandler(async (event) => {
   try {
-    const user = requireForumUser(event);
+    const user = await requireForumUser(event);
     const query = getQuery(event);
     const limit = query.limit ? parseInt(String(query.limit), 10) : 5;
     const summary = await getForumUnreadSummary({
@@ -7,7 +7,7 @@ import { requireForumUser } from "~/server/utils/forumAuth";
 
 export default defineEventHandler(async (event) => {
   try {
-    const user = requireForumUser(event);
+    const user = await requireForumUser(event);
     const result = await markAllParticipatingForumTopicsRead({
       userId: user.userId,
       prismaClient: prisma,
@@ -0,0 +1,80 @@
+import prisma from "~/lib/prisma"
+import { FORUM_TOPIC_PUBLIC_STATUS } from "~/server/services/forum/topicTrash.mjs";
+
+// 论坛用户公开主页，@提及链接指向这里
+export default defineEventHandler(async (event) => {
+    try {
+        const { username } = getRouterParams(event)
+        const name = decodeURIComponent(username || '').trim()
+
+        if (!name) {
+            return {
+                success: false,
+                message: '用户不存在'
+            }
+        }
+
+        const user = await prisma.user.findFirst({
+            where: {
+                username: { equals: name, mode: 'insensitive' },
+                status: { not: 'disabled' }
+            },
+            select: {
+                id: true,
+                username: true,
+                avatarStyle: true,
+                forumReputation: true,
+                createdAt: true,
+            }
+        })
+
+        if (!user) {
+            return {
+                success: false,
+                message: '用户不存在'
+            }
+        }
+
+        const [topicCount, postCount, topics] = await Promise.all([
+            prisma.forumTopic.count({
+                where: { authorId: user.id, status: FORUM_TOPIC_PUBLIC_STATUS }
+            }),
+            prisma.forumPost.count({
+                where: {
+                    authorId: user.id,
+                    status: 'approved',
+                    topic: { status: FORUM_TOPIC_PUBLIC_STATUS }
+                }
+            }),
+            prisma.forumTopic.findMany({
+                where: { authorId: user.id, status: FORUM_TOPIC_PUBLIC_STATUS },
+                select: {
+                    id: true,
+                    title: true,
+                    slug: true,
+                    createdAt: true,
+                    viewCount: true,
+                    category: { select: { name: true, slug: true } },
+                    _count: { select: { posts: true } }
+                },
+                orderBy: { createdAt: 'desc' },
+                take: 10
+            })
+        ])
+
+        return {
+            success: true,
+            data: {
+                user,
+                stats: { topicCount, postCount },
+                topics
+            }
+        }
+    } catch (error) {
+        console.error('获取用户主页失败:', error)
+        return {
+            success: false,
+            message: '获取用户主页失败'
+        }
+    }
+})
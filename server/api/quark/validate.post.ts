@@ -1,7 +1,7 @@
 import { ofetch } from 'ofetch';
 import { getHeader, setResponseStatus } from 'h3';
 import prisma from "~/lib/prisma";
-import { verifyToken } from "~/server/model/user";
+import { authenticateToken } from "~/server/model/user";
 import { buildTransferFingerprintFromShareDetail } from "~/server/services/points/pointsLedger.mjs";
 import { grantTransferPointsForShare } from "~/server/services/points/userPoints";
 import {
@@ -33,7 +33,7 @@ const extractShareId = (shareLink: string): string | null => {
 
 type ShareDetail = Record<string, any> | null;
 
-const getOptionalUserId = (event: any): number | null => {
+const getOptionalUserId = async (event: any): Promise<number | null> => {
     const authHeader = getHeader(event, 'authorization');
     if (!authHeader) {
         return null;
@@ -45,7 +45,7 @@ const getOptionalUserId = (event: any): number | null => {
     }
 
     try {
-        const decoded = verifyToken(token);
+        const decoded = await authenticateToken(token);
         return decoded?.userId ? Number(decoded.userId) : null;
     } catch (error) {
         console.warn('夸克转存验证携带了无效登录态，按游客验证处理');
@@ -198,7 +198,7 @@ export default defineEventHandler(async (event) => {
             };
         }
 
-        const userId = getOptionalUserId(event);
+        const userId = await getOptionalUserId(event);
         if (purpose === QUARK_VERIFICATION_PURPOSES.points && !userId) {
             return {
                 code: 401,
@@ -0,0 +1,26 @@
+import { getResourceRequest } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  const id = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(id)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "求资源 ID 不正确",
+    });
+  }
+
+  try {
+    const request = await getResourceRequest(id);
+
+    return {
+      code: 200,
+      msg: "success",
+      data: request,
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 500,
+      statusMessage: error.statusCode ? error.message : "获取求资源失败",
+    });
+  }
+});
@@ -0,0 +1,40 @@
+import { acceptResourceRequestFulfillment } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const requestId = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  const body = await readBody(event);
+  const fulfillmentId = Number.parseInt(String(body?.fulfillmentId || ""), 10);
+  if (!Number.isFinite(requestId) || !Number.isFinite(fulfillmentId)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "参数不正确",
+    });
+  }
+
+  try {
+    const fulfillment = await acceptResourceRequestFulfillment({
+      userId,
+      requestId,
+      fulfillmentId,
+    });
+
+    return {
+      code: 200,
+      msg: "已采纳",
+      data: fulfillment,
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "采纳失败",
+    });
+  }
+});
@@ -0,0 +1,34 @@
+import { cancelResourceRequest } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const requestId = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(requestId)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "求资源 ID 不正确",
+    });
+  }
+
+  try {
+    const request = await cancelResourceRequest({ userId, requestId });
+
+    return {
+      code: 200,
+      msg: request.bounty > 0 ? "已取消，悬赏积分已退还" : "已取消",
+      data: request,
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "取消求资源失败",
+    });
+  }
+});
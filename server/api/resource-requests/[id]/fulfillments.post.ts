@@ -0,0 +1,42 @@
+import { fulfillResourceRequest } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const requestId = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(requestId)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "求资源 ID 不正确",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const fulfillment = await fulfillResourceRequest({ userId, requestId, input: body });
+
+    return {
+      code: 200,
+      msg: "已提交应征，等待求资源者采纳",
+      data: fulfillment,
+    };
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      throw createError({
+        statusCode: 409,
+        statusMessage: "这个投稿已经应征过了",
+      });
+    }
+
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "提交应征失败",
+    });
+  }
+});
@@ -0,0 +1,19 @@
+import { listResourceRequests } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  try {
+    const data = await listResourceRequests(getQuery(event));
+
+    return {
+      code: 200,
+      msg: "success",
+      data,
+    };
+  } catch (error: any) {
+    console.error("获取求资源列表失败:", error);
+    throw createError({
+      statusCode: error.statusCode || 500,
+      statusMessage: error.statusCode ? error.message : "获取求资源列表失败",
+    });
+  }
+});
@@ -0,0 +1,27 @@
+import { createResourceRequest } from "~/server/services/points/resourceRequests.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const request = await createResourceRequest({ userId, input: body });
+
+    return {
+      code: 200,
+      msg: "求资源已发布",
+      data: request,
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "发布求资源失败",
+    });
+  }
+});
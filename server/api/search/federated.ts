@@ -0,0 +1,148 @@
+import type { H3Event } from "h3";
+import { authenticateToken } from "~/server/model/user";
+import {
+  FEDERATED_CLIENT_IP_HEADER,
+  FEDERATED_SEARCH_HEADER,
+  formatFederatedEvent,
+  getFederatedInternalToken,
+  resolveFederatedSearchFormat,
+  runFederatedSearch,
+} from "~/server/services/search/federatedSearch.mjs";
+import {
+  getResultRankingOptions,
+  rankSearchResultsWithSignals,
+} from "~/server/services/search/resultRanking.mjs";
+import {
+  buildSearchSourceManifest,
+  getSearchSourceCircuits,
+} from "~/server/services/search/sourceHealth.mjs";
+import { getAllSearchSourceIds, getConfiguredSearchSources } from "~/server/utils/searchSources";
+import { getSearchModerationFailure } from "~/server/utils/sourceModeration";
+
+interface FederatedSearchBody {
+  name?: string;
+  format?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  sse: "text/event-stream; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+const readSearchInput = async (event: H3Event): Promise<FederatedSearchBody> => {
+  const query = getQuery(event);
+  if (event.method === "POST") {
+    const body = (await readBody<FederatedSearchBody>(event)) || {};
+    return { name: body.name, format: body.format || String(query.format || "") };
+  }
+
+  return { name: String(query.name || ""), format: String(query.format || "") };
+};
+
+const loadEnabledSources = async (loggedIn: boolean) => {
+  let circuits = {};
+  try {
+    circuits = await getSearchSourceCircuits(getAllSearchSourceIds());
+  } catch (error) {
+    console.error("读取搜索源熔断状态失败:", error);
+  }
+
+  return buildSearchSourceManifest(getConfiguredSearchSources(loggedIn), circuits).sources;
+};
+
+export default defineEventHandler(async (event: H3Event) => {
+  if (event.method !== "GET" && event.method !== "POST") {
+    throw createError({ statusCode: 405, statusMessage: "Method Not Allowed" });
+  }
+
+  const input = await readSearchInput(event);
+  const format = resolveFederatedSearchFormat(
+    input.format,
+    getRequestHeader(event, "accept") || "",
+  );
+  const keyword = String(input.name || "").trim();
+
+  const authorization = getRequestHeader(event, "authorization") || "";
+  const token = authorization.split(" ")[1];
+  const loggedIn = Boolean(token && (await authenticateToken(token)));
+  const forwardHeaders: Record<string, string> = {
+    host: getRequestHeader(event, "host") || "",
+    referer: getRequestHeader(event, "referer") || "",
+    [FEDERATED_SEARCH_HEADER]: getFederatedInternalToken(),
+    [FEDERATED_CLIENT_IP_HEADER]: getRequestIP(event) || "unknown",
+  };
+  if (authorization) {
+    forwardHeaders.authorization = authorization;
+  }
+
+  setResponseHeaders(event, {
+    "content-type": CONTENT_TYPES[format],
+    "cache-control": "no-cache, no-transform",
+    "x-accel-buffering": "no",
+  });
+
+  // 客户端断开后不再继续请求剩余的搜索源
+  const abortController = new AbortController();
+  event.node.res.once("close", () => {
+    if (!event.node.res.writableFinished) {
+      abortController.abort();
+    }
+  });
+
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const emit = (payload: Record<string, unknown>) => {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        controller.enqueue(encoder.encode(formatFederatedEvent(payload, format)));
+      };
+
+      try {
+        if (!keyword) {
+          emit({ type: "error", code: 400, msg: "Search term cannot be empty" });
+          return;
+        }
+
+        const moderationFailure = await getSearchModerationFailure(keyword);
+        if (moderationFailure) {
+          emit({
+            type: "error",
+            code: moderationFailure.code,
+            msg: moderationFailure.msg,
+            moderation: moderationFailure.moderation,
+          });
+          return;
+        }
+
+        await runFederatedSearch({
+          keyword,
+          sources: await loadEnabledSources(loggedIn),
+          signal: abortController.signal,
+          emit,
+          rankResults: getResultRankingOptions().enabled
+            ? (groups: Array<{ source: string; items: unknown[] }>) =>
+                rankSearchResultsWithSignals(groups, { keyword })
+            : undefined,
+          fetchSource: (source: { api: string }, name: string) =>
+            event.$fetch(source.api, {
+              method: "POST",
+              body: { name },
+              headers: forwardHeaders,
+              signal: abortController.signal,
+            }),
+        });
+      } catch (error) {
+        console.error("聚合搜索失败:", error);
+        emit({ type: "error", code: 500, msg: "Internal server error" });
+      } finally {
+        controller.close();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+});
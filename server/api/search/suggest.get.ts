@@ -0,0 +1,63 @@
+import { createRateLimiter } from "~/server/utils/rateLimit";
+import { getModerationConfig, MODERATION_CONTEXTS } from "~/server/utils/moderation";
+import { evaluateContentModeration } from "~/server/services/moderation/policy.mjs";
+import { getSearchSuggestionIndex } from "~/server/services/search/searchSuggestions.js";
+
+// 输入联想请求频繁，限流比记录接口宽松
+const rateLimiter = createRateLimiter({ windowMs: 60_000, maxRequests: 120 });
+
+export default defineEventHandler(async (event) => {
+    const clientIp = getRequestIP(event) || 'unknown';
+    if (rateLimiter.isLimited(clientIp)) {
+        return {
+            code: 429,
+            msg: '请求过于频繁，请稍后再试'
+        };
+    }
+
+    const { q = '', limit, correct } = getQuery(event);
+    const query = String(q).trim();
+    if (!query) {
+        return {
+            code: 200,
+            data: { suggestions: [], correction: null }
+        };
+    }
+
+    try {
+        const config = await getModerationConfig();
+        const isAllowed = (keyword: string) => {
+            const decision = evaluateContentModeration(keyword, {
+                context: MODERATION_CONTEXTS.netdiskSearch,
+                config,
+            });
+            return decision.allowed && decision.shouldRecord;
+        };
+
+        if (!isAllowed(query)) {
+            return {
+                code: 200,
+                data: { suggestions: [], correction: null }
+            };
+        }
+
+        const index = await getSearchSuggestionIndex({ isAllowed });
+        const size = Math.min(Math.max(Number.parseInt(String(limit), 10) || 8, 1), 20);
+
+        return {
+            code: 200,
+            data: {
+                suggestions: index.suggest(query, size),
+                // 搜索无结果时由前端带上 correct=1 请求纠错
+                correction: correct === '1' || correct === 'true' ? index.correct(query) : null,
+            }
+        };
+    } catch (error) {
+        console.error('获取搜索联想失败:', error);
+        return {
+            code: 500,
+            msg: '获取搜索联想失败',
+            data: { suggestions: [], correction: null }
+        };
+    }
+});
@@ -1,5 +1,6 @@
 import type { H3Event } from "h3";
 import { buildExternalPanSearchResult } from "~/server/services/search/externalPanSources.mjs";
+import { getEnabledExternalPanSourceConfigs } from "~/server/services/search/externalPanSourceRecords.mjs";
 import { createRateLimiter } from "~/server/utils/rateLimit";
 import { getSearchModerationFailure } from "~/server/utils/sourceModeration";
 import type { SearchBody, TransformedResult } from "~/server/utils/aipan";
@@ -45,12 +46,21 @@ export default defineEventHandler(
         };
       }
 
-      const moderationFailure = await getSearchModerationFailure(searchTerm);
+      const moderationFailure = await getSearchModerationFailure(searchTerm, event);
       if (moderationFailure) {
         return moderationFailure;
       }
 
-      return await buildExternalPanSearchResult(searchTerm);
+      const sources = await getEnabledExternalPanSourceConfigs();
+      if (sources.length === 0) {
+        return {
+          list: [],
+          code: 200,
+          msg: "未启用外部搜索源",
+        };
+      }
+
+      return await buildExternalPanSearchResult(searchTerm, sources);
     } catch (error: any) {
       console.error("[ExternalPan] 搜索失败:", error);
       return {
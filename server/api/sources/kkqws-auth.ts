@@ -70,8 +70,8 @@ export default defineEventHandler(async (event: H3Event): Promise<TransformedRes
 
         // Verify token
         try {
-            const { verifyToken } = await import('~/server/model/user');
-            const user = verifyToken(authToken);
+            const { authenticateToken } = await import('~/server/model/user');
+            const user = await authenticateToken(authToken);
             if (!user) {
                 return {
                     list: [],
@@ -92,7 +92,7 @@ export default defineEventHandler(async (event: H3Event): Promise<TransformedRes
             throw new Error('Search term is required')
         }
         const searchTerm = body.name.trim()
-        const moderationFailure = await getSearchModerationFailure(searchTerm)
+        const moderationFailure = await getSearchModerationFailure(searchTerm, event)
         if (moderationFailure) {
             return moderationFailure
         }
@@ -1,19 +1,27 @@
-import prisma from "~/lib/prisma";
 import {
-    mapStoredResourceToSourceItem,
     mapUserResourceDocumentToSourceItem,
     mergeSourceItems,
     normalizeSource1SearchName,
 } from "~/server/services/search/source1Results.js";
+import { getSearchBackend } from "~/server/services/search/searchBackend.js";
 import {
-    searchPublishedUserResources,
-    getOptionalResourceSearchClient,
-    searchResources,
-} from "~/server/services/search/elasticsearchClient.js";
+    createEmptySearchFacets,
+    hasSearchFilters,
+    mergeSearchFacets,
+    normalizeSearchFilters,
+    restrictDocumentLinks,
+} from "~/server/services/search/searchFilters.js";
 import { getSearchModerationFailure } from "~/server/utils/sourceModeration";
 
 interface Body {
     name: string
+    filters?: {
+        services?: string[]
+        typeIds?: number[]
+        creators?: string[]
+        publishedAfter?: string
+    }
+    facets?: boolean
 }
 
 export default defineEventHandler(async (event) => {
@@ -29,69 +37,62 @@ export default defineEventHandler(async (event) => {
             };
         }
 
-        const moderationFailure = await getSearchModerationFailure(nameFilter);
+        const moderationFailure = await getSearchModerationFailure(nameFilter, event);
         if (moderationFailure) {
             return moderationFailure;
         }
 
         const maxResults = 50;
 
-        // Determine whether ES is available for the resources index
-        const esResourceClient = getOptionalResourceSearchClient();
+        // ES 或 PostgreSQL 由 SEARCH_BACKEND 决定，两者返回相同结构的文档
+        const backend = getSearchBackend();
+        const filters = normalizeSearchFilters(body?.filters);
+
+        // 带筛选或需要分面计数时走聚合查询，普通搜索保持原来的路径
+        if (body?.facets || hasSearchFilters(filters)) {
+            const emptyResult = { documents: [], facets: createEmptySearchFacets() };
+            const [resourceResult, userResourceResult] = await Promise.all([
+                backend.searchResourcesFaceted(nameFilter, { size: maxResults, filters }).catch((error: unknown) => {
+                    console.error("搜索资源失败:", error);
+                    return emptyResult;
+                }),
+                backend.searchUserResourcesFaceted(nameFilter, { size: maxResults, filters }).catch((error: unknown) => {
+                    console.error("搜索用户投稿失败:", error);
+                    return emptyResult;
+                }),
+            ]);
+
+            const toSourceItems = (documents: any[]) =>
+                restrictDocumentLinks(documents, filters).map((document: any) =>
+                    mapUserResourceDocumentToSourceItem(document)
+                );
+
+            return {
+                list: mergeSourceItems(
+                    toSourceItems(resourceResult.documents),
+                    toSourceItems(userResourceResult.documents),
+                    maxResults
+                ),
+                facets: mergeSearchFacets(resourceResult.facets, userResourceResult.facets),
+                code: 200
+            };
+        }
 
-        const [primaryResults, publishedUserResources] = await Promise.all([
-            // Main resource search: ES if available, Prisma as fallback
-            esResourceClient
-                ? searchResources(nameFilter, maxResults).catch((error) => {
-                    console.error("搜索资源 ES 索引失败，回退到 Prisma:", error);
-                    return null; // signal fallback
-                })
-                : null,
-            // User-contributed resources: always via ES (returns [] if not configured)
-            searchPublishedUserResources(nameFilter, maxResults).catch((error) => {
-                console.error("搜索用户投稿 ES 索引失败:", error);
+        const [resourceDocuments, userResourceDocuments] = await Promise.all([
+            backend.searchResources(nameFilter, maxResults).catch((error: unknown) => {
+                console.error("搜索资源失败:", error);
+                return [];
+            }),
+            backend.searchUserResources(nameFilter, maxResults).catch((error: unknown) => {
+                console.error("搜索用户投稿失败:", error);
                 return [];
             }),
         ]);
 
-        let localResults;
-        if (primaryResults !== null) {
-            // ES path succeeded
-            localResults = primaryResults.map((document: any) =>
-                mapUserResourceDocumentToSourceItem(document)
-            );
-        } else {
-            // Prisma fallback
-            const res = await prisma.resource.findMany({
-                where: {
-                    name: {
-                        contains: nameFilter,
-                        mode: 'insensitive',
-                    },
-                },
-                select: {
-                    id: true,
-                    name: true,
-                    links: true,
-                    typeId: true,
-                    createdAt: true,
-                    updatedAt: true,
-                    creator: {
-                        select: { username: true },
-                    },
-                    type: {
-                        select: { name: true },
-                    },
-                },
-                orderBy: {
-                    createdAt: 'desc',
-                },
-                take: maxResults,
-            });
-            localResults = res.map((item) => mapStoredResourceToSourceItem(item));
-        }
-
-        const userResourceResults = (publishedUserResources as any[]).map((document: any) =>
+        const localResults = (resourceDocuments as any[]).map((document: any) =>
+            mapUserResourceDocumentToSourceItem(document)
+        );
+        const userResourceResults = (userResourceDocuments as any[]).map((document: any) =>
             mapUserResourceDocumentToSourceItem(document)
         );
         const result = mergeSourceItems(localResults, userResourceResults, maxResults);
@@ -0,0 +1,30 @@
+import type { H3Event } from "h3";
+import { authenticateToken } from "~/server/model/user";
+import {
+  buildSearchSourceManifest,
+  getSearchSourceCircuits,
+} from "~/server/services/search/sourceHealth.mjs";
+import {
+  getAllSearchSourceIds,
+  getConfiguredSearchSources,
+} from "~/server/utils/searchSources";
+
+export default defineEventHandler(async (event: H3Event) => {
+  const token = getHeader(event, "authorization")?.split(" ")[1];
+  const loggedIn = Boolean(token && (await authenticateToken(token)));
+  const endpoints = getConfiguredSearchSources(loggedIn);
+
+  let circuits = {};
+  try {
+    circuits = await getSearchSourceCircuits(getAllSearchSourceIds());
+  } catch (error) {
+    // 熔断状态读取失败时退回完整的静态配置
+    console.error("读取搜索源熔断状态失败:", error);
+  }
+
+  return {
+    code: 200,
+    msg: "获取成功",
+    data: buildSearchSourceManifest(endpoints, circuits),
+  };
+});
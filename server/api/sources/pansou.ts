@@ -68,7 +68,7 @@ export default defineEventHandler(
         };
       }
 
-      const moderationFailure = await getSearchModerationFailure(searchTerm);
+      const moderationFailure = await getSearchModerationFailure(searchTerm, event);
       if (moderationFailure) {
         return moderationFailure;
       }
@@ -3,6 +3,11 @@ import { $fetch } from "ofetch";
 import * as cheerio from "cheerio";
 import { createRateLimiter } from "~/server/utils/rateLimit";
 import { getSearchModerationFailure } from "~/server/utils/sourceModeration";
+import {
+  detectLinkService,
+  detectLinkServiceByHint,
+  extractLinkPassword,
+} from "~/utils/linkServices.js";
 
 interface SearchBody {
   name: string;
@@ -50,55 +55,10 @@ const isAllowedDomain = (host: string, referer: string) =>
 const normalizeLink = (url: string) =>
   url.replace(/&amp;/g, "&").trim().replace(/[.,，。；;]+$/, "");
 
-const detectService = (url: string, providerHint: string): Link["service"] => {
-  const hint = providerHint.toLowerCase();
+const detectService = (url: string, providerHint: string): Link["service"] =>
+  detectLinkService(url, detectLinkServiceByHint(providerHint)) as Link["service"];
 
-  if (url.includes("pan.baidu.com") || hint.includes("baidu")) {
-    return "BAIDU";
-  }
-  if (url.includes("pan.xunlei.com") || hint.includes("xunlei")) {
-    return "XUNLEI";
-  }
-  if (url.includes("pan.quark.cn") || hint.includes("quark")) {
-    return "QUARK";
-  }
-  if (
-    url.includes("aliyundrive.com") ||
-    url.includes("alipan.com") ||
-    hint.includes("ali")
-  ) {
-    return "ALIYUN";
-  }
-  if (url.includes("drive.uc.cn") || hint.includes("uc")) {
-    return "UC";
-  }
-  if (url.includes("cloud.189.cn") || hint.includes("tianyi")) {
-    return "TIANYI";
-  }
-  if (url.includes("yun.139.com") || url.includes("caiyun.139.com")) {
-    return "MOBILE";
-  }
-  if (url.includes("115cdn.com") || hint.includes("115")) {
-    return "115";
-  }
-  if (url.includes("mypikpak.com") || hint.includes("pikpak")) {
-    return "PIKPAK";
-  }
-  if (/(?:123684|123865|123912|123pan)\.(?:com|cn)/i.test(url) || hint.includes("123")) {
-    return "123";
-  }
-  if (url.startsWith("magnet:?")) {
-    return "MAGNET";
-  }
-  if (url.startsWith("ed2k://")) {
-    return "ED2K";
-  }
-
-  return "OTHER";
-};
-
-const extractPassword = (url: string) =>
-  url.match(/[?&](?:pwd|password)=([A-Za-z0-9]+)/i)?.[1];
+const extractPassword = (url: string) => extractLinkPassword(url);
 
 const fetchSlowreadSource = async (searchTerm: string): Promise<TransformedResult> => {
   const html = await $fetch(SEARCH_URL, {
@@ -204,7 +164,7 @@ export default defineEventHandler(
         };
       }
 
-      const moderationFailure = await getSearchModerationFailure(searchTerm);
+      const moderationFailure = await getSearchModerationFailure(searchTerm, event);
       if (moderationFailure) {
         return moderationFailure;
       }
@@ -107,8 +107,8 @@ export default defineEventHandler(async (event: H3Event): Promise<TransformedRes
 
         // Verify token
         try {
-            const { verifyToken } = await import('~/server/model/user');
-            const user = verifyToken(token);
+            const { authenticateToken } = await import('~/server/model/user');
+            const user = await authenticateToken(token);
             if (!user) {
                 return {
                     list: [],
@@ -129,7 +129,7 @@ export default defineEventHandler(async (event: H3Event): Promise<TransformedRes
             throw new Error('Search term is required')
         }
         const searchTerm = body.name.trim()
-        const moderationFailure = await getSearchModerationFailure(searchTerm)
+        const moderationFailure = await getSearchModerationFailure(searchTerm, event)
         if (moderationFailure) {
             return moderationFailure
         }
@@ -0,0 +1,33 @@
+import prisma from "~/lib/prisma";
+import { hashRefreshToken, USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import {
+  clearRefreshTokenCookie,
+  getRefreshTokenCookie,
+  revokeSessionsAndDisconnect,
+} from "~/server/utils/userSessions";
+
+// 退出当前会话；按 refresh token 定位会话，access token 过期后也能正常退出
+export default defineEventHandler(async (event) => {
+  const refreshToken = getRefreshTokenCookie(event);
+  clearRefreshTokenCookie(event);
+
+  if (refreshToken) {
+    const session = await prisma.userSession.findUnique({
+      where: { refreshTokenHash: hashRefreshToken(refreshToken) },
+      select: { id: true, userId: true },
+    });
+
+    if (session) {
+      await revokeSessionsAndDisconnect({
+        userId: session.userId,
+        sessionIds: [session.id],
+        reason: USER_SESSION_REVOKE_REASONS.logout,
+      });
+    }
+  }
+
+  return {
+    code: 200,
+    msg: "已退出登录",
+  };
+});
@@ -0,0 +1,35 @@
+import { signAccessToken } from "~/server/model/user";
+import { rotateUserSession } from "~/server/services/auth/userSessions.js";
+import {
+  clearRefreshTokenCookie,
+  getRefreshTokenCookie,
+  getSessionClientInfo,
+  setRefreshTokenCookie,
+} from "~/server/utils/userSessions";
+
+// 用 HttpOnly cookie 里的 refresh token 换新的 access token，同时轮换 refresh token
+export default defineEventHandler(async (event) => {
+  const result = await rotateUserSession(getRefreshTokenCookie(event), getSessionClientInfo(event));
+
+  if (result.status === "invalid" || result.status === "reused") {
+    clearRefreshTokenCookie(event);
+    throw createError({
+      statusCode: 401,
+      statusMessage: "Unauthorized",
+      message: "登录已过期，请重新登录",
+    });
+  }
+
+  // grace：并发刷新中落后的请求，cookie 已由先完成的请求更新，这里只补发 access token
+  if (result.status === "rotated" && result.refreshToken) {
+    setRefreshTokenCookie(event, result.refreshToken);
+  }
+
+  return {
+    code: 200,
+    msg: "success",
+    data: {
+      token: signAccessToken(result.session.user, result.session.id),
+    },
+  };
+});
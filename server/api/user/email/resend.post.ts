@@ -1,5 +1,5 @@
 import prisma from "~/lib/prisma";
-import { verifyToken } from "~/server/model/user";
+import { authenticateToken } from "~/server/model/user";
 import { sendVerificationEmail } from "~/server/services/email/emailVerification";
 
 const GENERIC_SUCCESS_MESSAGE = "如该邮箱尚未激活，验证邮件已发送";
@@ -22,7 +22,7 @@ export default defineEventHandler(async (event) => {
 
     if (authHeader?.startsWith("Bearer ")) {
       const token = authHeader.split(" ")[1] || "";
-      const decoded = verifyToken(token);
+      const decoded = await authenticateToken(token);
 
       if (decoded?.userId) {
         isAuthenticatedRequest = true;
@@ -0,0 +1,31 @@
+import prisma from "~/lib/prisma";
+import { updateForumDigestFrequency } from "~/server/services/forum/subscriptions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+
+    return {
+      code: 200,
+      msg: "摘要邮件设置已保存",
+      data: await updateForumDigestFrequency({
+        userId,
+        frequency: body?.frequency,
+        prismaClient: prisma,
+      }),
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "保存失败",
+    });
+  }
+});
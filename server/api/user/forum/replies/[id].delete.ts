@@ -1,4 +1,5 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 
 export default defineEventHandler(async (event) => {
     try {
@@ -42,7 +43,7 @@ export default defineEventHandler(async (event) => {
         }
 
         // 用户需要是作者或者管理员才能删除
-        if (reply.authorId !== user.userId && user.role !== 'admin') {
+        if (reply.authorId !== user.userId && !hasPermission(user.permissions, 'forum.moderate')) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
@@ -51,7 +52,7 @@ export default defineEventHandler(async (event) => {
         }
 
         // 检查主题是否已锁定
-        if (reply.topic?.isLocked && user.role !== 'admin') {
+        if (reply.topic?.isLocked && !hasPermission(user.permissions, 'forum.moderate')) {
             return {
                 success: false,
                 message: '该主题已锁定，无法删除回复'
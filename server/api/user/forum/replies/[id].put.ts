@@ -1,4 +1,12 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
+import {
+    evaluateModerationWithConfig,
+    MODERATION_CONTEXTS,
+    summarizeModerationDecision,
+} from "~/server/utils/moderation"
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs"
+import { resolveForumEditStatus, saveForumPostEdit } from "~/server/services/forum/revisions.mjs"
 
 export default defineEventHandler(async (event) => {
     try {
@@ -27,6 +35,8 @@ export default defineEventHandler(async (event) => {
             include: {
                 topic: {
                     select: {
+                        title: true,
+                        slug: true,
                         isLocked: true
                     }
                 }
@@ -69,19 +79,50 @@ export default defineEventHandler(async (event) => {
             }
         }
 
-        // 对于已批准的回复，编辑后需要重新审核
-        const newStatus = reply.status === 'approved' && user.role !== 'admin' ? 'pending' : reply.status
+        const moderation = await evaluateModerationWithConfig(content, {
+            context: MODERATION_CONTEXTS.forumReply,
+        })
+        if (!moderation.allowed) {
+            return {
+                success: false,
+                message: moderation.message || '回复包含敏感信息，请修改后重新提交',
+                moderation: summarizeModerationDecision(moderation)
+            }
+        }
 
-        // 更新回复
-        const updatedReply = await prisma.forumPost.update({
-            where: { id },
+        // 已批准的回复编辑后重新审核，命中需复核的规则时退回待审核
+        const newStatus = resolveForumEditStatus({
+            currentStatus: reply.status,
+            canModerate: hasPermission(user.permissions, 'forum.moderate'),
+            moderation,
+        })
+
+        // 更新回复，旧版本保存到编辑历史
+        const updatedReply = await saveForumPostEdit({
+            post: reply,
+            editorId: user.userId,
             data: {
                 content,
                 status: newStatus,
                 updatedAt: new Date()
-            }
+            },
+            prismaClient: prisma,
         })
 
+        // 编辑后直接生效时只通知新增的提及，需要重新审核的等审核通过再通知
+        if (newStatus === 'approved' && reply.topic) {
+            await recordMentions({
+                content,
+                sourceType: MENTION_SOURCE_TYPES.forumPost,
+                sourceId: updatedReply.id,
+                actor: updatedReply.author,
+                contextLabel: `主题 "${reply.topic.title}" 的回复`,
+                link: `/forum/topic/${reply.topic.slug}`,
+                io: event.context.io,
+                prismaClient: prisma,
+            })
+        }
+
         return {
             success: true,
             message: newStatus === 'pending' ? '回复已更新，等待审核' : '回复更新成功',
@@ -0,0 +1,33 @@
+import prisma from "~/lib/prisma";
+import { unfollowForumTarget } from "~/server/services/forum/subscriptions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const query = getQuery(event);
+
+  try {
+    await unfollowForumTarget({
+      userId,
+      type: query.type,
+      targetId: query.targetId,
+      prismaClient: prisma,
+    });
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "取消关注失败",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "已取消关注",
+  };
+});
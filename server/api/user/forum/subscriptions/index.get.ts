@@ -0,0 +1,26 @@
+import prisma from "~/lib/prisma";
+import {
+  getForumDigestPreference,
+  listForumSubscriptions,
+} from "~/server/services/forum/subscriptions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const [subscriptions, digest] = await Promise.all([
+    listForumSubscriptions({ userId, prismaClient: prisma }),
+    getForumDigestPreference({ userId, prismaClient: prisma }),
+  ]);
+
+  return {
+    code: 200,
+    msg: "success",
+    data: { subscriptions, digest },
+  };
+});
@@ -0,0 +1,32 @@
+import prisma from "~/lib/prisma";
+import { followForumTarget } from "~/server/services/forum/subscriptions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+
+    return {
+      code: 200,
+      msg: "已关注，有新动态时会提醒你",
+      data: await followForumTarget({
+        userId,
+        type: body?.type,
+        targetId: body?.targetId,
+        prismaClient: prisma,
+      }),
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "关注失败",
+    });
+  }
+});
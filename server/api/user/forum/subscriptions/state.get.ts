@@ -0,0 +1,25 @@
+import prisma from "~/lib/prisma";
+import { getForumFollowState } from "~/server/services/forum/subscriptions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const query = getQuery(event);
+
+  return {
+    code: 200,
+    msg: "success",
+    data: await getForumFollowState({
+      userId,
+      topicId: query.topicId,
+      categoryId: query.categoryId,
+      prismaClient: prisma,
+    }),
+  };
+});
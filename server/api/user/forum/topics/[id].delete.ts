@@ -1,4 +1,5 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
 
 export default defineEventHandler(async (event) => {
     try {
@@ -34,7 +35,7 @@ export default defineEventHandler(async (event) => {
         }
 
         // 用户需要是作者或者管理员才能删除
-        if (topic.authorId !== user.userId && user.role !== 'admin') {
+        if (topic.authorId !== user.userId && !hasPermission(user.permissions, 'forum.moderate')) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Forbidden",
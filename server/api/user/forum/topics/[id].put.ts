@@ -1,4 +1,12 @@
 import prisma from "~/lib/prisma"
+import { hasPermission } from "~/utils/adminPermissions.js"
+import {
+    evaluateModerationWithConfig,
+    MODERATION_CONTEXTS,
+    summarizeModerationDecision,
+} from "~/server/utils/moderation"
+import { MENTION_SOURCE_TYPES, recordMentions } from "~/server/services/forum/mentions.mjs"
+import { resolveForumEditStatus, saveForumTopicEdit } from "~/server/services/forum/revisions.mjs"
 
 export default defineEventHandler(async (event) => {
     try {
@@ -53,21 +61,52 @@ export default defineEventHandler(async (event) => {
             }
         }
 
-        // 对于已批准的主题，编辑后需要重新审核
-        const newStatus = topic.status === 'approved' && user.role !== 'admin' ? 'pending' : topic.status
+        const moderation = await evaluateModerationWithConfig(`${title}\n${content}`, {
+            context: MODERATION_CONTEXTS.forumTopic,
+        })
+        if (!moderation.allowed) {
+            return {
+                success: false,
+                message: moderation.message || '主题包含敏感信息，请修改后重新提交',
+                moderation: summarizeModerationDecision(moderation)
+            }
+        }
+
+        // 已批准的主题编辑后重新审核，命中需复核的规则时退回待审核
+        const newStatus = resolveForumEditStatus({
+            currentStatus: topic.status,
+            canModerate: hasPermission(user.permissions, 'forum.moderate'),
+            moderation,
+        })
 
-        // 更新主题
-        const updatedTopic = await prisma.forumTopic.update({
-            where: { id },
+        // 更新主题，旧版本保存到编辑历史
+        const updatedTopic = await saveForumTopicEdit({
+            topic,
+            editorId: user.userId,
             data: {
                 title,
                 content,
                 categoryId: parseInt(categoryId),
                 status: newStatus,
                 updatedAt: new Date()
-            }
+            },
+            prismaClient: prisma,
         })
 
+        // 编辑后直接生效时只通知新增的提及，需要重新审核的等审核通过再通知
+        if (newStatus === 'approved') {
+            await recordMentions({
+                content,
+                sourceType: MENTION_SOURCE_TYPES.forumTopic,
+                sourceId: updatedTopic.id,
+                actor: updatedTopic.author,
+                contextLabel: `主题 "${updatedTopic.title}"`,
+                link: `/forum/topic/${updatedTopic.slug}`,
+                io: event.context.io,
+                prismaClient: prisma,
+            })
+        }
+
         return {
             success: true,
             message: newStatus === 'pending' ? '主题已更新，等待审核' : '主题更新成功',
@@ -1,5 +1,6 @@
 import prisma from "~/lib/prisma";
-import { verifyToken } from "~/server/model/user";
+import { authenticateToken } from "~/server/model/user";
+import { getRolePermissions } from "~/server/services/auth/permissions.js";
 import { getUserPointsBreakdown } from "~/server/services/points/userPoints";
 
 export default defineEventHandler(async (event) => {
@@ -19,9 +20,9 @@ export default defineEventHandler(async (event) => {
         if (!token) {
             throw createError({ statusCode: 401, statusMessage: "Invalid token format" });
         }
-        const decoded = verifyToken(token);
+        const decoded = await authenticateToken(token);
         if (!decoded) {
-            throw createError({ statusCode: 403, statusMessage: "Forbidden" });
+            throw createError({ statusCode: 401, statusMessage: "Unauthorized" });
         }
 
         const user = await prisma.user.findUnique({
@@ -46,6 +47,7 @@ export default defineEventHandler(async (event) => {
         const pointsBreakdown = await getUserPointsBreakdown(decoded.userId, {
             permanentPoints: user.points
         });
+        const permissions = await getRolePermissions(user.role);
 
         return {
             code: 200,
@@ -57,7 +59,8 @@ export default defineEventHandler(async (event) => {
                 temporaryPoints: pointsBreakdown.temporaryPoints,
                 effectivePoints: pointsBreakdown.effectivePoints,
                 nextExpiringAt: pointsBreakdown.nextExpiringAt,
-                pointsBreakdown
+                pointsBreakdown,
+                permissions
             }
         };
     } catch (error) {
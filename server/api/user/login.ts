@@ -1,10 +1,9 @@
 import prisma from "~/lib/prisma";
-import jwt from "jsonwebtoken";
+import { getRolePermissions } from "~/server/services/auth/permissions.js";
 import { verifyAndUpgradePassword } from "~/server/utils/password";
+import { startUserSession } from "~/server/utils/userSessions";
 
 export default defineEventHandler(async (event) => {
-    const config = useRuntimeConfig();
-
     try {
         const { email, password } = await readBody(event);
 
@@ -36,6 +35,13 @@ export default defineEventHandler(async (event) => {
             }
         }
 
+        if (user.status === 'disabled') {
+            return {
+                code: 403,
+                msg: '账号已被禁用'
+            }
+        }
+
         if (user.emailVerificationRequired && !user.isVerified) {
             return {
                 code: 403,
@@ -47,12 +53,8 @@ export default defineEventHandler(async (event) => {
             }
         }
 
-        // 生成 JWT token
-        const token = jwt.sign(
-            { userId: user.id, role: user.role },
-            config.jwtSecret,
-            { expiresIn: '24h' }
-        );
+        // 创建登录会话：返回短期 access token，refresh token 写入 HttpOnly cookie
+        const token = await startUserSession(event, user);
 
         return {
             code: 200,
@@ -65,7 +67,8 @@ export default defineEventHandler(async (event) => {
                     email: user.email,
                     role: user.role,
                     isVerified: user.isVerified,
-                    emailVerificationRequired: user.emailVerificationRequired
+                    emailVerificationRequired: user.emailVerificationRequired,
+                    permissions: await getRolePermissions(user.role)
                 },
                 showEmailActivationPrompt: !user.isVerified
             }
@@ -0,0 +1,34 @@
+import prisma from "~/lib/prisma";
+import { removeMentionMute } from "~/server/services/forum/mentions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const mutedUserId = Number.parseInt(getRouterParam(event, "userId") || "", 10);
+  if (!Number.isFinite(mutedUserId)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "用户 ID 不正确",
+    });
+  }
+
+  try {
+    await removeMentionMute({ userId, mutedUserId, prismaClient: prisma });
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "取消屏蔽失败",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "已取消屏蔽",
+  };
+});
@@ -0,0 +1,18 @@
+import prisma from "~/lib/prisma";
+import { listMentionMutes } from "~/server/services/forum/mentions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "success",
+    data: await listMentionMutes({ userId, prismaClient: prisma }),
+  };
+});
@@ -0,0 +1,27 @@
+import prisma from "~/lib/prisma";
+import { addMentionMute } from "~/server/services/forum/mentions.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+
+    return {
+      code: 200,
+      msg: "已屏蔽，对方提到你时不再通知",
+      data: await addMentionMute({ userId, username: body?.username, prismaClient: prisma }),
+    };
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "屏蔽失败",
+    });
+  }
+});
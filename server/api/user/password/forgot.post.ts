@@ -0,0 +1,113 @@
+import prisma from "~/lib/prisma";
+import {
+  createPasswordResetToken,
+  getPasswordResetOptions,
+  normalizeResetEmail,
+  releasePasswordResetEmailSlot,
+  reservePasswordResetEmailSlot,
+} from "~/server/services/auth/passwordReset.js";
+import { getEmailServiceConfig, sendEmailMessage } from "~/server/services/email/resend";
+import { getPasswordResetTemplate } from "~/server/services/email/templates";
+import { createRateLimiter } from "~/server/utils/rateLimit";
+import { getSessionClientInfo } from "~/server/utils/userSessions";
+
+// 无论邮箱是否注册都返回同样的提示，避免被用来探测账号
+const GENERIC_SUCCESS_MESSAGE = "如该邮箱已注册，重置密码邮件已发送";
+
+const passwordResetOptions = getPasswordResetOptions();
+const ipLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000,
+  maxRequests: passwordResetOptions.ipMaxPerHour,
+});
+
+const isValidEmail = (value?: string) => {
+  if (!value) {
+    return false;
+  }
+
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+};
+
+export default defineEventHandler(async (event) => {
+  try {
+    const body = await readBody(event);
+    const email = normalizeResetEmail(body?.email);
+    const { ip } = getSessionClientInfo(event);
+
+    if (ipLimiter.isLimited(`ip:${ip || "unknown"}`)) {
+      return {
+        code: 429,
+        msg: "请求过于频繁，请稍后再试",
+      };
+    }
+
+    if (!isValidEmail(email)) {
+      return {
+        code: 400,
+        msg: "请输入正确的邮箱地址",
+      };
+    }
+
+    const config = await getEmailServiceConfig();
+    if (!config.enabled || !config.siteUrl) {
+      return {
+        code: 400,
+        msg: "邮箱服务未启用，请联系管理员重置密码",
+      };
+    }
+
+    // 注册时没有统一邮箱大小写，按不区分大小写查找
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: "insensitive" } },
+      orderBy: { id: "asc" },
+      select: { id: true, username: true, email: true, status: true },
+    });
+
+    if (!user || user.status === "disabled") {
+      return {
+        code: 200,
+        msg: GENERIC_SUCCESS_MESSAGE,
+      };
+    }
+
+    // 冷却时间内重复申请直接返回，不再发信
+    const reservation = await reservePasswordResetEmailSlot(user.email, passwordResetOptions);
+    if (!reservation.allowed) {
+      return {
+        code: 200,
+        msg: GENERIC_SUCCESS_MESSAGE,
+      };
+    }
+
+    try {
+      const { token } = await createPasswordResetToken({ user, ip, options: passwordResetOptions });
+      const template = getPasswordResetTemplate({
+        userName: user.username,
+        resetLink: `${config.siteUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        expireMinutes: passwordResetOptions.expireMinutes,
+      });
+
+      await sendEmailMessage({
+        to: user.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+      });
+    } catch (error) {
+      await releasePasswordResetEmailSlot(reservation);
+      console.error("发送重置密码邮件失败:", error);
+    }
+
+    return {
+      code: 200,
+      msg: GENERIC_SUCCESS_MESSAGE,
+    };
+  } catch (error) {
+    console.error("申请重置密码失败:", error);
+
+    return {
+      code: 500,
+      msg: "申请重置密码失败",
+    };
+  }
+});
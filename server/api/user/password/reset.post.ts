@@ -0,0 +1,51 @@
+import prisma from "~/lib/prisma";
+import { consumePasswordResetToken } from "~/server/services/auth/passwordReset.js";
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { hashPassword } from "~/server/utils/password";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+
+// 重置密码后吊销该账号的全部会话，所有设备都需要用新密码重新登录
+export default defineEventHandler(async (event) => {
+  try {
+    const body = await readBody(event);
+    const token = String(body?.token || "").trim();
+    const password = String(body?.password || "");
+
+    if (password.length < 6 || password.length > 20) {
+      return {
+        code: 400,
+        msg: "密码长度需在6-20个字符之间",
+      };
+    }
+
+    const user = await consumePasswordResetToken(token);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await hashPassword(password),
+        salt: null,
+      },
+    });
+
+    await revokeSessionsAndDisconnect({
+      userId: user.id,
+      reason: USER_SESSION_REVOKE_REASONS.passwordReset,
+    });
+
+    return {
+      code: 200,
+      msg: "密码已重置，请使用新密码登录",
+      data: {
+        redirectTo: "/login",
+      },
+    };
+  } catch (error: any) {
+    console.error("重置密码失败:", error);
+
+    return {
+      code: error.statusCode || 500,
+      msg: error.statusMessage || "重置密码失败",
+    };
+  }
+});
@@ -166,7 +166,11 @@ function getTypeName(type: string): string {
         'transfer': '转存奖励',
         'registration_gift': '注册礼包',
         'redemption': '兑换码奖励',
-        'daily_redemption_drop': '每日福利'
+        'daily_redemption_drop': '每日福利',
+        'resource_request_bounty': '求资源悬赏',
+        'resource_request_reward': '求资源赏金',
+        'resource_request_refund': '悬赏退还',
+        'forum_reputation': '论坛声望'
     }
     return typeNames[type] || type
 }
@@ -1,4 +1,6 @@
 import prisma from "~/lib/prisma";
+import { setAdminAudit } from "~/server/utils/adminAudit";
+import { hasPermission } from "~/utils/adminPermissions.js";
 
 export default defineEventHandler(async (event) => {
     try {
@@ -21,8 +23,14 @@ export default defineEventHandler(async (event) => {
             })
         }
 
-        // 只允许管理员进行积分调整
-        if (event.context.user.role !== 'admin') {
+        // 积分调整属于后台特权操作，被拒绝的尝试也记入审计日志
+        setAdminAudit(event, {
+            action: 'points.adjust',
+            targetType: 'user-center',
+            targetId: userId
+        })
+
+        if (!hasPermission(event.context.user.permissions, 'points.grant')) {
             throw createError({
                 statusCode: 403,
                 message: '权限不足'
@@ -60,6 +68,11 @@ export default defineEventHandler(async (event) => {
             }
         })
 
+        setAdminAudit(event, {
+            before: { points: result.newTotal - points },
+            after: { points: result.newTotal, type, description: result.pointsRecord.description }
+        })
+
         return {
             code: 200,
             msg: '积分调整成功',
@@ -0,0 +1,64 @@
+import prisma from "~/lib/prisma";
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { hashPassword, verifyAndUpgradePassword } from "~/server/utils/password";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+
+// 修改密码后吊销其他设备上的会话，当前设备保持登录
+export default defineEventHandler(async (event) => {
+    const { userId, sid } = event.context.user;
+    const { currentPassword, newPassword } = await readBody(event);
+
+    if (!currentPassword || !newPassword) {
+        throw createError({
+            statusCode: 400,
+            message: '请填写当前密码和新密码'
+        });
+    }
+
+    if (String(newPassword).length < 6 || String(newPassword).length > 20) {
+        throw createError({
+            statusCode: 400,
+            message: '密码长度需在6-20个字符之间'
+        });
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, password: true, salt: true }
+    });
+
+    if (!user) {
+        throw createError({
+            statusCode: 404,
+            message: '用户不存在'
+        });
+    }
+
+    const passwordResult = await verifyAndUpgradePassword(user, currentPassword);
+    if (!passwordResult.isValid) {
+        throw createError({
+            statusCode: 400,
+            message: '当前密码错误'
+        });
+    }
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            password: await hashPassword(newPassword),
+            salt: null
+        }
+    });
+
+    const revokedIds = await revokeSessionsAndDisconnect({
+        userId,
+        exceptSessionId: sid,
+        reason: USER_SESSION_REVOKE_REASONS.passwordChanged
+    });
+
+    return {
+        code: 200,
+        msg: revokedIds.length > 0 ? `密码已修改，已退出其他 ${revokedIds.length} 个设备` : '密码已修改',
+        data: { revoked: revokedIds.length }
+    };
+});
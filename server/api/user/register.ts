@@ -1,5 +1,4 @@
 import prisma from "~/lib/prisma";
-import jwt from "jsonwebtoken";
 import { sendVerificationEmail } from "~/server/services/email/emailVerification";
 import { getEmailServiceConfig } from "~/server/services/email/resend";
 import {
@@ -7,6 +6,7 @@ import {
     grantRegistrationGiftForUser
 } from "~/server/services/points/registrationGift.mjs";
 import { hashPassword } from "~/server/utils/password";
+import { startUserSession } from "~/server/utils/userSessions";
 
 export default defineEventHandler(async (event) => {
     const config = useRuntimeConfig();
@@ -96,12 +96,8 @@ export default defineEventHandler(async (event) => {
             source: REGISTRATION_GIFT_SOURCE.auto
         });
 
-        // 生成 JWT token
-        const token = jwt.sign(
-            { userId: user.id, role: user.role },
-            config.jwtSecret,
-            { expiresIn: '24h' }
-        );
+        // 创建登录会话：返回短期 access token，refresh token 写入 HttpOnly cookie
+        const token = await startUserSession(event, user);
 
         return {
             code: 200,
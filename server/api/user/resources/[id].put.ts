@@ -28,11 +28,11 @@ export default defineEventHandler(async (event) => {
             })
         }
 
-        // 如果资源已经审核通过或被拒绝，不允许修改
-        if (resource.status !== 'pending') {
+        // 如果资源已经审核通过或被拒绝，不允许修改；链接失效下架的资源可以更新链接后重新提交审核
+        if (!['pending', 'link_dead'].includes(resource.status)) {
             throw createError({
                 statusCode: 400,
-                message: '只能修改待审核的资源'
+                message: '只能修改待审核或链接失效的资源'
             })
         }
 
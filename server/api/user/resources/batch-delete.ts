@@ -1,4 +1,5 @@
 import prisma from "~/lib/prisma";
+import { enqueueSearchSync } from "~/server/services/search/searchSyncOutbox.js";
 
 export default defineEventHandler(async (event) => {
     const body = await readBody(event); // 读取请求体
@@ -10,13 +11,21 @@ export default defineEventHandler(async (event) => {
     }
 
     try {
-        // 使用 Prisma 的 deleteMany 方法删除多个资源
-        await prisma.resource.deleteMany({
-            where: {
-                id: {
-                    in: ids.map(id => Number(id)), // 将 ID 转换为数字
+        const numericIds = ids.map(id => Number(id)); // 将 ID 转换为数字
+
+        // 使用 Prisma 的 deleteMany 方法删除多个资源，同一事务内登记 ES 删除事件
+        await prisma.$transaction(async (tx: any) => {
+            await tx.resource.deleteMany({
+                where: {
+                    id: {
+                        in: numericIds,
+                    },
                 },
-            },
+            });
+            await enqueueSearchSync(
+                tx,
+                numericIds.map((entityId) => ({ target: "resources", entityId, action: "delete" }))
+            );
         });
 
         return {
@@ -0,0 +1,33 @@
+import { deleteSavedSearch } from "~/server/services/search/savedSearches.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const id = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(id)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "保存的搜索 ID 不正确",
+    });
+  }
+
+  try {
+    await deleteSavedSearch(userId, id);
+  } catch (error: any) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "删除保存的搜索失败",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "已删除",
+  };
+});
@@ -0,0 +1,42 @@
+import { updateSavedSearch } from "~/server/services/search/savedSearches.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const id = Number.parseInt(getRouterParam(event, "id") || "", 10);
+  if (!Number.isFinite(id)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "保存的搜索 ID 不正确",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const { seenKeys, ...savedSearch } = await updateSavedSearch(userId, id, body);
+
+    return {
+      code: 200,
+      msg: "保存的搜索已更新",
+      data: savedSearch,
+    };
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      throw createError({
+        statusCode: 409,
+        statusMessage: "已经保存过这个关键词",
+      });
+    }
+
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "更新保存的搜索失败",
+    });
+  }
+});
@@ -0,0 +1,17 @@
+import { listSavedSearches } from "~/server/services/search/savedSearches.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "success",
+    data: await listSavedSearches(userId),
+  };
+});
@@ -0,0 +1,34 @@
+import { createSavedSearch } from "~/server/services/search/savedSearches.mjs";
+
+export default defineEventHandler(async (event) => {
+  const userId = event.context.user?.userId;
+  if (!userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  try {
+    const body = await readBody(event);
+    const { seenKeys, ...savedSearch } = await createSavedSearch(userId, body);
+
+    return {
+      code: 200,
+      msg: "已保存搜索，有新资源时会通知你",
+      data: savedSearch,
+    };
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      throw createError({
+        statusCode: 409,
+        statusMessage: "已经保存过这个关键词",
+      });
+    }
+
+    throw createError({
+      statusCode: error.statusCode || 400,
+      statusMessage: error.message || "保存搜索失败",
+    });
+  }
+});
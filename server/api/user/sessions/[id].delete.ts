@@ -0,0 +1,37 @@
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user?.userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const sessionId = getRouterParam(event, "id") || "";
+  if (!sessionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "会话 ID 不正确",
+    });
+  }
+
+  const revokedIds = await revokeSessionsAndDisconnect({
+    userId: user.userId,
+    sessionIds: [sessionId],
+    reason: USER_SESSION_REVOKE_REASONS.logout,
+  });
+  if (revokedIds.length === 0) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: "会话不存在或已失效",
+    });
+  }
+
+  return {
+    code: 200,
+    msg: "已退出该设备",
+  };
+});
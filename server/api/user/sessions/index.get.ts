@@ -0,0 +1,22 @@
+import { listUserSessions } from "~/server/services/auth/userSessions.js";
+
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user?.userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const sessions = await listUserSessions(user.userId);
+
+  return {
+    code: 200,
+    msg: "success",
+    data: sessions.map((session: { id: string }) => ({
+      ...session,
+      current: session.id === user.sid,
+    })),
+  };
+});
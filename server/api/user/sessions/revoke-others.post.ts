@@ -0,0 +1,25 @@
+import { USER_SESSION_REVOKE_REASONS } from "~/server/services/auth/userSessions.js";
+import { revokeSessionsAndDisconnect } from "~/server/utils/userSessions";
+
+// 退出除当前设备外的所有会话
+export default defineEventHandler(async (event) => {
+  const user = event.context.user;
+  if (!user?.userId) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: "请先登录",
+    });
+  }
+
+  const revokedIds = await revokeSessionsAndDisconnect({
+    userId: user.userId,
+    exceptSessionId: user.sid,
+    reason: USER_SESSION_REVOKE_REASONS.logoutOthers,
+  });
+
+  return {
+    code: 200,
+    msg: revokedIds.length > 0 ? `已退出 ${revokedIds.length} 个其他设备` : "没有其他登录设备",
+    data: { revoked: revokedIds.length },
+  };
+});
@@ -1,4 +1,6 @@
-import { verifyToken } from "../model/user";
+import { authenticateToken } from "../model/user";
+import { getRolePermissions, resolveAdminApiPermission } from "../services/auth/permissions.js";
+import { hasPermission } from "../../utils/adminPermissions.js";
 import type { H3Event } from 'h3';
 import type { JwtPayload } from 'jsonwebtoken';
 
@@ -15,6 +17,7 @@ export default defineEventHandler(async (event: H3Event) => {
             event.node.req.url?.startsWith("/api/user/activities") ||
             event.node.req.url?.startsWith("/api/user/stats") ||
             event.node.req.url?.startsWith("/api/user/profile") ||
+            event.node.req.url?.startsWith("/api/user/sessions") ||
             event.node.req.url?.startsWith("/api/upload") ||
             event.node.req.url?.startsWith("/api/forum/topics") && event.node.req.method === "POST" ||
             event.node.req.url?.startsWith("/api/user/forum") ||
@@ -22,6 +25,9 @@ export default defineEventHandler(async (event: H3Event) => {
             event.node.req.url?.startsWith("/api/chat") ||
             event.node.req.url?.startsWith("/api/user/checkin") ||
             event.node.req.url?.startsWith("/api/user/points") ||
+            event.node.req.url?.startsWith("/api/user/saved-searches") ||
+            event.node.req.url?.startsWith("/api/user/mention-mutes") ||
+            event.node.req.url?.startsWith("/api/resource-requests") && event.node.req.method !== "GET" ||
             (event.node.req.url?.startsWith("/api/user/protected") ?? false)
         );
 
@@ -47,22 +53,26 @@ export default defineEventHandler(async (event: H3Event) => {
                 message: "Invalid token format"
             });
         }
-        const user = verifyToken(token) as JwtPayload;
+        // 查库确认会话未被吊销，退出登录、改密码、禁用账号后立即失效
+        const user = await authenticateToken(token) as JwtPayload;
 
         if (!user) {
             throw createError({
-                statusCode: 403,
-                statusMessage: "Forbidden",
+                statusCode: 401,
+                statusMessage: "Unauthorized",
                 message: "Invalid or expired token"
             });
         }
 
-        // 检查管理员权限
-        if (isAdminRoute && user.role !== "admin") {
+        // 按路由权限表检查后台权限，未登记的后台接口只有拥有全部权限的角色能访问
+        user.permissions = await getRolePermissions(user.role);
+        // 先挂到上下文，被拒绝的后台操作也能记入审计日志
+        event.context.user = user;
+        if (isAdminRoute && !hasPermission(user.permissions, resolveAdminApiPermission(event.node.req.url))) {
             throw createError({
                 statusCode: 403,
                 statusMessage: "Access denied",
-                message: "Admin privileges required"
+                message: "Permission denied"
             });
         }
 
@@ -72,9 +82,6 @@ export default defineEventHandler(async (event: H3Event) => {
             setHeader(event, 'Pragma', 'no-cache');
             setHeader(event, 'Expires', '0');
         }
-
-        // 把用户信息添加到上下文中，供后续的 API 处理器使用
-        event.context.user = user;
     } catch (error: any) {
         // 如果是已经创建的错误，直接抛出
         if (error.statusCode) {
@@ -2,6 +2,11 @@ import { assertFeatureAccess } from "~/server/utils/featureAccess";
 import { resolveFeatureAccessKeysForPath } from "~/server/services/accessControl/featureAccessPolicy.mjs";
 
 export default defineEventHandler(async (event) => {
+  // 聚合搜索的子请求在入口处已经校验过权限
+  if (event.context.federatedSearch) {
+    return;
+  }
+
   const requestPath = (event.node.req.url || "").split("?")[0];
   const featureKeys = resolveFeatureAccessKeysForPath(requestPath);
 
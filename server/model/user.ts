@@ -3,10 +3,47 @@ import { useRuntimeConfig } from "#imports";
 import prisma from "~/lib/prisma";
 import type { JwtPayload } from "jsonwebtoken";
 import { hashPassword, verifyAndUpgradePassword } from "~/server/utils/password";
+import {
+  createUserSession,
+  getActiveUserSession,
+  getUserSessionOptions,
+  isSessionRevokedLocally,
+} from "~/server/services/auth/userSessions.js";
 
 const config = useRuntimeConfig();
 const JWT_SECRET = config.jwtSecret; // 从环境变量中读取 JWT 密钥
 
+type SessionClientInfo = {
+  userAgent?: string;
+  ip?: string;
+};
+
+// access token 只在短时间内有效，sid 指向 UserSession，用于吊销
+export const signAccessToken = (user: { id: number; role: string }, sessionId: string) => {
+  const { accessTokenTtlMinutes } = getUserSessionOptions();
+  return jwt.sign({ userId: user.id, role: user.role, sid: sessionId }, JWT_SECRET, {
+    expiresIn: accessTokenTtlMinutes * 60,
+  });
+};
+
+// 新建登录会话，返回 access token 和需要写入 HttpOnly cookie 的 refresh token
+export const issueSessionTokens = async (
+  user: { id: number; role: string },
+  clientInfo: SessionClientInfo = {},
+) => {
+  const { session, refreshToken } = await createUserSession({
+    userId: user.id,
+    userAgent: clientInfo.userAgent,
+    ip: clientInfo.ip,
+  });
+
+  return {
+    token: signAccessToken(user, session.id),
+    refreshToken,
+    session,
+  };
+};
+
 export const registerUser = async () => {
   const username = config.adminUser;
   const email = config.adminEmail;
@@ -24,25 +61,25 @@ export const registerUser = async () => {
     },
   });
 
-  const token = jwt.sign({ userId: user.id, role: user.role }, JWT_SECRET, { expiresIn: "1d" });
-  return { user, token };
+  const { token, refreshToken } = await issueSessionTokens(user);
+  return { user, token, refreshToken };
 };
 
-export const loginUser = async (email: string, password: string) => {
+export const loginUser = async (email: string, password: string, clientInfo: SessionClientInfo = {}) => {
   const user = await prisma.user.findUnique({
     where: {
       email,
     },
   });
-  if (!user) {
+  if (!user || user.status === "disabled") {
     return null;
   }
   const passwordResult = await verifyAndUpgradePassword(user, password);
   if (!passwordResult.isValid) {
     return null;
   }
-  const token = jwt.sign({ userId: user.id, role: user.role }, JWT_SECRET, { expiresIn: "1d" });
-  return { user, token };
+  const { token, refreshToken } = await issueSessionTokens(user, clientInfo);
+  return { user, token, refreshToken };
 };
 
 export const findUserByEmail = async (email: string) => {
@@ -54,11 +91,31 @@ export const findUserByEmail = async (email: string) => {
   return user;
 };
 
+// 同步校验签名和有效期；没有 sid 的旧 token 和本进程已吊销的会话一律视为无效
 export const verifyToken = (token: string) => {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+    if (!decoded.sid || isSessionRevokedLocally(decoded.sid)) {
+      return null;
+    }
     return decoded;
   } catch (err) {
     return null;
   }
 };
+
+// 在 verifyToken 基础上查库确认会话未吊销、用户未禁用，HTTP 鉴权中间件和 socket 握手使用
+export const authenticateToken = async (token: string) => {
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  const session = await getActiveUserSession(decoded.sid);
+  if (!session || session.userId !== decoded.userId) {
+    return null;
+  }
+
+  // 以库里的角色为准，调整角色后不必等 access token 过期
+  return { ...decoded, role: session.user.role };
+};
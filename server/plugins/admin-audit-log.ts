@@ -0,0 +1,63 @@
+import type { H3Event } from "h3";
+import {
+  appendAdminAuditLog,
+  isAuditableAdminRequest,
+} from "~/server/services/audit/adminAuditLog.js";
+
+let hooksRegistered = false;
+
+// 业务返回码优先（后台接口大多以 HTTP 200 返回 { code }），否则用 HTTP 状态码
+const resolveStatusCode = (event: H3Event, body: any) => {
+  if (typeof body?.code === "number") {
+    return body.code;
+  }
+  if (body?.success === false) {
+    return 400;
+  }
+  return event.node.res.statusCode;
+};
+
+const recordAudit = (event: H3Event, statusCode: number) => {
+  const details = event.context.adminAudit;
+  const user = event.context.user;
+  if (event.context.adminAuditRecorded || !user?.userId) {
+    return;
+  }
+  if (!details && !isAuditableAdminRequest(event.method, event.path)) {
+    return;
+  }
+
+  // 只记录一次，避免 error 和 beforeResponse 重复写入
+  event.context.adminAuditRecorded = true;
+  appendAdminAuditLog({
+    ...details,
+    actorId: user.userId,
+    method: event.method,
+    path: event.path,
+    statusCode,
+    ip: getRequestIP(event, { xForwardedFor: true }),
+    userAgent: getRequestHeader(event, "user-agent"),
+  }).catch((error) => {
+    console.error(`写入审计日志失败 ${event.method} ${event.path}:`, error);
+  });
+};
+
+export default defineNitroPlugin((nitroApp) => {
+  if (!process.server || hooksRegistered) {
+    return;
+  }
+
+  hooksRegistered = true;
+
+  nitroApp.hooks.hook("beforeResponse", (event, response) => {
+    recordAudit(event, resolveStatusCode(event, response?.body));
+  });
+
+  nitroApp.hooks.hook("error", (error: any, { event }) => {
+    if (!event) {
+      return;
+    }
+
+    recordAudit(event, error?.statusCode || 500);
+  });
+});
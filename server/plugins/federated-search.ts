@@ -0,0 +1,30 @@
+import {
+  FEDERATED_CLIENT_IP_HEADER,
+  FEDERATED_SEARCH_HEADER,
+  isTrustedFederatedRequest,
+} from "~/server/services/search/federatedSearch.mjs";
+
+let hooksRegistered = false;
+
+export default defineNitroPlugin((nitroApp) => {
+  if (!process.server || hooksRegistered) {
+    return;
+  }
+
+  hooksRegistered = true;
+
+  // 聚合搜索通过 event.$fetch 调用各搜索源，这里识别这些本地子请求，
+  // 并把真实客户端 IP 还原出来，保证各搜索源的按 IP 限流仍然生效
+  nitroApp.hooks.hook("request", (event) => {
+    const token = getRequestHeader(event, FEDERATED_SEARCH_HEADER);
+    if (!token || !isTrustedFederatedRequest(token)) {
+      return;
+    }
+
+    event.context.federatedSearch = true;
+    const clientIp = getRequestHeader(event, FEDERATED_CLIENT_IP_HEADER);
+    if (clientIp) {
+      event.context.clientAddress = clientIp;
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  getForumDigestOptions,
+  runForumDigests,
+} from "~/server/services/forum/forumDigests.mjs";
+
+let schedulerStarted = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+const scheduleTimer = (callback: () => void, delay: number) => {
+  const timer = setTimeout(callback, delay);
+  timer.unref?.();
+  return timer;
+};
+
+export default defineNitroPlugin(() => {
+  const options = getForumDigestOptions();
+  if (!process.server || schedulerStarted || !options.enabled) {
+    return;
+  }
+
+  schedulerStarted = true;
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+
+  const runCheck = async () => {
+    try {
+      const summary = await runForumDigests(options);
+      if (summary.sent > 0 || summary.failed > 0) {
+        console.log(
+          `论坛摘要检查完成：检查 ${summary.checked} 个，发送 ${summary.sent} 封，跳过 ${summary.skipped} 个，失败 ${summary.failed} 个`,
+        );
+      }
+    } catch (error) {
+      console.error("论坛摘要检查失败:", error);
+    }
+  };
+
+  const scheduleNextCheck = (delay: number) => {
+    checkTimer = scheduleTimer(async () => {
+      await runCheck();
+      scheduleNextCheck(intervalMs);
+    }, delay);
+  };
+
+  scheduleNextCheck(Math.min(intervalMs, 2 * 60 * 1000));
+});
@@ -0,0 +1,48 @@
+import { getLinkHealthOptions } from "~/server/services/userResources/linkHealth.js";
+import { runLinkHealthCheck } from "~/server/services/userResources/linkHealthRunner.js";
+
+let schedulerStarted = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+const scheduleTimer = (callback: () => void, delay: number) => {
+  const timer = setTimeout(callback, delay);
+  timer.unref?.();
+  return timer;
+};
+
+export default defineNitroPlugin(() => {
+  const options = getLinkHealthOptions();
+  if (!process.server || schedulerStarted || !options.enabled) {
+    return;
+  }
+
+  schedulerStarted = true;
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+
+  const runCheck = async () => {
+    try {
+      const result = await runLinkHealthCheck();
+      const checked = result.results.reduce(
+        (sum: number, item: { checked: number }) => sum + item.checked,
+        0,
+      );
+      const unpublished = result.results.reduce(
+        (sum: number, item: { unpublished: number }) => sum + item.unpublished,
+        0,
+      );
+      console.log(`资源链接健康检查完成：检查 ${checked} 个资源，下架 ${unpublished} 个`);
+    } catch (error) {
+      console.error("资源链接健康检查失败:", error);
+    }
+  };
+
+  const scheduleNextCheck = (delay: number) => {
+    checkTimer = scheduleTimer(async () => {
+      await runCheck();
+      scheduleNextCheck(intervalMs);
+    }, delay);
+  };
+
+  // 启动后稍等片刻再开始，避免和启动时的其他同步任务挤在一起
+  scheduleNextCheck(Math.min(intervalMs, 60 * 1000));
+});
@@ -0,0 +1,45 @@
+import {
+  expireResourceRequests,
+  getResourceRequestOptions,
+} from "~/server/services/points/resourceRequests.mjs";
+
+let schedulerStarted = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+const scheduleTimer = (callback: () => void, delay: number) => {
+  const timer = setTimeout(callback, delay);
+  timer.unref?.();
+  return timer;
+};
+
+export default defineNitroPlugin(() => {
+  if (!process.server || schedulerStarted) {
+    return;
+  }
+
+  schedulerStarted = true;
+  const options = getResourceRequestOptions();
+  const intervalMs = options.expireIntervalMinutes * 60 * 1000;
+
+  const runCheck = async () => {
+    try {
+      const summary = await expireResourceRequests();
+      if (summary.expired > 0 || summary.failed > 0) {
+        console.log(
+          `求资源过期检查完成：关闭 ${summary.expired} 个，退还 ${summary.refunded} 积分，失败 ${summary.failed} 个`,
+        );
+      }
+    } catch (error) {
+      console.error("求资源过期检查失败:", error);
+    }
+  };
+
+  const scheduleNextCheck = (delay: number) => {
+    checkTimer = scheduleTimer(async () => {
+      await runCheck();
+      scheduleNextCheck(intervalMs);
+    }, delay);
+  };
+
+  scheduleNextCheck(Math.min(intervalMs, 2 * 60 * 1000));
+});
@@ -0,0 +1,45 @@
+import {
+  getSavedSearchOptions,
+  runSavedSearchAlerts,
+} from "~/server/services/search/savedSearches.mjs";
+
+let schedulerStarted = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+const scheduleTimer = (callback: () => void, delay: number) => {
+  const timer = setTimeout(callback, delay);
+  timer.unref?.();
+  return timer;
+};
+
+export default defineNitroPlugin(() => {
+  const options = getSavedSearchOptions();
+  if (!process.server || schedulerStarted || !options.enabled) {
+    return;
+  }
+
+  schedulerStarted = true;
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+
+  const runCheck = async () => {
+    try {
+      const summary = await runSavedSearchAlerts(options);
+      if (summary.notified > 0 || summary.failed > 0) {
+        console.log(
+          `保存搜索检查完成：检查 ${summary.checked} 个，提醒 ${summary.notified} 个，邮件 ${summary.emailed} 封，失败 ${summary.failed} 个`,
+        );
+      }
+    } catch (error) {
+      console.error("保存搜索检查失败:", error);
+    }
+  };
+
+  const scheduleNextCheck = (delay: number) => {
+    checkTimer = scheduleTimer(async () => {
+      await runCheck();
+      scheduleNextCheck(intervalMs);
+    }, delay);
+  };
+
+  scheduleNextCheck(Math.min(intervalMs, 2 * 60 * 1000));
+});
@@ -0,0 +1,62 @@
+import type { H3Event } from "h3";
+import {
+  classifySearchSourceResponse,
+  getSearchSourceHealthOptions,
+  getSearchSourceId,
+  recordSearchSourceOutcome,
+} from "~/server/services/search/sourceHealth.mjs";
+
+let hooksRegistered = false;
+
+const recordOutcome = (event: H3Event, result: ReturnType<typeof classifySearchSourceResponse>) => {
+  const sourceId = event.context.searchSourceId;
+  const startedAt = event.context.searchSourceStartedAt;
+  if (!sourceId || !result) {
+    return;
+  }
+
+  // 只记录一次，避免 error 和 beforeResponse 重复统计
+  event.context.searchSourceId = undefined;
+  recordSearchSourceOutcome(sourceId, {
+    ...result,
+    latencyMs: Date.now() - startedAt,
+  }).catch((error) => {
+    console.error(`记录搜索源 ${sourceId} 健康状态失败:`, error);
+  });
+};
+
+export default defineNitroPlugin((nitroApp) => {
+  if (!process.server || hooksRegistered || !getSearchSourceHealthOptions().enabled) {
+    return;
+  }
+
+  hooksRegistered = true;
+
+  nitroApp.hooks.hook("request", (event) => {
+    if (event.method !== "POST") {
+      return;
+    }
+
+    const sourceId = getSearchSourceId(event.path);
+    if (sourceId) {
+      event.context.searchSourceId = sourceId;
+      event.context.searchSourceStartedAt = Date.now();
+    }
+  });
+
+  nitroApp.hooks.hook("beforeResponse", (event, response) => {
+    recordOutcome(event, classifySearchSourceResponse(response?.body));
+  });
+
+  nitroApp.hooks.hook("error", (error, { event }) => {
+    if (!event) {
+      return;
+    }
+
+    recordOutcome(event, {
+      outcome: "error",
+      resultCount: 0,
+      error: error?.message || "搜索源请求异常",
+    });
+  });
+});
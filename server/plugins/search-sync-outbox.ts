@@ -0,0 +1,93 @@
+import {
+  drainSearchSyncOutbox,
+  getSearchSyncOptions,
+  purgeDeliveredSearchSyncEvents,
+  reconcileSearchIndex,
+} from "~/server/services/search/searchSyncOutbox.js";
+import {
+  isResourceSearchConfigured,
+  isUserResourceSearchConfigured,
+} from "~/server/services/search/elasticsearchClient.js";
+
+let schedulerStarted = false;
+let drainTimer: NodeJS.Timeout | null = null;
+let reconcileTimer: NodeJS.Timeout | null = null;
+
+const scheduleTimer = (callback: () => void, delay: number) => {
+  const timer = setTimeout(callback, delay);
+  timer.unref?.();
+  return timer;
+};
+
+export default defineNitroPlugin(() => {
+  if (!process.server || schedulerStarted) {
+    return;
+  }
+
+  schedulerStarted = true;
+  const options = getSearchSyncOptions();
+  const intervalMs = options.intervalSeconds * 1000;
+  const reconcileIntervalMs = options.reconcileIntervalHours * 60 * 60 * 1000;
+
+  const runDrain = async () => {
+    try {
+      const summary = await drainSearchSyncOutbox({ options });
+      if (summary.retried > 0 || summary.failed > 0) {
+        console.warn(
+          `ES 同步队列：投递 ${summary.delivered} 条，等待重试 ${summary.retried} 条，放弃 ${summary.failed} 条`,
+        );
+      }
+      return summary.claimed;
+    } catch (error) {
+      console.error("ES 同步队列投递失败:", error);
+      return 0;
+    }
+  };
+
+  const scheduleNextDrain = (delay: number) => {
+    drainTimer = scheduleTimer(async () => {
+      const claimed = await runDrain();
+      // 一批取满说明还有积压，立即继续
+      scheduleNextDrain(claimed >= options.batchSize ? 0 : intervalMs);
+    }, delay);
+  };
+
+  const runReconcile = async () => {
+    const targets = [
+      ["resources", isResourceSearchConfigured()],
+      ["user-resources", isUserResourceSearchConfigured()],
+    ] as const;
+
+    for (const [target, configured] of targets) {
+      if (!configured) continue;
+      try {
+        const result = await reconcileSearchIndex(target);
+        if (result.missing > 0 || result.extra > 0) {
+          console.log(
+            `ES 索引对账（${target}）：缺失 ${result.missing} 条，多余 ${result.extra} 条，已加入同步队列`,
+          );
+        }
+      } catch (error) {
+        console.error(`ES 索引对账失败（${target}）:`, error);
+      }
+    }
+
+    try {
+      await purgeDeliveredSearchSyncEvents();
+    } catch (error) {
+      console.error("清理已完成的 ES 同步事件失败:", error);
+    }
+  };
+
+  const scheduleNextReconcile = (delay: number) => {
+    reconcileTimer = scheduleTimer(async () => {
+      await runReconcile();
+      scheduleNextReconcile(reconcileIntervalMs);
+    }, delay);
+  };
+
+  scheduleNextDrain(Math.min(intervalMs, 10 * 1000));
+  if (reconcileIntervalMs > 0) {
+    scheduleNextReconcile(Math.min(reconcileIntervalMs, 10 * 60 * 1000));
+  }
+});
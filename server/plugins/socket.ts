@@ -1,9 +1,10 @@
 import { Server } from 'socket.io';
-import { verifyToken } from '../model/user';
+import { authenticateToken } from '../model/user';
 import { createServer } from 'node:http';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { createClient } from 'redis';
 import { createRoom, joinRoom, getRoomById, getRooms, leaveRoom } from '../services/roomService';
+import { setSocketServer } from '../utils/socketServer';
 
 let io: Server | null = null;
 const normalizeRedisUrl = (value?: string) => value?.trim().replace(/^['"]|['"]$/g, '') || '';
@@ -29,6 +30,7 @@ export default defineNitroPlugin((nitroApp) => {
       pingTimeout: 30000,
       pingInterval: 25000
     });
+    setSocketServer(io);
 
     // 配置Redis适配器
     const REDIS_URL = normalizeRedisUrl(process.env.REDIS_URL);
@@ -95,7 +97,7 @@ export default defineNitroPlugin((nitroApp) => {
           return next(new Error('Authentication error: Token required'));
         }
 
-        const decoded = verifyToken(token);
+        const decoded = await authenticateToken(token);
         if (!decoded) {
           return next(new Error('Authentication error: Invalid token'));
         }
@@ -112,6 +114,8 @@ export default defineNitroPlugin((nitroApp) => {
         const username = socket.data.user.username || '用户';
         console.log(`User connected: ${userId} (${username})`);
         socket.join(`user:${userId}`);
+        // 会话被吊销时按这个房间断开连接
+        socket.join(`session:${socket.data.user.sid}`);
 
         // Add user to online users map
         onlineUsers.set(userId, {
@@ -97,7 +97,10 @@ export const shouldProtectFeatures = (config, featureKeys) => {
 };
 
 export const resolveFeatureAccessKeysForPath = (requestPath = "") => {
-  if (requestPath.startsWith("/api/sources/")) {
+  if (
+    requestPath.startsWith("/api/sources/") ||
+    requestPath === "/api/search/federated"
+  ) {
     return [FEATURE_ACCESS_KEYS.netdiskSearch];
   }
 
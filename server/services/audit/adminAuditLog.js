@@ -0,0 +1,403 @@
+import crypto from "node:crypto";
+
+// 后台操作审计日志：只追加不修改，每条记录的哈希包含上一条的哈希，
+// 中间任何一条被改动或删除都会让之后的链校验失败。
+
+export const ADMIN_AUDIT_GENESIS_HASH = "0".repeat(64);
+
+export const ADMIN_AUDIT_MUTATION_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// 追加时串行化读取链尾和写入，避免并发请求基于同一个 prevHash 分叉
+const AUDIT_CHAIN_LOCK_KEY = 720200001;
+const REDACTED = "[REDACTED]";
+const SENSITIVE_KEY_PATTERN = /password|passwd|secret|token|cookie|authorization|api[-_]?key|access[-_]?key|credential|private[-_]?key/i;
+const MAX_STRING_LENGTH = 2000;
+const MAX_ARRAY_ITEMS = 100;
+const MAX_DEPTH = 6;
+const CSV_EXPORT_MAX_ROWS = 10000;
+const ID_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f-]{27}|c[a-z0-9]{20,})$/i;
+
+const getDb = async (client) => client || (await import("~/lib/prisma")).default;
+
+const isPlainObject = (value) =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * 转成可稳定存为 JSON 的值：敏感字段打码，过长内容截断，Date 转 ISO 字符串
+ */
+export function sanitizeAuditValue(value, depth = 0) {
+  if (value === undefined || typeof value === "function" || typeof value === "symbol") {
+    return undefined;
+  }
+  if (value === null || typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[…]";
+  }
+  if (Array.isArray(value)) {
+    return value
+      .slice(0, MAX_ARRAY_ITEMS)
+      .map((item) => sanitizeAuditValue(item, depth + 1) ?? null);
+  }
+
+  const result = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (SENSITIVE_KEY_PATTERN.test(key)) {
+      result[key] = item === undefined || item === null || item === "" ? item ?? null : REDACTED;
+      continue;
+    }
+
+    const sanitized = sanitizeAuditValue(item, depth + 1);
+    if (sanitized !== undefined) {
+      result[key] = sanitized;
+    }
+  }
+  return result;
+}
+
+// 键排序后的 JSON，保证同一份数据入库再读出后哈希不变
+export function canonicalAuditJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalAuditJson(item)).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalAuditJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * 对比操作前后的字段，只保留变化的部分；敏感字段只记录“有变化”，不记录内容
+ */
+export function diffAuditValues(before, after) {
+  if (before === undefined && after === undefined) {
+    return null;
+  }
+
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    const from = sanitizeAuditValue(before) ?? null;
+    const to = sanitizeAuditValue(after) ?? null;
+    return canonicalAuditJson(from) === canonicalAuditJson(to) ? null : { value: { from, to } };
+  }
+
+  const diff = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of [...keys].sort()) {
+    if (canonicalAuditJson(before[key] ?? null) === canonicalAuditJson(after[key] ?? null)) {
+      continue;
+    }
+
+    diff[key] = SENSITIVE_KEY_PATTERN.test(key)
+      ? { from: REDACTED, to: REDACTED }
+      : { from: sanitizeAuditValue(before[key]) ?? null, to: sanitizeAuditValue(after[key]) ?? null };
+  }
+
+  return Object.keys(diff).length > 0 ? diff : null;
+}
+
+/**
+ * 从后台接口路径推断操作和对象：路径中的数字、UUID、cuid 视为对象 ID，ID 之前的路径是对象类型，
+ * 操作名是把 ID 换成 [id] 之后的路由，如 "POST /api/admin/forum/topics/[id]/trash"
+ */
+export function describeAdminRequest(method, path) {
+  const pathname = String(path || "").split("?")[0].replace(/\/+$/, "");
+  const segments = pathname.replace(/^\/api\/admin\/?/, "").split("/").filter(Boolean);
+
+  let targetId = null;
+  let targetType = segments[0] || null;
+  const routeSegments = segments.map((segment, index) => {
+    if (ID_SEGMENT_PATTERN.test(segment)) {
+      targetId = decodeURIComponent(segment);
+      targetType = segments.slice(0, index).join("/") || null;
+      return "[id]";
+    }
+    return segment;
+  });
+
+  return {
+    action: `${String(method || "").toUpperCase()} /api/admin/${routeSegments.join("/")}`.replace(/\/$/, ""),
+    targetType,
+    targetId,
+  };
+}
+
+export const isAuditableAdminRequest = (method, path) =>
+  ADMIN_AUDIT_MUTATION_METHODS.includes(String(method || "").toUpperCase())
+  && /^\/api\/admin(\/|$|\?)/.test(String(path || ""));
+
+const toNullableString = (value, maxLength) => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  return String(value).slice(0, maxLength);
+};
+
+/**
+ * 组装入库字段（不含哈希）；before/after 原样对比出 diff，再各自打码保存
+ */
+export function buildAdminAuditEntry(input = {}, now = new Date()) {
+  const request = describeAdminRequest(input.method, input.path);
+  const actorId = Number(input.actorId);
+
+  return {
+    actorId: Number.isInteger(actorId) && actorId > 0 ? actorId : null,
+    actorName: toNullableString(input.actorName, 100),
+    action: toNullableString(input.action, 200) || request.action,
+    method: String(input.method || "").toUpperCase().slice(0, 10),
+    path: String(input.path || "").split("?")[0].slice(0, 500),
+    targetType: toNullableString(input.targetType ?? request.targetType, 100),
+    targetId: toNullableString(input.targetId ?? request.targetId, 200),
+    statusCode: Number.isInteger(input.statusCode) ? input.statusCode : null,
+    ip: toNullableString(input.ip, 100),
+    userAgent: toNullableString(input.userAgent, 500),
+    before: sanitizeAuditValue(input.before) ?? null,
+    after: sanitizeAuditValue(input.after) ?? null,
+    diff: diffAuditValues(input.before, input.after),
+    createdAt: now,
+  };
+}
+
+const HASHED_FIELDS = [
+  "actorId",
+  "actorName",
+  "action",
+  "method",
+  "path",
+  "targetType",
+  "targetId",
+  "statusCode",
+  "ip",
+  "userAgent",
+  "before",
+  "after",
+  "diff",
+];
+
+export function computeAdminAuditHash(prevHash, entry) {
+  const payload = {};
+  for (const field of HASHED_FIELDS) {
+    payload[field] = entry[field] ?? null;
+  }
+  payload.createdAt = new Date(entry.createdAt).toISOString();
+
+  return crypto
+    .createHash("sha256")
+    .update(`${prevHash}\n${canonicalAuditJson(payload)}`)
+    .digest("hex");
+}
+
+/**
+ * 追加一条审计日志，链尾读取和写入在同一事务内并持有咨询锁
+ */
+export async function appendAdminAuditLog(input, { now = new Date(), client = undefined } = {}) {
+  const db = await getDb(client);
+
+  return db.$transaction(async (tx) => {
+    await tx.$executeRawUnsafe("SELECT pg_advisory_xact_lock($1)", AUDIT_CHAIN_LOCK_KEY);
+
+    const entry = buildAdminAuditEntry(input, now);
+    if (entry.actorId && !entry.actorName) {
+      const actor = await tx.user.findUnique({
+        where: { id: entry.actorId },
+        select: { username: true },
+      });
+      entry.actorName = actor?.username || null;
+    }
+
+    const last = await tx.adminAuditLog.findFirst({
+      orderBy: { id: "desc" },
+      select: { hash: true },
+    });
+    const prevHash = last?.hash || ADMIN_AUDIT_GENESIS_HASH;
+
+    // Prisma 的 Json 字段不接受 null，空值不传，入库为 SQL NULL，读回来仍是 null
+    return tx.adminAuditLog.create({
+      data: {
+        ...entry,
+        before: entry.before ?? undefined,
+        after: entry.after ?? undefined,
+        diff: entry.diff ?? undefined,
+        prevHash,
+        hash: computeAdminAuditHash(prevHash, entry),
+      },
+    });
+  });
+}
+
+/**
+ * 按 id 顺序重算整条哈希链，返回第一处断裂的位置
+ */
+export async function verifyAdminAuditChain({ batchSize = 500, client = undefined } = {}) {
+  const db = await getDb(client);
+  let expectedPrevHash = ADMIN_AUDIT_GENESIS_HASH;
+  let cursorId = 0;
+  let checked = 0;
+
+  while (true) {
+    const rows = await db.adminAuditLog.findMany({
+      where: { id: { gt: cursorId } },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    for (const row of rows) {
+      if (row.prevHash !== expectedPrevHash) {
+        return { valid: false, checked, brokenId: row.id, reason: "前一条记录缺失或被修改" };
+      }
+      if (computeAdminAuditHash(row.prevHash, row) !== row.hash) {
+        return { valid: false, checked, brokenId: row.id, reason: "记录内容与哈希不一致" };
+      }
+
+      expectedPrevHash = row.hash;
+      cursorId = row.id;
+      checked += 1;
+    }
+
+    if (rows.length < batchSize) {
+      return { valid: true, checked, brokenId: null, lastHash: checked > 0 ? expectedPrevHash : null };
+    }
+  }
+}
+
+const parseDate = (value) => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export function buildAdminAuditWhere(filters = {}) {
+  const where = {};
+  const actor = String(filters.actor || "").trim();
+  const action = String(filters.action || "").trim();
+  const targetType = String(filters.targetType || "").trim();
+  const targetId = String(filters.targetId || "").trim();
+  const from = parseDate(filters.from);
+  const to = parseDate(filters.to);
+
+  if (actor) {
+    where.OR = /^\d+$/.test(actor)
+      ? [{ actorId: Number(actor) }, { actorName: { contains: actor, mode: "insensitive" } }]
+      : [{ actorName: { contains: actor, mode: "insensitive" } }];
+  }
+  if (action) {
+    where.action = { contains: action, mode: "insensitive" };
+  }
+  if (targetType) {
+    where.targetType = targetType;
+  }
+  if (targetId) {
+    where.targetId = targetId;
+  }
+  if (filters.status === "success") {
+    where.statusCode = { lt: 400 };
+  } else if (filters.status === "failed") {
+    where.statusCode = { gte: 400 };
+  }
+  if (from || to) {
+    where.createdAt = {
+      ...(from ? { gte: from } : {}),
+      ...(to ? { lte: to } : {}),
+    };
+  }
+
+  return where;
+}
+
+export async function listAdminAuditLogs(filters = {}, { client = undefined } = {}) {
+  const db = await getDb(client);
+  const page = Math.max(Number.parseInt(String(filters.page || 1), 10) || 1, 1);
+  const pageSize = Math.min(Math.max(Number.parseInt(String(filters.pageSize || 20), 10) || 20, 1), 100);
+  const where = buildAdminAuditWhere(filters);
+
+  const [items, total, targetTypes] = await Promise.all([
+    db.adminAuditLog.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    db.adminAuditLog.count({ where }),
+    db.adminAuditLog.findMany({
+      where: { targetType: { not: null } },
+      distinct: ["targetType"],
+      select: { targetType: true },
+      orderBy: { targetType: "asc" },
+    }),
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    pageSize,
+    targetTypes: targetTypes.map((row) => row.targetType),
+  };
+}
+
+const CSV_COLUMNS = [
+  ["id", "ID"],
+  ["createdAt", "时间"],
+  ["actorId", "操作人ID"],
+  ["actorName", "操作人"],
+  ["action", "操作"],
+  ["method", "方法"],
+  ["path", "路径"],
+  ["targetType", "对象类型"],
+  ["targetId", "对象ID"],
+  ["statusCode", "结果"],
+  ["ip", "IP"],
+  ["diff", "变更"],
+  ["hash", "哈希"],
+];
+
+// 以 = + - @ 开头的单元格会被表格软件当成公式，前面加单引号
+export function escapeCsvCell(value) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAdminAuditCsv(rows) {
+  const lines = [CSV_COLUMNS.map(([, label]) => label).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([key]) => escapeCsvCell(row[key])).join(","));
+  }
+  // 带 BOM，Excel 打开中文不乱码
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+export async function exportAdminAuditLogsCsv(filters = {}, { client = undefined } = {}) {
+  const db = await getDb(client);
+  const rows = await db.adminAuditLog.findMany({
+    where: buildAdminAuditWhere(filters),
+    orderBy: { id: "desc" },
+    take: CSV_EXPORT_MAX_ROWS,
+  });
+
+  return formatAdminAuditCsv(rows);
+}
@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+
+import {
+  releaseEmailThrottleSlot,
+  reserveEmailThrottleSlot,
+} from "../email/emailThrottle.js";
+
+// 找回密码：邮件里的链接带一次性 token，库里只存哈希；重新申请会作废之前的链接。
+
+const EMAIL_THROTTLE_PREFIX = "aipan:password-reset-email";
+const EMAIL_THROTTLE_LABEL = "找回密码邮件";
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getPasswordResetOptions(env = process.env) {
+  return {
+    expireMinutes: parseIntOption(env.PASSWORD_RESET_EXPIRE_MINUTES, 30, 5, 24 * 60),
+    emailCooldownSeconds: parseIntOption(env.PASSWORD_RESET_EMAIL_COOLDOWN_SECONDS, 120, 30, 24 * 60 * 60),
+    ipMaxPerHour: parseIntOption(env.PASSWORD_RESET_IP_MAX_PER_HOUR, 10, 1, 1000),
+  };
+}
+
+export const normalizeResetEmail = (value) => String(value || "").trim().toLowerCase();
+
+export const hashPasswordResetToken = (token) =>
+  crypto.createHash("sha256").update(String(token || "")).digest("hex");
+
+const buildServiceError = (statusCode, statusMessage) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getDb = async (client) => client || (await import("~/lib/prisma")).default;
+
+/**
+ * 同一邮箱在冷却时间内只发一封；按邮箱哈希做 key，避免在 Redis 里留下明文邮箱
+ */
+export async function reservePasswordResetEmailSlot(email, options = getPasswordResetOptions()) {
+  const emailHash = crypto.createHash("sha256").update(normalizeResetEmail(email)).digest("hex");
+
+  return reserveEmailThrottleSlot(`${EMAIL_THROTTLE_PREFIX}:${emailHash}`, options.emailCooldownSeconds, {
+    label: EMAIL_THROTTLE_LABEL,
+  });
+}
+
+export async function releasePasswordResetEmailSlot(reservation) {
+  await releaseEmailThrottleSlot(reservation, { label: EMAIL_THROTTLE_LABEL });
+}
+
+/**
+ * 生成新的重置 token 并作废该用户之前未使用的链接，返回明文 token 用于拼邮件链接
+ */
+export async function createPasswordResetToken({
+  user,
+  ip = "",
+  now = new Date(),
+  options = getPasswordResetOptions(),
+  client = undefined,
+}) {
+  const db = await getDb(client);
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(now.getTime() + options.expireMinutes * 60 * 1000);
+
+  await db.passwordResetToken.updateMany({
+    where: { userId: user.id, consumedAt: null },
+    data: { consumedAt: now },
+  });
+  await db.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      emailSnapshot: user.email,
+      tokenHash: hashPasswordResetToken(token),
+      requestedIp: ip || null,
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * 校验并消费重置 token，成功时返回对应用户；条件更新保证同一链接只能用一次
+ */
+export async function consumePasswordResetToken(token, { now = new Date(), client = undefined } = {}) {
+  if (!token) {
+    throw buildServiceError(400, "缺少重置参数");
+  }
+
+  const db = await getDb(client);
+  const record = await db.passwordResetToken.findUnique({
+    where: { tokenHash: hashPasswordResetToken(token) },
+    include: { user: true },
+  });
+
+  if (!record) {
+    throw buildServiceError(400, "重置链接无效或已过期");
+  }
+  if (record.consumedAt) {
+    throw buildServiceError(400, "该重置链接已失效，请重新申请");
+  }
+  if (record.expiresAt.getTime() < now.getTime()) {
+    throw buildServiceError(400, "重置链接已过期，请重新申请");
+  }
+  if (normalizeResetEmail(record.user.email) !== normalizeResetEmail(record.emailSnapshot)) {
+    throw buildServiceError(400, "账号邮箱已变更，请重新申请");
+  }
+  if (record.user.status === "disabled") {
+    throw buildServiceError(403, "账号已被禁用");
+  }
+
+  const { count } = await db.passwordResetToken.updateMany({
+    where: { id: record.id, consumedAt: null },
+    data: { consumedAt: now },
+  });
+  if (count === 0) {
+    throw buildServiceError(400, "该重置链接已失效，请重新申请");
+  }
+
+  return record.user;
+}
@@ -0,0 +1,255 @@
+import {
+  ADMIN_PERMISSION_KEYS,
+  ALL_PERMISSIONS,
+  BUILTIN_ROLES,
+  BUILTIN_ROLE_KEYS,
+  hasPermission,
+  matchPathPermission,
+} from "../../../utils/adminPermissions.js";
+
+// 后台接口路径前缀 → 所需权限（数组表示满足其一），按最长前缀匹配；未登记的 /api/admin 接口只有 admin 能访问
+export const ADMIN_API_PERMISSIONS = {
+  "/api/admin/blog": "content.manage",
+  "/api/admin/blog/posts/approve": "content.review",
+  "/api/admin/blog/posts/reject": "content.review",
+  "/api/admin/blog/comments": "content.review",
+  "/api/admin/releases": "content.manage",
+  "/api/admin/navigation": "content.manage",
+  "/api/admin/user-posts": "content.review",
+  "/api/admin/resources": "resources.manage",
+  "/api/admin/resources/search": "search.manage",
+  "/api/admin/resourcesType": "resources.manage",
+  "/api/admin/alist": "resources.manage",
+  "/api/admin/clouddrive": "resources.manage",
+  "/api/admin/link-health": "resources.manage",
+  "/api/admin/user-resources": "resources.review",
+  "/api/admin/user-resources/search": "search.manage",
+  "/api/admin/search": "search.manage",
+  "/api/admin/search-index": "search.manage",
+  "/api/admin/search-sync": "search.manage",
+  "/api/admin/settings/search-synonyms": "search.manage",
+  "/api/admin/forum": "forum.moderate",
+  "/api/admin/reports": "forum.moderate",
+  "/api/admin/chat": "chat.manage",
+  "/api/admin/users": "users.manage",
+  "/api/admin/user-center": "users.manage",
+  // 用户管理页需要读取角色列表，增删改角色在接口内再校验 roles.manage
+  "/api/admin/roles": ["roles.manage", "users.manage"],
+  "/api/admin/points": "points.grant",
+  "/api/admin/settings": "settings.write",
+  "/api/admin/database-backups": "backups.download",
+  "/api/admin/audit-logs": "audit.view",
+  // 控制面板的统计卡片
+  "/api/admin/blog/posts/stats": "dashboard.view",
+  "/api/admin/alist/stats": "dashboard.view",
+  "/api/admin/clouddrive/stats": "dashboard.view",
+  "/api/admin/forum/topics/stats": "dashboard.view",
+  "/api/admin/chat/stats": "dashboard.view",
+  "/api/admin/user-center/stats": "dashboard.view",
+};
+
+const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_-]{1,31}$/;
+const CUSTOM_ROLE_CACHE_TTL_MS = 30 * 1000;
+
+let customRoleCache = null;
+
+const buildServiceError = (statusCode, statusMessage) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getDb = async (client) => client || (await import("~/lib/prisma")).default;
+
+export const resolveAdminApiPermission = (path) =>
+  matchPathPermission(ADMIN_API_PERMISSIONS, path) || ALL_PERMISSIONS;
+
+// 操作者是否拥有 permissions 中的每一项；"*" 只能被 "*" 覆盖
+export const coversPermissions = (actorPermissions, permissions) =>
+  permissions.every((permission) => hasPermission(actorPermissions, permission));
+
+export function invalidateRolePermissionCache() {
+  customRoleCache = null;
+}
+
+async function loadCustomRoles({ now = Date.now(), client = undefined } = {}) {
+  if (customRoleCache && customRoleCache.expiresAt > now) {
+    return customRoleCache.roles;
+  }
+
+  const db = await getDb(client);
+  const rows = await db.customRole.findMany({ orderBy: { createdAt: "asc" } });
+  const roles = new Map(rows.map((row) => [row.key, row]));
+  customRoleCache = { roles, expiresAt: now + CUSTOM_ROLE_CACHE_TTL_MS };
+  return roles;
+}
+
+/**
+ * 角色对应的后台权限；自定义角色在进程内缓存 30 秒，保存角色时主动失效
+ */
+export async function getRolePermissions(role, { now = Date.now(), client = undefined } = {}) {
+  const builtin = BUILTIN_ROLES.find((item) => item.key === role);
+  if (builtin) {
+    return builtin.permissions;
+  }
+  if (!role) {
+    return [];
+  }
+
+  const roles = await loadCustomRoles({ now, client });
+  return roles.get(role)?.permissions || [];
+}
+
+/**
+ * 内置角色和自定义角色列表，附带各角色的用户数
+ */
+export async function listRoles({ client = undefined } = {}) {
+  const db = await getDb(client);
+  const [customRoles, counts] = await Promise.all([
+    db.customRole.findMany({ orderBy: { createdAt: "asc" } }),
+    db.user.groupBy({ by: ["role"], _count: { _all: true } }),
+  ]);
+  const userCounts = new Map(counts.map((row) => [row.role, row._count._all]));
+
+  return [
+    ...BUILTIN_ROLES.map((role) => ({
+      ...role,
+      description: null,
+      builtin: true,
+      userCount: userCounts.get(role.key) || 0,
+    })),
+    ...customRoles.map((role) => ({
+      key: role.key,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtin: false,
+      userCount: userCounts.get(role.key) || 0,
+    })),
+  ];
+}
+
+export function normalizeCustomRoleInput(input = {}) {
+  const name = String(input.name || "").trim();
+  const description = String(input.description || "").trim();
+  const permissions = [...new Set(Array.isArray(input.permissions) ? input.permissions : [])].filter(
+    (permission) => ADMIN_PERMISSION_KEYS.includes(permission)
+  );
+
+  if (!name || name.length > 50) {
+    throw buildServiceError(400, "角色名称需在1-50个字符之间");
+  }
+  if (description.length > 200) {
+    throw buildServiceError(400, "角色说明不能超过200个字符");
+  }
+  if (permissions.length === 0) {
+    throw buildServiceError(400, "请至少选择一项权限");
+  }
+
+  return { name, description: description || null, permissions };
+}
+
+const assertCanGrantPermissions = (actorPermissions, permissions) => {
+  if (!coversPermissions(actorPermissions, permissions)) {
+    throw buildServiceError(403, "不能授予自己没有的权限");
+  }
+};
+
+export async function createCustomRole(input = {}, { actorPermissions = undefined, client = undefined } = {}) {
+  const key = String(input.key || "").trim().toLowerCase();
+  if (!ROLE_KEY_PATTERN.test(key)) {
+    throw buildServiceError(400, "角色标识需以小写字母开头，只能包含小写字母、数字、- 和 _，长度2-32");
+  }
+  if (BUILTIN_ROLE_KEYS.includes(key)) {
+    throw buildServiceError(400, "不能使用内置角色的标识");
+  }
+
+  const data = normalizeCustomRoleInput(input);
+  assertCanGrantPermissions(actorPermissions, data.permissions);
+  const db = await getDb(client);
+  const existing = await db.customRole.findUnique({ where: { key } });
+  if (existing) {
+    throw buildServiceError(400, "角色标识已存在");
+  }
+
+  const role = await db.customRole.create({ data: { key, ...data } });
+  invalidateRolePermissionCache();
+  return role;
+}
+
+export async function updateCustomRole(key, input = {}, { actorPermissions = undefined, client = undefined } = {}) {
+  if (BUILTIN_ROLE_KEYS.includes(key)) {
+    throw buildServiceError(400, "内置角色不可修改");
+  }
+
+  const data = normalizeCustomRoleInput(input);
+  assertCanGrantPermissions(actorPermissions, data.permissions);
+  const db = await getDb(client);
+  const existing = await db.customRole.findUnique({ where: { key } });
+  if (!existing) {
+    throw buildServiceError(404, "角色不存在");
+  }
+  assertCanGrantPermissions(actorPermissions, existing.permissions);
+
+  const role = await db.customRole.update({ where: { key }, data });
+  invalidateRolePermissionCache();
+  return role;
+}
+
+export async function deleteCustomRole(key, { actorPermissions = undefined, client = undefined } = {}) {
+  if (BUILTIN_ROLE_KEYS.includes(key)) {
+    throw buildServiceError(400, "内置角色不可删除");
+  }
+
+  const db = await getDb(client);
+  const existing = await db.customRole.findUnique({ where: { key } });
+  if (!existing) {
+    throw buildServiceError(404, "角色不存在");
+  }
+  assertCanGrantPermissions(actorPermissions, existing.permissions);
+
+  const userCount = await db.user.count({ where: { role: key } });
+  if (userCount > 0) {
+    throw buildServiceError(400, `仍有 ${userCount} 个用户使用该角色，请先调整这些用户的角色`);
+  }
+
+  await db.customRole.delete({ where: { key } });
+  invalidateRolePermissionCache();
+}
+
+/**
+ * 校验操作者能否把用户角色从 fromRole 改为 toRole：需要 roles.manage，
+ * 且新旧角色的权限都不能超出操作者自己的权限，避免越权提权或降级更高权限的账号
+ */
+export async function assertCanAssignRole({ actorPermissions, fromRole, toRole, client = undefined }) {
+  if (fromRole === toRole) {
+    return;
+  }
+  if (!hasPermission(actorPermissions, "roles.manage")) {
+    throw buildServiceError(403, "没有分配角色的权限");
+  }
+
+  const db = await getDb(client);
+  const isBuiltin = BUILTIN_ROLE_KEYS.includes(toRole);
+  if (!isBuiltin && !(await db.customRole.findUnique({ where: { key: toRole } }))) {
+    throw buildServiceError(400, "角色不存在");
+  }
+
+  const [fromPermissions, toPermissions] = await Promise.all([
+    getRolePermissions(fromRole, { client }),
+    getRolePermissions(toRole, { client }),
+  ]);
+  if (!coversPermissions(actorPermissions, [...fromPermissions, ...toPermissions])) {
+    throw buildServiceError(403, "不能分配或撤销超出自身权限的角色");
+  }
+}
+
+/**
+ * 权限高于操作者的账号不能被其编辑、禁用或删除
+ */
+export async function assertCanManageUser({ actorPermissions, targetRole, client = undefined }) {
+  const targetPermissions = await getRolePermissions(targetRole, { client });
+  if (!coversPermissions(actorPermissions, targetPermissions)) {
+    throw buildServiceError(403, "没有权限操作权限更高的账号");
+  }
+}
@@ -0,0 +1,272 @@
+import crypto from "node:crypto";
+
+// 登录会话：access token 短期有效并带会话 id（sid），refresh token 只在库里存哈希，每次刷新都轮换。
+// 吊销会话后，HTTP 中间件和 socket 鉴权查库即可拒绝；同步校验 token 的地方靠本进程的吊销记录。
+
+export const USER_SESSION_REVOKE_REASONS = {
+  logout: "logout",
+  logoutOthers: "logout_others",
+  passwordChanged: "password_changed",
+  passwordReset: "password_reset",
+  userDisabled: "user_disabled",
+  userDeleted: "user_deleted",
+  refreshTokenReused: "refresh_token_reused",
+};
+
+// 多个标签页同时刷新时，落后的请求会带着上一个 refresh token，宽限期内不当作重放
+const ROTATION_GRACE_MS = 30 * 1000;
+const LAST_SEEN_UPDATE_MS = 60 * 1000;
+const REVOKED_SESSION_RETENTION_DAYS = 30;
+const MAX_USER_AGENT_LENGTH = 500;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getUserSessionOptions(env = process.env) {
+  return {
+    accessTokenTtlMinutes: parseIntOption(env.AUTH_ACCESS_TOKEN_TTL_MINUTES, 15, 1, 24 * 60),
+    refreshTokenTtlDays: parseIntOption(env.AUTH_REFRESH_TOKEN_TTL_DAYS, 30, 1, 365),
+  };
+}
+
+export const hashRefreshToken = (token) =>
+  crypto.createHash("sha256").update(String(token || "")).digest("hex");
+
+export const generateRefreshToken = () => crypto.randomBytes(32).toString("base64url");
+
+const BROWSER_PATTERNS = [
+  ["Edge", /Edg(?:e|A|iOS)?\//],
+  ["Opera", /OPR\//],
+  ["微信", /MicroMessenger\//],
+  ["QQ浏览器", /QQBrowser\//],
+  ["Firefox", /Firefox\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Version\/[\d.]+.*Safari\//],
+];
+const OS_PATTERNS = [
+  ["iPhone", /iPhone/],
+  ["iPad", /iPad/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/],
+];
+
+/**
+ * 从 User-Agent 粗略解析出「Chrome · Windows」这样的设备描述
+ */
+export function describeUserAgent(userAgent) {
+  const text = String(userAgent || "");
+  const browser = BROWSER_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+  const os = OS_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  return [browser, os].filter(Boolean).join(" · ") || "未知设备";
+}
+
+// 本进程内最近吊销的会话：sessionId -> 过期时间，超过 access token 有效期后自然失效，无需再记
+const revokedSessionIds = new Map();
+
+export function markSessionsRevoked(sessionIds, { now = new Date(), options = getUserSessionOptions() } = {}) {
+  const expiresAt = now.getTime() + options.accessTokenTtlMinutes * 60 * 1000;
+  for (const [sessionId, expiry] of revokedSessionIds) {
+    if (expiry <= now.getTime()) {
+      revokedSessionIds.delete(sessionId);
+    }
+  }
+  for (const sessionId of sessionIds) {
+    revokedSessionIds.set(sessionId, expiresAt);
+  }
+}
+
+export function isSessionRevokedLocally(sessionId, now = new Date()) {
+  const expiry = revokedSessionIds.get(sessionId);
+  return Boolean(expiry && expiry > now.getTime());
+}
+
+const getDb = async (client) => client || (await import("~/lib/prisma")).default;
+
+const isSessionActive = (session, now) =>
+  Boolean(session && !session.revokedAt && session.expiresAt > now && session.user?.status !== "disabled");
+
+const SESSION_USER_SELECT = { id: true, username: true, role: true, status: true };
+
+/**
+ * 登录成功后创建会话，顺带清理该用户已过期或吊销较久的旧会话
+ */
+export async function createUserSession({
+  userId,
+  userAgent = "",
+  ip = "",
+  now = new Date(),
+  options = getUserSessionOptions(),
+  client = undefined,
+}) {
+  const db = await getDb(client);
+  const refreshToken = generateRefreshToken();
+  const retentionStart = new Date(now.getTime() - REVOKED_SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.userSession.deleteMany({
+    where: {
+      userId,
+      OR: [{ expiresAt: { lt: now } }, { revokedAt: { lt: retentionStart } }],
+    },
+  });
+
+  const session = await db.userSession.create({
+    data: {
+      userId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      deviceName: describeUserAgent(userAgent),
+      userAgent: String(userAgent || "").slice(0, MAX_USER_AGENT_LENGTH) || null,
+      ip: ip || null,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + options.refreshTokenTtlDays * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  return { session, refreshToken };
+}
+
+/**
+ * 用 refresh token 换新的 refresh token。返回的 status：
+ * rotated 已轮换；grace 并发刷新落后的请求，只补发 access token；reused 旧 token 被重放，整个会话已吊销；invalid 无效
+ */
+export async function rotateUserSession(
+  refreshToken,
+  { userAgent = "", ip = "", now = new Date(), options = getUserSessionOptions(), client = undefined } = {}
+) {
+  if (!refreshToken) {
+    return { status: "invalid" };
+  }
+
+  const db = await getDb(client);
+  const tokenHash = hashRefreshToken(refreshToken);
+  const session = await db.userSession.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: SESSION_USER_SELECT } },
+  });
+
+  if (!session) {
+    const previous = await db.userSession.findUnique({
+      where: { previousRefreshTokenHash: tokenHash },
+      include: { user: { select: SESSION_USER_SELECT } },
+    });
+    if (!isSessionActive(previous, now)) {
+      return { status: "invalid" };
+    }
+    if (previous.rotatedAt && now.getTime() - previous.rotatedAt.getTime() <= ROTATION_GRACE_MS) {
+      return { status: "grace", session: previous };
+    }
+
+    await revokeUserSessions({
+      userId: previous.userId,
+      sessionIds: [previous.id],
+      reason: USER_SESSION_REVOKE_REASONS.refreshTokenReused,
+      now,
+      options,
+      client: db,
+    });
+    return { status: "reused", session: previous };
+  }
+
+  if (!isSessionActive(session, now)) {
+    return { status: "invalid" };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  // 条件更新保证同一个 refresh token 只能成功轮换一次
+  const { count } = await db.userSession.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      previousRefreshTokenHash: tokenHash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      ip: ip || session.ip,
+      userAgent: String(userAgent || "").slice(0, MAX_USER_AGENT_LENGTH) || session.userAgent,
+    },
+  });
+  if (count === 0) {
+    return { status: "grace", session };
+  }
+
+  return { status: "rotated", session, refreshToken: nextRefreshToken };
+}
+
+/**
+ * 校验 access token 对应的会话仍然有效（未吊销、未过期、用户未禁用），有效时顺带刷新最近活跃时间
+ */
+export async function getActiveUserSession(sessionId, { now = new Date(), client = undefined } = {}) {
+  if (!sessionId || isSessionRevokedLocally(sessionId, now)) {
+    return null;
+  }
+
+  const db = await getDb(client);
+  const session = await db.userSession.findUnique({
+    where: { id: String(sessionId) },
+    include: { user: { select: SESSION_USER_SELECT } },
+  });
+  if (!isSessionActive(session, now)) {
+    return null;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_MS) {
+    db.userSession
+      .update({ where: { id: session.id }, data: { lastSeenAt: now } })
+      .catch((error) => console.error("更新会话活跃时间失败:", error));
+  }
+
+  return session;
+}
+
+export async function listUserSessions(userId, { now = new Date(), client = undefined } = {}) {
+  const db = await getDb(client);
+  const sessions = await db.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: now } },
+    orderBy: { lastSeenAt: "desc" },
+    select: { id: true, deviceName: true, ip: true, lastSeenAt: true, createdAt: true },
+  });
+
+  return sessions;
+}
+
+/**
+ * 吊销会话：sessionIds 指定具体会话，不传则吊销该用户全部会话（exceptSessionId 除外）。返回被吊销的会话 id
+ */
+export async function revokeUserSessions({
+  userId,
+  sessionIds,
+  exceptSessionId,
+  reason,
+  now = new Date(),
+  options = getUserSessionOptions(),
+  client = undefined,
+}) {
+  const db = await getDb(client);
+  const where = {
+    userId,
+    revokedAt: null,
+    ...(sessionIds ? { id: { in: sessionIds } } : {}),
+    ...(exceptSessionId ? { NOT: { id: exceptSessionId } } : {}),
+  };
+
+  const sessions = await db.userSession.findMany({ where, select: { id: true } });
+  const ids = sessions.map((session) => session.id);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  await db.userSession.updateMany({
+    where: { id: { in: ids }, revokedAt: null },
+    data: { revokedAt: now, revokedReason: reason },
+  });
+  markSessionsRevoked(ids, { now, options });
+
+  return ids;
+}
@@ -0,0 +1,118 @@
+const memoryThrottle = new Map();
+let memoryThrottleOps = 0;
+const MEMORY_THROTTLE_GC_INTERVAL = 100;
+const loggedUnavailableLabels = new Set();
+
+const logRedisThrottleUnavailable = (label, error) => {
+  if (loggedUnavailableLabels.has(label)) {
+    return;
+  }
+
+  loggedUnavailableLabels.add(label);
+  console.warn(`${label} Redis 限流不可用，降级为进程内限流:`, error);
+};
+
+const evictExpiredMemoryThrottleEntries = () => {
+  memoryThrottleOps += 1;
+  if (memoryThrottleOps < MEMORY_THROTTLE_GC_INTERVAL) {
+    return;
+  }
+
+  memoryThrottleOps = 0;
+  const now = Date.now();
+  for (const [k, v] of memoryThrottle) {
+    if (v.expiresAt <= now) {
+      memoryThrottle.delete(k);
+    }
+  }
+};
+
+const reserveMemoryEmailSlot = (key, windowSeconds) => {
+  evictExpiredMemoryThrottleEntries();
+
+  const now = Date.now();
+  const existing = memoryThrottle.get(key);
+
+  if (existing && existing.expiresAt > now) {
+    return {
+      allowed: false,
+      backend: "memory",
+      key,
+      ttlSeconds: Math.max(Math.ceil((existing.expiresAt - now) / 1000), 1),
+    };
+  }
+
+  memoryThrottle.set(key, {
+    expiresAt: now + windowSeconds * 1000,
+  });
+
+  return {
+    allowed: true,
+    backend: "memory",
+    key,
+  };
+};
+
+async function getRedisClient() {
+  const redisModule = await import("~/server/utils/redis");
+  return redisModule.getRedisClient();
+}
+
+/**
+ * 邮件限流：同一个 key 在窗口期内只放行一次。优先用 Redis 保证多实例一致，
+ * Redis 不可用时降级为进程内限流
+ */
+export async function reserveEmailThrottleSlot(key, windowSeconds, { label = "邮件" } = {}) {
+  try {
+    const client = await getRedisClient();
+    if (client) {
+      const result = await client.set(key, "1", {
+        NX: true,
+        EX: windowSeconds,
+      });
+
+      if (result === "OK") {
+        return {
+          allowed: true,
+          backend: "redis",
+          key,
+        };
+      }
+
+      const ttlSeconds = await client.ttl(key).catch(() => null);
+      return {
+        allowed: false,
+        backend: "redis",
+        key,
+        ttlSeconds: ttlSeconds && ttlSeconds > 0 ? ttlSeconds : null,
+      };
+    }
+  } catch (error) {
+    logRedisThrottleUnavailable(label, error);
+  }
+
+  return reserveMemoryEmailSlot(key, windowSeconds);
+}
+
+/**
+ * 邮件发送失败时归还名额，下次仍可发送
+ */
+export async function releaseEmailThrottleSlot(reservation, { label = "邮件" } = {}) {
+  if (!reservation?.allowed || !reservation.key) {
+    return;
+  }
+
+  if (reservation.backend === "redis") {
+    try {
+      const client = await getRedisClient();
+      await client?.del(reservation.key);
+    } catch (error) {
+      logRedisThrottleUnavailable(label, error);
+    }
+    return;
+  }
+
+  if (reservation.backend === "memory") {
+    memoryThrottle.delete(reservation.key);
+  }
+}
@@ -36,3 +36,42 @@ export const getEmailVerificationTemplate = ({
     ].join("\n"),
   };
 };
+
+export const getPasswordResetTemplate = ({
+  userName,
+  resetLink,
+  expireMinutes,
+}: {
+  userName?: string | null;
+  resetLink: string;
+  expireMinutes: number;
+}) => {
+  const displayName = userName?.trim() || "用户";
+
+  return {
+    subject: "重置你的登录密码",
+    html: `
+      <div style="font-family:Arial,sans-serif;line-height:1.6;color:#111827;max-width:640px;margin:0 auto;padding:24px;">
+        <h2 style="margin:0 0 16px;">重置密码</h2>
+        <p>${displayName}，你好：</p>
+        <p>我们收到了重置你账号密码的请求，请点击下面的按钮设置新密码。</p>
+        <p style="margin:24px 0;">
+          <a href="${resetLink}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:8px;">设置新密码</a>
+        </p>
+        <p>如果按钮无法点击，请复制下面的链接到浏览器打开：</p>
+        <p style="word-break:break-all;color:#2563eb;">${resetLink}</p>
+        <p>该链接将在 ${expireMinutes} 分钟后失效，且只能使用一次。重置成功后，所有设备上的登录都会失效。</p>
+        <p>如果这不是你的操作，请忽略这封邮件，你的密码不会改变。</p>
+      </div>
+    `,
+    text: [
+      `${displayName}，你好：`,
+      "",
+      "我们收到了重置你账号密码的请求，请使用下面的链接设置新密码：",
+      resetLink,
+      "",
+      `该链接将在 ${expireMinutes} 分钟后失效，且只能使用一次。重置成功后，所有设备上的登录都会失效。`,
+      "如果这不是你的操作，请忽略这封邮件，你的密码不会改变。",
+    ].join("\n"),
+  };
+};
@@ -0,0 +1,286 @@
+import { FORUM_DIGEST_FREQUENCIES } from "./subscriptions.mjs";
+import { buildPublicForumTopicWhere } from "./topicTrash.mjs";
+
+// 论坛摘要邮件：按用户设置的每日/每周频率，汇总关注主题的新回复和关注板块的新主题。
+// 没有新动态时不发邮件，只推进统计窗口；发送失败时保留窗口，下次检查重试。
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FORUM_DIGEST_PERIOD_MS = {
+  [FORUM_DIGEST_FREQUENCIES.daily]: DAY_MS,
+  [FORUM_DIGEST_FREQUENCIES.weekly]: 7 * DAY_MS,
+};
+
+export const FORUM_DIGEST_LIMITS = {
+  itemsPerSection: 10,
+};
+
+const FREQUENCY_LABELS = {
+  [FORUM_DIGEST_FREQUENCIES.daily]: "每日",
+  [FORUM_DIGEST_FREQUENCIES.weekly]: "每周",
+};
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  return ["1", "true", "yes", "on"].includes(String(value).toLowerCase());
+};
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const escapeHtml = (value) =>
+  String(value || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+export const getForumDigestOptions = (env = process.env) => ({
+  enabled: parseBoolean(env.FORUM_DIGEST_ENABLED, true),
+  intervalMinutes: parseIntOption(env.FORUM_DIGEST_CHECK_INTERVAL_MINUTES, 60, 5, 1440),
+  batchSize: parseIntOption(env.FORUM_DIGEST_BATCH_SIZE, 200, 1, 2000),
+});
+
+/**
+ * 计算这次摘要的统计窗口，未到发送时间或已关闭时返回 null；
+ * 从未发送过的用户从一个周期前开始统计
+ */
+export const getForumDigestWindow = ({ preference, now = new Date() }) => {
+  const period = FORUM_DIGEST_PERIOD_MS[preference?.frequency];
+  if (!period) {
+    return null;
+  }
+
+  const lastSentAt = preference.lastSentAt ? new Date(preference.lastSentAt) : null;
+  if (lastSentAt && now.getTime() - lastSentAt.getTime() < period) {
+    return null;
+  }
+
+  return {
+    since: lastSentAt || new Date(now.getTime() - period),
+    until: now,
+  };
+};
+
+/**
+ * 查询窗口内关注内容的新动态，不包含用户自己发的主题和回复
+ */
+export const collectForumDigestActivity = async ({ userId, since, until, prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const subscriptions = await db.forumSubscription.findMany({
+    where: { userId },
+    select: { topicId: true, categoryId: true },
+  });
+  const topicIds = subscriptions.map((item) => item.topicId).filter(Boolean);
+  const categoryIds = subscriptions.map((item) => item.categoryId).filter(Boolean);
+  const createdAt = { gt: since, lte: until };
+
+  const [replyGroups, newTopics] = await Promise.all([
+    topicIds.length > 0
+      ? db.forumPost.groupBy({
+          by: ["topicId"],
+          where: { topicId: { in: topicIds }, status: "approved", authorId: { not: userId }, createdAt },
+          _count: { _all: true },
+        })
+      : [],
+    categoryIds.length > 0
+      ? db.forumTopic.findMany({
+          where: buildPublicForumTopicWhere({ categoryId: { in: categoryIds }, authorId: { not: userId }, createdAt }),
+          orderBy: { createdAt: "desc" },
+          take: FORUM_DIGEST_LIMITS.itemsPerSection,
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            author: { select: { username: true } },
+            category: { select: { name: true } },
+          },
+        })
+      : [],
+  ]);
+
+  const replyCounts = new Map(replyGroups.map((group) => [group.topicId, group._count._all]));
+  const repliedTopics =
+    replyCounts.size > 0
+      ? await db.forumTopic.findMany({
+          where: buildPublicForumTopicWhere({ id: { in: [...replyCounts.keys()] } }),
+          select: { id: true, title: true, slug: true },
+        })
+      : [];
+
+  return {
+    topics: repliedTopics
+      .map((topic) => ({ ...topic, newReplies: replyCounts.get(topic.id) || 0 }))
+      .sort((left, right) => right.newReplies - left.newReplies)
+      .slice(0, FORUM_DIGEST_LIMITS.itemsPerSection),
+    newTopics: newTopics.map((topic) => ({
+      id: topic.id,
+      title: topic.title,
+      slug: topic.slug,
+      authorUsername: topic.author?.username || "用户",
+      categoryName: topic.category?.name || "",
+    })),
+  };
+};
+
+const normalizeSiteUrl = (siteUrl) => String(siteUrl || "").trim().replace(/\/+$/, "");
+
+export const buildForumDigestUnsubscribeUrl = (siteUrl, token) =>
+  `${normalizeSiteUrl(siteUrl)}/forum/unsubscribe?token=${encodeURIComponent(token)}`;
+
+export const buildForumDigestEmail = ({ user, frequency, activity, siteUrl, unsubscribeToken }) => {
+  const baseUrl = normalizeSiteUrl(siteUrl);
+  const label = FREQUENCY_LABELS[frequency] || "";
+  const replyTotal = activity.topics.reduce((sum, topic) => sum + topic.newReplies, 0);
+  const subject = `AIPAN论坛${label}摘要：${replyTotal} 条新回复，${activity.newTopics.length} 个新主题`;
+  const topicUrl = (topic) => `${baseUrl}/forum/topic/${encodeURIComponent(topic.slug)}`;
+  const unsubscribeUrl = buildForumDigestUnsubscribeUrl(baseUrl, unsubscribeToken);
+  const settingsUrl = `${baseUrl}/user/profile`;
+
+  const text = [
+    subject,
+    "",
+    `${user.username || "你好"}，你关注的论坛内容有新动态：`,
+    ...(activity.topics.length > 0
+      ? ["", "关注的主题：", ...activity.topics.map((topic) => `· ${topic.title}（${topic.newReplies} 条新回复）${topicUrl(topic)}`)]
+      : []),
+    ...(activity.newTopics.length > 0
+      ? [
+          "",
+          "关注板块的新主题：",
+          ...activity.newTopics.map(
+            (topic) => `· [${topic.categoryName}] ${topic.title} - ${topic.authorUsername} ${topicUrl(topic)}`
+          ),
+        ]
+      : []),
+    "",
+    `调整摘要频率：${settingsUrl}`,
+    `退订摘要邮件：${unsubscribeUrl}`,
+  ].join("\n");
+
+  const renderList = (items, render) => `<ul>${items.map((item) => `<li>${render(item)}</li>`).join("")}</ul>`;
+  const html = `
+    <div style="font-family:Arial,sans-serif;line-height:1.7;color:#111827;max-width:640px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">${escapeHtml(subject)}</h2>
+      <p>${escapeHtml(user.username || "你好")}，你关注的论坛内容有新动态：</p>
+      ${
+        activity.topics.length > 0
+          ? `<h3 style="margin:16px 0 8px;">关注的主题</h3>${renderList(
+              activity.topics,
+              (topic) =>
+                `<a href="${escapeHtml(topicUrl(topic))}" style="color:#2563eb;">${escapeHtml(topic.title)}</a>（${topic.newReplies} 条新回复）`
+            )}`
+          : ""
+      }
+      ${
+        activity.newTopics.length > 0
+          ? `<h3 style="margin:16px 0 8px;">关注板块的新主题</h3>${renderList(
+              activity.newTopics,
+              (topic) =>
+                `[${escapeHtml(topic.categoryName)}] <a href="${escapeHtml(topicUrl(topic))}" style="color:#2563eb;">${escapeHtml(topic.title)}</a> - ${escapeHtml(topic.authorUsername)}`
+            )}`
+          : ""
+      }
+      <p style="color:#6b7280;">
+        可以在<a href="${escapeHtml(settingsUrl)}" style="color:#6b7280;">个人中心</a>调整摘要频率，
+        或<a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280;">退订论坛摘要邮件</a>。
+      </p>
+    </div>
+  `;
+
+  return { subject, html, text };
+};
+
+const hasActivity = (activity) => activity.topics.length > 0 || activity.newTopics.length > 0;
+
+/**
+ * 检查一批到期的摘要设置并发送邮件。邮件服务未启用或站点地址未配置时跳过整批
+ */
+export const runForumDigests = async (options = getForumDigestOptions(), deps = {}) => {
+  const now = deps.now || new Date();
+  const db = await getPrismaClient(deps.prismaClient);
+  const emailService = deps.emailService || (await import("~/server/services/email/resend"));
+  const summary = { checked: 0, sent: 0, skipped: 0, failed: 0 };
+
+  const emailConfig = await emailService.getEmailServiceConfig();
+  if (!emailConfig.enabled || !emailConfig.siteUrl) {
+    return summary;
+  }
+
+  const preferences = await db.forumDigestPreference.findMany({
+    // 每种频率按自己的周期判断是否到期，未到期的每周订阅不会占满批次挤掉每日订阅
+    where: {
+      OR: Object.entries(FORUM_DIGEST_PERIOD_MS).map(([frequency, periodMs]) => ({
+        frequency,
+        OR: [{ lastSentAt: null }, { lastSentAt: { lte: new Date(now.getTime() - periodMs) } }],
+      })),
+    },
+    orderBy: [{ lastSentAt: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+    take: options.batchSize,
+    include: { user: { select: { id: true, username: true, email: true, status: true } } },
+  });
+
+  for (const preference of preferences) {
+    const window = getForumDigestWindow({ preference, now });
+    if (!window) {
+      continue;
+    }
+
+    summary.checked += 1;
+    try {
+      const activity =
+        preference.user?.status === "active" && preference.user.email
+          ? await collectForumDigestActivity({ userId: preference.userId, ...window, prismaClient: db })
+          : null;
+
+      if (activity && hasActivity(activity)) {
+        const email = buildForumDigestEmail({
+          user: preference.user,
+          frequency: preference.frequency,
+          activity,
+          siteUrl: emailConfig.siteUrl,
+          unsubscribeToken: preference.unsubscribeToken,
+        });
+        await emailService.sendEmailMessage({
+          to: preference.user.email,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+        });
+        summary.sent += 1;
+      } else {
+        summary.skipped += 1;
+      }
+
+      await db.forumDigestPreference.update({
+        where: { id: preference.id },
+        data: { lastSentAt: window.until },
+      });
+    } catch (error) {
+      summary.failed += 1;
+      console.error("发送论坛摘要邮件失败:", { userId: preference.userId, error });
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,275 @@
+import { highlightSearchTerms, splitSearchTerms } from "../search/searchBackend.js";
+import { buildPublicForumTopicWhere, FORUM_TOPIC_PUBLIC_STATUS } from "./topicTrash.mjs";
+
+// 论坛搜索：PostgreSQL 检索（pg_trgm 模糊匹配 + 相似度排序），与站内资源搜索的 PostgreSQL 后端同一套做法。
+// 只搜已发布主题和其中已通过审核的回复，回收站和待审核内容不会出现在结果里。
+
+export const FORUM_SEARCH_TYPES = {
+  all: "all",
+  topics: "topics",
+  posts: "posts",
+};
+
+export const FORUM_SEARCH_LIMITS = {
+  keywordMaxLength: 50,
+  pageSizeDefault: 20,
+  pageSizeMax: 50,
+  snippetLength: 160,
+};
+
+const FORUM_POST_PUBLIC_STATUS = "approved";
+
+const toPositiveInt = (value) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toDate = (value, endOfDay = false) => {
+  if (!value) return null;
+  const text = String(value);
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) return null;
+  // 只传日期时结束日期包含当天
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
+
+const escapeLikePattern = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const escapeHtml = (value) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+/**
+ * 规范化查询参数，关键词为空时 keyword 为 ""
+ */
+export const normalizeForumSearchQuery = (query = {}) => {
+  const keyword = String(query.q || query.keyword || "")
+    .trim()
+    .slice(0, FORUM_SEARCH_LIMITS.keywordMaxLength);
+  const type = Object.values(FORUM_SEARCH_TYPES).includes(query.type) ? query.type : FORUM_SEARCH_TYPES.all;
+  const pageSize = Math.min(
+    toPositiveInt(query.pageSize) || FORUM_SEARCH_LIMITS.pageSizeDefault,
+    FORUM_SEARCH_LIMITS.pageSizeMax
+  );
+
+  return {
+    keyword,
+    type,
+    categoryId: toPositiveInt(query.categoryId),
+    author: String(query.author || "").trim().replace(/^@/, ""),
+    from: toDate(query.from),
+    to: toDate(query.to, true),
+    page: toPositiveInt(query.page) || 1,
+    pageSize,
+  };
+};
+
+/**
+ * 生成参数化 SQL：主题匹配标题或正文、回复匹配正文，每个词都必须命中；
+ * 标题整句命中排最前，其次是 trigram 相似度，最后按发布时间
+ */
+export const buildForumSearchQuery = ({
+  keyword,
+  type = FORUM_SEARCH_TYPES.all,
+  categoryId = null,
+  authorId = null,
+  from = null,
+  to = null,
+  page = 1,
+  pageSize = FORUM_SEARCH_LIMITS.pageSizeDefault,
+}) => {
+  const terms = splitSearchTerms(keyword);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const phrase = terms.join(" ");
+  const params = [phrase, `%${escapeLikePattern(phrase)}%`, FORUM_TOPIC_PUBLIC_STATUS, FORUM_POST_PUBLIC_STATUS];
+  const addParam = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const termPlaceholders = terms.map((term) => addParam(`%${escapeLikePattern(term)}%`));
+  const filters = (alias) => [
+    categoryId ? `t."categoryId" = ${addParam(categoryId)}` : "",
+    authorId ? `${alias}."authorId" = ${addParam(authorId)}` : "",
+    from ? `${alias}."createdAt" >= ${addParam(from)}` : "",
+    to ? `${alias}."createdAt" < ${addParam(to)}` : "",
+  ];
+  const where = (conditions) => conditions.filter(Boolean).join(" AND ");
+
+  const parts = [];
+  if (type !== FORUM_SEARCH_TYPES.posts) {
+    parts.push(
+      [
+        `  SELECT 'topic' AS "kind", t."id", t."id" AS "topicId", t."createdAt",`,
+        `    (CASE WHEN t."title" ILIKE $2 THEN 3 ELSE 0 END)`,
+        `      + similarity(t."title", $1) AS "rank"`,
+        `  FROM "ForumTopic" t`,
+        `  WHERE ${where([
+          `t."status" = $3`,
+          ...termPlaceholders.map((placeholder) => `(t."title" ILIKE ${placeholder} OR t."content" ILIKE ${placeholder})`),
+          ...filters("t"),
+        ])}`,
+      ].join("\n")
+    );
+  }
+  if (type !== FORUM_SEARCH_TYPES.topics) {
+    parts.push(
+      [
+        `  SELECT 'post' AS "kind", p."id", p."topicId", p."createdAt",`,
+        `    similarity(p."content", $1) AS "rank"`,
+        `  FROM "ForumPost" p`,
+        `  JOIN "ForumTopic" t ON t."id" = p."topicId"`,
+        `  WHERE ${where([
+          `p."status" = $4`,
+          `t."status" = $3`,
+          ...termPlaceholders.map((placeholder) => `p."content" ILIKE ${placeholder}`),
+          ...filters("p"),
+        ])}`,
+      ].join("\n")
+    );
+  }
+
+  const limit = addParam(pageSize);
+  const offset = addParam((page - 1) * pageSize);
+  const sql = [
+    `SELECT m."kind", m."id", m."topicId", m."rank", COUNT(*) OVER() AS "total"`,
+    `FROM (`,
+    parts.join("\n  UNION ALL\n"),
+    `) m`,
+    `ORDER BY m."rank" DESC, m."createdAt" DESC`,
+    `LIMIT ${limit} OFFSET ${offset}`,
+  ].join("\n");
+
+  return { sql, params };
+};
+
+// 摘要按纯文本截取，去掉 Markdown 的代码块、图片、链接地址和标记符号
+const toPlainText = (markdown) =>
+  String(markdown || "")
+    .replace(/```[\s\S]*?(?:```|$)/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/[`*_#>~|]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * 截取第一个命中词附近的正文并高亮，返回可直接 v-html 的安全 HTML
+ */
+export const buildForumSearchSnippet = (content, keyword, length = FORUM_SEARCH_LIMITS.snippetLength) => {
+  const text = toPlainText(content);
+  const lowerText = text.toLowerCase();
+  const firstIndex = splitSearchTerms(keyword)
+    .map((term) => lowerText.indexOf(term.toLowerCase()))
+    .filter((index) => index >= 0)
+    .reduce((min, index) => Math.min(min, index), Number.POSITIVE_INFINITY);
+
+  const start = Number.isFinite(firstIndex) ? Math.max(0, firstIndex - Math.floor(length / 4)) : 0;
+  const excerpt = text.slice(start, start + length);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = start + length < text.length ? "…" : "";
+
+  return `${prefix}${highlightSearchTerms(excerpt, keyword) ?? escapeHtml(excerpt)}${suffix}`;
+};
+
+export const searchForum = async (query, { prismaClient = undefined } = {}) => {
+  const options = normalizeForumSearchQuery(query);
+  const empty = {
+    keyword: options.keyword,
+    items: [],
+    pagination: { total: 0, page: options.page, pageSize: options.pageSize, totalPages: 0 },
+  };
+  if (!options.keyword) {
+    return empty;
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  let authorId = null;
+  if (options.author) {
+    const author = await db.user.findFirst({
+      where: { username: { equals: options.author, mode: "insensitive" } },
+      select: { id: true },
+    });
+    if (!author) {
+      return empty;
+    }
+    authorId = author.id;
+  }
+
+  const sqlQuery = buildForumSearchQuery({ ...options, authorId });
+  const rows = sqlQuery ? await db.$queryRawUnsafe(sqlQuery.sql, ...sqlQuery.params) : [];
+  if (rows.length === 0) {
+    return empty;
+  }
+
+  const topicIds = [...new Set(rows.map((row) => Number(row.topicId)))];
+  const postIds = rows.filter((row) => row.kind === "post").map((row) => Number(row.id));
+  const authorSelect = { select: { id: true, username: true } };
+  const [topics, posts] = await Promise.all([
+    db.forumTopic.findMany({
+      where: buildPublicForumTopicWhere({ id: { in: topicIds } }),
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        content: true,
+        createdAt: true,
+        author: authorSelect,
+        category: { select: { id: true, name: true, slug: true } },
+      },
+    }),
+    postIds.length > 0
+      ? db.forumPost.findMany({
+          where: { id: { in: postIds }, status: FORUM_POST_PUBLIC_STATUS },
+          select: { id: true, content: true, createdAt: true, author: authorSelect },
+        })
+      : [],
+  ]);
+  const topicsById = new Map(topics.map((topic) => [topic.id, topic]));
+  const postsById = new Map(posts.map((post) => [post.id, post]));
+
+  const items = rows
+    .map((row) => {
+      const topic = topicsById.get(Number(row.topicId));
+      const post = row.kind === "post" ? postsById.get(Number(row.id)) : null;
+      if (!topic || (row.kind === "post" && !post)) {
+        return null;
+      }
+
+      const source = post || topic;
+      return {
+        type: row.kind,
+        id: Number(row.id),
+        topic: { id: topic.id, title: topic.title, slug: topic.slug, category: topic.category },
+        author: source.author,
+        createdAt: source.createdAt,
+        highlightedTitle: highlightSearchTerms(topic.title, options.keyword),
+        snippet: buildForumSearchSnippet(source.content, options.keyword),
+      };
+    })
+    .filter(Boolean);
+
+  const total = Number(rows[0].total);
+  return {
+    keyword: options.keyword,
+    items,
+    pagination: {
+      total,
+      page: options.page,
+      pageSize: options.pageSize,
+      totalPages: Math.ceil(total / options.pageSize),
+    },
+  };
+};
@@ -0,0 +1,180 @@
+import { extractMentions } from "../../../utils/mentions.js";
+
+export const MENTION_SOURCE_TYPES = {
+  forumTopic: "forum_topic",
+  forumPost: "forum_post",
+  chatMessage: "chat_message",
+};
+
+export const MENTION_NOTIFICATION_TYPE = "mention";
+
+const toPositiveInt = (value) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toIdSet = (values) => new Set((values || []).map(toPositiveInt).filter(Boolean));
+
+const buildServiceError = ({ statusCode, statusMessage }) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+export const buildMentionNotification = ({ userId, actorName, contextLabel, sourceId, link }) => ({
+  userId,
+  type: MENTION_NOTIFICATION_TYPE,
+  title: "有人提到了您",
+  content: `用户 ${actorName || "用户"} 在${contextLabel}中提到了您`,
+  relatedId: sourceId,
+  link: link || null,
+});
+
+/**
+ * 记录内容中的 @提及并通知被提及的用户。
+ *
+ * Mention 表按 (来源, 用户) 去重，编辑后重复调用只会通知新增的用户；
+ * 把发送人加入屏蔽列表、或本次已经收到其他通知（如回复通知）的用户只记录不通知。
+ */
+export const recordMentions = async (options) => {
+  const {
+    content,
+    sourceType,
+    sourceId,
+    actor,
+    contextLabel,
+    link,
+    markdown = true,
+    excludeUserIds = [],
+    allowedUserIds,
+    io,
+    prismaClient,
+  } = options;
+  const id = toPositiveInt(sourceId);
+  const actorId = toPositiveInt(actor?.id);
+  const usernames = extractMentions(content, { markdown });
+  if (!id || !actorId || usernames.length === 0) {
+    return [];
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const allowed = allowedUserIds ? toIdSet(allowedUserIds) : null;
+  const users = await db.user.findMany({
+    where: {
+      OR: usernames.map((username) => ({ username: { equals: username, mode: "insensitive" } })),
+      status: { not: "disabled" },
+    },
+    select: { id: true },
+  });
+  const candidateIds = users
+    .map((user) => user.id)
+    .filter((userId) => userId !== actorId && (!allowed || allowed.has(userId)));
+  if (candidateIds.length === 0) {
+    return [];
+  }
+
+  const existing = await db.mention.findMany({
+    where: { sourceType, sourceId: id, userId: { in: candidateIds } },
+    select: { userId: true },
+  });
+  const existingIds = toIdSet(existing.map((mention) => mention.userId));
+  const newIds = candidateIds.filter((userId) => !existingIds.has(userId));
+  if (newIds.length === 0) {
+    return [];
+  }
+
+  const mutes = await db.mentionMute.findMany({
+    where: { userId: { in: newIds }, mutedUserId: actorId },
+    select: { userId: true },
+  });
+  const silentIds = toIdSet([...excludeUserIds, ...mutes.map((mute) => mute.userId)]);
+
+  await db.mention.createMany({
+    data: newIds.map((userId) => ({
+      sourceType,
+      sourceId: id,
+      userId,
+      actorId,
+      notified: !silentIds.has(userId),
+    })),
+    skipDuplicates: true,
+  });
+
+  const notifications = [];
+  for (const userId of newIds.filter((userId) => !silentIds.has(userId))) {
+    const notification = await db.notification.create({
+      data: buildMentionNotification({
+        userId,
+        actorName: actor.username,
+        contextLabel,
+        sourceId: id,
+        link,
+      }),
+    });
+    notifications.push(notification);
+    io?.to(`user:${userId}`).emit("notification:new", notification);
+  }
+
+  return notifications;
+};
+
+const normalizeUsername = (value) => String(value || "").trim().replace(/^@/, "");
+
+export const listMentionMutes = async ({ userId, prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const mutes = await db.mentionMute.findMany({
+    where: { userId: toPositiveInt(userId) },
+    include: { mutedUser: { select: { id: true, username: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return mutes.map((mute) => ({
+    userId: mute.mutedUser.id,
+    username: mute.mutedUser.username,
+    createdAt: mute.createdAt,
+  }));
+};
+
+export const addMentionMute = async ({ userId, username, prismaClient }) => {
+  const ownerId = toPositiveInt(userId);
+  const name = normalizeUsername(username);
+  if (!ownerId || !name) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "请输入要屏蔽的用户名" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const target = await db.user.findFirst({
+    where: { username: { equals: name, mode: "insensitive" } },
+    select: { id: true, username: true },
+  });
+  if (!target) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "用户不存在" });
+  }
+  if (target.id === ownerId) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "不能屏蔽自己" });
+  }
+
+  await db.mentionMute.upsert({
+    where: { userId_mutedUserId: { userId: ownerId, mutedUserId: target.id } },
+    create: { userId: ownerId, mutedUserId: target.id },
+    update: {},
+  });
+
+  return { userId: target.id, username: target.username };
+};
+
+export const removeMentionMute = async ({ userId, mutedUserId, prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const result = await db.mentionMute.deleteMany({
+    where: { userId: toPositiveInt(userId), mutedUserId: toPositiveInt(mutedUserId) },
+  });
+  if (result.count === 0) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "没有屏蔽该用户" });
+  }
+};
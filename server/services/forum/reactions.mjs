@@ -0,0 +1,198 @@
+import {
+  FORUM_REPUTATION_KINDS,
+  FORUM_REPUTATION_VALUES,
+  grantForumReputation,
+} from "../points/forumReputation.mjs";
+import { FORUM_TOPIC_PUBLIC_STATUS } from "./topicTrash.mjs";
+
+export const FORUM_REACTION_TYPES = {
+  like: "like",
+  thanks: "thanks",
+  useful: "useful",
+};
+
+const FORUM_POST_PUBLIC_STATUS = "approved";
+const REACTION_LOCK_KEY = 720200003;
+
+const toPositiveInt = (value) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const buildServiceError = ({ statusCode, statusMessage }) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+export const isForumReactionType = (value) => Object.values(FORUM_REACTION_TYPES).includes(value);
+
+export const buildEmptyReactionCounts = () =>
+  Object.fromEntries(Object.values(FORUM_REACTION_TYPES).map((type) => [type, 0]));
+
+/**
+ * 查询一批回复的表态数和当前用户的表态，返回 Map<postId, { counts, viewerReaction }>
+ */
+export const loadForumPostReactions = async ({ postIds, viewerId, prismaClient }) => {
+  const ids = [...new Set((postIds || []).map(toPositiveInt).filter(Boolean))];
+  const result = new Map(ids.map((id) => [id, { counts: buildEmptyReactionCounts(), viewerReaction: null }]));
+  if (ids.length === 0) {
+    return result;
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const viewer = toPositiveInt(viewerId);
+  const [groups, viewerReactions] = await Promise.all([
+    db.forumPostReaction.groupBy({
+      by: ["postId", "type"],
+      where: { postId: { in: ids } },
+      _count: { _all: true },
+    }),
+    viewer
+      ? db.forumPostReaction.findMany({
+          where: { postId: { in: ids }, userId: viewer },
+          select: { postId: true, type: true },
+        })
+      : [],
+  ]);
+
+  for (const group of groups) {
+    const entry = result.get(group.postId);
+    if (entry && isForumReactionType(group.type)) {
+      entry.counts[group.type] = group._count._all;
+    }
+  }
+  for (const reaction of viewerReactions) {
+    const entry = result.get(reaction.postId);
+    if (entry) {
+      entry.viewerReaction = reaction.type;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 切换表态：再次点同一种表态会取消，点另一种会替换。
+ * 声望只在第一次表态时发放，取消或改选不会重复加分
+ */
+export const toggleForumPostReaction = async ({ postId, userId, type, prismaClient }) => {
+  const id = toPositiveInt(postId);
+  const actorId = toPositiveInt(userId);
+  if (!id || !actorId) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "参数错误" });
+  }
+  if (!isForumReactionType(type)) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "不支持的表态类型" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const post = await db.forumPost.findUnique({
+    where: { id },
+    select: { id: true, authorId: true, status: true, topic: { select: { status: true } } },
+  });
+  if (!post || post.status !== FORUM_POST_PUBLIC_STATUS || post.topic?.status !== FORUM_TOPIC_PUBLIC_STATUS) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "回复不存在" });
+  }
+  if (post.authorId === actorId) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "不能给自己的回复表态" });
+  }
+
+  const { reaction, grant } = await db.$transaction(async (tx) => {
+    // 同一用户对同一回复的表态串行处理，双击或多个标签页同时提交不会撞上唯一约束
+    await tx.$executeRawUnsafe(
+      "SELECT pg_advisory_xact_lock($1, hashtext($2))",
+      REACTION_LOCK_KEY,
+      `${id}:${actorId}`
+    );
+
+    const existing = await tx.forumPostReaction.findUnique({
+      where: { postId_userId: { postId: id, userId: actorId } },
+    });
+
+    if (existing?.type === type) {
+      await tx.forumPostReaction.delete({ where: { id: existing.id } });
+      return { reaction: null, grant: null };
+    }
+
+    if (existing) {
+      await tx.forumPostReaction.update({ where: { id: existing.id }, data: { type } });
+    } else {
+      await tx.forumPostReaction.create({ data: { postId: id, userId: actorId, type } });
+    }
+
+    const granted = await grantForumReputation(tx, {
+      kind: FORUM_REPUTATION_KINDS.reaction,
+      postId: id,
+      actorId,
+      recipientId: post.authorId,
+      reputation: FORUM_REPUTATION_VALUES[type],
+    });
+    return { reaction: type, grant: granted };
+  });
+
+  const summary = (await loadForumPostReactions({ postIds: [id], viewerId: actorId, prismaClient: db })).get(id);
+  return {
+    postId: id,
+    reaction,
+    counts: summary.counts,
+    reputation: grant?.reputation || 0,
+  };
+};
+
+/**
+ * 主题作者采纳或取消采纳最佳答案，postId 为空时取消。
+ * 被采纳的回复作者只在第一次被采纳时获得声望，取消采纳不收回
+ */
+export const setForumAcceptedAnswer = async ({ slug, postId, userId, prismaClient }) => {
+  const actorId = toPositiveInt(userId);
+  const clearing = postId === null || postId === undefined || postId === "";
+  const id = clearing ? null : toPositiveInt(postId);
+  if (!actorId || !slug || (!clearing && !id)) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "参数错误" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const topic = await db.forumTopic.findFirst({
+    where: { slug, status: FORUM_TOPIC_PUBLIC_STATUS },
+    select: { id: true, authorId: true, acceptedPostId: true },
+  });
+  if (!topic) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "主题不存在" });
+  }
+  if (topic.authorId !== actorId) {
+    throw buildServiceError({ statusCode: 403, statusMessage: "只有主题作者可以采纳最佳答案" });
+  }
+
+  if (!id) {
+    await db.forumTopic.update({ where: { id: topic.id }, data: { acceptedPostId: null } });
+    return { topicId: topic.id, acceptedPostId: null, reputation: 0 };
+  }
+
+  const post = await db.forumPost.findUnique({
+    where: { id },
+    select: { id: true, topicId: true, authorId: true, status: true },
+  });
+  if (!post || post.topicId !== topic.id || post.status !== FORUM_POST_PUBLIC_STATUS) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "只能采纳本主题下已通过审核的回复" });
+  }
+
+  const grant = await db.$transaction(async (tx) => {
+    await tx.forumTopic.update({ where: { id: topic.id }, data: { acceptedPostId: post.id } });
+    return grantForumReputation(tx, {
+      kind: FORUM_REPUTATION_KINDS.acceptedAnswer,
+      postId: post.id,
+      actorId,
+      recipientId: post.authorId,
+      reputation: FORUM_REPUTATION_VALUES.acceptedAnswer,
+    });
+  });
+
+  return { topicId: topic.id, acceptedPostId: post.id, reputation: grant?.reputation || 0 };
+};
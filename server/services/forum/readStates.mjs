@@ -17,16 +17,18 @@ const getPrismaClient = async (prismaClient) => {
   return module.default;
 };
 
+// 关注了主题但没有发言的用户也按参与者处理
 export const uniqueForumParticipantIds = ({
   topicAuthorId,
   postAuthorIds = [],
+  followerIds = [],
   actorId,
 }) => {
   const actor = toPositiveInt(actorId);
   const seen = new Set();
   const result = [];
 
-  for (const value of [topicAuthorId, ...postAuthorIds]) {
+  for (const value of [topicAuthorId, ...postAuthorIds, ...followerIds]) {
     const userId = toPositiveInt(value);
     if (!userId || userId === actor || seen.has(userId)) continue;
     seen.add(userId);
@@ -255,19 +257,26 @@ export const updateForumReadStatesForApprovedReply = async ({
   if (!topicId || !replyAuthorId) return [];
 
   const readAt = post?.createdAt ? new Date(post.createdAt) : new Date();
-  const participantPosts = await prisma.forumPost.findMany({
-    where: {
-      topicId,
-      status: "approved",
-    },
-    select: {
-      authorId: true,
-    },
-  });
+  const [participantPosts, followers] = await Promise.all([
+    prisma.forumPost.findMany({
+      where: {
+        topicId,
+        status: "approved",
+      },
+      select: {
+        authorId: true,
+      },
+    }),
+    prisma.forumSubscription.findMany({
+      where: { topicId },
+      select: { userId: true },
+    }),
+  ]);
 
   const participantIds = uniqueForumParticipantIds({
     topicAuthorId: topic.authorId,
     postAuthorIds: participantPosts.map((item) => item.authorId),
+    followerIds: followers.map((item) => item.userId),
     actorId: replyAuthorId,
   });
 
@@ -315,3 +324,41 @@ export const updateForumReadStatesForApprovedReply = async ({
     }),
   );
 };
+
+/**
+ * 板块出现新主题时给关注该板块的用户记一条未读，已有未读状态的不重复计数
+ */
+export const updateForumReadStatesForNewTopic = async ({
+  topic,
+  prismaClient,
+}) => {
+  const topicId = toPositiveInt(topic?.id);
+  const categoryId = toPositiveInt(topic?.categoryId);
+  if (!topicId || !categoryId) return [];
+
+  const prisma = await getPrismaClient(prismaClient);
+  const followers = await prisma.forumSubscription.findMany({
+    where: { categoryId },
+    select: { userId: true },
+  });
+  const followerIds = uniqueForumParticipantIds({
+    followerIds: followers.map((item) => item.userId),
+    actorId: topic.authorId,
+  });
+  if (followerIds.length === 0) return [];
+
+  const unreadAt = topic.createdAt ? new Date(topic.createdAt) : new Date();
+  await prisma.forumTopicReadState.createMany({
+    data: followerIds.map((userId) => ({
+      userId,
+      topicId,
+      lastReadAt: null,
+      unreadCount: 1,
+      lastUnreadPostId: null,
+      lastUnreadAt: unreadAt,
+    })),
+    skipDuplicates: true,
+  });
+
+  return followerIds;
+};
@@ -0,0 +1,274 @@
+import { FORUM_TOPIC_PUBLIC_STATUS } from "./topicTrash.mjs";
+
+// 论坛编辑历史：主题和回复每次修改标题或内容前先保存旧版本，
+// 版主可以在后台逐版查看差异，必要时回滚到某个历史版本。
+
+export const FORUM_REVISION_TYPES = {
+  topic: "topic",
+  post: "post",
+};
+
+export const FORUM_REVISION_LIMITS = {
+  listSize: 50,
+  // 逐行比较的行数乘积上限，超过时整段按删除加新增显示
+  diffCells: 250000,
+};
+
+const toPositiveInt = (value) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const buildServiceError = ({ statusCode, statusMessage }) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+/**
+ * 已通过审核的内容被编辑后重新走一遍审核规则：版主直接生效，
+ * 命中需人工复核的规则时退回待审核，其余保持原状态
+ */
+export const resolveForumEditStatus = ({ currentStatus, canModerate, moderation }) => {
+  if (currentStatus !== FORUM_TOPIC_PUBLIC_STATUS || canModerate) {
+    return currentStatus;
+  }
+
+  return moderation?.needsReview ? "pending" : currentStatus;
+};
+
+export const hasForumContentChanged = (current, next) =>
+  (next.title !== undefined && next.title !== current.title) ||
+  (next.content !== undefined && next.content !== current.content);
+
+const splitLines = (value) => String(value ?? "").replace(/\r\n/g, "\n").split("\n");
+
+/**
+ * 按行比较两个版本，返回 same / removed / added 三种片段，供后台差异视图逐行着色
+ */
+export const buildForumRevisionDiff = (before, after) => {
+  const left = splitLines(before);
+  const right = splitLines(after);
+
+  if (left.length * right.length > FORUM_REVISION_LIMITS.diffCells) {
+    return [
+      ...left.map((text) => ({ type: "removed", text })),
+      ...right.map((text) => ({ type: "added", text })),
+    ];
+  }
+
+  // 最长公共子序列表，lengths[i][j] 是 left[i..] 和 right[j..] 的公共行数
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        left[i] === right[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      result.push({ type: "same", text: left[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "removed", text: left[i] });
+      i += 1;
+    } else {
+      result.push({ type: "added", text: right[j] });
+      j += 1;
+    }
+  }
+  while (i < left.length) result.push({ type: "removed", text: left[i++] });
+  while (j < right.length) result.push({ type: "added", text: right[j++] });
+
+  return result;
+};
+
+const snapshotTopic = (topic, editorId) => ({
+  topicId: topic.id,
+  editorId: toPositiveInt(editorId),
+  title: topic.title,
+  content: topic.content,
+  status: topic.status,
+});
+
+const snapshotPost = (post, editorId) => ({
+  postId: post.id,
+  editorId: toPositiveInt(editorId),
+  title: null,
+  content: post.content,
+  status: post.status,
+});
+
+const revisionUpdate = (now) => ({
+  revisionCount: { increment: 1 },
+  editedAt: now,
+});
+
+/**
+ * 保存主题修改，标题或内容有变化时先把旧版本写进编辑历史
+ */
+export const saveForumTopicEdit = async ({ topic, editorId, data, now = new Date(), prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const changed = hasForumContentChanged(topic, data);
+
+  return db.$transaction(async (tx) => {
+    if (changed) {
+      await tx.forumRevision.create({ data: snapshotTopic(topic, editorId) });
+    }
+
+    return tx.forumTopic.update({
+      where: { id: topic.id },
+      data: {
+        ...data,
+        ...(changed ? revisionUpdate(now) : {}),
+      },
+      include: {
+        author: { select: { id: true, username: true } },
+      },
+    });
+  });
+};
+
+export const saveForumPostEdit = async ({ post, editorId, data, now = new Date(), prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const changed = hasForumContentChanged(post, data);
+
+  return db.$transaction(async (tx) => {
+    if (changed) {
+      await tx.forumRevision.create({ data: snapshotPost(post, editorId) });
+    }
+
+    return tx.forumPost.update({
+      where: { id: post.id },
+      data: {
+        ...data,
+        ...(changed ? revisionUpdate(now) : {}),
+      },
+      include: {
+        author: { select: { id: true, username: true } },
+      },
+    });
+  });
+};
+
+const loadRevisionTarget = async (db, type, id) => {
+  const select = {
+    id: true,
+    content: true,
+    status: true,
+    revisionCount: true,
+    editedAt: true,
+    createdAt: true,
+    author: { select: { id: true, username: true } },
+  };
+
+  if (type === FORUM_REVISION_TYPES.topic) {
+    return db.forumTopic.findUnique({ where: { id }, select: { ...select, title: true, slug: true } });
+  }
+
+  return db.forumPost.findUnique({
+    where: { id },
+    select: { ...select, topic: { select: { id: true, title: true, slug: true } } },
+  });
+};
+
+/**
+ * 列出主题或回复的历史版本，每个版本附上它和下一个版本（或当前内容）之间的差异
+ */
+export const listForumRevisions = async ({ type, targetId, prismaClient }) => {
+  const id = toPositiveInt(targetId);
+  if (!Object.values(FORUM_REVISION_TYPES).includes(type) || !id) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "无效的编辑历史对象" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const target = await loadRevisionTarget(db, type, id);
+  if (!target) {
+    throw buildServiceError({
+      statusCode: 404,
+      statusMessage: type === FORUM_REVISION_TYPES.topic ? "主题不存在" : "回复不存在",
+    });
+  }
+
+  const revisions = await db.forumRevision.findMany({
+    where: type === FORUM_REVISION_TYPES.topic ? { topicId: id } : { postId: id },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: FORUM_REVISION_LIMITS.listSize,
+    include: { editor: { select: { id: true, username: true } } },
+  });
+
+  let next = target;
+  const items = revisions.map((revision) => {
+    const item = {
+      id: revision.id,
+      title: revision.title,
+      content: revision.content,
+      status: revision.status,
+      createdAt: revision.createdAt,
+      editor: revision.editor,
+      titleChange:
+        type === FORUM_REVISION_TYPES.topic && revision.title !== next.title
+          ? { before: revision.title, after: next.title }
+          : null,
+      diff: buildForumRevisionDiff(revision.content, next.content),
+    };
+    next = revision;
+    return item;
+  });
+
+  return {
+    type,
+    current: target,
+    revisions: items,
+  };
+};
+
+/**
+ * 版主回滚到某个历史版本：当前内容先存为新的历史版本，再写回旧的标题和内容，审核状态不变
+ */
+export const restoreForumRevision = async ({ revisionId, editorId, now = new Date(), prismaClient }) => {
+  const id = toPositiveInt(revisionId);
+  if (!id) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "无效的历史版本" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const revision = await db.forumRevision.findUnique({
+    where: { id },
+    include: { topic: true, post: true },
+  });
+  if (!revision || (!revision.topic && !revision.post)) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "历史版本不存在" });
+  }
+
+  if (revision.topic) {
+    const topic = await saveForumTopicEdit({
+      topic: revision.topic,
+      editorId,
+      data: { title: revision.title || revision.topic.title, content: revision.content },
+      now,
+      prismaClient: db,
+    });
+    return { type: FORUM_REVISION_TYPES.topic, target: topic, revision };
+  }
+
+  const post = await saveForumPostEdit({
+    post: revision.post,
+    editorId,
+    data: { content: revision.content },
+    now,
+    prismaClient: db,
+  });
+  return { type: FORUM_REVISION_TYPES.post, target: post, revision };
+};
@@ -0,0 +1,210 @@
+import crypto from "node:crypto";
+
+import { buildPublicForumTopicWhere, FORUM_TOPIC_PUBLIC_STATUS } from "./topicTrash.mjs";
+
+// 论坛关注：用户可以不发言直接关注主题（跟踪新回复）或板块（跟踪新主题），
+// 关注内容的新动态计入未读状态，并按用户设置的频率汇总成摘要邮件。
+
+export const FORUM_SUBSCRIPTION_TYPES = {
+  topic: "topic",
+  category: "category",
+};
+
+export const FORUM_DIGEST_FREQUENCIES = {
+  off: "off",
+  daily: "daily",
+  weekly: "weekly",
+};
+
+export const FORUM_SUBSCRIPTION_LIMITS = {
+  maxPerUser: 200,
+};
+
+const TARGET_FIELDS = {
+  [FORUM_SUBSCRIPTION_TYPES.topic]: "topicId",
+  [FORUM_SUBSCRIPTION_TYPES.category]: "categoryId",
+};
+
+const toPositiveInt = (value) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const buildServiceError = ({ statusCode, statusMessage }) =>
+  Object.assign(new Error(statusMessage), {
+    statusCode,
+    statusMessage,
+  });
+
+const getPrismaClient = async (prismaClient) => {
+  if (prismaClient) return prismaClient;
+  const module = await import("../../../lib/prisma.js");
+  return module.default;
+};
+
+const resolveTarget = (type, targetId) => {
+  const field = TARGET_FIELDS[type];
+  const id = toPositiveInt(targetId);
+  if (!field || !id) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "关注对象无效" });
+  }
+
+  return { field, id };
+};
+
+export const createForumDigestUnsubscribeToken = () => crypto.randomBytes(24).toString("hex");
+
+/**
+ * 第一次关注时创建摘要设置，默认每周一封
+ */
+export const ensureForumDigestPreference = async ({ userId, prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  return db.forumDigestPreference.upsert({
+    where: { userId },
+    create: { userId, unsubscribeToken: createForumDigestUnsubscribeToken() },
+    update: {},
+  });
+};
+
+export const followForumTarget = async ({ userId, type, targetId, prismaClient }) => {
+  const { field, id } = resolveTarget(type, targetId);
+  const db = await getPrismaClient(prismaClient);
+
+  const target =
+    type === FORUM_SUBSCRIPTION_TYPES.topic
+      ? await db.forumTopic.findFirst({ where: buildPublicForumTopicWhere({ id }), select: { id: true } })
+      : await db.forumCategory.findUnique({ where: { id }, select: { id: true } });
+  if (!target) {
+    throw buildServiceError({
+      statusCode: 404,
+      statusMessage: type === FORUM_SUBSCRIPTION_TYPES.topic ? "主题不存在" : "板块不存在",
+    });
+  }
+
+  const existing = await db.forumSubscription.findFirst({ where: { userId, [field]: id } });
+  if (existing) {
+    return existing;
+  }
+
+  const count = await db.forumSubscription.count({ where: { userId } });
+  if (count >= FORUM_SUBSCRIPTION_LIMITS.maxPerUser) {
+    throw buildServiceError({
+      statusCode: 409,
+      statusMessage: `最多只能关注 ${FORUM_SUBSCRIPTION_LIMITS.maxPerUser} 个主题和板块`,
+    });
+  }
+
+  const subscription = await db.forumSubscription.create({ data: { userId, [field]: id } });
+  await ensureForumDigestPreference({ userId, prismaClient: db });
+  return subscription;
+};
+
+export const unfollowForumTarget = async ({ userId, type, targetId, prismaClient }) => {
+  const { field, id } = resolveTarget(type, targetId);
+  const db = await getPrismaClient(prismaClient);
+  const result = await db.forumSubscription.deleteMany({ where: { userId, [field]: id } });
+  return { removed: result.count > 0 };
+};
+
+export const getForumFollowState = async ({ userId, topicId, categoryId, prismaClient }) => {
+  const targets = [
+    toPositiveInt(topicId) ? { topicId: toPositiveInt(topicId) } : null,
+    toPositiveInt(categoryId) ? { categoryId: toPositiveInt(categoryId) } : null,
+  ].filter(Boolean);
+  if (!toPositiveInt(userId) || targets.length === 0) {
+    return { topic: false, category: false };
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const subscriptions = await db.forumSubscription.findMany({
+    where: { userId, OR: targets },
+    select: { topicId: true, categoryId: true },
+  });
+
+  return {
+    topic: subscriptions.some((item) => item.topicId && item.topicId === toPositiveInt(topicId)),
+    category: subscriptions.some((item) => item.categoryId && item.categoryId === toPositiveInt(categoryId)),
+  };
+};
+
+/**
+ * 列出关注的主题和板块，进了回收站或未通过审核的主题不显示
+ */
+export const listForumSubscriptions = async ({ userId, prismaClient }) => {
+  const db = await getPrismaClient(prismaClient);
+  const subscriptions = await db.forumSubscription.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    include: {
+      topic: { select: { id: true, title: true, slug: true, status: true } },
+      category: { select: { id: true, name: true, slug: true } },
+    },
+  });
+
+  return subscriptions
+    .map((item) => {
+      if (item.topic) {
+        if (item.topic.status !== FORUM_TOPIC_PUBLIC_STATUS) return null;
+        return {
+          id: item.id,
+          type: FORUM_SUBSCRIPTION_TYPES.topic,
+          targetId: item.topic.id,
+          title: item.topic.title,
+          link: `/forum/topic/${item.topic.slug}`,
+          createdAt: item.createdAt,
+        };
+      }
+      if (item.category) {
+        return {
+          id: item.id,
+          type: FORUM_SUBSCRIPTION_TYPES.category,
+          targetId: item.category.id,
+          title: item.category.name,
+          link: `/forum/category/${item.category.slug}`,
+          createdAt: item.createdAt,
+        };
+      }
+      return null;
+    })
+    .filter(Boolean);
+};
+
+export const getForumDigestPreference = async ({ userId, prismaClient }) => {
+  const preference = await ensureForumDigestPreference({ userId, prismaClient });
+  return { frequency: preference.frequency, lastSentAt: preference.lastSentAt };
+};
+
+export const updateForumDigestFrequency = async ({ userId, frequency, prismaClient }) => {
+  if (!Object.values(FORUM_DIGEST_FREQUENCIES).includes(frequency)) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "摘要频率无效" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  await ensureForumDigestPreference({ userId, prismaClient: db });
+  const preference = await db.forumDigestPreference.update({
+    where: { userId },
+    data: { frequency },
+  });
+  return { frequency: preference.frequency, lastSentAt: preference.lastSentAt };
+};
+
+/**
+ * 邮件里的退订链接不需要登录，凭 token 关闭摘要邮件
+ */
+export const unsubscribeForumDigest = async ({ token, prismaClient }) => {
+  const value = String(token || "").trim();
+  if (!/^[a-f0-9]{48}$/.test(value)) {
+    throw buildServiceError({ statusCode: 400, statusMessage: "退订链接无效" });
+  }
+
+  const db = await getPrismaClient(prismaClient);
+  const result = await db.forumDigestPreference.updateMany({
+    where: { unsubscribeToken: value },
+    data: { frequency: FORUM_DIGEST_FREQUENCIES.off },
+  });
+  if (result.count === 0) {
+    throw buildServiceError({ statusCode: 404, statusMessage: "退订链接无效或已失效" });
+  }
+
+  return { frequency: FORUM_DIGEST_FREQUENCIES.off };
+};
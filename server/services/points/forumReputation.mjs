@@ -0,0 +1,145 @@
+import { getShanghaiDateKey } from "./dailyRedemptionDrops.mjs";
+import { POINT_TYPES } from "./pointsLedger.mjs";
+
+// 论坛声望：回复被点赞、感谢、标为有用或被采纳为最佳答案时给作者加声望，同时按声望发放积分。
+// 每条回复的同一来源只奖励一次；积分有每日上限，同一个人每天给同一作者带来的奖励次数也有限，防止刷分。
+
+export const FORUM_REPUTATION_KINDS = {
+  reaction: "reaction",
+  acceptedAnswer: "accepted_answer",
+};
+
+export const FORUM_REPUTATION_VALUES = {
+  like: 1,
+  thanks: 2,
+  useful: 3,
+  acceptedAnswer: 15,
+};
+
+const ADVISORY_LOCK_KEY = 720200002;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export const getForumReputationOptions = (env = process.env) => ({
+  dailyPointCap: parseIntOption(env.FORUM_REPUTATION_DAILY_POINT_CAP, 50, 0, 100000),
+  dailyPairCap: parseIntOption(env.FORUM_REPUTATION_DAILY_PAIR_CAP, 3, 0, 1000),
+});
+
+// 每日上限按北京时间自然日计算
+export const getForumReputationDayStart = (now = new Date()) =>
+  new Date(`${getShanghaiDateKey(now)}T00:00:00.000+08:00`);
+
+/**
+ * 按上限计算本次奖励：自己给自己不计；同一人当天奖励次数到上限后不再计声望和积分；
+ * 积分超过作者当天上限的部分不发，声望照常累计
+ */
+export const resolveForumReputationGrant = ({
+  reputation,
+  recipientId,
+  actorId,
+  pointsEarnedToday = 0,
+  pairRewardsToday = 0,
+  options = getForumReputationOptions(),
+}) => {
+  const value = Math.max(0, Math.floor(Number(reputation) || 0));
+
+  if (!recipientId || recipientId === actorId) {
+    return { reputation: 0, points: 0, capped: "self" };
+  }
+  if (pairRewardsToday >= options.dailyPairCap) {
+    return { reputation: 0, points: 0, capped: "pair" };
+  }
+
+  const remainingPoints = Math.max(0, options.dailyPointCap - pointsEarnedToday);
+  const points = Math.min(value, remainingPoints);
+
+  return {
+    reputation: value,
+    points,
+    capped: points < value ? "daily" : null,
+  };
+};
+
+const describeGrant = (kind) =>
+  kind === FORUM_REPUTATION_KINDS.acceptedAnswer ? "论坛回复被采纳为最佳答案" : "论坛回复获得认可";
+
+/**
+ * 在事务内记录一次声望奖励。同一 (kind, postId, actorId) 只奖励一次，取消后重新操作不会重复加分
+ */
+export const grantForumReputation = async (tx, grantInput) => {
+  const { kind, postId, actorId, recipientId, reputation } = grantInput;
+  const now = grantInput.now || new Date();
+  const options = grantInput.options || getForumReputationOptions();
+
+  // 同一作者的奖励串行计算，先加锁再查重，避免并发时重复记录或越过每日上限
+  await tx.$executeRawUnsafe("SELECT pg_advisory_xact_lock($1, $2)", ADVISORY_LOCK_KEY, recipientId);
+
+  const existing = await tx.forumReputationEvent.findUnique({
+    where: { kind_postId_actorId: { kind, postId, actorId } },
+  });
+  if (existing) {
+    return null;
+  }
+
+  const dayStart = getForumReputationDayStart(now);
+  const [earned, pairRewardsToday] = await Promise.all([
+    tx.forumReputationEvent.aggregate({
+      where: { userId: recipientId, createdAt: { gte: dayStart } },
+      _sum: { points: true },
+    }),
+    tx.forumReputationEvent.count({
+      where: { userId: recipientId, actorId, reputation: { gt: 0 }, createdAt: { gte: dayStart } },
+    }),
+  ]);
+
+  const grant = resolveForumReputationGrant({
+    reputation,
+    recipientId,
+    actorId,
+    pointsEarnedToday: earned._sum.points || 0,
+    pairRewardsToday,
+    options,
+  });
+
+  await tx.forumReputationEvent.create({
+    data: {
+      kind,
+      postId,
+      actorId,
+      userId: recipientId,
+      reputation: grant.reputation,
+      points: grant.points,
+      createdAt: now,
+    },
+  });
+
+  if (grant.reputation > 0) {
+    await tx.user.update({
+      where: { id: recipientId },
+      data: {
+        forumReputation: { increment: grant.reputation },
+        ...(grant.points > 0 ? { points: { increment: grant.points } } : {}),
+      },
+    });
+  }
+  if (grant.points > 0) {
+    await tx.pointsHistory.create({
+      data: {
+        userId: recipientId,
+        points: grant.points,
+        type: POINT_TYPES.forumReputation,
+        description: describeGrant(kind),
+        relatedId: postId,
+      },
+    });
+  }
+
+  return grant;
+};
@@ -11,6 +11,10 @@ export const POINT_TYPES = {
   redemption: "redemption",
   registrationGift: "registration_gift",
   dailyRedemptionDrop: "daily_redemption_drop",
+  resourceRequestBounty: "resource_request_bounty",
+  resourceRequestReward: "resource_request_reward",
+  resourceRequestRefund: "resource_request_refund",
+  forumReputation: "forum_reputation",
 };
 
 export const DEFAULT_TRANSFER_REWARD_CONFIG = {
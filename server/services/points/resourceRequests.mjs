@@ -0,0 +1,507 @@
+import { normalizeLinks } from "../search/source1Results.js";
+import { POINT_TYPES } from "./pointsLedger.mjs";
+
+export const RESOURCE_REQUEST_STATUS = {
+  open: "open",
+  fulfilled: "fulfilled",
+  expired: "expired",
+  cancelled: "cancelled",
+};
+
+export const RESOURCE_REQUEST_LIMITS = {
+  titleMaxLength: 80,
+  descriptionMaxLength: 1000,
+  noteMaxLength: 200,
+  defaultExpireDays: 7,
+  maxPageSize: 50,
+};
+
+const NOTIFICATION_TYPE = "resource_request";
+// 发布求资源时按用户加的事务级咨询锁，第二个参数为用户 id
+const RESOURCE_REQUEST_LOCK_KEY = 720100001;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getResourceRequestOptions(env = process.env) {
+  return {
+    maxBounty: parseIntOption(env.RESOURCE_REQUEST_MAX_BOUNTY, 1000, 0, 1000000),
+    maxExpireDays: parseIntOption(env.RESOURCE_REQUEST_MAX_EXPIRE_DAYS, 30, 1, 365),
+    maxOpenPerUser: parseIntOption(env.RESOURCE_REQUEST_MAX_OPEN_PER_USER, 5, 1, 100),
+    expireIntervalMinutes: parseIntOption(
+      env.RESOURCE_REQUEST_EXPIRE_INTERVAL_MINUTES,
+      30,
+      1,
+      1440
+    ),
+  };
+}
+
+const normalizeText = (value) => String(value ?? "").replace(/\s+/g, " ").trim();
+
+const serviceError = (message, statusCode) =>
+  Object.assign(new Error(message), { statusCode });
+
+const getDefaultPrisma = async () => {
+  const { default: prisma } = await import("~/lib/prisma");
+  return prisma;
+};
+
+/**
+ * 校验发布求资源的输入，悬赏只接受非负整数，有效期换算成到期时间
+ */
+export function normalizeResourceRequestInput(
+  input = {},
+  { options = getResourceRequestOptions(), now = new Date() } = {}
+) {
+  const title = normalizeText(input.title);
+  if (!title) {
+    throw new Error("请填写想要的资源名称");
+  }
+  if (title.length > RESOURCE_REQUEST_LIMITS.titleMaxLength) {
+    throw new Error(`资源名称不能超过 ${RESOURCE_REQUEST_LIMITS.titleMaxLength} 个字符`);
+  }
+
+  const description = String(input.description ?? "").trim();
+  if (description.length > RESOURCE_REQUEST_LIMITS.descriptionMaxLength) {
+    throw new Error(`补充说明不能超过 ${RESOURCE_REQUEST_LIMITS.descriptionMaxLength} 个字符`);
+  }
+
+  const bounty = Number(input.bounty ?? 0);
+  if (!Number.isInteger(bounty) || bounty < 0) {
+    throw new Error("悬赏积分必须是非负整数");
+  }
+  if (bounty > options.maxBounty) {
+    throw new Error(`悬赏积分不能超过 ${options.maxBounty}`);
+  }
+
+  const expireDays = Number(input.expireDays ?? RESOURCE_REQUEST_LIMITS.defaultExpireDays);
+  if (!Number.isInteger(expireDays) || expireDays < 1 || expireDays > options.maxExpireDays) {
+    throw new Error(`有效期需在 1 到 ${options.maxExpireDays} 天之间`);
+  }
+
+  return {
+    title,
+    description: description || null,
+    bounty,
+    expiresAt: new Date(now.getTime() + expireDays * 24 * 60 * 60 * 1000),
+  };
+}
+
+export function normalizeFulfillmentInput(input = {}) {
+  const userResourceId = Number(input.userResourceId);
+  if (!Number.isInteger(userResourceId) || userResourceId <= 0) {
+    throw new Error("请选择用于应征的投稿");
+  }
+
+  const note = normalizeText(input.note);
+  if (note.length > RESOURCE_REQUEST_LIMITS.noteMaxLength) {
+    throw new Error(`应征说明不能超过 ${RESOURCE_REQUEST_LIMITS.noteMaxLength} 个字符`);
+  }
+
+  return { userResourceId, note: note || null };
+}
+
+export function buildResourceRequestNotification(kind, request) {
+  const title = `「${request.title}」`;
+  const messages = {
+    fulfilled: {
+      title: "你的求资源有人应征了",
+      content: `有用户为 ${title} 提交了资源，去看看是否合适吧`,
+    },
+    accepted: {
+      title: "你的应征被采纳了",
+      content:
+        request.bounty > 0
+          ? `${title} 采纳了你提交的资源，${request.bounty} 积分悬赏已到账`
+          : `${title} 采纳了你提交的资源`,
+    },
+    expired: {
+      title: "求资源已过期",
+      content:
+        request.bounty > 0
+          ? `${title} 到期未采纳，${request.bounty} 积分悬赏已退还`
+          : `${title} 到期未采纳，已自动关闭`,
+    },
+  };
+
+  return { type: NOTIFICATION_TYPE, relatedId: request.id, ...messages[kind] };
+}
+
+const notifyUser = async (client, userId, payload) => {
+  try {
+    const notification = await client.notification.create({
+      data: { userId, ...payload },
+    });
+    const { getSocketServer } = await import("~/server/utils/socketServer");
+    getSocketServer()?.to(`user:${userId}`).emit("notification:new", notification);
+  } catch (error) {
+    console.error("发送求资源通知失败:", { userId, error });
+  }
+};
+
+/**
+ * 把仍处于 open 的求资源关闭为过期或取消，并退还悬赏；已被其他请求关闭时返回 false
+ */
+const closeOpenRequest = async (tx, request, status, now) => {
+  const result = await tx.resourceRequest.updateMany({
+    where: { id: request.id, status: RESOURCE_REQUEST_STATUS.open },
+    data: { status, closedAt: now },
+  });
+  if (result.count !== 1) {
+    return false;
+  }
+
+  if (request.bounty > 0) {
+    await tx.user.update({
+      where: { id: request.requesterId },
+      data: { points: { increment: request.bounty } },
+    });
+    await tx.pointsHistory.create({
+      data: {
+        userId: request.requesterId,
+        points: request.bounty,
+        type: POINT_TYPES.resourceRequestRefund,
+        description: `求资源悬赏退还：${request.title}`,
+        relatedId: request.id,
+      },
+    });
+  }
+
+  return true;
+};
+
+/**
+ * 发布求资源；悬赏从永久积分中扣除，限时积分会过期，不能用来悬赏
+ */
+export async function createResourceRequest({
+  userId,
+  input,
+  options = getResourceRequestOptions(),
+  now = new Date(),
+  client = undefined,
+}) {
+  const data = normalizeResourceRequestInput(input, { options, now });
+  const prisma = client || (await getDefaultPrisma());
+
+  return prisma.$transaction(async (tx) => {
+    // 同一用户并发发布时串行执行，避免都通过数量检查后超出上限
+    await tx.$executeRawUnsafe(
+      "SELECT pg_advisory_xact_lock($1, $2)",
+      RESOURCE_REQUEST_LOCK_KEY,
+      userId
+    );
+    const openCount = await tx.resourceRequest.count({
+      where: { requesterId: userId, status: RESOURCE_REQUEST_STATUS.open },
+    });
+    if (openCount >= options.maxOpenPerUser) {
+      throw serviceError(`最多同时发布 ${options.maxOpenPerUser} 个求资源`, 409);
+    }
+
+    if (data.bounty > 0) {
+      const deducted = await tx.user.updateMany({
+        where: { id: userId, points: { gte: data.bounty } },
+        data: { points: { decrement: data.bounty } },
+      });
+      if (deducted.count !== 1) {
+        throw serviceError("永久积分不足，无法设置该悬赏", 400);
+      }
+    }
+
+    const request = await tx.resourceRequest.create({
+      data: { ...data, requesterId: userId },
+    });
+
+    if (data.bounty > 0) {
+      await tx.pointsHistory.create({
+        data: {
+          userId,
+          points: -data.bounty,
+          type: POINT_TYPES.resourceRequestBounty,
+          description: `求资源悬赏：${data.title}`,
+          relatedId: request.id,
+        },
+      });
+    }
+
+    return request;
+  });
+}
+
+/**
+ * 用自己已发布的投稿应征他人的求资源
+ */
+export async function fulfillResourceRequest({
+  userId,
+  requestId,
+  input,
+  now = new Date(),
+  client = undefined,
+  notify = notifyUser,
+}) {
+  const data = normalizeFulfillmentInput(input);
+  const prisma = client || (await getDefaultPrisma());
+
+  const request = await prisma.resourceRequest.findUnique({ where: { id: requestId } });
+  if (!request) {
+    throw serviceError("求资源不存在", 404);
+  }
+  if (request.status !== RESOURCE_REQUEST_STATUS.open || request.expiresAt <= now) {
+    throw serviceError("该求资源已关闭", 409);
+  }
+  if (request.requesterId === userId) {
+    throw serviceError("不能应征自己发布的求资源", 400);
+  }
+
+  const userResource = await prisma.userResource.findFirst({
+    where: { id: data.userResourceId, creatorId: userId },
+    select: { id: true, status: true },
+  });
+  if (!userResource) {
+    throw serviceError("投稿不存在", 404);
+  }
+  if (userResource.status !== "published") {
+    throw serviceError("只能使用已通过审核的投稿应征", 400);
+  }
+
+  const fulfillment = await prisma.resourceRequestFulfillment.create({
+    data: { ...data, requestId, userId },
+  });
+  await notify(
+    prisma,
+    request.requesterId,
+    buildResourceRequestNotification("fulfilled", request)
+  );
+
+  return fulfillment;
+}
+
+/**
+ * 求资源者采纳一个应征，悬赏以永久积分转给应征者
+ */
+export async function acceptResourceRequestFulfillment({
+  userId,
+  requestId,
+  fulfillmentId,
+  now = new Date(),
+  client = undefined,
+  notify = notifyUser,
+}) {
+  const prisma = client || (await getDefaultPrisma());
+
+  const { request, fulfillment } = await prisma.$transaction(async (tx) => {
+    const request = await tx.resourceRequest.findFirst({
+      where: { id: requestId, requesterId: userId },
+    });
+    if (!request) {
+      throw serviceError("求资源不存在", 404);
+    }
+
+    const fulfillment = await tx.resourceRequestFulfillment.findFirst({
+      where: { id: fulfillmentId, requestId },
+      include: { userResource: { select: { status: true } } },
+    });
+    if (!fulfillment) {
+      throw serviceError("应征不存在", 404);
+    }
+    // 应征后投稿可能被下架或驳回，不能再用它领取悬赏
+    if (fulfillment.userResource?.status !== "published") {
+      throw serviceError("应征的投稿已不可用", 409);
+    }
+
+    // 以状态和到期时间为条件更新，并发的采纳、取消或过期只有一个能成功，已到期未处理的也不能再采纳
+    const closed = await tx.resourceRequest.updateMany({
+      where: { id: requestId, status: RESOURCE_REQUEST_STATUS.open, expiresAt: { gt: now } },
+      data: { status: RESOURCE_REQUEST_STATUS.fulfilled, closedAt: now },
+    });
+    if (closed.count !== 1) {
+      throw serviceError("该求资源已关闭", 409);
+    }
+
+    const accepted = await tx.resourceRequestFulfillment.update({
+      where: { id: fulfillment.id },
+      data: { acceptedAt: now },
+    });
+
+    if (request.bounty > 0) {
+      await tx.user.update({
+        where: { id: fulfillment.userId },
+        data: { points: { increment: request.bounty } },
+      });
+      await tx.pointsHistory.create({
+        data: {
+          userId: fulfillment.userId,
+          points: request.bounty,
+          type: POINT_TYPES.resourceRequestReward,
+          description: `求资源赏金：${request.title}`,
+          relatedId: request.id,
+        },
+      });
+    }
+
+    return { request, fulfillment: accepted };
+  });
+
+  await notify(
+    prisma,
+    fulfillment.userId,
+    buildResourceRequestNotification("accepted", request)
+  );
+
+  return fulfillment;
+}
+
+export async function cancelResourceRequest({
+  userId,
+  requestId,
+  now = new Date(),
+  client = undefined,
+}) {
+  const prisma = client || (await getDefaultPrisma());
+
+  return prisma.$transaction(async (tx) => {
+    const request = await tx.resourceRequest.findFirst({
+      where: { id: requestId, requesterId: userId },
+    });
+    if (!request) {
+      throw serviceError("求资源不存在", 404);
+    }
+
+    if (!(await closeOpenRequest(tx, request, RESOURCE_REQUEST_STATUS.cancelled, now))) {
+      throw serviceError("该求资源已关闭", 409);
+    }
+
+    return { ...request, status: RESOURCE_REQUEST_STATUS.cancelled, closedAt: now };
+  });
+}
+
+/**
+ * 关闭一批已到期的求资源，退还悬赏并通知发布者
+ */
+export async function expireResourceRequests({
+  now = new Date(),
+  batchSize = 200,
+  client = undefined,
+  notify = notifyUser,
+} = {}) {
+  const prisma = client || (await getDefaultPrisma());
+  const requests = await prisma.resourceRequest.findMany({
+    where: { status: RESOURCE_REQUEST_STATUS.open, expiresAt: { lte: now } },
+    orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+    take: batchSize,
+  });
+
+  const summary = { checked: requests.length, expired: 0, refunded: 0, failed: 0 };
+
+  for (const request of requests) {
+    try {
+      const expired = await prisma.$transaction((tx) =>
+        closeOpenRequest(tx, request, RESOURCE_REQUEST_STATUS.expired, now)
+      );
+      if (!expired) {
+        continue;
+      }
+
+      summary.expired += 1;
+      if (request.bounty > 0) {
+        summary.refunded += request.bounty;
+      }
+      await notify(
+        prisma,
+        request.requesterId,
+        buildResourceRequestNotification("expired", request)
+      );
+    } catch (error) {
+      summary.failed += 1;
+      console.error("关闭过期求资源失败:", { requestId: request.id, error });
+    }
+  }
+
+  return summary;
+}
+
+const requesterSelect = { id: true, username: true, avatarStyle: true };
+
+/**
+ * 按标题搜索求资源，默认只看仍在征集中的
+ */
+export async function listResourceRequests(query = {}, { now = new Date(), client } = {}) {
+  const prisma = client || (await getDefaultPrisma());
+  const keyword = normalizeText(query.q).slice(0, RESOURCE_REQUEST_LIMITS.titleMaxLength);
+  const status = Object.values(RESOURCE_REQUEST_STATUS).includes(query.status)
+    ? query.status
+    : query.status === "all"
+      ? null
+      : RESOURCE_REQUEST_STATUS.open;
+  const page = parseIntOption(query.page, 1, 1, 10000);
+  const pageSize = parseIntOption(query.pageSize, 20, 1, RESOURCE_REQUEST_LIMITS.maxPageSize);
+
+  const where = {
+    ...(keyword ? { title: { contains: keyword, mode: "insensitive" } } : {}),
+    ...(status ? { status } : {}),
+    // 过期任务还没跑到的请求也不应再出现在征集中
+    ...(status === RESOURCE_REQUEST_STATUS.open ? { expiresAt: { gt: now } } : {}),
+  };
+
+  const [requests, total] = await Promise.all([
+    prisma.resourceRequest.findMany({
+      where,
+      orderBy: [{ bounty: "desc" }, { createdAt: "desc" }],
+      include: {
+        requester: { select: requesterSelect },
+        _count: { select: { fulfillments: true } },
+      },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.resourceRequest.count({ where }),
+  ]);
+
+  return {
+    requests,
+    pagination: { total, page, pageSize, totalPages: Math.ceil(total / pageSize) },
+  };
+}
+
+export async function getResourceRequest(id, { client } = {}) {
+  const prisma = client || (await getDefaultPrisma());
+  const request = await prisma.resourceRequest.findUnique({
+    where: { id },
+    include: {
+      requester: { select: requesterSelect },
+      fulfillments: {
+        orderBy: [{ acceptedAt: { sort: "desc", nulls: "last" } }, { createdAt: "asc" }],
+        include: {
+          user: { select: requesterSelect },
+          userResource: {
+            select: { id: true, name: true, links: true, status: true },
+          },
+        },
+      },
+    },
+  });
+  if (!request) {
+    throw serviceError("求资源不存在", 404);
+  }
+
+  // 投稿被下架后不再展示链接，避免通过求资源绕过审核
+  return {
+    ...request,
+    fulfillments: request.fulfillments.map((fulfillment) => ({
+      ...fulfillment,
+      userResource: {
+        ...fulfillment.userResource,
+        links:
+          fulfillment.userResource.status === "published"
+            ? normalizeLinks(fulfillment.userResource.links)
+            : [],
+      },
+    })),
+  };
+}
@@ -0,0 +1,106 @@
+import { extractLinksFromText } from "./scraperSpec.mjs";
+
+const SEARCH_URLS = [
+  "https://m.duoduopuzi.cn/mv/api/crawler/search",
+  "https://asd.kks021.cn/mv/api/crawler/search",
+];
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * 前端的 token 规则：`${关键词}:${时间戳}` 先 URL 编码再 Base64
+ */
+export const createDuoduoToken = (searchTerm, now = Date.now()) =>
+  Buffer.from(encodeURIComponent(`${searchTerm}:${now}`)).toString("base64");
+
+const resolveTitle = (item, source, searchTerm) => {
+  const searchTermLower = searchTerm.toLowerCase();
+  const title = item.title || "";
+  if (title && title.toLowerCase().includes(searchTermLower)) {
+    return title;
+  }
+
+  // 标题不含关键词时，先尝试正文第一行，否则用“关键词 - 来源”兜底
+  const firstLine = (item.content || "").split("\n")[0] || "";
+  return firstLine.toLowerCase().includes(searchTermLower) ? firstLine : `${searchTerm} - ${source}`;
+};
+
+export const parseDuoduoResponses = (responses, searchTerm) => {
+  const list = [];
+  const seen = new Set();
+
+  for (const source of responses) {
+    // 跳过没有数据或带错误信息的来源
+    if (!source?.data || source.message) {
+      continue;
+    }
+
+    for (const item of source.data) {
+      const links = extractLinksFromText(item.content || "");
+      if (links.length === 0) {
+        continue;
+      }
+
+      const name = resolveTitle(item, source.source, searchTerm);
+      const dedupeKey = `${name}|${links.map((link) => link.link).join("|")}`;
+      if (seen.has(dedupeKey)) {
+        continue;
+      }
+
+      seen.add(dedupeKey);
+      list.push({ name, links });
+    }
+  }
+
+  return {
+    list,
+    code: list.length > 0 ? 200 : 404,
+    msg: list.length > 0 ? undefined : "No results found",
+  };
+};
+
+const fetchDuoduoEndpoint = async (fetchImpl, searchUrl, searchTerm, token) => {
+  const { origin } = new URL(searchUrl);
+  const url = new URL(searchUrl);
+  url.searchParams.set("name", searchTerm);
+
+  const response = await fetchImpl(url.toString(), {
+    method: "GET",
+    headers: {
+      "User-Agent": USER_AGENT,
+      Accept: "application/json",
+      Referer: `${origin}/?q=${encodeURIComponent(searchTerm)}&token=${token}&page=1`,
+      Origin: origin,
+      "X-Api-Key": token,
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Duoduo upstream returned ${response.status}`);
+  }
+
+  return JSON.parse(await response.text());
+};
+
+export const fetchDuoduoResults = async (searchTerm, { fetch: fetchImpl = fetch } = {}) => {
+  const token = createDuoduoToken(searchTerm);
+  const settled = await Promise.allSettled(
+    SEARCH_URLS.map((searchUrl) => fetchDuoduoEndpoint(fetchImpl, searchUrl, searchTerm, token)),
+  );
+  const responses = settled
+    .filter((result) => result.status === "fulfilled" && Array.isArray(result.value))
+    .flatMap((result) => result.value);
+
+  if (responses.length === 0) {
+    const firstError = settled.find((result) => result.status === "rejected");
+    return {
+      list: [],
+      code: 502,
+      msg: firstError?.reason?.message || "All Duoduo upstreams failed to respond",
+    };
+  }
+
+  return parseDuoduoResponses(responses, searchTerm);
+};
@@ -1,18 +1,24 @@
 import { useRuntimeConfig } from "#imports";
 import { Client } from "@elastic/elasticsearch";
 import {
+  buildUserResourceDocumentId,
+  buildUserResourceIndexDocument,
   deleteUserResourceDocument,
   listUserResourceDocuments,
-  reindexUserResourceDocuments,
   searchUserResourceDocuments,
+  searchUserResourceDocumentsFaceted,
   upsertUserResourceDocument,
 } from "./userResourceSearchIndex.js";
 import {
+  buildResourceDocumentId,
+  buildResourceIndexDocument,
   deleteResourceDocument,
-  reindexResourceDocuments,
   searchResourceDocuments,
+  searchResourceDocumentsFaceted,
   upsertResourceDocument,
 } from "./resourceSearchIndex.js";
+import { mirrorToBuildIndex } from "./searchIndexAliases.js";
+import { createEmptySearchFacets } from "./searchFilters.js";
 
 let cachedClient = null;
 let cachedConfigKey = null;
@@ -132,6 +138,20 @@ export async function searchPublishedUserResources(keyword, size = 100) {
   );
 }
 
+export async function searchPublishedUserResourcesFaceted(keyword, options = {}) {
+  const client = getOptionalUserResourceSearchClient();
+  if (!client) {
+    return { documents: [], facets: createEmptySearchFacets() };
+  }
+
+  return searchUserResourceDocumentsFaceted(
+    client,
+    getUserResourceSearchIndexName(),
+    keyword,
+    options
+  );
+}
+
 export async function listIndexedUserResources(options = {}) {
   return listUserResourceDocuments(
     getRequiredUserResourceSearchClient(),
@@ -141,28 +161,31 @@ export async function listIndexedUserResources(options = {}) {
 }
 
 export async function syncPublishedUserResource(resource) {
-  return upsertUserResourceDocument(
-    getRequiredUserResourceSearchClient(),
-    getUserResourceSearchIndexName(),
-    resource
-  );
+  const client = getRequiredUserResourceSearchClient();
+  const indexName = getUserResourceSearchIndexName();
+  const document = await upsertUserResourceDocument(client, indexName, resource);
+  const id = buildUserResourceDocumentId(resource.id);
+
+  await mirrorToBuildIndex(indexName, id, {
+    apply: (buildIndex) =>
+      client.index({ index: buildIndex, id, document: buildUserResourceIndexDocument(resource) }),
+  });
+
+  return document;
 }
 
 export async function removePublishedUserResource(resourceId) {
-  return deleteUserResourceDocument(
-    getRequiredUserResourceSearchClient(),
-    getUserResourceSearchIndexName(),
-    resourceId
-  );
-}
+  const client = getRequiredUserResourceSearchClient();
+  const indexName = getUserResourceSearchIndexName();
+  const removed = await deleteUserResourceDocument(client, indexName, resourceId);
+  const id = buildUserResourceDocumentId(resourceId);
+
+  await mirrorToBuildIndex(indexName, id, {
+    deleted: true,
+    apply: (buildIndex) => client.delete({ index: buildIndex, id }),
+  });
 
-export async function reindexPublishedUserResources(resources, options = {}) {
-  return reindexUserResourceDocuments(
-    getRequiredUserResourceSearchClient(),
-    getUserResourceSearchIndexName(),
-    resources,
-    options
-  );
+  return removed;
 }
 
 // --- Resource search (main resource table) ---
@@ -224,27 +247,44 @@ export async function searchResources(keyword, size = 100) {
   );
 }
 
-export async function syncResource(resource) {
-  return upsertResourceDocument(
-    getRequiredResourceSearchClient(),
+export async function searchResourcesFaceted(keyword, options = {}) {
+  const client = getOptionalResourceSearchClient();
+  if (!client) {
+    return { documents: [], facets: createEmptySearchFacets() };
+  }
+
+  return searchResourceDocumentsFaceted(
+    client,
     getResourceSearchIndexName(),
-    resource
+    keyword,
+    options
   );
 }
 
-export async function removeResource(resourceId) {
-  return deleteResourceDocument(
-    getRequiredResourceSearchClient(),
-    getResourceSearchIndexName(),
-    resourceId
-  );
+export async function syncResource(resource) {
+  const client = getRequiredResourceSearchClient();
+  const indexName = getResourceSearchIndexName();
+  const document = await upsertResourceDocument(client, indexName, resource);
+  const id = buildResourceDocumentId(resource.id);
+
+  await mirrorToBuildIndex(indexName, id, {
+    apply: (buildIndex) =>
+      client.index({ index: buildIndex, id, document: buildResourceIndexDocument(resource) }),
+  });
+
+  return document;
 }
 
-export async function reindexResources(resources, options = {}) {
-  return reindexResourceDocuments(
-    getRequiredResourceSearchClient(),
-    getResourceSearchIndexName(),
-    resources,
-    options
-  );
+export async function removeResource(resourceId) {
+  const client = getRequiredResourceSearchClient();
+  const indexName = getResourceSearchIndexName();
+  const removed = await deleteResourceDocument(client, indexName, resourceId);
+  const id = buildResourceDocumentId(resourceId);
+
+  await mirrorToBuildIndex(indexName, id, {
+    deleted: true,
+    apply: (buildIndex) => client.delete({ index: buildIndex, id }),
+  });
+
+  return removed;
 }
@@ -0,0 +1,209 @@
+import {
+  DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS,
+  EXTERNAL_PAN_PARSER_TYPES,
+  EXTERNAL_PAN_SOURCE_DEFAULTS,
+  buildExternalPanSearchUrl,
+  toExternalPanSourceConfig,
+} from "./externalPanSources.mjs";
+
+export const EXTERNAL_PAN_SOURCE_LIMITS = {
+  keyMaxLength: 48,
+  labelMaxLength: 50,
+  urlMaxLength: 500,
+  minTimeoutMs: 1000,
+  maxTimeoutMs: 30000,
+  maxDetailLimit: 20,
+  maxPageSize: 50,
+};
+
+const CACHE_TTL_MS = 30 * 1000;
+
+let cachedConfigs = null;
+let cachedAt = 0;
+
+const normalizeText = (value) => String(value ?? "").trim();
+
+const normalizeInteger = (value, fallback, min, max, label) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${label}需要是 ${min} 到 ${max} 之间的整数`);
+  }
+
+  return parsed;
+};
+
+const parseHttpUrl = (value, label) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${label}格式不正确`);
+  }
+
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw new Error(`${label}只支持 http 或 https`);
+  }
+
+  return url;
+};
+
+const normalizeParams = (value) => {
+  let params = value;
+  if (typeof value === "string") {
+    if (!value.trim()) {
+      return {};
+    }
+
+    try {
+      params = JSON.parse(value);
+    } catch {
+      throw new Error("解析参数需要是合法的 JSON");
+    }
+  }
+
+  if (params === undefined || params === null) {
+    return {};
+  }
+
+  if (typeof params !== "object" || Array.isArray(params)) {
+    throw new Error("解析参数需要是 JSON 对象");
+  }
+
+  const normalized = {};
+  if (params.pageSize !== undefined && params.pageSize !== "") {
+    normalized.pageSize = normalizeInteger(
+      params.pageSize,
+      undefined,
+      1,
+      EXTERNAL_PAN_SOURCE_LIMITS.maxPageSize,
+      "每页条数",
+    );
+  }
+
+  if (params.headers !== undefined) {
+    if (!params.headers || typeof params.headers !== "object" || Array.isArray(params.headers)) {
+      throw new Error("请求头需要是 JSON 对象");
+    }
+
+    normalized.headers = Object.fromEntries(
+      Object.entries(params.headers)
+        .map(([name, headerValue]) => [normalizeText(name), normalizeText(headerValue)])
+        .filter(([name]) => name),
+    );
+  }
+
+  return normalized;
+};
+
+export const getExternalPanParserType = (value) =>
+  EXTERNAL_PAN_PARSER_TYPES.find((parserType) => parserType.value === value) || null;
+
+/**
+ * 校验后台提交的外部搜索源配置，返回可直接写入数据库的字段
+ */
+export const normalizeExternalPanSourceInput = (input = {}, existing = null) => {
+  const merged = { ...(existing || {}), ...input };
+  const key = normalizeText(merged.key).toLowerCase();
+  const label = normalizeText(merged.label);
+  const parserType = getExternalPanParserType(normalizeText(merged.parserType));
+  const searchUrlTemplate = normalizeText(merged.searchUrlTemplate);
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(key) || key.length > EXTERNAL_PAN_SOURCE_LIMITS.keyMaxLength) {
+    throw new Error(
+      `搜索源标识只能包含小写字母、数字和短横线，且不超过 ${EXTERNAL_PAN_SOURCE_LIMITS.keyMaxLength} 个字符`,
+    );
+  }
+
+  if (!label) {
+    throw new Error("搜索源名称不能为空");
+  }
+
+  if (label.length > EXTERNAL_PAN_SOURCE_LIMITS.labelMaxLength) {
+    throw new Error(`搜索源名称不能超过 ${EXTERNAL_PAN_SOURCE_LIMITS.labelMaxLength} 个字符`);
+  }
+
+  if (!parserType) {
+    throw new Error("不支持的解析器类型");
+  }
+
+  if (!searchUrlTemplate || searchUrlTemplate.length > EXTERNAL_PAN_SOURCE_LIMITS.urlMaxLength) {
+    throw new Error("搜索地址不能为空且不能超过 500 个字符");
+  }
+
+  if (!parserType.bodyKeyword && !searchUrlTemplate.includes("{keyword}")) {
+    throw new Error("搜索地址需要包含 {keyword} 占位符");
+  }
+
+  const searchUrl = parseHttpUrl(buildExternalPanSearchUrl(searchUrlTemplate, "test"), "搜索地址");
+  const baseUrlText = normalizeText(merged.baseUrl).replace(/\/+$/, "");
+  const baseUrl = baseUrlText ? parseHttpUrl(baseUrlText, "站点地址").origin : searchUrl.origin;
+
+  return {
+    key,
+    label,
+    parserType: parserType.value,
+    baseUrl,
+    searchUrlTemplate,
+    params: normalizeParams(merged.params),
+    enabled: merged.enabled === undefined ? true : Boolean(merged.enabled),
+    timeoutMs: normalizeInteger(
+      merged.timeoutMs,
+      EXTERNAL_PAN_SOURCE_DEFAULTS.timeoutMs,
+      EXTERNAL_PAN_SOURCE_LIMITS.minTimeoutMs,
+      EXTERNAL_PAN_SOURCE_LIMITS.maxTimeoutMs,
+      "超时时间",
+    ),
+    detailLimit: normalizeInteger(
+      merged.detailLimit,
+      EXTERNAL_PAN_SOURCE_DEFAULTS.detailLimit,
+      0,
+      EXTERNAL_PAN_SOURCE_LIMITS.maxDetailLimit,
+      "详情页抓取数量",
+    ),
+    sortOrder: normalizeInteger(merged.sortOrder, 0, -9999, 9999, "排序"),
+  };
+};
+
+export const clearExternalPanSourceCache = () => {
+  cachedConfigs = null;
+  cachedAt = 0;
+};
+
+export async function listExternalPanSources() {
+  const { default: prisma } = await import("~/lib/prisma");
+  return prisma.externalPanSource.findMany({
+    orderBy: [{ sortOrder: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * 外部搜索接口使用的启用搜索源。表里还没有任何记录时退回内置定义，
+ * 读取失败时沿用上一次的结果，保证搜索不受后台配置影响
+ */
+export async function getEnabledExternalPanSourceConfigs() {
+  if (cachedConfigs && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedConfigs;
+  }
+
+  try {
+    const records = await listExternalPanSources();
+    const definitions =
+      records.length > 0
+        ? records.filter((record) => record.enabled)
+        : DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS;
+
+    cachedConfigs = definitions.map(toExternalPanSourceConfig);
+    cachedAt = Date.now();
+  } catch (error) {
+    console.error("读取外部搜索源配置失败:", error);
+    if (!cachedConfigs) {
+      return DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS.map(toExternalPanSourceConfig);
+    }
+  }
+
+  return cachedConfigs;
+}
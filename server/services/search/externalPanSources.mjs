@@ -1,5 +1,12 @@
 import * as cheerio from "cheerio";
 
+import {
+  buildShareLinkRegex,
+  canonicalizeShareLink,
+  detectLinkService,
+  extractLinkPassword,
+} from "../../../utils/linkServices.js";
+
 const DEFAULT_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
 
@@ -7,23 +14,7 @@ const DEFAULT_TIMEOUT_MS = 9000;
 const DEFAULT_LIMIT = 80;
 const PANCLUB_DETAIL_LIMIT = 6;
 
-const CLOUD_LINK_REGEX =
-  /https?:\/\/(?:pan\.baidu\.com|pan\.quark\.cn|(?:www\.)?(?:aliyundrive|alipan)\.com|pan\.xunlei\.com|cloud\.189\.cn|drive\.uc\.cn|(?:yun|caiyun)\.139\.com|115cdn\.com|mypikpak\.com|toapp\.mypikpak\.com|(?:www\.)?(?:123684|123865|123912|123pan)\.(?:com|cn))\/[^\s<>"']+|magnet:\?[^\s<>"']+|ed2k:\/\/[^\s<>"']+/gi;
-
-const SERVICE_PATTERNS = [
-  ["BAIDU", /pan\.baidu\.com/i],
-  ["XUNLEI", /pan\.xunlei\.com/i],
-  ["QUARK", /pan\.quark\.cn/i],
-  ["ALIYUN", /(?:aliyundrive|alipan)\.com/i],
-  ["UC", /drive\.uc\.cn/i],
-  ["TIANYI", /cloud\.189\.cn/i],
-  ["MOBILE", /(?:yun|caiyun)\.139\.com/i],
-  ["115", /115cdn\.com|115\.com/i],
-  ["PIKPAK", /mypikpak\.com/i],
-  ["123", /(?:123684|123865|123912|123pan)\.(?:com|cn)/i],
-  ["MAGNET", /^magnet:\?/i],
-  ["ED2K", /^ed2k:\/\//i],
-];
+const CLOUD_LINK_REGEX = buildShareLinkRegex();
 
 const REMAN_DISK_SERVICE = {
   BDY: "BAIDU",
@@ -36,107 +27,140 @@ const REMAN_DISK_SERVICE = {
   115: "115",
 };
 
-const buildFlarumSearchUrl = (baseUrl, searchTerm) =>
-  `${baseUrl}/api/discussions?page%5Blimit%5D=8&include=firstPost,mostRelevantPost&filter%5Bq%5D=${encodeURIComponent(searchTerm)}`;
+const FLARUM_SEARCH_PATH =
+  "/api/discussions?page%5Blimit%5D=8&include=firstPost,mostRelevantPost&filter%5Bq%5D={keyword}";
+
+// 解析器类型：bodyKeyword 表示关键词放在请求体里，搜索地址可以不带 {keyword}
+export const EXTERNAL_PAN_PARSER_TYPES = [
+  { value: "directAnchors", label: "页面直链", sample: "html" },
+  { value: "sequentialTitleLinks", label: "标题后跟链接", sample: "html" },
+  { value: "panClubDetail", label: "PanClub 详情页", sample: "html", detailPages: true },
+  { value: "remanApi", label: "热漫 API", sample: "json", bodyKeyword: true },
+  { value: "qingfeiApi", label: "轻飞 API", sample: "json", bodyKeyword: true },
+  { value: "embeddedQingfei", label: "轻飞页面内嵌数据", sample: "html" },
+  { value: "flarumApi", label: "Flarum 论坛 API", sample: "json" },
+  { value: "sosoApi", label: "SOSO API", sample: "json", bodyKeyword: true },
+  { value: "soxunleiApi", label: "搜迅雷 API", sample: "json", bodyKeyword: true },
+];
 
-export const getExternalPanSourceConfigs = () => [
+export const EXTERNAL_PAN_SOURCE_DEFAULTS = {
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+  detailLimit: PANCLUB_DETAIL_LIMIT,
+};
+
+// 数据库里没有配置时使用的内置搜索源，也是迁移时写入数据库的初始数据
+export const DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS = [
   {
-    id: "panclub-quark",
+    key: "panclub-quark",
     label: "PanClub 夸克",
-    type: "panClubDetail",
+    parserType: "panClubDetail",
     baseUrl: "https://pan.club",
-    searchUrl: (searchTerm) =>
-      `https://pan.club/s/0/0/1/${encodeURIComponent(searchTerm)}/`,
+    searchUrlTemplate: "https://pan.club/s/0/0/1/{keyword}/",
   },
   {
-    id: "panclub-baidu",
+    key: "panclub-baidu",
     label: "PanClub 百度",
-    type: "panClubDetail",
+    parserType: "panClubDetail",
     baseUrl: "https://pan.club",
-    searchUrl: (searchTerm) =>
-      `https://pan.club/baidu/s/0/0/1/${encodeURIComponent(searchTerm)}/`,
+    searchUrlTemplate: "https://pan.club/baidu/s/0/0/1/{keyword}/",
   },
   {
-    id: "panclub-alipan",
+    key: "panclub-alipan",
     label: "PanClub 阿里",
-    type: "panClubDetail",
+    parserType: "panClubDetail",
     baseUrl: "https://pan.club",
-    searchUrl: (searchTerm) =>
-      `https://pan.club/alipan/s/0/0/1/${encodeURIComponent(searchTerm)}/`,
+    searchUrlTemplate: "https://pan.club/alipan/s/0/0/1/{keyword}/",
   },
   {
-    id: "pikasoo",
+    key: "pikasoo",
     label: "皮卡搜索",
-    type: "directAnchors",
-    searchUrl: (searchTerm) =>
-      `https://www.pikasoo.top/search/?q=${encodeURIComponent(searchTerm)}&pan=all`,
+    parserType: "directAnchors",
+    searchUrlTemplate: "https://www.pikasoo.top/search/?q={keyword}&pan=all",
   },
   {
-    id: "dapanso",
+    key: "dapanso",
     label: "大盘搜",
-    type: "sequentialTitleLinks",
-    searchUrl: (searchTerm) =>
-      `https://dapanso.com/search?keyword=${encodeURIComponent(searchTerm)}`,
+    parserType: "sequentialTitleLinks",
+    searchUrlTemplate: "https://dapanso.com/search?keyword={keyword}",
   },
   {
-    id: "duanjuso",
+    key: "duanjuso",
     label: "短剧搜",
-    type: "remanApi",
-    searchUrl: () => "https://www.duanjuso.cc/v1/search/disk",
+    parserType: "remanApi",
     baseUrl: "https://www.duanjuso.cc",
+    searchUrlTemplate: "https://www.duanjuso.cc/v1/search/disk",
   },
   {
-    id: "zlxapp",
+    key: "zlxapp",
     label: "知了搜",
-    type: "qingfeiApi",
-    searchUrl: () => "https://www.zlxapp.top/api/search",
+    parserType: "qingfeiApi",
     baseUrl: "https://www.zlxapp.top",
+    searchUrlTemplate: "https://www.zlxapp.top/api/search",
   },
   {
-    id: "haitunsou",
+    key: "haitunsou",
     label: "海豚搜索",
-    type: "embeddedQingfei",
-    searchUrl: (searchTerm) =>
-      `https://www.haitunsou.com/s/${encodeURIComponent(searchTerm)}`,
+    parserType: "embeddedQingfei",
     baseUrl: "https://www.haitunsou.com",
+    searchUrlTemplate: "https://www.haitunsou.com/s/{keyword}",
   },
   {
-    id: "wpzy-vip",
+    key: "wpzy-vip",
     label: "AQ网盘搜索",
-    type: "flarumApi",
-    searchUrl: (searchTerm) => buildFlarumSearchUrl("https://wpzy.vip", searchTerm),
+    parserType: "flarumApi",
     baseUrl: "https://wpzy.vip",
+    searchUrlTemplate: `https://wpzy.vip${FLARUM_SEARCH_PATH}`,
   },
   {
-    id: "wpzy-cc",
+    key: "wpzy-cc",
     label: "AQ网盘论坛",
-    type: "flarumApi",
-    searchUrl: (searchTerm) => buildFlarumSearchUrl("https://wpzy.cc", searchTerm),
+    parserType: "flarumApi",
     baseUrl: "https://wpzy.cc",
+    searchUrlTemplate: `https://wpzy.cc${FLARUM_SEARCH_PATH}`,
   },
   {
-    id: "wpzy-me",
+    key: "wpzy-me",
     label: "AQ影视资源",
-    type: "flarumApi",
-    searchUrl: (searchTerm) => buildFlarumSearchUrl("https://wpzy.me", searchTerm),
+    parserType: "flarumApi",
     baseUrl: "https://wpzy.me",
+    searchUrlTemplate: `https://wpzy.me${FLARUM_SEARCH_PATH}`,
   },
   {
-    id: "sosoyunpan",
+    key: "sosoyunpan",
     label: "SOSO云盘",
-    type: "sosoApi",
-    searchUrl: () => "https://www.sosoyunpan.com/list",
+    parserType: "sosoApi",
     baseUrl: "https://www.sosoyunpan.com",
+    searchUrlTemplate: "https://www.sosoyunpan.com/list",
   },
   {
-    id: "soxunleipan",
+    key: "soxunleipan",
     label: "搜迅雷盘",
-    type: "soxunleiApi",
-    searchUrl: () => "https://www.soxunleipan.com/search/list",
+    parserType: "soxunleiApi",
     baseUrl: "https://www.soxunleipan.com",
+    searchUrlTemplate: "https://www.soxunleipan.com/search/list",
   },
 ];
 
+export const buildExternalPanSearchUrl = (template, searchTerm) =>
+  String(template || "").replace(/\{keyword\}/g, encodeURIComponent(searchTerm));
+
+/**
+ * 把数据库记录或内置定义转换为适配器使用的配置
+ */
+export const toExternalPanSourceConfig = (definition) => ({
+  id: definition.key,
+  label: definition.label,
+  type: definition.parserType,
+  baseUrl: definition.baseUrl || undefined,
+  timeoutMs: definition.timeoutMs || EXTERNAL_PAN_SOURCE_DEFAULTS.timeoutMs,
+  detailLimit: definition.detailLimit ?? EXTERNAL_PAN_SOURCE_DEFAULTS.detailLimit,
+  params: definition.params || {},
+  searchUrl: (searchTerm) => buildExternalPanSearchUrl(definition.searchUrlTemplate, searchTerm),
+});
+
+export const getExternalPanSourceConfigs = () =>
+  DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS.map(toExternalPanSourceConfig);
+
 const normalizeWhitespace = (value) => String(value || "").replace(/\s+/g, " ").trim();
 
 const stripHtml = (value) => normalizeWhitespace(String(value || "").replace(/<[^>]*>/g, " "));
@@ -148,13 +172,13 @@ const normalizeTitle = (value) =>
     .slice(0, 160)
     .trim();
 
-const normalizeForMatch = (value) =>
+export const normalizeForMatch = (value) =>
   stripHtml(value)
     .toLowerCase()
     .replace(/&nbsp;/g, " ")
     .replace(/[\s\-_.()[\]【】《》<>:：|/\\,，。；;'"“”‘’]+/g, "");
 
-const isRelevantTitle = (title, searchTerm) => {
+export const isRelevantTitle = (title, searchTerm) => {
   const normalizedTitle = normalizeForMatch(title);
   const normalizedSearchTerm = normalizeForMatch(searchTerm);
 
@@ -182,14 +206,12 @@ const normalizeLink = (rawUrl) =>
     .trim();
 
 const extractPassword = (url, fallback) =>
-  normalizeLink(url).match(/[?&](?:pwd|password)=((?!undefined\b|null\b)[A-Za-z0-9]+)/i)?.[1] ||
+  extractLinkPassword(normalizeLink(url)) ||
   stripHtml(fallback).match(/^[A-Za-z0-9]+$/)?.[0] ||
   undefined;
 
-const detectService = (url, fallback) => {
-  const service = SERVICE_PATTERNS.find(([, pattern]) => pattern.test(url))?.[0];
-  return service || REMAN_DISK_SERVICE[String(fallback || "").toUpperCase()] || "OTHER";
-};
+const detectService = (url, fallback) =>
+  detectLinkService(url, REMAN_DISK_SERVICE[String(fallback || "").toUpperCase()]);
 
 const extractCloudLinks = (text, fallbackPassword) => {
   const matches = String(text || "").match(CLOUD_LINK_REGEX) || [];
@@ -229,11 +251,8 @@ const addLink = (items, name, link) => {
     return;
   }
 
-  if (
-    !existing.links.some(
-      (item) => item.link === link.link && item.pwd === link.pwd && item.service === link.service,
-    )
-  ) {
+  const linkKey = canonicalizeShareLink(link.link, link.service);
+  if (!existing.links.some((item) => canonicalizeShareLink(item.link, item.service) === linkKey)) {
     existing.links.push(link);
   }
 };
@@ -293,7 +312,12 @@ export const parseSequentialTitleLinkResults = (html, searchTerm) => {
   return mergeItems(items);
 };
 
-export const parsePanClubSearchResults = (html, searchTerm, baseUrl) => {
+export const parsePanClubSearchResults = (
+  html,
+  searchTerm,
+  baseUrl,
+  limit = PANCLUB_DETAIL_LIMIT,
+) => {
   const $ = cheerio.load(html || "");
   const detailPages = [];
   const seen = new Set();
@@ -317,7 +341,7 @@ export const parsePanClubSearchResults = (html, searchTerm, baseUrl) => {
     });
   });
 
-  return detailPages.slice(0, PANCLUB_DETAIL_LIMIT);
+  return detailPages.slice(0, limit);
 };
 
 const parsePanClubDetailResults = (html, title) => {
@@ -502,7 +526,12 @@ export const parseSoxunleiApiResults = (responseText, searchTerm) => {
   return mergeItems(items);
 };
 
-const buildRemanRequest = (searchTerm) => ({
+const getPageSize = (source, fallback) => {
+  const pageSize = Number.parseInt(String(source.params?.pageSize || ""), 10);
+  return Number.isFinite(pageSize) && pageSize > 0 ? Math.min(pageSize, 50) : fallback;
+};
+
+const buildRemanRequest = (searchTerm, pageSize = 12) => ({
   method: "POST",
   headers: {
     "Content-Type": "application/json",
@@ -516,7 +545,7 @@ const buildRemanRequest = (searchTerm) => ({
     format: [],
     share_time: "",
     share_year: "",
-    size: 12,
+    size: pageSize,
     order: "",
     type: "",
     search_ticket: "",
@@ -531,6 +560,18 @@ const buildRemanRequest = (searchTerm) => ({
   }),
 });
 
+const buildQingfeiRequest = (searchTerm, pageSize = 12) => ({
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+  },
+  body: JSON.stringify({
+    title: searchTerm,
+    page: 1,
+    size: pageSize,
+  }),
+});
+
 const buildSosoRequest = (searchTerm) => ({
   method: "POST",
   headers: {
@@ -546,7 +587,7 @@ const buildSosoRequest = (searchTerm) => ({
   }),
 });
 
-const buildSoxunleiRequest = (searchTerm) => ({
+const buildSoxunleiRequest = (searchTerm, pageSize = 10) => ({
   method: "POST",
   headers: {
     "Content-Type": "application/json",
@@ -554,7 +595,7 @@ const buildSoxunleiRequest = (searchTerm) => ({
   body: JSON.stringify({
     keyword: searchTerm,
     page: 1,
-    pageSize: 10,
+    pageSize,
     source: 0,
     ext: 0,
     sort: 0,
@@ -590,98 +631,134 @@ const defaultFetchText = async (url, options = {}) => {
   }
 };
 
-const runAdapter = async (source, searchTerm) => {
-  const fetchText = source.fetchText || defaultFetchText;
-  const searchUrl = source.searchUrl(searchTerm);
-
-  if (source.type === "directAnchors") {
-    const html = await fetchText(searchUrl, { referer: source.baseUrl || searchUrl });
-    return parseDirectAnchorResults(html, searchTerm);
+const buildAdapterRequest = (source, searchTerm, searchUrl) => {
+  const keyword = encodeURIComponent(searchTerm);
+
+  switch (source.type) {
+    case "remanApi":
+      return {
+        ...buildRemanRequest(searchTerm, getPageSize(source, 12)),
+        referer: `${source.baseUrl}/search?q=${keyword}`,
+        origin: source.baseUrl,
+      };
+    case "qingfeiApi":
+      return {
+        ...buildQingfeiRequest(searchTerm, getPageSize(source, 12)),
+        referer: `${source.baseUrl}/s/${keyword}`,
+        origin: source.baseUrl,
+      };
+    case "flarumApi":
+      return { referer: `${source.baseUrl}/search/?kw=${keyword}` };
+    case "sosoApi":
+      return {
+        ...buildSosoRequest(searchTerm),
+        referer: `${source.baseUrl}/file/Search?keyword=${keyword}`,
+        origin: source.baseUrl,
+      };
+    case "soxunleiApi":
+      return {
+        ...buildSoxunleiRequest(searchTerm, getPageSize(source, 10)),
+        referer: `${source.baseUrl}/Search?keyword=${keyword}`,
+        origin: source.baseUrl,
+      };
+    default:
+      return { referer: source.baseUrl || searchUrl };
   }
+};
 
-  if (source.type === "sequentialTitleLinks") {
-    const html = await fetchText(searchUrl, { referer: source.baseUrl || searchUrl });
-    return parseSequentialTitleLinkResults(html, searchTerm);
+/**
+ * 按解析器类型解析搜索页响应；panClubDetail 返回的是待抓取的详情页列表
+ */
+export const parseExternalPanResponse = (source, responseText, searchTerm) => {
+  switch (source.type) {
+    case "directAnchors":
+      return parseDirectAnchorResults(responseText, searchTerm);
+    case "sequentialTitleLinks":
+      return parseSequentialTitleLinkResults(responseText, searchTerm);
+    case "panClubDetail":
+      return parsePanClubSearchResults(
+        responseText,
+        searchTerm,
+        source.baseUrl,
+        source.detailLimit ?? PANCLUB_DETAIL_LIMIT,
+      );
+    case "remanApi":
+      return parseRemanApiResults(responseText, searchTerm);
+    case "qingfeiApi":
+      return parseQingfeiApiResults(responseText, searchTerm);
+    case "embeddedQingfei":
+      return parseEmbeddedQingfeiResults(responseText, searchTerm);
+    case "flarumApi":
+      return parseFlarumApiResults(responseText, searchTerm);
+    case "sosoApi":
+      return parseSosoApiResults(responseText, searchTerm);
+    case "soxunleiApi":
+      return parseSoxunleiApiResults(responseText, searchTerm);
+    default:
+      return [];
   }
+};
 
-  if (source.type === "remanApi") {
-    const request = buildRemanRequest(searchTerm);
-    const responseText = await fetchText(searchUrl, {
-      ...request,
-      referer: `${source.baseUrl}/search?q=${encodeURIComponent(searchTerm)}`,
-      origin: source.baseUrl,
-    });
-    return parseRemanApiResults(responseText, searchTerm);
-  }
+const fetchPanClubDetails = async (source, details, searchUrl) => {
+  const fetchText = source.fetchText || defaultFetchText;
+  const detailResults = await Promise.allSettled(
+    details.map(async (detail) => {
+      const detailHtml = await fetchText(detail.detailUrl, {
+        referer: searchUrl,
+        timeoutMs: source.timeoutMs || DEFAULT_TIMEOUT_MS,
+        headers: source.params?.headers,
+      });
+      return parsePanClubDetailResults(detailHtml, detail.name);
+    }),
+  );
 
-  if (source.type === "qingfeiApi") {
-    const responseText = await fetchText(searchUrl, {
-      method: "POST",
-      body: JSON.stringify({
-        title: searchTerm,
-        page: 1,
-        size: 12,
-      }),
-      headers: {
-        "Content-Type": "application/json",
-      },
-      referer: `${source.baseUrl}/s/${encodeURIComponent(searchTerm)}`,
-      origin: source.baseUrl,
-    });
-    return parseQingfeiApiResults(responseText, searchTerm);
-  }
+  return detailResults
+    .filter((result) => result.status === "fulfilled")
+    .flatMap((result) => result.value);
+};
 
-  if (source.type === "embeddedQingfei") {
-    const html = await fetchText(searchUrl, { referer: source.baseUrl || searchUrl });
-    return parseEmbeddedQingfeiResults(html, searchTerm);
-  }
+const runAdapter = async (source, searchTerm) => {
+  const fetchText = source.fetchText || defaultFetchText;
+  const searchUrl = source.searchUrl(searchTerm);
+  const request = buildAdapterRequest(source, searchTerm, searchUrl);
+  const responseText = await fetchText(searchUrl, {
+    ...request,
+    timeoutMs: source.timeoutMs,
+    headers: { ...(request.headers || {}), ...(source.params?.headers || {}) },
+  });
+  const parsed = parseExternalPanResponse(source, responseText, searchTerm);
 
-  if (source.type === "flarumApi") {
-    const responseText = await fetchText(searchUrl, {
-      referer: `${source.baseUrl}/search/?kw=${encodeURIComponent(searchTerm)}`,
-    });
-    return parseFlarumApiResults(responseText, searchTerm);
+  if (source.type === "panClubDetail") {
+    return fetchPanClubDetails(source, parsed, searchUrl);
   }
 
-  if (source.type === "sosoApi") {
-    const request = buildSosoRequest(searchTerm);
-    const responseText = await fetchText(searchUrl, {
-      ...request,
-      referer: `${source.baseUrl}/file/Search?keyword=${encodeURIComponent(searchTerm)}`,
-      origin: source.baseUrl,
-    });
-    return parseSosoApiResults(responseText, searchTerm);
-  }
+  return parsed;
+};
 
-  if (source.type === "soxunleiApi") {
-    const request = buildSoxunleiRequest(searchTerm);
-    const responseText = await fetchText(searchUrl, {
-      ...request,
-      referer: `${source.baseUrl}/Search?keyword=${encodeURIComponent(searchTerm)}`,
-      origin: source.baseUrl,
-    });
-    return parseSoxunleiApiResults(responseText, searchTerm);
-  }
+/**
+ * 后台“测试搜索源”：传入 sampleText 时只解析粘贴的样本，否则实时请求一次
+ */
+export const runExternalPanSourceTest = async (source, searchTerm, options = {}) => {
+  const startedAt = Date.now();
 
-  if (source.type === "panClubDetail") {
-    const html = await fetchText(searchUrl, { referer: source.baseUrl });
-    const details = parsePanClubSearchResults(html, searchTerm, source.baseUrl);
-    const detailResults = await Promise.allSettled(
-      details.map(async (detail) => {
-        const detailHtml = await fetchText(detail.detailUrl, {
-          referer: searchUrl,
-          timeoutMs: DEFAULT_TIMEOUT_MS,
-        });
-        return parsePanClubDetailResults(detailHtml, detail.name);
-      }),
-    );
+  try {
+    if (options.sampleText) {
+      const parsed = parseExternalPanResponse(source, options.sampleText, searchTerm);
+      return source.type === "panClubDetail"
+        ? { ok: true, items: [], details: parsed, durationMs: Date.now() - startedAt }
+        : { ok: true, items: parsed, durationMs: Date.now() - startedAt };
+    }
 
-    return detailResults
-      .filter((result) => result.status === "fulfilled")
-      .flatMap((result) => result.value);
+    const items = await runAdapter(source, searchTerm);
+    return { ok: true, items, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      ok: false,
+      items: [],
+      error: error?.message || "unknown error",
+      durationMs: Date.now() - startedAt,
+    };
   }
-
-  return [];
 };
 
 export const buildExternalPanSearchResult = async (
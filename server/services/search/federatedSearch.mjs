@@ -0,0 +1,234 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+
+import { canonicalizeShareLink } from "../../../utils/linkServices.js";
+import { normalizeLinks, normalizeSourceName } from "./source1Results.js";
+import { getSearchSourceId } from "./sourceHealth.mjs";
+
+export const FEDERATED_SEARCH_HEADER = "x-aipan-federated";
+export const FEDERATED_CLIENT_IP_HEADER = "x-aipan-federated-ip";
+
+export const FEDERATED_SEARCH_FORMATS = ["sse", "ndjson"];
+
+// 进程内随机口令，只用于本进程发起的本地子请求，不会出现在对外响应中
+const internalToken = randomBytes(24).toString("hex");
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getFederatedSearchOptions(env = process.env) {
+  return {
+    concurrency: parseIntOption(env.FEDERATED_SEARCH_CONCURRENCY, 4, 1, 16),
+    timeoutMs: parseIntOption(env.FEDERATED_SEARCH_SOURCE_TIMEOUT_MS, 15000, 1000, 60000),
+  };
+}
+
+export function getFederatedInternalToken() {
+  return internalToken;
+}
+
+export function isTrustedFederatedRequest(headerValue) {
+  const value = Buffer.from(String(headerValue || ""));
+  const expected = Buffer.from(internalToken);
+  return value.length === expected.length && timingSafeEqual(value, expected);
+}
+
+/**
+ * Accept 头或 format 参数指定 ndjson 时返回 NDJSON，其余一律 SSE
+ */
+export function resolveFederatedSearchFormat(format, accept = "") {
+  const normalized = String(format || "").trim().toLowerCase();
+  if (FEDERATED_SEARCH_FORMATS.includes(normalized)) {
+    return normalized;
+  }
+
+  return String(accept).includes("application/x-ndjson") ? "ndjson" : "sse";
+}
+
+export function formatFederatedEvent(event, format = "sse") {
+  const payload = JSON.stringify(event);
+  if (format === "ndjson") {
+    return `${payload}\n`;
+  }
+
+  return `event: ${event.type}\ndata: ${payload}\n\n`;
+}
+
+/**
+ * 跨搜索源按规范化链接去重：先到的结果保留链接，后到的重复链接被剔除，
+ * 剔除后没有链接的条目整条丢弃
+ */
+export function createFederatedLinkDeduper() {
+  const seenLinks = new Set();
+
+  return (rawItems = []) => {
+    const items = [];
+    let duplicateLinks = 0;
+
+    for (const rawItem of rawItems) {
+      const name = normalizeSourceName(rawItem?.name);
+      if (!name) {
+        continue;
+      }
+
+      const links = [];
+      for (const link of normalizeLinks(rawItem?.links)) {
+        const linkKey = canonicalizeShareLink(link.link, link.service);
+        if (seenLinks.has(linkKey)) {
+          duplicateLinks += 1;
+          continue;
+        }
+
+        seenLinks.add(linkKey);
+        links.push(link);
+      }
+
+      if (links.length === 0) {
+        continue;
+      }
+
+      const item = { name, links };
+      if (rawItem?.highlightedName) {
+        item.highlightedName = rawItem.highlightedName;
+      }
+      items.push(item);
+    }
+
+    return { items, duplicateLinks };
+  };
+}
+
+const withTimeout = (promise, timeoutMs) => {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`搜索源超过 ${timeoutMs}ms 未响应`);
+      error.name = "TimeoutError";
+      reject(error);
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const describeSourceError = (error) => {
+  if (error?.name === "TimeoutError" || /timeout/i.test(error?.message || "")) {
+    return { status: "timeout", message: "搜索源响应超时" };
+  }
+
+  return {
+    status: "error",
+    message: String(error?.data?.msg || error?.message || "搜索源请求失败").slice(0, 200),
+  };
+};
+
+/**
+ * 并发调用各搜索源，每个搜索源返回后立即通过 emit 推送去重后的结果和状态。
+ * fetchSource(source, keyword, { signal, timeoutMs }) 负责实际请求，返回 /api/sources/* 的响应体。
+ * 传入 rankResults(groups) 时，全部搜索源结束后再推送一次跨源排序后的完整列表。
+ */
+export async function runFederatedSearch({
+  keyword,
+  sources,
+  fetchSource,
+  emit,
+  signal,
+  rankResults,
+  options = {},
+}) {
+  const runtimeOptions = { ...getFederatedSearchOptions(), ...options };
+  const dedupe = createFederatedLinkDeduper();
+  const queue = (sources || [])
+    .map((source) => ({ ...source, id: source.id || getSearchSourceId(source.api) }))
+    .filter((source) => source.id);
+  const summary = [];
+  const rankingGroups = [];
+  let totalItems = 0;
+
+  emit({
+    type: "start",
+    keyword,
+    sources: queue.map((source) => source.id),
+  });
+
+  const runSource = async (source) => {
+    const startedAt = Date.now();
+    emit({ type: "source_start", source: source.id });
+
+    let status;
+    try {
+      // 本地子请求不一定响应 signal，超时由这里统一兜底
+      const body = await withTimeout(
+        fetchSource(source, keyword, { signal, timeoutMs: runtimeOptions.timeoutMs }),
+        runtimeOptions.timeoutMs
+      );
+      const code = Number(body?.code);
+
+      if (!Array.isArray(body?.list) || (Number.isFinite(code) && code >= 400)) {
+        status = {
+          status: "error",
+          code: Number.isFinite(code) ? code : null,
+          message: String(body?.msg || "搜索源返回异常").slice(0, 200),
+        };
+      } else {
+        rankingGroups.push({ source: source.id, items: body.list });
+        const { items, duplicateLinks } = dedupe(body.list);
+        totalItems += items.length;
+        if (items.length > 0 && !signal?.aborted) {
+          emit({ type: "results", source: source.id, items });
+        }
+        status = {
+          status: body.list.length > 0 ? "ok" : "empty",
+          count: items.length,
+          duplicateLinks,
+        };
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+      status = describeSourceError(error);
+    }
+
+    const sourceStatus = {
+      source: source.id,
+      latencyMs: Date.now() - startedAt,
+      ...status,
+    };
+    summary.push(sourceStatus);
+    emit({ type: "source_status", ...sourceStatus });
+  };
+
+  // 按配置顺序取出搜索源，同时进行的请求数不超过并发上限
+  const workers = Array.from(
+    { length: Math.min(runtimeOptions.concurrency, queue.length) },
+    async () => {
+      while (queue.length > 0 && !signal?.aborted) {
+        await runSource(queue.shift());
+      }
+    }
+  );
+  await Promise.all(workers);
+
+  if (rankResults && rankingGroups.length > 0 && !signal?.aborted) {
+    try {
+      emit({ type: "ranked", items: await rankResults(rankingGroups) });
+    } catch (error) {
+      console.error("聚合搜索结果排序失败:", error);
+    }
+  }
+
+  emit({
+    type: "done",
+    total: totalItems,
+    aborted: Boolean(signal?.aborted),
+    sources: summary,
+  });
+
+  return { total: totalItems, sources: summary };
+}
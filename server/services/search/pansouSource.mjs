@@ -1,3 +1,8 @@
+import {
+  canonicalizeShareLink,
+  detectLinkService,
+} from "../../../utils/linkServices.js";
+
 const DEFAULT_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
 
@@ -174,8 +179,6 @@ export const transformPansouResponses = (responses, searchTerm, options = {}) =>
         return;
       }
 
-      const service = SERVICE_MAPPING[type] || "OTHER";
-
       items.forEach((item) => {
         const title = normalizeTitle(item?.note || "", searchTerm);
         const rawText = `${title} ${item?.note || ""}`.toLowerCase();
@@ -188,8 +191,9 @@ export const transformPansouResponses = (responses, searchTerm, options = {}) =>
           return;
         }
 
+        const service = detectLinkService(link, SERVICE_MAPPING[type]);
         const pwd = item?.password || undefined;
-        const linkKey = `${service}|${link}|${pwd || ""}`;
+        const linkKey = canonicalizeShareLink(link, service);
         const groupKey = globalLinkIndex.get(linkKey) || title;
 
         if (!grouped.has(groupKey)) {
@@ -201,10 +205,7 @@ export const transformPansouResponses = (responses, searchTerm, options = {}) =>
 
         const current = grouped.get(groupKey);
         const duplicate = current.links.some(
-          (existing) =>
-            existing.service === service &&
-            existing.link === link &&
-            existing.pwd === pwd,
+          (existing) => canonicalizeShareLink(existing.link, existing.service) === linkKey,
         );
 
         if (!duplicate) {
@@ -0,0 +1,340 @@
+import { canonicalizeShareLink } from "../../../utils/linkServices.js";
+import { normalizeForMatch } from "./externalPanSources.mjs";
+import { normalizeLinks, normalizeSourceName } from "./source1Results.js";
+
+// 各评分项的权重，合计为 1，最终得分换算为 0-100
+export const RANKING_WEIGHTS = {
+  relevance: 0.4,
+  reliability: 0.2,
+  health: 0.2,
+  freshness: 0.1,
+  service: 0.1,
+};
+
+const DEFAULT_SERVICE_PREFERENCE = ["QUARK", "ALIYUN", "BAIDU", "UC", "XUNLEI", "115", "TIANYI", "123"];
+
+const LINK_HEALTH_VALUES = {
+  healthy: 1,
+  unknown: 0.6,
+  skipped: 0.6,
+  failing: 0.3,
+  dead: 0,
+};
+
+// 聚类时忽略的清晰度、版本、体积等标记，避免“xx 4K”和“xx 1080P”被当成不同资源
+const TITLE_NOISE_PATTERN =
+  /(?:2160p|1080p|720p|4k|8k|hdr|60帧|杜比视界|蓝光原盘|蓝光|超清|高清|完结|全集|合集|国语|粤语|中字|双语|无删减|内封字幕|更新至?第?\d+集|\d+(?:\.\d+)?(?:gb|mb|g))/g;
+
+const DATE_FIELDS = ["updatedAt", "datetime", "createdAt", "date", "time"];
+
+const MATCH_TOKEN_PATTERN = /[a-z0-9]{2,}|[\u4e00-\u9fff]{2,}/g;
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  return ["1", "true", "yes", "on"].includes(String(value).toLowerCase());
+};
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const parseServiceList = (value) => {
+  const services = String(value || "")
+    .split(",")
+    .map((service) => service.trim().toUpperCase())
+    .filter(Boolean);
+
+  return services.length > 0 ? services : DEFAULT_SERVICE_PREFERENCE;
+};
+
+export function getResultRankingOptions(env = process.env) {
+  return {
+    enabled: parseBoolean(env.SEARCH_RANKING_ENABLED, true),
+    similarityThreshold: parseIntOption(env.SEARCH_RANKING_SIMILARITY, 85, 50, 100) / 100,
+    freshnessHalfLifeDays: parseIntOption(env.SEARCH_RANKING_FRESHNESS_DAYS, 90, 1, 3650),
+    servicePreference: parseServiceList(env.SEARCH_RANKING_SERVICE_PREFERENCE),
+    limit: parseIntOption(env.SEARCH_RANKING_LIMIT, 200, 1, 1000),
+  };
+}
+
+const round = (value, digits = 3) => Number(value.toFixed(digits));
+
+export function getTitleClusterKey(title) {
+  return normalizeForMatch(title).replace(TITLE_NOISE_PATTERN, "");
+}
+
+const toBigrams = (value) => {
+  const bigrams = new Map();
+  for (let index = 0; index < value.length - 1; index += 1) {
+    const bigram = value.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * 基于字符二元组的 Dice 系数，中文标题没有分词也能比较相似度
+ */
+export function getTitleSimilarity(left, right) {
+  if (!left || !right) {
+    return 0;
+  }
+
+  if (left === right) {
+    return 1;
+  }
+
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const leftBigrams = toBigrams(left);
+  const rightBigrams = toBigrams(right);
+  let overlap = 0;
+  for (const [bigram, count] of leftBigrams) {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0);
+  }
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+export function scoreTitleRelevance(title, keyword) {
+  const normalizedTitle = normalizeForMatch(title);
+  const normalizedKeyword = normalizeForMatch(keyword);
+
+  if (!normalizedKeyword) {
+    return 0.5;
+  }
+
+  if (!normalizedTitle) {
+    return 0;
+  }
+
+  if (normalizedTitle === normalizedKeyword) {
+    return 1;
+  }
+
+  if (normalizedTitle.includes(normalizedKeyword)) {
+    const coverage = normalizedKeyword.length / normalizedTitle.length;
+    const prefixBonus = normalizedTitle.startsWith(normalizedKeyword) ? 0.1 : 0;
+    return round(Math.min(0.6 + 0.3 * coverage + prefixBonus, 0.95));
+  }
+
+  const tokens = normalizedKeyword.match(MATCH_TOKEN_PATTERN) || [];
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  const matched = tokens.filter((token) => normalizedTitle.includes(token)).length;
+  return round((matched / tokens.length) * 0.5);
+}
+
+const scoreSourceReliability = (sources, sourceScores) => {
+  const values = sources.map((source) => {
+    const score = sourceScores?.[source];
+    return typeof score === "number" ? score / 100 : 0.6;
+  });
+
+  // 多个搜索源同时给出同一资源，可信度更高
+  const corroboration = 0.1 * (sources.length - 1);
+  return round(Math.min(Math.max(...values, 0) + corroboration, 1));
+};
+
+const getLinkHealthValue = (link, linkHealth) => {
+  const status = linkHealth?.get?.(link.canonicalLink);
+  return status in LINK_HEALTH_VALUES ? LINK_HEALTH_VALUES[status] : LINK_HEALTH_VALUES.unknown;
+};
+
+const getServiceValue = (service, servicePreference) => {
+  const index = servicePreference.indexOf(service);
+  return index === -1 ? 0.2 : round(1 - index / servicePreference.length);
+};
+
+const parseItemDate = (item) => {
+  for (const field of DATE_FIELDS) {
+    const value = item?.[field];
+    if (!value) {
+      continue;
+    }
+
+    const timestamp = typeof value === "number" ? value : Date.parse(value);
+    if (Number.isFinite(timestamp)) {
+      // 兼容秒级时间戳
+      return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+    }
+  }
+
+  return null;
+};
+
+const scoreFreshness = (timestamp, now, halfLifeDays) => {
+  if (!timestamp) {
+    return 0.5;
+  }
+
+  const ageDays = Math.max(now - timestamp, 0) / 86_400_000;
+  return round(0.5 ** (ageDays / halfLifeDays));
+};
+
+const buildComponent = (value, weight) => ({
+  value,
+  weight,
+  points: round(value * weight * 100, 1),
+});
+
+/**
+ * 把各搜索源的结果聚类、合并链接并打分，返回统一排序的结果列表。
+ * groups: [{ source, items }]；sourceScores: { [sourceId]: 0-100 }；linkHealth: Map<规范化链接, 状态>
+ */
+export function rankSearchResults(groups = [], context = {}) {
+  const options = { ...getResultRankingOptions(), ...context.options };
+  const now = context.now ?? Date.now();
+  const clusters = [];
+
+  for (const group of groups) {
+    for (const rawItem of group?.items || []) {
+      const name = normalizeSourceName(rawItem?.name);
+      const key = getTitleClusterKey(name);
+      const links = normalizeLinks(rawItem?.links);
+      if (!name || !key || links.length === 0) {
+        continue;
+      }
+
+      let cluster = clusters.find(
+        (candidate) => getTitleSimilarity(candidate.key, key) >= options.similarityThreshold
+      );
+      if (!cluster) {
+        cluster = {
+          key,
+          members: [],
+          sources: [],
+          links: new Map(),
+          timestamp: null,
+          order: clusters.length,
+        };
+        clusters.push(cluster);
+      }
+
+      cluster.members.push({ name, highlightedName: rawItem.highlightedName, source: group.source });
+      if (group.source && !cluster.sources.includes(group.source)) {
+        cluster.sources.push(group.source);
+      }
+
+      const timestamp = parseItemDate(rawItem);
+      if (timestamp && (!cluster.timestamp || timestamp > cluster.timestamp)) {
+        cluster.timestamp = timestamp;
+      }
+
+      for (const link of links) {
+        const canonicalLink = canonicalizeShareLink(link.link, link.service);
+        if (!cluster.links.has(canonicalLink)) {
+          cluster.links.set(canonicalLink, { ...link, canonicalLink });
+        }
+      }
+    }
+  }
+
+  const ranked = clusters.map((cluster) => {
+    const titleScores = cluster.members.map((member) => ({
+      member,
+      relevance: scoreTitleRelevance(member.name, context.keyword),
+    }));
+    const best = titleScores.reduce((current, candidate) =>
+      candidate.relevance > current.relevance ? candidate : current
+    );
+
+    const links = [...cluster.links.values()]
+      .map((link) => ({
+        ...link,
+        health: getLinkHealthValue(link, context.linkHealth),
+        preference: getServiceValue(link.service, options.servicePreference),
+      }))
+      .sort((left, right) => right.health - left.health || right.preference - left.preference);
+
+    const components = {
+      relevance: buildComponent(best.relevance, RANKING_WEIGHTS.relevance),
+      reliability: buildComponent(
+        scoreSourceReliability(cluster.sources, context.sourceScores),
+        RANKING_WEIGHTS.reliability
+      ),
+      health: buildComponent(Math.max(...links.map((link) => link.health)), RANKING_WEIGHTS.health),
+      freshness: buildComponent(
+        scoreFreshness(cluster.timestamp, now, options.freshnessHalfLifeDays),
+        RANKING_WEIGHTS.freshness
+      ),
+      service: buildComponent(
+        Math.max(...links.map((link) => link.preference)),
+        RANKING_WEIGHTS.service
+      ),
+    };
+
+    const item = {
+      name: best.member.name,
+      links: links.map(({ link, pwd, service }) => ({ link, pwd, service })),
+      sources: cluster.sources,
+      aliases: [...new Set(cluster.members.map((member) => member.name))].filter(
+        (name) => name !== best.member.name
+      ),
+      score: round(
+        Object.values(components).reduce((sum, component) => sum + component.points, 0),
+        1
+      ),
+      scoreComponents: components,
+    };
+    const highlighted = cluster.members.find((member) => member.highlightedName);
+    if (highlighted) {
+      item.highlightedName = highlighted.highlightedName;
+    }
+
+    return { item, order: cluster.order };
+  });
+
+  return ranked
+    .sort((left, right) => right.item.score - left.item.score || left.order - right.order)
+    .slice(0, options.limit)
+    .map(({ item }) => item);
+}
+
+/**
+ * 读取搜索源健康分和链接检测状态后再排序；任一信号读取失败都按未知处理
+ */
+export async function rankSearchResultsWithSignals(groups = [], { keyword } = {}) {
+  const sourceIds = [...new Set(groups.map((group) => group.source).filter(Boolean))];
+  const canonicalLinks = groups.flatMap((group) =>
+    (group.items || []).flatMap((item) =>
+      normalizeLinks(item?.links).map((link) => canonicalizeShareLink(link.link, link.service))
+    )
+  );
+
+  const [sourceScores, linkHealth] = await Promise.all([
+    import("./sourceHealth.mjs")
+      .then(({ getSearchSourceHealthReport }) => getSearchSourceHealthReport(sourceIds))
+      .then((report) =>
+        Object.fromEntries(report.sources.map((source) => [source.id, source.score]))
+      )
+      .catch((error) => {
+        console.error("读取搜索源健康分失败:", error);
+        return {};
+      }),
+    import("../userResources/linkHealthRunner.js")
+      .then(({ getLinkHealthStatusMap }) => getLinkHealthStatusMap(canonicalLinks))
+      .catch((error) => {
+        console.error("读取链接健康状态失败:", error);
+        return new Map();
+      }),
+  ]);
+
+  return rankSearchResults(groups, { keyword, sourceScores, linkHealth });
+}
@@ -0,0 +1,391 @@
+import { LINK_SERVICE_KEYS } from "../../../utils/linkServices.js";
+import { buildResourceDocumentId } from "./resourceSearchIndex.js";
+import { normalizeLinks } from "./source1Results.js";
+import { buildUserResourceDocumentId } from "./userResourceSearchIndex.js";
+
+export const SAVED_SEARCH_LIMITS = {
+  keywordMaxLength: 50,
+  searchSize: 100,
+  seenKeysMax: 200,
+  notificationItems: 5,
+  // 资源写库到进入搜索索引之间有延迟，检查时往前多看一段，已提醒过的靠 seenKeys 排除
+  indexingGraceMs: 10 * 60 * 1000,
+};
+
+const DEFAULT_EMAIL_THROTTLE_PREFIX = "aipan:saved-search-email";
+const EMAIL_THROTTLE_LABEL = "保存搜索提醒邮件";
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  return ["1", "true", "yes", "on"].includes(String(value).toLowerCase());
+};
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const escapeHtml = (value) =>
+  String(value || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export function getSavedSearchOptions(env = process.env) {
+  return {
+    enabled: parseBoolean(env.SAVED_SEARCH_ALERTS_ENABLED, true),
+    intervalMinutes: parseIntOption(env.SAVED_SEARCH_CHECK_INTERVAL_MINUTES, 30, 5, 1440),
+    batchSize: parseIntOption(env.SAVED_SEARCH_BATCH_SIZE, 200, 1, 2000),
+    maxPerUser: parseIntOption(env.SAVED_SEARCH_MAX_PER_USER, 20, 1, 100),
+    emailThrottleSeconds: parseIntOption(
+      env.SAVED_SEARCH_EMAIL_THROTTLE_SECONDS,
+      21600,
+      60,
+      604800
+    ),
+  };
+}
+
+const normalizeKeyword = (value) => String(value ?? "").replace(/\s+/g, " ").trim();
+
+const normalizeServices = (value) => {
+  const services = Array.isArray(value) ? value : String(value || "").split(",");
+  const normalized = [
+    ...new Set(services.map((service) => String(service || "").trim().toUpperCase()).filter(Boolean)),
+  ];
+
+  const unsupported = normalized.find((service) => !LINK_SERVICE_KEYS.includes(service));
+  if (unsupported) {
+    throw new Error(`不支持的网盘类型：${unsupported}`);
+  }
+
+  return normalized;
+};
+
+/**
+ * 校验用户提交的保存搜索，返回可直接写入数据库的字段
+ */
+export function normalizeSavedSearchInput(input = {}, existing = null) {
+  const merged = { ...(existing || {}), ...input };
+  const keyword = normalizeKeyword(merged.keyword);
+
+  if (!keyword) {
+    throw new Error("关键词不能为空");
+  }
+
+  if (keyword.length > SAVED_SEARCH_LIMITS.keywordMaxLength) {
+    throw new Error(`关键词不能超过 ${SAVED_SEARCH_LIMITS.keywordMaxLength} 个字符`);
+  }
+
+  return {
+    keyword,
+    services: normalizeServices(merged.services),
+    enabled: merged.enabled === undefined ? true : Boolean(merged.enabled),
+    emailEnabled: merged.emailEnabled === undefined ? true : Boolean(merged.emailEnabled),
+  };
+}
+
+const toTimestamp = (value) => {
+  const timestamp = value instanceof Date ? value.getTime() : Date.parse(value || "");
+  return Number.isFinite(timestamp) ? timestamp : 0;
+};
+
+/**
+ * 把两个索引的命中结果转成统一结构；用户投稿审核通过时才会更新 updatedAt，所以两者都以 updatedAt 作为发布时间
+ */
+export function collectSavedSearchDocuments({ resources = [], userResources = [] } = {}) {
+  return [
+    ...resources.map((doc) => ({ key: buildResourceDocumentId(doc.resourceId), doc })),
+    ...userResources.map((doc) => ({ key: buildUserResourceDocumentId(doc.resourceId), doc })),
+  ].map(({ key, doc }) => ({
+    key,
+    name: doc.name,
+    links: normalizeLinks(doc.links),
+    publishedAt: toTimestamp(doc.updatedAt || doc.createdAt),
+  }));
+}
+
+/**
+ * 找出上次检查之后发布、且没有提醒过的匹配资源；设置了网盘类型时只保留对应的链接
+ */
+export function findNewSavedSearchMatches(savedSearch, documents = []) {
+  const since = toTimestamp(savedSearch.lastCheckedAt) - SAVED_SEARCH_LIMITS.indexingGraceMs;
+  const seenKeys = new Set(savedSearch.seenKeys || []);
+  const services = savedSearch.services || [];
+
+  return documents
+    .filter((document) => document.publishedAt > since && !seenKeys.has(document.key))
+    .map((document) => ({
+      ...document,
+      links:
+        services.length > 0
+          ? document.links.filter((link) => services.includes(link.service))
+          : document.links,
+    }))
+    .filter((document) => document.name && document.links.length > 0)
+    .sort((left, right) => right.publishedAt - left.publishedAt);
+}
+
+const getSearchUrl = (siteUrl, keyword) => {
+  const normalizedSiteUrl = String(siteUrl || "").trim().replace(/\/+$/, "");
+  return normalizedSiteUrl
+    ? `${normalizedSiteUrl}/search?keyword=${encodeURIComponent(keyword)}`
+    : "";
+};
+
+export function buildSavedSearchNotification({ savedSearch, matches, siteUrl }) {
+  const shown = matches.slice(0, SAVED_SEARCH_LIMITS.notificationItems);
+  const title = `「${savedSearch.keyword}」有 ${matches.length} 个新资源`;
+  const moreText =
+    matches.length > shown.length ? `等 ${matches.length} 个资源` : "";
+  const searchUrl = getSearchUrl(siteUrl, savedSearch.keyword);
+  const content = [
+    `你保存的搜索「${savedSearch.keyword}」有新发布的资源：`,
+    ...shown.map((match) => `· ${match.name}`),
+    moreText,
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const emailText = [
+    title,
+    "",
+    content,
+    searchUrl ? `查看搜索结果：${searchUrl}` : "",
+    "不想再收到提醒，可以在个人中心的“保存的搜索”里关闭邮件提醒。",
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const emailHtml = `
+    <div style="font-family:Arial,sans-serif;line-height:1.7;color:#111827;max-width:640px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">${escapeHtml(title)}</h2>
+      <p>你保存的搜索「${escapeHtml(savedSearch.keyword)}」有新发布的资源：</p>
+      <ul>${shown.map((match) => `<li>${escapeHtml(match.name)}</li>`).join("")}</ul>
+      ${moreText ? `<p>${escapeHtml(moreText)}</p>` : ""}
+      ${
+        searchUrl
+          ? `<p><a href="${escapeHtml(searchUrl)}" style="color:#2563eb;">查看搜索结果</a></p>`
+          : ""
+      }
+      <p style="color:#6b7280;">不想再收到提醒，可以在个人中心的“保存的搜索”里关闭邮件提醒。</p>
+    </div>
+  `;
+
+  return {
+    type: "saved_search",
+    title,
+    content,
+    relatedId: savedSearch.id,
+    emailSubject: title,
+    emailHtml,
+    emailText,
+  };
+}
+
+/**
+ * 记住最近提醒过的文档，新的排在前面，超出上限的旧记录丢弃
+ */
+export function mergeSeenKeys(seenKeys = [], matches = []) {
+  return [...new Set([...matches.map((match) => match.key), ...seenKeys])].slice(
+    0,
+    SAVED_SEARCH_LIMITS.seenKeysMax
+  );
+}
+
+export async function listSavedSearches(userId) {
+  const { default: prisma } = await import("~/lib/prisma");
+  return prisma.savedSearch.findMany({
+    where: { userId },
+    omit: { seenKeys: true },
+    orderBy: [{ createdAt: "desc" }],
+  });
+}
+
+export async function createSavedSearch(userId, input) {
+  const data = normalizeSavedSearchInput(input);
+  const { default: prisma } = await import("~/lib/prisma");
+  const { maxPerUser } = getSavedSearchOptions();
+
+  const count = await prisma.savedSearch.count({ where: { userId } });
+  if (count >= maxPerUser) {
+    throw Object.assign(new Error(`最多只能保存 ${maxPerUser} 个搜索`), { statusCode: 409 });
+  }
+
+  // 从保存时开始计算，只提醒之后发布的资源
+  return prisma.savedSearch.create({
+    data: { ...data, userId, lastCheckedAt: new Date() },
+  });
+}
+
+export async function updateSavedSearch(userId, id, input) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const existing = await prisma.savedSearch.findFirst({ where: { id, userId } });
+  if (!existing) {
+    throw Object.assign(new Error("保存的搜索不存在"), { statusCode: 404 });
+  }
+
+  const data = normalizeSavedSearchInput(input, existing);
+  // 关键词或网盘类型变了，旧的提醒记录不再适用，从现在重新开始
+  const criteriaChanged =
+    data.keyword !== existing.keyword ||
+    data.services.join(",") !== existing.services.join(",");
+
+  return prisma.savedSearch.update({
+    where: { id },
+    data: criteriaChanged ? { ...data, seenKeys: [], lastCheckedAt: new Date() } : data,
+  });
+}
+
+export async function deleteSavedSearch(userId, id) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const result = await prisma.savedSearch.deleteMany({ where: { id, userId } });
+  if (result.count === 0) {
+    throw Object.assign(new Error("保存的搜索不存在"), { statusCode: 404 });
+  }
+}
+
+const searchIndexes = async (keyword) => {
+  // 以检索开始的时间作为本次检查时间，检索过程中才发布的资源留给下一轮
+  const startedAt = new Date();
+  const { getSearchBackend } = await import("./searchBackend.js");
+  const backend = getSearchBackend();
+  const [resources, userResources] = await Promise.all([
+    backend.searchResources(keyword, SAVED_SEARCH_LIMITS.searchSize),
+    backend.searchUserResources(keyword, SAVED_SEARCH_LIMITS.searchSize),
+  ]);
+
+  return { startedAt, documents: collectSavedSearchDocuments({ resources, userResources }) };
+};
+
+const sendSavedSearchEmail = async (user, notification, options, emailService) => {
+  const { releaseEmailThrottleSlot, reserveEmailThrottleSlot } = await import(
+    "../email/emailThrottle.js"
+  );
+  // 按用户限流，同时订阅多个关键词也不会短时间内收到一串邮件
+  const reservation = await reserveEmailThrottleSlot(
+    `${DEFAULT_EMAIL_THROTTLE_PREFIX}:${user.id}`,
+    options.emailThrottleSeconds,
+    { label: EMAIL_THROTTLE_LABEL }
+  );
+  if (!reservation.allowed) {
+    return false;
+  }
+
+  try {
+    await emailService.sendEmailMessage({
+      to: user.email,
+      subject: notification.emailSubject,
+      html: notification.emailHtml,
+      text: notification.emailText,
+    });
+    return true;
+  } catch (error) {
+    await releaseEmailThrottleSlot(reservation, { label: EMAIL_THROTTLE_LABEL });
+    console.error("发送保存搜索提醒邮件失败:", { userId: user.id, error });
+    return false;
+  }
+};
+
+const emitNotification = async (notification) => {
+  try {
+    const { getSocketServer } = await import("~/server/utils/socketServer");
+    getSocketServer()?.to(`user:${notification.userId}`).emit("notification:new", notification);
+  } catch (error) {
+    console.error("推送保存搜索提醒失败:", error);
+  }
+};
+
+/**
+ * 检查一批最久没检查的保存搜索，有新资源时写通知、推送 socket 并按限流发送邮件
+ */
+export async function runSavedSearchAlerts(options = getSavedSearchOptions()) {
+  const [{ default: prisma }, emailService] = await Promise.all([
+    import("~/lib/prisma"),
+    import("~/server/services/email/resend"),
+  ]);
+
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { enabled: true },
+    orderBy: [{ lastCheckedAt: "asc" }, { id: "asc" }],
+    take: options.batchSize,
+    include: { user: { select: { id: true, email: true, status: true } } },
+  });
+
+  const emailConfig = await emailService.getEmailServiceConfig();
+  // 同一批里很多人会订阅相同的关键词，每个关键词只查一次索引
+  const searches = new Map();
+  const summary = { checked: 0, notified: 0, emailed: 0, failed: 0 };
+
+  for (const savedSearch of savedSearches) {
+    try {
+      if (!searches.has(savedSearch.keyword)) {
+        searches.set(savedSearch.keyword, searchIndexes(savedSearch.keyword));
+      }
+
+      const { startedAt: checkedAt, documents } = await searches.get(savedSearch.keyword);
+      const matches =
+        savedSearch.user?.status === "active"
+          ? findNewSavedSearchMatches(savedSearch, documents)
+          : [];
+      summary.checked += 1;
+
+      if (matches.length === 0) {
+        await prisma.savedSearch.update({
+          where: { id: savedSearch.id },
+          data: { lastCheckedAt: checkedAt },
+        });
+        continue;
+      }
+
+      const payload = buildSavedSearchNotification({
+        savedSearch,
+        matches,
+        siteUrl: emailConfig.siteUrl,
+      });
+      const [notification] = await prisma.$transaction([
+        prisma.notification.create({
+          data: {
+            userId: savedSearch.userId,
+            type: payload.type,
+            title: payload.title,
+            content: payload.content,
+            relatedId: payload.relatedId,
+          },
+        }),
+        prisma.savedSearch.update({
+          where: { id: savedSearch.id },
+          data: {
+            lastCheckedAt: checkedAt,
+            lastNotifiedAt: new Date(),
+            seenKeys: mergeSeenKeys(savedSearch.seenKeys, matches),
+          },
+        }),
+      ]);
+      summary.notified += 1;
+      await emitNotification(notification);
+
+      if (savedSearch.emailEnabled && savedSearch.user?.email && emailConfig.enabled) {
+        if (await sendSavedSearchEmail(savedSearch.user, payload, options, emailService)) {
+          summary.emailed += 1;
+        }
+      }
+    } catch (error) {
+      summary.failed += 1;
+      console.error("检查保存的搜索失败:", { savedSearchId: savedSearch.id, error });
+    }
+  }
+
+  return summary;
+}
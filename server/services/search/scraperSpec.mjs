@@ -0,0 +1,583 @@
+import * as cheerio from "cheerio";
+
+import { detectLinkService, extractLinkPassword } from "../../../utils/linkServices.js";
+import { isRelevantTitle } from "./externalPanSources.mjs";
+import { mergeSourceItems } from "./source1Results.js";
+
+/**
+ * 声明式搜索源：用一份配置描述请求模板、取 token、字段选择器、分页和过滤规则，
+ * 由 runScraperSpec 解释执行并输出标准的 { list: [{ name, links }] } 结构。
+ *
+ * 字段选择器：JSON 响应使用 JSONPath 子集（$.a.b[0]、[*]、['key']），
+ * HTML 响应使用 CSS 选择器，可再用 attr 指定属性、regex 截取第一个分组。
+ */
+
+export const SCRAPER_RESPONSE_TYPES = ["json", "html", "text"];
+export const SCRAPER_REQUEST_STRATEGIES = ["all", "priority"];
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_LIMIT = 100;
+const MAX_PAGES = 10;
+
+const URL_PATTERN = /(?:https?:\/\/[^\s<>"']+|magnet:\?[^\s<>"']+|ed2k:\/\/[^\s<>"']+)/gi;
+
+const normalizeWhitespace = (value) => String(value ?? "").replace(/\s+/g, " ").trim();
+
+const normalizeLink = (value) =>
+  String(value || "")
+    .replace(/&amp;/g, "&")
+    .trim()
+    .split(/(?:提取码|访问码|密[码碼])[:：]/i)[0]
+    .replace(/[)\]】。；;,，.#]+$/g, "")
+    .trim();
+
+const toArray = (value) => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const isPlainObject = (value) =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * 替换 {{keyword}}、{{token}}、{{page}} 等变量；{{keyword|url}} 会先做 URL 编码
+ */
+export function renderScraperTemplate(value, variables = {}) {
+  if (typeof value === "string") {
+    return value.replace(/\{\{\s*(\w+)(?:\s*\|\s*(url))?\s*\}\}/g, (_, name, filter) => {
+      const resolved = variables[name] ?? "";
+      return filter === "url" ? encodeURIComponent(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderScraperTemplate(item, variables));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderScraperTemplate(item, variables)]),
+    );
+  }
+
+  return value;
+}
+
+const tokenizeJsonPath = (path) => {
+  const source = String(path || "").trim();
+  if (!source.startsWith("$")) {
+    throw new Error(`JSONPath 需要以 $ 开头: ${source}`);
+  }
+
+  const tokens = [];
+  const pattern = /\.(\*|[\w$-]+)|\[(\*|-?\d+|'[^']*'|"[^"]*")\]/g;
+  let index = 1;
+  let match;
+  while ((match = pattern.exec(source))) {
+    if (match.index !== index) {
+      throw new Error(`无法解析的 JSONPath: ${source}`);
+    }
+
+    const raw = match[1] ?? match[2];
+    tokens.push(/^['"]/.test(raw) ? raw.slice(1, -1) : raw);
+    index = pattern.lastIndex;
+  }
+
+  if (index !== source.length) {
+    throw new Error(`无法解析的 JSONPath: ${source}`);
+  }
+
+  return tokens;
+};
+
+/**
+ * 简化版 JSONPath，返回所有匹配值组成的数组
+ */
+export function selectJsonPath(data, path) {
+  let current = [data];
+
+  for (const token of tokenizeJsonPath(path)) {
+    const next = [];
+    for (const value of current) {
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      if (token === "*") {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (/^-?\d+$/.test(token) && Array.isArray(value)) {
+        const index = Number(token);
+        const item = value[index < 0 ? value.length + index : index];
+        if (item !== undefined) {
+          next.push(item);
+        }
+      } else if (typeof value === "object" && token in value) {
+        next.push(value[token]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+// 字符串简写：以 $ 开头视为 JSONPath，否则视为 CSS 选择器
+const normalizeFieldSpec = (field) => {
+  if (typeof field === "string") {
+    return field.startsWith("$") ? { path: field } : { selector: field };
+  }
+
+  return field || {};
+};
+
+const applyFieldRegex = (values, field) => {
+  if (!field.regex) {
+    return values;
+  }
+
+  const pattern = new RegExp(field.regex, field.flags || "i");
+  return values
+    .map((value) => String(value).match(pattern))
+    .filter(Boolean)
+    .map((match) => match[1] ?? match[0]);
+};
+
+const readJsonField = (item, field) => {
+  const spec = normalizeFieldSpec(field);
+  if (!spec.path) {
+    return [];
+  }
+
+  const values = selectJsonPath(item, spec.path)
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value !== null && value !== undefined && typeof value !== "object")
+    .map(String);
+
+  return applyFieldRegex(values, spec);
+};
+
+const readHtmlField = ($, element, field) => {
+  const spec = normalizeFieldSpec(field);
+  const targets = spec.selector ? $(element).find(spec.selector) : $(element);
+  const attr = spec.attr || "text";
+  const values = targets
+    .toArray()
+    .map((target) => {
+      if (attr === "text") {
+        return $(target).text();
+      }
+      if (attr === "html") {
+        return $(target).html();
+      }
+      return $(target).attr(attr);
+    })
+    .filter(Boolean);
+
+  return applyFieldRegex(values, spec);
+};
+
+export const extractLinksFromText = (text) => {
+  const seen = new Set();
+  const links = [];
+
+  String(text || "")
+    .split("\n")
+    .forEach((line) => {
+      (line.match(URL_PATTERN) || []).forEach((rawUrl) => {
+        const link = normalizeLink(rawUrl);
+        if (!link || seen.has(link)) {
+          return;
+        }
+
+        seen.add(link);
+        links.push({
+          service: detectLinkService(link),
+          link,
+          pwd: extractLinkPassword(link, line) || "",
+        });
+      });
+    });
+
+  return links;
+};
+
+const buildItemLinks = (fields, readField) => {
+  const passwords = fields.password ? readField(fields.password) : [];
+  const directLinks = fields.link
+    ? readField(fields.link)
+        .map(normalizeLink)
+        .filter(Boolean)
+        .map((link, index) => ({
+          service: detectLinkService(link),
+          link,
+          pwd: extractLinkPassword(link) || normalizeWhitespace(passwords[index] ?? passwords[0]) || "",
+        }))
+    : [];
+  const textLinks = fields.linkText
+    ? readField(fields.linkText).flatMap((text) => extractLinksFromText(text))
+    : [];
+
+  return [...directLinks, ...textLinks];
+};
+
+const parseResponseBody = (spec, responseText) => {
+  const type = spec.response?.type || "json";
+  if (type === "json") {
+    return typeof responseText === "string" ? JSON.parse(responseText || "null") : responseText;
+  }
+
+  return String(responseText || "");
+};
+
+const isAcceptedResponse = (spec, parsed) => {
+  const accept = spec.response?.accept;
+  if (!accept || (spec.response?.type || "json") !== "json") {
+    return true;
+  }
+
+  const [value] = selectJsonPath(parsed, accept.path);
+  if (Object.prototype.hasOwnProperty.call(accept, "equals")) {
+    return value === accept.equals;
+  }
+
+  return value !== undefined && value !== null;
+};
+
+/**
+ * 把单个响应解析成条目，不做分组和过滤，录制的样本可以直接喂给这里做单元测试
+ */
+export function extractScraperItems(spec, responseText) {
+  const fields = spec.response?.fields || {};
+  const type = spec.response?.type || "json";
+  const parsed = parseResponseBody(spec, responseText);
+
+  if (!isAcceptedResponse(spec, parsed)) {
+    throw new Error(spec.response?.accept?.message || "上游返回了异常响应");
+  }
+
+  if (type === "json") {
+    // items 可以写多个候选路径，取第一个有结果的
+    const itemPaths = toArray(spec.response?.items || "$[*]");
+    let rawItems = [];
+    for (const itemPath of itemPaths) {
+      rawItems = selectJsonPath(parsed, itemPath).flatMap((value) =>
+        Array.isArray(value) ? value : [value],
+      );
+      if (rawItems.length > 0) {
+        break;
+      }
+    }
+
+    return rawItems.map((item) => {
+      const readField = (field) => readJsonField(item, field);
+      return {
+        name: normalizeWhitespace(readField(fields.title)[0]),
+        links: buildItemLinks(fields, readField),
+      };
+    });
+  }
+
+  if (type === "html") {
+    const $ = cheerio.load(parsed);
+    return $(spec.response?.items || "body")
+      .toArray()
+      .map((element) => {
+        const readField = (field) => readHtmlField($, element, field);
+        return {
+          name: normalizeWhitespace(readField(fields.title)[0]),
+          links: buildItemLinks(fields, readField),
+        };
+      });
+  }
+
+  // text：整段文本按正则逐条匹配，title/link 为分组序号
+  const pattern = new RegExp(spec.response?.items, "gi");
+  return [...parsed.matchAll(pattern)].map((match) => {
+    const link = normalizeLink(match[fields.link ?? 2] || "");
+    return {
+      name: normalizeWhitespace(match[fields.title ?? 1]),
+      links: link
+        ? [
+            {
+              service: detectLinkService(link),
+              link,
+              pwd: extractLinkPassword(link, match[0]) || "",
+            },
+          ]
+        : [],
+    };
+  });
+}
+
+/**
+ * 按 filters 过滤条目：关键词相关性、标题排除规则、网盘类型白名单
+ */
+export function applyScraperFilters(items, filters = {}, searchTerm = "") {
+  const excludePatterns = toArray(filters.excludeTitle).map((pattern) => new RegExp(pattern, "i"));
+  const allowedServices = filters.services ? new Set(toArray(filters.services)) : null;
+
+  return items
+    .map((item) => ({
+      ...item,
+      links: allowedServices
+        ? item.links.filter((link) => allowedServices.has(link.service))
+        : item.links,
+    }))
+    .filter((item) => {
+      if (!item.name || item.links.length === 0) {
+        return false;
+      }
+
+      if (filters.requireKeyword && !isRelevantTitle(item.name, searchTerm)) {
+        return false;
+      }
+
+      return !excludePatterns.some((pattern) => pattern.test(item.name));
+    });
+}
+
+/**
+ * 检查配置是否完整，出错时抛出带说明的 Error
+ */
+export function validateScraperSpec(spec) {
+  if (!isPlainObject(spec) || !/^[a-z0-9][a-z0-9-]*$/.test(String(spec.id || ""))) {
+    throw new Error("搜索源配置缺少合法的 id");
+  }
+
+  const requests = toArray(spec.requests);
+  if (requests.length === 0 || requests.some((request) => !request?.url)) {
+    throw new Error(`${spec.id}: requests 至少需要一个带 url 的请求`);
+  }
+
+  if (spec.strategy && !SCRAPER_REQUEST_STRATEGIES.includes(spec.strategy)) {
+    throw new Error(`${spec.id}: 不支持的 strategy ${spec.strategy}`);
+  }
+
+  const type = spec.response?.type || "json";
+  if (!SCRAPER_RESPONSE_TYPES.includes(type)) {
+    throw new Error(`${spec.id}: 不支持的响应类型 ${type}`);
+  }
+
+  const fields = spec.response?.fields || {};
+  if (fields.title === undefined) {
+    throw new Error(`${spec.id}: response.fields.title 不能为空`);
+  }
+
+  if (type !== "text" && !fields.link && !fields.linkText) {
+    throw new Error(`${spec.id}: response.fields 需要 link 或 linkText`);
+  }
+
+  if (spec.auth && (!spec.auth.request?.url || !spec.auth.extract)) {
+    throw new Error(`${spec.id}: auth 需要 request.url 和 extract`);
+  }
+
+  if (type === "json") {
+    [...toArray(spec.response?.items), ...Object.values(fields).map(normalizeFieldSpec).map((field) => field.path)]
+      .filter(Boolean)
+      .forEach((path) => tokenizeJsonPath(path));
+  }
+
+  return spec;
+}
+
+/**
+ * 基于 fetch 兼容函数构造 fetchText，录制和回放夹具时传入替身即可
+ */
+export function createScraperFetchText(fetchImpl = (...args) => fetch(...args)) {
+  return async (url, options = {}) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs || DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetchImpl(url, {
+        method: options.method || "GET",
+        body: options.body,
+        signal: controller.signal,
+        headers: {
+          "User-Agent": DEFAULT_USER_AGENT,
+          Accept: "application/json,text/html,text/plain,*/*",
+          ...(options.headers || {}),
+        },
+        redirect: "follow",
+      });
+
+      if (!response.ok) {
+        const error = new Error(`${response.status} ${response.statusText}`.trim());
+        error.status = response.status;
+        throw error;
+      }
+
+      return await response.text();
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+}
+
+export const defaultScraperFetchText = createScraperFetchText();
+
+const buildRequestOptions = (spec, request, variables) => {
+  const rendered = renderScraperTemplate(request, variables);
+  const headers = { ...renderScraperTemplate(spec.headers || {}, variables), ...(rendered.headers || {}) };
+  let body;
+
+  if (rendered.body !== undefined) {
+    if (rendered.bodyType === "form") {
+      body = new URLSearchParams(rendered.body).toString();
+      headers["Content-Type"] ||= "application/x-www-form-urlencoded";
+    } else if (typeof rendered.body === "string") {
+      body = rendered.body;
+    } else {
+      body = JSON.stringify(rendered.body);
+      headers["Content-Type"] ||= "application/json";
+    }
+  }
+
+  return {
+    url: rendered.url,
+    options: {
+      method: rendered.method || (body === undefined ? "GET" : "POST"),
+      headers,
+      body,
+      timeoutMs: spec.timeoutMs || DEFAULT_TIMEOUT_MS,
+    },
+  };
+};
+
+const fetchWithRetries = async (fetchText, url, options, retries) => {
+  try {
+    return await fetchText(url, options);
+  } catch (error) {
+    if (retries > 0 && [502, 503, 504].includes(error?.status)) {
+      return fetchWithRetries(fetchText, url, options, retries - 1);
+    }
+    throw error;
+  }
+};
+
+const resolveAuthVariables = async (spec, variables, fetchText) => {
+  if (!spec.auth) {
+    return variables;
+  }
+
+  const { url, options } = buildRequestOptions(spec, spec.auth.request, variables);
+  const responseText = await fetchText(url, options);
+  const extract = normalizeFieldSpec(spec.auth.extract);
+  let value;
+  if (extract.path) {
+    [value] = selectJsonPath(JSON.parse(responseText || "null"), extract.path);
+  } else if (extract.regex) {
+    [value] = applyFieldRegex([responseText], extract);
+  } else if (extract.selector) {
+    const $ = cheerio.load(responseText);
+    [value] = readHtmlField($, $.root(), extract);
+  }
+
+  return value ? { ...variables, [spec.auth.variable || "token"]: String(value) } : null;
+};
+
+const runRequest = async (spec, request, variables, fetchText) => {
+  const pagination = spec.pagination;
+  const pageCount = pagination ? Math.min(pagination.maxPages || 1, MAX_PAGES) : 1;
+  const items = [];
+
+  for (let offset = 0; offset < pageCount; offset += 1) {
+    const pageVariables = pagination
+      ? { ...variables, [pagination.variable || "page"]: (pagination.start ?? 1) + offset }
+      : variables;
+    const { url, options } = buildRequestOptions(spec, request, pageVariables);
+    const responseText = await fetchWithRetries(fetchText, url, options, spec.retries || 0);
+    const pageItems = extractScraperItems(spec, responseText);
+    items.push(...pageItems);
+
+    if (pageItems.length === 0 && pagination?.stopWhenEmpty !== false) {
+      break;
+    }
+  }
+
+  return items;
+};
+
+// priority 策略：按优先级分组依次请求，某一组拿到结果后不再请求后面的组
+const groupRequests = (spec) => {
+  const requests = toArray(spec.requests);
+  if (spec.strategy !== "priority") {
+    return [requests];
+  }
+
+  const groups = new Map();
+  requests.forEach((request) => {
+    const priority = request.priority ?? 99;
+    groups.set(priority, [...(groups.get(priority) || []), request]);
+  });
+
+  return [...groups.entries()].sort(([left], [right]) => left - right).map(([, group]) => group);
+};
+
+/**
+ * 执行一个声明式搜索源，返回 /api/sources/* 统一的响应结构
+ */
+export async function runScraperSpec(spec, searchTerm, options = {}) {
+  validateScraperSpec(spec);
+  const fetchText = options.fetchText || defaultScraperFetchText;
+  const baseVariables = { keyword: searchTerm, ...(spec.variables || {}) };
+
+  const variables = await resolveAuthVariables(spec, baseVariables, fetchText);
+  if (!variables) {
+    return {
+      list: [],
+      code: 502,
+      msg: "Source token unavailable",
+    };
+  }
+
+  const items = [];
+  const errors = [];
+  let requestCount = 0;
+
+  for (const group of groupRequests(spec)) {
+    requestCount += group.length;
+    const settled = await Promise.allSettled(
+      group.map((request) => runRequest(spec, request, variables, fetchText)),
+    );
+
+    settled.forEach((result) => {
+      if (result.status === "fulfilled") {
+        items.push(...result.value);
+      } else {
+        errors.push(result.reason?.message || "unknown error");
+      }
+    });
+
+    if (items.length > 0) {
+      break;
+    }
+  }
+
+  const filtered = applyScraperFilters(items, spec.filters, searchTerm);
+  let list = mergeSourceItems(filtered, [], spec.filters?.limit || DEFAULT_LIMIT);
+  if (spec.sort === "linkCount") {
+    list = [...list].sort(
+      (left, right) => right.links.length - left.links.length || left.name.length - right.name.length,
+    );
+  }
+
+  if (list.length === 0 && errors.length === requestCount) {
+    return {
+      list: [],
+      code: 502,
+      msg: errors[0] || "All upstreams failed to respond",
+    };
+  }
+
+  return {
+    list,
+    code: list.length > 0 ? 200 : 206,
+    msg:
+      list.length === 0
+        ? "未找到相关资源"
+        : errors.length > 0
+          ? `success (${errors.length}/${requestCount} upstreams failed)`
+          : "success",
+  };
+}
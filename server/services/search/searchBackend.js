@@ -0,0 +1,232 @@
+import { buildResourceIndexDocument } from "./resourceSearchIndex.js";
+import { buildUserResourceIndexDocument } from "./userResourceSearchIndex.js";
+import { computeSearchFacets, filterSearchDocuments } from "./searchFilters.js";
+
+// 站内搜索后端：Elasticsearch 或 PostgreSQL（pg_trgm 模糊匹配 + 相似度排序）。
+// 两种实现都返回与 ES 文档相同结构的结果，调用方无需关心具体后端。
+
+export const SEARCH_BACKENDS = {
+  auto: "auto",
+  elasticsearch: "elasticsearch",
+  postgres: "postgres",
+};
+
+const MAX_TERMS = 8;
+// PostgreSQL 后端在这么多条候选结果上计算分面和筛选
+const POSTGRES_FACET_CANDIDATES = 500;
+
+export function getSearchBackendOptions(env = process.env) {
+  const backend = String(env.SEARCH_BACKEND || "").trim().toLowerCase();
+
+  return {
+    backend: Object.values(SEARCH_BACKENDS).includes(backend) ? backend : SEARCH_BACKENDS.auto,
+  };
+}
+
+export function splitSearchTerms(keyword) {
+  return [...new Set(String(keyword || "").trim().split(/\s+/).filter(Boolean))].slice(
+    0,
+    MAX_TERMS
+  );
+}
+
+const escapeLikePattern = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const escapeHtml = (value) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 与 ES 高亮一致，用 <mark> 包裹命中的关键词；名称里没有命中时返回 null
+ */
+export function highlightSearchTerms(name, keyword) {
+  const text = String(name || "");
+  const terms = splitSearchTerms(keyword).sort((left, right) => right.length - left.length);
+  if (!text || terms.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+  let matched = false;
+  let lastIndex = 0;
+  let result = "";
+  for (const match of text.matchAll(pattern)) {
+    matched = true;
+    result += `${escapeHtml(text.slice(lastIndex, match.index))}<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = match.index + match[0].length;
+  }
+
+  return matched ? result + escapeHtml(text.slice(lastIndex)) : null;
+}
+
+const POSTGRES_SEARCH_TABLES = {
+  resources: {
+    table: '"Resource"',
+    fields: ['r."name"', 't."name"'],
+    // 和 ES 一致：排除链接健康检查已下架的资源
+    where: `NOT EXISTS (SELECT 1 FROM "ResourceLinkHealth" h WHERE h."targetType" = 'resource' AND h."targetId" = r."id" AND h."unpublishedAt" IS NOT NULL)`,
+    select: "",
+  },
+  userResources: {
+    table: '"UserResource"',
+    fields: ['r."name"', 'r."description"', 't."name"'],
+    where: `r."status" = 'published'`,
+    select: ', r."description"',
+  },
+};
+
+/**
+ * 生成参数化 SQL：每个词都必须命中名称/描述/类型之一（对应 ES 的 operator: and），
+ * 排序综合整句命中和 trigram 相似度，最后按更新时间。
+ * 中文没有空格分词，simple 配置的 tsvector 会把整句当成一个词，所以不用 ts_rank
+ */
+export function buildPostgresSearchQuery(kind, keyword, size = 100) {
+  const config = POSTGRES_SEARCH_TABLES[kind];
+  const terms = splitSearchTerms(keyword);
+  if (!config || terms.length === 0) {
+    return null;
+  }
+
+  const phrase = terms.join(" ");
+  const params = [phrase, `%${escapeLikePattern(phrase)}%`];
+  const termConditions = terms.map((term) => {
+    params.push(`%${escapeLikePattern(term)}%`);
+    const placeholder = `$${params.length}`;
+    return `(${config.fields.map((field) => `${field} ILIKE ${placeholder}`).join(" OR ")})`;
+  });
+  params.push(Math.min(Math.max(Number.parseInt(String(size), 10) || 100, 1), 500));
+
+  const sql = [
+    `SELECT r."id", r."name", r."links", r."typeId", r."creatorId", r."createdAt", r."updatedAt"${config.select},`,
+    `  t."name" AS "typeName", u."username" AS "creatorUsername",`,
+    `  (CASE WHEN r."name" ILIKE $2 THEN 2 ELSE 0 END)`,
+    `    + similarity(r."name", $1) AS "rank"`,
+    `FROM ${config.table} r`,
+    `LEFT JOIN "ResourceType" t ON t."id" = r."typeId"`,
+    `LEFT JOIN "User" u ON u."id" = r."creatorId"`,
+    `WHERE ${[config.where, ...termConditions].filter(Boolean).join(" AND ")}`,
+    `ORDER BY "rank" DESC, r."updatedAt" DESC`,
+    `LIMIT $${params.length}`,
+  ].join("\n");
+
+  return { sql, params };
+}
+
+const toSearchDocument = (kind, row, keyword) => {
+  const resource = {
+    ...row,
+    type: { name: row.typeName || "" },
+    creator: { username: row.creatorUsername || "" },
+  };
+  const document =
+    kind === "userResources"
+      ? buildUserResourceIndexDocument(resource)
+      : buildResourceIndexDocument(resource);
+  const highlightedName = highlightSearchTerms(document.name, keyword);
+  if (highlightedName) {
+    document.highlightedName = highlightedName;
+  }
+
+  return document;
+};
+
+export function createPostgresSearchBackend({ client = undefined } = {}) {
+  const search = async (kind, keyword, size) => {
+    const query = buildPostgresSearchQuery(kind, keyword, size);
+    if (!query) {
+      return [];
+    }
+
+    const db = client || (await import("~/lib/prisma")).default;
+    const rows = await db.$queryRawUnsafe(query.sql, ...query.params);
+    return rows.map((row) => toSearchDocument(kind, row, keyword));
+  };
+
+  const searchFaceted = async (kind, keyword, { size = 100, filters = {}, now = new Date() } = {}) => {
+    const candidates = await search(kind, keyword, POSTGRES_FACET_CANDIDATES);
+
+    return {
+      documents: filterSearchDocuments(candidates, filters).slice(0, size),
+      facets: computeSearchFacets(candidates, filters, now),
+    };
+  };
+
+  return {
+    name: SEARCH_BACKENDS.postgres,
+    searchResources: (keyword, size = 100) => search("resources", keyword, size),
+    searchUserResources: (keyword, size = 100) => search("userResources", keyword, size),
+    searchResourcesFaceted: (keyword, options) => searchFaceted("resources", keyword, options),
+    searchUserResourcesFaceted: (keyword, options) =>
+      searchFaceted("userResources", keyword, options),
+  };
+}
+
+export function createElasticsearchBackend({ search = undefined } = {}) {
+  const getSearch = async () => search || (await import("./elasticsearchClient.js"));
+
+  return {
+    name: SEARCH_BACKENDS.elasticsearch,
+    isResourcesConfigured: async () => (await getSearch()).isResourceSearchConfigured(),
+    isUserResourcesConfigured: async () => (await getSearch()).isUserResourceSearchConfigured(),
+    searchResources: async (keyword, size = 100) =>
+      (await getSearch()).searchResources(keyword, size),
+    searchUserResources: async (keyword, size = 100) =>
+      (await getSearch()).searchPublishedUserResources(keyword, size),
+    searchResourcesFaceted: async (keyword, options = {}) =>
+      (await getSearch()).searchResourcesFaceted(keyword, options),
+    searchUserResourcesFaceted: async (keyword, options = {}) =>
+      (await getSearch()).searchPublishedUserResourcesFaceted(keyword, options),
+  };
+}
+
+/**
+ * auto：每个索引各自判断，配置了 ES 就用 ES，ES 查询出错时退回 PostgreSQL；未配置直接走 PostgreSQL
+ */
+export function createSearchBackend({
+  options = getSearchBackendOptions(),
+  elasticsearch = createElasticsearchBackend(),
+  postgres = createPostgresSearchBackend(),
+} = {}) {
+  if (options.backend === SEARCH_BACKENDS.elasticsearch) {
+    return elasticsearch;
+  }
+  if (options.backend === SEARCH_BACKENDS.postgres) {
+    return postgres;
+  }
+
+  const withFallback = (method, isConfigured, label) => async (keyword, options) => {
+    if (!(await elasticsearch[isConfigured]())) {
+      return postgres[method](keyword, options);
+    }
+
+    try {
+      return await elasticsearch[method](keyword, options);
+    } catch (error) {
+      console.error(`搜索${label} ES 索引失败，回退到 PostgreSQL:`, error);
+      return postgres[method](keyword, options);
+    }
+  };
+
+  return {
+    name: SEARCH_BACKENDS.auto,
+    searchResources: withFallback("searchResources", "isResourcesConfigured", "资源"),
+    searchUserResources: withFallback("searchUserResources", "isUserResourcesConfigured", "用户投稿"),
+    searchResourcesFaceted: withFallback("searchResourcesFaceted", "isResourcesConfigured", "资源"),
+    searchUserResourcesFaceted: withFallback(
+      "searchUserResourcesFaceted",
+      "isUserResourcesConfigured",
+      "用户投稿"
+    ),
+  };
+}
+
+let cachedBackend = null;
+
+export function getSearchBackend() {
+  if (!cachedBackend) {
+    cachedBackend = createSearchBackend();
+  }
+
+  return cachedBackend;
+}
@@ -0,0 +1,282 @@
+import { LINK_SERVICE_KEYS, getLinkServiceName } from "../../../utils/linkServices.js";
+
+// 站内搜索的筛选条件与分面统计：ES 用 post_filter + 聚合，PostgreSQL 后端在候选结果上用同样的规则计算。
+// 每个分面的计数都排除它自己的筛选条件，这样选中一个网盘后其他网盘的数量仍然可见。
+
+export const SEARCH_DATE_RANGES = [
+  { value: "1d", label: "24小时内", days: 1 },
+  { value: "7d", label: "一周内", days: 7 },
+  { value: "30d", label: "一个月内", days: 30 },
+  { value: "365d", label: "一年内", days: 365 },
+];
+
+export const SEARCH_FACET_LIMITS = {
+  values: 20,
+  maxFilterValues: 20,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toArray = (value) => {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null || value === "") return [];
+  return String(value).split(",");
+};
+
+const uniqueValues = (values) => [...new Set(values)].slice(0, SEARCH_FACET_LIMITS.maxFilterValues);
+
+/**
+ * 规范化前端传入的筛选条件；publishedAfter 既可以是分面里的区间（如 7d），也可以是日期
+ */
+export function normalizeSearchFilters(input = {}, now = new Date()) {
+  const services = uniqueValues(
+    toArray(input?.services)
+      .map((service) => String(service).trim().toUpperCase())
+      .filter((service) => LINK_SERVICE_KEYS.includes(service))
+  );
+  const typeIds = uniqueValues(
+    toArray(input?.typeIds)
+      .map((typeId) => Number(typeId))
+      .filter((typeId) => Number.isInteger(typeId) && typeId > 0)
+  );
+  const creators = uniqueValues(
+    toArray(input?.creators)
+      .map((creator) => String(creator).trim())
+      .filter(Boolean)
+  );
+
+  let dateRange = "";
+  let publishedAfter = null;
+  const rawDate = String(input?.publishedAfter || "").trim();
+  const range = SEARCH_DATE_RANGES.find((item) => item.value === rawDate);
+  if (range) {
+    dateRange = range.value;
+    publishedAfter = new Date(now.getTime() - range.days * DAY_MS);
+  } else if (rawDate) {
+    const parsed = new Date(rawDate);
+    publishedAfter = Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  return { services, typeIds, creators, dateRange, publishedAfter };
+}
+
+export function hasSearchFilters(filters) {
+  return Boolean(
+    filters &&
+      (filters.services?.length ||
+        filters.typeIds?.length ||
+        filters.creators?.length ||
+        filters.publishedAfter)
+  );
+}
+
+const FACET_FILTER_KEYS = ["services", "types", "creators", "dates"];
+
+export function buildElasticsearchFilterClauses(filters = {}) {
+  const clauses = {};
+  if (filters.services?.length) clauses.services = { terms: { services: filters.services } };
+  if (filters.typeIds?.length) clauses.types = { terms: { typeId: filters.typeIds } };
+  if (filters.creators?.length) clauses.creators = { terms: { creatorUsername: filters.creators } };
+  if (filters.publishedAfter) {
+    clauses.dates = { range: { updatedAt: { gte: filters.publishedAfter.toISOString() } } };
+  }
+
+  return clauses;
+}
+
+const combineClauses = (clauses, except) => {
+  const filter = Object.entries(clauses)
+    .filter(([key]) => key !== except)
+    .map(([, clause]) => clause);
+
+  return filter.length > 0 ? { bool: { filter } } : { match_all: {} };
+};
+
+/**
+ * 生成 post_filter 和各分面的聚合；筛选放在 post_filter 里，聚合才能看到未筛选的命中
+ */
+export function buildElasticsearchFacetRequest(filters = {}, now = new Date()) {
+  const clauses = buildElasticsearchFilterClauses(filters);
+  const facetAggs = {
+    services: { terms: { field: "services", size: SEARCH_FACET_LIMITS.values } },
+    types: {
+      terms: { field: "typeId", size: SEARCH_FACET_LIMITS.values },
+      aggs: { label: { top_hits: { size: 1, _source: ["typeName"] } } },
+    },
+    creators: { terms: { field: "creatorUsername", size: SEARCH_FACET_LIMITS.values } },
+    dates: {
+      date_range: {
+        field: "updatedAt",
+        ranges: SEARCH_DATE_RANGES.map((range) => ({
+          key: range.value,
+          from: new Date(now.getTime() - range.days * DAY_MS).toISOString(),
+        })),
+      },
+    },
+  };
+
+  return {
+    ...(Object.keys(clauses).length > 0 ? { post_filter: combineClauses(clauses) } : {}),
+    aggs: Object.fromEntries(
+      FACET_FILTER_KEYS.map((key) => [
+        key,
+        { filter: combineClauses(clauses, key), aggs: { values: facetAggs[key] } },
+      ])
+    ),
+  };
+}
+
+export function createEmptySearchFacets() {
+  return { services: [], types: [], creators: [], dates: [] };
+}
+
+const sortFacetValues = (values) =>
+  values
+    .filter((item) => item.count > 0)
+    .sort((left, right) => right.count - left.count || String(left.value).localeCompare(String(right.value)))
+    .slice(0, SEARCH_FACET_LIMITS.values);
+
+const orderDateFacets = (values) =>
+  SEARCH_DATE_RANGES.map((range) => ({
+    value: range.value,
+    label: range.label,
+    count: values.find((item) => item.value === range.value)?.count || 0,
+  })).filter((item) => item.count > 0);
+
+export function parseElasticsearchFacets(aggregations) {
+  if (!aggregations) {
+    return createEmptySearchFacets();
+  }
+
+  const buckets = (key) => aggregations[key]?.values?.buckets || [];
+
+  return {
+    services: sortFacetValues(
+      buckets("services").map((bucket) => ({
+        value: bucket.key,
+        label: getLinkServiceName(bucket.key),
+        count: bucket.doc_count,
+      }))
+    ),
+    types: sortFacetValues(
+      buckets("types").map((bucket) => ({
+        value: Number(bucket.key),
+        label: bucket.label?.hits?.hits?.[0]?._source?.typeName || String(bucket.key),
+        count: bucket.doc_count,
+      }))
+    ),
+    creators: sortFacetValues(
+      buckets("creators").map((bucket) => ({ value: bucket.key, label: bucket.key, count: bucket.doc_count }))
+    ),
+    dates: orderDateFacets(
+      buckets("dates").map((bucket) => ({ value: bucket.key, count: bucket.doc_count }))
+    ),
+  };
+}
+
+const documentMatches = (document, filters, except) => {
+  if (except !== "services" && filters.services?.length) {
+    const services = document.services || [];
+    if (!filters.services.some((service) => services.includes(service))) return false;
+  }
+  if (except !== "types" && filters.typeIds?.length && !filters.typeIds.includes(document.typeId)) {
+    return false;
+  }
+  if (
+    except !== "creators" &&
+    filters.creators?.length &&
+    !filters.creators.includes(document.creatorUsername)
+  ) {
+    return false;
+  }
+  if (except !== "dates" && filters.publishedAfter) {
+    if (new Date(document.updatedAt).getTime() < filters.publishedAfter.getTime()) return false;
+  }
+
+  return true;
+};
+
+export function filterSearchDocuments(documents = [], filters = {}) {
+  return documents.filter((document) => documentMatches(document, filters));
+}
+
+/**
+ * 在内存里的候选文档上计算分面（非 ES 后端使用），规则与 ES 聚合一致
+ */
+export function computeSearchFacets(documents = [], filters = {}, now = new Date()) {
+  const countBy = (key, pick) => {
+    const counts = new Map();
+    for (const document of documents.filter((item) => documentMatches(item, filters, key))) {
+      for (const entry of pick(document)) {
+        const current = counts.get(entry.value) || { ...entry, count: 0 };
+        current.count += 1;
+        counts.set(entry.value, current);
+      }
+    }
+    return [...counts.values()];
+  };
+
+  return {
+    services: sortFacetValues(
+      countBy("services", (document) =>
+        (document.services || []).map((service) => ({ value: service, label: getLinkServiceName(service) }))
+      )
+    ),
+    types: sortFacetValues(
+      countBy("types", (document) =>
+        document.typeId ? [{ value: document.typeId, label: document.typeName || String(document.typeId) }] : []
+      )
+    ),
+    creators: sortFacetValues(
+      countBy("creators", (document) =>
+        document.creatorUsername ? [{ value: document.creatorUsername, label: document.creatorUsername }] : []
+      )
+    ),
+    dates: orderDateFacets(
+      countBy("dates", (document) => {
+        const age = now.getTime() - new Date(document.updatedAt).getTime();
+        return SEARCH_DATE_RANGES.filter((range) => age <= range.days * DAY_MS).map((range) => ({
+          value: range.value,
+        }));
+      })
+    ),
+  };
+}
+
+/**
+ * 合并网盘资源与用户投稿两个索引的分面计数
+ */
+export function mergeSearchFacets(...facetsList) {
+  const merged = createEmptySearchFacets();
+  for (const key of FACET_FILTER_KEYS) {
+    const counts = new Map();
+    for (const facets of facetsList) {
+      for (const item of facets?.[key] || []) {
+        const current = counts.get(item.value) || { ...item, count: 0 };
+        current.count += item.count;
+        counts.set(item.value, current);
+      }
+    }
+    merged[key] = key === "dates" ? orderDateFacets([...counts.values()]) : sortFacetValues([...counts.values()]);
+  }
+
+  return merged;
+}
+
+/**
+ * 按网盘筛选时，结果里只保留对应网盘的链接
+ */
+export function restrictDocumentLinks(documents = [], filters = {}) {
+  if (!filters.services?.length) {
+    return documents;
+  }
+
+  return documents.map((document) => ({
+    ...document,
+    links: (document.links || []).filter((link) => filters.services.includes(link.service)),
+  }));
+}
+
+export function collectLinkServices(links = []) {
+  return [...new Set(links.map((link) => link.service).filter(Boolean))];
+}
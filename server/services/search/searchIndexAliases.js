@@ -0,0 +1,218 @@
+// 搜索索引通过别名对外提供服务：真实索引名为 `${alias}_v<时间戳>`，
+// 重建时写入新版本索引，完成后原子切换别名，旧版本保留用于回滚。
+
+// 正在重建的别名 -> { index, deletedDocumentIds }，实时写入会同步到新索引
+const activeBuilds = new Map();
+
+const getBody = (response) => response?.body ?? response;
+
+const isNotFound = (error) => error?.meta?.statusCode === 404;
+
+const padNumber = (value, length = 2) => String(value).padStart(length, "0");
+
+export function buildVersionedIndexName(alias, date = new Date()) {
+  const stamp = [
+    date.getUTCFullYear(),
+    padNumber(date.getUTCMonth() + 1),
+    padNumber(date.getUTCDate()),
+    padNumber(date.getUTCHours()),
+    padNumber(date.getUTCMinutes()),
+    padNumber(date.getUTCSeconds()),
+    padNumber(date.getUTCMilliseconds(), 3),
+  ].join("");
+
+  return `${alias}_v${stamp}`;
+}
+
+export function isVersionedIndexOf(alias, indexName) {
+  return new RegExp(`^${alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}_v\\d{17}$`).test(
+    indexName
+  );
+}
+
+/**
+ * 查询别名当前指向的索引；旧部署里别名位置可能还是一个真实索引，用 legacyIndex 标出
+ */
+export async function getAliasState(client, alias) {
+  try {
+    const response = getBody(await client.indices.getAlias({ name: alias }));
+    return { indexes: Object.keys(response || {}).sort(), legacyIndex: false };
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+  }
+
+  const exists = getBody(await client.indices.exists({ index: alias }));
+  return { indexes: exists ? [alias] : [], legacyIndex: Boolean(exists) };
+}
+
+export async function createVersionedIndex(client, alias, mappings, options = {}) {
+  const index = buildVersionedIndexName(alias, options.now);
+
+  await client.indices.create({
+    index,
+    mappings,
+    ...(options.settings ? { settings: options.settings } : {}),
+    ...(options.attachAlias ? { aliases: { [alias]: {} } } : {}),
+  });
+
+  return index;
+}
+
+// 本进程内已补齐过新增字段映射的别名
+const mappedAliases = new Set();
+
+/**
+ * 已有索引缺少的字段：新字段引用的自定义分析器只在新版本索引里存在，补映射时去掉，重建后才生效
+ */
+export function getMissingMappingProperties(existingProperties = {}, mappings, settings = undefined) {
+  const customAnalyzers = new Set(Object.keys(settings?.analysis?.analyzer || {}));
+
+  return Object.fromEntries(
+    Object.entries(mappings.properties || {})
+      .filter(([field]) => !(field in existingProperties))
+      .map(([field, property]) => {
+        const patched = { ...property };
+        if (customAnalyzers.has(patched.analyzer)) delete patched.analyzer;
+        if (customAnalyzers.has(patched.search_analyzer)) delete patched.search_analyzer;
+        return [field, patched];
+      })
+  );
+}
+
+const patchExistingMapping = async (client, alias, mappings, settings) => {
+  const response = getBody(await client.indices.getMapping({ index: alias }));
+  const existingProperties = Object.values(response || {}).reduce(
+    (properties, item) => ({ ...properties, ...(item?.mappings?.properties || {}) }),
+    {}
+  );
+  const missing = getMissingMappingProperties(existingProperties, mappings, settings);
+  if (Object.keys(missing).length > 0) {
+    await client.indices.putMapping({ index: alias, properties: missing });
+  }
+};
+
+/**
+ * 别名或旧的同名索引都不存在时，直接创建第一个版本并挂上别名；
+ * 已存在时每个进程补一次缺失字段的映射，新增字段（如 services）在 strict 映射下才能写入，旧文档仍需重建索引
+ */
+export async function ensureAliasedIndex(client, alias, mappings, settings = undefined) {
+  const state = await getAliasState(client, alias);
+  if (state.indexes.length > 0) {
+    if (!mappedAliases.has(alias)) {
+      await patchExistingMapping(client, alias, mappings, settings);
+      mappedAliases.add(alias);
+    }
+    return false;
+  }
+
+  await createVersionedIndex(client, alias, mappings, { attachAlias: true, settings });
+  return true;
+}
+
+/**
+ * 一次 updateAliases 请求内把别名切到目标索引；旧的同名真实索引只能在同一请求里删除
+ */
+export async function swapAlias(client, alias, targetIndex) {
+  const state = await getAliasState(client, alias);
+  const actions = state.legacyIndex
+    ? [{ remove_index: { index: alias } }]
+    : state.indexes
+        .filter((index) => index !== targetIndex)
+        .map((index) => ({ remove: { index, alias } }));
+
+  await client.indices.updateAliases({
+    actions: [...actions, { add: { index: targetIndex, alias } }],
+  });
+
+  return { previousIndexes: state.legacyIndex ? [] : actions.map((action) => action.remove.index) };
+}
+
+export async function listIndexVersions(client, alias) {
+  const response = getBody(
+    await client.cat.indices({
+      index: `${alias}_v*`,
+      format: "json",
+      h: "index,docs.count,store.size,creation.date",
+    })
+  );
+  const { indexes: aliasIndexes } = await getAliasState(client, alias);
+
+  return (Array.isArray(response) ? response : [])
+    .filter((item) => isVersionedIndexOf(alias, item.index))
+    .map((item) => ({
+      index: item.index,
+      docsCount: Number(item["docs.count"] || 0),
+      storeSize: item["store.size"] || "",
+      createdAt: item["creation.date"]
+        ? new Date(Number(item["creation.date"])).toISOString()
+        : null,
+      active: aliasIndexes.includes(item.index),
+    }))
+    .sort((left, right) => right.index.localeCompare(left.index));
+}
+
+/**
+ * 只保留最新的若干个版本，别名指向的索引和正在重建的索引永远不删
+ */
+export async function pruneIndexVersions(client, alias, keep, protectedIndexes = []) {
+  const versions = await listIndexVersions(client, alias);
+  const protectedSet = new Set(protectedIndexes);
+  const build = activeBuilds.get(alias);
+  if (build) {
+    protectedSet.add(build.index);
+  }
+
+  const removable = versions
+    .slice(Math.max(keep, 1))
+    .filter((version) => !version.active && !protectedSet.has(version.index));
+
+  for (const version of removable) {
+    await client.indices.delete({ index: version.index });
+  }
+
+  return removable.map((version) => version.index);
+}
+
+export function registerBuildIndex(alias, index) {
+  const build = { index, deletedDocumentIds: new Set() };
+  activeBuilds.set(alias, build);
+  return build;
+}
+
+export function getBuildIndex(alias) {
+  return activeBuilds.get(alias) || null;
+}
+
+export function unregisterBuildIndex(alias, index) {
+  if (activeBuilds.get(alias)?.index === index) {
+    activeBuilds.delete(alias);
+  }
+}
+
+/**
+ * 把实时的写入/删除同步到正在重建的索引，避免切换别名后丢失重建期间的变更
+ */
+export async function mirrorToBuildIndex(alias, documentId, write) {
+  const build = activeBuilds.get(alias);
+  if (!build) {
+    return false;
+  }
+
+  if (write.deleted) {
+    build.deletedDocumentIds.add(documentId);
+  } else {
+    build.deletedDocumentIds.delete(documentId);
+  }
+
+  try {
+    await write.apply(build.index);
+  } catch (error) {
+    if (!isNotFound(error)) {
+      console.error("同步写入重建中的搜索索引失败:", { alias, index: build.index, error });
+    }
+  }
+
+  return true;
+}
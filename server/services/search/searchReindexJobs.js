@@ -0,0 +1,373 @@
+import {
+  RESOURCE_INDEX_MAPPINGS,
+  RESOURCE_INDEX_SETTINGS,
+  buildResourceDocumentId,
+  buildResourceIndexDocument,
+} from "./resourceSearchIndex.js";
+import {
+  USER_RESOURCE_INDEX_MAPPINGS,
+  USER_RESOURCE_INDEX_SETTINGS,
+  buildUserResourceDocumentId,
+  buildUserResourceIndexDocument,
+} from "./userResourceSearchIndex.js";
+import {
+  createVersionedIndex,
+  getAliasState,
+  isVersionedIndexOf,
+  listIndexVersions,
+  pruneIndexVersions,
+  registerBuildIndex,
+  swapAlias,
+  unregisterBuildIndex,
+} from "./searchIndexAliases.js";
+import { ensureSearchSynonymSet } from "./searchSynonyms.js";
+
+export const REINDEX_PHASES = {
+  creating: "creating",
+  copying: "copying",
+  catchingUp: "catching_up",
+  swapping: "swapping",
+  done: "done",
+};
+
+// 追平阶段往前多取一段时间，覆盖数据库时间与进程时间的偏差
+const CATCH_UP_SKEW_MS = 60 * 1000;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getSearchReindexOptions(env = process.env) {
+  return {
+    batchSize: parseIntOption(env.SEARCH_REINDEX_BATCH_SIZE, 500, 50, 5000),
+    keepVersions: parseIntOption(env.SEARCH_REINDEX_KEEP_VERSIONS, 2, 1, 10),
+  };
+}
+
+const serviceError = (message, statusCode) =>
+  Object.assign(new Error(message), { statusCode });
+
+const createPrismaSource = ({ delegate, where = {}, include, shouldIndex = () => true }) => ({
+  shouldIndex,
+  async count() {
+    const { default: prisma } = await import("~/lib/prisma");
+    return prisma[delegate].count({ where });
+  },
+  async loadBatch({ afterId, take }) {
+    const { default: prisma } = await import("~/lib/prisma");
+    return prisma[delegate].findMany({
+      where: { ...where, id: { gt: afterId } },
+      include,
+      orderBy: { id: "asc" },
+      take,
+    });
+  },
+  async loadChangedSince({ since, afterId, take }) {
+    const { default: prisma } = await import("~/lib/prisma");
+    return prisma[delegate].findMany({
+      where: { updatedAt: { gte: since }, id: { gt: afterId } },
+      include,
+      orderBy: { id: "asc" },
+      take,
+    });
+  },
+});
+
+export const SEARCH_REINDEX_TARGETS = {
+  resources: {
+    label: "网盘资源",
+    mappings: RESOURCE_INDEX_MAPPINGS,
+    settings: RESOURCE_INDEX_SETTINGS,
+    prepareIndex: ensureSearchSynonymSet,
+    buildDocumentId: buildResourceDocumentId,
+    buildDocument: buildResourceIndexDocument,
+    async getSearch() {
+      const search = await import("./elasticsearchClient.js");
+      return {
+        client: search.getRequiredResourceSearchClient(),
+        alias: search.getResourceSearchIndexName(),
+      };
+    },
+    async createSource() {
+      const { listUnpublishedResourceIds } = await import(
+        "../userResources/linkHealthRunner.js"
+      );
+      // 链接已失效被健康检查移出索引的资源不再重新写入
+      const unpublishedIds = await listUnpublishedResourceIds();
+      return createPrismaSource({
+        delegate: "resource",
+        include: { creator: { select: { id: true, username: true } }, type: true },
+        shouldIndex: (resource) => !unpublishedIds.has(resource.id),
+      });
+    },
+  },
+  "user-resources": {
+    label: "用户投稿",
+    mappings: USER_RESOURCE_INDEX_MAPPINGS,
+    settings: USER_RESOURCE_INDEX_SETTINGS,
+    prepareIndex: ensureSearchSynonymSet,
+    buildDocumentId: buildUserResourceDocumentId,
+    buildDocument: buildUserResourceIndexDocument,
+    async getSearch() {
+      const search = await import("./elasticsearchClient.js");
+      return {
+        client: search.getRequiredUserResourceSearchClient(),
+        alias: search.getUserResourceSearchIndexName(),
+      };
+    },
+    async createSource() {
+      return createPrismaSource({
+        delegate: "userResource",
+        where: { status: "published" },
+        include: { creator: { select: { id: true, username: true } }, type: true },
+        shouldIndex: (resource) => resource.status === "published",
+      });
+    },
+  },
+};
+
+export function createReindexJob(target, alias, now = new Date()) {
+  return {
+    target,
+    alias,
+    status: "running",
+    phase: REINDEX_PHASES.creating,
+    index: null,
+    previousIndexes: [],
+    prunedIndexes: [],
+    total: 0,
+    processed: 0,
+    indexed: 0,
+    deleted: 0,
+    failed: 0,
+    caughtUp: 0,
+    cancelRequested: false,
+    error: null,
+    startedAt: now.toISOString(),
+    finishedAt: null,
+  };
+}
+
+const getBulkItems = (response) => response?.items ?? response?.body?.items ?? [];
+
+const writeBatch = async (client, index, operations) => {
+  if (operations.length === 0) {
+    return { succeeded: 0, failed: 0 };
+  }
+
+  const items = getBulkItems(
+    await client.bulk({
+      operations: operations.flatMap((operation) =>
+        operation.document
+          ? [{ index: { _index: index, _id: operation.id } }, operation.document]
+          : [{ delete: { _index: index, _id: operation.id } }]
+      ),
+    })
+  );
+  // 删除一个本来就不存在的文档不算失败
+  const failed = items.filter(
+    (item) => item.index?.error || (item.delete?.error && item.delete.status !== 404)
+  ).length;
+
+  return { succeeded: operations.length - failed, failed };
+};
+
+const throwIfCancelled = (job) => {
+  if (job.cancelRequested) {
+    throw Object.assign(new Error("重建已取消"), { cancelled: true });
+  }
+};
+
+/**
+ * 蓝绿重建：新建版本索引 → 分批从数据库写入 → 追平重建期间的变更 → 原子切换别名 → 清理多余旧版本
+ */
+export async function runSearchReindex(job, target, { client, alias, source, options }) {
+  const startedAt = new Date(job.startedAt);
+  let build = null;
+
+  try {
+    await target.prepareIndex?.(client);
+    job.index = await createVersionedIndex(client, alias, target.mappings, {
+      now: startedAt,
+      settings: target.settings,
+    });
+    build = registerBuildIndex(alias, job.index);
+
+    job.phase = REINDEX_PHASES.copying;
+    job.total = await source.count();
+    for (let afterId = 0; ; ) {
+      throwIfCancelled(job);
+      const rows = await source.loadBatch({ afterId, take: options.batchSize });
+      if (rows.length === 0) break;
+
+      const result = await writeBatch(
+        client,
+        job.index,
+        rows
+          .filter((row) => source.shouldIndex(row))
+          .map((row) => ({ id: target.buildDocumentId(row.id), document: target.buildDocument(row) }))
+      );
+      job.processed += rows.length;
+      job.indexed += result.succeeded;
+      job.failed += result.failed;
+      afterId = rows[rows.length - 1].id;
+    }
+
+    // 批量写入期间的实时更新可能被较早读出的旧数据覆盖，按 updatedAt 重新写一遍
+    job.phase = REINDEX_PHASES.catchingUp;
+    const since = new Date(startedAt.getTime() - CATCH_UP_SKEW_MS);
+    for (let afterId = 0; ; ) {
+      throwIfCancelled(job);
+      const rows = await source.loadChangedSince({ since, afterId, take: options.batchSize });
+      if (rows.length === 0) break;
+
+      const result = await writeBatch(
+        client,
+        job.index,
+        rows.map((row) =>
+          source.shouldIndex(row)
+            ? { id: target.buildDocumentId(row.id), document: target.buildDocument(row) }
+            : { id: target.buildDocumentId(row.id) }
+        )
+      );
+      job.caughtUp += rows.length;
+      job.failed += result.failed;
+      afterId = rows[rows.length - 1].id;
+    }
+
+    // 重建期间被删除的文档可能又被批量写入带回来，最后统一删掉
+    const deletedIds = [...build.deletedDocumentIds];
+    const deleteResult = await writeBatch(client, job.index, deletedIds.map((id) => ({ id })));
+    job.deleted += deleteResult.succeeded;
+    job.failed += deleteResult.failed;
+
+    throwIfCancelled(job);
+    await client.indices.refresh({ index: job.index });
+
+    job.phase = REINDEX_PHASES.swapping;
+    const { previousIndexes } = await swapAlias(client, alias, job.index);
+    job.previousIndexes = previousIndexes;
+    job.phase = REINDEX_PHASES.done;
+    job.status = "completed";
+
+    try {
+      job.prunedIndexes = await pruneIndexVersions(client, alias, options.keepVersions, [
+        job.index,
+      ]);
+    } catch (error) {
+      console.error("清理旧版本搜索索引失败:", { alias, error });
+    }
+  } catch (error) {
+    job.status = error?.cancelled ? "cancelled" : "failed";
+    job.error = error?.cancelled ? null : error?.message || String(error);
+    if (!error?.cancelled) {
+      console.error("重建搜索索引失败:", { alias, index: job.index, error });
+    }
+
+    // 别名还没切过去，新索引没有任何读者，直接删除
+    if (job.index) {
+      const state = await getAliasState(client, alias).catch(() => ({ indexes: [] }));
+      if (!state.indexes.includes(job.index)) {
+        await client.indices.delete({ index: job.index }).catch(() => {});
+      }
+    }
+  } finally {
+    if (job.index) {
+      unregisterBuildIndex(alias, job.index);
+    }
+    job.cancelRequested = false;
+    job.finishedAt = new Date().toISOString();
+  }
+
+  return job;
+}
+
+// 每个索引只记录最近一次重建任务，进程重启后丢失即可，别名状态以 ES 为准
+const jobs = new Map();
+
+const getTarget = (targetKey) => {
+  const target = SEARCH_REINDEX_TARGETS[targetKey];
+  if (!target) {
+    throw serviceError("未知的搜索索引", 404);
+  }
+
+  return target;
+};
+
+const toJobPayload = (job) => (job ? { ...job } : null);
+
+export async function startSearchReindex(targetKey, options = getSearchReindexOptions()) {
+  const target = getTarget(targetKey);
+  if (jobs.get(targetKey)?.status === "running") {
+    throw serviceError("该索引正在重建", 409);
+  }
+
+  const { client, alias } = await target.getSearch();
+  const source = await target.createSource();
+  const job = createReindexJob(targetKey, alias);
+  jobs.set(targetKey, job);
+
+  // 重建可能持续数分钟，在后台执行，前端轮询进度
+  runSearchReindex(job, target, { client, alias, source, options }).catch((error) => {
+    console.error("重建搜索索引任务异常退出:", error);
+  });
+
+  return toJobPayload(job);
+}
+
+export function cancelSearchReindex(targetKey) {
+  getTarget(targetKey);
+  const job = jobs.get(targetKey);
+  if (job?.status !== "running") {
+    throw serviceError("当前没有进行中的重建", 409);
+  }
+
+  job.cancelRequested = true;
+  return toJobPayload(job);
+}
+
+export async function getSearchIndexStatus(targetKey) {
+  const target = getTarget(targetKey);
+  const { client, alias } = await target.getSearch();
+  const [aliasState, versions] = await Promise.all([
+    getAliasState(client, alias),
+    listIndexVersions(client, alias),
+  ]);
+
+  return {
+    target: targetKey,
+    label: target.label,
+    alias,
+    indexes: aliasState.indexes,
+    legacyIndex: aliasState.legacyIndex,
+    versions,
+    job: toJobPayload(jobs.get(targetKey)),
+  };
+}
+
+/**
+ * 把别名切回保留的旧版本索引
+ */
+export async function rollbackSearchIndex(targetKey, indexName) {
+  const target = getTarget(targetKey);
+  if (jobs.get(targetKey)?.status === "running") {
+    throw serviceError("重建进行中，不能回滚", 409);
+  }
+
+  const { client, alias } = await target.getSearch();
+  const versions = await listIndexVersions(client, alias);
+  const version = versions.find((item) => item.index === indexName);
+  if (!isVersionedIndexOf(alias, String(indexName || "")) || !version) {
+    throw serviceError("索引版本不存在", 404);
+  }
+  if (version.active) {
+    throw serviceError("该版本已在使用中", 409);
+  }
+
+  return swapAlias(client, alias, indexName);
+}
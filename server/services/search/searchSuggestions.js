@@ -0,0 +1,329 @@
+// 搜索联想：从 SearchRecord 的历史关键词构建内存前缀树，定时刷新。
+// 中文关键词额外按拼音首字母建索引，输入 "st" 或 "santi" 都能联想到「三体」。
+
+const DEFAULT_SUGGEST_LIMIT = 8;
+// 每个前缀节点只保留搜索次数最高的若干条
+const NODE_TOP_K = 10;
+const MAX_QUERY_LENGTH = 50;
+
+// 按拼音排序时每个首字母的第一个汉字，借助 ICU 的拼音排序规则推出汉字的首字母
+const PINYIN_INITIAL_BOUNDARIES = "阿八嚓哒妸发旮哈讥咔垃妈拏噢妑七呥仨他穵夕丫帀";
+const PINYIN_INITIALS = "abcdefghjklmnopqrstwxyz";
+
+const PINYIN_SYLLABLES = new Set(
+  (
+    "a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu " +
+    "ca cai can cang cao ce cen ceng cha chai chan chang chao che chen cheng chi chong chou chu " +
+    "chua chuai chuan chuang chui chun chuo ci cong cou cu cuan cui cun cuo da dai dan dang dao " +
+    "de dei den deng di dia dian diao die ding diu dong dou du duan dui dun duo e ei en eng er " +
+    "fa fan fang fei fen feng fo fou fu ga gai gan gang gao ge gei gen geng gong gou gu gua guai " +
+    "guan guang gui gun guo ha hai han hang hao he hei hen heng hong hou hu hua huai huan huang " +
+    "hui hun huo ji jia jian jiang jiao jie jin jing jiong jiu ju juan jue jun ka kai kan kang " +
+    "kao ke kei ken keng kong kou ku kua kuai kuan kuang kui kun kuo la lai lan lang lao le lei " +
+    "leng li lia lian liang liao lie lin ling liu long lou lu lv luan lve lun luo ma mai man mang " +
+    "mao me mei men meng mi mian miao mie min ming miu mo mou mu na nai nan nang nao ne nei nen " +
+    "neng ni nian niang niao nie nin ning niu nong nou nu nv nuan nve nuo o ou pa pai pan pang " +
+    "pao pei pen peng pi pian piao pie pin ping po pou pu qi qia qian qiang qiao qie qin qing " +
+    "qiong qiu qu quan que qun ran rang rao re ren reng ri rong rou ru rua ruan rui run ruo sa " +
+    "sai san sang sao se sen seng sha shai shan shang shao she shei shen sheng shi shou shu shua " +
+    "shuai shuan shuang shui shun shuo si song sou su suan sui sun suo ta tai tan tang tao te " +
+    "teng ti tian tiao tie ting tong tou tu tuan tui tun tuo wa wai wan wang wei wen weng wo wu " +
+    "xi xia xian xiang xiao xie xin xing xiong xiu xu xuan xue xun ya yan yang yao ye yi yin ying " +
+    "yo yong you yu yuan yue yun za zai zan zang zao ze zei zen zeng zha zhai zhan zhang zhao zhe " +
+    "zhei zhen zheng zhi zhong zhou zhu zhua zhuai zhuan zhuang zhui zhun zhuo zi zong zou zu " +
+    "zuan zui zun zuo"
+  ).split(" ")
+);
+const MAX_SYLLABLE_LENGTH = 6;
+
+const CJK_PATTERN = /[一-鿿]/;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getSearchSuggestOptions(env = process.env) {
+  return {
+    refreshMinutes: parseIntOption(env.SEARCH_SUGGEST_REFRESH_MINUTES, 10, 1, 24 * 60),
+    maxKeywords: parseIntOption(env.SEARCH_SUGGEST_MAX_KEYWORDS, 20000, 100, 200000),
+  };
+}
+
+export function normalizeSuggestText(value) {
+  return String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_QUERY_LENGTH);
+}
+
+let pinyinCollator = null;
+
+const getPinyinInitial = (char) => {
+  if (!pinyinCollator) {
+    pinyinCollator = new Intl.Collator("zh-Hans-CN-u-co-pinyin");
+  }
+
+  let initial = "";
+  for (let index = 0; index < PINYIN_INITIAL_BOUNDARIES.length; index += 1) {
+    if (pinyinCollator.compare(char, PINYIN_INITIAL_BOUNDARIES[index]) < 0) {
+      break;
+    }
+    initial = PINYIN_INITIALS[index];
+  }
+
+  return initial;
+};
+
+/**
+ * 汉字取拼音首字母，字母和数字原样保留（小写），其余字符忽略
+ */
+export function getPinyinInitials(text) {
+  let result = "";
+  for (const char of String(text || "").toLowerCase()) {
+    if (CJK_PATTERN.test(char)) {
+      result += getPinyinInitial(char);
+    } else if (/[a-z0-9]/.test(char)) {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 把连续拼音切成音节，最后一段允许是未输入完的音节前缀；无法切分时返回 null
+ */
+export function splitPinyinSyllables(input) {
+  const text = String(input || "").toLowerCase();
+  if (!/^[a-z]+$/.test(text)) {
+    return null;
+  }
+
+  const memo = new Map();
+  const split = (start) => {
+    if (start === text.length) return [];
+    if (memo.has(start)) return memo.get(start);
+
+    let result = null;
+    for (let length = Math.min(MAX_SYLLABLE_LENGTH, text.length - start); length > 0; length -= 1) {
+      const syllable = text.slice(start, start + length);
+      if (!PINYIN_SYLLABLES.has(syllable)) continue;
+      const rest = split(start + length);
+      if (rest) {
+        result = [syllable, ...rest];
+        break;
+      }
+    }
+
+    if (!result) {
+      const tail = text.slice(start);
+      if ([...PINYIN_SYLLABLES].some((syllable) => syllable.startsWith(tail))) {
+        result = [tail];
+      }
+    }
+
+    memo.set(start, result);
+    return result;
+  };
+
+  return split(0);
+}
+
+const createTrieNode = () => ({ children: new Map(), entries: [] });
+
+const insertIntoTrie = (root, key, entry) => {
+  let node = root;
+  for (const char of key) {
+    if (!node.children.has(char)) {
+      node.children.set(char, createTrieNode());
+    }
+    node = node.children.get(char);
+    // 关键词按搜索次数从高到低插入，节点里先到的就是热门的
+    if (node.entries.length < NODE_TOP_K && !node.entries.includes(entry)) {
+      node.entries.push(entry);
+    }
+  }
+};
+
+const lookupTrie = (root, prefix) => {
+  let node = root;
+  for (const char of prefix) {
+    node = node.children.get(char);
+    if (!node) return [];
+  }
+
+  return node.entries;
+};
+
+export function getEditDistance(left, right) {
+  const a = [...left];
+  const b = [...right];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 用搜索记录构建联想索引；isAllowed 用于剔除当前审核规则下不允许展示的关键词
+ */
+export function createSuggestionIndex(records = [], { isAllowed = (keyword) => Boolean(keyword) } = {}) {
+  const keywordTrie = createTrieNode();
+  const initialsTrie = createTrieNode();
+  const seen = new Set();
+  const entries = [];
+
+  const sorted = [...records].sort((left, right) => (right.count || 0) - (left.count || 0));
+  for (const record of sorted) {
+    const keyword = String(record.keyword || "").trim();
+    const normalized = normalizeSuggestText(keyword);
+    if (!normalized || seen.has(normalized) || !isAllowed(keyword)) {
+      continue;
+    }
+    seen.add(normalized);
+
+    const entry = {
+      keyword,
+      normalized,
+      initials: CJK_PATTERN.test(normalized) ? getPinyinInitials(normalized) : "",
+      count: record.count || 0,
+    };
+    entries.push(entry);
+    insertIntoTrie(keywordTrie, normalized, entry);
+    if (entry.initials) {
+      insertIntoTrie(initialsTrie, entry.initials, entry);
+    }
+  }
+
+  const suggest = (query, limit = DEFAULT_SUGGEST_LIMIT) => {
+    const normalized = normalizeSuggestText(query);
+    if (!normalized) {
+      return [];
+    }
+
+    const candidates = [...lookupTrie(keywordTrie, normalized)];
+    const compact = normalized.replace(/\s+/g, "");
+    if (/^[a-z]+$/.test(compact)) {
+      // 既当作首字母（st），也当作全拼（santi → st）查询
+      candidates.push(...lookupTrie(initialsTrie, compact));
+      const syllables = splitPinyinSyllables(compact);
+      if (syllables && syllables.length > 1) {
+        candidates.push(...lookupTrie(initialsTrie, syllables.map((syllable) => syllable[0]).join("")));
+      }
+    } else if (CJK_PATTERN.test(normalized) && candidates.length < limit) {
+      candidates.push(...lookupTrie(initialsTrie, getPinyinInitials(normalized)));
+    }
+
+    return [...new Set(candidates)]
+      .filter((entry) => entry.normalized !== normalized)
+      .sort((left, right) => {
+        const leftPrefix = left.normalized.startsWith(normalized) ? 1 : 0;
+        const rightPrefix = right.normalized.startsWith(normalized) ? 1 : 0;
+        return rightPrefix - leftPrefix || right.count - left.count;
+      })
+      .slice(0, limit)
+      .map(({ keyword, count }) => ({ keyword, count }));
+  };
+
+  /**
+   * 查询无结果时给出纠错建议：编辑距离最近的热门关键词，同音（首字母相同）优先
+   */
+  const correct = (query) => {
+    const normalized = normalizeSuggestText(query);
+    if (!normalized) {
+      return null;
+    }
+
+    const length = [...normalized].length;
+    const threshold = Math.max(1, Math.floor(length / 3));
+    const initials = CJK_PATTERN.test(normalized) ? getPinyinInitials(normalized) : "";
+    let best = null;
+    for (const entry of entries) {
+      if (entry.normalized === normalized) continue;
+      if (Math.abs([...entry.normalized].length - length) > threshold) continue;
+
+      const distance = getEditDistance(normalized, entry.normalized);
+      if (distance > threshold) continue;
+
+      const homophone = initials && entry.initials === initials ? 1 : 0;
+      if (
+        !best ||
+        distance < best.distance ||
+        (distance === best.distance && homophone > best.homophone)
+      ) {
+        best = { entry, distance, homophone };
+      }
+    }
+
+    if (best) {
+      return best.entry.keyword;
+    }
+
+    // 输入的是拼音时，直接用拼音联想到的最热门关键词
+    const compact = normalized.replace(/\s+/g, "");
+    if (/^[a-z]+$/.test(compact) && splitPinyinSyllables(compact)) {
+      return suggest(normalized, 1)[0]?.keyword || null;
+    }
+
+    return null;
+  };
+
+  return { size: entries.length, suggest, correct };
+}
+
+let cachedIndex = null;
+let cachedIndexAt = 0;
+let pendingBuild = null;
+
+/**
+ * 获取联想索引，超过刷新间隔后重新从 SearchRecord 加载；并发请求共用同一次加载
+ */
+export async function getSearchSuggestionIndex({
+  options = getSearchSuggestOptions(),
+  isAllowed = (keyword) => Boolean(keyword),
+  now = new Date(),
+  client = undefined,
+} = {}) {
+  if (cachedIndex && now.getTime() - cachedIndexAt < options.refreshMinutes * 60 * 1000) {
+    return cachedIndex;
+  }
+
+  if (!pendingBuild) {
+    pendingBuild = (async () => {
+      const db = client || (await import("~/lib/prisma")).default;
+      const records = await db.searchRecord.findMany({
+        select: { keyword: true, count: true },
+        orderBy: { count: "desc" },
+        take: options.maxKeywords,
+      });
+      cachedIndex = createSuggestionIndex(records, { isAllowed });
+      cachedIndexAt = now.getTime();
+      return cachedIndex;
+    })().finally(() => {
+      pendingBuild = null;
+    });
+  }
+
+  return pendingBuild;
+}
+
+export function resetSearchSuggestionIndex() {
+  cachedIndex = null;
+  cachedIndexAt = 0;
+}
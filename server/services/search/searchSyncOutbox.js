@@ -0,0 +1,449 @@
+import { SEARCH_REINDEX_TARGETS } from "./searchReindexJobs.js";
+
+// 资源的增删改与同步事件写在同一个数据库事务里，由后台 worker 异步投递到 ES，
+// ES 不可用时只会让事件排队重试，不再阻塞审核或留下无法察觉的索引偏差。
+
+export const SEARCH_SYNC_ACTIONS = {
+  upsert: "upsert",
+  delete: "delete",
+};
+
+export const SEARCH_SYNC_STATUS = {
+  pending: "pending",
+  processing: "processing",
+  done: "done",
+  failed: "failed",
+};
+
+const BACKOFF_BASE_MS = 10 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// 领取后超过这个时间仍未完成（进程崩溃等），重新放回队列
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const DONE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+export function getSearchSyncOptions(env = process.env) {
+  return {
+    intervalSeconds: parseIntOption(env.SEARCH_SYNC_INTERVAL_SECONDS, 5, 1, 3600),
+    batchSize: parseIntOption(env.SEARCH_SYNC_BATCH_SIZE, 100, 1, 1000),
+    maxAttempts: parseIntOption(env.SEARCH_SYNC_MAX_ATTEMPTS, 8, 1, 50),
+    // 0 表示关闭定时对账，只保留后台手动触发
+    reconcileIntervalHours: parseIntOption(env.SEARCH_SYNC_RECONCILE_INTERVAL_HOURS, 24, 0, 24 * 30),
+  };
+}
+
+const serviceError = (message, statusCode) =>
+  Object.assign(new Error(message), { statusCode });
+
+const getPrisma = async (client) => {
+  if (client) {
+    return client;
+  }
+
+  const { default: prisma } = await import("~/lib/prisma");
+  return prisma;
+};
+
+const assertTarget = (target) => {
+  if (!SEARCH_REINDEX_TARGETS[target]) {
+    throw serviceError("未知的搜索索引", 404);
+  }
+};
+
+/**
+ * 在调用方的事务里写入同步事件；client 必须是事务客户端，才能和业务数据一起提交或回滚
+ */
+export async function enqueueSearchSync(client, events) {
+  const data = (Array.isArray(events) ? events : [events]).map((event) => {
+    assertTarget(event.target);
+    return {
+      target: event.target,
+      entityId: Number(event.entityId),
+      action: event.action === SEARCH_SYNC_ACTIONS.delete ? SEARCH_SYNC_ACTIONS.delete : SEARCH_SYNC_ACTIONS.upsert,
+    };
+  });
+
+  if (data.length === 0) {
+    return { count: 0 };
+  }
+
+  return client.searchSyncEvent.createMany({ data });
+}
+
+export function computeSearchSyncBackoff(attempts) {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+const INDEX_INCLUDE = {
+  creator: { select: { id: true, username: true } },
+  type: true,
+};
+
+/**
+ * 默认的投递方式：按数据库当前状态决定写入还是移出索引
+ */
+export async function createSearchSyncHandlers() {
+  const { default: prisma } = await import("~/lib/prisma");
+  const search = await import("./elasticsearchClient.js");
+
+  return {
+    resources: {
+      isConfigured: () => search.isResourceSearchConfigured(),
+      load: async (id) => {
+        const [resource, unpublished] = await Promise.all([
+          prisma.resource.findUnique({ where: { id }, include: INDEX_INCLUDE }),
+          prisma.resourceLinkHealth.findFirst({
+            where: { targetType: "resource", targetId: id, unpublishedAt: { not: null } },
+            select: { id: true },
+          }),
+        ]);
+        return resource ? { ...resource, linkUnpublished: Boolean(unpublished) } : null;
+      },
+      // 链接已失效被健康检查移出索引的资源，后续编辑也不再写回索引
+      shouldIndex: (resource) => !resource.linkUnpublished,
+      upsert: (resource) => search.syncResource(resource),
+      remove: (id) => search.removeResource(id),
+    },
+    "user-resources": {
+      isConfigured: () => search.isUserResourceSearchConfigured(),
+      load: (id) => prisma.userResource.findUnique({ where: { id }, include: INDEX_INCLUDE }),
+      shouldIndex: (resource) => resource.status === "published",
+      upsert: (resource) => search.syncPublishedUserResource(resource),
+      remove: (id) => search.removePublishedUserResource(id),
+    },
+  };
+}
+
+/**
+ * 领取到期的待投递事件；多实例部署时用条件更新保证同一事件只被一个 worker 领取
+ */
+export async function claimSearchSyncEvents({
+  now = new Date(),
+  options = getSearchSyncOptions(),
+  client = undefined,
+} = {}) {
+  const db = await getPrisma(client);
+
+  await db.searchSyncEvent.updateMany({
+    where: {
+      status: SEARCH_SYNC_STATUS.processing,
+      lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+    },
+    data: { status: SEARCH_SYNC_STATUS.pending, lockedAt: null },
+  });
+
+  const candidates = await db.searchSyncEvent.findMany({
+    where: { status: SEARCH_SYNC_STATUS.pending, nextAttemptAt: { lte: now } },
+    orderBy: { id: "asc" },
+    take: options.batchSize,
+  });
+
+  const claimed = [];
+  for (const event of candidates) {
+    const result = await db.searchSyncEvent.updateMany({
+      where: { id: event.id, status: SEARCH_SYNC_STATUS.pending },
+      data: { status: SEARCH_SYNC_STATUS.processing, lockedAt: now },
+    });
+    if (result.count === 1) {
+      claimed.push(event);
+    }
+  }
+
+  return claimed;
+}
+
+/**
+ * 投递单个事件，返回 delivered / superseded / skipped；失败直接抛出由调用方安排重试
+ */
+export async function deliverSearchSyncEvent(event, { handlers, client = undefined }) {
+  const db = await getPrisma(client);
+  const handler = handlers[event.target];
+  if (!handler) {
+    throw new Error(`未知的搜索索引: ${event.target}`);
+  }
+
+  // 同一条数据后面还有事件时，交给最新的事件处理，避免重试中的旧事件覆盖新状态
+  const newer = await db.searchSyncEvent.findFirst({
+    where: {
+      target: event.target,
+      entityId: event.entityId,
+      id: { gt: event.id },
+      status: { in: [SEARCH_SYNC_STATUS.pending, SEARCH_SYNC_STATUS.processing] },
+    },
+    select: { id: true },
+  });
+  if (newer) {
+    return "superseded";
+  }
+
+  if (!handler.isConfigured()) {
+    return "skipped";
+  }
+
+  if (event.action === SEARCH_SYNC_ACTIONS.upsert) {
+    const entity = await handler.load(event.entityId);
+    if (entity && handler.shouldIndex(entity)) {
+      await handler.upsert(entity);
+      return "delivered";
+    }
+  }
+
+  await handler.remove(event.entityId);
+  return "delivered";
+}
+
+/**
+ * 取出一批到期事件投递到 ES，失败的按指数退避重试，超过最大次数后标记为 failed 等待人工处理
+ */
+export async function drainSearchSyncOutbox({
+  now = new Date(),
+  options = getSearchSyncOptions(),
+  handlers = undefined,
+  client = undefined,
+} = {}) {
+  const db = await getPrisma(client);
+  const events = await claimSearchSyncEvents({ now, options, client: db });
+  const summary = { claimed: events.length, delivered: 0, superseded: 0, skipped: 0, retried: 0, failed: 0 };
+  if (events.length === 0) {
+    return summary;
+  }
+
+  const runtimeHandlers = handlers || (await createSearchSyncHandlers());
+  for (const event of events) {
+    try {
+      const outcome = await deliverSearchSyncEvent(event, { handlers: runtimeHandlers, client: db });
+      summary[outcome] += 1;
+      await db.searchSyncEvent.update({
+        where: { id: event.id },
+        data: {
+          status: SEARCH_SYNC_STATUS.done,
+          lockedAt: null,
+          processedAt: now,
+          lastError: null,
+        },
+      });
+    } catch (error) {
+      const attempts = event.attempts + 1;
+      const exhausted = attempts >= options.maxAttempts;
+      summary[exhausted ? "failed" : "retried"] += 1;
+      await db.searchSyncEvent.update({
+        where: { id: event.id },
+        data: {
+          status: exhausted ? SEARCH_SYNC_STATUS.failed : SEARCH_SYNC_STATUS.pending,
+          attempts,
+          lockedAt: null,
+          lastError: error?.message || String(error),
+          nextAttemptAt: new Date(now.getTime() + computeSearchSyncBackoff(attempts)),
+        },
+      });
+    }
+  }
+
+  return summary;
+}
+
+export async function purgeDeliveredSearchSyncEvents({ now = new Date(), client = undefined } = {}) {
+  const db = await getPrisma(client);
+  const result = await db.searchSyncEvent.deleteMany({
+    where: {
+      status: SEARCH_SYNC_STATUS.done,
+      processedAt: { lt: new Date(now.getTime() - DONE_RETENTION_MS) },
+    },
+  });
+
+  return result.count;
+}
+
+const getScrollBody = (response) => response?.body ?? response;
+
+/**
+ * 用 scroll 读出索引里的全部资源 id；索引还不存在时返回空集合
+ */
+export async function listIndexedEntityIds(client, alias, batchSize = 1000) {
+  const ids = new Set();
+  let response;
+  try {
+    response = getScrollBody(
+      await client.search({
+        index: alias,
+        scroll: "1m",
+        size: batchSize,
+        _source: ["resourceId"],
+        query: { match_all: {} },
+        sort: ["_doc"],
+      })
+    );
+  } catch (error) {
+    if (error?.meta?.statusCode === 404) {
+      return ids;
+    }
+    throw error;
+  }
+
+  let scrollId = response?._scroll_id;
+  try {
+    for (;;) {
+      const hits = response?.hits?.hits || [];
+      if (hits.length === 0) break;
+
+      for (const hit of hits) {
+        const id = Number(hit._source?.resourceId);
+        if (Number.isInteger(id)) ids.add(id);
+      }
+      response = getScrollBody(await client.scroll({ scroll_id: scrollId, scroll: "1m" }));
+      scrollId = response?._scroll_id || scrollId;
+    }
+  } finally {
+    if (scrollId) {
+      await client.clearScroll({ scroll_id: scrollId }).catch(() => {});
+    }
+  }
+
+  return ids;
+}
+
+const lastReconcileResults = new Map();
+
+/**
+ * 对账：比较数据库里应该被索引的 id 与索引里实际的 id，差异写成同步事件交给 worker 修复
+ */
+export async function reconcileSearchIndex(targetKey, {
+  search = undefined,
+  source = undefined,
+  batchSize = 1000,
+  now = new Date(),
+  client = undefined,
+} = {}) {
+  const target = SEARCH_REINDEX_TARGETS[targetKey];
+  if (!target) {
+    throw serviceError("未知的搜索索引", 404);
+  }
+
+  const db = await getPrisma(client);
+  const { client: searchClient, alias } = search || (await target.getSearch());
+  const dataSource = source || (await target.createSource());
+
+  const expectedIds = new Set();
+  for (let afterId = 0; ; ) {
+    const rows = await dataSource.loadBatch({ afterId, take: batchSize });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      if (dataSource.shouldIndex(row)) expectedIds.add(row.id);
+    }
+    afterId = rows[rows.length - 1].id;
+  }
+
+  const indexedIds = await listIndexedEntityIds(searchClient, alias, batchSize);
+  const missing = [...expectedIds].filter((id) => !indexedIds.has(id));
+  const extra = [...indexedIds].filter((id) => !expectedIds.has(id));
+
+  await enqueueSearchSync(db, [
+    ...missing.map((entityId) => ({ target: targetKey, entityId, action: SEARCH_SYNC_ACTIONS.upsert })),
+    ...extra.map((entityId) => ({ target: targetKey, entityId, action: SEARCH_SYNC_ACTIONS.delete })),
+  ]);
+
+  const result = {
+    target: targetKey,
+    expected: expectedIds.size,
+    indexed: indexedIds.size,
+    missing: missing.length,
+    extra: extra.length,
+    finishedAt: now.toISOString(),
+  };
+  lastReconcileResults.set(targetKey, result);
+
+  return result;
+}
+
+export async function getSearchSyncOverview({ client = undefined } = {}) {
+  const db = await getPrisma(client);
+  const [groups, oldestPending] = await Promise.all([
+    db.searchSyncEvent.groupBy({ by: ["status"], _count: { _all: true } }),
+    db.searchSyncEvent.findFirst({
+      where: { status: { in: [SEARCH_SYNC_STATUS.pending, SEARCH_SYNC_STATUS.processing] } },
+      orderBy: { id: "asc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(Object.values(SEARCH_SYNC_STATUS).map((status) => [status, 0]));
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+
+  return {
+    counts,
+    oldestPendingAt: oldestPending?.createdAt || null,
+    reconcile: Object.keys(SEARCH_REINDEX_TARGETS).map((target) => ({
+      target,
+      label: SEARCH_REINDEX_TARGETS[target].label,
+      lastResult: lastReconcileResults.get(target) || null,
+    })),
+  };
+}
+
+/**
+ * 后台列表：默认展示需要关注的事件（失败的、以及已经重试过仍未成功的）
+ */
+export async function listSearchSyncEvents({ status = "", page = 1, pageSize = 20, client = undefined } = {}) {
+  const db = await getPrisma(client);
+  const where = Object.values(SEARCH_SYNC_STATUS).includes(status)
+    ? { status }
+    : {
+        OR: [
+          { status: SEARCH_SYNC_STATUS.failed },
+          { status: SEARCH_SYNC_STATUS.pending, attempts: { gt: 0 } },
+        ],
+      };
+  const take = parseIntOption(pageSize, 20, 1, 100);
+  const currentPage = parseIntOption(page, 1, 1, 100000);
+
+  const [items, total] = await Promise.all([
+    db.searchSyncEvent.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (currentPage - 1) * take,
+      take,
+    }),
+    db.searchSyncEvent.count({ where }),
+  ]);
+
+  return { items, total, page: currentPage, pageSize: take };
+}
+
+export async function retrySearchSyncEvents({ ids = undefined, now = new Date(), client = undefined } = {}) {
+  const db = await getPrisma(client);
+  const result = await db.searchSyncEvent.updateMany({
+    // 指定 id 时也可以让退避中的事件立即重试，否则只重置全部失败事件
+    where: ids
+      ? {
+          id: { in: ids.map(Number) },
+          status: { in: [SEARCH_SYNC_STATUS.failed, SEARCH_SYNC_STATUS.pending] },
+        }
+      : { status: SEARCH_SYNC_STATUS.failed },
+    data: { status: SEARCH_SYNC_STATUS.pending, attempts: 0, nextAttemptAt: now, lockedAt: null },
+  });
+
+  return result.count;
+}
+
+export async function discardSearchSyncEvent(id, { client = undefined } = {}) {
+  const db = await getPrisma(client);
+  const result = await db.searchSyncEvent.deleteMany({
+    where: { id: Number(id), status: SEARCH_SYNC_STATUS.failed },
+  });
+  if (result.count === 0) {
+    throw serviceError("只能丢弃已失败的同步事件", 409);
+  }
+
+  return true;
+}
@@ -0,0 +1,144 @@
+import { parseSynonymRules } from "./searchTextNormalization.js";
+
+// 同义词词典保存在 SystemSettings，同时写入 ES 的 synonyms set。
+// 索引的 normalizedName 字段在查询时使用带 synonym_graph 的分析器，词典更新后 ES 自动重载，无需重建索引。
+
+export const SEARCH_SYNONYM_SETTING_KEY = "search_synonyms";
+export const SEARCH_SYNONYM_SETTING_GROUP = "search";
+export const SEARCH_SYNONYM_SET_ID = "aipan-search-synonyms";
+export const SEARCH_SYNONYM_ANALYZER = "ik_smart_synonym";
+
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+let cachedRules = null;
+let cachedRulesAt = 0;
+// 本进程内已确认存在 synonyms set 的 ES 客户端
+const ensuredClients = new WeakSet();
+
+const isNotFound = (error) => error?.meta?.statusCode === 404;
+
+/**
+ * 新建索引版本时使用的分析设置：查询时先按 ik_smart 分词，再做同义词扩展
+ */
+export function buildSearchAnalysisSettings() {
+  return {
+    analysis: {
+      filter: {
+        search_synonyms: {
+          type: "synonym_graph",
+          synonyms_set: SEARCH_SYNONYM_SET_ID,
+          updateable: true,
+        },
+      },
+      analyzer: {
+        [SEARCH_SYNONYM_ANALYZER]: {
+          type: "custom",
+          tokenizer: "ik_smart",
+          filter: ["lowercase", "search_synonyms"],
+        },
+      },
+    },
+  };
+}
+
+export function buildSynonymSetRules(rules = []) {
+  return rules.map((synonyms, index) => ({ id: `rule-${index + 1}`, synonyms }));
+}
+
+export async function getSearchSynonymRules({ client = undefined } = {}) {
+  if (cachedRules && Date.now() - cachedRulesAt < CONFIG_CACHE_TTL_MS) {
+    return cachedRules;
+  }
+
+  const db = client || (await import("~/lib/prisma")).default;
+  const settings = await db.systemSettings.findUnique({
+    where: { key: SEARCH_SYNONYM_SETTING_KEY },
+  });
+
+  let stored = [];
+  if (settings?.value) {
+    try {
+      stored = JSON.parse(settings.value);
+    } catch (error) {
+      console.error("同义词词典解析失败，使用空词典:", error);
+    }
+  }
+
+  cachedRules = parseSynonymRules(Array.isArray(stored) ? stored : []);
+  cachedRulesAt = Date.now();
+  return cachedRules;
+}
+
+/**
+ * 把词典整体写入 ES synonyms set；ES 会自动重载引用它的查询分析器
+ */
+export async function syncSearchSynonymSet(searchClient, rules) {
+  await searchClient.synonyms.putSynonym({
+    id: SEARCH_SYNONYM_SET_ID,
+    synonyms_set: buildSynonymSetRules(rules),
+  });
+  ensuredClients.add(searchClient);
+}
+
+/**
+ * 创建索引前确保 synonyms set 存在，否则引用它的分析器无法创建；不存在时用数据库里的词典补建
+ */
+export async function ensureSearchSynonymSet(searchClient) {
+  if (ensuredClients.has(searchClient)) {
+    return;
+  }
+
+  try {
+    await searchClient.synonyms.getSynonym({ id: SEARCH_SYNONYM_SET_ID, size: 1 });
+    ensuredClients.add(searchClient);
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+    await syncSearchSynonymSet(searchClient, await getSearchSynonymRules());
+  }
+}
+
+/**
+ * 保存词典并同步到已配置的 ES 集群；ES 同步失败时词典仍然保存，返回的 synced 为 false
+ */
+export async function saveSearchSynonymRules(input, { client = undefined, searchClients = undefined } = {}) {
+  const rules = parseSynonymRules(input);
+  const db = client || (await import("~/lib/prisma")).default;
+  const data = {
+    value: JSON.stringify(rules),
+    group: SEARCH_SYNONYM_SETTING_GROUP,
+    description: "站内搜索同义词词典",
+  };
+
+  await db.systemSettings.upsert({
+    where: { key: SEARCH_SYNONYM_SETTING_KEY },
+    update: data,
+    create: { key: SEARCH_SYNONYM_SETTING_KEY, ...data },
+  });
+  cachedRules = rules;
+  cachedRulesAt = Date.now();
+
+  const clients = searchClients || (await getConfiguredSearchClients());
+  let synced = true;
+  for (const searchClient of clients) {
+    try {
+      await syncSearchSynonymSet(searchClient, rules);
+    } catch (error) {
+      synced = false;
+      console.error("同步 ES 同义词失败:", error);
+    }
+  }
+
+  return { rules, synced };
+}
+
+const getConfiguredSearchClients = async () => {
+  const search = await import("./elasticsearchClient.js");
+  const clients = [
+    search.getOptionalResourceSearchClient(),
+    search.getOptionalUserResourceSearchClient(),
+  ].filter(Boolean);
+
+  return [...new Set(clients)];
+};
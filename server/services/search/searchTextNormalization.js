@@ -0,0 +1,179 @@
+// 搜索文本归一化：繁体转简体、季/集写法统一。索引文档的 normalizedName 和查询关键词都经过同一套处理，
+// 「復仇者聯盟 第一季」和「复仇者联盟 S01」因此能互相命中。
+
+// 影视标题里常见的繁简字对照（繁体在前）
+const TRADITIONAL_SIMPLIFIED_PAIRS = (
+  "萬万 與与 專专 業业 東东 絲丝 兩两 嚴严 個个 豐丰 臨临 為为 麗丽 舉举 義义 樂乐 " +
+  "習习 鄉乡 書书 買买 亂乱 爭争 於于 虧亏 雲云 亞亚 產产 親亲 億亿 僅仅 從从 倉仓 " +
+  "儀仪 們们 價价 眾众 優优 會会 傘伞 偉伟 傳传 傷伤 倫伦 偽伪 體体 餘余 俠侠 侶侣 " +
+  "偵侦 側侧 債债 傾倾 償偿 兒儿 黨党 蘭兰 關关 興兴 養养 獸兽 內内 岡冈 冊册 寫写 " +
+  "軍军 農农 馮冯 衝冲 決决 況况 凍冻 淨净 涼凉 減减 幾几 鳳凤 憑凭 凱凯 擊击 劃划 " +
+  "劉刘 則则 剛刚 創创 刪删 別别 劑剂 劇剧 勸劝 辦办 務务 動动 勵励 勞劳 勢势 區区 " +
+  "醫医 華华 協协 單单 賣卖 盧卢 衛卫 卻却 廠厂 廳厅 歷历 厲厉 壓压 縣县 參参 雙双 " +
+  "發发 變变 疊叠 葉叶 號号 嚇吓 嗎吗 啟启 吳吴 呂吕 員员 問问 團团 園园 圍围 圖图 " +
+  "國国 圓圆 聖圣 場场 壞坏 塊块 堅坚 壇坛 墳坟 墜坠 壯壮 聲声 殼壳 處处 備备 復复 " +
+  "夠够 頭头 夾夹 奪夺 奮奋 獎奖 婦妇 媽妈 嬌娇 孫孙 學学 寧宁 寶宝 實实 寵宠 審审 " +
+  "對对 尋寻 導导 壽寿 將将 爾尔 塵尘 嘗尝 層层 屆届 屬属 歲岁 豈岂 島岛 嶺岭 幣币 " +
+  "帥帅 師师 帳帐 帶带 幫帮 幹干 廣广 莊庄 慶庆 庫库 應应 廟庙 廢废 開开 棄弃 張张 " +
+  "彌弥 彎弯 彈弹 強强 歸归 當当 錄录 徹彻 徑径 後后 憶忆 懷怀 態态 慘惨 慣惯 憤愤 " +
+  "憂忧 懶懒 戀恋 戲戏 戰战 戶户 擁拥 擇择 掛挂 擔担 據据 擠挤 攜携 擾扰 攝摄 擺摆 " +
+  "擴扩 攔拦 撥拨 揚扬 換换 損损 搖摇 攬揽 權权 樣样 檢检 槍枪 樓楼 標标 機机 殺杀 " +
+  "殘残 毀毁 氣气 漢汉 湯汤 滿满 準准 溝沟 滅灭 潔洁 濃浓 濕湿 滾滚 漁渔 灣湾 潛潜 " +
+  "澤泽 濟济 灑洒 燈灯 災灾 爐炉 熱热 煙烟 燒烧 營营 爺爷 犧牺 獨独 獲获 獅狮 獵猎 " +
+  "猶犹 現现 環环 瑪玛 畫画 瘋疯 療疗 癡痴 盤盘 盡尽 監监 蓋盖 睜睁 礦矿 碼码 確确 " +
+  "禮礼 禍祸 離离 種种 積积 稱称 穩稳 窮穷 竊窃 競竞 筆笔 築筑 簡简 簽签 節节 範范 " +
+  "糧粮 緊紧 紅红 紀纪 約约 級级 紋纹 納纳 純纯 紙纸 線线 練练 組组 細细 織织 終终 " +
+  "經经 結结 給给 絕绝 統统 續续 綠绿 維维 綜综 網网 總总 編编 緣缘 縮缩 績绩 繩绳 " +
+  "繼继 罰罚 羅罗 聞闻 聯联 聰聪 職职 聽听 肅肃 腸肠 膚肤 腦脑 臉脸 舊旧 艦舰 藝艺 " +
+  "蘇苏 藥药 蘋苹 蟲虫 蠻蛮 補补 裝装 裡里 製制 複复 覺觉 觀观 視视 規规 觸触 計计 " +
+  "認认 討讨 讓让 訓训 議议 記记 講讲 許许 論论 設设 訪访 證证 評评 識识 詞词 試试 " +
+  "詩诗 誠诚 話话 誕诞 該该 詳详 語语 誤误 說说 課课 誰谁 調调 談谈 請请 諾诺 讀读 " +
+  "謀谋 謝谢 謎谜 譜谱 譯译 讚赞 貝贝 負负 財财 責责 賢贤 敗败 貨货 質质 貪贪 貧贫 " +
+  "購购 貴贵 費费 賞赏 賭赌 贏赢 趕赶 趙赵 躍跃 車车 軌轨 軟软 轉转 輪轮 輕轻 載载 " +
+  "輝辉 輸输 轟轰 辭辞 邊边 遼辽 達达 遷迁 過过 運运 還还 這这 進进 遠远 違违 連连 " +
+  "遲迟 遺遗 選选 適适 鄰邻 醜丑 釋释 針针 鐘钟 鋼钢 錢钱 鐵铁 銀银 鎖锁 錯错 鏡镜 " +
+  "長长 門门 閃闪 閉闭 闖闯 間间 閱阅 闊阔 隊队 陽阳 陰阴 陣阵 階阶 際际 陸陆 陳陈 " +
+  "險险 隨随 隱隐 難难 雜杂 雞鸡 電电 霧雾 靈灵 靜静 響响 頂顶 項项 順顺 須须 預预 " +
+  "頓顿 領领 頻频 題题 額额 顏颜 願愿 類类 顯显 風风 飛飞 飯饭 飲饮 餓饿 館馆 馬马 " +
+  "驅驱 驗验 驚惊 髮发 鬥斗 鬧闹 魚鱼 鮮鲜 鳥鸟 鳴鸣 鷹鹰 麥麦 黃黄 點点 齊齐 齒齿 " +
+  "龍龙 龜龟 劍剑 燁烨 謊谎 諜谍 紳绅 屍尸 獄狱 軀躯 " +
+  "殭僵 喪丧 嶽岳 傑杰 濤涛 釣钓 鎮镇 寢寝 憐怜 夢梦 滬沪 贛赣 蘆芦 韓韩 灘滩 啓启"
+)
+  .split(" ")
+  .filter((pair) => [...pair].length === 2 && pair[0] !== pair[1]);
+
+const TRADITIONAL_TO_SIMPLIFIED = new Map(TRADITIONAL_SIMPLIFIED_PAIRS.map((pair) => [...pair]));
+
+const CHINESE_DIGITS = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+
+const padNumber = (value) => String(value).padStart(2, "0");
+
+/**
+ * 把「十二」「二十」「三」「12」这类数字解析成整数，只支持到九十九
+ */
+export function parseChineseNumber(value) {
+  const text = String(value || "").trim();
+  if (/^\d+$/.test(text)) {
+    return Number.parseInt(text, 10);
+  }
+  if (!text || text.length > 3) {
+    return null;
+  }
+
+  const tenIndex = text.indexOf("十");
+  if (tenIndex === -1) {
+    return text.length === 1 && text in CHINESE_DIGITS ? CHINESE_DIGITS[text] : null;
+  }
+
+  const tensText = text.slice(0, tenIndex);
+  const onesText = text.slice(tenIndex + 1);
+  const tens = tensText ? CHINESE_DIGITS[tensText] : 1;
+  const ones = onesText ? CHINESE_DIGITS[onesText] : 0;
+  if (tens === undefined || ones === undefined || tensText.length > 1 || onesText.length > 1) {
+    return null;
+  }
+
+  return tens * 10 + ones;
+}
+
+export function toSimplifiedChinese(text) {
+  let result = "";
+  for (const char of String(text || "")) {
+    result += TRADITIONAL_TO_SIMPLIFIED.get(char) || char;
+  }
+
+  return result;
+}
+
+const NUMBER_PATTERN = "(\\d{1,3}|[零〇一二两兩三四五六七八九十]{1,3})";
+
+/**
+ * 季/集统一成 S01、E03：第一季、第1季、Season 1、S1 → S01；第3集、EP3、E3 → E03；S01E03 拆成 S01 E03
+ */
+export function normalizeSeasonEpisode(text) {
+  const toSeason = (number) => {
+    const parsed = parseChineseNumber(number);
+    return parsed === null ? null : `S${padNumber(parsed)}`;
+  };
+  const toEpisode = (number) => {
+    const parsed = parseChineseNumber(number);
+    return parsed === null ? null : `E${padNumber(parsed)}`;
+  };
+
+  return String(text || "")
+    .replace(/\bS(\d{1,3})\s*E[Pp]?(\d{1,4})\b/gi, (match, season, episode) =>
+      `S${padNumber(Number(season))} E${padNumber(Number(episode))}`
+    )
+    .replace(new RegExp(`第\\s*${NUMBER_PATTERN}\\s*[季部]`, "g"), (match, number) => {
+      const season = toSeason(number);
+      return season ? ` ${season} ` : match;
+    })
+    .replace(new RegExp(`第\\s*${NUMBER_PATTERN}\\s*[集话話]`, "g"), (match, number) => {
+      const episode = toEpisode(number);
+      return episode ? ` ${episode} ` : match;
+    })
+    .replace(/\bSeason\s*(\d{1,3})\b/gi, (match, number) => ` ${toSeason(number)} `)
+    .replace(/\bS(\d{1,3})\b/gi, (match, number) => `S${padNumber(Number(number))}`)
+    .replace(/\b(?:EP|E)(\d{1,4})\b/gi, (match, number) => `E${padNumber(Number(number))}`);
+}
+
+/**
+ * 索引和查询共用的归一化：繁转简 + 季集写法统一 + 合并空白
+ */
+export function normalizeSearchText(text) {
+  return normalizeSeasonEpisode(toSimplifiedChinese(text)).replace(/\s+/g, " ").trim();
+}
+
+export const SEARCH_SYNONYM_LIMITS = {
+  maxRules: 2000,
+  maxTermsPerRule: 20,
+  maxTermLength: 50,
+};
+
+const normalizeSynonymTerms = (value) =>
+  [
+    ...new Set(
+      String(value || "")
+        .split(/[,，]/)
+        .map((term) => normalizeSearchText(term).toLowerCase())
+        .filter((term) => term && term.length <= SEARCH_SYNONYM_LIMITS.maxTermLength)
+    ),
+  ].slice(0, SEARCH_SYNONYM_LIMITS.maxTermsPerRule);
+
+/**
+ * 解析同义词词典（Solr 格式，每行一条）：「复仇者联盟, 妇联, Avengers」为等价词，
+ * 「妇联, 复联 => 复仇者联盟」为单向映射；词条同样经过归一化，与 normalizedName 保持一致
+ */
+export function parseSynonymRules(input) {
+  const lines = Array.isArray(input) ? input : String(input || "").split(/\r?\n/);
+  const rules = [];
+  const seen = new Set();
+
+  for (const line of lines) {
+    const text = String(line || "").trim();
+    if (!text || text.startsWith("#")) continue;
+
+    let rule = null;
+    const arrowIndex = text.indexOf("=>");
+    if (arrowIndex >= 0) {
+      const from = normalizeSynonymTerms(text.slice(0, arrowIndex));
+      const to = normalizeSynonymTerms(text.slice(arrowIndex + 2));
+      if (from.length > 0 && to.length > 0) {
+        rule = `${from.join(", ")} => ${to.join(", ")}`;
+      }
+    } else {
+      const terms = normalizeSynonymTerms(text);
+      if (terms.length > 1) {
+        rule = terms.join(", ");
+      }
+    }
+
+    if (rule && !seen.has(rule)) {
+      seen.add(rule);
+      rules.push(rule);
+    }
+    if (rules.length >= SEARCH_SYNONYM_LIMITS.maxRules) break;
+  }
+
+  return rules;
+}
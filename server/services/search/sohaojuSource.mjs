@@ -0,0 +1,271 @@
+import { detectLinkService } from "../../../utils/linkServices.js";
+
+const BASE_URLS = ["https://www.sohaoju.com", "https://www.soquark.com"];
+const PUBLIC_SEARCH_TYPES = [0, 2];
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
+const MAX_ITEMS_PER_TYPE = 8;
+const MAX_RESOLVED_LINKS = 18;
+const RESOLVE_BATCH_SIZE = 4;
+const SESSION_TIMEOUT_MS = 12_000;
+const SSE_READ_TIMEOUT_MS = 6500;
+const SAVE_URL_TIMEOUT_MS = 9000;
+
+const createAbortSignal = (timeoutMs) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    abort: () => controller.abort(),
+    clear: () => clearTimeout(timeout),
+  };
+};
+
+const normalizeLink = (url) =>
+  url.replace(/\\\//g, "/").replace(/&amp;/g, "&").trim().replace(/[.,，。；;]+$/, "");
+
+const extractPassword = (url, fallback) =>
+  url.match(/[?&](?:pwd|password)=([A-Za-z0-9]+)/i)?.[1] ||
+  fallback?.match(/^[A-Za-z0-9]+$/)?.[0];
+
+export const parseSohaojuSseLine = (line) => {
+  if (!line.startsWith("data: ")) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(line.slice(6));
+  } catch {
+    return null;
+  }
+};
+
+const getSession = async (fetchImpl, baseUrl, searchTerm) => {
+  const pageUrl = `${baseUrl}/s/${encodeURIComponent(searchTerm)}.html`;
+  const timeout = createAbortSignal(SESSION_TIMEOUT_MS);
+
+  try {
+    const response = await fetchImpl(pageUrl, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      },
+      signal: timeout.signal,
+    });
+    const html = await response.text();
+    const sessionCookie = (response.headers.get("set-cookie") || "").split(";")[0];
+
+    if (!response.ok || !sessionCookie || !html.includes("web_search")) {
+      throw new Error(`Sohaoju session unavailable: ${response.status}`);
+    }
+
+    return { pageUrl, sessionCookie };
+  } finally {
+    timeout.clear();
+  }
+};
+
+// 搜索结果以 SSE 推送，读够条数或超时就停止，已读到的结果照常返回
+const readSseItems = async (fetchImpl, baseUrl, searchTerm, searchType, session) => {
+  const timeout = createAbortSignal(SSE_READ_TIMEOUT_MS);
+  const items = [];
+  let reader;
+
+  try {
+    const response = await fetchImpl(
+      `${baseUrl}/api/other/web_search?title=${encodeURIComponent(searchTerm)}&is_type=${searchType}`,
+      {
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: "text/event-stream",
+          Cookie: session.sessionCookie,
+          Referer: session.pageUrl,
+        },
+        signal: timeout.signal,
+      },
+    );
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Sohaoju stream unavailable: ${response.status}`);
+    }
+
+    reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (items.length < MAX_ITEMS_PER_TYPE) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || "";
+
+      lines.forEach((line) => {
+        const item = parseSohaojuSseLine(line.trim());
+        if (item?.title && item?.url && items.length < MAX_ITEMS_PER_TYPE) {
+          items.push(item);
+        }
+      });
+    }
+
+    return items;
+  } catch (error) {
+    if (items.length > 0) {
+      return items;
+    }
+    throw error;
+  } finally {
+    timeout.abort();
+    timeout.clear();
+    await reader?.cancel().catch(() => undefined);
+  }
+};
+
+// 结果里的链接是加密的，需要再调用 save_url 换成真实分享链接
+const resolveShareLink = async (fetchImpl, baseUrl, item, session) => {
+  const title = String(item.title || "").trim();
+  const encryptedUrl = String(item.url || "").trim();
+  if (!title || !encryptedUrl) {
+    return null;
+  }
+
+  if (/^https?:\/\//i.test(encryptedUrl)) {
+    const link = normalizeLink(encryptedUrl);
+    return {
+      name: title,
+      link: {
+        service: detectLinkService(link),
+        link,
+        pwd: extractPassword(link, item.password),
+      },
+    };
+  }
+
+  const timeout = createAbortSignal(SAVE_URL_TIMEOUT_MS);
+
+  try {
+    const response = await fetchImpl(`${baseUrl}/api/other/save_url`, {
+      method: "POST",
+      headers: {
+        "User-Agent": USER_AGENT,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/plain, */*",
+        Cookie: session.sessionCookie,
+        Origin: baseUrl,
+        Referer: session.pageUrl,
+        "X-Requested-With": "XMLHttpRequest",
+      },
+      body: JSON.stringify({
+        url: encodeURIComponent(encryptedUrl),
+        title,
+      }),
+      signal: timeout.signal,
+    });
+    const data = await response.json().catch(() => null);
+    const resolvedUrl = normalizeLink(data?.data?.url || "");
+
+    if (!response.ok || data?.code !== 200 || !resolvedUrl) {
+      return null;
+    }
+
+    return {
+      name: data.data?.title || title,
+      link: {
+        service: detectLinkService(resolvedUrl),
+        link: resolvedUrl,
+        pwd: extractPassword(resolvedUrl, item.password),
+      },
+    };
+  } finally {
+    timeout.clear();
+  }
+};
+
+const resolveInBatches = async (fetchImpl, items, baseUrl, session) => {
+  const resolved = [];
+  const queue = items.slice(0, MAX_RESOLVED_LINKS);
+
+  for (let index = 0; index < queue.length; index += RESOLVE_BATCH_SIZE) {
+    const batch = queue.slice(index, index + RESOLVE_BATCH_SIZE);
+    const settled = await Promise.allSettled(
+      batch.map((item) => resolveShareLink(fetchImpl, baseUrl, item, session)),
+    );
+
+    settled.forEach((result) => {
+      if (result.status === "fulfilled" && result.value) {
+        resolved.push(result.value);
+      }
+    });
+  }
+
+  return resolved;
+};
+
+export const groupSohaojuResults = (resolved) => {
+  const grouped = new Map();
+
+  resolved.forEach(({ name, link }) => {
+    const links = grouped.get(name) || [];
+    const duplicate = links.some(
+      (existing) => existing.link === link.link && existing.pwd === link.pwd,
+    );
+
+    if (!duplicate) {
+      links.push(link);
+      grouped.set(name, links);
+    }
+  });
+
+  return Array.from(grouped.entries())
+    .map(([name, links]) => ({ name, links }))
+    .filter((item) => item.links.length > 0);
+};
+
+/**
+ * 依次尝试两个镜像站：建立会话、读取 SSE 结果、解析真实链接，任一站点有结果即返回
+ */
+export const fetchSohaojuResults = async (searchTerm, { fetch: fetchImpl = fetch } = {}) => {
+  const errors = [];
+
+  for (const baseUrl of BASE_URLS) {
+    try {
+      const session = await getSession(fetchImpl, baseUrl, searchTerm);
+      const itemGroups = await Promise.allSettled(
+        PUBLIC_SEARCH_TYPES.map((searchType) =>
+          readSseItems(fetchImpl, baseUrl, searchTerm, searchType, session),
+        ),
+      );
+      const items = itemGroups
+        .filter((result) => result.status === "fulfilled")
+        .flatMap((result) => result.value);
+
+      if (items.length === 0) {
+        errors.push(`${baseUrl}: no stream results`);
+        continue;
+      }
+
+      const list = groupSohaojuResults(await resolveInBatches(fetchImpl, items, baseUrl, session));
+      if (list.length > 0) {
+        return {
+          list,
+          code: 200,
+          msg: "success",
+        };
+      }
+
+      errors.push(`${baseUrl}: no resolvable links`);
+    } catch (error) {
+      errors.push(`${baseUrl}: ${error?.message || "unknown error"}`);
+    }
+  }
+
+  return {
+    list: [],
+    code: errors.length > 0 ? 502 : 206,
+    msg: errors[0] || "未找到相关资源",
+  };
+};
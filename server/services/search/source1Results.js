@@ -1,18 +1,11 @@
-const SERVICE_PATTERNS = [
-  { pattern: "pan.baidu.com", service: "BAIDU" },
-  { pattern: "pan.xunlei.com", service: "XUNLEI" },
-  { pattern: "pan.quark.cn", service: "QUARK" },
-  { pattern: "aliyundrive.com", service: "ALIYUN" },
-  { pattern: "alipan.com", service: "ALIYUN" },
-  { pattern: "pan.uc.cn", service: "UC" },
-  { pattern: "cloud.189.cn", service: "TIANYI" },
-  { pattern: "caiyun.139.com", service: "MOBILE" },
-  { pattern: "115.com", service: "115" },
-  { pattern: "mypikpak.com", service: "PIKPAK" },
-  { pattern: "123pan.com", service: "123" },
-  { pattern: "magnet:", service: "MAGNET" },
-  { pattern: "ed2k://", service: "ED2K" },
-];
+import {
+  canonicalizeShareLink,
+  detectLinkService,
+  extractLinkPassword,
+  normalizeLinkService,
+} from "../../../utils/linkServices.js";
+
+export { detectLinkService };
 
 const normalizeWhitespace = (value) =>
   String(value || "")
@@ -26,18 +19,6 @@ export function normalizeSource1SearchName(body) {
   return normalizedName || undefined;
 }
 
-export function detectLinkService(value) {
-  const normalizedValue = String(value || "").trim().toLowerCase();
-
-  for (const { pattern, service } of SERVICE_PATTERNS) {
-    if (normalizedValue.includes(pattern)) {
-      return service;
-    }
-  }
-
-  return "OTHER";
-}
-
 function normalizeSingleLink(link) {
   if (!link) {
     return null;
@@ -51,7 +32,7 @@ function normalizeSingleLink(link) {
 
     return {
       link: normalizedLink,
-      pwd: "",
+      pwd: extractLinkPassword(normalizedLink) || "",
       service: detectLinkService(normalizedLink),
     };
   }
@@ -61,10 +42,13 @@ function normalizeSingleLink(link) {
     return null;
   }
 
-  const normalizedPwd = String(link.pwd || link.password || "").trim();
-  const normalizedService = String(
-    link.service || detectLinkService(normalizedLink)
-  ).toUpperCase();
+  const normalizedPwd = String(
+    link.pwd || link.password || extractLinkPassword(normalizedLink) || ""
+  ).trim();
+  const normalizedService = detectLinkService(
+    normalizedLink,
+    normalizeLinkService(link.service)
+  );
 
   return {
     link: normalizedLink,
@@ -143,13 +127,11 @@ export function mergeSourceItems(primaryItems = [], secondaryItems = [], limit =
 
       const currentItem = mergedItems.get(normalizedName);
       const existingLinks = new Set(
-        currentItem.links.map(
-          (link) => `${link.service}|${link.link}|${String(link.pwd || "")}`
-        )
+        currentItem.links.map((link) => canonicalizeShareLink(link.link, link.service))
       );
 
       for (const link of normalizeLinks(item?.links)) {
-        const linkKey = `${link.service}|${link.link}|${String(link.pwd || "")}`;
+        const linkKey = canonicalizeShareLink(link.link, link.service);
         if (existingLinks.has(linkKey)) {
           continue;
         }
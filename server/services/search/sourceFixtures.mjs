@@ -0,0 +1,191 @@
+import { fetchDuoduoResults } from "./duoduoSource.mjs";
+import { createScraperFetchText, runScraperSpec } from "./scraperSpec.mjs";
+import { fetchSohaojuResults } from "./sohaojuSource.mjs";
+import { getScraperSourceSpec } from "./sourceSpecs/index.mjs";
+import { fetchViprayResults } from "./vipraySource.mjs";
+import { fetchXiaokupanResults } from "./xiaokupanSource.mjs";
+
+/**
+ * 搜索源夹具：保存上游的请求和响应，回放时用夹具内容替代网络，
+ * 让各搜索源的解析逻辑可以离线跑出结果并与快照比较。
+ *
+ * 夹具结构：{ source, keyword, origin, recordedAt?, exchanges: [{ request, response | error }], expected }
+ * origin 为 recorded 时是 record 命令访问真实上游录下的响应，带 recordedAt；
+ * 为 handwritten 时是按上游页面结构手写的响应，没有 recordedAt，上游改版后不会自动暴露差异。
+ */
+export const SOURCE_FIXTURE_ORIGINS = ["recorded", "handwritten"];
+
+// 只保留解析逻辑会读取的响应头，避免把无关的动态头写进夹具
+const RECORDED_RESPONSE_HEADERS = ["content-type", "set-cookie"];
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const runScraperSource = (sourceId) => (keyword, fetchImpl) =>
+  runScraperSpec(getScraperSourceSpec(sourceId), keyword, {
+    fetchText: createScraperFetchText(fetchImpl),
+  });
+
+// key 与 /api/sources/<id> 一致
+export const SOURCE_FIXTURE_RUNNERS = {
+  duoduo: (keyword, fetchImpl) => fetchDuoduoResults(keyword, { fetch: fetchImpl }),
+  jso: runScraperSource("jso"),
+  kkqws: runScraperSource("kkqws"),
+  sohaoju: (keyword, fetchImpl) => fetchSohaojuResults(keyword, { fetch: fetchImpl }),
+  vipray: (keyword, fetchImpl) => fetchViprayResults(keyword, { fetch: fetchImpl }),
+  xccji: runScraperSource("xccji"),
+  xiaokupan: (keyword, fetchImpl) => fetchXiaokupanResults(keyword, { fetch: fetchImpl }),
+};
+
+const getRunner = (sourceId) => {
+  const runner = SOURCE_FIXTURE_RUNNERS[sourceId];
+  if (!runner) {
+    throw new Error(`Unknown fixture source: ${sourceId}`);
+  }
+  return runner;
+};
+
+const toRequest = (url, init = {}) => ({
+  method: String(init.method || "GET").toUpperCase(),
+  url: String(url),
+  body: init.body === undefined || init.body === null ? "" : String(init.body),
+});
+
+const toRequestKey = (request) => `${request.method} ${request.url}\n${request.body}`;
+
+// 调用方中途取消时（比如 SSE 读够条数）保留已读到的部分
+const readStreamText = async (stream) => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch {
+    // 读取中断时返回已有内容
+  }
+
+  return text + decoder.decode();
+};
+
+/**
+ * 把结果转成可以写入 JSON 的快照，去掉值为 undefined 的字段
+ */
+export const toSourceFixtureSnapshot = (result) => JSON.parse(JSON.stringify(result));
+
+/**
+ * 包装一个 fetch 兼容函数，记录每次请求和响应；响应体用 tee 分流，调用方照常读取
+ */
+export function createRecordingFetch(fetchImpl = (...args) => fetch(...args)) {
+  const exchanges = [];
+  const pending = [];
+
+  const recordingFetch = async (url, init = {}) => {
+    const request = toRequest(url, init);
+    let response;
+
+    try {
+      response = await fetchImpl(url, init);
+    } catch (error) {
+      exchanges.push({ request, error: error?.message || "request failed" });
+      throw error;
+    }
+
+    const exchange = {
+      request,
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(
+          RECORDED_RESPONSE_HEADERS.map((name) => [name, response.headers.get(name)]).filter(
+            ([, value]) => value,
+          ),
+        ),
+        body: "",
+      },
+    };
+    exchanges.push(exchange);
+
+    if (!response.body) {
+      return response;
+    }
+
+    const [callerStream, recordStream] = response.body.tee();
+    pending.push(
+      readStreamText(recordStream).then((text) => {
+        exchange.response.body = text;
+      }),
+    );
+
+    return new Response(callerStream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  return {
+    fetch: recordingFetch,
+    async getExchanges() {
+      await Promise.allSettled(pending);
+      return exchanges;
+    },
+  };
+}
+
+/**
+ * 按 方法 + URL + 请求体 匹配夹具里的响应；同一请求录了多次时按顺序返回，用完后重复最后一次
+ */
+export function createReplayFetch(exchanges = []) {
+  const queues = new Map();
+  exchanges.forEach((exchange) => {
+    const key = toRequestKey(exchange.request);
+    queues.set(key, [...(queues.get(key) || []), exchange]);
+  });
+
+  return async (url, init = {}) => {
+    const request = toRequest(url, init);
+    const queue = queues.get(toRequestKey(request));
+    if (!queue?.length) {
+      throw new Error(`No recorded response for ${request.method} ${request.url}`);
+    }
+
+    const exchange = queue.length > 1 ? queue.shift() : queue[0];
+    if (exchange.error) {
+      throw new Error(exchange.error);
+    }
+
+    const { status = 200, headers = {}, body = "" } = exchange.response || {};
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, { status, headers });
+  };
+}
+
+/**
+ * 访问真实上游录制一份夹具，expected 为本次解析结果
+ */
+export async function recordSourceFixture(sourceId, keyword, { fetch: fetchImpl } = {}) {
+  const runner = getRunner(sourceId);
+  const recorder = createRecordingFetch(fetchImpl);
+  const result = await runner(keyword, recorder.fetch);
+
+  return {
+    source: sourceId,
+    keyword,
+    origin: "recorded",
+    recordedAt: new Date().toISOString(),
+    exchanges: await recorder.getExchanges(),
+    expected: toSourceFixtureSnapshot(result),
+  };
+}
+
+/**
+ * 用夹具里的响应离线执行搜索源，返回解析结果快照
+ */
+export async function replaySourceFixture(fixture) {
+  const runner = getRunner(fixture.source);
+  const result = await runner(fixture.keyword, createReplayFetch(fixture.exchanges));
+  return toSourceFixtureSnapshot(result);
+}
@@ -0,0 +1,474 @@
+const DEFAULT_KEY_PREFIX = "aipan:search-source-health";
+const SAMPLE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const SOURCE_API_PREFIX = "/api/sources/";
+
+export const SEARCH_SOURCE_OUTCOMES = ["success", "empty", "error"];
+
+export const CIRCUIT_STATES = {
+  closed: "closed",
+  open: "open",
+  halfOpen: "half_open",
+};
+
+const memorySamples = new Map();
+const memoryCircuits = new Map();
+let redisLoggedUnavailable = false;
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  return ["1", "true", "yes", "on"].includes(String(value).toLowerCase());
+};
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const roundRate = (value) => Math.round(value * 1000) / 1000;
+
+const logRedisUnavailable = (error) => {
+  if (redisLoggedUnavailable) {
+    return;
+  }
+
+  redisLoggedUnavailable = true;
+  console.warn("搜索源健康统计 Redis 不可用，降级为进程内统计:", error);
+};
+
+export function getSearchSourceHealthOptions(env = process.env) {
+  return {
+    enabled: parseBoolean(env.SEARCH_SOURCE_HEALTH_ENABLED, true),
+    windowSize: parseIntOption(env.SEARCH_SOURCE_HEALTH_WINDOW, 50, 10, 500),
+    minSamples: parseIntOption(env.SEARCH_SOURCE_CIRCUIT_MIN_SAMPLES, 10, 1, 500),
+    errorRateThreshold:
+      parseIntOption(env.SEARCH_SOURCE_CIRCUIT_ERROR_RATE, 60, 1, 100) / 100,
+    emptyRateThreshold:
+      parseIntOption(env.SEARCH_SOURCE_CIRCUIT_EMPTY_RATE, 95, 1, 100) / 100,
+    cooldownSeconds: parseIntOption(
+      env.SEARCH_SOURCE_CIRCUIT_COOLDOWN_SECONDS,
+      300,
+      30,
+      86400
+    ),
+    slowLatencyMs: parseIntOption(env.SEARCH_SOURCE_SLOW_MS, 10000, 1000, 60000),
+    keyPrefix:
+      String(env.SEARCH_SOURCE_HEALTH_PREFIX || "").trim() || DEFAULT_KEY_PREFIX,
+  };
+}
+
+/**
+ * "/api/sources/pansou" -> "pansou"，非搜索源路径返回空字符串
+ */
+export function getSearchSourceId(api) {
+  const path = String(api || "").split("?")[0].replace(/\/+$/, "");
+  if (!path.startsWith(SOURCE_API_PREFIX)) {
+    return "";
+  }
+
+  const sourceId = path.slice(SOURCE_API_PREFIX.length);
+  return /^[a-z0-9-]+$/i.test(sourceId) && sourceId !== "manifest" ? sourceId : "";
+}
+
+/**
+ * 把搜索源接口的返回体归类为一次成功、空结果或失败。
+ * 4xx（域名限制、限流、参数或内容审核）是调用方的问题，不计入搜索源健康度。
+ */
+export function classifySearchSourceResponse(body) {
+  const code = Number(body?.code);
+  const list = Array.isArray(body?.list) ? body.list : null;
+
+  if (Number.isFinite(code) && code >= 400 && code < 500) {
+    return null;
+  }
+
+  if (!list || (Number.isFinite(code) && code >= 500)) {
+    return {
+      outcome: "error",
+      resultCount: 0,
+      error: String(body?.msg || "搜索源返回异常").slice(0, 200),
+    };
+  }
+
+  return {
+    outcome: list.length > 0 ? "success" : "empty",
+    resultCount: list.length,
+  };
+}
+
+export function summarizeSearchSourceSamples(samples = [], options = {}) {
+  const slowLatencyMs = options.slowLatencyMs || 10000;
+  const requests = samples.length;
+  const counts = { success: 0, empty: 0, error: 0 };
+  const latencies = [];
+  let resultTotal = 0;
+  let lastError = null;
+  let lastSuccessAt = null;
+
+  for (const sample of samples) {
+    const outcome = SEARCH_SOURCE_OUTCOMES.includes(sample.outcome)
+      ? sample.outcome
+      : "error";
+    counts[outcome] += 1;
+
+    if (Number.isFinite(sample.latencyMs)) {
+      latencies.push(sample.latencyMs);
+    }
+    if (outcome !== "error") {
+      resultTotal += sample.resultCount || 0;
+    }
+    if (outcome === "error" && !lastError) {
+      lastError = { message: sample.error || "", at: sample.at || null };
+    }
+    if (outcome === "success" && (!lastSuccessAt || sample.at > lastSuccessAt)) {
+      lastSuccessAt = sample.at || null;
+    }
+  }
+
+  if (requests === 0) {
+    return {
+      requests,
+      ...counts,
+      errorRate: 0,
+      emptyRate: 0,
+      avgLatencyMs: null,
+      p95LatencyMs: null,
+      avgResultCount: null,
+      lastError,
+      lastSuccessAt,
+      score: null,
+    };
+  }
+
+  const sortedLatencies = [...latencies].sort((a, b) => a - b);
+  const avgLatencyMs = sortedLatencies.length
+    ? Math.round(sortedLatencies.reduce((sum, item) => sum + item, 0) / sortedLatencies.length)
+    : null;
+  const p95LatencyMs = sortedLatencies.length
+    ? sortedLatencies[Math.min(sortedLatencies.length - 1, Math.ceil(sortedLatencies.length * 0.95) - 1)]
+    : null;
+  const answered = counts.success + counts.empty;
+  const errorRate = counts.error / requests;
+  const emptyRate = answered > 0 ? counts.empty / answered : 0;
+  const latencyFactor =
+    avgLatencyMs === null ? 1 : Math.min(Math.max(1 - avgLatencyMs / slowLatencyMs, 0), 1);
+
+  return {
+    requests,
+    ...counts,
+    errorRate: roundRate(errorRate),
+    emptyRate: roundRate(emptyRate),
+    avgLatencyMs,
+    p95LatencyMs,
+    avgResultCount: answered > 0 ? Math.round((resultTotal / answered) * 10) / 10 : null,
+    lastError,
+    lastSuccessAt,
+    // 错误率权重最高，其次是空结果率和平均耗时
+    score: Math.round(
+      100 * (0.5 * (1 - errorRate) + 0.25 * (1 - emptyRate) + 0.25 * latencyFactor)
+    ),
+  };
+}
+
+const openCircuit = (circuit, now, options, reason) => ({
+  state: CIRCUIT_STATES.open,
+  openedAt: now,
+  openUntil: now + options.cooldownSeconds * 1000,
+  reason,
+  trips: (circuit?.trips || 0) + 1,
+});
+
+/**
+ * 熔断状态流转：closed -> open（失败率或空结果率超阈值）-> half_open（冷却结束）
+ * -> closed（探测成功）或重新 open（探测失败）
+ */
+export function resolveCircuitState(circuit, summary, context = {}) {
+  const now = context.now ?? Date.now();
+  const options = context.options || getSearchSourceHealthOptions({});
+  const current = circuit?.state ? circuit : { state: CIRCUIT_STATES.closed, trips: 0 };
+  const outcome = context.outcome;
+
+  if (current.state === CIRCUIT_STATES.open) {
+    if (now < current.openUntil) {
+      return current;
+    }
+
+    return resolveCircuitState(
+      { ...current, state: CIRCUIT_STATES.halfOpen },
+      summary,
+      context
+    );
+  }
+
+  if (current.state === CIRCUIT_STATES.halfOpen) {
+    if (!outcome) {
+      return current;
+    }
+
+    if (outcome === "success") {
+      return {
+        state: CIRCUIT_STATES.closed,
+        closedAt: now,
+        trips: current.trips || 0,
+        resetSamples: true,
+      };
+    }
+
+    return openCircuit(
+      current,
+      now,
+      options,
+      outcome === "error" ? "探测请求失败" : "探测请求无结果"
+    );
+  }
+
+  if (summary.requests < options.minSamples) {
+    return current;
+  }
+
+  if (summary.errorRate >= options.errorRateThreshold) {
+    return openCircuit(
+      current,
+      now,
+      options,
+      `失败率 ${Math.round(summary.errorRate * 100)}% 超过阈值`
+    );
+  }
+
+  if (summary.emptyRate >= options.emptyRateThreshold) {
+    return openCircuit(
+      current,
+      now,
+      options,
+      `空结果率 ${Math.round(summary.emptyRate * 100)}% 超过阈值`
+    );
+  }
+
+  return current;
+}
+
+export function isSearchSourceAvailable(circuit, now = Date.now()) {
+  if (!circuit || circuit.state !== CIRCUIT_STATES.open) {
+    return true;
+  }
+
+  return now >= circuit.openUntil;
+}
+
+/**
+ * 按熔断状态过滤静态搜索源配置，保持原有顺序
+ */
+export function buildSearchSourceManifest(endpoints = [], circuits = {}, now = Date.now()) {
+  const sources = [];
+  const disabled = [];
+
+  for (const endpoint of endpoints) {
+    const sourceId = getSearchSourceId(endpoint.api);
+    if (!sourceId) {
+      continue;
+    }
+
+    const circuit = circuits[sourceId];
+    if (isSearchSourceAvailable(circuit, now)) {
+      sources.push({ ...endpoint, id: sourceId });
+    } else {
+      disabled.push({
+        id: sourceId,
+        api: endpoint.api,
+        reason: circuit.reason || "",
+        retryAt: new Date(circuit.openUntil).toISOString(),
+      });
+    }
+  }
+
+  return { sources, disabled };
+}
+
+async function getRedisClient() {
+  const redisModule = await import("~/server/utils/redis");
+  return redisModule.getRedisClient();
+}
+
+const getSamplesKey = (options, sourceId) => `${options.keyPrefix}:samples:${sourceId}`;
+const getCircuitKey = (options, sourceId) => `${options.keyPrefix}:circuit:${sourceId}`;
+
+const parseJson = (value) => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+async function withRedis(callback, fallback) {
+  try {
+    const client = await getRedisClient();
+    if (client) {
+      return await callback(client);
+    }
+  } catch (error) {
+    logRedisUnavailable(error);
+  }
+
+  return fallback();
+}
+
+async function loadSamples(sourceId, options) {
+  return withRedis(
+    async (client) => {
+      const rows = await client.lRange(getSamplesKey(options, sourceId), 0, -1);
+      return rows.map(parseJson).filter(Boolean);
+    },
+    () => [...(memorySamples.get(sourceId) || [])]
+  );
+}
+
+async function pushSample(sourceId, sample, options) {
+  return withRedis(
+    async (client) => {
+      const key = getSamplesKey(options, sourceId);
+      await client
+        .multi()
+        .lPush(key, JSON.stringify(sample))
+        .lTrim(key, 0, options.windowSize - 1)
+        .expire(key, SAMPLE_TTL_SECONDS)
+        .exec();
+    },
+    () => {
+      const samples = [sample, ...(memorySamples.get(sourceId) || [])];
+      memorySamples.set(sourceId, samples.slice(0, options.windowSize));
+    }
+  );
+}
+
+async function clearSamples(sourceId, options) {
+  return withRedis(
+    (client) => client.del(getSamplesKey(options, sourceId)),
+    () => memorySamples.delete(sourceId)
+  );
+}
+
+async function loadCircuit(sourceId, options) {
+  return withRedis(
+    async (client) => parseJson(await client.get(getCircuitKey(options, sourceId))),
+    () => memoryCircuits.get(sourceId) || null
+  );
+}
+
+async function saveCircuit(sourceId, circuit, options) {
+  return withRedis(
+    (client) =>
+      client.set(getCircuitKey(options, sourceId), JSON.stringify(circuit), {
+        EX: SAMPLE_TTL_SECONDS,
+      }),
+    () => memoryCircuits.set(sourceId, circuit)
+  );
+}
+
+export async function recordSearchSourceOutcome(sourceId, result, overrides = {}) {
+  const options = { ...getSearchSourceHealthOptions(), ...overrides };
+  if (!options.enabled || !sourceId || !result) {
+    return null;
+  }
+
+  const now = overrides.now ?? Date.now();
+  const sample = {
+    at: now,
+    outcome: SEARCH_SOURCE_OUTCOMES.includes(result.outcome) ? result.outcome : "error",
+    latencyMs: Number.isFinite(result.latencyMs) ? Math.round(result.latencyMs) : null,
+    resultCount: result.resultCount || 0,
+    ...(result.error ? { error: String(result.error).slice(0, 200) } : {}),
+  };
+
+  await pushSample(sourceId, sample, options);
+  const [samples, circuit] = await Promise.all([
+    loadSamples(sourceId, options),
+    loadCircuit(sourceId, options),
+  ]);
+  const summary = summarizeSearchSourceSamples(samples, options);
+  const nextCircuit = resolveCircuitState(circuit, summary, {
+    now,
+    options,
+    outcome: sample.outcome,
+  });
+
+  if (nextCircuit.resetSamples) {
+    delete nextCircuit.resetSamples;
+    await clearSamples(sourceId, options);
+  }
+
+  if (JSON.stringify(nextCircuit) !== JSON.stringify(circuit)) {
+    if (nextCircuit.state !== circuit?.state) {
+      console.warn(`搜索源 ${sourceId} 熔断状态变更: ${circuit?.state || "closed"} -> ${nextCircuit.state}`);
+    }
+    await saveCircuit(sourceId, nextCircuit, options);
+  }
+
+  return { sample, summary, circuit: nextCircuit };
+}
+
+export async function getSearchSourceCircuits(sourceIds = []) {
+  const options = getSearchSourceHealthOptions();
+  if (!options.enabled) {
+    return {};
+  }
+
+  const entries = await Promise.all(
+    sourceIds.map(async (sourceId) => [sourceId, await loadCircuit(sourceId, options)])
+  );
+
+  return Object.fromEntries(entries.filter(([, circuit]) => circuit));
+}
+
+export async function getSearchSourceHealthReport(sourceIds = []) {
+  const options = getSearchSourceHealthOptions();
+  const now = Date.now();
+  const sources = await Promise.all(
+    sourceIds.map(async (sourceId) => {
+      const [samples, circuit] = await Promise.all([
+        loadSamples(sourceId, options),
+        loadCircuit(sourceId, options),
+      ]);
+
+      return {
+        id: sourceId,
+        api: `${SOURCE_API_PREFIX}${sourceId}`,
+        ...summarizeSearchSourceSamples(samples, options),
+        circuit: circuit || { state: CIRCUIT_STATES.closed, trips: 0 },
+        available: isSearchSourceAvailable(circuit, now),
+      };
+    })
+  );
+
+  return {
+    options: {
+      enabled: options.enabled,
+      windowSize: options.windowSize,
+      minSamples: options.minSamples,
+      errorRateThreshold: options.errorRateThreshold,
+      emptyRateThreshold: options.emptyRateThreshold,
+      cooldownSeconds: options.cooldownSeconds,
+    },
+    sources,
+  };
+}
+
+export async function resetSearchSourceHealth(sourceId) {
+  const options = getSearchSourceHealthOptions();
+  await clearSamples(sourceId, options);
+  await saveCircuit(
+    sourceId,
+    { state: CIRCUIT_STATES.closed, closedAt: Date.now(), trips: 0 },
+    options
+  );
+}
@@ -0,0 +1,12 @@
+import jso from "./jso.mjs";
+import kkqws from "./kkqws.mjs";
+import xccji from "./xccji.mjs";
+
+// 已迁移为声明式配置的搜索源，key 与 /api/sources/<id> 一致
+export const SCRAPER_SOURCE_SPECS = {
+  jso,
+  kkqws,
+  xccji,
+};
+
+export const getScraperSourceSpec = (id) => SCRAPER_SOURCE_SPECS[id] || null;
@@ -0,0 +1,35 @@
+// J-So 两个搜索接口返回相同结构，合并后按链接数量排序
+export default {
+  id: "jso",
+  label: "J-So",
+  timeoutMs: 20000,
+  headers: {
+    "Content-Type": "application/json",
+    Accept: "application/json,text/plain,*/*",
+    Origin: "https://j-so.com",
+    Referer: "https://j-so.com/",
+    "X-Requested-With": "XMLHttpRequest",
+  },
+  requests: [
+    {
+      url: "https://j-so.com/api/search111.php",
+      method: "POST",
+      body: { query: "{{keyword}}" },
+    },
+    {
+      url: "https://j-so.com/api/heapi111.php",
+      method: "POST",
+      body: { query: "{{keyword}}" },
+    },
+  ],
+  response: {
+    type: "json",
+    accept: { path: "$.code", equals: 200, message: "J-So upstream returned an error" },
+    items: "$.data[*]",
+    fields: {
+      title: "$.name",
+      link: "$.link",
+    },
+  },
+  sort: "linkCount",
+};
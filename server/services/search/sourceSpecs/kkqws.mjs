@@ -0,0 +1,30 @@
+const BASE_URL = "http://m.kkqws.com/v";
+
+const searchBody = () => ({
+  name: "{{keyword}}",
+  token: "{{token}}",
+});
+
+// 与 xccji 同一套接口，只是 token 固定；搜索接口优先，没有结果再查分类接口
+export default {
+  id: "kkqws",
+  label: "Source 2",
+  retries: 2,
+  strategy: "priority",
+  variables: {
+    token: "i69",
+  },
+  requests: [
+    { url: `${BASE_URL}/api/search`, body: searchBody(), priority: 1 },
+    { url: `${BASE_URL}/api/getJuzi`, body: searchBody(), priority: 2 },
+    { url: `${BASE_URL}/api/getXiaoyu`, body: searchBody(), priority: 2 },
+  ],
+  response: {
+    type: "json",
+    items: ["$.data.list[*]", "$.list[*]", "$[*]"],
+    fields: {
+      title: "$.question",
+      linkText: "$.answer",
+    },
+  },
+};
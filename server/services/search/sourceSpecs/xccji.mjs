@@ -0,0 +1,51 @@
+const BASE_URL = "http://xccji.top/v";
+
+const searchBody = (extra = {}) => ({
+  name: "{{keyword}}",
+  token: "{{token}}",
+  ...extra,
+});
+
+// 先取 token，再按优先级依次请求各个分类接口，前面的接口有结果就不再继续
+export default {
+  id: "xccji",
+  label: "Source 4",
+  timeoutMs: 12000,
+  retries: 2,
+  strategy: "priority",
+  auth: {
+    request: { url: `${BASE_URL}/api/gettoken`, method: "GET" },
+    extract: "$.token",
+    variable: "token",
+  },
+  requests: [
+    { url: `${BASE_URL}/api/getJuzi`, body: searchBody(), priority: 1 },
+    {
+      url: `${BASE_URL}/api/sortWeb`,
+      body: searchBody({
+        tabN: "movie_200317xlb",
+        topNo: 10,
+        whr: 'question like "%{{keyword}}%"',
+        orderBy: "isTop DESC, date_time",
+        orderType: "DESC",
+        keys: "question,answer,isTop,id",
+        searchKey: "{{keyword}}",
+      }),
+      priority: 1,
+    },
+    { url: `${BASE_URL}/api/getTop`, body: searchBody(), priority: 2 },
+    { url: `${BASE_URL}/api/getDyfx`, body: searchBody(), priority: 3 },
+    { url: `${BASE_URL}/api/getTTZJB`, body: searchBody(), priority: 3 },
+    { url: `${BASE_URL}/api/getGirls`, body: searchBody(), priority: 3 },
+    { url: `${BASE_URL}/api/getXiaoy`, body: searchBody(), priority: 3 },
+    { url: `${BASE_URL}/api/getGGang`, body: searchBody(), priority: 3 },
+  ],
+  response: {
+    type: "json",
+    items: ["$.data.list[*]", "$.list[*]", "$[*]"],
+    fields: {
+      title: "$.question",
+      linkText: "$.answer",
+    },
+  },
+};
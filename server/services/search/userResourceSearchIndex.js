@@ -1,3 +1,15 @@
+import { ensureAliasedIndex } from "./searchIndexAliases.js";
+import {
+  buildElasticsearchFacetRequest,
+  collectLinkServices,
+  parseElasticsearchFacets,
+} from "./searchFilters.js";
+import {
+  SEARCH_SYNONYM_ANALYZER,
+  buildSearchAnalysisSettings,
+  ensureSearchSynonymSet,
+} from "./searchSynonyms.js";
+import { normalizeSearchText } from "./searchTextNormalization.js";
 import {
   normalizeLinks,
   normalizeSourceName,
@@ -8,21 +20,23 @@ export const USER_RESOURCE_INDEX_MAPPINGS = {
   properties: {
     resourceId: { type: "integer" },
     name: { type: "text", analyzer: "ik_max_word", search_analyzer: "ik_smart" },
+    // 繁转简、季集归一化后的名称，查询时带同义词扩展
+    normalizedName: { type: "text", analyzer: "ik_max_word", search_analyzer: SEARCH_SYNONYM_ANALYZER },
     description: { type: "text", analyzer: "ik_max_word", search_analyzer: "ik_smart" },
     typeId: { type: "integer" },
     typeName: { type: "text", analyzer: "ik_max_word", search_analyzer: "ik_smart" },
     creatorId: { type: "integer" },
     creatorUsername: { type: "keyword" },
     links: { type: "object", enabled: false },
+    services: { type: "keyword" },
     createdAt: { type: "date" },
     updatedAt: { type: "date" },
   },
 };
 
-const USER_RESOURCE_SEARCH_FIELDS = ["name^5", "description^2", "typeName^2"];
+export const USER_RESOURCE_INDEX_SETTINGS = buildSearchAnalysisSettings();
 
-const getCountValue = (response) =>
-  response?.count ?? response?.body?.count ?? 0;
+const USER_RESOURCE_SEARCH_FIELDS = ["name^5", "normalizedName^5", "description^2", "typeName^2"];
 
 const getTotalValue = (response) => {
   const total = response?.hits?.total ?? response?.body?.hits?.total;
@@ -36,6 +50,19 @@ const getTotalValue = (response) => {
 const getHits = (response) =>
   response?.hits?.hits ?? response?.body?.hits?.hits ?? [];
 
+const getHitDocuments = (response) =>
+  getHits(response)
+    .map((hit) => {
+      const doc = hit?._source;
+      if (!doc) return null;
+      const highlightedName = hit?.highlight?.name?.[0] || null;
+      if (highlightedName) {
+        doc.highlightedName = highlightedName;
+      }
+      return doc;
+    })
+    .filter(Boolean);
+
 const indexExists = async (client, indexName) => {
   const existsResponse = await client.indices.exists({ index: indexName });
   if (typeof existsResponse === "boolean") {
@@ -50,15 +77,20 @@ export function buildUserResourceDocumentId(resourceId) {
 }
 
 export function buildUserResourceIndexDocument(resource) {
+  const links = normalizeLinks(resource.links);
+  const name = normalizeSourceName(resource.name);
+
   return {
     resourceId: resource.id,
-    name: normalizeSourceName(resource.name),
+    name,
+    normalizedName: normalizeSearchText(name),
     description: resource.description || "",
     typeId: resource.typeId,
     typeName: resource.type?.name || "",
     creatorId: resource.creatorId,
     creatorUsername: resource.creator?.username || "",
-    links: normalizeLinks(resource.links),
+    links,
+    services: collectLinkServices(links),
     createdAt: new Date(resource.createdAt).toISOString(),
     updatedAt: new Date(resource.updatedAt).toISOString(),
   };
@@ -82,13 +114,25 @@ export function buildUserResourceSearchQuery(keyword, size = 100) {
   };
 }
 
+/**
+ * 带筛选的搜索：筛选走 post_filter，同时返回各分面的聚合计数
+ */
+export function buildUserResourceFacetedSearchQuery(keyword, size = 100, filters = {}, now = new Date()) {
+  return {
+    ...buildUserResourceSearchQuery(keyword, size),
+    ...buildElasticsearchFacetRequest(filters, now),
+  };
+}
+
 export function buildUserResourceStrictKeywordQuery(keyword) {
+  const query = normalizeSearchText(keyword);
+
   return {
     bool: {
       should: [
         {
           multi_match: {
-            query: keyword,
+            query,
             fields: USER_RESOURCE_SEARCH_FIELDS,
             type: "phrase",
             boost: 8,
@@ -96,7 +140,7 @@ export function buildUserResourceStrictKeywordQuery(keyword) {
         },
         {
           multi_match: {
-            query: keyword,
+            query,
             fields: USER_RESOURCE_SEARCH_FIELDS,
             operator: "and",
           },
@@ -131,16 +175,8 @@ export function buildUserResourceAdminListQuery(options = {}) {
 }
 
 export async function ensureUserResourceIndex(client, indexName) {
-  if (await indexExists(client, indexName)) {
-    return false;
-  }
-
-  await client.indices.create({
-    index: indexName,
-    mappings: USER_RESOURCE_INDEX_MAPPINGS,
-  });
-
-  return true;
+  await ensureSearchSynonymSet(client);
+  return ensureAliasedIndex(client, indexName, USER_RESOURCE_INDEX_MAPPINGS, USER_RESOURCE_INDEX_SETTINGS);
 }
 
 export async function upsertUserResourceDocument(client, indexName, resource) {
@@ -194,17 +230,7 @@ export async function searchUserResourceDocuments(
     ...buildUserResourceSearchQuery(keyword, size),
   });
 
-  return getHits(response)
-    .map((hit) => {
-      const doc = hit?._source;
-      if (!doc) return null;
-      const highlightedName = hit?.highlight?.name?.[0] || null;
-      if (highlightedName) {
-        doc.highlightedName = highlightedName;
-      }
-      return doc;
-    })
-    .filter(Boolean);
+  return getHitDocuments(response);
 }
 
 export async function listUserResourceDocuments(
@@ -236,54 +262,26 @@ export async function listUserResourceDocuments(
   };
 }
 
-export async function reindexUserResourceDocuments(
+export async function searchUserResourceDocumentsFaceted(
   client,
   indexName,
-  resources,
-  options = {}
+  keyword,
+  { size = 100, filters = {}, now = new Date() } = {}
 ) {
-  const reset = Boolean(options.reset);
-  let deleted = 0;
-
-  if (reset && (await indexExists(client, indexName))) {
-    const countResponse = await client.count({ index: indexName });
-    deleted = getCountValue(countResponse);
-    await client.indices.delete({ index: indexName });
-  }
-
-  await ensureUserResourceIndex(client, indexName);
-
-  if (!resources.length) {
+  if (!(await indexExists(client, indexName))) {
     return {
-      indexed: 0,
-      deleted,
-      failed: 0,
-      total: 0,
+      documents: [],
+      facets: parseElasticsearchFacets(null),
     };
   }
 
-  const operations = resources.flatMap((resource) => [
-    {
-      index: {
-        _index: indexName,
-        _id: buildUserResourceDocumentId(resource.id),
-      },
-    },
-    buildUserResourceIndexDocument(resource),
-  ]);
-
-  const response = await client.bulk({
-    refresh: "wait_for",
-    operations,
+  const response = await client.search({
+    index: indexName,
+    ...buildUserResourceFacetedSearchQuery(keyword, size, filters, now),
   });
 
-  const items = response?.items ?? response?.body?.items ?? [];
-  const failed = items.filter((item) => item.index?.error).length;
-
   return {
-    indexed: resources.length - failed,
-    deleted,
-    failed,
-    total: resources.length,
+    documents: getHitDocuments(response),
+    facets: parseElasticsearchFacets(response?.aggregations ?? response?.body?.aggregations),
   };
 }
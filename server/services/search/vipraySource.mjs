@@ -0,0 +1,95 @@
+import * as cheerio from "cheerio";
+
+import {
+  detectLinkService,
+  detectLinkServiceByHint,
+  extractLinkPassword,
+} from "../../../utils/linkServices.js";
+
+const SEARCH_URL = "http://transition.vipray.cn/index.php?m=vod-search";
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
+const REQUEST_TIMEOUT_MS = 15000;
+
+const normalizeLink = (url) =>
+  url.replace(/&amp;/g, "&").trim().replace(/[.,，。；;]+$/, "");
+
+const normalizeText = (value) => value.replace(/\s+/g, " ").trim();
+
+/**
+ * 解析 vipray 搜索结果页：每个 .show3 是一条资源，.pan2 下的链接文字用来辅助识别网盘类型
+ */
+export const parseViprayResults = (html) => {
+  const $ = cheerio.load(html);
+  const list = [];
+
+  $(".show3").each((_, element) => {
+    const title = normalizeText($(element).find("p").first().text());
+    if (!title) {
+      return;
+    }
+
+    const links = [];
+    $(element)
+      .find(".pan2 a")
+      .each((__, anchor) => {
+        const href = normalizeLink($(anchor).attr("href") || "");
+        const linkText = normalizeText($(anchor).text());
+
+        if (!href) {
+          return;
+        }
+
+        const link = {
+          service: detectLinkService(href, detectLinkServiceByHint(linkText)),
+          link: href,
+          pwd: extractLinkPassword(href, linkText),
+        };
+
+        const duplicate = links.some(
+          (existing) =>
+            existing.service === link.service &&
+            existing.link === link.link &&
+            existing.pwd === link.pwd,
+        );
+
+        if (!duplicate) {
+          links.push(link);
+        }
+      });
+
+    if (links.length > 0) {
+      list.push({
+        name: title,
+        links,
+      });
+    }
+  });
+
+  return {
+    list,
+    code: list.length > 0 ? 200 : 206,
+    msg: list.length > 0 ? "success" : "未找到相关资源",
+  };
+};
+
+export const fetchViprayResults = async (searchTerm, { fetch: fetchImpl = fetch } = {}) => {
+  const url = new URL(SEARCH_URL);
+  url.searchParams.set("wd", searchTerm);
+
+  const response = await fetchImpl(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Referer: "http://transition.vipray.cn/",
+      "User-Agent": USER_AGENT,
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Vipray upstream returned ${response.status}`);
+  }
+
+  return parseViprayResults(await response.text());
+};
@@ -0,0 +1,152 @@
+import {
+  buildShareLinkRegex,
+  detectLinkService,
+  extractLinkPassword,
+} from "../../../utils/linkServices.js";
+
+const SEARCH_BASE_URL = "https://xiaokupan.com/s";
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36";
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_RESULTS = 100;
+
+// 页面把结构化数据以转义后的 JSON 字符串嵌在 Next.js 的 flight 数据里
+const DIGITAL_DOCUMENT_REGEX =
+  /\\"@type\\":\\"DigitalDocument\\",\\"name\\":\\"((?:\\\\.|[^"\\])*)\\",\\"description\\":\\"((?:\\\\.|[^"\\])*)\\",\\"url\\":\\"((?:\\\\.|[^"\\])*)\\",\\"dateModified\\":\\"((?:\\\\.|[^"\\])*)\\"/g;
+
+const SHARE_LINK_REGEX = buildShareLinkRegex();
+
+const DESCRIPTION_SERVICE_MAPPING = {
+  baidu: "BAIDU",
+  xunlei: "XUNLEI",
+  quark: "QUARK",
+  aliyun: "ALIYUN",
+  uc: "UC",
+  tianyi: "TIANYI",
+  mobile: "MOBILE",
+  115: "115",
+  pikpak: "PIKPAK",
+  123: "123",
+  magnet: "MAGNET",
+  ed2k: "ED2K",
+};
+
+const decodeJsonFragment = (value) => {
+  try {
+    return JSON.parse(`"${value}"`);
+  } catch {
+    return value
+      .replace(/\\u0026/g, "&")
+      .replace(/\\"/g, '"')
+      .replace(/\\\\/g, "\\");
+  }
+};
+
+const normalizeWhitespace = (value) => value.replace(/\s+/g, " ").trim();
+
+const detectService = (url, description) => {
+  const service = detectLinkService(url);
+  if (service !== "OTHER") {
+    return service;
+  }
+
+  const descriptionLower = description.toLowerCase();
+  const mappingEntry = Object.entries(DESCRIPTION_SERVICE_MAPPING).find(
+    ([provider]) =>
+      descriptionLower.includes(`来自${provider}网盘`) || descriptionLower.includes(`${provider}网盘`),
+  );
+
+  return mappingEntry?.[1] || "OTHER";
+};
+
+const decodeUrl = (rawUrl) => decodeJsonFragment(rawUrl).replace(/&amp;/g, "&").trim();
+
+const normalizeLink = (rawUrl) => {
+  const decodedUrl = decodeUrl(rawUrl);
+  const matchedUrl = decodedUrl.match(SHARE_LINK_REGEX)?.[0];
+  return (matchedUrl || decodedUrl).replace(/#$/, "");
+};
+
+export const extractXiaokupanDocuments = (html) => {
+  const documents = [];
+  DIGITAL_DOCUMENT_REGEX.lastIndex = 0;
+  let match;
+
+  while ((match = DIGITAL_DOCUMENT_REGEX.exec(html)) !== null) {
+    const name = normalizeWhitespace(decodeJsonFragment(match[1] || ""));
+    const description = normalizeWhitespace(decodeJsonFragment(match[2] || ""));
+    const url = decodeJsonFragment(match[3] || "").trim();
+
+    if (!name || !url) {
+      continue;
+    }
+
+    documents.push({
+      name,
+      description,
+      url,
+    });
+  }
+
+  return documents;
+};
+
+/**
+ * 按标题合并同名资源的链接，描述里的“来自 xx 网盘”用来兜底识别网盘类型
+ */
+export const parseXiaokupanResults = (html) => {
+  const grouped = new Map();
+
+  extractXiaokupanDocuments(html).forEach((document) => {
+    const link = normalizeLink(document.url);
+    if (!link) {
+      return;
+    }
+
+    const decodedUrl = decodeUrl(document.url);
+    const service = detectService(link, document.description);
+    const pwd = extractLinkPassword(decodedUrl, decodedUrl);
+    const links = grouped.get(document.name) || [];
+
+    const duplicate = links.some((existing) => existing.link === link && existing.pwd === pwd);
+    if (!duplicate) {
+      links.push({
+        service,
+        link,
+        pwd,
+      });
+    }
+
+    grouped.set(document.name, links);
+  });
+
+  const list = Array.from(grouped.entries())
+    .map(([name, links]) => ({ name, links }))
+    .filter((item) => item.links.length > 0)
+    .slice(0, MAX_RESULTS);
+
+  return {
+    list,
+    code: list.length > 0 ? 200 : 206,
+    msg: list.length > 0 ? "success" : "未找到相关资源",
+  };
+};
+
+export const fetchXiaokupanResults = async (searchTerm, { fetch: fetchImpl = fetch } = {}) => {
+  const response = await fetchImpl(`${SEARCH_BASE_URL}/${encodeURIComponent(searchTerm)}`, {
+    method: "GET",
+    headers: {
+      "User-Agent": USER_AGENT,
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+      "Accept-Language": "zh-CN,zh;q=0.9,en;q=0.8",
+      Referer: "https://xiaokupan.com/",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Xiaokupan upstream returned ${response.status}`);
+  }
+
+  return parseXiaokupanResults(await response.text());
+};
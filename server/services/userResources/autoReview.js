@@ -1,23 +1,15 @@
 import { normalizeLinks, normalizeSourceName } from "../search/source1Results.js";
+import {
+  DIRECT_PROTOCOL_SERVICES,
+  canonicalizeShareLink,
+  getLinkServiceHosts,
+  isShareLink,
+} from "../../../utils/linkServices.js";
 import {
   evaluateContentModeration,
   MODERATION_CONTEXTS,
 } from "../moderation/policy.mjs";
 
-const SUPPORTED_HTTP_SERVICE_HOSTS = {
-  BAIDU: ["pan.baidu.com"],
-  XUNLEI: ["pan.xunlei.com"],
-  QUARK: ["pan.quark.cn"],
-  ALIYUN: ["aliyundrive.com", "alipan.com"],
-  UC: ["pan.uc.cn"],
-  TIANYI: ["cloud.189.cn"],
-  MOBILE: ["caiyun.139.com"],
-  "115": ["115.com"],
-  PIKPAK: ["mypikpak.com"],
-  "123": ["123pan.com"],
-};
-
-const NON_HTTP_SERVICES = new Set(["MAGNET", "ED2K"]);
 const UNSAFE_HOSTS = new Set(["localhost", "localhost.localdomain"]);
 const INVALID_SHARE_PATTERNS = [
   "分享已失效",
@@ -39,11 +31,7 @@ const INVALID_SHARE_PATTERNS = [
 const normalizeComparableName = (value) =>
   normalizeSourceName(value).toLowerCase();
 
-const normalizeComparableLink = (value) =>
-  String(value || "")
-    .trim()
-    .replace(/\/+$/, "")
-    .toLowerCase();
+const normalizeComparableLink = (value) => canonicalizeShareLink(value);
 
 const normalizeHost = (hostname) =>
   String(hostname || "")
@@ -149,7 +137,7 @@ export function buildUserResourceAuditContext({
 }
 
 export function isSafeShareUrl(link) {
-  if (NON_HTTP_SERVICES.has(link.service)) {
+  if (DIRECT_PROTOCOL_SERVICES.has(link.service)) {
     return true;
   }
 
@@ -174,11 +162,11 @@ export function isSafeShareUrl(link) {
     return false;
   }
 
-  return hostMatches(hostname, SUPPORTED_HTTP_SERVICE_HOSTS[link.service]);
+  return hostMatches(hostname, getLinkServiceHosts(link.service));
 }
 
 export async function checkShareLinkAvailability(link, options = {}) {
-  if (NON_HTTP_SERVICES.has(link.service)) {
+  if (DIRECT_PROTOCOL_SERVICES.has(link.service)) {
     return {
       status: "skipped",
       reachable: null,
@@ -342,10 +330,11 @@ export async function evaluateUserResourceForAutoReview(
   for (const link of links) {
     const linkKey = normalizeComparableLink(link.link);
     const duplicateLinks = getDuplicateEntries(context.links, linkKey, resource);
-    const serviceHosts = SUPPORTED_HTTP_SERVICE_HOSTS[link.service];
     const supported =
-      NON_HTTP_SERVICES.has(link.service) || Boolean(serviceHosts?.length);
-    const safe = supported && isSafeShareUrl(link);
+      DIRECT_PROTOCOL_SERVICES.has(link.service) ||
+      getLinkServiceHosts(link.service).length > 0;
+    const safe =
+      supported && isSafeShareUrl(link) && isShareLink(link.link, link.service);
 
     linkChecks.push({
       link: link.link,
@@ -127,10 +127,9 @@ export async function evaluatePendingUserResource(resource, options = {}) {
 
 export async function autoReviewUserResource(resourceId, options = {}) {
   const { default: prisma } = await import("~/lib/prisma");
-  const {
-    removePublishedUserResource,
-    syncPublishedUserResource,
-  } = await import("~/server/services/search/elasticsearchClient.js");
+  const { enqueueSearchSync } = await import(
+    "~/server/services/search/searchSyncOutbox.js"
+  );
 
   const runtimeOptions = {
     ...getUserResourceAutoReviewOptions(),
@@ -181,24 +180,15 @@ export async function autoReviewUserResource(resourceId, options = {}) {
 
   try {
     if (action === "approve") {
-      const updatedResource = await prisma.userResource.update({
-        where: { id: resource.id },
-        data: { status: "published" },
-        include: includeUserResourceReviewRelations,
-      });
-
-      try {
-        await syncPublishedUserResource(updatedResource);
-      } catch (syncError) {
-        await prisma.userResource.update({
+      resource = await prisma.$transaction(async (tx) => {
+        const updatedResource = await tx.userResource.update({
           where: { id: resource.id },
-          data: { status: "pending" },
+          data: { status: "published" },
+          include: includeUserResourceReviewRelations,
         });
-        await removePublishedUserResource(resource.id).catch(() => {});
-        throw syncError;
-      }
-
-      resource = updatedResource;
+        await enqueueSearchSync(tx, { target: "user-resources", entityId: resource.id });
+        return updatedResource;
+      });
     } else if (action === "reject") {
       resource = await prisma.userResource.update({
         where: { id: resource.id },
@@ -0,0 +1,226 @@
+import { normalizeLinks } from "../search/source1Results.js";
+import {
+  canonicalizeShareLink,
+  getLinkServiceName,
+} from "../../../utils/linkServices.js";
+
+export const LINK_HEALTH_TARGET_TYPES = ["resource", "userResource"];
+
+export const LINK_HEALTH_STATUSES = [
+  "healthy",
+  "failing",
+  "dead",
+  "unknown",
+  "skipped",
+];
+
+// 用户投稿因链接失效被自动下架后的状态，区别于人工拒绝，链接恢复后可自动重新上架
+export const USER_RESOURCE_LINK_DEAD_STATUS = "link_dead";
+
+export const LINK_HEALTH_STATUS_LABELS = {
+  healthy: "正常",
+  failing: "疑似失效",
+  dead: "已失效",
+  unknown: "待确认",
+  skipped: "不检查",
+};
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  return ["1", "true", "yes", "on"].includes(String(value).toLowerCase());
+};
+
+const parseIntOption = (value, fallback, min, max) => {
+  const parsed = Number.parseInt(String(value || ""), 10);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(parsed, min), max);
+};
+
+const truncate = (value, maxLength) => {
+  const text = String(value || "").trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+export function getLinkHealthOptions(env = process.env) {
+  return {
+    enabled: parseBoolean(env.LINK_HEALTH_ENABLED, true),
+    intervalMinutes: parseIntOption(env.LINK_HEALTH_INTERVAL_MINUTES, 30, 5, 1440),
+    batchSize: parseIntOption(env.LINK_HEALTH_BATCH_SIZE, 40, 1, 500),
+    maxLinksPerResource: parseIntOption(env.LINK_HEALTH_MAX_LINKS, 5, 1, 20),
+    failureThreshold: parseIntOption(env.LINK_HEALTH_FAILURE_THRESHOLD, 3, 1, 20),
+    timeoutMs: parseIntOption(env.LINK_HEALTH_TIMEOUT_MS, 8000, 1000, 30000),
+    autoUnpublish: parseBoolean(env.LINK_HEALTH_AUTO_UNPUBLISH, true),
+    notifyUser: parseBoolean(env.LINK_HEALTH_NOTIFY_USER, true),
+  };
+}
+
+/**
+ * 按 id 游标轮转：本轮取到的数量不足一批时说明已经扫到末尾，下一轮从头开始
+ */
+export function getNextRotationCursor(rows = [], batchSize) {
+  if (!rows.length || rows.length < batchSize) {
+    return 0;
+  }
+
+  return rows[rows.length - 1].id;
+}
+
+/**
+ * 提取资源中需要检查的链接，同一资源内按规范化链接去重
+ */
+export function collectCheckableLinks(rawLinks, maxLinks = 5) {
+  const seen = new Set();
+  const links = [];
+
+  for (const link of normalizeLinks(rawLinks)) {
+    const canonicalLink = canonicalizeShareLink(link.link, link.service);
+    if (!canonicalLink || seen.has(canonicalLink)) {
+      continue;
+    }
+
+    seen.add(canonicalLink);
+    links.push({
+      ...link,
+      canonicalLink,
+    });
+
+    if (links.length >= maxLinks) {
+      break;
+    }
+  }
+
+  return links;
+}
+
+/**
+ * 根据一次检查结果推进单条链接的健康状态。
+ * 只有明确失效（invalid）才累计连续失败次数；超时、403 等无法确认的情况保留原计数。
+ */
+export function computeNextLinkHealth(previous, check, options = {}) {
+  const now = options.now || new Date();
+  const failureThreshold = options.failureThreshold || 3;
+  const previousFailures = previous?.consecutiveFailures || 0;
+  const base = {
+    checkCount: (previous?.checkCount || 0) + 1,
+    lastCheckedAt: now,
+    lastStatusCode: Number.isInteger(check?.statusCode) ? check.statusCode : null,
+    lastOkAt: previous?.lastOkAt || null,
+    unpublishedAt: previous?.unpublishedAt || null,
+  };
+
+  if (check?.status === "reachable") {
+    return {
+      ...base,
+      status: "healthy",
+      consecutiveFailures: 0,
+      lastError: null,
+      lastOkAt: now,
+      unpublishedAt: null,
+    };
+  }
+
+  if (check?.status === "skipped") {
+    return {
+      ...base,
+      status: "skipped",
+      consecutiveFailures: 0,
+      lastError: null,
+    };
+  }
+
+  if (check?.status === "invalid") {
+    const consecutiveFailures = previousFailures + 1;
+    return {
+      ...base,
+      status: consecutiveFailures >= failureThreshold ? "dead" : "failing",
+      consecutiveFailures,
+      lastError: truncate(check.message || "链接已失效", 255),
+    };
+  }
+
+  return {
+    ...base,
+    status: previousFailures >= failureThreshold ? "dead" : "unknown",
+    consecutiveFailures: previousFailures,
+    lastError: truncate(check?.message || "链接检查失败", 255),
+  };
+}
+
+/**
+ * 资源内所有可检查的链接都已失效时才下架，仍有一条可用链接就保留
+ */
+export function isResourceLinkSetDead(healthRecords = []) {
+  const checkable = healthRecords.filter((record) => record.status !== "skipped");
+  return checkable.length > 0 && checkable.every((record) => record.status === "dead");
+}
+
+export function buildLinkHealthNotification(resource, deadLinks = []) {
+  const name = truncate(resource?.name || "未命名资源", 80);
+  const services = [
+    ...new Set(deadLinks.map((link) => getLinkServiceName(link.service))),
+  ].join("、");
+  const reason = deadLinks[0]?.lastError || "分享链接已失效";
+
+  return {
+    type: "resource_link_dead",
+    title: "资源投稿链接已失效",
+    content: `你发布的资源「${name}」的${services || "分享"}链接多次检查均无法访问（${reason}），已从站内搜索下架。链接恢复后会自动重新上架，也可以更新链接后重新提交审核。`,
+    relatedId: resource?.id ?? null,
+  };
+}
+
+/**
+ * 汇总 groupBy(service, status) 的结果，生成按网盘分布的健康统计
+ */
+export function summarizeLinkHealthByService(groups = []) {
+  const services = new Map();
+  const totals = Object.fromEntries(LINK_HEALTH_STATUSES.map((status) => [status, 0]));
+
+  for (const group of groups) {
+    const service = group.service || "OTHER";
+    const status = LINK_HEALTH_STATUSES.includes(group.status) ? group.status : "unknown";
+    const count = group._count?._all ?? group.count ?? 0;
+
+    if (!services.has(service)) {
+      services.set(service, {
+        service,
+        serviceName: getLinkServiceName(service),
+        total: 0,
+        ...Object.fromEntries(LINK_HEALTH_STATUSES.map((item) => [item, 0])),
+      });
+    }
+
+    const entry = services.get(service);
+    entry[status] += count;
+    entry.total += count;
+    totals[status] += count;
+  }
+
+  const rows = [...services.values()]
+    .map((entry) => {
+      const checked = entry.total - entry.skipped;
+      return {
+        ...entry,
+        healthyRate: checked > 0 ? Math.round((entry.healthy / checked) * 1000) / 10 : null,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    services: rows,
+    totals: {
+      ...totals,
+      total: rows.reduce((sum, entry) => sum + entry.total, 0),
+    },
+  };
+}
@@ -0,0 +1,375 @@
+import { checkShareLinkAvailability } from "./autoReview.js";
+import {
+  buildLinkHealthNotification,
+  collectCheckableLinks,
+  computeNextLinkHealth,
+  getLinkHealthOptions,
+  getNextRotationCursor,
+  isResourceLinkSetDead,
+  summarizeLinkHealthByService,
+  USER_RESOURCE_LINK_DEAD_STATUS,
+} from "./linkHealth.js";
+
+// 每种资源来源各自维护一个 id 游标，进程重启后从头开始轮转
+const rotationCursors = new Map();
+let runningCheck = null;
+
+const TARGET_DELEGATES = {
+  resource: "resource",
+  userResource: "userResource",
+};
+
+// 已因链接失效下架的投稿也继续检查，链接恢复后自动重新上架
+const getTargetWhere = (targetType) =>
+  targetType === "userResource"
+    ? { status: { in: ["published", USER_RESOURCE_LINK_DEAD_STATUS] } }
+    : {};
+
+const getTargetQuery = (targetType) =>
+  targetType === "userResource"
+    ? {
+        select: {
+          id: true,
+          name: true,
+          links: true,
+          status: true,
+          creatorId: true,
+        },
+      }
+    : {
+        // 恢复索引时需要完整的网盘资源文档
+        include: {
+          creator: { select: { username: true } },
+          type: { select: { name: true } },
+        },
+      };
+
+export async function checkTargetLinkHealth(targetType, target, options = {}) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const runtimeOptions = {
+    ...getLinkHealthOptions(),
+    ...options,
+  };
+  const linkChecker = runtimeOptions.linkChecker || checkShareLinkAvailability;
+  const links = collectCheckableLinks(target.links, runtimeOptions.maxLinksPerResource);
+  const existingRecords = await prisma.resourceLinkHealth.findMany({
+    where: { targetType, targetId: target.id },
+  });
+  const existingByLink = new Map(
+    existingRecords.map((record) => [record.canonicalLink, record])
+  );
+  const records = [];
+
+  for (const link of links) {
+    const previous = existingByLink.get(link.canonicalLink);
+    const check = await linkChecker(link, { timeoutMs: runtimeOptions.timeoutMs });
+    const nextState = computeNextLinkHealth(previous, check, {
+      failureThreshold: runtimeOptions.failureThreshold,
+    });
+
+    const record = await prisma.resourceLinkHealth.upsert({
+      where: {
+        targetType_targetId_canonicalLink: {
+          targetType,
+          targetId: target.id,
+          canonicalLink: link.canonicalLink,
+        },
+      },
+      create: {
+        targetType,
+        targetId: target.id,
+        link: link.link,
+        canonicalLink: link.canonicalLink,
+        service: link.service,
+        ...nextState,
+      },
+      update: {
+        link: link.link,
+        service: link.service,
+        ...nextState,
+      },
+    });
+
+    records.push(record);
+  }
+
+  // 资源编辑后旧链接不再存在，清理掉避免影响统计
+  const currentLinks = new Set(links.map((link) => link.canonicalLink));
+  const staleIds = existingRecords
+    .filter((record) => !currentLinks.has(record.canonicalLink))
+    .map((record) => record.id);
+  if (staleIds.length > 0) {
+    await prisma.resourceLinkHealth.deleteMany({
+      where: { id: { in: staleIds } },
+    });
+  }
+
+  return records;
+}
+
+export async function unpublishDeadTarget(targetType, target, records, options = {}) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const { enqueueSearchSync } = await import("~/server/services/search/searchSyncOutbox.js");
+  const deadRecords = records.filter((record) => record.status === "dead");
+  const result = {
+    targetType,
+    targetId: target.id,
+    name: target.name,
+    unpublished: false,
+    notified: false,
+  };
+
+  const unpublished = await prisma.$transaction(async (tx) => {
+    if (targetType === "userResource") {
+      const updated = await tx.userResource.updateMany({
+        where: { id: target.id, status: "published" },
+        data: { status: USER_RESOURCE_LINK_DEAD_STATUS },
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await enqueueSearchSync(tx, { target: "user-resources", entityId: target.id });
+    } else {
+      // 网盘管理中的资源没有发布状态，只移出搜索索引，保留数据库记录供管理员修复
+      await enqueueSearchSync(tx, { target: "resources", entityId: target.id, action: "delete" });
+    }
+
+    await tx.resourceLinkHealth.updateMany({
+      where: { id: { in: deadRecords.map((record) => record.id) } },
+      data: { unpublishedAt: new Date() },
+    });
+    return true;
+  });
+  if (!unpublished) {
+    return result;
+  }
+  result.unpublished = true;
+
+  if (targetType === "userResource" && options.notifyUser !== false && target.creatorId) {
+    try {
+      const payload = buildLinkHealthNotification(target, deadRecords);
+      await prisma.notification.create({
+        data: {
+          userId: target.creatorId,
+          type: payload.type,
+          title: payload.title,
+          content: payload.content,
+          relatedId: payload.relatedId,
+        },
+      });
+      result.notified = true;
+    } catch (error) {
+      console.error("发送资源链接失效通知失败:", {
+        resourceId: target.id,
+        error,
+      });
+    }
+  }
+
+  return result;
+}
+
+async function restoreRecoveredResource(resource) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const { enqueueSearchSync } = await import("~/server/services/search/searchSyncOutbox.js");
+
+  await prisma.$transaction(async (tx) => {
+    await tx.resourceLinkHealth.updateMany({
+      where: { targetType: "resource", targetId: resource.id },
+      data: { unpublishedAt: null },
+    });
+    await enqueueSearchSync(tx, { target: "resources", entityId: resource.id });
+  });
+
+  return true;
+}
+
+async function restoreRecoveredUserResource(userResource) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const { enqueueSearchSync } = await import("~/server/services/search/searchSyncOutbox.js");
+
+  return prisma.$transaction(async (tx) => {
+    // 只恢复仍处于链接失效状态的投稿，期间被用户修改或管理员处理过的保持原状
+    const updated = await tx.userResource.updateMany({
+      where: { id: userResource.id, status: USER_RESOURCE_LINK_DEAD_STATUS },
+      data: { status: "published" },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+
+    await tx.resourceLinkHealth.updateMany({
+      where: { targetType: "userResource", targetId: userResource.id },
+      data: { unpublishedAt: null },
+    });
+    await enqueueSearchSync(tx, { target: "user-resources", entityId: userResource.id });
+    return true;
+  });
+}
+
+async function runTargetTypeBatch(targetType, runtimeOptions) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const cursor = rotationCursors.get(targetType) || 0;
+  const targets = await prisma[TARGET_DELEGATES[targetType]].findMany({
+    where: {
+      ...getTargetWhere(targetType),
+      id: { gt: cursor },
+    },
+    ...getTargetQuery(targetType),
+    orderBy: { id: "asc" },
+    take: runtimeOptions.batchSize,
+  });
+  rotationCursors.set(
+    targetType,
+    getNextRotationCursor(targets, runtimeOptions.batchSize)
+  );
+
+  const unpublishedResourceIds =
+    targetType === "resource" ? await listUnpublishedResourceIds() : new Set();
+  const wasUnpublished = (target) =>
+    targetType === "userResource"
+      ? target.status === USER_RESOURCE_LINK_DEAD_STATUS
+      : unpublishedResourceIds.has(target.id);
+  const summary = {
+    targetType,
+    cursor,
+    checked: 0,
+    links: 0,
+    dead: 0,
+    unpublished: 0,
+    restored: 0,
+    failed: 0,
+  };
+
+  for (const target of targets) {
+    try {
+      const records = await checkTargetLinkHealth(targetType, target, runtimeOptions);
+      summary.checked += 1;
+      summary.links += records.length;
+
+      if (!isResourceLinkSetDead(records)) {
+        const restore =
+          targetType === "userResource" ? restoreRecoveredUserResource : restoreRecoveredResource;
+        if (wasUnpublished(target) && (await restore(target))) {
+          summary.restored += 1;
+        }
+        continue;
+      }
+
+      summary.dead += 1;
+      // 用户投稿下架后变为 link_dead，网盘资源则靠 unpublishedAt 避免重复移除
+      if (runtimeOptions.autoUnpublish && !wasUnpublished(target)) {
+        const result = await unpublishDeadTarget(targetType, target, records, runtimeOptions);
+        if (result.unpublished) {
+          summary.unpublished += 1;
+        }
+      }
+    } catch (error) {
+      summary.failed += 1;
+      console.error("资源链接健康检查失败:", {
+        targetType,
+        targetId: target.id,
+        error,
+      });
+    }
+  }
+
+  return summary;
+}
+
+export async function runLinkHealthCheck(options = {}) {
+  if (runningCheck) {
+    return runningCheck;
+  }
+
+  const runtimeOptions = {
+    ...getLinkHealthOptions(),
+    ...options,
+  };
+
+  runningCheck = (async () => {
+    const startedAt = new Date();
+    const results = [];
+    for (const targetType of ["userResource", "resource"]) {
+      results.push(await runTargetTypeBatch(targetType, runtimeOptions));
+    }
+
+    return {
+      startedAt,
+      finishedAt: new Date(),
+      results,
+    };
+  })();
+
+  try {
+    return await runningCheck;
+  } finally {
+    runningCheck = null;
+  }
+}
+
+/**
+ * 已因链接失效移出索引的网盘资源 id，重建索引时需要跳过
+ */
+export async function listUnpublishedResourceIds() {
+  const { default: prisma } = await import("~/lib/prisma");
+  const records = await prisma.resourceLinkHealth.findMany({
+    where: {
+      targetType: "resource",
+      unpublishedAt: { not: null },
+    },
+    select: { targetId: true },
+    distinct: ["targetId"],
+  });
+
+  return new Set(records.map((record) => record.targetId));
+}
+
+/**
+ * 按规范化链接查询最近一次检测状态，同一链接出现在多个资源下时取最近检测的那条
+ */
+export async function getLinkHealthStatusMap(canonicalLinks = []) {
+  const links = [...new Set(canonicalLinks.filter(Boolean))];
+  if (links.length === 0) {
+    return new Map();
+  }
+
+  const { default: prisma } = await import("~/lib/prisma");
+  const records = await prisma.resourceLinkHealth.findMany({
+    where: { canonicalLink: { in: links } },
+    select: { canonicalLink: true, status: true, lastCheckedAt: true },
+    // 从未检测的记录排在最前，后写入的最近检测结果覆盖它们
+    orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+  });
+
+  return new Map(records.map((record) => [record.canonicalLink, record.status]));
+}
+
+export async function getLinkHealthSummary(options = {}) {
+  const { default: prisma } = await import("~/lib/prisma");
+  const where = options.targetType ? { targetType: options.targetType } : {};
+  const recentLimit = Math.min(Math.max(Number(options.recentLimit) || 50, 1), 200);
+
+  const [groups, recentFailures] = await Promise.all([
+    prisma.resourceLinkHealth.groupBy({
+      by: ["service", "status"],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.resourceLinkHealth.findMany({
+      where: {
+        ...where,
+        status: { in: ["failing", "dead"] },
+      },
+      orderBy: { lastCheckedAt: "desc" },
+      take: recentLimit,
+    }),
+  ]);
+
+  return {
+    ...summarizeLinkHealthByService(groups),
+    recentFailures,
+    options: getLinkHealthOptions(),
+  };
+}
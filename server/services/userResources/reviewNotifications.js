@@ -1,5 +1,10 @@
 import { createHash } from "node:crypto";
 
+import {
+  releaseEmailThrottleSlot,
+  reserveEmailThrottleSlot,
+} from "../email/emailThrottle.js";
+
 const DEFAULT_REVIEW_EMAIL_THROTTLE_PREFIX =
   "aipan:user-resource-review-email";
 const DEFAULT_REVIEW_EMAIL_THROTTLE_SECONDS = 86400;
@@ -27,11 +32,7 @@ const STATUS_MESSAGES = {
 
 const EMAIL_THROTTLE_NOTICE =
   "如果你一次提交多个资源，邮件不会逐条发送；完整审核结果请到通知中心查看。";
-
-const reviewEmailMemoryThrottle = new Map();
-let reviewEmailMemoryThrottleOps = 0;
-const REVIEW_EMAIL_MEMORY_THROTTLE_GC_INTERVAL = 100;
-let redisThrottleLoggedUnavailable = false;
+const EMAIL_THROTTLE_LABEL = "用户资源审核邮件";
 
 const escapeHtml = (value) =>
   String(value || "")
@@ -68,15 +69,6 @@ const parseIntOption = (value, fallback, min, max) => {
 const hashEmail = (email) =>
   createHash("sha256").update(email).digest("hex").slice(0, 32);
 
-const logRedisThrottleUnavailable = (error) => {
-  if (redisThrottleLoggedUnavailable) {
-    return;
-  }
-
-  redisThrottleLoggedUnavailable = true;
-  console.warn("用户资源审核邮件 Redis 限流不可用，降级为进程内限流:", error);
-};
-
 const getResourceManageUrl = (siteUrl) => {
   const normalizedSiteUrl = String(siteUrl || "").trim().replace(/\/+$/, "");
   return normalizedSiteUrl ? `${normalizedSiteUrl}/user/resources/list` : "";
@@ -128,51 +120,6 @@ export function buildUserResourceReviewEmailThrottleKey(
   return `${keyPrefix}:${identity.userId}:${identity.emailHash}`;
 }
 
-const evictExpiredMemoryThrottleEntries = () => {
-  reviewEmailMemoryThrottleOps += 1;
-  if (reviewEmailMemoryThrottleOps < REVIEW_EMAIL_MEMORY_THROTTLE_GC_INTERVAL) {
-    return;
-  }
-
-  reviewEmailMemoryThrottleOps = 0;
-  const now = Date.now();
-  for (const [k, v] of reviewEmailMemoryThrottle) {
-    if (v.expiresAt <= now) {
-      reviewEmailMemoryThrottle.delete(k);
-    }
-  }
-};
-
-const reserveMemoryReviewEmailSlot = (key, windowSeconds) => {
-  evictExpiredMemoryThrottleEntries();
-
-  const now = Date.now();
-  const existing = reviewEmailMemoryThrottle.get(key);
-
-  if (existing && existing.expiresAt > now) {
-    return {
-      allowed: false,
-      backend: "memory",
-      ttlSeconds: Math.max(Math.ceil((existing.expiresAt - now) / 1000), 1),
-    };
-  }
-
-  reviewEmailMemoryThrottle.set(key, {
-    expiresAt: now + windowSeconds * 1000,
-  });
-
-  return {
-    allowed: true,
-    backend: "memory",
-    key,
-  };
-};
-
-async function getRedisClient() {
-  const redisModule = await import("~/server/utils/redis");
-  return redisModule.getRedisClient();
-}
-
 async function reserveUserResourceReviewEmailSlot(creator, options = {}) {
   const throttleOptions = getUserResourceReviewEmailThrottleOptions();
   const resolvedOptions = {
@@ -207,58 +154,13 @@ async function reserveUserResourceReviewEmailSlot(creator, options = {}) {
     };
   }
 
-  try {
-    const client = await getRedisClient();
-    if (client) {
-      const result = await client.set(key, "1", {
-        NX: true,
-        EX: resolvedOptions.windowSeconds,
-      });
-
-      if (result === "OK") {
-        return {
-          allowed: true,
-          backend: "redis",
-          key,
-        };
-      }
-
-      const ttlSeconds = await client.ttl(key).catch(() => null);
-      return {
-        allowed: false,
-        backend: "redis",
-        key,
-        ttlSeconds: ttlSeconds && ttlSeconds > 0 ? ttlSeconds : null,
-      };
-    }
-  } catch (error) {
-    logRedisThrottleUnavailable(error);
-  }
-
-  return {
-    ...reserveMemoryReviewEmailSlot(key, resolvedOptions.windowSeconds),
-    key,
-  };
+  return reserveEmailThrottleSlot(key, resolvedOptions.windowSeconds, {
+    label: EMAIL_THROTTLE_LABEL,
+  });
 }
 
 async function releaseUserResourceReviewEmailSlot(reservation) {
-  if (!reservation?.allowed || !reservation.key) {
-    return;
-  }
-
-  if (reservation.backend === "redis") {
-    try {
-      const client = await getRedisClient();
-      await client?.del(reservation.key);
-    } catch (error) {
-      logRedisThrottleUnavailable(error);
-    }
-    return;
-  }
-
-  if (reservation.backend === "memory") {
-    reviewEmailMemoryThrottle.delete(reservation.key);
-  }
+  await releaseEmailThrottleSlot(reservation, { label: EMAIL_THROTTLE_LABEL });
 }
 
 export function collectUserResourceReviewReasons(review = {}, error = "") {
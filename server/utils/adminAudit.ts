@@ -0,0 +1,21 @@
+import type { H3Event } from "h3";
+
+export interface AdminAuditDetails {
+  /** 业务操作名，如 points.adjust；不填时按请求方法和路由生成 */
+  action?: string;
+  targetType?: string;
+  targetId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 为当前请求补充审计信息，响应时由 admin-audit-log 插件写入审计日志。
+ * 不在 /api/admin 下的特权操作（或需要留痕的查询）调用后同样会被记录。
+ */
+export function setAdminAudit(event: H3Event, details: AdminAuditDetails) {
+  event.context.adminAudit = {
+    ...event.context.adminAudit,
+    ...details,
+  };
+}
@@ -1,5 +1,9 @@
 import { LRUCache } from 'lru-cache';
 import { $fetch } from 'ofetch'
+import {
+    detectLinkService as detectRegisteredLinkService,
+    extractLinkPassword,
+} from '../../utils/linkServices.js'
 
 // Types
 export type Result = {
@@ -16,6 +20,7 @@ export type LinkService =
     | 'BAIDU'
     | 'XUNLEI'
     | 'QUARK'
+    | 'GUANGYA'
     | 'ALIYUN'
     | 'UC'
     | 'TIANYI'
@@ -64,22 +69,6 @@ export const CACHE_CONFIG = {
     RETRY_DELAY: 1000
 }
 
-export const SERVICE_DOMAINS: Record<LinkService, readonly string[]> = {
-    BAIDU: ['pan.baidu.com'],
-    XUNLEI: ['pan.xunlei.com'],
-    QUARK: ['pan.quark.cn'],
-    ALIYUN: ['aliyundrive.com', 'alipan.com'],
-    UC: ['drive.uc.cn'],
-    TIANYI: ['cloud.189.cn'],
-    MOBILE: ['yun.139.com', 'caiyun.139.com'],
-    '115': ['115cdn.com', '115.com'],
-    PIKPAK: ['mypikpak.com', 'toapp.mypikpak.com'],
-    '123': ['123684.com', '123865.com', '123912.com', '123pan.com', '123pan.cn'],
-    MAGNET: ['magnet:?'],
-    ED2K: ['ed2k://'],
-    OTHER: []
-} as const
-
 // Cache initialization
 export const searchCache = new LRUCache<string, Result>({
     max: CACHE_CONFIG.MAX_SIZE,
@@ -180,22 +169,8 @@ const normalizeExtractedUrl = (rawUrl: string) =>
         .replace(/[)\]】。；;,，]+$/g, '')
         .trim()
 
-const extractPassword = (line: string, url: string) => {
-    const fromUrl = url.match(/[?&](?:pwd|password)=([a-zA-Z0-9]+)/i)?.[1]
-    if (fromUrl) return fromUrl
-
-    return line.match(/(?:提取码|访问码|密[码碼])[:：]?\s*([a-zA-Z0-9]+)/i)?.[1]
-}
-
-export const detectLinkService = (url: string): LinkService => {
-    const normalizedUrl = url.toLowerCase()
-    const service = Object.entries(SERVICE_DOMAINS)
-        .filter(([, domains]) => domains.length > 0)
-        .find(([, domains]) => domains.some(domain => normalizedUrl.includes(domain)))
-        ?.[0] as LinkService | undefined
-
-    return service || 'OTHER'
-}
+export const detectLinkService = (url: string): LinkService =>
+    detectRegisteredLinkService(url) as LinkService
 
 export const extractLinks = (answer: string | undefined): Link[] => {
     if (!answer?.trim()) return []
@@ -213,7 +188,7 @@ export const extractLinks = (answer: string | undefined): Link[] => {
             acc.push({
                 service: detectLinkService(url),
                 link: url,
-                pwd: extractPassword(answerLine, url)
+                pwd: extractLinkPassword(url, answerLine)
             })
         })
         return acc
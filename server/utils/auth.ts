@@ -1,3 +1,5 @@
+import { hasPermission } from "~/utils/adminPermissions.js";
+
 /**
  * 验证管理员权限
  * @param event - Nuxt 事件对象
@@ -26,6 +28,35 @@ export async function requireAdmin(event: any) {
   return user;
 }
 
+/**
+ * 验证后台权限，权限由鉴权中间件按角色解析后放在 event.context.user.permissions
+ * @param event - Nuxt 事件对象
+ * @param permission - 所需权限，数组表示满足其一即可
+ * @returns 返回用户信息
+ * @throws 如果用户未登录或没有该权限，抛出错误
+ */
+export async function requirePermission(event: any, permission: string | string[]) {
+  const user = event.context.user;
+
+  if (!user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: '请先登录'
+    });
+  }
+
+  if (!hasPermission(user.permissions, permission)) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Forbidden',
+      message: '没有该操作的权限'
+    });
+  }
+
+  return user;
+}
+
 /**
  * 验证用户已登录
  * @param event - Nuxt 事件对象
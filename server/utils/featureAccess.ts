@@ -1,7 +1,7 @@
 import { createError, getHeader } from "h3";
 import type { H3Event } from "h3";
 import prisma from "~/lib/prisma";
-import { verifyToken } from "~/server/model/user";
+import { authenticateToken } from "~/server/model/user";
 import { getUserPointsBreakdown } from "~/server/services/points/userPoints";
 import {
   DEFAULT_FEATURE_ACCESS_CONFIG,
@@ -131,7 +131,7 @@ export const assertFeatureAccess = async (
   const config = await getFeatureAccessConfig();
 
   const token = getBearerToken(event);
-  const decoded = token ? verifyToken(token) : null;
+  const decoded = token ? await authenticateToken(token) : null;
 
   const initialDecision = evaluateFeatureAccessPolicy({
     config,
@@ -1,5 +1,5 @@
 import { createError, getHeader } from "h3";
-import { verifyToken } from "~/server/model/user";
+import { authenticateToken } from "~/server/model/user";
 
 const getBearerToken = (event: any) => {
   const authorization = getHeader(event, "authorization") || "";
@@ -7,7 +7,8 @@ const getBearerToken = (event: any) => {
   return match?.[1] || null;
 };
 
-export const getOptionalForumUser = (event: any) => {
+// 不在鉴权中间件覆盖范围内的论坛接口也要查库确认会话未被吊销
+export const getOptionalForumUser = async (event: any) => {
   if (event.context.user?.userId) {
     return event.context.user;
   }
@@ -15,14 +16,14 @@ export const getOptionalForumUser = (event: any) => {
   const token = getBearerToken(event);
   if (!token) return null;
 
-  const decoded = verifyToken(token);
+  const decoded = await authenticateToken(token);
   if (!decoded?.userId) return null;
 
   return decoded;
 };
 
-export const requireForumUser = (event: any) => {
-  const user = getOptionalForumUser(event);
+export const requireForumUser = async (event: any) => {
+  const user = await getOptionalForumUser(event);
   if (!user?.userId) {
     throw createError({
       statusCode: 401,
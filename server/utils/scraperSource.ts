@@ -0,0 +1,66 @@
+import type { H3Event } from "h3";
+import { runScraperSpec } from "~/server/services/search/scraperSpec.mjs";
+import type { SearchBody, TransformedResult } from "~/server/utils/aipan";
+import { createRateLimiter } from "~/server/utils/rateLimit";
+import { getSearchModerationFailure } from "~/server/utils/sourceModeration";
+
+const isAllowedDomain = (host: string, referer: string) =>
+  host.endsWith("aipan.me") ||
+  referer.includes("aipan.me") ||
+  host.includes("localhost");
+
+/**
+ * 声明式搜索源的统一入口：域名校验、限流、关键词校验和审核都在这里完成，
+ * 具体的请求和解析全部交给 spec
+ */
+export const defineScraperSourceHandler = (spec: { id: string; label?: string }) => {
+  const rateLimiter = createRateLimiter({ windowMs: 60_000, maxRequests: 20 });
+
+  return defineEventHandler(async (event: H3Event): Promise<TransformedResult> => {
+    try {
+      const host = getRequestHeader(event, "host") || "";
+      const referer = getRequestHeader(event, "referer") || "";
+      const clientIp = getRequestIP(event) || "unknown";
+
+      if (!isAllowedDomain(host, referer)) {
+        return {
+          list: [],
+          code: 403,
+          msg: "Access denied - domain restriction",
+        };
+      }
+
+      if (rateLimiter.isLimited(clientIp)) {
+        return {
+          list: [],
+          code: 429,
+          msg: "Too many requests - please try again later",
+        };
+      }
+
+      const body = await readBody<SearchBody>(event);
+      const searchTerm = body?.name?.trim();
+      if (!searchTerm) {
+        return {
+          list: [],
+          code: 400,
+          msg: "Search term is required",
+        };
+      }
+
+      const moderationFailure = await getSearchModerationFailure(searchTerm, event);
+      if (moderationFailure) {
+        return moderationFailure;
+      }
+
+      return await runScraperSpec(spec, searchTerm);
+    } catch (error: any) {
+      console.error(`[${spec.label || spec.id}] 搜索失败:`, error);
+      return {
+        list: [],
+        code: 500,
+        msg: error?.message || "Internal server error",
+      };
+    }
+  });
+};
@@ -0,0 +1,19 @@
+import guestSourceEndpoints from "~/assets/vod/clouddrive.json";
+import loginSourceEndpoints from "~/assets/vod/clouddrive-login.json";
+import { getSearchSourceId } from "~/server/services/search/sourceHealth.mjs";
+
+export interface SearchSourceEndpoint {
+  api: string;
+}
+
+// 静态配置仍然是搜索源的唯一来源，熔断只在此基础上临时剔除
+export const getConfiguredSearchSources = (loggedIn: boolean): SearchSourceEndpoint[] =>
+  loggedIn ? loginSourceEndpoints : guestSourceEndpoints;
+
+export const getAllSearchSourceIds = (): string[] => [
+  ...new Set(
+    [...guestSourceEndpoints, ...loginSourceEndpoints]
+      .map((endpoint) => getSearchSourceId(endpoint.api))
+      .filter(Boolean),
+  ),
+];
@@ -0,0 +1,10 @@
+import type { Server } from "socket.io";
+
+// 后台任务没有请求上下文，通过这里拿到 socket 插件创建的实例
+let socketServer: Server | null = null;
+
+export const setSocketServer = (server: Server | null) => {
+  socketServer = server;
+};
+
+export const getSocketServer = () => socketServer;
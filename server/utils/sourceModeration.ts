@@ -1,10 +1,16 @@
+import type { H3Event } from "h3";
 import {
   evaluateModerationWithConfig,
   MODERATION_CONTEXTS,
   summarizeModerationDecision,
 } from "~/server/utils/moderation";
 
-export const getSearchModerationFailure = async (searchTerm: string) => {
+export const getSearchModerationFailure = async (searchTerm: string, event?: H3Event) => {
+  // 聚合搜索入口已经审核过关键词，其发起的本地子请求不再重复审核
+  if (event?.context.federatedSearch) {
+    return null;
+  }
+
   const decision = await evaluateModerationWithConfig(searchTerm, {
     context: MODERATION_CONTEXTS.netdiskSearch,
   });
@@ -0,0 +1,67 @@
+import { deleteCookie, getCookie, getHeader, getRequestIP, setCookie } from "h3";
+import { issueSessionTokens } from "~/server/model/user";
+import {
+  getUserSessionOptions,
+  revokeUserSessions,
+} from "~/server/services/auth/userSessions.js";
+import { getSocketServer } from "~/server/utils/socketServer";
+
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+// refresh token 只发给刷新和退出接口
+const REFRESH_TOKEN_COOKIE_PATH = "/api/user/auth";
+
+export const getSessionClientInfo = (event: any) => ({
+  userAgent: getHeader(event, "user-agent") || "",
+  ip: getRequestIP(event, { xForwardedFor: true }) || "",
+});
+
+export const setRefreshTokenCookie = (event: any, refreshToken: string) => {
+  const { refreshTokenTtlDays } = getUserSessionOptions();
+  setCookie(event, REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    maxAge: refreshTokenTtlDays * 24 * 60 * 60,
+  });
+};
+
+export const getRefreshTokenCookie = (event: any) => getCookie(event, REFRESH_TOKEN_COOKIE) || "";
+
+export const clearRefreshTokenCookie = (event: any) => {
+  deleteCookie(event, REFRESH_TOKEN_COOKIE, { path: REFRESH_TOKEN_COOKIE_PATH });
+};
+
+/**
+ * 登录/注册成功后创建会话并写入 refresh token cookie，返回给前端的 access token
+ */
+export const startUserSession = async (event: any, user: { id: number; role: string }) => {
+  const { token, refreshToken } = await issueSessionTokens(user, getSessionClientInfo(event));
+  setRefreshTokenCookie(event, refreshToken);
+  return token;
+};
+
+/**
+ * 吊销会话并断开这些会话上的 socket 连接；参数同 revokeUserSessions
+ */
+export const revokeSessionsAndDisconnect = async ({
+  userId,
+  sessionIds,
+  exceptSessionId,
+  reason,
+}: {
+  userId: number;
+  sessionIds?: string[];
+  exceptSessionId?: string;
+  reason: string;
+}) => {
+  const revokedIds: string[] = await revokeUserSessions({ userId, sessionIds, exceptSessionId, reason });
+  const io = getSocketServer();
+  if (io) {
+    for (const sessionId of revokedIds) {
+      io.in(`session:${sessionId}`).disconnectSockets(true);
+    }
+  }
+
+  return revokedIds;
+};
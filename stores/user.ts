@@ -1,4 +1,5 @@
 import { defineStore } from 'pinia';
+import { canAccessAdmin } from '~/utils/adminPermissions.js';
 
 interface PointsBreakdown {
     permanentPoints: number;
@@ -24,6 +25,7 @@ export interface UserState {
         pointsBreakdown?: PointsBreakdown;
         isVerified?: boolean;
         emailVerificationRequired?: boolean;
+        permissions?: string[];
     } | null;
 }
 
@@ -44,6 +46,7 @@ interface UserResponse {
         pointsBreakdown?: PointsBreakdown;
         isVerified?: boolean;
         emailVerificationRequired?: boolean;
+        permissions?: string[];
     };
     error?: unknown;
 }
@@ -58,6 +61,8 @@ export const useUserStore = defineStore('user', {
     getters: {
         loggedIn: (state) => state.isAuthenticated,
         isAdmin: (state) => state.user?.role === 'admin',
+        // 拥有任一后台权限（管理员、版主、审核员或自定义角色）即可进入后台
+        canAccessAdmin: (state) => state.user?.role === 'admin' || canAccessAdmin(state.user?.permissions),
         userAvatar: (state) => {
             if (!state.user?.username) return '';
             return `https://api.dicebear.com/7.x/${state.user?.avatarStyle || 'avataaars'}/svg?seed=${encodeURIComponent(state.user.username)}`;
@@ -84,6 +89,23 @@ export const useUserStore = defineStore('user', {
             });
         },
 
+        // 刷新 access token 后只替换 token，用户信息不变
+        setToken(token: string) {
+            this.token = token;
+            const tokenCookie = useCookie('token');
+            tokenCookie.value = token;
+        },
+
+        // 退出登录：先吊销服务端会话，失败也照样清除本地状态
+        async logout() {
+            try {
+                await $fetch('/api/user/auth/logout', { method: 'POST' });
+            } catch (error) {
+                console.error('Error revoking session on logout:', error);
+            }
+            this.clearUser();
+        },
+
         clearUser() {
             // 清除状态
             this.user = null;
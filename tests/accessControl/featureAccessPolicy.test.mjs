@@ -12,6 +12,9 @@ test("resolveFeatureAccessKeysForPath protects core resource APIs", () => {
   assert.deepEqual(resolveFeatureAccessKeysForPath("/api/sources/local"), [
     FEATURE_ACCESS_KEYS.netdiskSearch,
   ]);
+  assert.deepEqual(resolveFeatureAccessKeysForPath("/api/search/federated"), [
+    FEATURE_ACCESS_KEYS.netdiskSearch,
+  ]);
   assert.deepEqual(resolveFeatureAccessKeysForPath("/api/tv/sources"), [
     FEATURE_ACCESS_KEYS.tvLive,
   ]);
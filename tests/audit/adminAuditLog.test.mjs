@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  ADMIN_AUDIT_GENESIS_HASH,
+  appendAdminAuditLog,
+  buildAdminAuditWhere,
+  describeAdminRequest,
+  diffAuditValues,
+  escapeCsvCell,
+  formatAdminAuditCsv,
+  isAuditableAdminRequest,
+  sanitizeAuditValue,
+  verifyAdminAuditChain,
+} from "../../server/services/audit/adminAuditLog.js";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+// 模拟入库：JSON 字段经过一次序列化，和 Postgres jsonb 读回来的形态一致
+const createFakeClient = () =>
+  createFakePrisma({
+    tables: { adminAuditLog: [], user: [{ id: 1, username: "admin" }] },
+    methods: {
+      adminAuditLog: {
+        create: async ({ data }, client) => {
+          const rows = client.tables.adminAuditLog;
+          const row = {
+            ...JSON.parse(JSON.stringify(data)),
+            id: rows.length + 1,
+            createdAt: new Date(data.createdAt),
+          };
+          rows.push(row);
+          return row;
+        },
+      },
+    },
+  });
+
+test("admin mutations are described by route, target type and id", () => {
+  assert.deepEqual(describeAdminRequest("post", "/api/admin/forum/topics/12/trash?x=1"), {
+    action: "POST /api/admin/forum/topics/[id]/trash",
+    targetType: "forum/topics",
+    targetId: "12",
+  });
+  assert.deepEqual(describeAdminRequest("POST", "/api/admin/settings/email"), {
+    action: "POST /api/admin/settings/email",
+    targetType: "settings",
+    targetId: null,
+  });
+
+  assert.equal(isAuditableAdminRequest("DELETE", "/api/admin/roles/editor"), true);
+  assert.equal(isAuditableAdminRequest("GET", "/api/admin/roles"), false);
+  assert.equal(isAuditableAdminRequest("POST", "/api/administrator"), false);
+  assert.equal(isAuditableAdminRequest("POST", "/api/user/points"), false);
+});
+
+test("secrets are redacted but still show up as changed in the diff", () => {
+  const before = { host: "smtp.a.com", apiKey: "old-key", nested: { password: "p1" }, at: new Date(0) };
+  const after = { host: "smtp.b.com", apiKey: "new-key", nested: { password: "p1" }, at: new Date(0) };
+
+  assert.deepEqual(sanitizeAuditValue(after), {
+    host: "smtp.b.com",
+    apiKey: "[REDACTED]",
+    nested: { password: "[REDACTED]" },
+    at: "1970-01-01T00:00:00.000Z",
+  });
+  assert.deepEqual(diffAuditValues(before, after), {
+    apiKey: { from: "[REDACTED]", to: "[REDACTED]" },
+    host: { from: "smtp.a.com", to: "smtp.b.com" },
+  });
+  assert.equal(diffAuditValues({ status: "pending" }, { status: "pending" }), null);
+  assert.deepEqual(diffAuditValues(null, { points: 10 }), { value: { from: null, to: { points: 10 } } });
+});
+
+test("appended logs form a hash chain that detects edits and deletions", async () => {
+  const client = createFakeClient();
+  const now = new Date("2026-08-03T10:00:00.123Z");
+
+  await appendAdminAuditLog(
+    { actorId: 1, method: "POST", path: "/api/admin/reports/handle", action: "reports.resolve", targetType: "reports", targetId: 7, before: { status: "pending" }, after: { status: "resolved" }, statusCode: 200, ip: "127.0.0.1" },
+    { client, now }
+  );
+  await appendAdminAuditLog({ actorId: 1, method: "PUT", path: "/api/admin/user-resources/3/status", statusCode: 403 }, { client, now });
+  await appendAdminAuditLog({ actorId: 1, actorName: "root", method: "DELETE", path: "/api/admin/roles/editor", statusCode: 200 }, { client, now });
+
+  assert.deepEqual(client.locks, [[720200001], [720200001], [720200001]]);
+  assert.equal(client.tables.adminAuditLog[0].prevHash, ADMIN_AUDIT_GENESIS_HASH);
+  assert.equal(client.tables.adminAuditLog[1].prevHash, client.tables.adminAuditLog[0].hash);
+  assert.equal(client.tables.adminAuditLog[0].actorName, "admin");
+  assert.equal(client.tables.adminAuditLog[2].actorName, "root");
+  assert.deepEqual(client.tables.adminAuditLog[0].diff, { status: { from: "pending", to: "resolved" } });
+  assert.equal(client.tables.adminAuditLog[1].action, "PUT /api/admin/user-resources/[id]/status");
+  assert.equal(client.tables.adminAuditLog[1].targetId, "3");
+
+  assert.deepEqual(await verifyAdminAuditChain({ client, batchSize: 2 }), {
+    valid: true,
+    checked: 3,
+    brokenId: null,
+    lastHash: client.tables.adminAuditLog[2].hash,
+  });
+
+  client.tables.adminAuditLog[1].statusCode = 200;
+  assert.deepEqual(await verifyAdminAuditChain({ client }), {
+    valid: false,
+    checked: 1,
+    brokenId: 2,
+    reason: "记录内容与哈希不一致",
+  });
+
+  client.tables.adminAuditLog[1].statusCode = 403;
+  client.tables.adminAuditLog.splice(1, 1);
+  const result = await verifyAdminAuditChain({ client });
+  assert.equal(result.valid, false);
+  assert.equal(result.brokenId, 3);
+  assert.equal(result.reason, "前一条记录缺失或被修改");
+});
+
+test("filters build a prisma where clause", () => {
+  assert.deepEqual(
+    buildAdminAuditWhere({
+      actor: "12",
+      action: "settings",
+      targetType: "settings",
+      status: "failed",
+      from: "2026-08-01T00:00:00.000Z",
+      to: "not-a-date",
+    }),
+    {
+      OR: [{ actorId: 12 }, { actorName: { contains: "12", mode: "insensitive" } }],
+      action: { contains: "settings", mode: "insensitive" },
+      targetType: "settings",
+      statusCode: { gte: 400 },
+      createdAt: { gte: new Date("2026-08-01T00:00:00.000Z") },
+    }
+  );
+  assert.deepEqual(buildAdminAuditWhere({}), {});
+});
+
+test("CSV export escapes quotes and spreadsheet formulas", () => {
+  assert.equal(escapeCsvCell('say "hi", ok'), '"say ""hi"", ok"');
+  assert.equal(escapeCsvCell("=HYPERLINK(\"x\")"), "\"'=HYPERLINK(\"\"x\"\")\"");
+  assert.equal(escapeCsvCell(null), "");
+
+  const csv = formatAdminAuditCsv([
+    {
+      id: 1,
+      createdAt: new Date("2026-08-03T10:00:00.000Z"),
+      actorId: 1,
+      actorName: "admin",
+      action: "points.adjust",
+      method: "POST",
+      path: "/api/user/points",
+      targetType: "user-center",
+      targetId: "1",
+      statusCode: 200,
+      ip: "127.0.0.1",
+      diff: { points: { from: 0, to: 10 } },
+      hash: "abc",
+    },
+  ]);
+  const [header, row] = csv.replace(/^\uFEFF/, "").trim().split("\r\n");
+
+  assert.ok(csv.startsWith("\uFEFF"));
+  assert.equal(header.split(",").length, 13);
+  assert.equal(
+    row,
+    '1,2026-08-03T10:00:00.000Z,1,admin,points.adjust,POST,/api/user/points,user-center,1,200,127.0.0.1,"{""points"":{""from"":0,""to"":10}}",abc'
+  );
+});
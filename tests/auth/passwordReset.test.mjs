@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  consumePasswordResetToken,
+  createPasswordResetToken,
+  getPasswordResetOptions,
+  hashPasswordResetToken,
+  releasePasswordResetEmailSlot,
+  reservePasswordResetEmailSlot,
+} from "../../server/services/auth/passwordReset.js";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const createFakeClient = (users = [{ id: 1, username: "alice", email: "alice@example.com", status: "active" }]) =>
+  createFakePrisma({
+    tables: { passwordResetToken: [], user: users },
+    defaults: { passwordResetToken: () => ({ consumedAt: null, createdAt: new Date() }) },
+    relations: { passwordResetToken: { user: { model: "user", foreignKey: "userId" } } },
+  });
+
+const options = { expireMinutes: 30, emailCooldownSeconds: 120, ipMaxPerHour: 10 };
+const now = new Date("2026-07-20T08:00:00.000Z");
+const later = (minutes) => new Date(now.getTime() + minutes * 60 * 1000);
+
+test("getPasswordResetOptions clamps env values", () => {
+  assert.deepEqual(getPasswordResetOptions({}), options);
+  assert.deepEqual(
+    getPasswordResetOptions({
+      PASSWORD_RESET_EXPIRE_MINUTES: "1",
+      PASSWORD_RESET_EMAIL_COOLDOWN_SECONDS: "abc",
+      PASSWORD_RESET_IP_MAX_PER_HOUR: "0",
+    }),
+    { expireMinutes: 5, emailCooldownSeconds: 120, ipMaxPerHour: 1 }
+  );
+});
+
+test("createPasswordResetToken stores only the hash and invalidates older links", async () => {
+  const client = createFakeClient();
+  const user = client.tables.user[0];
+
+  const first = await createPasswordResetToken({ user, ip: "203.0.113.9", now, options, client });
+  const second = await createPasswordResetToken({ user, now: later(1), options, client });
+
+  assert.equal(client.tables.passwordResetToken.length, 2);
+  assert.equal(client.tables.passwordResetToken[1].tokenHash, hashPasswordResetToken(second.token));
+  assert.notEqual(client.tables.passwordResetToken[1].tokenHash, second.token);
+  assert.equal(client.tables.passwordResetToken[0].requestedIp, "203.0.113.9");
+  assert.equal(second.expiresAt.getTime(), later(31).getTime());
+
+  await assert.rejects(consumePasswordResetToken(first.token, { now: later(2), client }), {
+    statusMessage: "该重置链接已失效，请重新申请",
+  });
+});
+
+test("consumePasswordResetToken is single-use and rejects expired tokens", async () => {
+  const client = createFakeClient();
+  const user = client.tables.user[0];
+
+  const { token } = await createPasswordResetToken({ user, now, options, client });
+  assert.equal((await consumePasswordResetToken(token, { now: later(5), client })).id, user.id);
+  await assert.rejects(consumePasswordResetToken(token, { now: later(6), client }), { statusCode: 400 });
+
+  const expired = await createPasswordResetToken({ user, now, options, client });
+  await assert.rejects(consumePasswordResetToken(expired.token, { now: later(31), client }), {
+    statusMessage: "重置链接已过期，请重新申请",
+  });
+  await assert.rejects(consumePasswordResetToken("unknown", { now, client }), { statusCode: 400 });
+});
+
+test("consumePasswordResetToken rejects links after the account email changes", async () => {
+  const client = createFakeClient();
+  const user = client.tables.user[0];
+
+  const { token } = await createPasswordResetToken({ user, now, options, client });
+  client.tables.user[0] = { ...user, email: "new@example.com" };
+
+  await assert.rejects(consumePasswordResetToken(token, { now: later(1), client }), {
+    statusMessage: "账号邮箱已变更，请重新申请",
+  });
+});
+
+test("reservePasswordResetEmailSlot throttles per email until released", async () => {
+  const email = `throttle-${Date.now()}@example.com`;
+
+  const first = await reservePasswordResetEmailSlot(email, options);
+  assert.equal(first.allowed, true);
+  assert.equal((await reservePasswordResetEmailSlot(` ${email.toUpperCase()} `, options)).allowed, false);
+
+  await releasePasswordResetEmailSlot(first);
+  assert.equal((await reservePasswordResetEmailSlot(email, options)).allowed, true);
+});
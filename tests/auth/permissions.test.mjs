@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  assertCanAssignRole,
+  assertCanManageUser,
+  createCustomRole,
+  deleteCustomRole,
+  getRolePermissions,
+  invalidateRolePermissionCache,
+  resolveAdminApiPermission,
+  updateCustomRole,
+} from "../../server/services/auth/permissions.js";
+import {
+  ADMIN_PERMISSION_KEYS,
+  ALL_PERMISSIONS,
+  canAccessAdmin,
+  canAccessAdminPage,
+  getDefaultAdminPage,
+  hasPermission,
+} from "../../utils/adminPermissions.js";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+const listFiles = (dir) =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full) : [full];
+  });
+
+// 文件路径转成路由，动态段替换成占位符
+const toRoutePath = (file, baseDir, prefix) =>
+  `${prefix}/${path.relative(baseDir, file)}`
+    .replace(/\.(ts|js|mjs|vue)$/, "")
+    .replace(/\.(get|post|put|delete|patch)$/, "")
+    .replace(/\/index$/, "")
+    .replace(/\[[^\]]+\]/g, "_param");
+
+const createFakeClient = (users = []) =>
+  createFakePrisma({
+    tables: { customRole: [], user: users },
+    defaults: { customRole: () => ({ createdAt: new Date() }) },
+  });
+
+const ADMIN = [ALL_PERMISSIONS];
+const ROLE_MANAGER = ["roles.manage", "users.manage", "forum.moderate"];
+
+test("hasPermission treats * as every permission and arrays as any-of", () => {
+  assert.equal(hasPermission(ADMIN, "settings.write"), true);
+  assert.equal(hasPermission(["forum.moderate"], ["resources.review", "forum.moderate"]), true);
+  assert.equal(hasPermission(["forum.moderate"], "settings.write"), false);
+  assert.equal(hasPermission(["forum.moderate"], ALL_PERMISSIONS), false);
+  assert.equal(hasPermission(undefined, "forum.moderate"), false);
+  assert.equal(canAccessAdmin([]), false);
+});
+
+test("every admin API route is covered by the permission map", () => {
+  const apiDir = path.join(repoRoot, "server/api/admin");
+  const unmapped = listFiles(apiDir)
+    .map((file) => toRoutePath(file, apiDir, "/api/admin"))
+    .filter((route) => resolveAdminApiPermission(route) === ALL_PERMISSIONS);
+
+  assert.deepEqual(unmapped, []);
+  assert.equal(resolveAdminApiPermission("/api/admin/unknown-feature"), ALL_PERMISSIONS);
+  assert.equal(resolveAdminApiPermission("/api/admin/user-resources/12/status?x=1"), "resources.review");
+  assert.equal(resolveAdminApiPermission("/api/admin/user-resources/search"), "search.manage");
+  assert.equal(resolveAdminApiPermission("/api/admin/settings/search-synonyms"), "search.manage");
+  assert.equal(resolveAdminApiPermission("/api/admin/settings-extra"), ALL_PERMISSIONS);
+});
+
+// 拥有目录中全部权限但没有 "*"：未登记的页面会被拒绝
+test("every admin page is covered by the sidebar permission map", () => {
+  const pagesDir = path.join(repoRoot, "pages/admin");
+  const unmapped = listFiles(pagesDir)
+    .map((file) => toRoutePath(file, pagesDir, "/admin"))
+    .filter((route) => !canAccessAdminPage(ADMIN_PERMISSION_KEYS, route));
+
+  assert.deepEqual(unmapped, []);
+});
+
+test("built-in roles grant scoped admin access", async () => {
+  const moderator = await getRolePermissions("moderator");
+  assert.equal(canAccessAdminPage(moderator, "/admin/forum/topics"), true);
+  assert.equal(canAccessAdminPage(moderator, "/admin/review"), true);
+  assert.equal(canAccessAdminPage(moderator, "/admin/settings"), false);
+  assert.equal(getDefaultAdminPage(moderator), "/admin/dashboard");
+
+  const reviewer = await getRolePermissions("reviewer");
+  assert.equal(hasPermission(reviewer, resolveAdminApiPermission("/api/admin/user-resources/get")), true);
+  assert.equal(hasPermission(reviewer, resolveAdminApiPermission("/api/admin/forum/topics")), false);
+
+  assert.deepEqual(await getRolePermissions("user"), []);
+  assert.equal(getDefaultAdminPage(["points.grant"]), "/admin/points");
+});
+
+test("custom roles are validated, cached and only grant permissions the actor holds", async () => {
+  invalidateRolePermissionCache();
+  const client = createFakeClient();
+
+  await assert.rejects(createCustomRole({ key: "moderator", name: "x", permissions: ["forum.moderate"] }, { actorPermissions: ADMIN, client }), {
+    statusCode: 400,
+  });
+  await assert.rejects(createCustomRole({ key: "editor", name: "编辑", permissions: ["unknown"] }, { actorPermissions: ADMIN, client }), {
+    statusMessage: "请至少选择一项权限",
+  });
+  await assert.rejects(
+    createCustomRole({ key: "editor", name: "编辑", permissions: ["settings.write"] }, { actorPermissions: ROLE_MANAGER, client }),
+    { statusCode: 403 }
+  );
+
+  await createCustomRole(
+    { key: "Editor", name: "编辑", permissions: ["content.manage", "content.manage", "content.review"] },
+    { actorPermissions: ADMIN, client }
+  );
+  assert.deepEqual(client.tables.customRole[0].permissions, ["content.manage", "content.review"]);
+  assert.equal(client.tables.customRole[0].key, "editor");
+  assert.deepEqual(await getRolePermissions("editor", { client }), ["content.manage", "content.review"]);
+
+  // 直接改库不会立刻生效，经由服务保存会让缓存失效
+  client.tables.customRole[0].permissions = ["content.manage"];
+  assert.deepEqual(await getRolePermissions("editor", { client }), ["content.manage", "content.review"]);
+  await updateCustomRole("editor", { name: "编辑", permissions: ["content.review"] }, { actorPermissions: ADMIN, client });
+  assert.deepEqual(await getRolePermissions("editor", { client }), ["content.review"]);
+  assert.deepEqual(await getRolePermissions("ghost", { client }), []);
+  invalidateRolePermissionCache();
+});
+
+test("role assignment cannot escalate beyond the actor's permissions", async () => {
+  invalidateRolePermissionCache();
+  const client = createFakeClient([{ id: 2, role: "helper" }]);
+  await createCustomRole({ key: "helper", name: "助手", permissions: ["forum.moderate"] }, { actorPermissions: ADMIN, client });
+
+  await assert.rejects(
+    assertCanAssignRole({ actorPermissions: ["users.manage"], fromRole: "user", toRole: "vip", client }),
+    { statusMessage: "没有分配角色的权限" }
+  );
+  await assertCanAssignRole({ actorPermissions: ["users.manage"], fromRole: "vip", toRole: "vip", client });
+  await assertCanAssignRole({ actorPermissions: ROLE_MANAGER, fromRole: "user", toRole: "helper", client });
+  await assert.rejects(assertCanAssignRole({ actorPermissions: ROLE_MANAGER, fromRole: "user", toRole: "admin", client }), {
+    statusCode: 403,
+  });
+  await assert.rejects(assertCanAssignRole({ actorPermissions: ROLE_MANAGER, fromRole: "admin", toRole: "user", client }), {
+    statusCode: 403,
+  });
+  await assert.rejects(assertCanAssignRole({ actorPermissions: ADMIN, fromRole: "user", toRole: "ghost", client }), {
+    statusMessage: "角色不存在",
+  });
+
+  await assert.rejects(assertCanManageUser({ actorPermissions: ROLE_MANAGER, targetRole: "admin", client }), {
+    statusCode: 403,
+  });
+  await assertCanManageUser({ actorPermissions: ROLE_MANAGER, targetRole: "helper", client });
+
+  await assert.rejects(deleteCustomRole("helper", { actorPermissions: ADMIN, client }), { statusCode: 400 });
+  await assert.rejects(deleteCustomRole("admin", { actorPermissions: ADMIN, client }), {
+    statusMessage: "内置角色不可删除",
+  });
+  invalidateRolePermissionCache();
+});
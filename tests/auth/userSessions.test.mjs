@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  USER_SESSION_REVOKE_REASONS,
+  createUserSession,
+  describeUserAgent,
+  getActiveUserSession,
+  getUserSessionOptions,
+  hashRefreshToken,
+  isSessionRevokedLocally,
+  listUserSessions,
+  revokeUserSessions,
+  rotateUserSession,
+} from "../../server/services/auth/userSessions.js";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const CHROME_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+
+// 会话 id 跨用例递增：本进程的吊销记录是模块级的
+let nextSessionId = 1;
+
+const createFakeClient = (users = [{ id: 1, username: "alice", role: "user", status: "active" }]) =>
+  createFakePrisma({
+    tables: { userSession: [], user: users },
+    defaults: {
+      userSession: (data) => ({
+        id: `session-${nextSessionId++}`,
+        previousRefreshTokenHash: null,
+        rotatedAt: null,
+        revokedAt: null,
+        revokedReason: null,
+        createdAt: data.lastSeenAt,
+      }),
+    },
+    relations: { userSession: { user: { model: "user", foreignKey: "userId" } } },
+  });
+
+const options = { accessTokenTtlMinutes: 15, refreshTokenTtlDays: 30 };
+const now = new Date("2026-07-13T08:00:00.000Z");
+const later = (seconds) => new Date(now.getTime() + seconds * 1000);
+
+test("getUserSessionOptions clamps env values", () => {
+  assert.deepEqual(getUserSessionOptions({}), options);
+  assert.deepEqual(
+    getUserSessionOptions({ AUTH_ACCESS_TOKEN_TTL_MINUTES: "0", AUTH_REFRESH_TOKEN_TTL_DAYS: "9999" }),
+    { accessTokenTtlMinutes: 1, refreshTokenTtlDays: 365 }
+  );
+});
+
+test("describeUserAgent summarizes browser and platform", () => {
+  assert.equal(describeUserAgent(CHROME_WINDOWS), "Chrome · Windows");
+  assert.equal(
+    describeUserAgent("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile/15E148 Safari/604.1"),
+    "Safari · iPhone"
+  );
+  assert.equal(describeUserAgent(""), "未知设备");
+});
+
+test("createUserSession stores only the refresh token hash", async () => {
+  const client = createFakeClient();
+  const { session, refreshToken } = await createUserSession({
+    userId: 1,
+    userAgent: CHROME_WINDOWS,
+    ip: "203.0.113.9",
+    now,
+    options,
+    client,
+  });
+
+  assert.equal(client.tables.userSession.length, 1);
+  assert.equal(session.refreshTokenHash, hashRefreshToken(refreshToken));
+  assert.notEqual(session.refreshTokenHash, refreshToken);
+  assert.equal(session.deviceName, "Chrome · Windows");
+  assert.equal(session.expiresAt.getTime(), now.getTime() + 30 * 24 * 60 * 60 * 1000);
+});
+
+test("rotateUserSession rotates once, tolerates concurrent refreshes and revokes on reuse", async () => {
+  const client = createFakeClient();
+  const { session, refreshToken } = await createUserSession({ userId: 1, now, options, client });
+
+  const rotated = await rotateUserSession(refreshToken, { now: later(60), options, client });
+  assert.equal(rotated.status, "rotated");
+  assert.notEqual(rotated.refreshToken, refreshToken);
+  assert.equal(rotated.session.user.role, "user");
+
+  // 另一个标签页几乎同时带着旧 token 刷新
+  const concurrent = await rotateUserSession(refreshToken, { now: later(70), options, client });
+  assert.equal(concurrent.status, "grace");
+
+  const reused = await rotateUserSession(refreshToken, { now: later(600), options, client });
+  assert.equal(reused.status, "reused");
+  assert.equal(client.tables.userSession[0].revokedReason, USER_SESSION_REVOKE_REASONS.refreshTokenReused);
+  assert.equal(isSessionRevokedLocally(session.id, later(600)), true);
+
+  const afterRevoke = await rotateUserSession(rotated.refreshToken, { now: later(601), options, client });
+  assert.equal(afterRevoke.status, "invalid");
+  assert.equal((await rotateUserSession("unknown", { now, options, client })).status, "invalid");
+});
+
+test("sessions of disabled users are rejected", async () => {
+  const client = createFakeClient();
+  const { session, refreshToken } = await createUserSession({ userId: 1, now, options, client });
+
+  assert.equal((await getActiveUserSession(session.id, { now: later(1), client })).id, session.id);
+
+  client.tables.user[0].status = "disabled";
+  assert.equal(await getActiveUserSession(session.id, { now: later(2), client }), null);
+  assert.equal((await rotateUserSession(refreshToken, { now: later(3), options, client })).status, "invalid");
+});
+
+test("revokeUserSessions logs out other sessions and keeps the current one", async () => {
+  const client = createFakeClient();
+  const current = await createUserSession({ userId: 1, now, options, client });
+  const other = await createUserSession({ userId: 1, now, options, client });
+  const third = await createUserSession({ userId: 1, now, options, client });
+
+  const revokedIds = await revokeUserSessions({
+    userId: 1,
+    exceptSessionId: current.session.id,
+    reason: USER_SESSION_REVOKE_REASONS.passwordChanged,
+    now: later(10),
+    options,
+    client,
+  });
+
+  assert.deepEqual(revokedIds.sort(), [other.session.id, third.session.id].sort());
+  assert.deepEqual(
+    (await listUserSessions(1, { now: later(20), client })).map((session) => session.id),
+    [current.session.id]
+  );
+  assert.equal(await getActiveUserSession(other.session.id, { now: later(20), client }), null);
+  assert.notEqual(await getActiveUserSession(current.session.id, { now: later(20), client }), null);
+
+  // 本进程的吊销记录在 access token 有效期过后自动失效
+  assert.equal(isSessionRevokedLocally(other.session.id, later(10 + 15 * 60 + 1)), false);
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildForumDigestEmail,
+  getForumDigestOptions,
+  getForumDigestWindow,
+  runForumDigests,
+} from "../../server/services/forum/forumDigests.mjs";
+import { uniqueForumParticipantIds } from "../../server/services/forum/readStates.mjs";
+import {
+  followForumTarget,
+  unsubscribeForumDigest,
+  updateForumDigestFrequency,
+} from "../../server/services/forum/subscriptions.mjs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-09-01T08:00:00.000Z");
+
+const activity = {
+  topics: [{ id: 1, title: "<script>x</script>", slug: "hello", newReplies: 3 }],
+  newTopics: [{ id: 2, title: "新主题", slug: "new-topic", authorUsername: "bob", categoryName: "综合" }],
+};
+
+test("forum digest options fall back to defaults and clamp ranges", () => {
+  assert.deepEqual(getForumDigestOptions({}), { enabled: true, intervalMinutes: 60, batchSize: 200 });
+  assert.deepEqual(
+    getForumDigestOptions({
+      FORUM_DIGEST_ENABLED: "false",
+      FORUM_DIGEST_CHECK_INTERVAL_MINUTES: "1",
+      FORUM_DIGEST_BATCH_SIZE: "99999",
+    }),
+    { enabled: false, intervalMinutes: 5, batchSize: 2000 }
+  );
+});
+
+test("digest window is only open once the frequency period has passed", () => {
+  assert.equal(getForumDigestWindow({ preference: { frequency: "off" }, now }), null);
+  assert.equal(
+    getForumDigestWindow({ preference: { frequency: "weekly", lastSentAt: new Date(now.getTime() - 2 * DAY_MS) }, now }),
+    null
+  );
+
+  const lastSentAt = new Date(now.getTime() - DAY_MS);
+  assert.deepEqual(getForumDigestWindow({ preference: { frequency: "daily", lastSentAt }, now }), {
+    since: lastSentAt,
+    until: now,
+  });
+  assert.deepEqual(getForumDigestWindow({ preference: { frequency: "weekly", lastSentAt: null }, now }), {
+    since: new Date(now.getTime() - 7 * DAY_MS),
+    until: now,
+  });
+});
+
+test("digest email escapes titles and carries an unsubscribe link", () => {
+  const email = buildForumDigestEmail({
+    user: { username: "alice" },
+    frequency: "daily",
+    activity,
+    siteUrl: "https://example.com/",
+    unsubscribeToken: "a".repeat(48),
+  });
+
+  assert.equal(email.subject, "AIPAN论坛每日摘要：3 条新回复，1 个新主题");
+  assert.match(email.html, /&lt;script&gt;x&lt;\/script&gt;/);
+  assert.doesNotMatch(email.html, /<script>/);
+  assert.match(email.html, new RegExp(`https://example.com/forum/unsubscribe\\?token=${"a".repeat(48)}`));
+  assert.match(email.text, /https:\/\/example.com\/forum\/topic\/new-topic/);
+});
+
+test("followers are treated as participants without duplicates", () => {
+  assert.deepEqual(
+    uniqueForumParticipantIds({ topicAuthorId: 1, postAuthorIds: [2, 3], followerIds: [3, 4, 5], actorId: 5 }),
+    [1, 2, 3, 4]
+  );
+});
+
+const createDigestClient = ({ preferences, activityByUser = {} }) => {
+  const updates = [];
+  const queries = [];
+  return {
+    updates,
+    queries,
+    forumDigestPreference: {
+      findMany: async ({ where }) => {
+        queries.push(where);
+        return preferences;
+      },
+      update: async ({ where, data }) => {
+        updates.push({ id: where.id, ...data });
+        return data;
+      },
+    },
+    forumSubscription: {
+      findMany: async ({ where }) => (activityByUser[where.userId] ? [{ topicId: 1, categoryId: null }] : []),
+    },
+    forumPost: {
+      groupBy: async () => [{ topicId: 1, _count: { _all: 2 } }],
+    },
+    forumTopic: {
+      findMany: async () => [{ id: 1, title: "关注的主题", slug: "hello" }],
+    },
+  };
+};
+
+test("runForumDigests sends due digests and advances the window", async () => {
+  const user = (id) => ({ id, username: `user${id}`, email: `user${id}@example.com`, status: "active" });
+  const prismaClient = createDigestClient({
+    preferences: [
+      { id: 1, userId: 1, frequency: "daily", lastSentAt: null, unsubscribeToken: "b".repeat(48), user: user(1) },
+      { id: 2, userId: 2, frequency: "daily", lastSentAt: null, unsubscribeToken: "c".repeat(48), user: user(2) },
+      { id: 3, userId: 3, frequency: "weekly", lastSentAt: new Date(now.getTime() - 2 * DAY_MS), user: user(3) },
+    ],
+    activityByUser: { 1: true },
+  });
+  const sent = [];
+  const emailService = {
+    getEmailServiceConfig: async () => ({ enabled: true, siteUrl: "https://example.com" }),
+    sendEmailMessage: async (message) => sent.push(message),
+  };
+
+  const summary = await runForumDigests({ batchSize: 10 }, { now, prismaClient, emailService });
+
+  assert.deepEqual(summary, { checked: 2, sent: 1, skipped: 1, failed: 0 });
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, "user1@example.com");
+  assert.deepEqual(prismaClient.updates, [
+    { id: 1, lastSentAt: now },
+    { id: 2, lastSentAt: now },
+  ]);
+  assert.deepEqual(prismaClient.queries, [
+    {
+      OR: [
+        {
+          frequency: "daily",
+          OR: [{ lastSentAt: null }, { lastSentAt: { lte: new Date(now.getTime() - DAY_MS) } }],
+        },
+        {
+          frequency: "weekly",
+          OR: [{ lastSentAt: null }, { lastSentAt: { lte: new Date(now.getTime() - 7 * DAY_MS) } }],
+        },
+      ],
+    },
+  ]);
+});
+
+test("runForumDigests keeps the window when sending fails or email is disabled", async () => {
+  const prismaClient = createDigestClient({
+    preferences: [
+      {
+        id: 1,
+        userId: 1,
+        frequency: "daily",
+        lastSentAt: null,
+        unsubscribeToken: "b".repeat(48),
+        user: { id: 1, username: "alice", email: "alice@example.com", status: "active" },
+      },
+    ],
+    activityByUser: { 1: true },
+  });
+  const originalError = console.error;
+  console.error = () => {};
+
+  try {
+    const failed = await runForumDigests(
+      { batchSize: 10 },
+      {
+        now,
+        prismaClient,
+        emailService: {
+          getEmailServiceConfig: async () => ({ enabled: true, siteUrl: "https://example.com" }),
+          sendEmailMessage: async () => {
+            throw new Error("boom");
+          },
+        },
+      }
+    );
+    assert.deepEqual(failed, { checked: 1, sent: 0, skipped: 0, failed: 1 });
+    assert.deepEqual(prismaClient.updates, []);
+  } finally {
+    console.error = originalError;
+  }
+
+  const disabled = await runForumDigests(
+    { batchSize: 10 },
+    { now, prismaClient, emailService: { getEmailServiceConfig: async () => ({ enabled: false, siteUrl: "" }) } }
+  );
+  assert.deepEqual(disabled, { checked: 0, sent: 0, skipped: 0, failed: 0 });
+});
+
+test("follow and unsubscribe reject invalid input", async () => {
+  const prismaClient = {
+    forumTopic: { findFirst: async () => null },
+    forumDigestPreference: { updateMany: async () => ({ count: 0 }) },
+  };
+
+  await assert.rejects(followForumTarget({ userId: 1, type: "user", targetId: 1, prismaClient }), {
+    statusCode: 400,
+  });
+  await assert.rejects(followForumTarget({ userId: 1, type: "topic", targetId: 9, prismaClient }), {
+    statusCode: 404,
+    message: "主题不存在",
+  });
+  await assert.rejects(updateForumDigestFrequency({ userId: 1, frequency: "hourly", prismaClient }), {
+    statusCode: 400,
+  });
+  await assert.rejects(unsubscribeForumDigest({ token: "not-a-token", prismaClient }), { statusCode: 400 });
+  await assert.rejects(unsubscribeForumDigest({ token: "d".repeat(48), prismaClient }), { statusCode: 404 });
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildForumSearchQuery,
+  buildForumSearchSnippet,
+  normalizeForumSearchQuery,
+  searchForum,
+} from "../../server/services/forum/forumSearch.mjs";
+
+test("search params are normalized and bounded", () => {
+  const options = normalizeForumSearchQuery({
+    q: `  ${"长".repeat(80)} `,
+    type: "posts",
+    categoryId: "3",
+    author: "@Alice",
+    from: "2026-08-01",
+    to: "2026-08-10",
+    page: "0",
+    pageSize: "500",
+  });
+
+  assert.equal(options.keyword.length, 50);
+  assert.equal(options.type, "posts");
+  assert.equal(options.categoryId, 3);
+  assert.equal(options.author, "Alice");
+  assert.deepEqual(options.from, new Date("2026-08-01T00:00:00.000Z"));
+  assert.deepEqual(options.to, new Date("2026-08-11T00:00:00.000Z"));
+  assert.equal(options.page, 1);
+  assert.equal(options.pageSize, 50);
+
+  assert.equal(normalizeForumSearchQuery({ type: "users", to: "nope" }).type, "all");
+  assert.equal(normalizeForumSearchQuery({ to: "nope" }).to, null);
+});
+
+test("search SQL only matches public topics and approved replies", () => {
+  const query = buildForumSearchQuery({
+    keyword: "网盘 100%",
+    categoryId: 2,
+    authorId: 7,
+    page: 3,
+    pageSize: 10,
+  });
+
+  assert.deepEqual(query.params.slice(0, 6), ["网盘 100%", "%网盘 100\\%%", "approved", "approved", "%网盘%", "%100\\%%"]);
+  assert.match(query.sql, /FROM "ForumTopic" t\n  WHERE t\."status" = \$3 AND \(t\."title" ILIKE \$5 OR t\."content" ILIKE \$5\)/);
+  assert.match(query.sql, /WHERE p\."status" = \$4 AND t\."status" = \$3 AND p\."content" ILIKE \$5 AND p\."content" ILIKE \$6/);
+  assert.match(query.sql, /t\."categoryId" = \$7 AND t\."authorId" = \$8/);
+  assert.match(query.sql, /t\."categoryId" = \$9 AND p\."authorId" = \$10/);
+  assert.match(query.sql, /LIMIT \$11 OFFSET \$12$/);
+  assert.doesNotMatch(query.sql, /ts_rank|tsvector/);
+  assert.deepEqual(query.params.slice(-2), [10, 20]);
+
+  const topicsOnly = buildForumSearchQuery({ keyword: "网盘", type: "topics" });
+  assert.doesNotMatch(topicsOnly.sql, /ForumPost/);
+  assert.equal(buildForumSearchQuery({ keyword: "   " }), null);
+});
+
+test("snippets are cut around the first match, highlighted and escaped", () => {
+  const content = `${"前言".repeat(60)}\n\n**重点**：阿里<b>网盘</b> [链接](https://x.com) 结尾`;
+  const snippet = buildForumSearchSnippet(content, "网盘", 40);
+
+  assert.ok(snippet.startsWith("…"));
+  assert.match(snippet, /重点：阿里 <mark>网盘<\/mark> 链接 结尾$/);
+  assert.equal(buildForumSearchSnippet("<script>x</script> abc", "zzz"), "x abc");
+  assert.equal(buildForumSearchSnippet("a < b", "zzz"), "a &#60; b");
+});
+
+test("searchForum hydrates rows and drops content that is no longer public", async () => {
+  const calls = [];
+  const client = {
+    user: {
+      findFirst: async ({ where }) => (where.username.equals === "alice" ? { id: 7 } : null),
+    },
+    $queryRawUnsafe: async (sql, ...params) => {
+      calls.push({ sql, params });
+      return [
+        { kind: "topic", id: 1, topicId: 1, rank: 3.2, total: 3n },
+        { kind: "post", id: 11, topicId: 1, rank: 0.4, total: 3n },
+        { kind: "post", id: 12, topicId: 2, rank: 0.3, total: 3n },
+      ];
+    },
+    forumTopic: {
+      findMany: async ({ where }) => {
+        calls.push({ topicWhere: where });
+        return [
+          {
+            id: 1,
+            title: "阿里网盘限速",
+            slug: "ali",
+            content: "阿里网盘最近限速了",
+            createdAt: new Date("2026-08-01T00:00:00.000Z"),
+            author: { id: 7, username: "alice" },
+            category: { id: 2, name: "问答", slug: "qa" },
+          },
+        ];
+      },
+    },
+    forumPost: {
+      findMany: async () => [
+        { id: 11, content: "换个网盘试试", createdAt: new Date("2026-08-02T00:00:00.000Z"), author: { id: 8, username: "bob" } },
+        { id: 12, content: "回收站里的回复 网盘", createdAt: new Date(), author: { id: 8, username: "bob" } },
+      ],
+    },
+  };
+
+  const result = await searchForum({ q: "网盘", author: "alice" }, { prismaClient: client });
+
+  assert.equal(calls[0].params.includes(7), true);
+  assert.deepEqual(calls[1].topicWhere, { id: { in: [1, 2] }, status: "approved" });
+  assert.deepEqual(result.items.map((item) => [item.type, item.id]), [["topic", 1], ["post", 11]]);
+  assert.equal(result.items[0].highlightedTitle, "阿里<mark>网盘</mark>限速");
+  assert.equal(result.items[1].snippet, "换个<mark>网盘</mark>试试");
+  assert.equal(result.items[1].author.username, "bob");
+  assert.deepEqual(result.pagination, { total: 3, page: 1, pageSize: 20, totalPages: 1 });
+
+  const unknownAuthor = await searchForum({ q: "网盘", author: "ghost" }, { prismaClient: client });
+  assert.deepEqual(unknownAuthor.items, []);
+  assert.equal(calls.length, 2);
+  assert.deepEqual((await searchForum({ q: "" })).items, []);
+});
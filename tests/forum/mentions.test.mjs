@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  MENTION_SOURCE_TYPES,
+  recordMentions,
+} from "../../server/services/forum/mentions.mjs";
+import {
+  extractMentions,
+  linkifyMentions,
+  splitMentionSegments,
+} from "../../utils/mentions.js";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const createFakeClient = ({ users, mutes = [] }) =>
+  createFakePrisma({ tables: { user: users, mention: [], mentionMute: mutes, notification: [] } });
+
+test("mentions are extracted once each, ignoring emails, code and existing links", () => {
+  assert.deepEqual(extractMentions("@alice 你好 @Bob，还有 @alice 和 @bob."), ["alice", "Bob"]);
+  assert.deepEqual(extractMentions("联系 me@example.com 或 @@carol"), []);
+  assert.deepEqual(extractMentions("@张三 看看 (@li.si-)"), ["张三", "li.si"]);
+  assert.deepEqual(
+    extractMentions("`@inline` \n```\n@fenced\n```\n[@linked](/x) @real"),
+    ["real"]
+  );
+  assert.deepEqual(extractMentions("`@inline`", { markdown: false }), ["inline"]);
+  assert.deepEqual(extractMentions("@a @b @c", { max: 2 }), ["a", "b"]);
+  assert.deepEqual(extractMentions(null), []);
+});
+
+test("mentions render as profile links in markdown and segments in plain text", () => {
+  assert.equal(
+    linkifyMentions("hi @bob, see `@code` and [@x](/y)"),
+    "hi [@bob](/forum/user/bob), see `@code` and [@x](/y)"
+  );
+  assert.equal(linkifyMentions("@张三"), `[@张三](/forum/user/${encodeURIComponent("张三")})`);
+
+  assert.deepEqual(splitMentionSegments("hey @bob."), [
+    { type: "text", text: "hey " },
+    { type: "mention", text: "@bob", username: "bob" },
+    { type: "text", text: "." },
+  ]);
+});
+
+test("recording mentions notifies new users only and respects mutes and exclusions", async () => {
+  const client = createFakeClient({
+    users: [
+      { id: 1, username: "alice" },
+      { id: 2, username: "bob" },
+      { id: 3, username: "carol" },
+      { id: 4, username: "dave" },
+      { id: 5, username: "eve", status: "disabled" },
+    ],
+    mutes: [{ userId: 3, mutedUserId: 1 }],
+  });
+  const emitted = [];
+  const io = { to: (room) => ({ emit: (eventName, payload) => emitted.push({ room, eventName, payload }) }) };
+  const options = {
+    sourceType: MENTION_SOURCE_TYPES.forumPost,
+    sourceId: 10,
+    actor: { id: 1, username: "alice" },
+    contextLabel: '主题 "Hello" 的回复',
+    link: "/forum/topic/hello",
+    excludeUserIds: [4],
+    io,
+    prismaClient: client,
+  };
+
+  const first = await recordMentions({ ...options, content: "@alice @Bob @carol @dave @eve @ghost" });
+
+  assert.deepEqual(first.map((notification) => notification.userId), [2]);
+  assert.equal(first[0].type, "mention");
+  assert.equal(first[0].link, "/forum/topic/hello");
+  assert.equal(first[0].content, '用户 alice 在主题 "Hello" 的回复中提到了您');
+  assert.deepEqual(emitted.map((item) => [item.room, item.eventName]), [["user:2", "notification:new"]]);
+  assert.deepEqual(
+    client.tables.mention.map((mention) => [mention.userId, mention.notified]),
+    [[2, true], [3, false], [4, false]]
+  );
+
+  // 编辑后再次保存：已提及过的用户不再通知
+  const edited = await recordMentions({ ...options, content: "@bob @carol 补充一下" });
+  assert.deepEqual(edited, []);
+  assert.equal(client.tables.notification.length, 1);
+});
+
+test("mentions in private rooms are limited to room members", async () => {
+  const client = createFakeClient({
+    users: [
+      { id: 1, username: "alice" },
+      { id: 2, username: "bob" },
+      { id: 3, username: "carol" },
+    ],
+  });
+
+  const notifications = await recordMentions({
+    content: "@bob @carol `@x`",
+    markdown: false,
+    sourceType: MENTION_SOURCE_TYPES.chatMessage,
+    sourceId: 7,
+    actor: { id: 1, username: "alice" },
+    contextLabel: '聊天室 "小组"',
+    allowedUserIds: [1, 2],
+    prismaClient: client,
+  });
+
+  assert.deepEqual(notifications.map((notification) => notification.userId), [2]);
+  assert.deepEqual(client.tables.mention.map((mention) => mention.userId), [2]);
+});
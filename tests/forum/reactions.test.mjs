@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { setForumAcceptedAnswer, toggleForumPostReaction } from "../../server/services/forum/reactions.mjs";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const createFakeClient = () =>
+  createFakePrisma({
+    tables: {
+      forumTopic: [{ id: 1, slug: "hello", status: "approved", authorId: 1, acceptedPostId: null }],
+      forumPost: [
+        { id: 10, topicId: 1, authorId: 2, status: "approved" },
+        { id: 11, topicId: 1, authorId: 3, status: "pending" },
+      ],
+      forumPostReaction: [],
+      forumReputationEvent: [],
+      user: [1, 2, 3, 5].map((id) => ({ id, forumReputation: 0, points: 0 })),
+      pointsHistory: [],
+    },
+    relations: { forumPost: { topic: { model: "forumTopic", foreignKey: "topicId" } } },
+  });
+
+const reputationOf = (client, userId) => client.tables.user.find((user) => user.id === userId).forumReputation;
+
+test("reactions toggle, switch type and only reward the first reaction", async () => {
+  const client = createFakeClient();
+  const react = (type, userId = 5) => toggleForumPostReaction({ postId: 10, userId, type, prismaClient: client });
+
+  const liked = await react("like");
+  assert.equal(liked.reaction, "like");
+  assert.deepEqual(liked.counts, { like: 1, thanks: 0, useful: 0 });
+  assert.equal(liked.reputation, 1);
+
+  const switched = await react("useful");
+  assert.deepEqual(switched.counts, { like: 0, thanks: 0, useful: 1 });
+  assert.equal(switched.reputation, 0);
+
+  const removed = await react("useful");
+  assert.equal(removed.reaction, null);
+  assert.deepEqual(removed.counts, { like: 0, thanks: 0, useful: 0 });
+  assert.equal(reputationOf(client, 2), 1);
+  assert.deepEqual(client.locks.filter(([key]) => key === 720200003), [
+    [720200003, "10:5"],
+    [720200003, "10:5"],
+    [720200003, "10:5"],
+  ]);
+
+  await assert.rejects(react("like", 2), { statusCode: 400 });
+  await assert.rejects(react("wow"), { statusCode: 400 });
+  await assert.rejects(toggleForumPostReaction({ postId: 11, userId: 5, type: "like", prismaClient: client }), {
+    statusCode: 404,
+  });
+});
+
+test("only the topic author can accept an approved reply from the same topic", async () => {
+  const client = createFakeClient();
+  const accept = (postId, userId = 1) => setForumAcceptedAnswer({ slug: "hello", postId, userId, prismaClient: client });
+
+  await assert.rejects(accept(10, 2), { statusCode: 403 });
+  await assert.rejects(accept(11), { statusCode: 400 });
+
+  assert.deepEqual(await accept(10), { topicId: 1, acceptedPostId: 10, reputation: 15 });
+  assert.equal(client.tables.forumTopic[0].acceptedPostId, 10);
+
+  assert.deepEqual(await accept(null), { topicId: 1, acceptedPostId: null, reputation: 0 });
+  // 取消后重新采纳不再加声望
+  assert.deepEqual(await accept(10), { topicId: 1, acceptedPostId: 10, reputation: 0 });
+  assert.equal(reputationOf(client, 2), 15);
+});
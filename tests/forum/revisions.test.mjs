@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildForumRevisionDiff,
+  listForumRevisions,
+  resolveForumEditStatus,
+  restoreForumRevision,
+  saveForumPostEdit,
+  saveForumTopicEdit,
+} from "../../server/services/forum/revisions.mjs";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const createFakeClient = () =>
+  createFakePrisma({
+    tables: {
+      forumTopic: [{ id: 1, title: "旧标题", content: "第一行\n第二行", status: "approved", revisionCount: 0, editedAt: null }],
+      forumPost: [{ id: 10, topicId: 1, content: "回复", status: "approved", revisionCount: 0, editedAt: null }],
+      forumRevision: [],
+      user: [],
+    },
+    defaults: { forumRevision: () => ({ createdAt: new Date() }) },
+    relations: {
+      forumRevision: {
+        topic: { model: "forumTopic", foreignKey: "topicId" },
+        post: { model: "forumPost", foreignKey: "postId" },
+        editor: { model: "user", foreignKey: "editorId" },
+      },
+    },
+  });
+
+test("edits of approved content only go back to review when moderation asks for it", () => {
+  assert.equal(resolveForumEditStatus({ currentStatus: "approved", canModerate: false, moderation: { needsReview: true } }), "pending");
+  assert.equal(resolveForumEditStatus({ currentStatus: "approved", canModerate: false, moderation: { needsReview: false } }), "approved");
+  assert.equal(resolveForumEditStatus({ currentStatus: "approved", canModerate: true, moderation: { needsReview: true } }), "approved");
+  assert.equal(resolveForumEditStatus({ currentStatus: "rejected", canModerate: false, moderation: { needsReview: false } }), "rejected");
+});
+
+test("line diff marks removed and added lines around unchanged ones", () => {
+  assert.deepEqual(buildForumRevisionDiff("a\nb\nc", "a\nx\nc"), [
+    { type: "same", text: "a" },
+    { type: "removed", text: "b" },
+    { type: "added", text: "x" },
+    { type: "same", text: "c" },
+  ]);
+});
+
+test("saving an edit stores the previous version and counts the revision", async () => {
+  const prismaClient = createFakeClient();
+  const now = new Date("2026-09-07T08:00:00.000Z");
+  const topic = { ...prismaClient.tables.forumTopic[0] };
+
+  const updated = await saveForumTopicEdit({
+    topic,
+    editorId: 2,
+    data: { title: "新标题", content: "第一行\n改过的第二行" },
+    now,
+    prismaClient,
+  });
+
+  assert.equal(updated.revisionCount, 1);
+  assert.equal(updated.editedAt, now);
+  assert.deepEqual(prismaClient.tables.forumRevision[0], {
+    id: 1,
+    createdAt: prismaClient.tables.forumRevision[0].createdAt,
+    topicId: 1,
+    editorId: 2,
+    title: "旧标题",
+    content: "第一行\n第二行",
+    status: "approved",
+  });
+
+  const unchanged = await saveForumPostEdit({
+    post: { ...prismaClient.tables.forumPost[0] },
+    editorId: 3,
+    data: { content: "回复", status: "approved" },
+    prismaClient,
+  });
+  assert.equal(unchanged.revisionCount, 0);
+  assert.equal(prismaClient.tables.forumRevision.length, 1);
+});
+
+test("revision list diffs each version against the next one and rollback keeps history", async () => {
+  const prismaClient = createFakeClient();
+  await saveForumTopicEdit({
+    topic: { ...prismaClient.tables.forumTopic[0] },
+    editorId: 2,
+    data: { title: "新标题", content: "第一行\n第三行" },
+    prismaClient,
+  });
+
+  const history = await listForumRevisions({ type: "topic", targetId: 1, prismaClient });
+  assert.equal(history.revisions.length, 1);
+  assert.deepEqual(history.revisions[0].titleChange, { before: "旧标题", after: "新标题" });
+  assert.deepEqual(
+    history.revisions[0].diff.filter((line) => line.type !== "same"),
+    [
+      { type: "removed", text: "第二行" },
+      { type: "added", text: "第三行" },
+    ]
+  );
+
+  const restored = await restoreForumRevision({ revisionId: 1, editorId: 9, prismaClient });
+  assert.equal(restored.type, "topic");
+  assert.equal(restored.target.title, "旧标题");
+  assert.equal(restored.target.content, "第一行\n第二行");
+  assert.equal(restored.target.status, "approved");
+  assert.equal(restored.target.revisionCount, 2);
+  assert.equal(prismaClient.tables.forumRevision[1].content, "第一行\n第三行");
+  assert.equal(prismaClient.tables.forumRevision[1].editorId, 9);
+});
+
+test("revision lookups reject unknown targets", async () => {
+  const prismaClient = createFakeClient();
+
+  await assert.rejects(listForumRevisions({ type: "user", targetId: 1, prismaClient }), { statusCode: 400 });
+  await assert.rejects(listForumRevisions({ type: "post", targetId: 99, prismaClient }), {
+    statusCode: 404,
+    message: "回复不存在",
+  });
+  await assert.rejects(restoreForumRevision({ revisionId: 5, editorId: 9, prismaClient }), { statusCode: 404 });
+});
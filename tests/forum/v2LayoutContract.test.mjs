@@ -9,6 +9,8 @@ const forumPages = [
   ["forum category", "../../pages/forum/category/[slug].vue"],
   ["forum topic detail", "../../pages/forum/topic/[slug].vue"],
   ["forum create", "../../pages/forum/create.vue"],
+  ["forum user profile", "../../pages/forum/user/[username].vue"],
+  ["forum search", "../../pages/forum/search.vue"],
   ["user forum content", "../../pages/user/forum/index.vue"],
 ];
 
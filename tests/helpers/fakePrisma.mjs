@@ -0,0 +1,248 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// 测试共用的内存版 Prisma 客户端：每个模型一张数组表，支持服务里常用的查询写法。
+// 只允许使用生成客户端里真实存在的模型，schema 加了模型却没重新生成时测试会直接失败。
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+/**
+ * 读取生成客户端里的模型访问器，返回 { 访问器名: 模型名 }，例如 { resourceRequest: "ResourceRequest" }
+ */
+export const readGeneratedPrismaDelegates = () => {
+  const source = fs.readFileSync(path.join(repoRoot, "generated/prisma/internal/class.ts"), "utf8");
+  return Object.fromEntries(
+    [...source.matchAll(/get (\w+)\(\): Prisma\.(\w+)Delegate</g)].map(([, accessor, model]) => [accessor, model])
+  );
+};
+
+const GENERATED_DELEGATES = readGeneratedPrismaDelegates();
+
+const FILTER_OPERATORS = ["equals", "in", "notIn", "lt", "lte", "gt", "gte", "not", "contains", "startsWith", "mode"];
+
+const isPlainObject = (value) =>
+  value !== null && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value);
+
+const isFilter = (value) => isPlainObject(value) && Object.keys(value).some((key) => FILTER_OPERATORS.includes(key));
+
+const normalize = (value, insensitive) => {
+  const plain = value instanceof Date ? value.getTime() : value ?? null;
+  return insensitive && typeof plain === "string" ? plain.toLowerCase() : plain;
+};
+
+const matchesFilter = (actual, filter) => {
+  const insensitive = filter.mode === "insensitive";
+  const value = normalize(actual, insensitive);
+  const compare = (expected) => normalize(expected, insensitive);
+
+  return Object.entries(filter).every(([operator, expected]) => {
+    switch (operator) {
+      case "equals":
+        return value === compare(expected);
+      case "in":
+        return expected.map(compare).includes(value);
+      case "notIn":
+        return !expected.map(compare).includes(value);
+      case "lt":
+        return value !== null && value < compare(expected);
+      case "lte":
+        return value !== null && value <= compare(expected);
+      case "gt":
+        return value !== null && value > compare(expected);
+      case "gte":
+        return value !== null && value >= compare(expected);
+      case "not":
+        return isFilter(expected) ? !matchesFilter(actual, expected) : value !== compare(expected);
+      case "contains":
+        return typeof value === "string" && value.includes(compare(expected));
+      case "startsWith":
+        return typeof value === "string" && value.startsWith(compare(expected));
+      default:
+        return true;
+    }
+  });
+};
+
+export const matchesWhere = (row, where = {}) =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "AND") return [].concat(condition).every((item) => matchesWhere(row, item));
+    if (key === "OR") return condition.some((item) => matchesWhere(row, item));
+    if (key === "NOT") return ![].concat(condition).some((item) => matchesWhere(row, item));
+    if (isFilter(condition)) return matchesFilter(row[key], condition);
+    // 复合唯一键，例如 { postId_userId: { postId, userId } }
+    if (isPlainObject(condition)) return matchesWhere(row, condition);
+    return normalize(row[key]) === normalize(condition);
+  });
+
+const applyData = (row, data) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && "increment" in value) {
+      row[key] = (row[key] || 0) + value.increment;
+    } else if (isPlainObject(value) && "decrement" in value) {
+      row[key] = (row[key] || 0) - value.decrement;
+    } else {
+      row[key] = value;
+    }
+  }
+  return row;
+};
+
+const sortRows = (rows, orderBy) => {
+  const orders = [].concat(orderBy || []).flatMap((item) => Object.entries(item));
+  return [...rows].sort((left, right) => {
+    for (const [field, order] of orders) {
+      const direction = (typeof order === "string" ? order : order.sort) === "desc" ? -1 : 1;
+      const a = normalize(left[field]);
+      const b = normalize(right[field]);
+      if (a === b) continue;
+      if (a === null || b === null) {
+        const nullsFirst = typeof order === "object" ? order.nulls === "first" : direction === 1;
+        return (a === null) === nullsFirst ? -1 : 1;
+      }
+      return a < b ? -direction : direction;
+    }
+    return 0;
+  });
+};
+
+/**
+ * 创建内存客户端。
+ * - tables：按模型访问器名给出初始数据，数组会被直接使用，测试可以在外面读写同一份数据
+ * - defaults：按模型给新建记录补默认字段，接收 data 和当前表
+ * - relations：按模型声明一对一关联，例如 { resourceRequestFulfillment: { userResource: { model: "userResource", foreignKey: "userResourceId" } } }，
+ *   只在 include / select 里出现时才带上
+ * - methods：按模型覆盖或补充方法，调用时第二个参数是客户端本身
+ * 所有 $executeRawUnsafe 的参数按顺序记录在 client.locks 里，用来检查咨询锁
+ */
+export const createFakePrisma = ({ tables = {}, defaults = {}, relations = {}, methods = {} } = {}) => {
+  const models = new Set([
+    ...Object.keys(tables),
+    ...Object.keys(defaults),
+    ...Object.keys(relations),
+    ...Object.keys(methods),
+    ...Object.values(relations).flatMap((items) => Object.values(items).map((relation) => relation.model)),
+  ]);
+  for (const model of models) {
+    if (!GENERATED_DELEGATES[model]) {
+      throw new Error(`生成的 Prisma 客户端里没有 ${model}，请先运行 prisma generate`);
+    }
+  }
+
+  const client = {
+    tables: {},
+    locks: [],
+    $transaction: async (arg) => (typeof arg === "function" ? arg(client) : Promise.all(arg)),
+    $executeRawUnsafe: async (sql, ...params) => {
+      client.locks.push(params);
+      return 1;
+    },
+  };
+
+  const tableOf = (model) => {
+    client.tables[model] ||= [];
+    return client.tables[model];
+  };
+
+  const shape = (model, row, { select, include } = {}) => {
+    if (!row) return null;
+    const result = select
+      ? Object.fromEntries(Object.keys(select).filter((key) => select[key] && key in row).map((key) => [key, row[key]]))
+      : { ...row };
+
+    for (const [name, relation] of Object.entries(relations[model] || {})) {
+      const args = include?.[name] ?? select?.[name];
+      if (!args) continue;
+      const target = tableOf(relation.model).find((item) => item.id === row[relation.foreignKey]);
+      result[name] = shape(relation.model, target, args === true ? {} : args);
+    }
+    return result;
+  };
+
+  const createDelegate = (model) => {
+    const rows = tableOf(model);
+    const findRow = (where) => rows.find((row) => matchesWhere(row, where));
+    const findRows = ({ where, orderBy, skip = 0, take } = {}) => {
+      const matched = sortRows(rows.filter((row) => matchesWhere(row, where)), orderBy).slice(skip);
+      return take === undefined ? matched : matched.slice(0, take);
+    };
+    const insert = (data) => {
+      const row = { id: rows.reduce((max, item) => Math.max(max, Number(item.id) || 0), 0) + 1 };
+      Object.assign(row, defaults[model]?.(data, rows), data);
+      rows.push(row);
+      return row;
+    };
+    const requireRow = (where) => {
+      const row = findRow(where);
+      if (!row) {
+        throw Object.assign(new Error(`${model} 记录不存在`), { code: "P2025" });
+      }
+      return row;
+    };
+
+    return {
+      findUnique: async (args) => shape(model, findRow(args.where), args),
+      findFirst: async (args = {}) => shape(model, findRows(args)[0], args),
+      findMany: async (args = {}) => findRows(args).map((row) => shape(model, row, args)),
+      count: async ({ where } = {}) => findRows({ where }).length,
+      create: async (args) => shape(model, insert(args.data), args),
+      createMany: async ({ data }) => {
+        data.forEach(insert);
+        return { count: data.length };
+      },
+      update: async (args) => shape(model, applyData(requireRow(args.where), args.data), args),
+      updateMany: async ({ where, data }) => {
+        const matched = findRows({ where });
+        matched.forEach((row) => applyData(row, data));
+        return { count: matched.length };
+      },
+      upsert: async (args) => {
+        const row = findRow(args.where);
+        return shape(model, row ? applyData(row, args.update) : insert(args.create), args);
+      },
+      delete: async (args) => {
+        const row = requireRow(args.where);
+        rows.splice(rows.indexOf(row), 1);
+        return shape(model, row, args);
+      },
+      deleteMany: async ({ where } = {}) => {
+        const matched = findRows({ where });
+        matched.forEach((row) => rows.splice(rows.indexOf(row), 1));
+        return { count: matched.length };
+      },
+      aggregate: async ({ where, _sum = {} }) => {
+        const matched = findRows({ where });
+        const sums = Object.keys(_sum).map((field) => [
+          field,
+          matched.length > 0 ? matched.reduce((total, row) => total + (row[field] || 0), 0) : null,
+        ]);
+        return { _sum: Object.fromEntries(sums) };
+      },
+      groupBy: async ({ by, where }) => {
+        const groups = new Map();
+        for (const row of findRows({ where })) {
+          const key = JSON.stringify(by.map((field) => row[field]));
+          if (!groups.has(key)) {
+            groups.set(key, { ...Object.fromEntries(by.map((field) => [field, row[field]])), _count: { _all: 0 } });
+          }
+          groups.get(key)._count._all += 1;
+        }
+        return [...groups.values()];
+      },
+    };
+  };
+
+  for (const [model, rows] of Object.entries(tables)) {
+    client.tables[model] = rows;
+  }
+  for (const model of models) {
+    const custom = Object.fromEntries(
+      Object.entries(methods[model] || {}).map(([name, method]) => [name, (args) => method(args, client)])
+    );
+    client[model] = { ...createDelegate(model), ...custom };
+  }
+
+  return client;
+};
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  FORUM_REPUTATION_KINDS,
+  getForumReputationDayStart,
+  getForumReputationOptions,
+  grantForumReputation,
+  resolveForumReputationGrant,
+} from "../../server/services/points/forumReputation.mjs";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const OPTIONS = getForumReputationOptions({});
+
+const createFakeTx = ({ events = [] } = {}) =>
+  createFakePrisma({
+    tables: {
+      forumReputationEvent: events,
+      user: [{ id: 1, forumReputation: 0, points: 0 }],
+      pointsHistory: [],
+    },
+  });
+
+test("reputation options fall back to defaults and clamp bad values", () => {
+  assert.deepEqual(OPTIONS, { dailyPointCap: 50, dailyPairCap: 3 });
+  assert.deepEqual(
+    getForumReputationOptions({ FORUM_REPUTATION_DAILY_POINT_CAP: "-5", FORUM_REPUTATION_DAILY_PAIR_CAP: "x" }),
+    { dailyPointCap: 0, dailyPairCap: 3 }
+  );
+});
+
+test("cap rules skip self rewards, stop repeated givers and trim points at the daily cap", () => {
+  assert.deepEqual(
+    resolveForumReputationGrant({ reputation: 3, recipientId: 1, actorId: 2, options: OPTIONS }),
+    { reputation: 3, points: 3, capped: null }
+  );
+  assert.deepEqual(
+    resolveForumReputationGrant({ reputation: 3, recipientId: 1, actorId: 1, options: OPTIONS }),
+    { reputation: 0, points: 0, capped: "self" }
+  );
+  assert.deepEqual(
+    resolveForumReputationGrant({ reputation: 3, recipientId: 1, actorId: 2, pairRewardsToday: 3, options: OPTIONS }),
+    { reputation: 0, points: 0, capped: "pair" }
+  );
+  assert.deepEqual(
+    resolveForumReputationGrant({ reputation: 15, recipientId: 1, actorId: 2, pointsEarnedToday: 40, options: OPTIONS }),
+    { reputation: 15, points: 10, capped: "daily" }
+  );
+  assert.deepEqual(
+    resolveForumReputationGrant({ reputation: 2, recipientId: 1, actorId: 2, pointsEarnedToday: 80, options: OPTIONS }),
+    { reputation: 2, points: 0, capped: "daily" }
+  );
+});
+
+test("the daily window starts at midnight Asia/Shanghai", () => {
+  assert.deepEqual(
+    getForumReputationDayStart(new Date("2026-08-24T15:59:00.000Z")),
+    new Date("2026-08-23T16:00:00.000Z")
+  );
+  assert.deepEqual(
+    getForumReputationDayStart(new Date("2026-08-24T16:01:00.000Z")),
+    new Date("2026-08-24T16:00:00.000Z")
+  );
+});
+
+test("grants are recorded once per source and count towards the caps", async () => {
+  const now = new Date("2026-08-24T04:00:00.000Z");
+  const yesterday = new Date("2026-08-23T04:00:00.000Z");
+  const tx = createFakeTx({
+    events: [
+      { kind: "reaction", postId: 90, actorId: 3, userId: 1, reputation: 3, points: 3, createdAt: yesterday },
+      { kind: "reaction", postId: 91, actorId: 2, userId: 1, reputation: 3, points: 3, createdAt: now },
+      { kind: "reaction", postId: 92, actorId: 2, userId: 1, reputation: 3, points: 3, createdAt: now },
+    ],
+  });
+  const grant = (input) =>
+    grantForumReputation(tx, { kind: FORUM_REPUTATION_KINDS.reaction, recipientId: 1, now, options: OPTIONS, ...input });
+
+  assert.deepEqual(await grant({ postId: 93, actorId: 2, reputation: 3 }), { reputation: 3, points: 3, capped: null });
+  // 同一人当天第四次
+  assert.deepEqual(await grant({ postId: 94, actorId: 2, reputation: 3 }), { reputation: 0, points: 0, capped: "pair" });
+  // 已奖励过的来源不再处理
+  assert.equal(await grant({ postId: 93, actorId: 2, reputation: 1 }), null);
+
+  const accepted = await grant({
+    kind: FORUM_REPUTATION_KINDS.acceptedAnswer,
+    postId: 95,
+    actorId: 4,
+    reputation: 15,
+    options: { ...OPTIONS, dailyPointCap: 20 },
+  });
+  assert.deepEqual(accepted, { reputation: 15, points: 11, capped: "daily" });
+
+  assert.deepEqual(tx.tables.user[0], { id: 1, forumReputation: 18, points: 14 });
+  assert.deepEqual(
+    tx.tables.pointsHistory.map((item) => [item.type, item.points, item.relatedId, item.description]),
+    [
+      ["forum_reputation", 3, 93, "论坛回复获得认可"],
+      ["forum_reputation", 11, 95, "论坛回复被采纳为最佳答案"],
+    ]
+  );
+  // 查重也在锁内，已处理过的来源同样会先排队
+  assert.deepEqual(tx.locks, [[720200002, 1], [720200002, 1], [720200002, 1], [720200002, 1]]);
+});
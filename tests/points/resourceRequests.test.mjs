@@ -0,0 +1,329 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  acceptResourceRequestFulfillment,
+  buildResourceRequestNotification,
+  cancelResourceRequest,
+  createResourceRequest,
+  expireResourceRequests,
+  fulfillResourceRequest,
+  getResourceRequestOptions,
+  normalizeResourceRequestInput,
+} from "../../server/services/points/resourceRequests.mjs";
+import { createFakePrisma } from "../helpers/fakePrisma.mjs";
+
+const NOW = new Date("2026-06-22T08:00:00.000Z");
+const OPTIONS = getResourceRequestOptions({});
+
+const createFakeClient = ({ requests = [], fulfillments = [], userResources = [], points = {} } = {}) =>
+  createFakePrisma({
+    tables: {
+      resourceRequest: requests,
+      resourceRequestFulfillment: fulfillments,
+      userResource: userResources,
+      user: Object.entries(points).map(([id, value]) => ({ id: Number(id), points: value })),
+      pointsHistory: [],
+    },
+    defaults: {
+      resourceRequest: () => ({ status: "open" }),
+      resourceRequestFulfillment: () => ({ acceptedAt: null }),
+    },
+    relations: {
+      resourceRequestFulfillment: {
+        userResource: { model: "userResource", foreignKey: "userResourceId" },
+      },
+    },
+  });
+
+const pointsOf = (client, userId) => client.tables.user.find((user) => user.id === userId)?.points;
+
+test("normalizeResourceRequestInput validates bounty and lifetime", () => {
+  assert.deepEqual(
+    normalizeResourceRequestInput(
+      { title: "  三体   全集 ", description: " 4K ", bounty: 50, expireDays: 3 },
+      { options: OPTIONS, now: NOW }
+    ),
+    {
+      title: "三体 全集",
+      description: "4K",
+      bounty: 50,
+      expiresAt: new Date("2026-06-25T08:00:00.000Z"),
+    }
+  );
+
+  assert.throws(() => normalizeResourceRequestInput({ title: "" }), /资源名称/);
+  assert.throws(() => normalizeResourceRequestInput({ title: "a", bounty: -1 }), /非负整数/);
+  assert.throws(() => normalizeResourceRequestInput({ title: "a", bounty: 1.5 }), /非负整数/);
+  assert.throws(
+    () => normalizeResourceRequestInput({ title: "a", bounty: OPTIONS.maxBounty + 1 }),
+    /不能超过/
+  );
+  assert.throws(() => normalizeResourceRequestInput({ title: "a", expireDays: 0 }), /有效期/);
+});
+
+test("createResourceRequest stakes the bounty from permanent points", async () => {
+  const client = createFakeClient({ points: { 7: 120 } });
+
+  const request = await createResourceRequest({
+    userId: 7,
+    input: { title: "流浪地球", bounty: 100 },
+    options: OPTIONS,
+    now: NOW,
+    client,
+  });
+
+  assert.equal(request.requesterId, 7);
+  assert.deepEqual(client.locks, [[720100001, 7]]);
+  assert.equal(pointsOf(client, 7), 20);
+  assert.deepEqual(client.tables.pointsHistory, [
+    {
+      id: 1,
+      userId: 7,
+      points: -100,
+      type: "resource_request_bounty",
+      description: "求资源悬赏：流浪地球",
+      relatedId: request.id,
+    },
+  ]);
+
+  await assert.rejects(
+    createResourceRequest({
+      userId: 7,
+      input: { title: "另一个", bounty: 100 },
+      options: OPTIONS,
+      now: NOW,
+      client,
+    }),
+    (error) => error.statusCode === 400 && /积分不足/.test(error.message)
+  );
+  assert.equal(client.tables.resourceRequest.length, 1);
+});
+
+test("createResourceRequest limits open requests per user", async () => {
+  const client = createFakeClient({
+    requests: [{ id: 1, requesterId: 7, status: "open" }],
+  });
+
+  await assert.rejects(
+    createResourceRequest({
+      userId: 7,
+      input: { title: "流浪地球" },
+      options: { ...OPTIONS, maxOpenPerUser: 1 },
+      now: NOW,
+      client,
+    }),
+    (error) => error.statusCode === 409
+  );
+});
+
+test("fulfillResourceRequest only accepts the fulfiller's published submissions", async () => {
+  const request = {
+    id: 1,
+    requesterId: 7,
+    title: "流浪地球",
+    bounty: 0,
+    status: "open",
+    expiresAt: new Date("2026-06-30T00:00:00.000Z"),
+  };
+  const notifications = [];
+  const client = createFakeClient({
+    requests: [request],
+    userResources: [
+      { id: 30, creatorId: 8, status: "published" },
+      { id: 31, creatorId: 8, status: "pending" },
+    ],
+  });
+  const notify = async (_client, userId, payload) => notifications.push({ userId, ...payload });
+
+  await assert.rejects(
+    fulfillResourceRequest({ userId: 7, requestId: 1, input: { userResourceId: 30 }, now: NOW, client, notify }),
+    /自己发布/
+  );
+  await assert.rejects(
+    fulfillResourceRequest({ userId: 8, requestId: 1, input: { userResourceId: 31 }, now: NOW, client, notify }),
+    /已通过审核/
+  );
+
+  const fulfillment = await fulfillResourceRequest({
+    userId: 8,
+    requestId: 1,
+    input: { userResourceId: 30, note: " 蓝光 " },
+    now: NOW,
+    client,
+    notify,
+  });
+
+  assert.deepEqual(client.tables.resourceRequestFulfillment, [
+    { id: 1, acceptedAt: null, userResourceId: 30, note: "蓝光", requestId: 1, userId: 8 },
+  ]);
+  assert.equal(fulfillment.id, 1);
+  assert.deepEqual(notifications, [
+    { userId: 7, ...buildResourceRequestNotification("fulfilled", request) },
+  ]);
+
+  await assert.rejects(
+    fulfillResourceRequest({
+      userId: 8,
+      requestId: 1,
+      input: { userResourceId: 30 },
+      now: new Date("2026-07-01T00:00:00.000Z"),
+      client,
+      notify,
+    }),
+    (error) => error.statusCode === 409
+  );
+});
+
+test("acceptResourceRequestFulfillment pays the bounty to the fulfiller once", async () => {
+  const notifications = [];
+  const client = createFakeClient({
+    requests: [
+      {
+        id: 1,
+        requesterId: 7,
+        title: "流浪地球",
+        bounty: 100,
+        status: "open",
+        expiresAt: new Date("2026-06-30T00:00:00.000Z"),
+      },
+    ],
+    fulfillments: [{ id: 4, requestId: 1, userId: 8, userResourceId: 30, acceptedAt: null }],
+    userResources: [{ id: 30, creatorId: 8, status: "published" }],
+    points: { 8: 5 },
+  });
+  const notify = async (_client, userId, payload) => notifications.push({ userId, ...payload });
+
+  await assert.rejects(
+    acceptResourceRequestFulfillment({ userId: 8, requestId: 1, fulfillmentId: 4, now: NOW, client, notify }),
+    (error) => error.statusCode === 404
+  );
+
+  const accepted = await acceptResourceRequestFulfillment({
+    userId: 7,
+    requestId: 1,
+    fulfillmentId: 4,
+    now: NOW,
+    client,
+    notify,
+  });
+
+  assert.equal(accepted.acceptedAt, NOW);
+  assert.equal(client.tables.resourceRequest[0].status, "fulfilled");
+  assert.equal(pointsOf(client, 8), 105);
+  assert.deepEqual(client.tables.pointsHistory, [
+    {
+      id: 1,
+      userId: 8,
+      points: 100,
+      type: "resource_request_reward",
+      description: "求资源赏金：流浪地球",
+      relatedId: 1,
+    },
+  ]);
+  assert.equal(notifications[0].userId, 8);
+  assert.match(notifications[0].content, /100 积分悬赏已到账/);
+
+  await assert.rejects(
+    acceptResourceRequestFulfillment({ userId: 7, requestId: 1, fulfillmentId: 4, now: NOW, client, notify }),
+    (error) => error.statusCode === 409
+  );
+  assert.equal(pointsOf(client, 8), 105);
+});
+
+test("acceptResourceRequestFulfillment rejects expired requests and withdrawn submissions", async () => {
+  const client = createFakeClient({
+    requests: [
+      {
+        id: 1,
+        requesterId: 7,
+        title: "流浪地球",
+        bounty: 100,
+        status: "open",
+        expiresAt: new Date("2026-06-30T00:00:00.000Z"),
+      },
+      {
+        id: 2,
+        requesterId: 7,
+        title: "三体",
+        bounty: 50,
+        status: "open",
+        expiresAt: new Date("2026-06-20T00:00:00.000Z"),
+      },
+    ],
+    fulfillments: [
+      { id: 4, requestId: 1, userId: 8, userResourceId: 31, acceptedAt: null },
+      { id: 5, requestId: 2, userId: 8, userResourceId: 30, acceptedAt: null },
+    ],
+    userResources: [
+      { id: 30, creatorId: 8, status: "published" },
+      { id: 31, creatorId: 8, status: "rejected" },
+    ],
+    points: { 8: 5 },
+  });
+  const notify = async () => {};
+
+  await assert.rejects(
+    acceptResourceRequestFulfillment({ userId: 7, requestId: 1, fulfillmentId: 4, now: NOW, client, notify }),
+    (error) => error.statusCode === 409 && /投稿已不可用/.test(error.message)
+  );
+  await assert.rejects(
+    acceptResourceRequestFulfillment({ userId: 7, requestId: 2, fulfillmentId: 5, now: NOW, client, notify }),
+    (error) => error.statusCode === 409
+  );
+
+  assert.deepEqual(
+    client.tables.resourceRequest.map((request) => request.status),
+    ["open", "open"]
+  );
+  assert.equal(pointsOf(client, 8), 5);
+  assert.deepEqual(client.tables.pointsHistory, []);
+});
+
+test("cancelResourceRequest refunds the requester", async () => {
+  const client = createFakeClient({
+    requests: [{ id: 1, requesterId: 7, title: "流浪地球", bounty: 60, status: "open" }],
+    points: { 7: 0 },
+  });
+
+  const cancelled = await cancelResourceRequest({ userId: 7, requestId: 1, now: NOW, client });
+
+  assert.equal(cancelled.status, "cancelled");
+  assert.equal(pointsOf(client, 7), 60);
+  assert.equal(client.tables.pointsHistory[0].type, "resource_request_refund");
+  await assert.rejects(
+    cancelResourceRequest({ userId: 7, requestId: 1, now: NOW, client }),
+    (error) => error.statusCode === 409
+  );
+  assert.equal(pointsOf(client, 7), 60);
+});
+
+test("expireResourceRequests closes overdue requests and refunds bounties", async () => {
+  const notifications = [];
+  const client = createFakeClient({
+    requests: [
+      { id: 1, requesterId: 7, title: "过期的", bounty: 30, status: "open", expiresAt: new Date("2026-06-21T00:00:00.000Z") },
+      { id: 2, requesterId: 9, title: "没悬赏", bounty: 0, status: "open", expiresAt: new Date("2026-06-22T08:00:00.000Z") },
+      { id: 3, requesterId: 7, title: "还没到期", bounty: 10, status: "open", expiresAt: new Date("2026-06-23T00:00:00.000Z") },
+    ],
+    points: { 7: 0 },
+  });
+  const notify = async (_client, userId, payload) => notifications.push({ userId, ...payload });
+
+  const summary = await expireResourceRequests({ now: NOW, client, notify });
+
+  assert.deepEqual(summary, { checked: 2, expired: 2, refunded: 30, failed: 0 });
+  assert.deepEqual(
+    client.tables.resourceRequest.map((request) => request.status),
+    ["expired", "expired", "open"]
+  );
+  assert.equal(pointsOf(client, 7), 30);
+  assert.equal(client.tables.pointsHistory.length, 1);
+  assert.deepEqual(
+    notifications.map((notification) => [notification.userId, notification.relatedId]),
+    [
+      [7, 1],
+      [9, 2],
+    ]
+  );
+});
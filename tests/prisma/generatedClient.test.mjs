@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { createFakePrisma, readGeneratedPrismaDelegates } from "../helpers/fakePrisma.mjs";
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+const schema = fs.readFileSync(path.join(repoRoot, "prisma/schema.prisma"), "utf8");
+const classSource = fs.readFileSync(path.join(repoRoot, "generated/prisma/internal/class.ts"), "utf8");
+
+// schema.prisma 里每个模型的字段名，按声明顺序
+const schemaModels = Object.fromEntries(
+  [...schema.matchAll(/^model (\w+) \{\n([\s\S]*?)^\}/gm)].map(([, name, body]) => [
+    name,
+    body
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => /^\w/.test(line))
+      .map((line) => line.split(/\s+/)[0]),
+  ])
+);
+
+const runtimeDataModel = JSON.parse(
+  JSON.parse(classSource.match(/config\.runtimeDataModel = JSON\.parse\(("(?:[^"\\]|\\.)*")\)/)[1])
+);
+
+const toAccessor = (model) => model.charAt(0).toLowerCase() + model.slice(1);
+
+test("every schema model has a delegate on the generated client", () => {
+  const delegates = readGeneratedPrismaDelegates();
+
+  assert.ok(Object.keys(schemaModels).length > 0);
+  for (const model of Object.keys(schemaModels)) {
+    assert.equal(delegates[toAccessor(model)], model, `prisma.${toAccessor(model)} 不存在，请重新运行 prisma generate`);
+  }
+});
+
+test("generated data model carries the same fields as schema.prisma", () => {
+  assert.deepEqual(Object.keys(runtimeDataModel.models).sort(), Object.keys(schemaModels).sort());
+  for (const [model, fields] of Object.entries(schemaModels)) {
+    assert.deepEqual(
+      runtimeDataModel.models[model].fields.map((field) => field.name),
+      fields,
+      `${model} 的字段和生成客户端不一致`
+    );
+  }
+});
+
+test("fake clients only accept models the generated client knows", () => {
+  assert.throws(() => createFakePrisma({ tables: { notAModel: [] } }), /prisma generate/);
+  assert.throws(
+    () => createFakePrisma({ relations: { resourceRequest: { user: { model: "account", foreignKey: "userId" } } } }),
+    /account/
+  );
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { normalizeExternalPanSourceInput } from "../../server/services/search/externalPanSourceRecords.mjs";
+import {
+  DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS,
+  buildExternalPanSearchUrl,
+  getExternalPanSourceConfigs,
+  runExternalPanSourceTest,
+  toExternalPanSourceConfig,
+} from "../../server/services/search/externalPanSources.mjs";
+
+const flarumInput = {
+  key: "My-Forum",
+  label: " 新论坛 ",
+  parserType: "flarumApi",
+  searchUrlTemplate: "https://forum.example.com/api/discussions?filter%5Bq%5D={keyword}",
+};
+
+test("normalizeExternalPanSourceInput fills defaults for a new flarum forum", () => {
+  const data = normalizeExternalPanSourceInput(flarumInput);
+
+  assert.equal(data.key, "my-forum");
+  assert.equal(data.label, "新论坛");
+  assert.equal(data.baseUrl, "https://forum.example.com");
+  assert.equal(data.timeoutMs, 9000);
+  assert.equal(data.detailLimit, 6);
+  assert.equal(data.enabled, true);
+  assert.deepEqual(data.params, {});
+});
+
+test("normalizeExternalPanSourceInput rejects invalid definitions", () => {
+  assert.throws(
+    () => normalizeExternalPanSourceInput({ ...flarumInput, parserType: "unknown" }),
+    /解析器类型/
+  );
+  assert.throws(
+    () => normalizeExternalPanSourceInput({ ...flarumInput, searchUrlTemplate: "https://forum.example.com/search" }),
+    /\{keyword\}/
+  );
+  assert.throws(
+    () => normalizeExternalPanSourceInput({ ...flarumInput, searchUrlTemplate: "ftp://x/{keyword}" }),
+    /http/
+  );
+  assert.throws(
+    () => normalizeExternalPanSourceInput({ ...flarumInput, timeoutMs: 100 }),
+    /超时时间/
+  );
+  assert.throws(
+    () => normalizeExternalPanSourceInput({ ...flarumInput, params: "{bad json" }),
+    /JSON/
+  );
+});
+
+test("normalizeExternalPanSourceInput allows body-keyword APIs and merges existing records", () => {
+  const existing = normalizeExternalPanSourceInput({
+    key: "soso",
+    label: "SOSO",
+    parserType: "sosoApi",
+    searchUrlTemplate: "https://www.sosoyunpan.com/list",
+    params: '{"pageSize": "20", "headers": {"X-Token": " abc "}}',
+  });
+  assert.deepEqual(existing.params, { pageSize: 20, headers: { "X-Token": "abc" } });
+
+  const updated = normalizeExternalPanSourceInput({ enabled: false }, existing);
+  assert.equal(updated.enabled, false);
+  assert.equal(updated.key, "soso");
+  assert.deepEqual(updated.params, existing.params);
+});
+
+test("built-in definitions pass validation and keep adapter configs stable", () => {
+  for (const definition of DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS) {
+    assert.doesNotThrow(() => normalizeExternalPanSourceInput(definition), definition.key);
+  }
+
+  const [panclub] = getExternalPanSourceConfigs();
+  assert.equal(panclub.id, "panclub-quark");
+  assert.equal(
+    panclub.searchUrl("流浪 地球"),
+    "https://pan.club/s/0/0/1/%E6%B5%81%E6%B5%AA%20%E5%9C%B0%E7%90%83/"
+  );
+  assert.equal(buildExternalPanSearchUrl("https://x.test/list", "a"), "https://x.test/list");
+});
+
+test("runExternalPanSourceTest parses a pasted sample without fetching", async () => {
+  const source = toExternalPanSourceConfig({
+    ...normalizeExternalPanSourceInput(flarumInput),
+  });
+  const sample = JSON.stringify({
+    data: [
+      {
+        id: "1",
+        attributes: { title: "流浪地球 4K" },
+        relationships: { firstPost: { data: { id: "9", type: "posts" } } },
+      },
+    ],
+    included: [
+      {
+        id: "9",
+        type: "posts",
+        attributes: { contentHtml: '<a href="https://pan.quark.cn/s/sample1">链接</a>' },
+      },
+    ],
+  });
+
+  const result = await runExternalPanSourceTest(source, "流浪地球", { sampleText: sample });
+  assert.equal(result.ok, true);
+  assert.equal(result.items.length, 1);
+  assert.equal(result.items[0].links[0].link, "https://pan.quark.cn/s/sample1");
+
+  const broken = await runExternalPanSourceTest(source, "流浪地球", { sampleText: "<html>" });
+  assert.equal(broken.ok, false);
+  assert.ok(broken.error);
+});
+
+test("panClubDetail sources respect the configured detail limit", async () => {
+  const source = toExternalPanSourceConfig({
+    ...DEFAULT_EXTERNAL_PAN_SOURCE_DEFINITIONS[0],
+    detailLimit: 1,
+  });
+  const html = '<a href="/file/1/">三体</a><a href="/file/2/">三体 2</a>';
+
+  const result = await runExternalPanSourceTest(source, "三体", { sampleText: html });
+  assert.equal(result.details.length, 1);
+  assert.equal(result.details[0].detailUrl, "https://pan.club/file/1/");
+});
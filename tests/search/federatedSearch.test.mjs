@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createFederatedLinkDeduper,
+  formatFederatedEvent,
+  getFederatedInternalToken,
+  isTrustedFederatedRequest,
+  resolveFederatedSearchFormat,
+  runFederatedSearch,
+} from "../../server/services/search/federatedSearch.mjs";
+
+test("resolveFederatedSearchFormat defaults to SSE", () => {
+  assert.equal(resolveFederatedSearchFormat("", ""), "sse");
+  assert.equal(resolveFederatedSearchFormat("NDJSON", ""), "ndjson");
+  assert.equal(resolveFederatedSearchFormat("", "application/x-ndjson"), "ndjson");
+  assert.equal(resolveFederatedSearchFormat("xml", "text/event-stream"), "sse");
+});
+
+test("formatFederatedEvent writes SSE frames and NDJSON lines", () => {
+  const event = { type: "source_status", source: "pansou", status: "ok" };
+
+  assert.equal(
+    formatFederatedEvent(event, "sse"),
+    `event: source_status\ndata: ${JSON.stringify(event)}\n\n`
+  );
+  assert.equal(formatFederatedEvent(event, "ndjson"), `${JSON.stringify(event)}\n`);
+});
+
+test("createFederatedLinkDeduper drops links already seen from other sources", () => {
+  const dedupe = createFederatedLinkDeduper();
+
+  const first = dedupe([
+    { name: " 流浪地球 ", links: [{ link: "https://pan.quark.cn/s/abc123?from=x" }] },
+  ]);
+  assert.equal(first.items.length, 1);
+  assert.equal(first.items[0].name, "流浪地球");
+
+  const second = dedupe([
+    { name: "流浪地球 4K", links: [{ link: "https://pan.quark.cn/s/abc123" }] },
+    {
+      name: "流浪地球2",
+      links: [
+        { link: "https://pan.quark.cn/s/abc123#frag" },
+        { link: "https://pan.baidu.com/s/1xyz", pwd: "8888" },
+      ],
+    },
+  ]);
+  assert.equal(second.duplicateLinks, 2);
+  assert.deepEqual(
+    second.items.map((item) => item.name),
+    ["流浪地球2"]
+  );
+  assert.equal(second.items[0].links.length, 1);
+});
+
+test("isTrustedFederatedRequest only accepts the process token", () => {
+  assert.equal(isTrustedFederatedRequest(getFederatedInternalToken()), true);
+  assert.equal(isTrustedFederatedRequest("forged"), false);
+  assert.equal(isTrustedFederatedRequest(undefined), false);
+});
+
+test("runFederatedSearch streams results and per-source status", async () => {
+  const events = [];
+  const responses = {
+    local: { list: [{ name: "A", links: [{ link: "https://pan.quark.cn/s/aaa" }] }] },
+    pansou: {
+      list: [
+        { name: "A copy", links: [{ link: "https://pan.quark.cn/s/aaa" }] },
+        { name: "B", links: [{ link: "https://www.alipan.com/s/bbb" }] },
+      ],
+    },
+    jso: { list: [], code: 200 },
+    vipray: { list: [], code: 502, msg: "upstream down" },
+  };
+
+  const result = await runFederatedSearch({
+    keyword: "test",
+    sources: [
+      { api: "/api/sources/local" },
+      { api: "/api/sources/pansou" },
+      { api: "/api/sources/jso" },
+      { api: "/api/sources/vipray" },
+      { api: "/api/sources/slowread" },
+    ],
+    options: { concurrency: 1, timeoutMs: 20 },
+    emit: (event) => events.push(event),
+    fetchSource: async (source) => {
+      if (source.id === "slowread") {
+        return new Promise(() => {});
+      }
+      return responses[source.id];
+    },
+  });
+
+  assert.equal(events[0].type, "start");
+  assert.equal(events.at(-1).type, "done");
+  assert.equal(result.total, 2);
+
+  const results = events.filter((event) => event.type === "results");
+  assert.deepEqual(
+    results.map((event) => [event.source, event.items.map((item) => item.name)]),
+    [
+      ["local", ["A"]],
+      ["pansou", ["B"]],
+    ]
+  );
+
+  const statuses = Object.fromEntries(
+    events
+      .filter((event) => event.type === "source_status")
+      .map((event) => [event.source, event.status])
+  );
+  assert.deepEqual(statuses, {
+    local: "ok",
+    pansou: "ok",
+    jso: "empty",
+    vipray: "error",
+    slowread: "timeout",
+  });
+});
+
+test("runFederatedSearch stops picking sources once aborted", async () => {
+  const controller = new AbortController();
+  const fetched = [];
+
+  await runFederatedSearch({
+    keyword: "test",
+    sources: [{ api: "/api/sources/local" }, { api: "/api/sources/pansou" }],
+    options: { concurrency: 1, timeoutMs: 1000 },
+    signal: controller.signal,
+    emit: () => {},
+    fetchSource: async (source) => {
+      fetched.push(source.id);
+      controller.abort();
+      return { list: [] };
+    },
+  });
+
+  assert.deepEqual(fetched, ["local"]);
+});
+
+test("runFederatedSearch emits a ranked list before done", async () => {
+  const events = [];
+
+  await runFederatedSearch({
+    keyword: "test",
+    sources: [{ api: "/api/sources/local" }, { api: "/api/sources/pansou" }],
+    options: { concurrency: 2, timeoutMs: 1000 },
+    emit: (event) => events.push(event),
+    fetchSource: async (source) => ({
+      list: [{ name: `${source.id} item`, links: [{ link: "https://pan.quark.cn/s/same" }] }],
+    }),
+    rankResults: async (groups) => groups.map((group) => ({ name: group.source })),
+  });
+
+  assert.deepEqual(
+    events.slice(-2).map((event) => event.type),
+    ["ranked", "done"]
+  );
+  assert.equal(events.at(-2).items.length, 2);
+});
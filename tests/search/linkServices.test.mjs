@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  LINK_SERVICE_DEFINITIONS,
+  LINK_SERVICE_NAMES,
+  buildShareLinkRegex,
+  canonicalizeShareLink,
+  detectLinkService,
+  detectLinkServiceByHint,
+  extractLinkPassword,
+  getLinkCategoryName,
+  isShareLink,
+} from "../../utils/linkServices.js";
+
+const KNOWN_SHARE_LINKS = [
+  ["BAIDU", "https://pan.baidu.com/s/1AbC_d-9"],
+  ["BAIDU", "https://pan.baidu.com/share/init?surl=AbCd9"],
+  ["XUNLEI", "https://pan.xunlei.com/s/VNabc123"],
+  ["QUARK", "https://pan.quark.cn/s/abc123"],
+  ["GUANGYA", "https://pan.guangya.cn/s/abc123"],
+  ["ALIYUN", "https://www.aliyundrive.com/s/abc123"],
+  ["ALIYUN", "https://aliyundrive.com/s/abc123"],
+  ["ALIYUN", "https://www.alipan.com/s/abc123"],
+  ["ALIYUN", "https://alipan.com/s/abc123"],
+  ["UC", "https://drive.uc.cn/s/abc123"],
+  ["UC", "https://pan.uc.cn/s/abc123"],
+  ["TIANYI", "https://cloud.189.cn/t/abc123"],
+  ["TIANYI", "https://cloud.189.cn/web/share?code=abc123"],
+  ["MOBILE", "https://yun.139.com/m/i?abc123"],
+  ["MOBILE", "https://caiyun.139.com/m/i?abc123"],
+  ["MOBILE", "https://caiyun.139.com/w/i/abc123"],
+  ["115", "https://115cdn.com/s/abc123"],
+  ["115", "https://115.com/s/abc123"],
+  ["PIKPAK", "https://mypikpak.com/s/abc123"],
+  ["PIKPAK", "https://toapp.mypikpak.com/s/abc123"],
+  ["123", "https://www.123684.com/s/abc-123"],
+  ["123", "https://www.123865.com/s/abc-123"],
+  ["123", "https://www.123912.com/s/abc-123"],
+  ["123", "https://www.123pan.com/s/abc-123"],
+  ["123", "https://123pan.cn/s/abc-123"],
+  ["MAGNET", "magnet:?xt=urn:btih:ABCDEF0123456789"],
+  ["ED2K", "ed2k://|file|demo.mkv|1024|ABCDEF|/"],
+];
+
+test("every registered host is covered by the known share link table", () => {
+  const coveredHosts = new Set(
+    KNOWN_SHARE_LINKS.filter(([, link]) => link.startsWith("http")).map(([, link]) =>
+      new URL(link).hostname.replace(/^(?:www|toapp)\./, "")
+    )
+  );
+
+  const registeredHosts = LINK_SERVICE_DEFINITIONS.flatMap((definition) => definition.hosts || []);
+  assert.deepEqual(
+    registeredHosts.filter((host) => !coveredHosts.has(host)),
+    []
+  );
+});
+
+for (const [service, link] of KNOWN_SHARE_LINKS) {
+  test(`detectLinkService recognizes ${link} as ${service}`, () => {
+    assert.equal(detectLinkService(link), service);
+    assert.equal(isShareLink(link), true);
+    assert.match(link, buildShareLinkRegex());
+  });
+}
+
+test("detectLinkService only trusts real host names", () => {
+  assert.equal(detectLinkService("https://pan.quark.cn.evil.example/s/abc123"), "OTHER");
+  assert.equal(detectLinkService("https://evil.example/?next=pan.baidu.com"), "OTHER");
+  assert.equal(detectLinkService("pan.baidu.com/s/abc"), "BAIDU");
+  assert.equal(detectLinkService("https://example.com/s/abc", "quark"), "QUARK");
+  assert.equal(detectLinkService("", "BAIDU"), "BAIDU");
+  assert.equal(detectLinkService("https://example.com/s/abc"), "OTHER");
+});
+
+test("isShareLink rejects service home pages", () => {
+  assert.equal(isShareLink("https://pan.quark.cn/"), false);
+  assert.equal(isShareLink("https://pan.baidu.com/disk/home"), false);
+  assert.equal(isShareLink("https://example.com/s/abc"), false);
+});
+
+test("detectLinkServiceByHint maps source provider names", () => {
+  assert.equal(detectLinkServiceByHint("百度网盘"), "BAIDU");
+  assert.equal(detectLinkServiceByHint("Quark"), "QUARK");
+  assert.equal(detectLinkServiceByHint("阿里云盘"), "ALIYUN");
+  assert.equal(detectLinkServiceByHint(""), "OTHER");
+});
+
+test("extractLinkPassword reads query parameters and surrounding text", () => {
+  assert.equal(extractLinkPassword("https://pan.baidu.com/s/abc?pwd=1234"), "1234");
+  assert.equal(extractLinkPassword("https://115cdn.com/s/abc?password=x9y8"), "x9y8");
+  assert.equal(extractLinkPassword("https://pan.baidu.com/s/abc?pwd=undefined"), undefined);
+  assert.equal(
+    extractLinkPassword("https://pan.baidu.com/s/abc", "链接：https://pan.baidu.com/s/abc 提取码：ab12"),
+    "ab12"
+  );
+  assert.equal(extractLinkPassword("https://pan.quark.cn/s/abc"), undefined);
+});
+
+test("canonicalizeShareLink folds mirror hosts, passwords and trailing slashes", () => {
+  assert.equal(
+    canonicalizeShareLink("https://www.aliyundrive.com/s/abc123/"),
+    canonicalizeShareLink("https://alipan.com/s/abc123")
+  );
+  assert.equal(
+    canonicalizeShareLink("https://www.123684.com/s/abc-123"),
+    "https://www.123pan.com/s/abc-123"
+  );
+  assert.equal(
+    canonicalizeShareLink("http://pan.baidu.com/s/abc?pwd=1234"),
+    "https://pan.baidu.com/s/abc"
+  );
+  assert.equal(
+    canonicalizeShareLink("https://cloud.189.cn/web/share?code=abc123&from=x"),
+    "https://cloud.189.cn/web/share?code=abc123"
+  );
+  assert.equal(
+    canonicalizeShareLink("magnet:?xt=urn:btih:ABCDEF&dn=demo"),
+    "magnet:?xt=urn:btih:abcdef"
+  );
+  assert.notEqual(
+    canonicalizeShareLink("https://pan.quark.cn/s/abc"),
+    canonicalizeShareLink("https://pan.quark.cn/s/ABC")
+  );
+});
+
+test("registry labels and categories cover every service", () => {
+  assert.equal(LINK_SERVICE_NAMES.UC, "UC网盘");
+  assert.equal(getLinkCategoryName("QUARK"), "网盘链接");
+  assert.equal(getLinkCategoryName("MAGNET"), "下载协议");
+  assert.equal(getLinkCategoryName("unknown"), "外部链接");
+  assert.ok(LINK_SERVICE_DEFINITIONS.every((definition) => definition.label));
+});
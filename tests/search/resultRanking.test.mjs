@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  RANKING_WEIGHTS,
+  getResultRankingOptions,
+  getTitleClusterKey,
+  getTitleSimilarity,
+  rankSearchResults,
+  scoreTitleRelevance,
+} from "../../server/services/search/resultRanking.mjs";
+
+const now = Date.parse("2026-06-01T00:00:00Z");
+
+test("getTitleClusterKey ignores punctuation and quality tags", () => {
+  assert.equal(getTitleClusterKey("【流浪地球2】4K 蓝光"), getTitleClusterKey("流浪地球2 (1080P)"));
+  assert.notEqual(getTitleClusterKey("流浪地球"), getTitleClusterKey("流浪地球2"));
+  assert.equal(getTitleSimilarity("abc", "abc"), 1);
+  assert.equal(getTitleSimilarity("", "abc"), 0);
+  assert.ok(getTitleSimilarity("三体全30集", "三体全三十集") < 0.85);
+});
+
+test("scoreTitleRelevance prefers exact and prefix matches", () => {
+  assert.equal(scoreTitleRelevance("三体", "三体"), 1);
+  assert.ok(scoreTitleRelevance("三体 第一季", "三体") > scoreTitleRelevance("电视剧三体 第一季", "三体"));
+  assert.ok(scoreTitleRelevance("流浪 地球", "流浪地球电影") < 0.6);
+  assert.equal(scoreTitleRelevance("完全无关", "三体"), 0);
+  assert.equal(scoreTitleRelevance("三体", ""), 0.5);
+});
+
+test("rankSearchResults clusters near-duplicates across sources and merges links", () => {
+  const ranked = rankSearchResults(
+    [
+      {
+        source: "pansou",
+        items: [
+          { name: "三体 4K", links: [{ link: "https://pan.quark.cn/s/aaa" }] },
+          { name: "三体英文版有声书", links: [{ link: "https://pan.baidu.com/s/1zzz" }] },
+        ],
+      },
+      {
+        source: "external-pan",
+        items: [
+          {
+            name: "三体【1080P】",
+            links: [
+              { link: "https://pan.quark.cn/s/aaa?from=share" },
+              { link: "https://www.alipan.com/s/bbb" },
+            ],
+          },
+        ],
+      },
+    ],
+    { keyword: "三体", now }
+  );
+
+  assert.equal(ranked.length, 2);
+  assert.deepEqual(ranked[0].sources, ["pansou", "external-pan"]);
+  assert.equal(ranked[0].links.length, 2);
+  assert.deepEqual(ranked[0].aliases, ["三体【1080P】"]);
+  assert.ok(ranked[0].score > ranked[1].score);
+});
+
+test("rankSearchResults explains each score component", () => {
+  const [item] = rankSearchResults(
+    [
+      {
+        source: "local",
+        items: [
+          {
+            name: "三体",
+            updatedAt: "2026-06-01T00:00:00Z",
+            links: [{ link: "https://pan.quark.cn/s/aaa" }],
+          },
+        ],
+      },
+    ],
+    {
+      keyword: "三体",
+      now,
+      sourceScores: { local: 80 },
+      linkHealth: new Map([["https://pan.quark.cn/s/aaa", "healthy"]]),
+    }
+  );
+
+  assert.deepEqual(Object.keys(item.scoreComponents), Object.keys(RANKING_WEIGHTS));
+  assert.equal(item.scoreComponents.relevance.value, 1);
+  assert.equal(item.scoreComponents.reliability.value, 0.8);
+  assert.equal(item.scoreComponents.health.value, 1);
+  assert.equal(item.scoreComponents.freshness.value, 1);
+  assert.equal(item.scoreComponents.service.value, 1);
+  assert.equal(
+    item.score,
+    Number(
+      Object.values(item.scoreComponents)
+        .reduce((sum, component) => sum + component.points, 0)
+        .toFixed(1)
+    )
+  );
+});
+
+test("rankSearchResults pushes dead links and unreliable sources down", () => {
+  const groups = [
+    { source: "flaky", items: [{ name: "三体 第一季", links: [{ link: "https://pan.quark.cn/s/dead" }] }] },
+    { source: "stable", items: [{ name: "三体 第二季", links: [{ link: "https://pan.quark.cn/s/live" }] }] },
+  ];
+
+  const ranked = rankSearchResults(groups, {
+    keyword: "三体",
+    now,
+    sourceScores: { flaky: 10, stable: 90 },
+    linkHealth: new Map([["https://pan.quark.cn/s/dead", "dead"]]),
+  });
+
+  assert.deepEqual(
+    ranked.map((item) => item.sources[0]),
+    ["stable", "flaky"]
+  );
+  assert.equal(ranked[1].scoreComponents.health.value, 0);
+});
+
+test("getResultRankingOptions reads service preference from env", () => {
+  const options = getResultRankingOptions({
+    SEARCH_RANKING_SERVICE_PREFERENCE: "baidu, quark",
+    SEARCH_RANKING_SIMILARITY: "70",
+  });
+
+  assert.deepEqual(options.servicePreference, ["BAIDU", "QUARK"]);
+  assert.equal(options.similarityThreshold, 0.7);
+  assert.equal(getResultRankingOptions({}).enabled, true);
+});
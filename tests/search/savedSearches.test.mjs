@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  SAVED_SEARCH_LIMITS,
+  buildSavedSearchNotification,
+  collectSavedSearchDocuments,
+  findNewSavedSearchMatches,
+  getSavedSearchOptions,
+  mergeSeenKeys,
+  normalizeSavedSearchInput,
+} from "../../server/services/search/savedSearches.mjs";
+
+const indexedDoc = (resourceId, name, updatedAt, links) => ({
+  resourceId,
+  name,
+  links,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt,
+});
+
+test("getSavedSearchOptions defaults to a half-hourly check and clamps overrides", () => {
+  assert.deepEqual(getSavedSearchOptions({}), {
+    enabled: true,
+    intervalMinutes: 30,
+    batchSize: 200,
+    maxPerUser: 20,
+    emailThrottleSeconds: 21600,
+  });
+
+  assert.equal(getSavedSearchOptions({ SAVED_SEARCH_CHECK_INTERVAL_MINUTES: "1" }).intervalMinutes, 5);
+  assert.equal(getSavedSearchOptions({ SAVED_SEARCH_ALERTS_ENABLED: "false" }).enabled, false);
+});
+
+test("normalizeSavedSearchInput collapses whitespace and validates services", () => {
+  assert.deepEqual(normalizeSavedSearchInput({ keyword: "  三体   全集 ", services: "quark, baidu,QUARK" }), {
+    keyword: "三体 全集",
+    services: ["QUARK", "BAIDU"],
+    enabled: true,
+    emailEnabled: true,
+  });
+
+  assert.deepEqual(
+    normalizeSavedSearchInput({ emailEnabled: false }, { keyword: "三体", services: ["ALIYUN"], enabled: true }),
+    { keyword: "三体", services: ["ALIYUN"], enabled: true, emailEnabled: false }
+  );
+
+  assert.throws(() => normalizeSavedSearchInput({ keyword: "  " }), /关键词不能为空/);
+  assert.throws(
+    () => normalizeSavedSearchInput({ keyword: "a".repeat(SAVED_SEARCH_LIMITS.keywordMaxLength + 1) }),
+    /不能超过/
+  );
+  assert.throws(() => normalizeSavedSearchInput({ keyword: "三体", services: ["DROPBOX"] }), /DROPBOX/);
+});
+
+test("findNewSavedSearchMatches keeps unseen items published after the last check", () => {
+  const documents = collectSavedSearchDocuments({
+    resources: [
+      indexedDoc(1, "三体 旧资源", "2026-06-01T00:00:00.000Z", [{ link: "https://pan.quark.cn/s/old" }]),
+      indexedDoc(2, "三体 全集", "2026-06-10T00:00:00.000Z", [{ link: "https://pan.quark.cn/s/new" }]),
+    ],
+    userResources: [
+      indexedDoc(2, "三体 投稿", "2026-06-12T00:00:00.000Z", [
+        { link: "https://pan.baidu.com/s/1abc", pwd: "1234" },
+        { link: "https://pan.quark.cn/s/user" },
+      ]),
+      indexedDoc(3, "三体 已提醒", "2026-06-12T00:00:00.000Z", [{ link: "https://pan.quark.cn/s/seen" }]),
+    ],
+  });
+
+  const matches = findNewSavedSearchMatches(
+    {
+      lastCheckedAt: new Date("2026-06-05T00:00:00.000Z"),
+      seenKeys: ["user-resource-3"],
+      services: [],
+    },
+    documents
+  );
+
+  assert.deepEqual(
+    matches.map((match) => match.key),
+    ["user-resource-2", "resource-2"]
+  );
+});
+
+test("findNewSavedSearchMatches looks back over the indexing grace window", () => {
+  const lastCheckedAt = new Date("2026-06-10T00:00:00.000Z");
+  const before = (ms) => new Date(lastCheckedAt.getTime() - ms).toISOString();
+  const documents = collectSavedSearchDocuments({
+    resources: [
+      indexedDoc(1, "三体 索引延迟", before(60 * 1000), [{ link: "https://pan.quark.cn/s/late" }]),
+      indexedDoc(2, "三体 已提醒", before(60 * 1000), [{ link: "https://pan.quark.cn/s/seen" }]),
+      indexedDoc(3, "三体 早已发布", before(SAVED_SEARCH_LIMITS.indexingGraceMs + 1), [
+        { link: "https://pan.quark.cn/s/old" },
+      ]),
+    ],
+  });
+
+  const matches = findNewSavedSearchMatches(
+    { lastCheckedAt, seenKeys: ["resource-2"], services: [] },
+    documents
+  );
+
+  assert.deepEqual(
+    matches.map((match) => match.key),
+    ["resource-1"]
+  );
+});
+
+test("findNewSavedSearchMatches only keeps links for the selected services", () => {
+  const documents = collectSavedSearchDocuments({
+    resources: [
+      indexedDoc(1, "三体 百度", "2026-06-10T00:00:00.000Z", [{ link: "https://pan.baidu.com/s/1abc" }]),
+      indexedDoc(2, "三体 混合", "2026-06-10T00:00:00.000Z", [
+        { link: "https://pan.baidu.com/s/1def" },
+        { link: "https://pan.quark.cn/s/abc" },
+      ]),
+    ],
+  });
+
+  const matches = findNewSavedSearchMatches(
+    { lastCheckedAt: "2026-06-01T00:00:00.000Z", seenKeys: [], services: ["QUARK"] },
+    documents
+  );
+
+  assert.equal(matches.length, 1);
+  assert.equal(matches[0].name, "三体 混合");
+  assert.deepEqual(
+    matches[0].links.map((link) => link.service),
+    ["QUARK"]
+  );
+});
+
+test("buildSavedSearchNotification summarizes matches and escapes email html", () => {
+  const matches = Array.from({ length: 7 }, (_, index) => ({
+    key: `resource-${index}`,
+    name: index === 0 ? "<三体>" : `三体 ${index}`,
+  }));
+
+  const notification = buildSavedSearchNotification({
+    savedSearch: { id: 9, keyword: "三体" },
+    matches,
+    siteUrl: "https://aipan.me/",
+  });
+
+  assert.equal(notification.type, "saved_search");
+  assert.equal(notification.relatedId, 9);
+  assert.equal(notification.title, "「三体」有 7 个新资源");
+  assert.equal(notification.content.split("\n").length, 1 + SAVED_SEARCH_LIMITS.notificationItems + 1);
+  assert.match(notification.emailText, /https:\/\/aipan\.me\/search\?keyword=%E4%B8%89%E4%BD%93/);
+  assert.match(notification.emailHtml, /&lt;三体&gt;/);
+  assert.doesNotMatch(notification.emailHtml, /<三体>/);
+});
+
+test("mergeSeenKeys puts new keys first and caps the history", () => {
+  const seenKeys = Array.from({ length: SAVED_SEARCH_LIMITS.seenKeysMax }, (_, index) => `resource-${index}`);
+  const merged = mergeSeenKeys(seenKeys, [{ key: "resource-new" }, { key: "resource-0" }]);
+
+  assert.equal(merged.length, SAVED_SEARCH_LIMITS.seenKeysMax);
+  assert.deepEqual(merged.slice(0, 3), ["resource-new", "resource-0", "resource-1"]);
+});
@@ -0,0 +1,227 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  applyScraperFilters,
+  extractScraperItems,
+  renderScraperTemplate,
+  runScraperSpec,
+  selectJsonPath,
+  validateScraperSpec,
+} from "../../server/services/search/scraperSpec.mjs";
+import { SCRAPER_SOURCE_SPECS } from "../../server/services/search/sourceSpecs/index.mjs";
+
+const createFetch = (routes) => {
+  const calls = [];
+  const fetchText = async (url, options) => {
+    calls.push({ url, options });
+    const route = routes[url];
+    if (route instanceof Error) {
+      throw route;
+    }
+    if (typeof route === "function") {
+      return route(options);
+    }
+    if (route === undefined) {
+      throw new Error(`unexpected request ${url}`);
+    }
+    return typeof route === "string" ? route : JSON.stringify(route);
+  };
+
+  return { calls, fetchText };
+};
+
+test("renderScraperTemplate fills nested strings and url-encodes on demand", () => {
+  assert.deepEqual(
+    renderScraperTemplate(
+      { url: "https://x.test/s?q={{keyword|url}}&p={{page}}", body: { q: "{{keyword}}", size: 10 } },
+      { keyword: "流浪 地球", page: 2 }
+    ),
+    {
+      url: "https://x.test/s?q=%E6%B5%81%E6%B5%AA%20%E5%9C%B0%E7%90%83&p=2",
+      body: { q: "流浪 地球", size: 10 },
+    }
+  );
+});
+
+test("selectJsonPath supports dots, wildcards, indexes and quoted keys", () => {
+  const data = { data: { list: [{ name: "a" }, { name: "b" }], "x-y": 1 } };
+
+  assert.deepEqual(selectJsonPath(data, "$.data.list[*].name"), ["a", "b"]);
+  assert.deepEqual(selectJsonPath(data, "$.data.list[-1].name"), ["b"]);
+  assert.deepEqual(selectJsonPath(data, "$.data['x-y']"), [1]);
+  assert.deepEqual(selectJsonPath(data, "$.missing.name"), []);
+  assert.throws(() => selectJsonPath(data, "data.list"), /JSONPath/);
+});
+
+test("extractScraperItems reads html with css selectors, attributes and regex", () => {
+  const spec = {
+    id: "html-demo",
+    requests: [{ url: "https://x.test" }],
+    response: {
+      type: "html",
+      items: ".result",
+      fields: {
+        title: ".title",
+        link: { selector: "a.share", attr: "href" },
+        password: { selector: ".code", regex: "提取码[:：]\\s*(\\w+)" },
+      },
+    },
+  };
+
+  const items = extractScraperItems(
+    spec,
+    `<div class="result"><h3 class="title"> 三体 </h3><a class="share" href="https://pan.baidu.com/s/1abc">打开</a><span class="code">提取码: x9k2</span></div>
+     <div class="result"><h3 class="title">无链接</h3></div>`
+  );
+
+  assert.deepEqual(items[0], {
+    name: "三体",
+    links: [{ service: "BAIDU", link: "https://pan.baidu.com/s/1abc", pwd: "x9k2" }],
+  });
+  assert.deepEqual(items[1].links, []);
+});
+
+test("applyScraperFilters drops unrelated titles, excluded titles and services", () => {
+  const items = [
+    { name: "三体 全集", links: [{ service: "QUARK", link: "https://pan.quark.cn/s/1" }] },
+    { name: "三体 广告", links: [{ service: "QUARK", link: "https://pan.quark.cn/s/2" }] },
+    { name: "流浪地球", links: [{ service: "QUARK", link: "https://pan.quark.cn/s/3" }] },
+    { name: "三体 磁力", links: [{ service: "MAGNET", link: "magnet:?xt=urn:btih:abc" }] },
+  ];
+
+  const filtered = applyScraperFilters(
+    items,
+    { requireKeyword: true, excludeTitle: ["广告"], services: ["QUARK"] },
+    "三体"
+  );
+
+  assert.deepEqual(
+    filtered.map((item) => item.name),
+    ["三体 全集"]
+  );
+});
+
+test("validateScraperSpec explains what is missing", () => {
+  assert.throws(() => validateScraperSpec({}), /id/);
+  assert.throws(() => validateScraperSpec({ id: "demo", requests: [] }), /requests/);
+  assert.throws(
+    () =>
+      validateScraperSpec({
+        id: "demo",
+        requests: [{ url: "https://x.test" }],
+        response: { fields: { title: "$.name" } },
+      }),
+    /link/
+  );
+  assert.throws(
+    () =>
+      validateScraperSpec({
+        id: "demo",
+        requests: [{ url: "https://x.test" }],
+        response: { items: "data[*]", fields: { title: "$.name", link: "$.url" } },
+      }),
+    /JSONPath/
+  );
+
+  for (const spec of Object.values(SCRAPER_SOURCE_SPECS)) {
+    assert.doesNotThrow(() => validateScraperSpec(spec), spec.id);
+  }
+});
+
+test("runScraperSpec follows pagination until an empty page", async () => {
+  const page = (names) => ({ data: names.map((name, index) => ({ name, url: `https://pan.quark.cn/s/${name}${index}` })) });
+  const { calls, fetchText } = createFetch({
+    "https://x.test/s?q=abc&page=1": page(["abc 1", "abc 2"]),
+    "https://x.test/s?q=abc&page=2": page(["abc 3"]),
+    "https://x.test/s?q=abc&page=3": page([]),
+  });
+
+  const result = await runScraperSpec(
+    {
+      id: "paged",
+      requests: [{ url: "https://x.test/s?q={{keyword|url}}&page={{page}}" }],
+      pagination: { variable: "page", start: 1, maxPages: 5 },
+      response: { items: "$.data[*]", fields: { title: "$.name", link: "$.url" } },
+    },
+    "abc",
+    { fetchText }
+  );
+
+  assert.equal(calls.length, 3);
+  assert.equal(result.code, 200);
+  assert.equal(result.list.length, 3);
+});
+
+test("jso spec merges both upstreams and reports partial failures", async () => {
+  const { calls, fetchText } = createFetch({
+    "https://j-so.com/api/search111.php": {
+      code: 200,
+      data: [
+        { name: "三体 ", link: "https://pan.quark.cn/s/aaa。" },
+        { name: "三体 第二部", link: "https://pan.baidu.com/s/1bbb?pwd=1234" },
+      ],
+    },
+    "https://j-so.com/api/heapi111.php": new Error("timeout"),
+  });
+
+  const result = await runScraperSpec(SCRAPER_SOURCE_SPECS.jso, "三体", { fetchText });
+
+  assert.equal(calls[0].options.method, "POST");
+  assert.equal(calls[0].options.body, JSON.stringify({ query: "三体" }));
+  assert.equal(result.code, 200);
+  assert.match(result.msg, /1\/2 upstreams failed/);
+  assert.deepEqual(result.list[0], {
+    name: "三体",
+    links: [{ link: "https://pan.quark.cn/s/aaa", pwd: "", service: "QUARK" }],
+  });
+  assert.equal(result.list[1].links[0].pwd, "1234");
+});
+
+test("jso spec treats non-200 upstream codes as failures", async () => {
+  const { fetchText } = createFetch({
+    "https://j-so.com/api/search111.php": { code: 500, msg: "busy" },
+    "https://j-so.com/api/heapi111.php": { code: 500, msg: "busy" },
+  });
+
+  const result = await runScraperSpec(SCRAPER_SOURCE_SPECS.jso, "三体", { fetchText });
+  assert.equal(result.code, 502);
+});
+
+test("xccji spec fetches a token then stops after the first priority group with results", async () => {
+  const base = "http://xccji.top/v";
+  const { calls, fetchText } = createFetch({
+    [`${base}/api/gettoken`]: { token: "t-123" },
+    [`${base}/api/getJuzi`]: {
+      data: {
+        list: [
+          {
+            question: "三体",
+            answer: "链接：https://pan.quark.cn/s/abc 提取码：8888\n备用 https://pan.baidu.com/s/1xyz",
+          },
+        ],
+      },
+    },
+    [`${base}/api/sortWeb`]: { list: [] },
+  });
+
+  const result = await runScraperSpec(SCRAPER_SOURCE_SPECS.xccji, "三体", { fetchText });
+
+  assert.deepEqual(
+    calls.map((call) => call.url.replace(base, "")),
+    ["/api/gettoken", "/api/getJuzi", "/api/sortWeb"]
+  );
+  assert.equal(JSON.parse(calls[2].options.body).whr, 'question like "%三体%"');
+  assert.equal(JSON.parse(calls[1].options.body).token, "t-123");
+  assert.equal(result.list[0].links.length, 2);
+  assert.equal(result.list[0].links[0].pwd, "8888");
+});
+
+test("xccji spec reports a missing token", async () => {
+  const { fetchText } = createFetch({
+    "http://xccji.top/v/api/gettoken": { token: "" },
+  });
+
+  const result = await runScraperSpec(SCRAPER_SOURCE_SPECS.xccji, "三体", { fetchText });
+  assert.deepEqual(result, { list: [], code: 502, msg: "Source token unavailable" });
+});
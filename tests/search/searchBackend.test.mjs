@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildPostgresSearchQuery,
+  createPostgresSearchBackend,
+  createSearchBackend,
+  getSearchBackendOptions,
+  highlightSearchTerms,
+  splitSearchTerms,
+} from "../../server/services/search/searchBackend.js";
+
+test("getSearchBackendOptions falls back to auto for unknown values", () => {
+  assert.deepEqual(getSearchBackendOptions({}), { backend: "auto" });
+  assert.deepEqual(getSearchBackendOptions({ SEARCH_BACKEND: " Postgres " }), { backend: "postgres" });
+  assert.deepEqual(getSearchBackendOptions({ SEARCH_BACKEND: "solr" }), { backend: "auto" });
+});
+
+test("splitSearchTerms dedupes whitespace separated terms", () => {
+  assert.deepEqual(splitSearchTerms("  三体  4K 三体 "), ["三体", "4K"]);
+  assert.deepEqual(splitSearchTerms(""), []);
+});
+
+test("highlightSearchTerms marks every term and escapes the rest of the name", () => {
+  assert.equal(
+    highlightSearchTerms("三体 <全集> 4k 三体", "三体 4K"),
+    "<mark>三体</mark> &#60;全集&#62; <mark>4k</mark> <mark>三体</mark>"
+  );
+  assert.equal(highlightSearchTerms("流浪地球", "三体"), null);
+});
+
+test("buildPostgresSearchQuery requires every term and escapes LIKE wildcards", () => {
+  const query = buildPostgresSearchQuery("userResources", "三体 100%", 20);
+
+  assert.deepEqual(query.params, ["三体 100%", "%三体 100\\%%", "%三体%", "%100\\%%", 20]);
+  assert.match(query.sql, /FROM "UserResource" r/);
+  assert.match(query.sql, /r\."status" = 'published'/);
+  assert.match(
+    query.sql,
+    /\(r\."name" ILIKE \$3 OR r\."description" ILIKE \$3 OR t\."name" ILIKE \$3\) AND \(r\."name" ILIKE \$4/
+  );
+  assert.match(query.sql, /LIMIT \$5$/);
+  assert.match(query.sql, /\+ similarity\(r\."name", \$1\) AS "rank"/);
+  assert.doesNotMatch(query.sql, /ts_rank|tsvector/);
+
+  assert.doesNotMatch(buildPostgresSearchQuery("resources", "三体").sql, /status|description/);
+  assert.match(
+    buildPostgresSearchQuery("resources", "三体").sql,
+    /NOT EXISTS \(SELECT 1 FROM "ResourceLinkHealth" h .*h\."unpublishedAt" IS NOT NULL\) AND \(r\."name" ILIKE \$3/
+  );
+  assert.equal(buildPostgresSearchQuery("resources", "   "), null);
+});
+
+test("postgres backend returns documents shaped like the ES index", async () => {
+  const calls = [];
+  const client = {
+    $queryRawUnsafe: async (sql, ...params) => {
+      calls.push(params);
+      return [
+        {
+          id: 3,
+          name: "三体  全集",
+          description: "4K",
+          links: JSON.stringify([{ link: "https://pan.quark.cn/s/abc", pwd: "" }]),
+          typeId: 1,
+          typeName: "电视剧",
+          creatorId: 2,
+          creatorUsername: "alice",
+          createdAt: new Date("2026-07-01T00:00:00.000Z"),
+          updatedAt: new Date("2026-07-02T00:00:00.000Z"),
+          rank: 2.4,
+        },
+      ];
+    },
+  };
+
+  const [document] = await createPostgresSearchBackend({ client }).searchUserResources("三体", 10);
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(document, {
+    resourceId: 3,
+    name: "三体 全集",
+    normalizedName: "三体 全集",
+    description: "4K",
+    typeId: 1,
+    typeName: "电视剧",
+    creatorId: 2,
+    creatorUsername: "alice",
+    links: [{ link: "https://pan.quark.cn/s/abc", pwd: "", service: "QUARK" }],
+    services: ["QUARK"],
+    createdAt: "2026-07-01T00:00:00.000Z",
+    updatedAt: "2026-07-02T00:00:00.000Z",
+    highlightedName: "<mark>三体</mark> 全集",
+  });
+  assert.deepEqual(await createPostgresSearchBackend({ client }).searchResources(" "), []);
+});
+
+test("auto backend uses postgres when ES is missing or failing", async () => {
+  const calls = [];
+  const elasticsearch = {
+    isResourcesConfigured: async () => true,
+    isUserResourcesConfigured: async () => false,
+    searchResources: async () => {
+      throw new Error("ES 不可用");
+    },
+    searchUserResources: async () => calls.push("es:userResources"),
+  };
+  const postgres = {
+    searchResources: async (keyword) => (calls.push(`pg:resources:${keyword}`), ["pg"]),
+    searchUserResources: async (keyword) => (calls.push(`pg:userResources:${keyword}`), ["pg"]),
+  };
+  const originalError = console.error;
+  console.error = () => {};
+
+  try {
+    const backend = createSearchBackend({ options: { backend: "auto" }, elasticsearch, postgres });
+    assert.deepEqual(await backend.searchResources("三体"), ["pg"]);
+    assert.deepEqual(await backend.searchUserResources("三体"), ["pg"]);
+  } finally {
+    console.error = originalError;
+  }
+
+  assert.deepEqual(calls, ["pg:resources:三体", "pg:userResources:三体"]);
+  assert.equal(
+    createSearchBackend({ options: { backend: "postgres" }, elasticsearch, postgres }),
+    postgres
+  );
+});
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildElasticsearchFacetRequest,
+  computeSearchFacets,
+  filterSearchDocuments,
+  mergeSearchFacets,
+  normalizeSearchFilters,
+  parseElasticsearchFacets,
+  restrictDocumentLinks,
+} from "../../server/services/search/searchFilters.js";
+import { createPostgresSearchBackend } from "../../server/services/search/searchBackend.js";
+
+const NOW = new Date("2026-07-10T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createDocument = (resourceId, overrides = {}) => ({
+  resourceId,
+  name: `资源 ${resourceId}`,
+  typeId: 1,
+  typeName: "电影",
+  creatorUsername: "alice",
+  links: [{ link: `https://pan.quark.cn/s/${resourceId}`, pwd: "", service: "QUARK" }],
+  services: ["QUARK"],
+  updatedAt: new Date(NOW.getTime() - DAY_MS / 2).toISOString(),
+  ...overrides,
+});
+
+const DOCUMENTS = [
+  createDocument(1),
+  createDocument(2, {
+    typeId: 2,
+    typeName: "电视剧",
+    creatorUsername: "bob",
+    links: [
+      { link: "https://pan.baidu.com/s/2", pwd: "", service: "BAIDU" },
+      { link: "https://pan.quark.cn/s/2", pwd: "", service: "QUARK" },
+    ],
+    services: ["BAIDU", "QUARK"],
+    updatedAt: new Date(NOW.getTime() - 20 * DAY_MS).toISOString(),
+  }),
+  createDocument(3, {
+    services: ["BAIDU"],
+    updatedAt: new Date(NOW.getTime() - 100 * DAY_MS).toISOString(),
+  }),
+];
+
+test("normalizeSearchFilters keeps known services and resolves date ranges", () => {
+  const filters = normalizeSearchFilters(
+    { services: ["quark", "ftp", "QUARK"], typeIds: "2,x,-1", creators: [" bob ", ""], publishedAfter: "7d" },
+    NOW
+  );
+
+  assert.deepEqual(filters, {
+    services: ["QUARK"],
+    typeIds: [2],
+    creators: ["bob"],
+    dateRange: "7d",
+    publishedAfter: new Date(NOW.getTime() - 7 * DAY_MS),
+  });
+  assert.equal(normalizeSearchFilters({ publishedAfter: "not a date" }).publishedAfter, null);
+  assert.deepEqual(
+    normalizeSearchFilters({ publishedAfter: "2026-07-01" }).publishedAfter,
+    new Date("2026-07-01")
+  );
+});
+
+test("buildElasticsearchFacetRequest filters hits but leaves each facet's own selection out", () => {
+  const filters = normalizeSearchFilters({ services: ["BAIDU"], typeIds: [2] }, NOW);
+  const request = buildElasticsearchFacetRequest(filters, NOW);
+
+  assert.deepEqual(request.post_filter, {
+    bool: {
+      filter: [{ terms: { services: ["BAIDU"] } }, { terms: { typeId: [2] } }],
+    },
+  });
+  assert.deepEqual(request.aggs.services.filter, { bool: { filter: [{ terms: { typeId: [2] } }] } });
+  assert.deepEqual(request.aggs.types.filter, { bool: { filter: [{ terms: { services: ["BAIDU"] } }] } });
+  assert.deepEqual(request.aggs.services.aggs.values.terms, { field: "services", size: 20 });
+  assert.equal(request.aggs.dates.aggs.values.date_range.ranges[0].key, "1d");
+
+  const unfiltered = buildElasticsearchFacetRequest(normalizeSearchFilters({}), NOW);
+  assert.equal("post_filter" in unfiltered, false);
+  assert.deepEqual(unfiltered.aggs.creators.filter, { match_all: {} });
+});
+
+test("parseElasticsearchFacets labels buckets and drops empty ones", () => {
+  const facets = parseElasticsearchFacets({
+    services: { values: { buckets: [{ key: "QUARK", doc_count: 3 }, { key: "BAIDU", doc_count: 0 }] } },
+    types: {
+      values: {
+        buckets: [
+          { key: 2, doc_count: 1, label: { hits: { hits: [{ _source: { typeName: "电视剧" } }] } } },
+        ],
+      },
+    },
+    creators: { values: { buckets: [{ key: "alice", doc_count: 2 }] } },
+    dates: { values: { buckets: [{ key: "30d", doc_count: 2 }, { key: "1d", doc_count: 1 }] } },
+  });
+
+  assert.deepEqual(facets, {
+    services: [{ value: "QUARK", label: "夸克网盘", count: 3 }],
+    types: [{ value: 2, label: "电视剧", count: 1 }],
+    creators: [{ value: "alice", label: "alice", count: 2 }],
+    dates: [
+      { value: "1d", label: "24小时内", count: 1 },
+      { value: "30d", label: "一个月内", count: 2 },
+    ],
+  });
+});
+
+test("computeSearchFacets matches the ES semantics for in-memory candidates", () => {
+  const filters = normalizeSearchFilters({ services: ["BAIDU"] }, NOW);
+
+  assert.deepEqual(
+    filterSearchDocuments(DOCUMENTS, filters).map((document) => document.resourceId),
+    [2, 3]
+  );
+
+  const facets = computeSearchFacets(DOCUMENTS, filters, NOW);
+  // 网盘分面不受自身筛选影响，其余分面只统计百度网盘的结果
+  assert.deepEqual(
+    facets.services.map(({ value, count }) => [value, count]),
+    [
+      ["BAIDU", 2],
+      ["QUARK", 2],
+    ]
+  );
+  assert.deepEqual(
+    facets.creators.map(({ value, count }) => [value, count]),
+    [
+      ["alice", 1],
+      ["bob", 1],
+    ]
+  );
+  assert.deepEqual(
+    facets.dates.map(({ value, count }) => [value, count]),
+    [
+      ["30d", 1],
+      ["365d", 2],
+    ]
+  );
+});
+
+test("mergeSearchFacets sums counts from both indexes and links follow the service filter", () => {
+  const merged = mergeSearchFacets(
+    { services: [{ value: "QUARK", label: "夸克网盘", count: 1 }], dates: [{ value: "7d", label: "一周内", count: 1 }] },
+    { services: [{ value: "QUARK", label: "夸克网盘", count: 2 }, { value: "BAIDU", label: "百度网盘", count: 4 }] }
+  );
+
+  assert.deepEqual(merged.services.map(({ value, count }) => [value, count]), [
+    ["BAIDU", 4],
+    ["QUARK", 3],
+  ]);
+  assert.deepEqual(merged.dates, [{ value: "7d", label: "一周内", count: 1 }]);
+
+  const [document] = restrictDocumentLinks([DOCUMENTS[1]], normalizeSearchFilters({ services: ["BAIDU"] }));
+  assert.deepEqual(document.links.map((link) => link.service), ["BAIDU"]);
+});
+
+test("postgres backend computes facets over the candidate set before trimming", async () => {
+  const params = [];
+  const client = {
+    $queryRawUnsafe: async (sql, ...values) => {
+      params.push(values.at(-1));
+      return [1, 2, 3].map((id) => ({
+        id,
+        name: `三体 ${id}`,
+        links: JSON.stringify([{ link: `https://pan.quark.cn/s/${id}`, pwd: "" }]),
+        typeId: id === 3 ? 2 : 1,
+        typeName: id === 3 ? "电视剧" : "电影",
+        creatorId: 1,
+        creatorUsername: "alice",
+        createdAt: NOW,
+        updatedAt: NOW,
+      }));
+    },
+  };
+
+  const result = await createPostgresSearchBackend({ client }).searchResourcesFaceted("三体", {
+    size: 1,
+    filters: normalizeSearchFilters({ typeIds: [1] }, NOW),
+    now: NOW,
+  });
+
+  assert.deepEqual(params, [500]);
+  assert.deepEqual(result.documents.map((document) => document.resourceId), [1]);
+  assert.deepEqual(
+    result.facets.types.map(({ value, count }) => [value, count]),
+    [
+      [1, 2],
+      [2, 1],
+    ]
+  );
+  assert.deepEqual(result.facets.services, [{ value: "QUARK", label: "夸克网盘", count: 2 }]);
+});
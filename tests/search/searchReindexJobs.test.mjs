@@ -0,0 +1,275 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildVersionedIndexName,
+  ensureAliasedIndex,
+  getAliasState,
+  isVersionedIndexOf,
+  mirrorToBuildIndex,
+  pruneIndexVersions,
+} from "../../server/services/search/searchIndexAliases.js";
+import {
+  SEARCH_REINDEX_TARGETS,
+  createReindexJob,
+  getSearchReindexOptions,
+  runSearchReindex,
+} from "../../server/services/search/searchReindexJobs.js";
+
+const ALIAS = "user-resources";
+const TARGET = SEARCH_REINDEX_TARGETS["user-resources"];
+
+const notFound = () => Object.assign(new Error("not found"), { meta: { statusCode: 404 } });
+
+const createFakeElasticsearch = () => {
+  const indexes = new Map();
+  const aliases = new Map();
+  const actions = [];
+  const mappingUpdates = [];
+  const indexMappings = new Map();
+
+  const client = {
+    indexes,
+    aliases,
+    actions,
+    mappingUpdates,
+    indices: {
+      exists: async ({ index }) => indexes.has(index) || aliases.has(index),
+      getAlias: async ({ name }) => {
+        const targets = aliases.get(name);
+        if (!targets?.size) throw notFound();
+        return Object.fromEntries([...targets].map((index) => [index, { aliases: { [name]: {} } }]));
+      },
+      create: async ({ index, mappings, aliases: attached = {} }) => {
+        indexes.set(index, new Map());
+        indexMappings.set(index, { ...(mappings?.properties || {}) });
+        for (const alias of Object.keys(attached)) {
+          aliases.set(alias, new Set([...(aliases.get(alias) || []), index]));
+        }
+      },
+      delete: async ({ index }) => {
+        indexes.delete(index);
+        for (const targets of aliases.values()) targets.delete(index);
+      },
+      refresh: async () => ({}),
+      getMapping: async ({ index }) => {
+        const names = aliases.get(index)?.size ? [...aliases.get(index)] : [index];
+        return Object.fromEntries(
+          names.map((name) => [name, { mappings: { properties: indexMappings.get(name) || {} } }])
+        );
+      },
+      putMapping: async ({ index, properties }) => {
+        mappingUpdates.push({ index, properties });
+      },
+      updateAliases: async ({ actions: batch }) => {
+        actions.push(batch);
+        for (const action of batch) {
+          if (action.remove_index) indexes.delete(action.remove_index.index);
+          if (action.remove) aliases.get(action.remove.alias)?.delete(action.remove.index);
+          if (action.add) {
+            aliases.set(action.add.alias, new Set([...(aliases.get(action.add.alias) || []), action.add.index]));
+          }
+        }
+      },
+    },
+    synonyms: {
+      getSynonym: async () => ({ count: 0, synonyms_set: [] }),
+      putSynonym: async () => ({}),
+    },
+    cat: {
+      indices: async ({ index }) => {
+        const prefix = index.replace(/\*$/, "");
+        return [...indexes.entries()]
+          .filter(([name]) => name.startsWith(prefix))
+          .map(([name, docs]) => ({ index: name, "docs.count": String(docs.size) }));
+      },
+    },
+    index: async ({ index, id, document }) => {
+      if (!indexes.has(index)) throw notFound();
+      indexes.get(index).set(id, document);
+    },
+    delete: async ({ index, id }) => {
+      if (!indexes.get(index)?.delete(id)) throw notFound();
+    },
+    bulk: async ({ operations }) => {
+      const items = [];
+      for (let i = 0; i < operations.length; i += 1) {
+        const action = operations[i];
+        if (action.index) {
+          indexes.get(action.index._index).set(action.index._id, operations[i + 1]);
+          items.push({ index: { status: 201 } });
+          i += 1;
+        } else {
+          const existed = indexes.get(action.delete._index).delete(action.delete._id);
+          items.push({ delete: existed ? { status: 200 } : { status: 404, error: { type: "not_found" } } });
+        }
+      }
+      return { items };
+    },
+  };
+
+  return client;
+};
+
+const createResource = (id, overrides = {}) => ({
+  id,
+  name: `资源 ${id}`,
+  description: "",
+  typeId: 1,
+  type: { name: "电影" },
+  creatorId: 2,
+  creator: { username: "alice" },
+  links: "[]",
+  status: "published",
+  createdAt: "2026-06-01T00:00:00.000Z",
+  updatedAt: "2026-06-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const createSource = (rows, { changed = [], onBatch } = {}) => ({
+  shouldIndex: (row) => row.status === "published",
+  count: async () => rows.length,
+  loadBatch: async ({ afterId, take }) => {
+    const batch = rows.filter((row) => row.id > afterId).slice(0, take);
+    await onBatch?.(batch);
+    return batch;
+  },
+  loadChangedSince: async ({ afterId, take }) =>
+    changed.filter((row) => row.id > afterId).slice(0, take),
+});
+
+const OPTIONS = { batchSize: 2, keepVersions: 2 };
+
+test("versioned index names sort by creation time and belong to their alias", () => {
+  const name = buildVersionedIndexName(ALIAS, new Date("2026-06-22T08:09:10.011Z"));
+
+  assert.equal(name, "user-resources_v20260622080910011");
+  assert.equal(isVersionedIndexOf(ALIAS, name), true);
+  assert.equal(isVersionedIndexOf("user", name), false);
+  assert.deepEqual(getSearchReindexOptions({}), { batchSize: 500, keepVersions: 2 });
+});
+
+test("ensureAliasedIndex creates the first version behind the alias", async () => {
+  const client = createFakeElasticsearch();
+
+  assert.equal(await ensureAliasedIndex(client, ALIAS, TARGET.mappings), true);
+  assert.equal(await ensureAliasedIndex(client, ALIAS, TARGET.mappings), false);
+  // 新建的版本已经包含全部字段，不需要补映射
+  assert.deepEqual(client.mappingUpdates, []);
+
+  const state = await getAliasState(client, ALIAS);
+  assert.equal(state.legacyIndex, false);
+  assert.equal(state.indexes.length, 1);
+  assert.equal(isVersionedIndexOf(ALIAS, state.indexes[0]), true);
+});
+
+test("runSearchReindex builds a new version, catches up live writes and swaps the alias", async () => {
+  const client = createFakeElasticsearch();
+  const oldIndex = "user-resources_v20260101000000000";
+  await client.indices.create({ index: oldIndex, aliases: { [ALIAS]: {} } });
+
+  const rows = [1, 2, 3, 4, 5].map((id) => createResource(id));
+  let firstBatch = true;
+  const source = createSource(rows, {
+    // 第 1 条在写入后被改名，catch-up 阶段会重新读到
+    changed: [createResource(1, { name: "改名后" }), createResource(4, { status: "rejected" })],
+    onBatch: async () => {
+      if (!firstBatch) return;
+      firstBatch = false;
+      // 第 3 条在批量读出之前被实时删除
+      await mirrorToBuildIndex(ALIAS, "user-resource-3", {
+        deleted: true,
+        apply: (index) => client.delete({ index, id: "user-resource-3" }),
+      });
+    },
+  });
+  const job = createReindexJob("user-resources", ALIAS, new Date("2026-06-22T08:00:00.000Z"));
+
+  await runSearchReindex(job, TARGET, { client, alias: ALIAS, source, options: OPTIONS });
+
+  assert.equal(job.status, "completed");
+  assert.equal(job.phase, "done");
+  assert.equal(job.index, "user-resources_v20260622080000000");
+  assert.deepEqual(job.previousIndexes, [oldIndex]);
+  assert.equal(job.total, 5);
+  assert.equal(job.processed, 5);
+  assert.equal(job.caughtUp, 2);
+
+  const documents = client.indexes.get(job.index);
+  assert.deepEqual([...documents.keys()].sort(), [
+    "user-resource-1",
+    "user-resource-2",
+    "user-resource-5",
+  ]);
+  assert.equal(documents.get("user-resource-1").name, "改名后");
+  assert.deepEqual([...client.aliases.get(ALIAS)], [job.index]);
+  assert.equal(client.indexes.has(oldIndex), true);
+  assert.deepEqual(client.actions.at(-1), [
+    { remove: { index: oldIndex, alias: ALIAS } },
+    { add: { index: job.index, alias: ALIAS } },
+  ]);
+
+  // 重建结束后实时写入不再同步到任何构建中的索引
+  assert.equal(await mirrorToBuildIndex(ALIAS, "user-resource-9", { apply: async () => {} }), false);
+});
+
+test("runSearchReindex replaces a legacy concrete index in the same alias update", async () => {
+  const client = createFakeElasticsearch();
+  await client.indices.create({ index: ALIAS });
+  const job = createReindexJob("user-resources", ALIAS, new Date("2026-06-22T08:00:00.000Z"));
+
+  await runSearchReindex(job, TARGET, {
+    client,
+    alias: ALIAS,
+    source: createSource([createResource(1)]),
+    options: OPTIONS,
+  });
+
+  assert.equal(job.status, "completed");
+  assert.deepEqual(job.previousIndexes, []);
+  assert.deepEqual(client.actions.at(-1), [
+    { remove_index: { index: ALIAS } },
+    { add: { index: job.index, alias: ALIAS } },
+  ]);
+  assert.equal(client.indexes.has(ALIAS), false);
+});
+
+test("cancelling a reindex drops the new index and leaves the alias untouched", async () => {
+  const client = createFakeElasticsearch();
+  const oldIndex = "user-resources_v20260101000000000";
+  await client.indices.create({ index: oldIndex, aliases: { [ALIAS]: {} } });
+  const job = createReindexJob("user-resources", ALIAS, new Date("2026-06-22T08:00:00.000Z"));
+  const source = createSource([1, 2, 3].map((id) => createResource(id)), {
+    onBatch: async () => {
+      job.cancelRequested = true;
+    },
+  });
+
+  await runSearchReindex(job, TARGET, { client, alias: ALIAS, source, options: OPTIONS });
+
+  assert.equal(job.status, "cancelled");
+  assert.equal(job.error, null);
+  assert.equal(job.cancelRequested, false);
+  assert.equal(client.indexes.has(job.index), false);
+  assert.deepEqual([...client.aliases.get(ALIAS)], [oldIndex]);
+});
+
+test("pruneIndexVersions keeps the newest versions and never drops the active one", async () => {
+  const client = createFakeElasticsearch();
+  const versions = [
+    "user-resources_v20260101000000000",
+    "user-resources_v20260201000000000",
+    "user-resources_v20260301000000000",
+    "user-resources_v20260401000000000",
+  ];
+  for (const index of versions) {
+    await client.indices.create({ index });
+  }
+  // 回滚后别名指向较旧的版本
+  await client.indices.updateAliases({ actions: [{ add: { index: versions[0], alias: ALIAS } }] });
+
+  const pruned = await pruneIndexVersions(client, ALIAS, 2);
+
+  assert.deepEqual(pruned, [versions[1]]);
+  assert.deepEqual([...client.indexes.keys()].sort(), [versions[0], versions[2], versions[3]]);
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createSuggestionIndex,
+  getPinyinInitials,
+  getSearchSuggestOptions,
+  getSearchSuggestionIndex,
+  resetSearchSuggestionIndex,
+  splitPinyinSyllables,
+} from "../../server/services/search/searchSuggestions.js";
+
+const RECORDS = [
+  { keyword: "三体", count: 120 },
+  { keyword: "三体 全集", count: 40 },
+  { keyword: "三国演义", count: 80 },
+  { keyword: "流浪地球2", count: 60 },
+  { keyword: "Breaking Bad", count: 30 },
+  { keyword: "违禁词", count: 999 },
+];
+
+const isAllowed = (keyword) => keyword !== "违禁词";
+
+test("getSearchSuggestOptions clamps env values", () => {
+  assert.deepEqual(getSearchSuggestOptions({}), { refreshMinutes: 10, maxKeywords: 20000 });
+  assert.deepEqual(
+    getSearchSuggestOptions({ SEARCH_SUGGEST_REFRESH_MINUTES: "0", SEARCH_SUGGEST_MAX_KEYWORDS: "5" }),
+    { refreshMinutes: 1, maxKeywords: 100 }
+  );
+});
+
+test("getPinyinInitials maps Chinese characters to their pinyin initials", () => {
+  assert.equal(getPinyinInitials("三体"), "st");
+  assert.equal(getPinyinInitials("流浪地球2"), "lldq2");
+  assert.equal(getPinyinInitials("他日 Bad!"), "trbad");
+});
+
+test("splitPinyinSyllables accepts a trailing partial syllable", () => {
+  assert.deepEqual(splitPinyinSyllables("santi"), ["san", "ti"]);
+  assert.deepEqual(splitPinyinSyllables("liulangdiq"), ["liu", "lang", "di", "q"]);
+  assert.equal(splitPinyinSyllables("xyzv"), null);
+  assert.equal(splitPinyinSyllables("三体"), null);
+});
+
+test("suggest matches prefixes, initials and full pinyin while hiding moderated terms", () => {
+  const index = createSuggestionIndex(RECORDS, { isAllowed });
+
+  assert.equal(index.size, 5);
+  assert.deepEqual(
+    index.suggest("三").map((item) => item.keyword),
+    ["三体", "三国演义", "三体 全集"]
+  );
+  assert.deepEqual(index.suggest("st").map((item) => item.keyword), ["三体", "三体 全集"]);
+  assert.deepEqual(index.suggest("santi").map((item) => item.keyword), ["三体", "三体 全集"]);
+  assert.deepEqual(index.suggest("breaking").map((item) => item.keyword), ["Breaking Bad"]);
+  assert.deepEqual(index.suggest("违"), []);
+  assert.deepEqual(index.suggest("  "), []);
+});
+
+test("correct proposes the nearest popular keyword, preferring homophones", () => {
+  const index = createSuggestionIndex(
+    [...RECORDS, { keyword: "三休", count: 500 }],
+    { isAllowed }
+  );
+
+  assert.equal(index.correct("三题"), "三体");
+  assert.equal(index.correct("流浪地球3"), "流浪地球2");
+  assert.equal(index.correct("liulangdiqiu"), "流浪地球2");
+  assert.equal(index.correct("完全无关的词"), null);
+});
+
+test("getSearchSuggestionIndex caches the index until the refresh interval passes", async () => {
+  resetSearchSuggestionIndex();
+  let loads = 0;
+  const client = {
+    searchRecord: {
+      findMany: async ({ take }) => {
+        loads += 1;
+        return RECORDS.slice(0, take);
+      },
+    },
+  };
+  const options = { refreshMinutes: 10, maxKeywords: 100 };
+  const now = new Date("2026-07-10T00:00:00.000Z");
+
+  const [first, second] = await Promise.all([
+    getSearchSuggestionIndex({ options, client, isAllowed, now }),
+    getSearchSuggestionIndex({ options, client, isAllowed, now }),
+  ]);
+  assert.equal(first, second);
+  assert.equal(loads, 1);
+
+  await getSearchSuggestionIndex({ options, client, isAllowed, now: new Date(now.getTime() + 11 * 60 * 1000) });
+  assert.equal(loads, 2);
+  resetSearchSuggestionIndex();
+});
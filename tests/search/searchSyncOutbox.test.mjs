@@ -0,0 +1,251 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  computeSearchSyncBackoff,
+  drainSearchSyncOutbox,
+  enqueueSearchSync,
+  getSearchSyncOptions,
+  reconcileSearchIndex,
+  retrySearchSyncEvents,
+} from "../../server/services/search/searchSyncOutbox.js";
+
+const NOW = new Date("2026-06-29T08:00:00.000Z");
+const OPTIONS = { ...getSearchSyncOptions({}), maxAttempts: 3 };
+
+const createFakeClient = (events = []) => {
+  const state = { events: events.map((event, index) => ({
+    id: index + 1,
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: NOW,
+    lockedAt: null,
+    processedAt: null,
+    ...event,
+  })) };
+
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (value && typeof value === "object" && !(value instanceof Date)) {
+        if ("in" in value) return value.in.includes(record[key]);
+        if ("gt" in value) return record[key] > value.gt;
+        if ("lt" in value) return record[key] !== null && record[key] < value.lt;
+        if ("lte" in value) return record[key] <= value.lte;
+      }
+      return record[key] === value;
+    });
+
+  const client = {
+    searchSyncEvent: {
+      createMany: async ({ data }) => {
+        for (const item of data) {
+          state.events.push({
+            id: state.events.length + 1,
+            status: "pending",
+            attempts: 0,
+            lastError: null,
+            nextAttemptAt: NOW,
+            lockedAt: null,
+            processedAt: null,
+            ...item,
+          });
+        }
+        return { count: data.length };
+      },
+      findMany: async ({ where, take }) =>
+        state.events.filter((event) => matches(event, where)).slice(0, take),
+      findFirst: async ({ where }) => state.events.find((event) => matches(event, where)) || null,
+      update: async ({ where, data }) =>
+        Object.assign(state.events.find((event) => event.id === where.id), data),
+      updateMany: async ({ where, data }) => {
+        const targets = state.events.filter((event) => matches(event, where));
+        targets.forEach((event) => Object.assign(event, data));
+        return { count: targets.length };
+      },
+    },
+  };
+
+  return { client, state };
+};
+
+const createHandlers = ({ rows = {}, failing = new Set() } = {}) => {
+  const calls = [];
+  const handler = {
+    isConfigured: () => true,
+    load: async (id) => rows[id] || null,
+    shouldIndex: (row) => row.status === "published",
+    upsert: async (row) => {
+      if (failing.has(row.id)) throw new Error("ES 不可用");
+      calls.push(["upsert", row.id]);
+    },
+    remove: async (id) => {
+      calls.push(["remove", id]);
+    },
+  };
+
+  return { handlers: { "user-resources": handler, resources: handler }, calls };
+};
+
+test("enqueueSearchSync writes events through the caller's transaction client", async () => {
+  const { client, state } = createFakeClient();
+
+  await enqueueSearchSync(client, [
+    { target: "user-resources", entityId: "7" },
+    { target: "resources", entityId: 8, action: "delete" },
+  ]);
+
+  assert.deepEqual(
+    state.events.map(({ target, entityId, action }) => ({ target, entityId, action })),
+    [
+      { target: "user-resources", entityId: 7, action: "upsert" },
+      { target: "resources", entityId: 8, action: "delete" },
+    ]
+  );
+  await assert.rejects(
+    enqueueSearchSync(client, { target: "unknown", entityId: 1 }),
+    (error) => error.statusCode === 404
+  );
+});
+
+test("drainSearchSyncOutbox indexes or removes by the current database state", async () => {
+  const { client, state } = createFakeClient([
+    { target: "user-resources", entityId: 1, action: "upsert" },
+    { target: "user-resources", entityId: 2, action: "upsert" },
+    { target: "resources", entityId: 3, action: "delete" },
+  ]);
+  const { handlers, calls } = createHandlers({
+    rows: { 1: { id: 1, status: "published" }, 2: { id: 2, status: "rejected" } },
+  });
+
+  const summary = await drainSearchSyncOutbox({ now: NOW, options: OPTIONS, handlers, client });
+
+  assert.equal(summary.delivered, 3);
+  assert.deepEqual(calls, [
+    ["upsert", 1],
+    ["remove", 2],
+    ["remove", 3],
+  ]);
+  assert.deepEqual(
+    state.events.map((event) => [event.status, event.processedAt]),
+    [
+      ["done", NOW],
+      ["done", NOW],
+      ["done", NOW],
+    ]
+  );
+});
+
+test("drainSearchSyncOutbox lets the newest event for the same row win", async () => {
+  const { client, state } = createFakeClient([
+    { target: "user-resources", entityId: 1, action: "upsert" },
+    { target: "user-resources", entityId: 1, action: "delete" },
+  ]);
+  const { handlers, calls } = createHandlers({ rows: { 1: { id: 1, status: "published" } } });
+
+  const summary = await drainSearchSyncOutbox({ now: NOW, options: OPTIONS, handlers, client });
+
+  assert.equal(summary.superseded, 1);
+  assert.deepEqual(calls, [["remove", 1]]);
+  assert.deepEqual(state.events.map((event) => event.status), ["done", "done"]);
+});
+
+test("failed deliveries back off and are parked after the last attempt", async () => {
+  const { client, state } = createFakeClient([
+    { target: "user-resources", entityId: 1, action: "upsert", attempts: 1 },
+    { target: "user-resources", entityId: 2, action: "upsert", attempts: 2 },
+  ]);
+  const { handlers } = createHandlers({
+    rows: { 1: { id: 1, status: "published" }, 2: { id: 2, status: "published" } },
+    failing: new Set([1, 2]),
+  });
+
+  const summary = await drainSearchSyncOutbox({ now: NOW, options: OPTIONS, handlers, client });
+
+  assert.deepEqual(
+    { retried: summary.retried, failed: summary.failed },
+    { retried: 1, failed: 1 }
+  );
+  assert.equal(computeSearchSyncBackoff(2), 20 * 1000);
+  const { status, attempts, lockedAt, lastError, nextAttemptAt } = state.events[0];
+  assert.deepEqual(
+    { status, attempts, lockedAt, lastError, nextAttemptAt },
+    {
+      status: "pending",
+      attempts: 2,
+      lockedAt: null,
+      lastError: "ES 不可用",
+      nextAttemptAt: new Date(NOW.getTime() + 20 * 1000),
+    }
+  );
+  assert.equal(state.events[1].status, "failed");
+  assert.equal(state.events[1].attempts, 3);
+
+  // 退避期间不会被再次领取
+  const idle = await drainSearchSyncOutbox({ now: NOW, options: OPTIONS, handlers, client });
+  assert.equal(idle.claimed, 0);
+
+  assert.equal(await retrySearchSyncEvents({ now: NOW, client }), 1);
+  assert.deepEqual([state.events[1].status, state.events[1].attempts], ["pending", 0]);
+});
+
+test("stale processing events are released back to the queue", async () => {
+  const { client } = createFakeClient([
+    {
+      target: "user-resources",
+      entityId: 1,
+      action: "upsert",
+      status: "processing",
+      lockedAt: new Date(NOW.getTime() - 10 * 60 * 1000),
+    },
+  ]);
+  const { handlers, calls } = createHandlers({ rows: { 1: { id: 1, status: "published" } } });
+
+  const summary = await drainSearchSyncOutbox({ now: NOW, options: OPTIONS, handlers, client });
+
+  assert.equal(summary.delivered, 1);
+  assert.deepEqual(calls, [["upsert", 1]]);
+});
+
+test("reconcileSearchIndex queues upserts for missing documents and deletes for extras", async () => {
+  const { client, state } = createFakeClient();
+  const rows = [1, 2, 3, 4].map((id) => ({ id, status: id === 4 ? "rejected" : "published" }));
+  const source = {
+    shouldIndex: (row) => row.status === "published",
+    loadBatch: async ({ afterId, take }) => rows.filter((row) => row.id > afterId).slice(0, take),
+  };
+  const pages = [[2, 3, 4, 9], []];
+  const searchClient = {
+    search: async () => ({
+      _scroll_id: "scroll-1",
+      hits: { hits: pages.shift().map((id) => ({ _source: { resourceId: id } })) },
+    }),
+    scroll: async () => ({ _scroll_id: "scroll-1", hits: { hits: pages.shift() || [] } }),
+    clearScroll: async () => ({}),
+  };
+
+  const result = await reconcileSearchIndex("user-resources", {
+    search: { client: searchClient, alias: "user-resources" },
+    source,
+    batchSize: 2,
+    now: NOW,
+    client,
+  });
+
+  assert.deepEqual(result, {
+    target: "user-resources",
+    expected: 3,
+    indexed: 4,
+    missing: 1,
+    extra: 2,
+    finishedAt: NOW.toISOString(),
+  });
+  assert.deepEqual(
+    state.events.map(({ entityId, action }) => [entityId, action]),
+    [
+      [1, "upsert"],
+      [4, "delete"],
+      [9, "delete"],
+    ]
+  );
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  normalizeSearchText,
+  normalizeSeasonEpisode,
+  parseChineseNumber,
+  parseSynonymRules,
+  toSimplifiedChinese,
+} from "../../server/services/search/searchTextNormalization.js";
+import {
+  SEARCH_SYNONYM_SET_ID,
+  buildSearchAnalysisSettings,
+  saveSearchSynonymRules,
+} from "../../server/services/search/searchSynonyms.js";
+import { getMissingMappingProperties } from "../../server/services/search/searchIndexAliases.js";
+import {
+  RESOURCE_INDEX_MAPPINGS,
+  RESOURCE_INDEX_SETTINGS,
+} from "../../server/services/search/resourceSearchIndex.js";
+
+test("toSimplifiedChinese converts common traditional title characters", () => {
+  assert.equal(toSimplifiedChinese("復仇者聯盟：終局之戰"), "复仇者联盟：终局之战");
+  assert.equal(toSimplifiedChinese("鬼吹燈之精絕古城"), "鬼吹灯之精绝古城");
+  assert.equal(toSimplifiedChinese("Breaking Bad 绝命毒师"), "Breaking Bad 绝命毒师");
+});
+
+test("parseChineseNumber handles digits and Chinese numerals up to 99", () => {
+  assert.equal(parseChineseNumber("12"), 12);
+  assert.equal(parseChineseNumber("三"), 3);
+  assert.equal(parseChineseNumber("十"), 10);
+  assert.equal(parseChineseNumber("十二"), 12);
+  assert.equal(parseChineseNumber("二十"), 20);
+  assert.equal(parseChineseNumber("九十九"), 99);
+  assert.equal(parseChineseNumber("一百"), null);
+});
+
+test("normalizeSeasonEpisode unifies season and episode notations", () => {
+  for (const [input, expected] of [
+    ["庆余年 第二季", "庆余年 S02"],
+    ["庆余年第2季", "庆余年 S02"],
+    ["Friends Season 10", "Friends S10"],
+    ["Friends s1", "Friends S01"],
+    ["三体 第十二集", "三体 E12"],
+    ["三体 EP5", "三体 E05"],
+    ["Lost S1E3", "Lost S01 E03"],
+    ["PS5 游戏合集", "PS5 游戏合集"],
+  ]) {
+    assert.equal(normalizeSearchText(input), expected, input);
+  }
+  assert.equal(normalizeSeasonEpisode("第一百季"), "第一百季");
+});
+
+test("normalizeSearchText makes traditional and simplified season titles identical", () => {
+  assert.equal(normalizeSearchText("復仇者聯盟  第一季"), normalizeSearchText("复仇者联盟 S01"));
+});
+
+test("parseSynonymRules normalizes terms and keeps explicit mappings", () => {
+  assert.deepEqual(
+    parseSynonymRules(
+      [
+        "# 注释会被忽略",
+        "復仇者聯盟, 妇联，Avengers",
+        "妇联, 复联 => 复仇者联盟",
+        "只有一个词",
+        "复仇者联盟, 妇联, avengers",
+        "权力的游戏 第一季, Game of Thrones Season 1",
+      ].join("\n")
+    ),
+    [
+      "复仇者联盟, 妇联, avengers",
+      "妇联, 复联 => 复仇者联盟",
+      "权力的游戏 s01, game of thrones s01",
+    ]
+  );
+});
+
+test("saveSearchSynonymRules stores the dictionary and pushes it to ES", async () => {
+  const upserts = [];
+  const putCalls = [];
+  const client = {
+    systemSettings: { upsert: async (args) => upserts.push(args) },
+  };
+  const searchClient = {
+    synonyms: { putSynonym: async (args) => putCalls.push(args) },
+  };
+  const failingClient = {
+    synonyms: {
+      putSynonym: async () => {
+        throw new Error("ES 不可用");
+      },
+    },
+  };
+  const originalError = console.error;
+  console.error = () => {};
+
+  try {
+    const result = await saveSearchSynonymRules("三体, Three Body", {
+      client,
+      searchClients: [searchClient, failingClient],
+    });
+
+    assert.deepEqual(result, { rules: ["三体, three body"], synced: false });
+  } finally {
+    console.error = originalError;
+  }
+
+  assert.equal(upserts[0].where.key, "search_synonyms");
+  assert.equal(upserts[0].update.value, JSON.stringify(["三体, three body"]));
+  assert.deepEqual(putCalls, [
+    { id: SEARCH_SYNONYM_SET_ID, synonyms_set: [{ id: "rule-1", synonyms: "三体, three body" }] },
+  ]);
+  assert.equal(
+    buildSearchAnalysisSettings().analysis.filter.search_synonyms.synonyms_set,
+    SEARCH_SYNONYM_SET_ID
+  );
+});
+
+test("existing indexes only receive missing fields without the new search analyzer", () => {
+  const { normalizedName, services, ...legacyProperties } = RESOURCE_INDEX_MAPPINGS.properties;
+
+  assert.deepEqual(
+    getMissingMappingProperties(legacyProperties, RESOURCE_INDEX_MAPPINGS, RESOURCE_INDEX_SETTINGS),
+    {
+      normalizedName: { type: "text", analyzer: "ik_max_word" },
+      services,
+    }
+  );
+  assert.equal(normalizedName.search_analyzer, "ik_smart_synonym");
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { readFile, readdir } from "node:fs/promises";
+import test from "node:test";
+
+import {
+  SOURCE_FIXTURE_ORIGINS,
+  SOURCE_FIXTURE_RUNNERS,
+  createRecordingFetch,
+  createReplayFetch,
+  replaySourceFixture,
+} from "../../server/services/search/sourceFixtures.mjs";
+
+// 夹具由 scripts/search-source-fixtures.mjs 录制和更新，目前都是手写的（origin: handwritten）
+const FIXTURE_DIR = new URL("./fixtures/sources/", import.meta.url);
+
+const fixtureFiles = (await readdir(FIXTURE_DIR)).filter((file) => file.endsWith(".json")).sort();
+
+test("every replayable search source has a fixture", () => {
+  assert.deepEqual(
+    fixtureFiles.map((file) => file.replace(/\.json$/, "")),
+    Object.keys(SOURCE_FIXTURE_RUNNERS).sort()
+  );
+});
+
+for (const file of fixtureFiles) {
+  test(`${file} replays to its snapshot`, async () => {
+    const fixture = JSON.parse(await readFile(new URL(file, FIXTURE_DIR), "utf8"));
+
+    assert.deepEqual(await replaySourceFixture(fixture), fixture.expected);
+  });
+
+  test(`${file} declares whether its responses were recorded or handwritten`, async () => {
+    const fixture = JSON.parse(await readFile(new URL(file, FIXTURE_DIR), "utf8"));
+
+    assert.ok(SOURCE_FIXTURE_ORIGINS.includes(fixture.origin), `${file} 缺少 origin`);
+    if (fixture.origin === "recorded") {
+      assert.ok(!Number.isNaN(Date.parse(fixture.recordedAt)), `${file} 缺少 recordedAt`);
+    } else {
+      assert.equal(fixture.recordedAt, undefined, `${file} 是手写夹具，不应带 recordedAt`);
+    }
+  });
+}
+
+test("createReplayFetch matches method, url and body and rethrows recorded errors", async () => {
+  const replay = createReplayFetch([
+    {
+      request: { method: "POST", url: "https://x.test/api", body: '{"q":"a"}' },
+      response: { status: 200, headers: { "set-cookie": "sid=1; path=/" }, body: "first" },
+    },
+    {
+      request: { method: "POST", url: "https://x.test/api", body: '{"q":"a"}' },
+      response: { status: 503, body: "busy" },
+    },
+    { request: { method: "GET", url: "https://x.test/down", body: "" }, error: "fetch failed" },
+  ]);
+
+  const first = await replay("https://x.test/api", { method: "post", body: '{"q":"a"}' });
+  assert.equal(await first.text(), "first");
+  assert.equal(first.headers.get("set-cookie"), "sid=1; path=/");
+
+  const second = await replay("https://x.test/api", { method: "POST", body: '{"q":"a"}' });
+  assert.equal(second.status, 503);
+  const repeated = await replay("https://x.test/api", { method: "POST", body: '{"q":"a"}' });
+  assert.equal(await repeated.text(), "busy");
+
+  await assert.rejects(replay("https://x.test/api", { method: "POST", body: '{"q":"b"}' }), /No recorded response/);
+  await assert.rejects(replay("https://x.test/down"), /fetch failed/);
+});
+
+test("createRecordingFetch records the body even when the caller cancels the stream early", async () => {
+  const encoder = new TextEncoder();
+  const upstream = async () =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode("data: 1\n\n"));
+          controller.enqueue(encoder.encode("data: 2\n\n"));
+          controller.close();
+        },
+      }),
+      { headers: { "content-type": "text/event-stream", "x-request-id": "abc" } }
+    );
+  const recorder = createRecordingFetch(upstream);
+
+  const response = await recorder.fetch("https://x.test/stream", { method: "GET" });
+  const reader = response.body.getReader();
+  await reader.read();
+  await reader.cancel();
+
+  const [exchange] = await recorder.getExchanges();
+  assert.deepEqual(exchange.request, { method: "GET", url: "https://x.test/stream", body: "" });
+  assert.deepEqual(exchange.response.headers, { "content-type": "text/event-stream" });
+  assert.equal(exchange.response.body, "data: 1\n\ndata: 2\n\n");
+});
+
+test("createRecordingFetch records network failures so replay fails the same way", async () => {
+  const recorder = createRecordingFetch(async () => {
+    throw new Error("connect ECONNREFUSED");
+  });
+
+  await assert.rejects(recorder.fetch("https://x.test/api", { method: "POST", body: "q=a" }), /ECONNREFUSED/);
+
+  const exchanges = await recorder.getExchanges();
+  assert.deepEqual(exchanges, [
+    { request: { method: "POST", url: "https://x.test/api", body: "q=a" }, error: "connect ECONNREFUSED" },
+  ]);
+  await assert.rejects(createReplayFetch(exchanges)("https://x.test/api", { method: "POST", body: "q=a" }), /ECONNREFUSED/);
+});
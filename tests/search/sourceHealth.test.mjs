@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  CIRCUIT_STATES,
+  buildSearchSourceManifest,
+  classifySearchSourceResponse,
+  getSearchSourceHealthOptions,
+  getSearchSourceId,
+  isSearchSourceAvailable,
+  recordSearchSourceOutcome,
+  resolveCircuitState,
+  summarizeSearchSourceSamples,
+} from "../../server/services/search/sourceHealth.mjs";
+
+const options = getSearchSourceHealthOptions({
+  SEARCH_SOURCE_CIRCUIT_MIN_SAMPLES: "4",
+  SEARCH_SOURCE_CIRCUIT_ERROR_RATE: "50",
+  SEARCH_SOURCE_CIRCUIT_EMPTY_RATE: "90",
+  SEARCH_SOURCE_CIRCUIT_COOLDOWN_SECONDS: "60",
+});
+
+const buildSamples = (outcomes) =>
+  outcomes.map((outcome, index) => ({
+    at: 1000 + index,
+    outcome,
+    latencyMs: 200 * (index + 1),
+    resultCount: outcome === "success" ? 4 : 0,
+    ...(outcome === "error" ? { error: "upstream timeout" } : {}),
+  }));
+
+test("getSearchSourceId only accepts /api/sources endpoints", () => {
+  assert.equal(getSearchSourceId("/api/sources/pansou"), "pansou");
+  assert.equal(getSearchSourceId("/api/sources/external-pan?x=1"), "external-pan");
+  assert.equal(getSearchSourceId("/api/sources/manifest"), "");
+  assert.equal(getSearchSourceId("/api/admin/search/sources"), "");
+});
+
+test("classifySearchSourceResponse ignores caller errors", () => {
+  assert.equal(classifySearchSourceResponse({ list: [], code: 429 }), null);
+  assert.equal(classifySearchSourceResponse({ list: [], code: 400 }), null);
+  assert.equal(classifySearchSourceResponse({ list: [], code: 502, msg: "bad" }).outcome, "error");
+  assert.equal(classifySearchSourceResponse({ msg: "oops" }).outcome, "error");
+  assert.deepEqual(classifySearchSourceResponse({ list: [], code: 200 }), {
+    outcome: "empty",
+    resultCount: 0,
+  });
+  assert.deepEqual(classifySearchSourceResponse({ list: [{}, {}] }), {
+    outcome: "success",
+    resultCount: 2,
+  });
+});
+
+test("summarizeSearchSourceSamples computes rates, latency and score", () => {
+  const summary = summarizeSearchSourceSamples(
+    buildSamples(["error", "success", "empty", "success"]),
+    options
+  );
+
+  assert.equal(summary.requests, 4);
+  assert.equal(summary.errorRate, 0.25);
+  assert.equal(summary.emptyRate, 0.333);
+  assert.equal(summary.avgLatencyMs, 500);
+  assert.equal(summary.p95LatencyMs, 800);
+  assert.equal(summary.avgResultCount, 2.7);
+  assert.equal(summary.lastError.message, "upstream timeout");
+  assert.ok(summary.score > 0 && summary.score < 100);
+  assert.equal(summarizeSearchSourceSamples([]).score, null);
+});
+
+test("resolveCircuitState opens after enough failures and not before", () => {
+  const few = summarizeSearchSourceSamples(buildSamples(["error", "error"]), options);
+  assert.equal(resolveCircuitState(null, few, { now: 0, options }).state, CIRCUIT_STATES.closed);
+
+  const failing = summarizeSearchSourceSamples(
+    buildSamples(["error", "error", "error", "success"]),
+    options
+  );
+  const opened = resolveCircuitState(null, failing, { now: 0, options });
+  assert.equal(opened.state, CIRCUIT_STATES.open);
+  assert.equal(opened.openUntil, 60_000);
+  assert.equal(opened.trips, 1);
+  assert.match(opened.reason, /失败率/);
+
+  const empty = summarizeSearchSourceSamples(
+    buildSamples(["empty", "empty", "empty", "empty"]),
+    options
+  );
+  assert.match(resolveCircuitState(null, empty, { now: 0, options }).reason, /空结果率/);
+});
+
+test("resolveCircuitState probes after cooldown and recovers on success", () => {
+  const opened = { state: CIRCUIT_STATES.open, openedAt: 0, openUntil: 60_000, trips: 1 };
+  const summary = summarizeSearchSourceSamples(buildSamples(["error"]), options);
+
+  assert.equal(resolveCircuitState(opened, summary, { now: 30_000, options }), opened);
+  assert.equal(isSearchSourceAvailable(opened, 30_000), false);
+  assert.equal(isSearchSourceAvailable(opened, 60_000), true);
+
+  const recovered = resolveCircuitState(opened, summary, {
+    now: 61_000,
+    options,
+    outcome: "success",
+  });
+  assert.equal(recovered.state, CIRCUIT_STATES.closed);
+  assert.equal(recovered.resetSamples, true);
+
+  const reopened = resolveCircuitState(opened, summary, {
+    now: 61_000,
+    options,
+    outcome: "error",
+  });
+  assert.equal(reopened.state, CIRCUIT_STATES.open);
+  assert.equal(reopened.openUntil, 121_000);
+  assert.equal(reopened.trips, 2);
+});
+
+test("buildSearchSourceManifest drops open circuits and keeps config order", () => {
+  const manifest = buildSearchSourceManifest(
+    [
+      { api: "/api/sources/local" },
+      { api: "/api/sources/pansou" },
+      { api: "/api/sources/jso" },
+    ],
+    {
+      pansou: { state: CIRCUIT_STATES.open, openUntil: 5000, reason: "失败率 80% 超过阈值" },
+      jso: { state: CIRCUIT_STATES.open, openUntil: 500 },
+    },
+    1000
+  );
+
+  assert.deepEqual(
+    manifest.sources.map((source) => source.id),
+    ["local", "jso"]
+  );
+  assert.equal(manifest.disabled[0].id, "pansou");
+  assert.equal(manifest.disabled[0].reason, "失败率 80% 超过阈值");
+});
+
+test("recordSearchSourceOutcome trips the in-memory breaker without redis", async () => {
+  const overrides = { ...options, keyPrefix: "test:source-health" };
+  let result;
+  for (let index = 0; index < 4; index += 1) {
+    result = await recordSearchSourceOutcome(
+      "memory-test",
+      { outcome: "error", latencyMs: 50, error: "boom" },
+      { ...overrides, now: 1000 + index }
+    );
+  }
+
+  assert.equal(result.circuit.state, CIRCUIT_STATES.open);
+
+  const recovered = await recordSearchSourceOutcome(
+    "memory-test",
+    { outcome: "success", latencyMs: 50, resultCount: 3 },
+    { ...overrides, now: 120_000 }
+  );
+  assert.equal(recovered.circuit.state, CIRCUIT_STATES.closed);
+});
@@ -28,6 +28,7 @@ test("buildUserResourceIndexDocument maps published user resources into ES docum
   assert.deepEqual(doc, {
     resourceId: 42,
     name: "示例投稿",
+    normalizedName: "示例投稿",
     description: "示例描述",
     typeId: 7,
     typeName: "电影",
@@ -37,6 +38,7 @@ test("buildUserResourceIndexDocument maps published user resources into ES docum
       { link: "https://pan.baidu.com/s/abc", pwd: "1234", service: "BAIDU" },
       { link: "https://pan.quark.cn/s/xyz", pwd: "", service: "QUARK" },
     ],
+    services: ["BAIDU", "QUARK"],
     createdAt: "2026-01-02T03:04:05.000Z",
     updatedAt: "2026-01-03T04:05:06.000Z",
   });
@@ -67,7 +69,7 @@ test("buildUserResourceStrictKeywordQuery avoids single-token OR matches", () =>
         {
           multi_match: {
             query: "一站再战",
-            fields: ["name^5", "description^2", "typeName^2"],
+            fields: ["name^5", "normalizedName^5", "description^2", "typeName^2"],
             type: "phrase",
             boost: 8,
           },
@@ -75,7 +77,7 @@ test("buildUserResourceStrictKeywordQuery avoids single-token OR matches", () =>
         {
           multi_match: {
             query: "一站再战",
-            fields: ["name^5", "description^2", "typeName^2"],
+            fields: ["name^5", "normalizedName^5", "description^2", "typeName^2"],
             operator: "and",
           },
         },
@@ -85,6 +87,16 @@ test("buildUserResourceStrictKeywordQuery avoids single-token OR matches", () =>
   });
 });
 
+test("buildUserResourceStrictKeywordQuery normalizes traditional Chinese and season notation", () => {
+  const [phrase] = buildUserResourceStrictKeywordQuery("復仇者聯盟 第二季").bool.should;
+
+  assert.equal(phrase.multi_match.query, "复仇者联盟 S02");
+  assert.equal(
+    buildUserResourceIndexDocument({ id: 1, name: "复仇者联盟S2", createdAt: 0, updatedAt: 0 }).normalizedName,
+    "复仇者联盟S02"
+  );
+});
+
 test("buildUserResourceAdminListQuery supports paged ES browsing", () => {
   assert.deepEqual(
     buildUserResourceAdminListQuery({ page: 3, pageSize: 10 }),
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildLinkHealthNotification,
+  collectCheckableLinks,
+  computeNextLinkHealth,
+  getLinkHealthOptions,
+  getNextRotationCursor,
+  isResourceLinkSetDead,
+  summarizeLinkHealthByService,
+} from "../../server/services/userResources/linkHealth.js";
+
+test("getLinkHealthOptions clamps crawler settings", () => {
+  const options = getLinkHealthOptions({
+    LINK_HEALTH_ENABLED: "false",
+    LINK_HEALTH_INTERVAL_MINUTES: "1",
+    LINK_HEALTH_BATCH_SIZE: "9999",
+    LINK_HEALTH_FAILURE_THRESHOLD: "0",
+    LINK_HEALTH_AUTO_UNPUBLISH: "no",
+  });
+
+  assert.equal(options.enabled, false);
+  assert.equal(options.intervalMinutes, 5);
+  assert.equal(options.batchSize, 500);
+  assert.equal(options.failureThreshold, 1);
+  assert.equal(options.autoUnpublish, false);
+  assert.equal(options.notifyUser, true);
+});
+
+test("getNextRotationCursor wraps around after a short batch", () => {
+  assert.equal(getNextRotationCursor([{ id: 3 }, { id: 8 }], 2), 8);
+  assert.equal(getNextRotationCursor([{ id: 3 }], 2), 0);
+  assert.equal(getNextRotationCursor([], 2), 0);
+});
+
+test("collectCheckableLinks dedupes mirror links and respects the budget", () => {
+  const links = collectCheckableLinks(
+    JSON.stringify([
+      { link: "https://www.aliyundrive.com/s/abc123" },
+      { link: "https://alipan.com/s/abc123/" },
+      { link: "https://pan.quark.cn/s/q1" },
+      { link: "https://pan.baidu.com/s/b1" },
+    ]),
+    2
+  );
+
+  assert.deepEqual(
+    links.map((link) => [link.service, link.canonicalLink]),
+    [
+      ["ALIYUN", "https://www.alipan.com/s/abc123"],
+      ["QUARK", "https://pan.quark.cn/s/q1"],
+    ]
+  );
+});
+
+test("computeNextLinkHealth only counts confirmed failures", () => {
+  const now = new Date("2026-06-01T00:00:00Z");
+  const first = computeNextLinkHealth(
+    null,
+    { status: "invalid", statusCode: 404, message: "访问返回HTTP 404" },
+    { now, failureThreshold: 2 }
+  );
+  assert.equal(first.status, "failing");
+  assert.equal(first.consecutiveFailures, 1);
+  assert.equal(first.lastStatusCode, 404);
+
+  const timeout = computeNextLinkHealth(
+    first,
+    { status: "unknown", message: "链接检查超时" },
+    { now, failureThreshold: 2 }
+  );
+  assert.equal(timeout.status, "unknown");
+  assert.equal(timeout.consecutiveFailures, 1);
+
+  const dead = computeNextLinkHealth(
+    timeout,
+    { status: "invalid", message: "页面内容提示分享不存在或已失效" },
+    { now, failureThreshold: 2 }
+  );
+  assert.equal(dead.status, "dead");
+  assert.equal(dead.consecutiveFailures, 2);
+  assert.equal(dead.checkCount, 3);
+
+  const recovered = computeNextLinkHealth(
+    { ...dead, unpublishedAt: now },
+    { status: "reachable", statusCode: 200 },
+    { now, failureThreshold: 2 }
+  );
+  assert.equal(recovered.status, "healthy");
+  assert.equal(recovered.consecutiveFailures, 0);
+  assert.equal(recovered.lastOkAt, now);
+  assert.equal(recovered.unpublishedAt, null);
+});
+
+test("isResourceLinkSetDead requires every checkable link to be dead", () => {
+  assert.equal(isResourceLinkSetDead([{ status: "dead" }, { status: "skipped" }]), true);
+  assert.equal(isResourceLinkSetDead([{ status: "dead" }, { status: "healthy" }]), false);
+  assert.equal(isResourceLinkSetDead([{ status: "skipped" }]), false);
+  assert.equal(isResourceLinkSetDead([]), false);
+});
+
+test("buildLinkHealthNotification explains why the resource was unpublished", () => {
+  const payload = buildLinkHealthNotification({ id: 7, name: "测试资源" }, [
+    { service: "QUARK", lastError: "访问返回HTTP 404" },
+  ]);
+
+  assert.equal(payload.type, "resource_link_dead");
+  assert.equal(payload.relatedId, 7);
+  assert.match(payload.content, /测试资源/);
+  assert.match(payload.content, /夸克网盘/);
+  assert.match(payload.content, /HTTP 404/);
+  assert.match(payload.content, /自动重新上架/);
+});
+
+test("summarizeLinkHealthByService aggregates groupBy rows", () => {
+  const summary = summarizeLinkHealthByService([
+    { service: "QUARK", status: "healthy", _count: { _all: 3 } },
+    { service: "QUARK", status: "dead", _count: { _all: 1 } },
+    { service: "MAGNET", status: "skipped", _count: { _all: 2 } },
+  ]);
+
+  assert.equal(summary.services[0].service, "QUARK");
+  assert.equal(summary.services[0].healthyRate, 75);
+  assert.equal(summary.services[1].healthyRate, null);
+  assert.equal(summary.totals.total, 6);
+  assert.equal(summary.totals.dead, 1);
+});
@@ -12,4 +12,5 @@ export interface UserInfo {
     role: string;
     createdAt: Date;
     isVerified: boolean;
+    permissions?: string[];
 } 
\ No newline at end of file
@@ -0,0 +1,113 @@
+// 后台权限目录：服务端鉴权和前端菜单共用同一份定义
+
+export const ALL_PERMISSIONS = "*";
+
+export const ADMIN_PERMISSIONS = [
+  { key: "dashboard.view", label: "查看控制面板", group: "通用" },
+  { key: "content.manage", label: "管理博客、发布日志和导航", group: "内容" },
+  { key: "content.review", label: "审核用户文章和评论", group: "内容" },
+  { key: "resources.manage", label: "管理网盘资源、Alist 源和链接健康", group: "资源" },
+  { key: "resources.review", label: "审核用户投稿资源", group: "资源" },
+  { key: "search.manage", label: "管理搜索索引、搜索源和同义词", group: "资源" },
+  { key: "forum.moderate", label: "论坛版务和举报处理", group: "社区" },
+  { key: "chat.manage", label: "管理聊天室", group: "社区" },
+  { key: "users.manage", label: "管理用户账号", group: "系统" },
+  { key: "roles.manage", label: "管理角色并为用户分配角色", group: "系统" },
+  { key: "points.grant", label: "管理积分任务、兑换码和积分发放", group: "系统" },
+  { key: "settings.write", label: "修改系统配置", group: "系统" },
+  { key: "backups.download", label: "创建和下载数据库备份", group: "系统" },
+  { key: "audit.view", label: "查看和导出操作审计日志", group: "系统" },
+];
+
+export const ADMIN_PERMISSION_KEYS = ADMIN_PERMISSIONS.map((permission) => permission.key);
+
+// 内置角色不可编辑；admin 拥有全部权限，user / vip 没有后台权限
+export const BUILTIN_ROLES = [
+  { key: "admin", name: "管理员", permissions: [ALL_PERMISSIONS] },
+  {
+    key: "moderator",
+    name: "版主",
+    permissions: ["dashboard.view", "forum.moderate", "chat.manage", "content.review"],
+  },
+  {
+    key: "reviewer",
+    name: "审核员",
+    permissions: ["dashboard.view", "resources.review", "content.review"],
+  },
+  { key: "vip", name: "VIP用户", permissions: [] },
+  { key: "user", name: "普通用户", permissions: [] },
+];
+
+export const BUILTIN_ROLE_KEYS = BUILTIN_ROLES.map((role) => role.key);
+
+// 后台页面路径前缀 → 所需权限；数组表示满足其一即可，按最长前缀匹配
+export const ADMIN_PAGE_PERMISSIONS = {
+  "/admin/dashboard": "dashboard.view",
+  "/admin/blog": "content.manage",
+  "/admin/releases": "content.manage",
+  "/admin/navigation": "content.manage",
+  "/admin/user-posts": "content.review",
+  "/admin/comments": "content.review",
+  "/admin/clouddrive": "resources.manage",
+  "/admin/alist": "resources.manage",
+  "/admin/link-health": "resources.manage",
+  "/admin/user-resources": "resources.review",
+  "/admin/review": ["resources.review", "content.review", "forum.moderate"],
+  "/admin/search-index": "search.manage",
+  "/admin/search-stats": "search.manage",
+  "/admin/search-sources": "search.manage",
+  "/admin/external-sources": "search.manage",
+  "/admin/forum": "forum.moderate",
+  "/admin/reports": "forum.moderate",
+  "/admin/chat": "chat.manage",
+  "/admin/users": "users.manage",
+  "/admin/roles": "roles.manage",
+  "/admin/points": "points.grant",
+  "/admin/sensitive-words": "settings.write",
+  "/admin/settings": "settings.write",
+  "/admin/database-backups": "backups.download",
+  "/admin/audit-logs": "audit.view",
+};
+
+/**
+ * 按路径前缀查找所需权限，前缀必须落在路径分段边界上；未登记的路径返回 null
+ */
+export function matchPathPermission(map, path) {
+  const normalizedPath = String(path || "").split("?")[0].replace(/\/+$/, "");
+  let matchedPrefix = "";
+
+  for (const prefix of Object.keys(map)) {
+    const isMatch = normalizedPath === prefix || normalizedPath.startsWith(`${prefix}/`);
+    if (isMatch && prefix.length > matchedPrefix.length) {
+      matchedPrefix = prefix;
+    }
+  }
+
+  return matchedPrefix ? map[matchedPrefix] : null;
+}
+
+export function hasPermission(permissions, required) {
+  const granted = Array.isArray(permissions) ? permissions : [];
+  if (granted.includes(ALL_PERMISSIONS)) {
+    return true;
+  }
+
+  const requiredList = Array.isArray(required) ? required : [required];
+  return requiredList.some((permission) => granted.includes(permission));
+}
+
+// 有任一后台权限即可进入后台
+export const canAccessAdmin = (permissions) => Array.isArray(permissions) && permissions.length > 0;
+
+/**
+ * 后台页面是否可访问；未登记的后台页面只对拥有全部权限的角色开放
+ */
+export function canAccessAdminPage(permissions, path) {
+  const required = matchPathPermission(ADMIN_PAGE_PERMISSIONS, path);
+  return required ? hasPermission(permissions, required) : hasPermission(permissions, ALL_PERMISSIONS);
+}
+
+// 进入后台时的落地页：第一个有权限的后台页面
+export function getDefaultAdminPage(permissions) {
+  return Object.keys(ADMIN_PAGE_PERMISSIONS).find((path) => canAccessAdminPage(permissions, path)) || null;
+}
@@ -0,0 +1,366 @@
+/**
+ * 网盘链接服务注册表。
+ *
+ * 搜索源解析、ES 索引、投稿自动审核与前端展示都从这里读取域名、分享链接形态、
+ * 提取码规则、规范化链接与展示名称，新增或调整网盘只需要改这一处。
+ */
+export const LINK_SERVICE_DEFINITIONS = [
+  {
+    key: "BAIDU",
+    label: "百度网盘",
+    category: "cloud",
+    hosts: ["pan.baidu.com"],
+    hints: ["百度", "baidu"],
+    canonicalHost: "pan.baidu.com",
+    sharePath: /^\/(?:s\/[A-Za-z0-9_-]+|share\/init\?surl=[A-Za-z0-9_-]+)/,
+    keepQuery: ["surl"],
+  },
+  {
+    key: "XUNLEI",
+    label: "迅雷网盘",
+    category: "cloud",
+    hosts: ["pan.xunlei.com"],
+    hints: ["迅雷", "xunlei"],
+    canonicalHost: "pan.xunlei.com",
+    sharePath: /^\/s\/[A-Za-z0-9_-]+/,
+  },
+  {
+    key: "QUARK",
+    label: "夸克网盘",
+    category: "cloud",
+    hosts: ["pan.quark.cn"],
+    hints: ["夸克", "quark"],
+    canonicalHost: "pan.quark.cn",
+    sharePath: /^\/s\/[A-Za-z0-9]+/,
+  },
+  {
+    key: "GUANGYA",
+    label: "光鸭网盘",
+    category: "cloud",
+    hosts: ["pan.guangya.cn"],
+    hints: ["光鸭", "guangya"],
+    canonicalHost: "pan.guangya.cn",
+    sharePath: /^\/s\/[^/?#]+/,
+  },
+  {
+    key: "ALIYUN",
+    label: "阿里云盘",
+    category: "cloud",
+    hosts: ["aliyundrive.com", "alipan.com"],
+    hints: ["阿里", "ali"],
+    canonicalHost: "www.alipan.com",
+    sharePath: /^\/s\/[A-Za-z0-9]+/,
+  },
+  {
+    key: "UC",
+    label: "UC网盘",
+    category: "cloud",
+    hosts: ["drive.uc.cn", "pan.uc.cn"],
+    hints: ["uc"],
+    canonicalHost: "drive.uc.cn",
+    sharePath: /^\/s\/[A-Za-z0-9]+/,
+  },
+  {
+    key: "TIANYI",
+    label: "天翼云盘",
+    category: "cloud",
+    hosts: ["cloud.189.cn"],
+    hints: ["天翼", "tianyi"],
+    canonicalHost: "cloud.189.cn",
+    sharePath: /^\/(?:t\/[A-Za-z0-9]+|web\/share\?code=[A-Za-z0-9]+)/,
+    keepQuery: ["code"],
+  },
+  {
+    key: "MOBILE",
+    label: "移动云盘",
+    category: "cloud",
+    hosts: ["yun.139.com", "caiyun.139.com"],
+    hints: ["移动云盘", "caiyun"],
+    canonicalHost: "yun.139.com",
+    sharePath: /^\/(?:m\/i\?[^#\s]+|w\/i\/[^?#\s]+)/,
+    keepQuery: true,
+  },
+  {
+    key: "115",
+    label: "115网盘",
+    category: "cloud",
+    hosts: ["115cdn.com", "115.com"],
+    hints: ["115"],
+    canonicalHost: "115cdn.com",
+    sharePath: /^\/s\/[A-Za-z0-9]+/,
+  },
+  {
+    key: "PIKPAK",
+    label: "PikPak",
+    category: "cloud",
+    hosts: ["mypikpak.com"],
+    hints: ["pikpak"],
+    canonicalHost: "mypikpak.com",
+    sharePath: /^\/s\/[^?#\s]+/,
+  },
+  {
+    key: "123",
+    label: "123网盘",
+    category: "cloud",
+    hosts: ["123684.com", "123865.com", "123912.com", "123pan.com", "123pan.cn"],
+    hints: ["123"],
+    canonicalHost: "www.123pan.com",
+    sharePath: /^\/s\/[^/?#\s]+/,
+  },
+  {
+    key: "MAGNET",
+    label: "磁力链接",
+    category: "protocol",
+    protocol: "magnet:?",
+  },
+  {
+    key: "ED2K",
+    label: "电驴链接",
+    category: "protocol",
+    protocol: "ed2k://",
+  },
+  {
+    key: "OTHER",
+    label: "外部链接",
+    category: "other",
+  },
+];
+
+export const LINK_SERVICE_KEYS = LINK_SERVICE_DEFINITIONS.map(
+  (definition) => definition.key
+);
+
+export const LINK_SERVICE_NAMES = Object.fromEntries(
+  LINK_SERVICE_DEFINITIONS.map((definition) => [definition.key, definition.label])
+);
+
+export const LINK_SERVICE_HOSTS = Object.fromEntries(
+  LINK_SERVICE_DEFINITIONS.map((definition) => [definition.key, definition.hosts || []])
+);
+
+export const CLOUD_DRIVE_SERVICES = new Set(
+  LINK_SERVICE_DEFINITIONS.filter((definition) => definition.category === "cloud").map(
+    (definition) => definition.key
+  )
+);
+
+export const DIRECT_PROTOCOL_SERVICES = new Set(
+  LINK_SERVICE_DEFINITIONS.filter((definition) => definition.category === "protocol").map(
+    (definition) => definition.key
+  )
+);
+
+const DEFINITIONS_BY_KEY = new Map(
+  LINK_SERVICE_DEFINITIONS.map((definition) => [definition.key, definition])
+);
+
+const PASSWORD_QUERY_PARAMS = ["pwd", "password"];
+const PASSWORD_TEXT_PATTERN = /(?:提取码|访问码|密[码碼])[:：]?\s*([A-Za-z0-9]+)/i;
+const PASSWORD_QUERY_PATTERN = /[?&](?:pwd|password)=((?!undefined\b|null\b)[A-Za-z0-9]+)/i;
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const normalizeHost = (hostname) =>
+  String(hostname || "")
+    .trim()
+    .replace(/\.$/, "")
+    .toLowerCase();
+
+const hostMatches = (hostname, hosts = []) =>
+  hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+
+const parseHttpUrl = (value) => {
+  try {
+    const url = new URL(String(value || "").trim());
+    return ["http:", "https:"].includes(url.protocol) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+export const normalizeLinkService = (service) => {
+  if (!service) {
+    return "OTHER";
+  }
+
+  const normalized = String(service).trim().toUpperCase();
+  return DEFINITIONS_BY_KEY.has(normalized) ? normalized : "OTHER";
+};
+
+export const getLinkServiceDefinition = (service) =>
+  DEFINITIONS_BY_KEY.get(normalizeLinkService(service));
+
+export const getLinkServiceHosts = (service) =>
+  getLinkServiceDefinition(service).hosts || [];
+
+export const getLinkServiceName = (service) =>
+  getLinkServiceDefinition(service).label;
+
+export const detectServiceByHost = (hostname) => {
+  const normalizedHost = normalizeHost(hostname);
+  if (!normalizedHost) {
+    return "OTHER";
+  }
+
+  const definition = LINK_SERVICE_DEFINITIONS.find((item) =>
+    hostMatches(normalizedHost, item.hosts)
+  );
+  return definition?.key || "OTHER";
+};
+
+/**
+ * 按来源站点给出的网盘名称提示（如“百度”“quark”）识别网盘，用于链接本身无法识别的场景。
+ */
+export const detectLinkServiceByHint = (hint) => {
+  const normalizedHint = String(hint || "").trim().toLowerCase();
+  if (!normalizedHint) {
+    return "OTHER";
+  }
+
+  const definition = LINK_SERVICE_DEFINITIONS.find((item) =>
+    (item.hints || []).some((keyword) => normalizedHint.includes(keyword))
+  );
+  return definition?.key || "OTHER";
+};
+
+/**
+ * 按协议或域名识别链接所属网盘；无法识别时返回 fallback（默认 OTHER）。
+ * 只匹配真实主机名，`pan.quark.cn.evil.example` 这类伪造域名不会被识别为夸克。
+ */
+export const detectLinkService = (link, fallbackService) => {
+  const fallback = normalizeLinkService(fallbackService);
+  const value = String(link || "").trim();
+  if (!value) {
+    return fallback;
+  }
+
+  const lowerValue = value.toLowerCase();
+  const protocolDefinition = LINK_SERVICE_DEFINITIONS.find(
+    (definition) => definition.protocol && lowerValue.startsWith(definition.protocol)
+  );
+  if (protocolDefinition) {
+    return protocolDefinition.key;
+  }
+
+  const url = parseHttpUrl(value) || parseHttpUrl(`https://${value.replace(/^\/+/, "")}`);
+  const service = url ? detectServiceByHost(url.hostname) : "OTHER";
+  return service === "OTHER" ? fallback : service;
+};
+
+export const isDirectProtocolLink = (link) =>
+  DIRECT_PROTOCOL_SERVICES.has(detectLinkService(link));
+
+export const isCloudDriveService = (service) =>
+  CLOUD_DRIVE_SERVICES.has(normalizeLinkService(service));
+
+export const getLinkCategoryName = (service) => {
+  const normalized = normalizeLinkService(service);
+
+  if (DIRECT_PROTOCOL_SERVICES.has(normalized)) {
+    return "下载协议";
+  }
+
+  if (CLOUD_DRIVE_SERVICES.has(normalized)) {
+    return "网盘链接";
+  }
+
+  return "外部链接";
+};
+
+/**
+ * 判断链接是否符合对应网盘的分享链接形态（如 `/s/<id>`），首页、登录页等不算分享链接。
+ */
+export const isShareLink = (link, service = detectLinkService(link)) => {
+  const definition = getLinkServiceDefinition(service);
+  if (definition.protocol) {
+    return String(link || "").trim().toLowerCase().startsWith(definition.protocol);
+  }
+
+  if (!definition.sharePath) {
+    return false;
+  }
+
+  const url = parseHttpUrl(link);
+  if (!url || !hostMatches(normalizeHost(url.hostname), definition.hosts)) {
+    return false;
+  }
+
+  return definition.sharePath.test(`${url.pathname}${url.search}`);
+};
+
+/**
+ * 从链接参数（?pwd= / ?password=）或所在文本（提取码：xxxx）中提取分享密码。
+ */
+export const extractLinkPassword = (link, text = "") =>
+  String(link || "").match(PASSWORD_QUERY_PATTERN)?.[1] ||
+  String(text || "").match(PASSWORD_TEXT_PATTERN)?.[1] ||
+  undefined;
+
+const canonicalizeMagnet = (value) => {
+  const hash = value.match(/xt=urn:btih:([A-Za-z0-9]+)/i)?.[1];
+  return hash ? `magnet:?xt=urn:btih:${hash.toLowerCase()}` : value.toLowerCase();
+};
+
+/**
+ * 生成用于去重的规范化链接：统一协议和镜像域名、去掉提取码与无关参数、去掉末尾斜杠。
+ * 同一个分享在不同镜像域名（如 aliyundrive.com / alipan.com）下得到相同结果。
+ */
+export const canonicalizeShareLink = (link, service = detectLinkService(link)) => {
+  const value = String(link || "").trim();
+  if (!value) {
+    return "";
+  }
+
+  const normalizedService = normalizeLinkService(service);
+  if (normalizedService === "MAGNET") {
+    return canonicalizeMagnet(value);
+  }
+
+  if (normalizedService === "ED2K") {
+    return value.replace(/\/+$/, "").toLowerCase();
+  }
+
+  const url = parseHttpUrl(value);
+  if (!url) {
+    return value.replace(/\/+$/, "");
+  }
+
+  const definition = getLinkServiceDefinition(normalizedService);
+  const host = definition.canonicalHost || normalizeHost(url.hostname).replace(/^www\./, "");
+  const pathname = url.pathname.replace(/\/+$/, "");
+  let search = "";
+
+  if (definition.keepQuery === true) {
+    search = url.search;
+  } else {
+    const keptParams = definition.keepQuery
+      ? definition.keepQuery
+      : normalizedService === "OTHER"
+        ? [...url.searchParams.keys()].filter((key) => !PASSWORD_QUERY_PARAMS.includes(key))
+        : [];
+    const params = new URLSearchParams();
+    keptParams.forEach((key) => {
+      const paramValue = url.searchParams.get(key);
+      if (paramValue) {
+        params.set(key, paramValue);
+      }
+    });
+    search = params.toString() ? `?${params.toString()}` : "";
+  }
+
+  return `https://${host}${pathname}${search}`;
+};
+
+/**
+ * 构建从任意文本中抓取网盘/磁力/电驴链接的全局正则，域名列表来自注册表。
+ */
+export const buildShareLinkRegex = () => {
+  const hostPattern = LINK_SERVICE_DEFINITIONS.flatMap((definition) => definition.hosts || [])
+    .map((host) => `(?:[a-z0-9-]+\\.)*${escapeRegExp(host)}`)
+    .join("|");
+
+  return new RegExp(
+    `https?:\\/\\/(?:${hostPattern})\\/[^\\s<>"']+|magnet:\\?[^\\s<>"']+|ed2k:\\/\\/[^\\s<>"']+`,
+    "gi"
+  );
+};
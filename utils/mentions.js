@@ -0,0 +1,117 @@
+/**
+ * @提及解析。
+ *
+ * 论坛主题、回复和聊天消息共用同一套规则：服务端据此发提及通知，前端据此把 @用户名 渲染成主页链接，
+ * 两边识别结果保持一致。
+ */
+
+// 一条内容最多通知的人数，避免一次 @ 一长串用户刷通知
+export const MENTION_MAX_PER_CONTENT = 10;
+
+// @ 前面必须是开头或非用户名字符，排除邮箱（a@b.com）和连续的 @@
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@./])@([\p{L}\p{N}_][\p{L}\p{N}_.-]{0,31})/gu;
+// 代码块、行内代码和已有的 Markdown 链接里的 @ 不算提及
+const MARKDOWN_SKIP_PATTERN = /```[\s\S]*?(?:```|$)|`[^`\n]*`|!?\[[^\]\n]*\]\([^)\n]*\)/g;
+
+// 句末的 . 和 - 不属于用户名，如 "@bob." → bob
+const trimMentionName = (name) => name.replace(/[.-]+$/, "");
+
+export const buildMentionProfilePath = (username) => `/forum/user/${encodeURIComponent(username)}`;
+
+function splitMarkdown(markdown) {
+  const chunks = [];
+  let lastIndex = 0;
+
+  for (const match of markdown.matchAll(MARKDOWN_SKIP_PATTERN)) {
+    if (match.index > lastIndex) {
+      chunks.push({ text: markdown.slice(lastIndex, match.index), skip: false });
+    }
+    chunks.push({ text: match[0], skip: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < markdown.length) {
+    chunks.push({ text: markdown.slice(lastIndex), skip: false });
+  }
+  return chunks;
+}
+
+/**
+ * 把纯文本拆成文本段和提及段，聊天消息用它渲染，不需要 v-html
+ */
+export function splitMentionSegments(text) {
+  const source = String(text || "");
+  const segments = [];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(MENTION_PATTERN)) {
+    const username = trimMentionName(match[2]);
+    if (!username) {
+      continue;
+    }
+
+    const start = match.index + match[1].length;
+    if (start > lastIndex) {
+      segments.push({ type: "text", text: source.slice(lastIndex, start) });
+    }
+    segments.push({ type: "mention", text: `@${username}`, username });
+    lastIndex = start + username.length + 1;
+  }
+
+  if (lastIndex < source.length) {
+    segments.push({ type: "text", text: source.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * 提取被提及的用户名，按首次出现的顺序去重（不区分大小写）
+ */
+export function extractMentions(content, { markdown = true, max = MENTION_MAX_PER_CONTENT } = {}) {
+  const source = String(content || "");
+  const chunks = markdown ? splitMarkdown(source) : [{ text: source, skip: false }];
+  const seen = new Set();
+  const usernames = [];
+
+  for (const chunk of chunks) {
+    if (chunk.skip) {
+      continue;
+    }
+
+    for (const segment of splitMentionSegments(chunk.text)) {
+      const key = segment.username?.toLowerCase();
+      if (!key || seen.has(key)) {
+        continue;
+      }
+
+      seen.add(key);
+      usernames.push(segment.username);
+      if (usernames.length >= max) {
+        return usernames;
+      }
+    }
+  }
+
+  return usernames;
+}
+
+/**
+ * 在 Markdown 渲染前把 @用户名 换成主页链接，代码和已有链接保持原样
+ */
+export function linkifyMentions(markdown) {
+  return splitMarkdown(String(markdown || ""))
+    .map((chunk) => {
+      if (chunk.skip) {
+        return chunk.text;
+      }
+
+      return splitMentionSegments(chunk.text)
+        .map((segment) =>
+          segment.type === "mention"
+            ? `[${segment.text}](${buildMentionProfilePath(segment.username)})`
+            : segment.text
+        )
+        .join("");
+    })
+    .join("");
+}